@@ -0,0 +1,135 @@
+#!/usr/bin/env bun
+/**
+ * Reference print agent for local testing of /api/print/agents/ws.
+ *
+ * Connects with an API key that has the print:agent permission, registers a
+ * couple of fake printers, and acknowledges every print command it receives.
+ * Payloads are written to --out-dir so the rendered output can be inspected.
+ *
+ * Usage:
+ *   AGENT_API_KEY=<key> bun run scripts/print-agent-simulator.ts [options]
+ *
+ * Options:
+ *   --url <ws-url>       Agent socket URL (default: ws://localhost:3000/api/print/agents/ws)
+ *   --name <name>        Agent name (default: simulator-<hostname>)
+ *   --out-dir <path>     Directory for received payloads (default: $TMPDIR/asset-label-agent)
+ *   --fail-rate <0..1>   Fraction of dispatches to report as failed (default: 0)
+ *   --delay <ms>         Simulated print time per dispatch (default: 500)
+ */
+import { mkdir } from "fs/promises";
+import { hostname, tmpdir } from "os";
+import path from "path";
+import { parseArgs } from "util";
+
+import type {
+  AgentMessage,
+  DispatchStatus,
+  PrinterInfo,
+  ServerMessage,
+  ServerPrintCommand,
+} from "../src/types/print-agent";
+
+const { values } = parseArgs({
+  args: Bun.argv.slice(2),
+  options: {
+    url: { type: "string", default: "ws://localhost:3000/api/print/agents/ws" },
+    name: { type: "string", default: `simulator-${hostname()}` },
+    "out-dir": { type: "string", default: path.join(tmpdir(), "asset-label-agent") },
+    "fail-rate": { type: "string", default: "0" },
+    delay: { type: "string", default: "500" },
+  },
+});
+
+const apiKey = process.env.AGENT_API_KEY;
+if (!apiKey) {
+  console.error("AGENT_API_KEY is required (create an API key with the print:agent permission)");
+  process.exit(1);
+}
+
+const outDir = path.resolve(values["out-dir"]!);
+const failRate = Number(values["fail-rate"]) || 0;
+const delayMs = Number(values.delay) || 0;
+const HEARTBEAT_MS = 30 * 1000;
+
+const PRINTERS: PrinterInfo[] = [
+  { name: "Simulated Zebra ZT410", location: "Warehouse", driver: "zebra", languages: ["zpl", "pdf"], dpi: 203, isDefault: true },
+  { name: "Simulated Office Laser", location: "Front Office", driver: "generic", languages: ["pdf"], dpi: 600 },
+];
+
+const EXTENSIONS: Record<ServerPrintCommand["format"], string> = {
+  pdf: "pdf",
+  zpl: "zpl",
+  epl: "epl",
+};
+
+await mkdir(outDir, { recursive: true });
+
+// Bun extends the WebSocket constructor with a `headers` option; the DOM typings don't know about it.
+const socket = new WebSocket(values.url!, { headers: { "x-api-key": apiKey } } as unknown as string[]);
+
+function send(message: AgentMessage) {
+  socket.send(JSON.stringify(message));
+}
+
+function reportStatus(dispatchId: string, status: DispatchStatus, error?: string) {
+  send({ type: "status", dispatchId, status, error });
+  console.log(`[agent] ${dispatchId} -> ${status}${error ? ` (${error})` : ""}`);
+}
+
+async function handlePrint(command: ServerPrintCommand) {
+  console.log(`[agent] print ${command.format} for job ${command.printJobId} on ${command.printerName ?? "default printer"}`);
+  reportStatus(command.dispatchId, "ack");
+
+  try {
+    const file = path.join(outDir, `${command.dispatchId}.${EXTENSIONS[command.format]}`);
+    await Bun.write(file, Buffer.from(command.data, "base64"));
+
+    reportStatus(command.dispatchId, "printing");
+    await Bun.sleep(delayMs);
+
+    if (Math.random() < failRate) {
+      reportStatus(command.dispatchId, "failed", "Simulated printer fault");
+      return;
+    }
+
+    reportStatus(command.dispatchId, "completed");
+    console.log(`[agent] wrote ${file}`);
+  } catch (error) {
+    reportStatus(command.dispatchId, "failed", error instanceof Error ? error.message : "Print failed");
+  }
+}
+
+let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+socket.addEventListener("open", () => {
+  console.log(`[agent] connected to ${values.url}`);
+  send({ type: "hello", agentName: values.name!, version: "simulator-1.0.0", printers: PRINTERS });
+  heartbeat = setInterval(() => send({ type: "heartbeat", timestamp: Date.now() }), HEARTBEAT_MS);
+});
+
+socket.addEventListener("message", (event) => {
+  const message = JSON.parse(String(event.data)) as ServerMessage;
+
+  switch (message.type) {
+    case "registered":
+      console.log(`[agent] registered as ${message.agentId} with printers: ${message.printers.map((p) => p.name).join(", ")}`);
+      break;
+    case "ping":
+      send({ type: "heartbeat", timestamp: Date.now() });
+      break;
+    case "print":
+      void handlePrint(message);
+      break;
+    case "error":
+      console.error(`[agent] server error: ${message.message}`);
+      break;
+  }
+});
+
+socket.addEventListener("close", (event) => {
+  clearInterval(heartbeat);
+  console.log(`[agent] disconnected (${event.code}${event.reason ? `: ${event.reason}` : ""})`);
+  process.exit(event.code === 1000 ? 0 : 1);
+});
+
+process.on("SIGINT", () => socket.close(1000, "Simulator stopped"));
@@ -10,36 +10,44 @@ export type AuthenticatedHandler = (req: Request, ctx: TenantContext) => Promise
 
 const UNAUTHORIZED_RESPONSE = { error: "Unauthorized" };
 
+export async function resolveSessionContext(req: Request): Promise<TenantContext | null> {
+  const cookies = parseCookies(req.headers.get("cookie") ?? "");
+  const accessToken = cookies["access_token"];
+
+  if (!accessToken) {
+    return null;
+  }
+
+  const payload = await verifyAccessToken(accessToken);
+  if (!payload) {
+    return null;
+  }
+
+  const sessionInfo = await getSessionInfo(payload.sid, payload.tid);
+  if (!sessionInfo) {
+    return null;
+  }
+
+  if (sessionInfo.userId !== payload.sub || sessionInfo.tenantId !== payload.tid) {
+    return null;
+  }
+
+  return {
+    tenantId: sessionInfo.tenantId,
+    userId: sessionInfo.userId,
+    sessionId: sessionInfo.sessionId,
+    permissions: getPermissionsForRole(sessionInfo.role),
+  };
+}
+
 export function withAuth(handler: AuthenticatedHandler): RouteHandler {
   return async (req: Request): Promise<Response> => {
-    const cookies = parseCookies(req.headers.get("cookie") ?? "");
-    const accessToken = cookies["access_token"];
-
-    if (!accessToken) {
-      return Response.json(UNAUTHORIZED_RESPONSE, { status: 401 });
-    }
-
-    const payload = await verifyAccessToken(accessToken);
-    if (!payload) {
-      return Response.json(UNAUTHORIZED_RESPONSE, { status: 401 });
-    }
-
-    const sessionInfo = await getSessionInfo(payload.sid, payload.tid);
-    if (!sessionInfo) {
-      return Response.json(UNAUTHORIZED_RESPONSE, { status: 401 });
-    }
+    const ctx = await resolveSessionContext(req);
 
-    if (sessionInfo.userId !== payload.sub || sessionInfo.tenantId !== payload.tid) {
+    if (!ctx) {
       return Response.json(UNAUTHORIZED_RESPONSE, { status: 401 });
     }
 
-    const ctx: TenantContext = {
-      tenantId: sessionInfo.tenantId,
-      userId: sessionInfo.userId,
-      sessionId: sessionInfo.sessionId,
-      permissions: getPermissionsForRole(sessionInfo.role),
-    };
-
     setTenantContext(req, ctx);
 
     return handler(req, ctx);
@@ -50,36 +58,12 @@ export function withOptionalAuth(
   handler: (req: Request, ctx: TenantContext | null) => Promise<Response> | Response
 ): RouteHandler {
   return async (req: Request): Promise<Response> => {
-    const cookies = parseCookies(req.headers.get("cookie") ?? "");
-    const accessToken = cookies["access_token"];
-
-    if (!accessToken) {
-      return handler(req, null);
-    }
-
-    const payload = await verifyAccessToken(accessToken);
-    if (!payload) {
-      return handler(req, null);
-    }
+    const ctx = await resolveSessionContext(req);
 
-    const sessionInfo = await getSessionInfo(payload.sid, payload.tid);
-    if (!sessionInfo) {
-      return handler(req, null);
+    if (ctx) {
+      setTenantContext(req, ctx);
     }
 
-    if (sessionInfo.userId !== payload.sub || sessionInfo.tenantId !== payload.tid) {
-      return handler(req, null);
-    }
-
-    const ctx: TenantContext = {
-      tenantId: sessionInfo.tenantId,
-      userId: sessionInfo.userId,
-      sessionId: sessionInfo.sessionId,
-      permissions: getPermissionsForRole(sessionInfo.role),
-    };
-
-    setTenantContext(req, ctx);
-
     return handler(req, ctx);
   };
 }
@@ -0,0 +1,166 @@
+import { z } from "zod";
+
+import { withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import { MAX_TAG_PATTERN_LENGTH } from "@/lib/asset-tag-pattern";
+import {
+  listAssetTagPatterns,
+  createAssetTagPattern,
+  updateAssetTagPattern,
+  deleteAssetTagPattern,
+  previewAssetTag,
+} from "@/services/asset-tag-service";
+import { EQUIPMENT_CATEGORIES, type EquipmentCategory } from "@/types/asset";
+import { PERMISSIONS } from "@/types/permissions";
+
+import type { TenantContext } from "@/types/tenant";
+
+const equipmentCategoryValues = Object.values(EQUIPMENT_CATEGORIES) as [EquipmentCategory, ...EquipmentCategory[]];
+
+const createPatternSchema = z.object({
+  category: z.enum(equipmentCategoryValues),
+  pattern: z.string().trim().min(1).max(MAX_TAG_PATTERN_LENGTH),
+  description: z.string().max(500).nullable().optional(),
+});
+
+const updatePatternSchema = createPatternSchema.omit({ category: true }).partial();
+
+const previewSchema = z.object({
+  category: z.enum(equipmentCategoryValues),
+  type: z.string().optional(),
+  manufacturer: z.string().optional(),
+  model: z.string().optional(),
+  serialNumber: z.string().optional(),
+  location: z.string().optional(),
+  department: z.string().nullable().optional(),
+  assignedTo: z.string().nullable().optional(),
+  status: z.string().optional(),
+  customFields: z.record(z.string(), z.unknown()).optional(),
+});
+
+function getPatternErrorStatus(message: string): number | null {
+  if (message.startsWith("Invalid tag pattern")) return 400;
+  if (message === "Category already has a tag pattern") return 409;
+  return null;
+}
+
+export const handleListAssetTagPatterns = withAuth(
+  requirePermission(PERMISSIONS.ASSET_READ, async (_req: Request, ctx: TenantContext) => {
+    try {
+      const patterns = await listAssetTagPatterns(ctx);
+      return Response.json({ patterns });
+    } catch (error) {
+      console.error("List asset tag patterns error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleCreateAssetTagPattern = withAuth(
+  requirePermission(PERMISSIONS.TENANT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = createPatternSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const pattern = await createAssetTagPattern(ctx, parsed.data);
+
+      return Response.json({ pattern }, { status: 201 });
+    } catch (error) {
+      const status = error instanceof Error ? getPatternErrorStatus(error.message) : null;
+      if (status && error instanceof Error) {
+        return Response.json({ error: error.message }, { status });
+      }
+      console.error("Create asset tag pattern error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleUpdateAssetTagPattern = withAuth(
+  requirePermission(PERMISSIONS.TENANT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const patternId = url.pathname.split("/").pop();
+
+      if (!patternId) {
+        return Response.json({ error: "Tag pattern ID required" }, { status: 400 });
+      }
+
+      const body = await req.json();
+      const parsed = updatePatternSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const pattern = await updateAssetTagPattern(ctx, patternId, parsed.data);
+      if (!pattern) {
+        return Response.json({ error: "Tag pattern not found" }, { status: 404 });
+      }
+
+      return Response.json({ pattern });
+    } catch (error) {
+      const status = error instanceof Error ? getPatternErrorStatus(error.message) : null;
+      if (status && error instanceof Error) {
+        return Response.json({ error: error.message }, { status });
+      }
+      console.error("Update asset tag pattern error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleDeleteAssetTagPattern = withAuth(
+  requirePermission(PERMISSIONS.TENANT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const patternId = url.pathname.split("/").pop();
+
+      if (!patternId) {
+        return Response.json({ error: "Tag pattern ID required" }, { status: 400 });
+      }
+
+      const success = await deleteAssetTagPattern(ctx, patternId);
+      if (!success) {
+        return Response.json({ error: "Tag pattern not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true });
+    } catch (error) {
+      console.error("Delete asset tag pattern error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handlePreviewAssetTag = withAuth(
+  requirePermission(PERMISSIONS.ASSET_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = previewSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const preview = await previewAssetTag(ctx, parsed.data);
+      return Response.json({ preview });
+    } catch (error) {
+      console.error("Preview asset tag error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
@@ -68,6 +68,10 @@ export const handleCreateAsset = withAuth(
       const asset = await createAsset(ctx, parsed.data);
       return Response.json({ asset }, { status: 201 });
     } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Asset tag")) {
+        const status = error.message.startsWith("Asset tag sequence") || /is already (claimed|in use)$/.test(error.message) ? 409 : 400;
+        return Response.json({ error: error.message }, { status });
+      }
       console.error("Create asset error:", error);
       return Response.json({ error: "Internal server error" }, { status: 500 });
     }
@@ -101,6 +105,10 @@ export const handleUpdateAsset = withAuth(
 
       return Response.json({ asset });
     } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Asset tag")) {
+        const status = /is already (claimed|in use)$/.test(error.message) ? 409 : 400;
+        return Response.json({ error: error.message }, { status });
+      }
       console.error("Update asset error:", error);
       return Response.json({ error: "Internal server error" }, { status: 500 });
     }
@@ -8,7 +8,7 @@ import {
   serializeClearCookie,
   COOKIE_PATHS,
 } from "@/lib/auth";
-import { getTenantBySlug } from "@/lib/tenant";
+import { getTenantBySlug, getTenantSettings } from "@/lib/tenant";
 import { login, refreshSession, logout, getUserById } from "@/services/auth-service";
 import { withAuth } from "@/api/middleware/auth";
 
@@ -156,6 +156,8 @@ export const handleGetMe = withAuth(
         return Response.json({ error: "User not found" }, { status: 404 });
       }
 
+      const { timezone, dateFormat } = await getTenantSettings(ctx.tenantId);
+
       return Response.json({
         user: {
           id: user.id,
@@ -164,6 +166,7 @@ export const handleGetMe = withAuth(
           role: user.role,
         },
         permissions: ctx.permissions,
+        dateSettings: { timezone, dateFormat },
       });
     } catch (error) {
       console.error("Get me error:", error);
@@ -0,0 +1,211 @@
+import { z } from "zod";
+
+import { withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import {
+  listCloudPrintProviders,
+  getCloudPrintProvider,
+  createCloudPrintProvider,
+  updateCloudPrintProvider,
+  deleteCloudPrintProvider,
+  getRegisteredCloudPrintProviders,
+  submitCloudPrintJob,
+} from "@/services/cloud-print-service";
+import { PERMISSIONS } from "@/types/permissions";
+import { PRINTER_LANGUAGES, type PrinterLanguage } from "@/types/print-agent";
+
+import type { TenantContext } from "@/types/tenant";
+
+const languageValues = Object.values(PRINTER_LANGUAGES) as [string, ...string[]];
+
+const createProviderSchema = z.object({
+  provider: z.string().min(1).max(50),
+  name: z.string().min(1).max(255),
+  config: z.record(z.string(), z.unknown()).default({}),
+  isActive: z.boolean().optional(),
+});
+
+const updateProviderSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  config: z.record(z.string(), z.unknown()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const submitSchema = z.object({
+  providerId: z.string().uuid(),
+  format: z.enum(languageValues).optional(),
+});
+
+function isClientError(error: unknown): boolean {
+  return error instanceof Error && (
+    error.message.startsWith("Unsupported cloud print provider") ||
+    error.message.startsWith("Invalid provider config")
+  );
+}
+
+export const handleListCloudPrintProviders = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (_req: Request, ctx: TenantContext) => {
+    try {
+      const providers = await listCloudPrintProviders(ctx);
+      return Response.json({ providers, available: getRegisteredCloudPrintProviders() });
+    } catch (error) {
+      console.error("List cloud print providers error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleGetCloudPrintProvider = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const providerId = url.pathname.split("/").pop();
+
+      if (!providerId) {
+        return Response.json({ error: "Provider ID required" }, { status: 400 });
+      }
+
+      const provider = await getCloudPrintProvider(ctx, providerId);
+      if (!provider) {
+        return Response.json({ error: "Cloud print provider not found" }, { status: 404 });
+      }
+
+      return Response.json({ provider });
+    } catch (error) {
+      console.error("Get cloud print provider error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleCreateCloudPrintProvider = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = createProviderSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const provider = await createCloudPrintProvider(ctx, parsed.data);
+      return Response.json({ provider }, { status: 201 });
+    } catch (error) {
+      if (isClientError(error)) {
+        return Response.json({ error: (error as Error).message }, { status: 400 });
+      }
+      console.error("Create cloud print provider error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleUpdateCloudPrintProvider = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const providerId = url.pathname.split("/").pop();
+
+      if (!providerId) {
+        return Response.json({ error: "Provider ID required" }, { status: 400 });
+      }
+
+      const body = await req.json();
+      const parsed = updateProviderSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const provider = await updateCloudPrintProvider(ctx, providerId, parsed.data);
+      if (!provider) {
+        return Response.json({ error: "Cloud print provider not found" }, { status: 404 });
+      }
+
+      return Response.json({ provider });
+    } catch (error) {
+      if (isClientError(error)) {
+        return Response.json({ error: (error as Error).message }, { status: 400 });
+      }
+      console.error("Update cloud print provider error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleDeleteCloudPrintProvider = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const providerId = url.pathname.split("/").pop();
+
+      if (!providerId) {
+        return Response.json({ error: "Provider ID required" }, { status: 400 });
+      }
+
+      const success = await deleteCloudPrintProvider(ctx, providerId);
+      if (!success) {
+        return Response.json({ error: "Cloud print provider not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("deactivate it instead")) {
+        return Response.json({ error: error.message }, { status: 409 });
+      }
+      console.error("Delete cloud print provider error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleSubmitCloudPrintJob = withAuth(
+  requirePermission(PERMISSIONS.PRINT_EXECUTE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const pathParts = url.pathname.split("/");
+      const jobId = pathParts[pathParts.length - 2];
+
+      if (!jobId) {
+        return Response.json({ error: "Job ID required" }, { status: 400 });
+      }
+
+      const body = await req.json();
+      const parsed = submitSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const dispatch = await submitCloudPrintJob(ctx, jobId, {
+        providerId: parsed.data.providerId,
+        format: parsed.data.format as PrinterLanguage | undefined,
+      });
+
+      return Response.json({ dispatch }, { status: 202 });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Print job not found" || error.message === "Cloud print provider not found") {
+          return Response.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message === "Cloud print provider is inactive" || isClientError(error)) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+        if (error.message.startsWith("Cloud print submission failed")) {
+          return Response.json({ error: error.message }, { status: 502 });
+        }
+      }
+      console.error("Submit cloud print job error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+import { withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import { FontFileError } from "@/lib/font-file";
+import { listFonts, uploadFont, deleteFont, getFontFile, getFontMimeType } from "@/services/font-service";
+import { PERMISSIONS } from "@/types/permissions";
+import { MAX_FONT_FILE_SIZE } from "@/types/font";
+
+import type { TenantContext } from "@/types/tenant";
+
+const uploadFontSchema = z.object({
+  family: z.string().trim().min(1).max(100).optional(),
+  weight: z.enum(["normal", "bold"]).optional(),
+  style: z.enum(["normal", "italic"]).optional(),
+});
+
+export const handleListFonts = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_READ, async (_req: Request, ctx: TenantContext) => {
+    try {
+      const fonts = await listFonts(ctx);
+      return Response.json({ fonts });
+    } catch (error) {
+      console.error("List fonts error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleUploadFont = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const formData = await req.formData();
+      const file = formData.get("file") as File | null;
+
+      if (!file) {
+        return Response.json({ error: "File is required" }, { status: 400 });
+      }
+
+      if (file.size > MAX_FONT_FILE_SIZE) {
+        return Response.json(
+          { error: `File too large. Maximum size is ${MAX_FONT_FILE_SIZE / 1024 / 1024}MB` },
+          { status: 400 }
+        );
+      }
+
+      const parsed = uploadFontSchema.safeParse({
+        family: formData.get("family") || undefined,
+        weight: formData.get("weight") || undefined,
+        style: formData.get("style") || undefined,
+      });
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const font = await uploadFont(ctx, {
+        fileName: file.name,
+        data: Buffer.from(await file.arrayBuffer()),
+        ...parsed.data,
+      });
+
+      return Response.json({ font }, { status: 201 });
+    } catch (error) {
+      if (error instanceof FontFileError || (error instanceof Error && error.message.startsWith("Invalid file type"))) {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
+      if (error instanceof Error && error.message === "Font face already exists") {
+        return Response.json({ error: error.message }, { status: 409 });
+      }
+      console.error("Upload font error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleDeleteFont = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const fontId = url.pathname.split("/").pop();
+
+      if (!fontId) {
+        return Response.json({ error: "Font ID required" }, { status: 400 });
+      }
+
+      const success = await deleteFont(ctx, fontId);
+      if (!success) {
+        return Response.json({ error: "Font not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true });
+    } catch (error) {
+      console.error("Delete font error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+/**
+ * Serves the font file for the designer preview's @font-face rules. Files
+ * never change for a font id, so browsers may cache them.
+ */
+export const handleGetFontFile = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const pathParts = url.pathname.split("/");
+      const fontId = pathParts[pathParts.length - 2];
+
+      if (!fontId) {
+        return Response.json({ error: "Font ID required" }, { status: 400 });
+      }
+
+      const file = await getFontFile(ctx, fontId);
+      if (!file) {
+        return Response.json({ error: "Font not found" }, { status: 404 });
+      }
+
+      return new Response(new Uint8Array(file.data), {
+        headers: {
+          "Content-Type": getFontMimeType(file.font),
+          "Content-Length": String(file.data.length),
+          "Cache-Control": "private, max-age=86400, immutable",
+        },
+      });
+    } catch (error) {
+      console.error("Get font file error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
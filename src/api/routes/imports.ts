@@ -5,15 +5,23 @@ import { requirePermission } from "@/api/middleware/permissions";
 import {
   createImportJob,
   getImportJob,
+  failAbandonedImportJob,
+  toImportJobProgress,
   listImportJobs,
   getImportJobErrors,
   createImportTemplate,
   listImportTemplates,
   deleteImportTemplate,
 } from "@/services/import-service";
-import { exportAssets } from "@/services/export-service";
+import {
+  exportAssets,
+  createExportJob,
+  getExportJob,
+  getExportJobDownload,
+  listExportJobs,
+} from "@/services/export-service";
 import { PERMISSIONS } from "@/types/permissions";
-import { IMPORT_SOURCE_TYPES, EXPORT_FORMATS } from "@/types/import-export";
+import { IMPORT_SOURCE_TYPES, IMPORT_JOB_STATUS, EXPORT_FORMATS } from "@/types/import-export";
 
 import type { TenantContext } from "@/types/tenant";
 import type { ImportSourceType, ExportFormat, ImportTemplateMapping } from "@/types/import-export";
@@ -46,6 +54,11 @@ const exportFiltersSchema = z.object({
   search: z.string().optional(),
 });
 
+const createExportJobSchema = z.object({
+  format: z.enum(exportFormatValues),
+  filters: exportFiltersSchema.optional(),
+});
+
 export const handleListImportJobs = withAuth(
   requirePermission(PERMISSIONS.IMPORT_EXECUTE, async (req: Request, ctx: TenantContext) => {
     try {
@@ -85,6 +98,100 @@ export const handleGetImportJob = withAuth(
   })
 );
 
+const PROGRESS_POLL_MS = 1000;
+// Polls between checks that the import's background job is still alive
+const ABANDONED_CHECK_POLLS = 15;
+
+const TERMINAL_IMPORT_STATUSES = new Set<string>([
+  IMPORT_JOB_STATUS.COMPLETED,
+  IMPORT_JOB_STATUS.FAILED,
+  IMPORT_JOB_STATUS.CANCELLED,
+]);
+
+export const handleImportJobProgress = withAuth(
+  requirePermission(PERMISSIONS.IMPORT_EXECUTE, async (req: Request, ctx: TenantContext) => {
+    const url = new URL(req.url);
+    const pathParts = url.pathname.split("/");
+    const jobId = pathParts[pathParts.length - 2];
+
+    if (!jobId) {
+      return Response.json({ error: "Job ID required" }, { status: 400 });
+    }
+
+    const initial = await getImportJob(ctx, jobId);
+    if (!initial) {
+      return Response.json({ error: "Import job not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (chunk: string) => {
+          if (!req.signal.aborted) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        };
+        const send = (event: string, data: unknown) => {
+          write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        let job = initial;
+        let lastPayload = "";
+        let polls = 0;
+
+        try {
+          while (!req.signal.aborted) {
+            const progress = toImportJobProgress(job);
+            const payload = JSON.stringify(progress);
+
+            if (payload !== lastPayload) {
+              send("progress", progress);
+              lastPayload = payload;
+            } else {
+              write(": keep-alive\n\n");
+            }
+
+            if (TERMINAL_IMPORT_STATUSES.has(job.status)) {
+              send("done", progress);
+              break;
+            }
+
+            await Bun.sleep(PROGRESS_POLL_MS);
+
+            const next = await getImportJob(ctx, jobId);
+            if (!next) {
+              send("error", { error: "Import job not found" });
+              break;
+            }
+            job = next;
+
+            // An import whose background job gave up would otherwise poll forever
+            if (++polls % ABANDONED_CHECK_POLLS === 0 && !TERMINAL_IMPORT_STATUSES.has(job.status)) {
+              job = (await failAbandonedImportJob(ctx, jobId)) ?? job;
+            }
+          }
+        } catch (error) {
+          console.error("Import progress stream error:", error);
+          send("error", { error: "Internal server error" });
+        } finally {
+          if (!req.signal.aborted) {
+            controller.close();
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  })
+);
+
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
 export const handleCreateImportJob = withAuth(
@@ -262,3 +369,95 @@ export const handleExportAssets = withAuth(
     }
   })
 );
+
+export const handleCreateExportJob = withAuth(
+  requirePermission(PERMISSIONS.EXPORT_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = createExportJobSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const job = await createExportJob(ctx, {
+        format: parsed.data.format as ExportFormat,
+        filters: parsed.data.filters,
+      });
+
+      return Response.json({ job }, { status: 202 });
+    } catch (error) {
+      console.error("Create export job error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleListExportJobs = withAuth(
+  requirePermission(PERMISSIONS.EXPORT_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const page = parseInt(url.searchParams.get("page") ?? "1", 10);
+      const pageSize = parseInt(url.searchParams.get("pageSize") ?? "20", 10);
+
+      const result = await listExportJobs(ctx, page, pageSize);
+      return Response.json(result);
+    } catch (error) {
+      console.error("List export jobs error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleGetExportJob = withAuth(
+  requirePermission(PERMISSIONS.EXPORT_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const jobId = url.pathname.split("/").pop();
+
+      if (!jobId) {
+        return Response.json({ error: "Job ID required" }, { status: 400 });
+      }
+
+      const job = await getExportJob(ctx, jobId);
+      if (!job) {
+        return Response.json({ error: "Export job not found" }, { status: 404 });
+      }
+
+      return Response.json({ job });
+    } catch (error) {
+      console.error("Get export job error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleGetExportJobDownload = withAuth(
+  requirePermission(PERMISSIONS.EXPORT_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const pathParts = url.pathname.split("/");
+      const jobId = pathParts[pathParts.length - 2];
+
+      if (!jobId) {
+        return Response.json({ error: "Job ID required" }, { status: 400 });
+      }
+
+      const download = await getExportJobDownload(ctx, jobId);
+      if (!download) {
+        return Response.json({ error: "Export output is not available" }, { status: 404 });
+      }
+
+      return Response.json(download);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Export job not found") {
+        return Response.json({ error: error.message }, { status: 404 });
+      }
+      console.error("Get export download error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
@@ -0,0 +1,147 @@
+import { z } from "zod";
+
+import { withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import {
+  listLabelFormats,
+  createLabelFormat,
+  updateLabelFormat,
+  deleteLabelFormat,
+} from "@/services/label-format-service";
+import { PERMISSIONS } from "@/types/permissions";
+import { LABEL_STOCK_TYPES } from "@/types/label-format";
+
+import type { TenantContext } from "@/types/tenant";
+
+const length = z.number().min(0).max(1000);
+
+const createLabelFormatSchema = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9-]{0,49}$/, "Invalid label format key").optional(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  stockType: z.enum([LABEL_STOCK_TYPES.SHEET, LABEL_STOCK_TYPES.ROLL]),
+  unit: z.enum(["mm", "in"]),
+  width: z.number().positive().max(1000),
+  height: z.number().positive().max(1000),
+  cornerRadius: length,
+  paperWidth: z.number().positive().max(1000).nullable(),
+  paperHeight: z.number().positive().max(1000).nullable(),
+  columns: z.number().int().min(1).max(50),
+  rows: z.number().int().min(1).max(50),
+  marginTop: length,
+  marginLeft: length,
+  horizontalGap: length,
+  verticalGap: length,
+});
+
+const updateLabelFormatSchema = createLabelFormatSchema.omit({ key: true }).partial();
+
+function getLabelFormatErrorStatus(message: string): number | null {
+  if (message.startsWith("Invalid label format")) return 400;
+  if (message.startsWith("System label formats")) return 403;
+  if (message === "Label format key already exists" || message === "Label format is used by templates") return 409;
+  return null;
+}
+
+export const handleListLabelFormats = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_READ, async (_req: Request, ctx: TenantContext) => {
+    try {
+      const formats = await listLabelFormats(ctx);
+      return Response.json({ formats });
+    } catch (error) {
+      console.error("List label formats error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleCreateLabelFormat = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = createLabelFormatSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const format = await createLabelFormat(ctx, parsed.data);
+
+      return Response.json({ format }, { status: 201 });
+    } catch (error) {
+      const status = error instanceof Error ? getLabelFormatErrorStatus(error.message) : null;
+      if (status && error instanceof Error) {
+        return Response.json({ error: error.message }, { status });
+      }
+      console.error("Create label format error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleUpdateLabelFormat = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const formatId = url.pathname.split("/").pop();
+
+      if (!formatId) {
+        return Response.json({ error: "Label format ID required" }, { status: 400 });
+      }
+
+      const body = await req.json();
+      const parsed = updateLabelFormatSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const format = await updateLabelFormat(ctx, formatId, parsed.data);
+      if (!format) {
+        return Response.json({ error: "Label format not found" }, { status: 404 });
+      }
+
+      return Response.json({ format });
+    } catch (error) {
+      const status = error instanceof Error ? getLabelFormatErrorStatus(error.message) : null;
+      if (status && error instanceof Error) {
+        return Response.json({ error: error.message }, { status });
+      }
+      console.error("Update label format error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleDeleteLabelFormat = withAuth(
+  requirePermission(PERMISSIONS.TEMPLATE_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const formatId = url.pathname.split("/").pop();
+
+      if (!formatId) {
+        return Response.json({ error: "Label format ID required" }, { status: 400 });
+      }
+
+      const success = await deleteLabelFormat(ctx, formatId);
+      if (!success) {
+        return Response.json({ error: "Label format not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true });
+    } catch (error) {
+      const status = error instanceof Error ? getLabelFormatErrorStatus(error.message) : null;
+      if (status && error instanceof Error) {
+        return Response.json({ error: error.message }, { status });
+      }
+      console.error("Delete label format error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
@@ -0,0 +1,193 @@
+import type { Server } from "bun";
+import { z } from "zod";
+
+import { withApiKeyAuth, apiKeyContextToTenantContext } from "@/api/middleware/api-key";
+import { resolveSessionContext, withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import {
+  MAX_CALIBRATION_OFFSET_MM,
+  MAX_CALIBRATION_SCALE,
+  MAX_ZPL_DARKNESS,
+  MAX_ZPL_PRINT_SPEED,
+  MIN_CALIBRATION_SCALE,
+  MIN_ZPL_PRINT_SPEED,
+} from "@/lib/printer-calibration";
+import { listAgents, listPrinters, updatePrinterCalibration } from "@/services/print-agent-service";
+import { renderCalibrationPage } from "@/services/print-service";
+import { PERMISSIONS } from "@/types/permissions";
+import { PRINTER_LANGUAGES } from "@/types/print-agent";
+
+import type { TenantContext } from "@/types/tenant";
+import type { AgentSocketData } from "@/types/print-agent";
+
+const calibrationSchema = z.object({
+  calibration: z
+    .object({
+      offsetX: z.number().min(-MAX_CALIBRATION_OFFSET_MM).max(MAX_CALIBRATION_OFFSET_MM),
+      offsetY: z.number().min(-MAX_CALIBRATION_OFFSET_MM).max(MAX_CALIBRATION_OFFSET_MM),
+      scale: z.number().min(MIN_CALIBRATION_SCALE).max(MAX_CALIBRATION_SCALE),
+      rotation: z.number().min(-180).max(180),
+      darkness: z.number().int().min(0).max(MAX_ZPL_DARKNESS).optional(),
+      printSpeed: z.number().int().min(MIN_ZPL_PRINT_SPEED).max(MAX_ZPL_PRINT_SPEED).optional(),
+    })
+    .nullable(),
+});
+
+const calibrationPageSchema = z.object({
+  format: z.string().min(1),
+  language: z.enum([PRINTER_LANGUAGES.PDF, PRINTER_LANGUAGES.ZPL, PRINTER_LANGUAGES.EPL]).optional(),
+});
+
+async function resolveAgentContext(req: Request): Promise<TenantContext | Response> {
+  if (req.headers.has("x-api-key")) {
+    const auth = await withApiKeyAuth(req);
+    if ("error" in auth) {
+      return auth.error;
+    }
+    return apiKeyContextToTenantContext(auth.ctx);
+  }
+
+  const ctx = await resolveSessionContext(req);
+  if (!ctx) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return ctx;
+}
+
+export async function handlePrintAgentSocket(
+  req: Request,
+  server: Server<AgentSocketData>
+): Promise<Response | undefined> {
+  const ctx = await resolveAgentContext(req);
+  if (ctx instanceof Response) {
+    return ctx;
+  }
+
+  if (!ctx.permissions.includes(PERMISSIONS.PRINT_AGENT)) {
+    return Response.json(
+      { error: `Permission denied: ${PERMISSIONS.PRINT_AGENT}` },
+      { status: 403 }
+    );
+  }
+
+  const upgraded = server.upgrade(req, { data: { ctx, agentId: null } });
+  if (upgraded) {
+    return undefined;
+  }
+
+  return Response.json({ error: "WebSocket upgrade required" }, { status: 426 });
+}
+
+export const handleListPrintAgents = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const page = parseInt(url.searchParams.get("page") ?? "1", 10);
+      const pageSize = parseInt(url.searchParams.get("pageSize") ?? "100", 10);
+
+      const [result, printers] = await Promise.all([
+        listAgents(ctx, page, pageSize),
+        listPrinters(ctx),
+      ]);
+
+      const agents = result.agents.map((agent) => ({
+        ...agent,
+        printers: printers.filter((printer) => printer.agentId === agent.id),
+      }));
+
+      return Response.json({ ...result, agents });
+    } catch (error) {
+      console.error("List print agents error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleUpdatePrinterCalibration = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const printerId = url.pathname.split("/")[4];
+
+      if (!printerId) {
+        return Response.json({ error: "Printer ID required" }, { status: 400 });
+      }
+
+      const body = await req.json();
+      const parsed = calibrationSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const printer = await updatePrinterCalibration(ctx, printerId, parsed.data.calibration);
+      if (!printer) {
+        return Response.json({ error: "Printer not found" }, { status: 404 });
+      }
+
+      return Response.json({ printer });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Invalid calibration")) {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
+      console.error("Update printer calibration error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleGetCalibrationPage = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const printerId = url.pathname.split("/")[4];
+
+      if (!printerId) {
+        return Response.json({ error: "Printer ID required" }, { status: 400 });
+      }
+
+      const parsed = calibrationPageSchema.safeParse({
+        format: url.searchParams.get("format") ?? undefined,
+        language: url.searchParams.get("language") ?? undefined,
+      });
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const result = await renderCalibrationPage(ctx, printerId, {
+        formatKey: parsed.data.format,
+        language: parsed.data.language,
+      });
+      if (!result) {
+        return Response.json({ error: "Printer not found" }, { status: 404 });
+      }
+
+      return new Response(new Uint8Array(result.buffer), {
+        status: 200,
+        headers: {
+          "Content-Type": result.mimeType,
+          "Content-Disposition": `attachment; filename="${result.filename}"`,
+          "Content-Length": String(result.buffer.length),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Label format not found") {
+          return Response.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.startsWith("Printer does not support")) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+      }
+      console.error("Calibration page error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
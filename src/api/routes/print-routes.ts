@@ -0,0 +1,212 @@
+import { z } from "zod";
+
+import { withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import {
+  listPrintRoutes,
+  getPrintRoute,
+  createPrintRoute,
+  updatePrintRoute,
+  deletePrintRoute,
+  testPrintRoutes,
+} from "@/services/print-route-service";
+import { PERMISSIONS } from "@/types/permissions";
+import { PRINTER_LANGUAGES } from "@/types/print-agent";
+import { ROUTE_CONDITION_OPERATORS } from "@/types/print-route";
+
+import type { TenantContext } from "@/types/tenant";
+import type { PrintRouteMatch, PrintRouteDestination } from "@/types/print-route";
+
+const operatorValues = Object.values(ROUTE_CONDITION_OPERATORS) as [string, ...string[]];
+const languageValues = Object.values(PRINTER_LANGUAGES) as [string, ...string[]];
+
+const conditionSchema = z.object({
+  field: z.string().min(1).max(100),
+  operator: z.enum(operatorValues),
+  value: z.string().max(500).optional(),
+});
+
+const matchSchema = z.object({
+  conditions: z.array(conditionSchema).max(20),
+  templateIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+const destinationSchema = z.object({
+  agentId: z.string().uuid(),
+  printerName: z.string().min(1).max(255).optional(),
+  format: z.enum(languageValues),
+});
+
+const createRouteSchema = z.object({
+  name: z.string().min(1).max(255),
+  match: matchSchema,
+  destination: destinationSchema,
+  // Routes are checked in ascending priority; ties go to the oldest route
+  priority: z.number().int().min(0).max(10000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateRouteSchema = createRouteSchema.partial();
+
+const testRoutesSchema = z.object({
+  templateId: z.string().uuid().optional(),
+  assetIds: z.array(z.string().uuid()).max(1000).optional(),
+  sampleAsset: z.record(z.string(), z.unknown()).optional(),
+}).refine((data) => (data.assetIds && data.assetIds.length > 0) || data.sampleAsset, {
+  message: "Provide assetIds or sampleAsset",
+});
+
+export const handleListPrintRoutes = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (_req: Request, ctx: TenantContext) => {
+    try {
+      const routes = await listPrintRoutes(ctx);
+      return Response.json({ routes });
+    } catch (error) {
+      console.error("List print routes error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleGetPrintRoute = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const routeId = url.pathname.split("/").pop();
+
+      if (!routeId) {
+        return Response.json({ error: "Route ID required" }, { status: 400 });
+      }
+
+      const route = await getPrintRoute(ctx, routeId);
+      if (!route) {
+        return Response.json({ error: "Print route not found" }, { status: 404 });
+      }
+
+      return Response.json({ route });
+    } catch (error) {
+      console.error("Get print route error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleCreatePrintRoute = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = createRouteSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const route = await createPrintRoute(ctx, {
+        name: parsed.data.name,
+        match: parsed.data.match as PrintRouteMatch,
+        destination: parsed.data.destination as PrintRouteDestination,
+        priority: parsed.data.priority,
+        isActive: parsed.data.isActive,
+      });
+
+      return Response.json({ route }, { status: 201 });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Print agent not found") {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
+      console.error("Create print route error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleUpdatePrintRoute = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const routeId = url.pathname.split("/").pop();
+
+      if (!routeId) {
+        return Response.json({ error: "Route ID required" }, { status: 400 });
+      }
+
+      const body = await req.json();
+      const parsed = updateRouteSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const route = await updatePrintRoute(ctx, routeId, {
+        name: parsed.data.name,
+        match: parsed.data.match as PrintRouteMatch | undefined,
+        destination: parsed.data.destination as PrintRouteDestination | undefined,
+        priority: parsed.data.priority,
+        isActive: parsed.data.isActive,
+      });
+
+      if (!route) {
+        return Response.json({ error: "Print route not found" }, { status: 404 });
+      }
+
+      return Response.json({ route });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Print agent not found") {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
+      console.error("Update print route error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleDeletePrintRoute = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const routeId = url.pathname.split("/").pop();
+
+      if (!routeId) {
+        return Response.json({ error: "Route ID required" }, { status: 400 });
+      }
+
+      const success = await deletePrintRoute(ctx, routeId);
+      if (!success) {
+        return Response.json({ error: "Print route not found" }, { status: 404 });
+      }
+
+      return Response.json({ success: true });
+    } catch (error) {
+      console.error("Delete print route error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleTestPrintRoutes = withAuth(
+  requirePermission(PERMISSIONS.PRINT_ADMIN, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = testRoutesSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const result = await testPrintRoutes(ctx, parsed.data);
+      return Response.json(result);
+    } catch (error) {
+      console.error("Test print routes error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
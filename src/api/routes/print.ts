@@ -6,30 +6,36 @@ import { PERMISSIONS } from "@/types/permissions";
 import {
   createPrintJob,
   getPrintJob,
+  getPrintJobDownload,
   getPrintJobItems,
+  getStoredPrintOutput,
   listPrintJobs,
   renderPrintJob,
   cancelPrintJob,
   renderPreview,
+  preflightPrintJob,
 } from "@/services/print-service";
 import { PRINT_JOB_STATUS, PRINT_OUTPUT_FORMAT } from "@/types/print";
 import type { PrintJobStatus, PrintOutputFormat } from "@/types/print";
-import { LABEL_FORMATS } from "@/types/label-spec";
 import type { LabelFormatId } from "@/types/label-spec";
+import type { PrinterLanguage } from "@/types/print-agent";
+import { PRINTER_LANGUAGES } from "@/types/print-agent";
 
-const labelFormatValues = Object.keys(LABEL_FORMATS) as [string, ...string[]];
 const printStatusValues = Object.values(PRINT_JOB_STATUS) as [string, ...string[]];
 const outputFormatValues = Object.values(PRINT_OUTPUT_FORMAT) as [string, ...string[]];
+const printerLanguageValues = Object.values(PRINTER_LANGUAGES) as [string, ...string[]];
 
 const createPrintJobSchema = z.object({
   templateId: z.string().uuid(),
   assetIds: z.array(z.string().uuid()).min(1).max(1000),
   options: z.object({
-    format: z.enum(labelFormatValues).optional(),
+    format: z.string().max(50).optional(),
     outputFormat: z.enum(outputFormatValues).optional(),
     copies: z.number().int().min(1).max(100).optional(),
     useSheetLayout: z.boolean().optional(),
     paperSize: z.string().optional(),
+    startPosition: z.number().int().min(0).max(999).optional(),
+    skipPositions: z.array(z.number().int().min(0).max(999)).max(1000).optional(),
     dpi: z.number().int().min(72).max(600).optional(),
   }).optional(),
 });
@@ -47,6 +53,16 @@ const printJobFiltersSchema = z.object({
 const previewSchema = z.object({
   templateId: z.string().uuid(),
   assetId: z.string().uuid(),
+  outputFormat: z.enum(outputFormatValues).optional(),
+});
+
+// Previews are served inline; an SVG may only use its own styles, fonts and images
+const SVG_PREVIEW_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:; font-src data:";
+
+const preflightSchema = z.object({
+  templateId: z.string().uuid(),
+  assetIds: z.array(z.string().uuid()).min(1).max(1000),
+  language: z.enum(printerLanguageValues).optional(),
 });
 
 export const handleListPrintJobs = withAuth(
@@ -103,13 +119,19 @@ export const handleCreatePrintJob = withAuth(
           copies: options.copies,
           useSheetLayout: options.useSheetLayout,
           paperSize: options.paperSize,
+          startPosition: options.startPosition,
+          skipPositions: options.skipPositions,
           dpi: options.dpi,
         } : undefined,
       });
       return Response.json({ job }, { status: 201 });
     } catch (error) {
       if (error instanceof Error) {
-        if (error.message === "Template not found" || error.message === "No valid assets found") {
+        if (
+          error.message === "Template not found" ||
+          error.message === "No valid assets found" ||
+          error.message.startsWith("Invalid start position")
+        ) {
           return Response.json({ error: error.message }, { status: 400 });
         }
       }
@@ -169,7 +191,7 @@ export const handleRenderPrintJob = withAuth(
     }
 
     try {
-      const result = await renderPrintJob(ctx, id);
+      const result = (await getStoredPrintOutput(ctx, id)) ?? (await renderPrintJob(ctx, id));
 
       return new Response(new Uint8Array(result.buffer), {
         status: 200,
@@ -190,6 +212,32 @@ export const handleRenderPrintJob = withAuth(
   })
 );
 
+export const handleGetPrintJobDownload = withAuth(
+  requirePermission(PERMISSIONS.PRINT_EXECUTE, async (req, ctx) => {
+    const url = new URL(req.url);
+    const segments = url.pathname.split("/");
+    const id = segments[4];
+
+    if (!id) {
+      return Response.json({ error: "Print job ID required" }, { status: 400 });
+    }
+
+    try {
+      const download = await getPrintJobDownload(ctx, id);
+      if (!download) {
+        return Response.json({ error: "No stored output for this print job" }, { status: 404 });
+      }
+
+      return Response.json(download);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Print job not found") {
+        return Response.json({ error: error.message }, { status: 404 });
+      }
+      throw error;
+    }
+  })
+);
+
 export const handleCancelPrintJob = withAuth(
   requirePermission(PERMISSIONS.PRINT_EXECUTE, async (req, ctx) => {
     const url = new URL(req.url);
@@ -227,15 +275,22 @@ export const handlePreview = withAuth(
       );
     }
 
+    const { templateId, assetId } = parseResult.data;
+    const outputFormat = (parseResult.data.outputFormat ?? PRINT_OUTPUT_FORMAT.PDF) as PrintOutputFormat;
+
     try {
-      const result = await renderPreview(ctx, parseResult.data.templateId, parseResult.data.assetId);
+      const result = await renderPreview(ctx, templateId, assetId, outputFormat);
 
       return new Response(new Uint8Array(result.buffer), {
         status: 200,
         headers: {
           "Content-Type": result.mimeType,
-          "Content-Disposition": `inline; filename="preview.pdf"`,
+          "Content-Disposition": `inline; filename="preview.${outputFormat}"`,
           "Content-Length": String(result.buffer.length),
+          ...(outputFormat === PRINT_OUTPUT_FORMAT.SVG ? { "Content-Security-Policy": SVG_PREVIEW_CSP } : {}),
+          ...(result.textOverflow?.length
+            ? { "X-Text-Overflow": result.textOverflow.map((report) => report.fieldId).join(",") }
+            : {}),
         },
       });
     } catch (error) {
@@ -243,6 +298,39 @@ export const handlePreview = withAuth(
         if (error.message === "Template not found" || error.message === "Asset not found") {
           return Response.json({ error: error.message }, { status: 404 });
         }
+        if (error.message.startsWith("Text does not fit")) {
+          return Response.json({ error: error.message }, { status: 422 });
+        }
+      }
+      throw error;
+    }
+  })
+);
+
+export const handlePreflight = withAuth(
+  requirePermission(PERMISSIONS.PRINT_EXECUTE, async (req, ctx) => {
+    const body = await req.json();
+
+    const parseResult = preflightSchema.safeParse(body);
+    if (!parseResult.success) {
+      return Response.json(
+        { error: "Invalid input", details: parseResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const { templateId, assetIds, language } = parseResult.data;
+      const report = await preflightPrintJob(ctx, templateId, assetIds, language as PrinterLanguage | undefined);
+      return Response.json({ report });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Template not found") {
+          return Response.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message.startsWith("Invalid template spec")) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
       }
       throw error;
     }
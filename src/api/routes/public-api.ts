@@ -7,7 +7,7 @@ import {
 } from "@/api/middleware/api-key";
 import { listAssets, getAssetById, createAsset } from "@/services/asset-service";
 import { listTemplates, getTemplateById } from "@/services/template-service";
-import { createPrintJob, getPrintJob, renderPrintJob } from "@/services/print-service";
+import { createPrintJob, getPrintJob, getStoredPrintOutput, renderPrintJob } from "@/services/print-service";
 import { createAssetSchema } from "@/lib/validations";
 import { PERMISSIONS } from "@/types/permissions";
 
@@ -99,6 +99,10 @@ export const handlePublicCreateAsset = withApiKey(async (req: Request, ctx: ApiK
     
     return Response.json({ asset }, { status: 201 });
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Asset tag")) {
+      const status = error.message.startsWith("Asset tag sequence") || /is already (claimed|in use)$/.test(error.message) ? 409 : 400;
+      return Response.json({ error: error.message }, { status });
+    }
     console.error("Public API create asset error:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -153,10 +157,12 @@ const createPrintJobSchema = z.object({
   templateId: z.string().uuid(),
   assetIds: z.array(z.string().uuid()).min(1).max(100),
   options: z.object({
-    outputFormat: z.enum(["pdf", "png"]).optional(),
+    outputFormat: z.enum(["pdf", "png", "svg"]).optional(),
     copies: z.number().int().min(1).max(100).optional(),
     useSheetLayout: z.boolean().optional(),
     paperSize: z.enum(["letter", "a4", "custom"]).optional(),
+    startPosition: z.number().int().min(0).max(999).optional(),
+    skipPositions: z.array(z.number().int().min(0).max(999)).max(1000).optional(),
     dpi: z.number().int().min(72).max(600).optional(),
   }).optional(),
 });
@@ -181,6 +187,9 @@ export const handlePublicCreatePrintJob = withApiKey(async (req: Request, ctx: A
     
     return Response.json({ job }, { status: 201 });
   } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Invalid start position")) {
+      return Response.json({ error: error.message }, { status: 400 });
+    }
     console.error("Public API create print job error:", error);
     return Response.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -226,14 +235,14 @@ export const handlePublicRenderPrintJob = withApiKey(async (req: Request, ctx: A
     }
     
     const tenantCtx = apiKeyContextToTenantContext(ctx);
-    const result = await renderPrintJob(tenantCtx, jobId);
+    const result = (await getStoredPrintOutput(tenantCtx, jobId)) ?? (await renderPrintJob(tenantCtx, jobId));
     
     const body = new Uint8Array(result.buffer);
     return new Response(body, {
       status: 200,
       headers: {
-        "Content-Type": "application/pdf",
-        "Content-Disposition": `attachment; filename="print-job-${jobId}.pdf"`,
+        "Content-Type": result.mimeType,
+        "Content-Disposition": `attachment; filename="${result.filename}"`,
         "Content-Length": body.length.toString(),
       },
     });
@@ -0,0 +1,39 @@
+import { getLocalStorage } from "@/services/storage-service";
+
+/**
+ * Serves files from local storage for URLs signed by the local driver. The
+ * signature is the credential, so this route sits outside `withAuth`.
+ */
+export async function handleStorageDownload(req: Request): Promise<Response> {
+  try {
+    const storage = getLocalStorage();
+    if (!storage) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const signed = storage.verifySignedUrl(new URL(req.url));
+    if (!signed) {
+      return Response.json({ error: "Invalid or expired download link" }, { status: 403 });
+    }
+
+    const data = await storage.get(signed.key);
+    if (!data) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const filename = (signed.filename ?? signed.key.split("/").pop() ?? "download")
+      .replace(/["\\\r\n]/g, "_");
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": signed.contentType ?? "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Content-Length": String(data.length),
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Storage download error:", error);
+    return Response.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,215 @@
+import { z } from "zod";
+
+import { withAuth } from "@/api/middleware/auth";
+import { requirePermission } from "@/api/middleware/permissions";
+import { renderTagBatch } from "@/services/print-service";
+import {
+  MAX_TAG_BATCH_SIZE,
+  listTagBatches,
+  getTagBatch,
+  createTagBatch,
+  voidReservedTags,
+  findReservedTag,
+} from "@/services/tag-batch-service";
+import { EQUIPMENT_CATEGORIES, type EquipmentCategory } from "@/types/asset";
+import { PERMISSIONS } from "@/types/permissions";
+
+import type { TenantContext } from "@/types/tenant";
+
+const equipmentCategoryValues = Object.values(EQUIPMENT_CATEGORIES) as [EquipmentCategory, ...EquipmentCategory[]];
+
+const createBatchSchema = z.object({
+  name: z.string().trim().max(200).optional(),
+  category: z.enum(equipmentCategoryValues),
+  quantity: z.number().int().min(1).max(MAX_TAG_BATCH_SIZE),
+  values: z.object({
+    location: z.string().trim().max(255).optional(),
+    department: z.string().trim().max(255).optional(),
+    customFields: z.record(z.string(), z.string().max(255)).optional(),
+  }).optional(),
+});
+
+const voidTagsSchema = z.object({
+  tagIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+const batchOutputSchema = z.object({
+  templateId: z.string().uuid(),
+  sheet: z.enum(["true", "false"]).optional(),
+});
+
+export const handleListTagBatches = withAuth(
+  requirePermission(PERMISSIONS.ASSET_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const page = parseInt(url.searchParams.get("page") ?? "1", 10);
+      const pageSize = parseInt(url.searchParams.get("pageSize") ?? "20", 10);
+
+      const result = await listTagBatches(ctx, page, pageSize);
+      return Response.json(result);
+    } catch (error) {
+      console.error("List tag batches error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleCreateTagBatch = withAuth(
+  requirePermission(PERMISSIONS.ASSET_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const body = await req.json();
+      const parsed = createBatchSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const batch = await createTagBatch(ctx, parsed.data);
+
+      return Response.json({ batch }, { status: 201 });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.startsWith("Asset tag sequence")) {
+          return Response.json({ error: error.message }, { status: 409 });
+        }
+        if (error.message.startsWith("Asset tag") || error.message.startsWith("Invalid tag pattern")) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+      }
+      console.error("Create tag batch error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleLookupReservedTag = withAuth(
+  requirePermission(PERMISSIONS.ASSET_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const tag = url.searchParams.get("tag")?.trim();
+
+      if (!tag) {
+        return Response.json({ error: "Tag required" }, { status: 400 });
+      }
+
+      const reserved = await findReservedTag(ctx, tag);
+      if (!reserved) {
+        return Response.json({ error: "Reserved tag not found" }, { status: 404 });
+      }
+
+      return Response.json({ reserved });
+    } catch (error) {
+      console.error("Lookup reserved tag error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleGetTagBatch = withAuth(
+  requirePermission(PERMISSIONS.ASSET_READ, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const batchId = url.pathname.split("/").pop();
+
+      if (!batchId) {
+        return Response.json({ error: "Tag batch ID required" }, { status: 400 });
+      }
+
+      const batch = await getTagBatch(ctx, batchId);
+      if (!batch) {
+        return Response.json({ error: "Tag batch not found" }, { status: 404 });
+      }
+
+      return Response.json({ batch });
+    } catch (error) {
+      console.error("Get tag batch error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleVoidReservedTags = withAuth(
+  requirePermission(PERMISSIONS.ASSET_WRITE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const batchId = url.pathname.split("/")[3];
+
+      if (!batchId) {
+        return Response.json({ error: "Tag batch ID required" }, { status: 400 });
+      }
+
+      const body = await req.json().catch(() => ({}));
+      const parsed = voidTagsSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const voided = await voidReservedTags(ctx, batchId, parsed.data.tagIds);
+      if (voided === null) {
+        return Response.json({ error: "Tag batch not found" }, { status: 404 });
+      }
+
+      return Response.json({ voided });
+    } catch (error) {
+      console.error("Void reserved tags error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
+
+export const handleRenderTagBatch = withAuth(
+  requirePermission(PERMISSIONS.PRINT_EXECUTE, async (req: Request, ctx: TenantContext) => {
+    try {
+      const url = new URL(req.url);
+      const batchId = url.pathname.split("/")[3];
+
+      if (!batchId) {
+        return Response.json({ error: "Tag batch ID required" }, { status: 400 });
+      }
+
+      const parsed = batchOutputSchema.safeParse({
+        templateId: url.searchParams.get("templateId") ?? undefined,
+        sheet: url.searchParams.get("sheet") ?? undefined,
+      });
+
+      if (!parsed.success) {
+        return Response.json(
+          { error: "Invalid input", details: parsed.error.flatten() },
+          { status: 400 }
+        );
+      }
+
+      const result = await renderTagBatch(ctx, batchId, {
+        templateId: parsed.data.templateId,
+        useSheetLayout: parsed.data.sheet === "true",
+      });
+
+      return new Response(new Uint8Array(result.buffer), {
+        status: 200,
+        headers: {
+          "Content-Type": result.mimeType,
+          "Content-Disposition": `attachment; filename="${result.filename}"`,
+          "Content-Length": String(result.buffer.length),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Tag batch not found" || error.message === "Template not found") {
+          return Response.json({ error: error.message }, { status: 404 });
+        }
+        if (error.message === "No unclaimed tags in batch") {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+      }
+      console.error("Render tag batch error:", error);
+      return Response.json({ error: "Internal server error" }, { status: 500 });
+    }
+  })
+);
@@ -63,15 +63,22 @@ export const handleCreateTemplate = withAuth(
       );
     }
 
-    const template = await createTemplate(ctx, {
-      name: parseResult.data.name,
-      description: parseResult.data.description,
-      category: parseResult.data.category as EquipmentCategory | undefined,
-      format: parseResult.data.format as LabelFormatId,
-      spec: parseResult.data.spec as LabelSpec,
-    });
+    try {
+      const template = await createTemplate(ctx, {
+        name: parseResult.data.name,
+        description: parseResult.data.description,
+        category: parseResult.data.category as EquipmentCategory | undefined,
+        format: parseResult.data.format as LabelFormatId,
+        spec: parseResult.data.spec as LabelSpec,
+      });
 
-    return Response.json({ template }, { status: 201 });
+      return Response.json({ template }, { status: 201 });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Label format not found") {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
   })
 );
 
@@ -141,6 +148,9 @@ export const handleUpdateTemplate = withAuth(
       if (error instanceof Error && error.message.includes("system template")) {
         return Response.json({ error: error.message }, { status: 403 });
       }
+      if (error instanceof Error && error.message === "Label format not found") {
+        return Response.json({ error: error.message }, { status: 400 });
+      }
       throw error;
     }
   })
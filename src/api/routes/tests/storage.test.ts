@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { handleStorageDownload } from "@/api/routes/storage";
+import { createSignedDownload, getStorage } from "@/services/storage-service";
+
+// The storage driver is created on first use, so this must be set first
+const rootDir = mkdtempSync(join(tmpdir(), "storage-route-"));
+process.env.STORAGE_LOCAL_PATH = rootDir;
+
+const KEY = "tenants/t1/print-jobs/job-1/labels.pdf";
+
+async function download(options: { filename?: string; contentType?: string } = {}, edit?: (url: URL) => void) {
+  const { url } = await createSignedDownload(KEY, options);
+  const request = new URL(url, "http://localhost");
+  edit?.(request);
+  return handleStorageDownload(new Request(request));
+}
+
+beforeAll(async () => {
+  await getStorage().put(KEY, Buffer.from("%PDF-1.4"), "application/pdf");
+});
+
+afterAll(async () => {
+  await getStorage().delete(KEY);
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe("handleStorageDownload", () => {
+  test("serves a signed file as an attachment", async () => {
+    const response = await download({ filename: "labels.pdf", contentType: "application/pdf" });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+    expect(response.headers.get("Content-Disposition")).toBe(`attachment; filename="labels.pdf"`);
+    expect(response.headers.get("Content-Length")).toBe("8");
+    expect(response.headers.get("Cache-Control")).toBe("private, no-store");
+    expect(await response.text()).toBe("%PDF-1.4");
+  });
+
+  test("falls back to the key's file name and a generic type", async () => {
+    const response = await download();
+
+    expect(response.headers.get("Content-Type")).toBe("application/octet-stream");
+    expect(response.headers.get("Content-Disposition")).toBe(`attachment; filename="labels.pdf"`);
+  });
+
+  test("keeps header characters out of the file name", async () => {
+    const response = await download({ filename: "a\"b\r\nSet-Cookie: x.pdf" });
+
+    expect(response.headers.get("Content-Disposition")).toBe(`attachment; filename="a_b__Set-Cookie: x.pdf"`);
+    expect(response.headers.get("Set-Cookie")).toBeNull();
+  });
+
+  test.each([
+    ["a tampered signature", (url: URL) => url.searchParams.set("signature", "0".repeat(64))],
+    ["another key", (url: URL) => url.searchParams.set("key", "tenants/t2/print-jobs/job-1/labels.pdf")],
+    ["a traversal key", (url: URL) => url.searchParams.set("key", "tenants/t1/../../../etc/passwd")],
+    ["an extended expiry", (url: URL) => url.searchParams.set("expires", String(Math.floor(Date.now() / 1000) + 86400))],
+    ["an expired link", (url: URL) => url.searchParams.set("expires", String(Math.floor(Date.now() / 1000) - 1))],
+    ["no signature", (url: URL) => url.searchParams.delete("signature")],
+  ])("rejects %s", async (_name, edit) => {
+    const response = await download({}, edit);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: "Invalid or expired download link" });
+  });
+
+  test("returns 404 for a signed key without a file", async () => {
+    const { url } = await createSignedDownload("tenants/t1/print-jobs/missing.pdf");
+    const response = await handleStorageDownload(new Request(new URL(url, "http://localhost")));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -28,6 +28,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useAssets } from "@/hooks/use-assets";
+import { useAssetTagPattern, usePreviewAssetTag } from "@/hooks/use-asset-tag-patterns";
+import { useReservedTag } from "@/hooks/use-tag-batches";
 import { useTemplateList } from "@/hooks/use-templates";
 import { cn } from "@/lib/utils";
 import type { Asset, EquipmentCategory, AssetStatus } from "@/types/asset";
@@ -122,6 +124,11 @@ export function AssetForm({ asset, open, onOpenChange, onSuccess }: AssetFormPro
   const [restoredFromDraft, setRestoredFromDraft] = useState(false);
 
   const isEditMode = Boolean(asset);
+  const tagPattern = useAssetTagPattern(isEditMode ? undefined : formData.category);
+  const previewTag = usePreviewAssetTag();
+  const [scannedTag, setScannedTag] = useState("");
+  const { data: reservedTag } = useReservedTag(isEditMode ? "" : scannedTag);
+  const reservedTagHint = reservedTag && reservedTag.tag.tag === formData.assetTag.trim() ? reservedTag : null;
   
   const { data: publishedTemplatesForQuickFill } = useTemplateList({ 
     isPublished: true, 
@@ -214,7 +221,7 @@ export function AssetForm({ asset, open, onOpenChange, onSuccess }: AssetFormPro
     const errors: Record<string, string> = {};
 
     if (!formData.type.trim()) errors.type = "Type is required";
-    if (!formData.assetTag.trim()) errors.assetTag = "Asset tag is required";
+    if (!formData.assetTag.trim() && !tagPattern) errors.assetTag = "Asset tag is required";
     if (!formData.serialNumber.trim()) errors.serialNumber = "Serial number is required";
     if (!formData.manufacturer.trim()) errors.manufacturer = "Manufacturer is required";
     if (!formData.model.trim()) errors.model = "Model is required";
@@ -236,7 +243,7 @@ export function AssetForm({ asset, open, onOpenChange, onSuccess }: AssetFormPro
     const input = {
       category: formData.category,
       type: formData.type.trim(),
-      assetTag: formData.assetTag.trim(),
+      assetTag: formData.assetTag.trim() || undefined,
       serialNumber: formData.serialNumber.trim(),
       manufacturer: formData.manufacturer.trim(),
       model: formData.model.trim(),
@@ -468,15 +475,57 @@ export function AssetForm({ asset, open, onOpenChange, onSuccess }: AssetFormPro
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="assetTag">Asset Tag <span className="text-destructive">*</span></Label>
+                    <Label htmlFor="assetTag">
+                      Asset Tag {!tagPattern && <span className="text-destructive">*</span>}
+                    </Label>
                     <Input
                       id="assetTag"
-                      placeholder="e.g., NET-001"
+                      placeholder={tagPattern ? tagPattern.pattern : "e.g., NET-001"}
                       value={formData.assetTag}
                       onChange={(e) => handleInputChange("assetTag", e.target.value)}
+                      onBlur={() => setScannedTag(formData.assetTag.trim())}
                       className={cn(formErrors.assetTag && "border-destructive focus-visible:ring-destructive")}
                     />
                     {formErrors.assetTag && <p className="text-xs text-destructive font-medium">{formErrors.assetTag}</p>}
+                    {reservedTagHint && (
+                      <p className={cn("text-xs", reservedTagHint.tag.status === "reserved" ? "text-muted-foreground" : "text-destructive font-medium")}>
+                        {reservedTagHint.tag.status === "reserved"
+                          ? `Pre-printed tag from "${reservedTagHint.batchName}". It will be claimed for this asset.`
+                          : reservedTagHint.tag.status === "claimed"
+                            ? `This pre-printed tag from "${reservedTagHint.batchName}" is already claimed.`
+                            : `This pre-printed tag from "${reservedTagHint.batchName}" was voided.`}
+                      </p>
+                    )}
+                    {tagPattern && !formData.assetTag.trim() && (
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty to generate from the category pattern.{" "}
+                        <button
+                          type="button"
+                          className="underline underline-offset-2 hover:text-foreground"
+                          onClick={() =>
+                            previewTag.mutate({
+                              category: formData.category,
+                              type: formData.type,
+                              manufacturer: formData.manufacturer,
+                              model: formData.model,
+                              serialNumber: formData.serialNumber,
+                              location: formData.location,
+                              department: formData.department,
+                              assignedTo: formData.assignedTo,
+                              status: formData.status,
+                              customFields: formData.customFields,
+                            })
+                          }
+                        >
+                          Preview
+                        </button>
+                        {previewTag.data && previewTag.variables?.category === formData.category && (
+                          <span className={cn("ml-1", previewTag.data.error ? "text-destructive" : "font-mono text-foreground")}>
+                            {previewTag.data.error ?? previewTag.data.tag}
+                          </span>
+                        )}
+                      </p>
+                    )}
                   </div>
 
                   <div className="space-y-2">
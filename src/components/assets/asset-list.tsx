@@ -18,7 +18,8 @@ import {
   Database,
   SearchX,
   Upload,
-  FileText
+  FileText,
+  Tags
 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
@@ -70,6 +71,7 @@ interface AssetListProps {
   onEditAsset: (asset: Asset) => void;
   onCreateAsset: () => void;
   onImportAssets?: () => void;
+  onManageTagBatches?: () => void;
 }
 
 const CATEGORY_LABELS: Record<EquipmentCategory, string> = {
@@ -108,7 +110,7 @@ const STATUS_STYLES: Record<AssetStatus, string> = {
 
 const PAGE_SIZE = 10;
 
-export function AssetList({ onEditAsset, onCreateAsset, onImportAssets }: AssetListProps) {
+export function AssetList({ onEditAsset, onCreateAsset, onImportAssets, onManageTagBatches }: AssetListProps) {
   const { listAssets, deleteAsset, isLoading, error } = useAssets();
   const [assets, setAssets] = useState<Asset[]>([]);
   const [total, setTotal] = useState(0);
@@ -182,6 +184,12 @@ export function AssetList({ onEditAsset, onCreateAsset, onImportAssets }: AssetL
         breadcrumbs={[{ label: "Dashboard" }, { label: "Assets" }]}
       >
         <Can permission="asset:write">
+          {onManageTagBatches && (
+            <Button variant="outline" onClick={onManageTagBatches} className="shadow-sm">
+              <Tags className="h-4 w-4 mr-2" />
+              Pre-print Tags
+            </Button>
+          )}
           <Button onClick={onCreateAsset} className="shadow-sm">
             <Plus className="h-4 w-4 mr-2" />
             Add Asset
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { 
   Upload, 
   FileSpreadsheet, 
@@ -37,6 +37,8 @@ import {
 } from "@/components/ui/table";
 import { cn } from "@/lib/utils";
 
+import type { ImportJobProgress } from "@/types/import-export";
+
 interface ImportWizardProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -46,7 +48,7 @@ interface ImportWizardProps {
 type Step = "upload" | "mapping" | "preview" | "importing" | "complete";
 
 const ASSET_FIELDS = [
-  { value: "assetTag", label: "Asset Tag", required: true },
+  { value: "assetTag", label: "Asset Tag", required: false },
   { value: "serialNumber", label: "Serial Number", required: true },
   { value: "category", label: "Category", required: true },
   { value: "type", label: "Type", required: true },
@@ -84,8 +86,16 @@ export function ImportWizard({ open, onOpenChange, onSuccess }: ImportWizardProp
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<ImportJobProgress | null>(null);
+  const progressSourceRef = useRef<EventSource | null>(null);
+
+  const closeProgressStream = useCallback(() => {
+    progressSourceRef.current?.close();
+    progressSourceRef.current = null;
+  }, []);
 
   const resetState = useCallback(() => {
+    closeProgressStream();
     setStep("upload");
     setFile(null);
     setColumns([]);
@@ -94,7 +104,8 @@ export function ImportWizard({ open, onOpenChange, onSuccess }: ImportWizardProp
     setIsLoading(false);
     setError(null);
     setResult(null);
-  }, []);
+    setProgress(null);
+  }, [closeProgressStream]);
 
   const handleClose = useCallback(() => {
     resetState();
@@ -237,45 +248,46 @@ export function ImportWizard({ open, onOpenChange, onSuccess }: ImportWizardProp
       }
 
       const data = await response.json();
-      const job = data.job;
+      const job = data.job as { id: string };
 
-      let pollAttempts = 0;
-      const maxAttempts = 30;
+      const final = await new Promise<ImportJobProgress>((resolve, reject) => {
+        const source = new EventSource(`/api/imports/${job.id}/progress`, {
+          withCredentials: true,
+        });
+        progressSourceRef.current = source;
 
-      const checkStatus = async (): Promise<void> => {
-        pollAttempts++;
-        const statusRes = await fetch(`/api/imports/${job.id}`, {
-          credentials: "include",
+        source.addEventListener("progress", (event) => {
+          setProgress(JSON.parse((event as MessageEvent<string>).data));
         });
-        const statusData = await statusRes.json();
-        const status = statusData.job.status;
-
-        if (status === "completed") {
-          setResult({
-            total: statusData.job.totalRows ?? 0,
-            imported: statusData.job.processedRows ?? 0,
-            errors: statusData.job.failedRows ?? 0,
-            errorDetails: [],
-          });
-          setStep("complete");
-        } else if (status === "failed") {
-          throw new Error(statusData.job.errorMessage ?? "Import failed");
-        } else if (pollAttempts < maxAttempts) {
-          await new Promise((r) => setTimeout(r, 1000));
-          return checkStatus();
-        } else {
-          throw new Error("Import timed out");
-        }
-      };
+        source.addEventListener("done", (event) => {
+          closeProgressStream();
+          resolve(JSON.parse((event as MessageEvent<string>).data));
+        });
+        source.addEventListener("error", (event) => {
+          closeProgressStream();
+          const payload = (event as MessageEvent<string>).data;
+          reject(new Error(payload ? JSON.parse(payload).error : "Lost connection to import progress"));
+        });
+      });
 
-      await checkStatus();
+      if (final.status !== "completed") {
+        throw new Error(final.error ?? "Import failed");
+      }
+
+      setResult({
+        total: final.totalRows,
+        imported: final.successRows,
+        errors: final.errorRows,
+        errorDetails: [],
+      });
+      setStep("complete");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Import failed");
       setStep("mapping");
     } finally {
       setIsLoading(false);
     }
-  }, [file, columnMappings]);
+  }, [file, columnMappings, closeProgressStream]);
 
   const missingRequired = validateMappings();
 
@@ -370,6 +382,12 @@ export function ImportWizard({ open, onOpenChange, onSuccess }: ImportWizardProp
                 </Alert>
               )}
 
+              {!columnMappings.some((m) => m.to === "assetTag") && (
+                <p className="text-sm text-muted-foreground">
+                  No column is mapped to Asset Tag. Tags will be generated from each category's tag pattern.
+                </p>
+              )}
+
               <div className="border rounded-lg overflow-hidden">
                 <Table>
                   <TableHeader>
@@ -419,10 +437,36 @@ export function ImportWizard({ open, onOpenChange, onSuccess }: ImportWizardProp
           {step === "importing" && (
             <div className="flex flex-col items-center justify-center py-12">
               <Loader2 className="h-12 w-12 text-primary animate-spin mb-4" />
-              <p className="font-medium">Importing assets...</p>
-              <p className="text-sm text-muted-foreground mt-1">
-                This may take a few moments depending on file size.
+              <p className="font-medium">
+                {progress?.status === "processing" ? "Importing assets..." : "Waiting for import to start..."}
               </p>
+              <div className="w-full max-w-md mt-6 space-y-2">
+                <div
+                  className="h-2 w-full rounded-full bg-muted overflow-hidden"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={progress?.percent ?? 0}
+                >
+                  <div
+                    className="h-full bg-primary transition-all duration-300"
+                    style={{ width: `${progress?.percent ?? 0}%` }}
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {progress && progress.totalRows > 0
+                      ? `${progress.processedRows} of ${progress.totalRows} rows`
+                      : "Reading file..."}
+                  </span>
+                  <span>{progress?.percent ?? 0}%</span>
+                </div>
+                {progress && progress.errorRows > 0 && (
+                  <p className="text-xs text-destructive">
+                    {progress.errorRows} {progress.errorRows === 1 ? "row" : "rows"} with errors
+                  </p>
+                )}
+              </div>
             </div>
           )}
 
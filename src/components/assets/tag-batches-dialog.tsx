@@ -0,0 +1,410 @@
+import { useState } from "react";
+import { Ban, Download, Loader2, Plus, Tags } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAssetTagPatterns } from "@/hooks/use-asset-tag-patterns";
+import { useLabelFormat } from "@/hooks/use-label-formats";
+import {
+  useTagBatches,
+  useCreateTagBatch,
+  useVoidReservedTags,
+  useTagBatchOutput,
+} from "@/hooks/use-tag-batches";
+import { useTemplateList } from "@/hooks/use-templates";
+import { getSheetLayoutForFormat } from "@/lib/print-utils";
+import type { EquipmentCategory } from "@/types/asset";
+import type { TagBatch } from "@/types/tag-batch";
+
+const CATEGORY_LABELS: Record<EquipmentCategory, string> = {
+  networking: "Networking",
+  servers: "Servers",
+  cabling: "Cabling",
+  power: "Power",
+  physical: "Physical",
+  "iot-edge": "IoT/Edge",
+};
+
+const MAX_BATCH_SIZE = 1000;
+
+interface TagBatchesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface BatchFormData {
+  category: EquipmentCategory | "";
+  quantity: string;
+  name: string;
+  location: string;
+  department: string;
+}
+
+const EMPTY_FORM: BatchFormData = {
+  category: "",
+  quantity: "50",
+  name: "",
+  location: "",
+  department: "",
+};
+
+export function TagBatchesDialog({ open, onOpenChange }: TagBatchesDialogProps) {
+  const { data: batches = [], isLoading } = useTagBatches();
+  const { data: patterns = [] } = useAssetTagPatterns();
+  const { data: templateList } = useTemplateList({ isPublished: true, pageSize: 50 });
+  const createBatch = useCreateTagBatch();
+  const voidTags = useVoidReservedTags();
+  const batchOutput = useTagBatchOutput();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState<BatchFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [downloadBatch, setDownloadBatch] = useState<TagBatch | null>(null);
+  const [templateId, setTemplateId] = useState("");
+  const [useSheetLayout, setUseSheetLayout] = useState(false);
+  const [voidConfirmBatch, setVoidConfirmBatch] = useState<TagBatch | null>(null);
+
+  const templates = templateList?.templates ?? [];
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+  const sheetLayout = getSheetLayoutForFormat(useLabelFormat(selectedTemplate?.format));
+
+  function openCreateForm() {
+    setFormData({ ...EMPTY_FORM, category: patterns[0]?.category ?? "" });
+    setFormError(null);
+    setIsCreating(true);
+  }
+
+  function openDownload(batch: TagBatch) {
+    setDownloadBatch(batch);
+    setUseSheetLayout(false);
+    batchOutput.reset();
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+
+    const quantity = Number(formData.quantity);
+    if (!formData.category) {
+      setFormError("Choose a category with a tag pattern");
+      return;
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_BATCH_SIZE) {
+      setFormError(`Quantity must be between 1 and ${MAX_BATCH_SIZE}`);
+      return;
+    }
+
+    try {
+      const batch = await createBatch.mutateAsync({
+        name: formData.name.trim() || undefined,
+        category: formData.category,
+        quantity,
+        values: {
+          ...(formData.location.trim() ? { location: formData.location.trim() } : {}),
+          ...(formData.department.trim() ? { department: formData.department.trim() } : {}),
+        },
+      });
+      setIsCreating(false);
+      openDownload(batch);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create tag batch");
+    }
+  }
+
+  async function handleDownload() {
+    if (!downloadBatch || !templateId) return;
+
+    const blob = await batchOutput.mutateAsync({
+      batchId: downloadBatch.id,
+      templateId,
+      sheet: useSheetLayout && sheetLayout !== null,
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `tags-${downloadBatch.name}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleVoid() {
+    if (!voidConfirmBatch) return;
+    await voidTags.mutateAsync({ batchId: voidConfirmBatch.id });
+    if (downloadBatch?.id === voidConfirmBatch.id) {
+      setDownloadBatch(null);
+    }
+    setVoidConfirmBatch(null);
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5" />
+              Pre-printed Tags
+            </DialogTitle>
+            <DialogDescription>
+              Reserve a run of tags from a category's tag pattern and print them before the equipment
+              is registered. Entering a reserved tag in the asset form claims it for the new asset.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isCreating ? (
+            <form onSubmit={handleCreate} className="space-y-4">
+              {formError && (
+                <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                  {formError}
+                </div>
+              )}
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, category: value as EquipmentCategory }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="No tag patterns" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {patterns.map((pattern) => (
+                        <SelectItem key={pattern.category} value={pattern.category}>
+                          {CATEGORY_LABELS[pattern.category]} ({pattern.pattern})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="batch-quantity">Quantity</Label>
+                  <Input
+                    id="batch-quantity"
+                    type="number"
+                    min={1}
+                    max={MAX_BATCH_SIZE}
+                    value={formData.quantity}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, quantity: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="batch-location">Location</Label>
+                  <Input
+                    id="batch-location"
+                    value={formData.location}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, location: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="batch-department">Department</Label>
+                  <Input
+                    id="batch-department"
+                    value={formData.department}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, department: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="batch-name">Name</Label>
+                <Input
+                  id="batch-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Defaults to the tag range"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Location and department fill pattern tokens such as {"{location}"} and are printed on the labels.
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createBatch.isPending}>
+                  {createBatch.isPending ? "Reserving..." : "Reserve Tags"}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex justify-end">
+              <Button onClick={openCreateForm} disabled={patterns.length === 0}>
+                <Plus className="h-4 w-4" />
+                New Batch
+              </Button>
+            </div>
+          )}
+
+          {downloadBatch && (
+            <div className="space-y-3 rounded-md border p-4">
+              <p className="text-sm font-medium">
+                Print "{downloadBatch.name}"
+              </p>
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-2 min-w-[220px] flex-1">
+                  <Label>Template</Label>
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {sheetLayout && (
+                  <div className="flex items-center gap-2 pb-2">
+                    <Checkbox
+                      id="batch-sheet-layout"
+                      checked={useSheetLayout}
+                      onCheckedChange={(checked) => setUseSheetLayout(checked === true)}
+                    />
+                    <Label htmlFor="batch-sheet-layout" className="font-normal cursor-pointer">
+                      Sheet layout ({sheetLayout.labelsPerSheet} per sheet)
+                    </Label>
+                  </div>
+                )}
+                <Button onClick={handleDownload} disabled={!templateId || batchOutput.isPending}>
+                  {batchOutput.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                  Download PDF
+                </Button>
+              </div>
+              {batchOutput.error && (
+                <p className="text-sm text-destructive">{batchOutput.error.message}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Only unclaimed tags are printed. Fields other than the tag, category, location and department print empty.
+              </p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : batches.length === 0 ? (
+            <EmptyState
+              icon={Tags}
+              title="No tag batches"
+              description={patterns.length === 0
+                ? "Add a tag pattern in Settings to reserve tags for pre-printing."
+                : "Reserved tags show up here until they are claimed or voided."}
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead className="hidden md:table-cell">Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">
+                      {batch.name}
+                      <p className="text-xs font-normal text-muted-foreground font-mono">{batch.pattern}</p>
+                    </TableCell>
+                    <TableCell>{CATEGORY_LABELS[batch.category] ?? batch.category}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary">{batch.counts.reserved} unclaimed</Badge>
+                        {batch.counts.claimed > 0 && <Badge variant="outline">{batch.counts.claimed} claimed</Badge>}
+                        {batch.counts.voided > 0 && <Badge variant="outline">{batch.counts.voided} voided</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                      {new Date(batch.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDownload(batch)}
+                          disabled={batch.counts.reserved === 0}
+                          aria-label={`Print ${batch.name}`}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setVoidConfirmBatch(batch)}
+                          disabled={batch.counts.reserved === 0}
+                          aria-label={`Void unclaimed tags of ${batch.name}`}
+                        >
+                          <Ban className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(voidConfirmBatch)} onOpenChange={() => setVoidConfirmBatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Unclaimed Tags</DialogTitle>
+            <DialogDescription>
+              The {voidConfirmBatch?.counts.reserved} unclaimed tags of "{voidConfirmBatch?.name}" can no
+              longer be used to register assets. Their numbers are not reused.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setVoidConfirmBatch(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleVoid} disabled={voidTags.isPending}>
+              {voidTags.isPending ? "Voiding..." : "Void Tags"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,3 +1,6 @@
+import { FontFaceStyles } from "@/components/labels/font-face-styles";
+import { useSpecFonts } from "@/hooks/use-fonts";
+import type { TextStyle } from "@/types/label-spec";
 import { useDesigner } from "./designer-context";
 import { DESIGNER_CONFIG, type ResizeHandle } from "./types";
 
@@ -22,6 +25,7 @@ export function DesignerCanvas() {
     dragStateRef,
     resizeStateRef,
   } = useDesigner();
+  const fonts = useSpecFonts(spec);
 
   const { width, height } = spec.dimensions;
   const canvasWidth = width * SCALE;
@@ -288,6 +292,7 @@ export function DesignerCanvas() {
           className="cursor-crosshair touch-none"
           style={{ touchAction: "none" }}
         >
+          <FontFaceStyles fonts={fonts.faces} />
           {showGrid && (
             <defs>
               <pattern
@@ -405,10 +410,14 @@ export function DesignerCanvas() {
                 x={2}
                 y={field.size.height / 2 + 2}
                 fontSize={Math.min(field.size.height * 0.5, 6)}
-                fontFamily="Arial"
+                fontFamily={
+                  field.type === "text" || field.type === "date"
+                    ? `${JSON.stringify((field.style as TextStyle).fontFamily)}, Arial`
+                    : "Arial"
+                }
                 fill="#0369a1"
               >
-                {`{${field.source}}`}
+                {field.template ?? `{${field.source}}`}
               </text>
               {selectedItem?.type === "field" && selectedItem.id === field.id && (
                 <>
@@ -0,0 +1,232 @@
+import { Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getConditionError,
+  isConditionGroup,
+  MAX_CONDITION_DEPTH,
+  MAX_GROUP_CONDITIONS,
+} from "@/lib/label-conditions";
+import type { ConditionGroup, ConditionOperator, FieldCondition, LabelCondition } from "@/types/label-spec";
+import { CONDITION_OPERATOR_LABELS, TEMPLATE_PATH_OPTIONS } from "./types";
+
+const DEFAULT_CONDITION: FieldCondition = { field: "status", operator: "eq", value: "active" };
+
+const VALUE_PLACEHOLDERS: Partial<Record<ConditionOperator, string>> = {
+  in: "A, B, C",
+  notIn: "A, B, C",
+  matches: "^DC-\\d+",
+  gt: "today+90d or 100",
+  gte: "today+90d or 100",
+  lt: "today or 100",
+  lte: "today or 100",
+};
+
+interface DesignerConditionEditorProps {
+  id: string;
+  condition: LabelCondition | undefined;
+  onChange: (condition: LabelCondition | undefined) => void;
+}
+
+/**
+ * Visibility condition for the selected field or element. A single
+ * condition is edited as a one-item "all" group.
+ */
+export function DesignerConditionEditor({ id, condition, onChange }: DesignerConditionEditorProps) {
+  const group: ConditionGroup | null = condition
+    ? isConditionGroup(condition)
+      ? condition
+      : { match: "all", conditions: [condition] }
+    : null;
+  const error = condition ? getConditionError(condition) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={`condition-${id}`}
+          checked={condition !== undefined}
+          onCheckedChange={(checked) =>
+            onChange(checked === true ? { match: "all", conditions: [{ ...DEFAULT_CONDITION }] } : undefined)
+          }
+        />
+        <Label htmlFor={`condition-${id}`} className="text-xs cursor-pointer">
+          Show only when
+        </Label>
+      </div>
+
+      {group && (
+        <>
+          <ConditionGroupEditor
+            group={group}
+            depth={1}
+            onChange={(next) => onChange(next.conditions.length > 0 ? next : undefined)}
+          />
+          <datalist id="condition-field-options">
+            {TEMPLATE_PATH_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </datalist>
+        </>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  depth: number;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+}
+
+function ConditionGroupEditor({ group, depth, onChange, onRemove }: ConditionGroupEditorProps) {
+  function updateChild(index: number, next: LabelCondition) {
+    // Emptying a nested group removes it
+    const conditions = isConditionGroup(next) && next.conditions.length === 0
+      ? group.conditions.filter((_, i) => i !== index)
+      : group.conditions.map((child, i) => (i === index ? next : child));
+    onChange({ ...group, conditions });
+  }
+
+  function removeChild(index: number) {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  }
+
+  function addChild(child: LabelCondition) {
+    onChange({ ...group, conditions: [...group.conditions, child] });
+  }
+
+  const full = group.conditions.length >= MAX_GROUP_CONDITIONS;
+
+  return (
+    <div className={depth > 1 ? "space-y-2 rounded-md border p-2" : "space-y-2"}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.match}
+          onValueChange={(value) => onChange({ ...group, match: value as ConditionGroup["match"] })}
+        >
+          <SelectTrigger className="h-8 w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All of</SelectItem>
+            <SelectItem value="any">Any of</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="flex-1 text-xs text-muted-foreground">these</span>
+        {onRemove && (
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onRemove} aria-label="Remove group">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) =>
+        isConditionGroup(child) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <FieldConditionRow
+            key={index}
+            condition={child}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" onClick={() => addChild({ ...DEFAULT_CONDITION })} disabled={full}>
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addChild({ match: "any", conditions: [{ ...DEFAULT_CONDITION }] })}
+          disabled={full || depth >= MAX_CONDITION_DEPTH}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface FieldConditionRowProps {
+  condition: FieldCondition;
+  onChange: (condition: FieldCondition) => void;
+  onRemove: () => void;
+}
+
+function FieldConditionRow({ condition, onChange, onRemove }: FieldConditionRowProps) {
+  const valueless = condition.operator === "empty" || condition.operator === "notEmpty";
+
+  return (
+    <div className="space-y-1 rounded-md bg-muted/50 p-2">
+      <div className="grid grid-cols-[1fr_auto] gap-1 items-center">
+        <Input
+          value={condition.field}
+          onChange={(e) => onChange({ ...condition, field: e.target.value })}
+          list="condition-field-options"
+          placeholder="Asset field"
+          className="h-8"
+          aria-label="Condition field"
+        />
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onRemove} aria-label="Remove condition">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-1">
+        <Select
+          value={condition.operator}
+          onValueChange={(value) => {
+            const operator = value as ConditionOperator;
+            const noValue = operator === "empty" || operator === "notEmpty";
+            onChange({ ...condition, operator, value: noValue ? undefined : condition.value ?? "" });
+          }}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CONDITION_OPERATOR_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={condition.value ?? ""}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder={VALUE_PLACEHOLDERS[condition.operator] ?? "Value"}
+          disabled={valueless}
+          className="h-8 font-mono text-xs"
+          aria-label="Condition value"
+        />
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import {
   DEFAULT_TEXT_STYLE,
   DEFAULT_BARCODE_STYLE,
   DEFAULT_QRCODE_STYLE,
+  DEFAULT_DATAMATRIX_STYLE,
+  DEFAULT_PDF417_STYLE,
+  DEFAULT_AZTEC_STYLE,
 } from "@/types/label-spec";
 import { useHistory } from "./use-designer-history";
 import { DESIGNER_CONFIG, type SelectedItem, type ResizeHandle } from "./types";
@@ -126,13 +129,21 @@ export function DesignerProvider({ children, spec, onSpecChange }: DesignerProvi
       type,
       source: "assetTag",
       position: { x: snapValue(5), y: snapValue(5) },
-      size: { width: 30, height: type === "qrcode" ? 15 : 8 },
+      size: type === "qrcode" || type === "datamatrix" || type === "aztec"
+        ? { width: 15, height: 15 }
+        : { width: 30, height: type === "pdf417" ? 12 : 8 },
       style: type === "text" || type === "date"
         ? { ...DEFAULT_TEXT_STYLE }
         : type === "barcode"
         ? { ...DEFAULT_BARCODE_STYLE }
         : type === "qrcode"
         ? { ...DEFAULT_QRCODE_STYLE }
+        : type === "datamatrix"
+        ? { ...DEFAULT_DATAMATRIX_STYLE }
+        : type === "pdf417"
+        ? { ...DEFAULT_PDF417_STYLE }
+        : type === "aztec"
+        ? { ...DEFAULT_AZTEC_STYLE }
         : { objectFit: "contain" as const, opacity: 1 },
     };
     const newSpec = { ...spec, fields: [...spec.fields, newField] };
@@ -1,4 +1,4 @@
-import { Barcode, FileText, Minus, QrCode, Square, Tag } from "lucide-react";
+import { Barcode, FileText, Grid3x3, Minus, QrCode, ScanLine, Square, Tag, Target } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -41,6 +41,33 @@ export function DesignerElementsPanel() {
             <Barcode className="h-4 w-4 mr-2" />
             Barcode
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            onClick={() => addField("datamatrix")}
+          >
+            <Grid3x3 className="h-4 w-4 mr-2" />
+            DataMatrix
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            onClick={() => addField("pdf417")}
+          >
+            <ScanLine className="h-4 w-4 mr-2" />
+            PDF417
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            onClick={() => addField("aztec")}
+          >
+            <Target className="h-4 w-4 mr-2" />
+            Aztec
+          </Button>
           <Button
             variant="outline"
             size="sm"
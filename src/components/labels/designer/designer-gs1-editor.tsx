@@ -0,0 +1,149 @@
+import { Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GS1_APPLICATION_IDENTIFIERS } from "@/lib/gs1";
+import type { BarcodeStyle, GS1ApplicationIdentifier, GS1ElementBinding, LabelField } from "@/types/label-spec";
+import { GS1_SOURCE_OPTIONS } from "./types";
+
+const DEFAULT_GS1_ELEMENTS: GS1ElementBinding[] = [
+  { ai: "01", source: "customFields.gtin" },
+  { ai: "21", source: "serialNumber" },
+];
+
+const AI_OPTIONS = Object.entries(GS1_APPLICATION_IDENTIFIERS) as Array<
+  [GS1ApplicationIdentifier, (typeof GS1_APPLICATION_IDENTIFIERS)[GS1ApplicationIdentifier]]
+>;
+
+interface DesignerGS1EditorProps {
+  field: LabelField;
+  onFieldChange: (updates: Partial<LabelField>) => void;
+}
+
+export function supportsGS1(field: LabelField): boolean {
+  return field.type === "barcode" || field.type === "datamatrix";
+}
+
+export function DesignerGS1Editor({ field, onFieldChange }: DesignerGS1EditorProps) {
+  const elements = field.gs1?.elements ?? [];
+  const unusedAis = AI_OPTIONS.filter(([ai]) => !elements.some((element) => element.ai === ai));
+
+  function setEnabled(enabled: boolean) {
+    if (!enabled) {
+      onFieldChange({ gs1: undefined });
+      return;
+    }
+
+    onFieldChange({
+      gs1: { elements: DEFAULT_GS1_ELEMENTS.map((element) => ({ ...element })) },
+      // GS1-128 is Code 128 with FNC1, so other linear formats cannot carry it
+      ...(field.type === "barcode"
+        ? { style: { ...(field.style as BarcodeStyle), format: "CODE128" as const } }
+        : {}),
+    });
+  }
+
+  function updateElement(index: number, updates: Partial<GS1ElementBinding>) {
+    onFieldChange({
+      gs1: {
+        elements: elements.map((element, i) => (i === index ? { ...element, ...updates } : element)),
+      },
+    });
+  }
+
+  function removeElement(index: number) {
+    const next = elements.filter((_, i) => i !== index);
+    onFieldChange({ gs1: next.length > 0 ? { elements: next } : undefined });
+  }
+
+  function addElement() {
+    const [ai] = unusedAis[0] ?? [];
+    if (!ai) return;
+    onFieldChange({ gs1: { elements: [...elements, { ai, source: "assetTag" }] } });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={`gs1-${field.id}`}
+          checked={field.gs1 !== undefined}
+          onCheckedChange={(checked) => setEnabled(checked === true)}
+        />
+        <Label htmlFor={`gs1-${field.id}`} className="text-xs cursor-pointer">
+          GS1 mode ({field.type === "barcode" ? "GS1-128" : "GS1 DataMatrix"})
+        </Label>
+      </div>
+
+      {field.gs1 && (
+        <>
+          {elements.map((element, index) => (
+            <div key={element.ai} className="grid grid-cols-[5.5rem_1fr_auto] gap-1 items-center">
+              <Select
+                value={element.ai}
+                onValueChange={(value) => updateElement(index, { ai: value as GS1ApplicationIdentifier })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AI_OPTIONS.filter(
+                    ([ai]) => ai === element.ai || !elements.some((other) => other.ai === ai)
+                  ).map(([ai, definition]) => (
+                    <SelectItem key={ai} value={ai}>
+                      ({ai}) {definition.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={element.source}
+                onChange={(e) => updateElement(index, { source: e.target.value })}
+                list="gs1-source-options"
+                className="h-8"
+                aria-label={`Source for AI ${element.ai}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => removeElement(index)}
+                aria-label={`Remove AI ${element.ai}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <datalist id="gs1-source-options">
+            {GS1_SOURCE_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </datalist>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={addElement}
+            disabled={unusedAis.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Application Identifier
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
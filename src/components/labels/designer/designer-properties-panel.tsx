@@ -2,6 +2,7 @@ import { Trash2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -12,8 +13,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { useFonts } from "@/hooks/use-fonts";
+import type { TextOverflowMode, TextStyle } from "@/types/label-spec";
 import { useDesigner } from "./designer-context";
-import { FIELD_TYPE_LABELS, ELEMENT_TYPE_LABELS, ASSET_FIELD_OPTIONS } from "./types";
+import { DesignerConditionEditor } from "./designer-condition-editor";
+import { DesignerGS1Editor, supportsGS1 } from "./designer-gs1-editor";
+import { DesignerTemplateInput } from "./designer-template-input";
+import {
+  FIELD_TYPE_LABELS,
+  ELEMENT_TYPE_LABELS,
+  ASSET_FIELD_OPTIONS,
+  DATE_FORMAT_PRESETS,
+  STANDARD_FONT_FAMILIES,
+  TEXT_OVERFLOW_LABELS,
+} from "./types";
 
 export function DesignerPropertiesPanel() {
   const {
@@ -58,24 +71,108 @@ export function DesignerPropertiesPanel() {
       <CardContent className="space-y-4">
         {selectedField && (
           <>
-            <div className="space-y-2">
-              <Label className="text-xs">Data Source</Label>
-              <Select
-                value={selectedField.source}
-                onValueChange={(value) => updateField(selectedField.id, { source: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {ASSET_FIELD_OPTIONS.map((opt) => (
-                    <SelectItem key={opt.value} value={opt.value}>
-                      {opt.label}
-                    </SelectItem>
+            {supportsGS1(selectedField) && (
+              <DesignerGS1Editor
+                field={selectedField}
+                onFieldChange={(updates) => updateField(selectedField.id, updates, true)}
+              />
+            )}
+
+            {!selectedField.gs1 && (
+              <div className="space-y-2">
+                <Label className="text-xs">Data Source</Label>
+                <Select
+                  value={selectedField.source}
+                  onValueChange={(value) => updateField(selectedField.id, { source: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSET_FIELD_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {!selectedField.gs1 && selectedField.type !== "image" && (
+              <DesignerTemplateInput
+                id={`template-${selectedField.id}`}
+                value={selectedField.template ?? ""}
+                onChange={(value) => updateField(selectedField.id, { template: value || undefined })}
+              />
+            )}
+
+            {!selectedField.gs1 && (
+              <div className="space-y-1">
+                <Label htmlFor={`fallback-${selectedField.id}`} className="text-xs">Fallback</Label>
+                <Input
+                  id={`fallback-${selectedField.id}`}
+                  value={selectedField.fallback ?? ""}
+                  placeholder="Printed when the source is empty"
+                  onChange={(e) => updateField(selectedField.id, { fallback: e.target.value || undefined })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            )}
+
+            {(selectedField.type === "text" || selectedField.type === "date" || selectedField.type === "image") && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`required-${selectedField.id}`}
+                  checked={selectedField.required === true}
+                  onCheckedChange={(checked) => updateField(selectedField.id, { required: checked === true || undefined })}
+                />
+                <Label htmlFor={`required-${selectedField.id}`} className="text-xs cursor-pointer">
+                  Required: preflight flags assets without a value
+                </Label>
+              </div>
+            )}
+
+            {selectedField.type === "date" && (
+              <div className="space-y-1">
+                <Label htmlFor={`date-format-${selectedField.id}`} className="text-xs">Date Format</Label>
+                <Input
+                  id={`date-format-${selectedField.id}`}
+                  value={(selectedField.style as TextStyle).dateFormat ?? ""}
+                  placeholder="Tenant default"
+                  list="date-format-presets"
+                  onChange={(e) =>
+                    updateField(selectedField.id, {
+                      style: { ...(selectedField.style as TextStyle), dateFormat: e.target.value || undefined },
+                    })
+                  }
+                  className="h-8 font-mono text-xs"
+                />
+                <datalist id="date-format-presets">
+                  {DATE_FORMAT_PRESETS.map((format) => (
+                    <option key={format} value={format} />
                   ))}
-                </SelectContent>
-              </Select>
-            </div>
+                </datalist>
+              </div>
+            )}
+
+            {(selectedField.type === "text" || selectedField.type === "date") && (
+              <FontFamilySelect
+                value={(selectedField.style as TextStyle).fontFamily}
+                onChange={(fontFamily) =>
+                  updateField(selectedField.id, { style: { ...(selectedField.style as TextStyle), fontFamily } })
+                }
+              />
+            )}
+
+            {(selectedField.type === "text" || selectedField.type === "date") && (
+              <TextOverflowControls
+                style={selectedField.style as TextStyle}
+                onStyleChange={(updates) =>
+                  updateField(selectedField.id, { style: { ...(selectedField.style as TextStyle), ...updates } })
+                }
+              />
+            )}
 
             <Separator />
 
@@ -133,6 +230,14 @@ export function DesignerPropertiesPanel() {
                 />
               </div>
             </div>
+
+            <Separator />
+
+            <DesignerConditionEditor
+              id={selectedField.id}
+              condition={selectedField.condition}
+              onChange={(condition) => updateField(selectedField.id, { condition }, true)}
+            />
           </>
         )}
 
@@ -204,6 +309,14 @@ export function DesignerPropertiesPanel() {
                 />
               </div>
             </div>
+
+            <Separator />
+
+            <DesignerConditionEditor
+              id={selectedElement.id}
+              condition={selectedElement.condition}
+              onChange={(condition) => updateElement(selectedElement.id, { condition }, true)}
+            />
           </>
         )}
       </CardContent>
@@ -211,6 +324,106 @@ export function DesignerPropertiesPanel() {
   );
 }
 
+interface FontFamilySelectProps {
+  value: string;
+  onChange: (fontFamily: string) => void;
+}
+
+function FontFamilySelect({ value, onChange }: FontFamilySelectProps) {
+  const { data: fonts = [] } = useFonts();
+  const tenantFamilies = [...new Set(fonts.map((font) => font.family))];
+  const standardFamilies: string[] = [...STANDARD_FONT_FAMILIES];
+  const known = standardFamilies.includes(value) || tenantFamilies.includes(value);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Font</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {standardFamilies.map((family) => (
+            <SelectItem key={family} value={family}>
+              {family}
+            </SelectItem>
+          ))}
+          {tenantFamilies.map((family) => (
+            <SelectItem key={family} value={family}>
+              {family}
+            </SelectItem>
+          ))}
+          {!known && (
+            <SelectItem value={value}>
+              {value} (standard fallback)
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface TextOverflowControlsProps {
+  style: TextStyle;
+  onStyleChange: (updates: Partial<TextStyle>) => void;
+}
+
+function TextOverflowControls({ style, onStyleChange }: TextOverflowControlsProps) {
+  const overflow = style.overflow ?? "wrap";
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Text Overflow</Label>
+      <Select
+        value={overflow}
+        onValueChange={(value) => onStyleChange({ overflow: value as TextOverflowMode })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(TEXT_OVERFLOW_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="grid grid-cols-2 gap-2">
+        {overflow === "shrink" && (
+          <div className="space-y-1">
+            <Label className="text-xs">Min Size (pt)</Label>
+            <Input
+              type="number"
+              min={4}
+              max={style.fontSize}
+              value={style.minFontSize ?? ""}
+              placeholder="4"
+              onChange={(e) => onStyleChange({ minFontSize: parseFloat(e.target.value) || undefined })}
+              className="h-8"
+            />
+          </div>
+        )}
+        {overflow !== "ellipsis" && (
+          <div className="space-y-1">
+            <Label className="text-xs">Max Lines</Label>
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              value={style.maxLines ?? ""}
+              placeholder={overflow === "shrink" ? "1" : "Fit"}
+              onChange={(e) => onStyleChange({ maxLines: parseInt(e.target.value, 10) || undefined })}
+              className="h-8"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function DesignerSettingsPanel() {
   const { spec, updateSpec } = useDesigner();
   const { unit } = spec.dimensions;
@@ -0,0 +1,157 @@
+import { useRef, useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TEMPLATE_FILTERS, getTemplateCompletion, parseTemplate } from "@/lib/label-template";
+import { cn } from "@/lib/utils";
+import { TEMPLATE_PATH_OPTIONS } from "./types";
+
+const MAX_SUGGESTIONS = 8;
+
+interface TemplateSuggestion {
+  value: string;
+  detail: string;
+}
+
+interface DesignerTemplateInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function getSuggestions(template: string, caret: number): { from: number; items: TemplateSuggestion[] } | null {
+  const completion = getTemplateCompletion(template, caret);
+  if (!completion) return null;
+
+  const prefix = completion.prefix.toLowerCase();
+  const items = completion.kind === "filter"
+    ? Object.entries(TEMPLATE_FILTERS).map(([name, definition]) => ({ value: name, detail: definition.usage }))
+    : TEMPLATE_PATH_OPTIONS.map((opt) => ({ value: opt.value, detail: opt.label }));
+
+  const matches = items
+    .filter((item) => item.value.toLowerCase().startsWith(prefix) && item.value !== completion.prefix)
+    .slice(0, MAX_SUGGESTIONS);
+
+  return matches.length > 0 ? { from: completion.from, items: matches } : null;
+}
+
+function getTemplateError(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid template";
+  }
+}
+
+export function DesignerTemplateInput({ id, value, onChange }: DesignerTemplateInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = caret === null ? null : getSuggestions(value, caret);
+  const error = value ? getTemplateError(value) : null;
+
+  function updateCaret() {
+    setCaret(inputRef.current?.selectionStart ?? null);
+    setActiveIndex(0);
+  }
+
+  function accept(item: TemplateSuggestion) {
+    if (!suggestions || caret === null) return;
+
+    const next = value.slice(0, suggestions.from) + item.value + value.slice(caret);
+    const nextCaret = suggestions.from + item.value.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!suggestions) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((index) => (index + 1) % suggestions.items.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((index) => (index - 1 + suggestions.items.length) % suggestions.items.length);
+        break;
+      case "Enter":
+      case "Tab":
+        e.preventDefault();
+        accept(suggestions.items[activeIndex] ?? suggestions.items[0]!);
+        break;
+      case "Escape":
+        setCaret(null);
+        break;
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">Template</Label>
+      <div className="relative">
+        <Input
+          ref={inputRef}
+          id={id}
+          value={value}
+          placeholder="{{ manufacturer }} {{ model | upper }}"
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCaret();
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") {
+              updateCaret();
+            }
+          }}
+          onClick={updateCaret}
+          onBlur={() => setCaret(null)}
+          className="h-8 font-mono text-xs"
+          aria-invalid={error !== null}
+          aria-autocomplete="list"
+          autoComplete="off"
+          spellCheck={false}
+        />
+        {suggestions && (
+          <ul
+            role="listbox"
+            className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 text-xs shadow-md"
+          >
+            {suggestions.items.map((item, index) => (
+              <li
+                key={item.value}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  "flex cursor-pointer justify-between gap-2 rounded-sm px-2 py-1",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+                // Keep focus in the input so the caret position survives the click
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(item);
+                }}
+              >
+                <span className="font-mono">{item.value}</span>
+                <span className="truncate text-muted-foreground">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Overrides the data source. Filters: {"{{ location | upper }}"}, defaults: {"{{ a ?? b }}"}
+        </p>
+      )}
+    </div>
+  );
+}
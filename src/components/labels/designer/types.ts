@@ -1,4 +1,12 @@
-import type { LabelSpec, LabelField, LabelElement, LabelFieldType, LabelElementType } from "@/types/label-spec";
+import type {
+  ConditionOperator,
+  LabelSpec,
+  LabelField,
+  LabelElement,
+  LabelFieldType,
+  LabelElementType,
+  TextOverflowMode,
+} from "@/types/label-spec";
 
 export type SelectedItem =
   | { type: "field"; id: string }
@@ -23,6 +31,9 @@ export const FIELD_TYPE_LABELS: Record<LabelFieldType, string> = {
   text: "Text Field",
   qrcode: "QR Code",
   barcode: "Barcode",
+  datamatrix: "DataMatrix",
+  pdf417: "PDF417",
+  aztec: "Aztec Code",
   image: "Image",
   date: "Date",
 };
@@ -48,4 +59,53 @@ export const ASSET_FIELD_OPTIONS = [
   { value: "status", label: "Status" },
 ] as const;
 
+export const GS1_SOURCE_OPTIONS = [
+  ...ASSET_FIELD_OPTIONS,
+  { value: "purchaseDate", label: "Purchase Date" },
+  { value: "warrantyExpiry", label: "Warranty Expiry" },
+  { value: "customFields.gtin", label: "Custom: GTIN" },
+  { value: "customFields.lot", label: "Custom: Lot" },
+] as const;
+
+export const TEMPLATE_PATH_OPTIONS = [
+  ...ASSET_FIELD_OPTIONS,
+  { value: "purchaseDate", label: "Purchase Date" },
+  { value: "warrantyExpiry", label: "Warranty Expiry" },
+  { value: "customFields.", label: "Custom field" },
+] as const;
+
+export const DATE_FORMAT_PRESETS = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "DD MMM YYYY",
+  "MMM YYYY",
+  "YYYY-MM-DD HH:mm",
+] as const;
+
+/** Families every renderer can draw without an uploaded font */
+export const STANDARD_FONT_FAMILIES = ["Arial", "Times New Roman", "Courier New"] as const;
+
+export const TEXT_OVERFLOW_LABELS: Record<TextOverflowMode, string> = {
+  wrap: "Wrap",
+  shrink: "Shrink to fit",
+  ellipsis: "Truncate with ...",
+  error: "Fail the print",
+};
+
+export const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  eq: "equals",
+  neq: "does not equal",
+  contains: "contains",
+  empty: "is empty",
+  notEmpty: "is not empty",
+  in: "is one of",
+  notIn: "is not one of",
+  matches: "matches pattern",
+  gt: "is after / greater than",
+  gte: "is on or after / at least",
+  lt: "is before / less than",
+  lte: "is on or before / at most",
+};
+
 export type { LabelSpec, LabelField, LabelElement, LabelFieldType, LabelElementType };
@@ -17,6 +17,9 @@ import type {
   TextStyle,
   BarcodeStyle,
   QRCodeStyle,
+  DataMatrixStyle,
+  PDF417Style,
+  AztecStyle,
   TextAlign,
   VerticalAlign,
   BarcodeFormat,
@@ -61,6 +64,14 @@ const QR_ERROR_LEVELS: { value: "L" | "M" | "Q" | "H"; label: string }[] = [
   { value: "H", label: "High (30%)" },
 ];
 
+const PDF417_ERROR_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+const AZTEC_FORMATS: { value: AztecStyle["format"]; label: string }[] = [
+  { value: "auto", label: "Automatic" },
+  { value: "compact", label: "Compact" },
+  { value: "full", label: "Full range" },
+];
+
 function TextStyleEditor({
   style,
   onStyleChange,
@@ -338,8 +349,198 @@ function QRCodeStyleEditor({
   );
 }
 
+function SymbolAppearanceEditor({
+  style,
+  onStyleChange,
+}: {
+  style: DataMatrixStyle | PDF417Style | AztecStyle;
+  onStyleChange: (updates: Partial<DataMatrixStyle | PDF417Style | AztecStyle>) => void;
+}) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="text-xs">Quiet Zone (modules)</Label>
+        <Input
+          type="number"
+          value={style.margin}
+          onChange={(e) => onStyleChange({ margin: Number(e.target.value) || 0 })}
+          className="h-8"
+          min={0}
+          max={10}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Dark Color</Label>
+        <ColorPicker
+          value={style.darkColor}
+          onChange={(value) => onStyleChange({ darkColor: value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Light Color</Label>
+        <ColorPicker
+          value={style.lightColor}
+          onChange={(value) => onStyleChange({ lightColor: value })}
+        />
+      </div>
+    </>
+  );
+}
+
+function DataMatrixStyleEditor({
+  style,
+  onStyleChange,
+}: {
+  style: DataMatrixStyle;
+  onStyleChange: (updates: Partial<DataMatrixStyle>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-xs">Shape</Label>
+        <Select
+          value={style.shape}
+          onValueChange={(value) => onStyleChange({ shape: value as DataMatrixStyle["shape"] })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="square">Square</SelectItem>
+            <SelectItem value="rectangle">Rectangular</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <SymbolAppearanceEditor style={style} onStyleChange={onStyleChange} />
+    </div>
+  );
+}
+
+function PDF417StyleEditor({
+  style,
+  onStyleChange,
+}: {
+  style: PDF417Style;
+  onStyleChange: (updates: Partial<PDF417Style>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label className="text-xs">Data Columns</Label>
+          <Input
+            type="number"
+            value={style.columns}
+            onChange={(e) => onStyleChange({ columns: Math.round(Number(e.target.value)) || 0 })}
+            className="h-8"
+            min={0}
+            max={30}
+            placeholder="Auto"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Row Height</Label>
+          <Input
+            type="number"
+            value={style.rowHeight}
+            onChange={(e) => onStyleChange({ rowHeight: Math.round(Number(e.target.value)) || 3 })}
+            className="h-8"
+            min={2}
+            max={8}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Error Correction Level</Label>
+        <Select
+          value={String(style.errorCorrectionLevel)}
+          onValueChange={(value) => onStyleChange({ errorCorrectionLevel: Number(value) })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PDF417_ERROR_LEVELS.map((level) => (
+              <SelectItem key={level} value={String(level)}>
+                Level {level}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="pdf417Compact"
+          checked={style.compact}
+          onCheckedChange={(checked) => onStyleChange({ compact: checked === true })}
+        />
+        <Label htmlFor="pdf417Compact" className="text-xs cursor-pointer">
+          Compact (truncated) symbol
+        </Label>
+      </div>
+
+      <SymbolAppearanceEditor style={style} onStyleChange={onStyleChange} />
+    </div>
+  );
+}
+
+function AztecStyleEditor({
+  style,
+  onStyleChange,
+}: {
+  style: AztecStyle;
+  onStyleChange: (updates: Partial<AztecStyle>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-xs">Symbol Format</Label>
+        <Select
+          value={style.format}
+          onValueChange={(value) => onStyleChange({ format: value as AztecStyle["format"] })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AZTEC_FORMATS.map((format) => (
+              <SelectItem key={format.value} value={format.value}>
+                {format.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Error Correction (%)</Label>
+        <Input
+          type="number"
+          value={style.errorCorrectionPercent}
+          onChange={(e) =>
+            onStyleChange({ errorCorrectionPercent: Math.round(Number(e.target.value)) || 23 })
+          }
+          className="h-8"
+          min={5}
+          max={95}
+        />
+      </div>
+
+      <SymbolAppearanceEditor style={style} onStyleChange={onStyleChange} />
+    </div>
+  );
+}
+
 export function FieldEditor({ field, onFieldChange, unit }: FieldEditorProps) {
-  function handleStyleChange(updates: Partial<TextStyle | BarcodeStyle | QRCodeStyle>) {
+  function handleStyleChange(
+    updates: Partial<TextStyle | BarcodeStyle | QRCodeStyle | DataMatrixStyle | PDF417Style | AztecStyle>
+  ) {
     onFieldChange({ style: { ...field.style, ...updates } as typeof field.style });
   }
 
@@ -442,6 +643,27 @@ export function FieldEditor({ field, onFieldChange, unit }: FieldEditorProps) {
             onStyleChange={handleStyleChange}
           />
         )}
+
+        {field.type === "datamatrix" && (
+          <DataMatrixStyleEditor
+            style={field.style as DataMatrixStyle}
+            onStyleChange={handleStyleChange}
+          />
+        )}
+
+        {field.type === "pdf417" && (
+          <PDF417StyleEditor
+            style={field.style as PDF417Style}
+            onStyleChange={handleStyleChange}
+          />
+        )}
+
+        {field.type === "aztec" && (
+          <AztecStyleEditor
+            style={field.style as AztecStyle}
+            onStyleChange={handleStyleChange}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,26 @@
+import type { TenantFont } from "@/types/font";
+
+interface FontFaceStylesProps {
+  fonts: TenantFont[];
+}
+
+/**
+ * Declares tenant fonts for SVG text. Each face keeps its own weight and
+ * style so the browser picks the same file the renderer embeds.
+ */
+export function FontFaceStyles({ fonts }: FontFaceStylesProps) {
+  if (fonts.length === 0) return null;
+
+  const css = fonts
+    .map((font) => [
+      "@font-face {",
+      `font-family: ${JSON.stringify(font.family)};`,
+      `src: url("/api/fonts/${font.id}/file") format("${font.format === "otf" ? "opentype" : "truetype"}");`,
+      `font-weight: ${font.weight};`,
+      `font-style: ${font.style};`,
+      "}",
+    ].join(" "))
+    .join("\n");
+
+  return <style>{css}</style>;
+}
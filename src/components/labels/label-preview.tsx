@@ -1,8 +1,16 @@
 import { useMemo } from "react";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { LabelSpec, LabelField, LabelElement } from "@/types/label-spec";
+import { FontFaceStyles } from "@/components/labels/font-face-styles";
+import { useSpecFonts } from "@/hooks/use-fonts";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { DEFAULT_FIELD_RESOLVER, layoutLabel } from "@/lib/label-layout";
+import type { FieldValueResolver } from "@/lib/label-layout";
+import { displayItemsToSvg } from "@/lib/label-svg";
+import { getGS1Elements } from "@/lib/print-utils";
+import type { LabelSpec, GS1ApplicationIdentifier } from "@/types/label-spec";
 import type { Asset } from "@/types/asset";
+import type { DateFormatSettings } from "@/types/tenant";
 
 interface LabelPreviewProps {
   spec: LabelSpec;
@@ -10,6 +18,7 @@ interface LabelPreviewProps {
   scale?: number;
   showBorder?: boolean;
   className?: string;
+  dateSettings?: DateFormatSettings;
 }
 
 const SAMPLE_ASSET: Partial<Asset> = {
@@ -23,178 +32,42 @@ const SAMPLE_ASSET: Partial<Asset> = {
   category: "networking",
   type: "Switch",
   status: "active",
+  purchaseDate: new Date("2024-03-15"),
+  warrantyExpiry: new Date("2027-03-15"),
 };
 
-function getAssetValue(asset: Partial<Asset>, source: string): string {
-  if (source.startsWith("customFields.")) {
-    const fieldName = source.replace("customFields.", "");
-    const value = asset.customFields?.[fieldName];
-    return value !== undefined ? String(value) : "";
-  }
-  
-  const value = asset[source as keyof Asset];
-  if (value === undefined || value === null) return "";
-  if (value instanceof Date) return value.toLocaleDateString();
-  return String(value);
-}
-
-function renderFieldContent(
-  field: LabelField,
-  asset: Partial<Asset>
-): React.ReactNode {
-  const value = getAssetValue(asset, field.source) || field.fallback || `{${field.source}}`;
+const GS1_SAMPLE_VALUES: Record<GS1ApplicationIdentifier, string> = {
+  "01": "09506000134352",
+  "10": "LOT-0001",
+  "17": "301231",
+  "21": "SN-ABCD1234XYZ",
+};
 
-  switch (field.type) {
-    case "text":
-    case "date": {
-      const style = field.style as { fontSize?: number; fontFamily?: string; fontWeight?: string; color?: string };
-      return (
-        <text
-          x={1}
-          y={field.size.height * 0.7}
-          fontSize={Math.min((style.fontSize ?? 10) * 0.8, field.size.height * 0.8)}
-          fontFamily={style.fontFamily ?? "Arial"}
-          fontWeight={style.fontWeight ?? "normal"}
-          fill={style.color ?? "#000"}
-        >
-          {value}
-        </text>
-      );
+/**
+ * Print resolution, except that empty values show their binding and GS1
+ * elements fall back to sample values
+ */
+const PREVIEW_RESOLVER: FieldValueResolver = {
+  value: (field, asset, dates) => {
+    // A half-typed template shows as-is
+    try {
+      return DEFAULT_FIELD_RESOLVER.value(field, asset, dates) || field.template || `{${field.source}}`;
+    } catch {
+      return field.template ?? "";
     }
-    case "qrcode": {
-      const QR_PATTERN = [
-        [1, 1, 1, 1, 1, 0, 1],
-        [1, 0, 0, 0, 1, 0, 0],
-        [1, 0, 1, 0, 1, 0, 1],
-        [1, 0, 0, 0, 1, 0, 0],
-        [1, 1, 1, 1, 1, 0, 1],
-        [0, 0, 0, 0, 0, 0, 0],
-        [1, 0, 1, 0, 1, 0, 1],
-      ];
-      const cellSize = (field.size.width * 0.8) / 7;
-      return (
-        <g>
-          <rect
-            width={field.size.width}
-            height={field.size.height}
-            fill="#fff"
-            stroke="#000"
-            strokeWidth={0.2}
-          />
-          <g transform={`translate(${field.size.width * 0.1}, ${field.size.height * 0.1})`}>
-            {QR_PATTERN.map((rowData, row) =>
-              rowData.map((cell, col) =>
-                cell === 1 ? (
-                  <rect
-                    key={`${row}-${col}`}
-                    x={col * cellSize}
-                    y={row * cellSize}
-                    width={cellSize * 0.9}
-                    height={cellSize * 0.9}
-                    fill="#000"
-                  />
-                ) : null
-              )
-            )}
-          </g>
-        </g>
-      );
-    }
-    case "barcode":
-      return (
-        <g>
-          <rect
-            width={field.size.width}
-            height={field.size.height}
-            fill="#fff"
-          />
-          {Array.from({ length: 20 }).map((_, i) => (
-            <rect
-              key={i}
-              x={1 + i * (field.size.width - 2) / 20}
-              y={1}
-              width={(field.size.width - 2) / 40}
-              height={field.size.height * 0.7}
-              fill={i % 3 === 0 ? "#000" : i % 2 === 0 ? "#000" : "transparent"}
-            />
-          ))}
-          <text
-            x={field.size.width / 2}
-            y={field.size.height - 1}
-            fontSize={Math.min(6, field.size.height * 0.2)}
-            fontFamily="monospace"
-            textAnchor="middle"
-            fill="#000"
-          >
-            {value.slice(0, 15)}
-          </text>
-        </g>
-      );
-    case "image":
-      return (
-        <rect
-          width={field.size.width}
-          height={field.size.height}
-          fill="#f3f4f6"
-          stroke="#d1d5db"
-          strokeWidth={0.2}
-        />
-      );
-    default:
-      return null;
-  }
-}
+  },
+  gs1: (field, asset) => {
+    if (!field.gs1) return [];
 
-function renderElement(element: LabelElement): React.ReactNode {
-  switch (element.type) {
-    case "rect":
-      return (
-        <rect
-          width={element.size.width}
-          height={element.size.height}
-          fill={element.style.fill ?? "transparent"}
-          stroke={element.style.stroke ?? "none"}
-          strokeWidth={element.style.strokeWidth ?? 1}
-          rx={element.style.borderRadius ?? 0}
-        />
-      );
-    case "line":
-      return (
-        <line
-          x1={0}
-          y1={0}
-          x2={element.size.width}
-          y2={0}
-          stroke={element.style.stroke ?? "#000"}
-          strokeWidth={element.style.strokeWidth ?? 0.5}
-        />
-      );
-    case "text":
-      return (
-        <text
-          fontSize={element.style.fontSize ?? 10}
-          fontFamily={element.style.fontFamily ?? "Arial"}
-          fontWeight={element.style.fontWeight ?? "normal"}
-          fill={element.style.color ?? "#000"}
-        >
-          {element.content}
-        </text>
-      );
-    case "image":
-    case "logo":
-      return (
-        <rect
-          width={element.size.width}
-          height={element.size.height}
-          fill="#e5e7eb"
-          stroke="#9ca3af"
-          strokeWidth={0.2}
-        />
-      );
-    default:
-      return null;
-  }
-}
+    return getGS1Elements(asset, {
+      ...field.gs1,
+      elements: field.gs1.elements.map((element) => ({
+        ...element,
+        fallback: element.fallback ?? GS1_SAMPLE_VALUES[element.ai],
+      })),
+    });
+  },
+};
 
 export function LabelPreview({
   spec,
@@ -202,12 +75,22 @@ export function LabelPreview({
   scale = 3,
   showBorder = true,
   className,
+  dateSettings = DEFAULT_DATE_SETTINGS,
 }: LabelPreviewProps) {
   const previewAsset = useMemo(() => ({ ...SAMPLE_ASSET, ...asset }), [asset]);
-  
-  const { width, height } = spec.dimensions;
-  const canvasWidth = width * scale;
-  const canvasHeight = height * scale;
+  const fonts = useSpecFonts(spec);
+  const layout = useMemo(
+    () => layoutLabel(spec, previewAsset as Record<string, unknown>, {
+      dates: dateSettings,
+      fonts: fonts.loaded,
+      resolver: PREVIEW_RESOLVER,
+    }),
+    [spec, previewAsset, dateSettings, fonts.loaded]
+  );
+  const markup = useMemo(() => displayItemsToSvg(layout.items, { markers: true }), [layout]);
+
+  const canvasWidth = spec.dimensions.width * scale;
+  const canvasHeight = spec.dimensions.height * scale;
 
   return (
     <div
@@ -222,37 +105,17 @@ export function LabelPreview({
       <svg
         width={canvasWidth}
         height={canvasHeight}
-        viewBox={`0 0 ${width} ${height}`}
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
       >
+        <FontFaceStyles fonts={fonts.faces} />
         <rect
           x={0}
           y={0}
-          width={width}
-          height={height}
+          width={layout.width}
+          height={layout.height}
           fill="#fff"
         />
-
-        {spec.elements.map((element) => (
-          <g
-            key={element.id}
-            transform={`translate(${element.position.x}, ${element.position.y})${
-              element.rotation ? ` rotate(${element.rotation})` : ""
-            }`}
-          >
-            {renderElement(element)}
-          </g>
-        ))}
-
-        {spec.fields.map((field) => (
-          <g
-            key={field.id}
-            transform={`translate(${field.position.x}, ${field.position.y})${
-              field.rotation ? ` rotate(${field.rotation})` : ""
-            }`}
-          >
-            {renderFieldContent(field, previewAsset)}
-          </g>
-        ))}
+        <g dangerouslySetInnerHTML={{ __html: markup }} />
       </svg>
     </div>
   );
@@ -262,16 +125,17 @@ interface LabelPreviewCardProps {
   spec: LabelSpec;
   asset?: Partial<Asset>;
   title?: string;
+  dateSettings?: DateFormatSettings;
 }
 
-export function LabelPreviewCard({ spec, asset, title = "Preview" }: LabelPreviewCardProps) {
+export function LabelPreviewCard({ spec, asset, title = "Preview", dateSettings }: LabelPreviewCardProps) {
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="text-sm">{title}</CardTitle>
       </CardHeader>
       <CardContent className="flex justify-center p-4 bg-gray-50 rounded-b-lg">
-        <LabelPreview spec={spec} asset={asset} scale={4} />
+        <LabelPreview spec={spec} asset={asset} scale={4} dateSettings={dateSettings} />
       </CardContent>
     </Card>
   );
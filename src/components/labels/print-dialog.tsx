@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { Printer, FileText, Download, X, Loader2, AlertCircle } from "lucide-react";
+import { Printer, FileText, Download, X, Loader2, AlertCircle, AlertTriangle, CheckCircle2, ShieldCheck } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -20,11 +20,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { usePrint } from "@/hooks/use-print";
-import { LABEL_FORMATS } from "@/types/label-spec";
+import { SheetMap } from "@/components/labels/sheet-map";
+import { useLabelFormat } from "@/hooks/use-label-formats";
+import { usePrint, usePrintPreflight } from "@/hooks/use-print";
+import { getFirstSheetSlots, getSheetLayoutForFormat } from "@/lib/print-utils";
+import { cn } from "@/lib/utils";
+import { PRINT_OUTPUT_FORMAT } from "@/types/print";
+import type { PreflightIssue, PrintOutputFormat } from "@/types/print";
 import type { LabelTemplate } from "@/types/template";
 import type { Asset } from "@/types/asset";
 
+const DOWNLOAD_EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "image/png": "png",
+  "image/svg+xml": "svg",
+};
+
 interface PrintDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -43,11 +55,17 @@ export function PrintDialog({
   selectedAssetIds = [],
 }: PrintDialogProps) {
   const { createJob, renderJob, preview, isCreating, isRendering, error, clearError } = usePrint();
+  const preflight = usePrintPreflight();
+  const { mutate: runPreflight, reset: resetPreflight } = preflight;
 
   const [templateId, setTemplateId] = useState<string>(selectedTemplateId ?? "");
   const [assetIds, setAssetIds] = useState<string[]>(selectedAssetIds);
   const [copies, setCopies] = useState(1);
   const [useSheetLayout, setUseSheetLayout] = useState(false);
+  const [startPosition, setStartPosition] = useState(0);
+  const [skipPositions, setSkipPositions] = useState<number[]>([]);
+  const [markUsed, setMarkUsed] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<PrintOutputFormat>(PRINT_OUTPUT_FORMAT.PDF);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
 
   useEffect(() => {
@@ -58,6 +76,17 @@ export function PrintDialog({
     if (selectedAssetIds.length > 0) setAssetIds(selectedAssetIds);
   }, [selectedAssetIds]);
 
+  // Sheet positions belong to the template's sheet format
+  useEffect(() => {
+    setStartPosition(0);
+    setSkipPositions([]);
+    setMarkUsed(false);
+  }, [templateId]);
+
+  useEffect(() => {
+    resetPreflight();
+  }, [templateId, resetPreflight]);
+
   useEffect(() => {
     return () => {
       if (previewUrl) URL.revokeObjectURL(previewUrl);
@@ -66,12 +95,23 @@ export function PrintDialog({
 
   const handleClose = useCallback(() => {
     clearError();
+    resetPreflight();
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
       setPreviewUrl(null);
     }
     onOpenChange(false);
-  }, [clearError, onOpenChange, previewUrl]);
+  }, [clearError, resetPreflight, onOpenChange, previewUrl]);
+
+  const handlePreflight = useCallback(() => {
+    if (!templateId || assetIds.length === 0) return;
+    runPreflight({ templateId, assetIds });
+  }, [templateId, assetIds, runPreflight]);
+
+  const excludeAssets = useCallback((ids: string[]) => {
+    const excluded = new Set(ids);
+    setAssetIds((prev) => prev.filter((id) => !excluded.has(id)));
+  }, []);
 
   const handlePreview = useCallback(async () => {
     if (!templateId || assetIds.length === 0) return;
@@ -95,6 +135,7 @@ export function PrintDialog({
       options: {
         copies,
         useSheetLayout,
+        ...(useSheetLayout ? { startPosition, skipPositions } : {}),
       },
     });
 
@@ -112,7 +153,7 @@ export function PrintDialog({
     }
 
     handleClose();
-  }, [templateId, assetIds, copies, useSheetLayout, createJob, renderJob, handleClose]);
+  }, [templateId, assetIds, copies, useSheetLayout, startPosition, skipPositions, createJob, renderJob, handleClose]);
 
   const handleDownload = useCallback(async () => {
     if (!templateId || assetIds.length === 0) return;
@@ -122,7 +163,9 @@ export function PrintDialog({
       assetIds,
       options: {
         copies,
-        useSheetLayout,
+        useSheetLayout: downloadFormat === PRINT_OUTPUT_FORMAT.PDF && useSheetLayout,
+        ...(downloadFormat === PRINT_OUTPUT_FORMAT.PDF && useSheetLayout ? { startPosition, skipPositions } : {}),
+        outputFormat: downloadFormat,
       },
     });
 
@@ -131,22 +174,53 @@ export function PrintDialog({
     const blob = await renderJob(job.id);
     if (!blob) return;
 
+    const extension = DOWNLOAD_EXTENSIONS[blob.type] ?? "pdf";
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `labels-${assetIds.length}x-${new Date().toISOString().slice(0, 10)}.pdf`;
+    link.download = `labels-${assetIds.length}x-${new Date().toISOString().slice(0, 10)}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
 
     handleClose();
-  }, [templateId, assetIds, copies, useSheetLayout, createJob, renderJob, handleClose]);
+  }, [
+    templateId,
+    assetIds,
+    copies,
+    useSheetLayout,
+    startPosition,
+    skipPositions,
+    downloadFormat,
+    createJob,
+    renderJob,
+    handleClose,
+  ]);
 
   const selectedTemplate = templates.find((t) => t.id === templateId);
-  const formatInfo = selectedTemplate
-    ? LABEL_FORMATS[selectedTemplate.format as keyof typeof LABEL_FORMATS]
-    : null;
+  const formatInfo = useLabelFormat(selectedTemplate?.format);
+  const sheetLayout = getSheetLayoutForFormat(formatInfo);
+
+  const labelCount = assetIds.length * copies;
+  const firstSheetSlots = sheetLayout
+    ? getFirstSheetSlots(sheetLayout, startPosition, skipPositions).length
+    : 0;
+  const extraSheets = firstSheetSlots > 0 && sheetLayout
+    ? Math.ceil(Math.max(0, labelCount - firstSheetSlots) / sheetLayout.labelsPerSheet)
+    : 0;
+
+  // Issues of assets still selected, grouped per asset in selection order
+  const preflightIssues = new Map<string, PreflightIssue[]>();
+  for (const issue of preflight.data?.issues ?? []) {
+    if (!assetIds.includes(issue.assetId)) continue;
+    preflightIssues.set(issue.assetId, [...(preflightIssues.get(issue.assetId) ?? []), issue]);
+  }
+  const blockedAssetIds = (preflight.data?.blockedAssetIds ?? []).filter((id) => assetIds.includes(id));
+  const getFieldLabel = (fieldId: string) => {
+    const field = selectedTemplate?.spec.fields.find((f) => f.id === fieldId);
+    return field ? `${field.type} (${field.template ? "template" : field.gs1 ? "GS1" : field.source})` : fieldId;
+  };
 
   const publishedTemplates = templates.filter((t) => t.isPublished);
   const isValid = templateId && assetIds.length > 0;
@@ -196,8 +270,8 @@ export function PrintDialog({
               </Select>
               {formatInfo && (
                 <p className="text-xs text-muted-foreground">
-                  {formatInfo.name} - {formatInfo.dimensions.width}×{formatInfo.dimensions.height}
-                  {formatInfo.dimensions.unit}
+                  {formatInfo.name} - {formatInfo.width}×{formatInfo.height}
+                  {formatInfo.unit}
                 </p>
               )}
             </div>
@@ -252,7 +326,81 @@ export function PrintDialog({
             )}
           </div>
 
-          {formatInfo && formatInfo.labelsPerSheet > 1 && (
+          {preflight.error && (
+            <div className="flex items-center gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="size-4 shrink-0" />
+              {preflight.error.message}
+            </div>
+          )}
+
+          {preflight.data && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <Label>Preflight</Label>
+                {blockedAssetIds.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => excludeAssets(blockedAssetIds)}>
+                    Exclude {blockedAssetIds.length} with errors
+                  </Button>
+                )}
+              </div>
+              {preflightIssues.size === 0 ? (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CheckCircle2 className="size-4 text-green-600" />
+                  No problems found
+                </p>
+              ) : (
+                <div className="max-h-48 overflow-auto rounded-md border divide-y">
+                  {[...preflightIssues].map(([assetId, issues]) => (
+                    <div key={assetId} className="flex items-start justify-between gap-2 p-2">
+                      <div className="min-w-0 space-y-1">
+                        <p className="text-sm font-medium">{issues[0]?.assetTag}</p>
+                        {issues.map((issue) => (
+                          <p
+                            key={issue.fieldId}
+                            className={cn(
+                              "flex items-start gap-1 text-xs",
+                              issue.severity === "error" ? "text-destructive" : "text-amber-600"
+                            )}
+                          >
+                            {issue.severity === "error" ? (
+                              <AlertCircle className="mt-0.5 size-3 shrink-0" />
+                            ) : (
+                              <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+                            )}
+                            <span>
+                              <span className="font-medium">{getFieldLabel(issue.fieldId)}:</span> {issue.message}
+                            </span>
+                          </p>
+                        ))}
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => excludeAssets([assetId])}>
+                        Exclude
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="downloadFormat">Download Format</Label>
+            <Select
+              value={downloadFormat}
+              onValueChange={(value) => setDownloadFormat(value as PrintOutputFormat)}
+            >
+              <SelectTrigger id="downloadFormat" className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PRINT_OUTPUT_FORMAT.PDF}>PDF document</SelectItem>
+                <SelectItem value={PRINT_OUTPUT_FORMAT.PNG}>PNG images (ZIP for batches)</SelectItem>
+                <SelectItem value={PRINT_OUTPUT_FORMAT.SVG}>SVG vector files (ZIP for batches)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {sheetLayout && sheetLayout.labelsPerSheet > 1 && (
             <div className="flex items-center gap-2">
               <Checkbox
                 id="sheetLayout"
@@ -260,11 +408,46 @@ export function PrintDialog({
                 onCheckedChange={(checked) => setUseSheetLayout(checked === true)}
               />
               <Label htmlFor="sheetLayout" className="text-sm font-normal cursor-pointer">
-                Use sheet layout ({formatInfo.labelsPerSheet} labels per sheet)
+                Use sheet layout ({sheetLayout.labelsPerSheet} labels per sheet)
               </Label>
             </div>
           )}
 
+          {sheetLayout && sheetLayout.labelsPerSheet > 1 && useSheetLayout && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <Label>First Sheet</Label>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="markUsed"
+                    checked={markUsed}
+                    onCheckedChange={(checked) => setMarkUsed(checked === true)}
+                  />
+                  <Label htmlFor="markUsed" className="text-sm font-normal cursor-pointer">
+                    Mark used positions
+                  </Label>
+                </div>
+              </div>
+              <SheetMap
+                columns={sheetLayout.columns}
+                rows={sheetLayout.rows}
+                labelCount={labelCount}
+                startPosition={startPosition}
+                skipPositions={skipPositions}
+                markUsed={markUsed}
+                onStartPositionChange={setStartPosition}
+                onSkipPositionsChange={setSkipPositions}
+              />
+              <p className="text-xs text-muted-foreground">
+                {firstSheetSlots === 0
+                  ? "No free positions left on this sheet"
+                  : `${Math.min(labelCount, firstSheetSlots)} of ${firstSheetSlots} free positions used${
+                      extraSheets > 0 ? `, then ${extraSheets} more sheet${extraSheets === 1 ? "" : "s"}` : ""
+                    }. ${markUsed ? "Click positions that are already used." : "Click a position to start there."}`}
+              </p>
+            </div>
+          )}
+
           {previewUrl && (
             <div className="space-y-2">
               <Label>Preview</Label>
@@ -279,13 +462,17 @@ export function PrintDialog({
           <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
             Cancel
           </Button>
+          <Button variant="outline" onClick={handlePreflight} disabled={!isValid || isProcessing || preflight.isPending}>
+            {preflight.isPending ? <Loader2 className="mr-2 size-4 animate-spin" /> : <ShieldCheck className="mr-2 size-4" />}
+            Check
+          </Button>
           <Button variant="outline" onClick={handlePreview} disabled={!isValid || isProcessing}>
             {isRendering ? <Loader2 className="mr-2 size-4 animate-spin" /> : <FileText className="mr-2 size-4" />}
             Preview
           </Button>
           <Button variant="outline" onClick={handleDownload} disabled={!isValid || isProcessing}>
             {isProcessing ? <Loader2 className="mr-2 size-4 animate-spin" /> : <Download className="mr-2 size-4" />}
-            Download PDF
+            Download {downloadFormat.toUpperCase()}
           </Button>
           <Button onClick={handlePrint} disabled={!isValid || isProcessing}>
             {isProcessing ? <Loader2 className="mr-2 size-4 animate-spin" /> : <Printer className="mr-2 size-4" />}
@@ -0,0 +1,80 @@
+import { cn } from "@/lib/utils";
+import { getFirstSheetSlots } from "@/lib/print-utils";
+
+interface SheetMapProps {
+  columns: number;
+  rows: number;
+  labelCount: number;
+  startPosition: number;
+  skipPositions: number[];
+  markUsed: boolean;
+  onStartPositionChange: (position: number) => void;
+  onSkipPositionsChange: (positions: number[]) => void;
+}
+
+/**
+ * Clickable map of the first sheet. Clicking a slot sets where printing
+ * begins, or with markUsed toggles it as already used.
+ */
+export function SheetMap({
+  columns,
+  rows,
+  labelCount,
+  startPosition,
+  skipPositions,
+  markUsed,
+  onStartPositionChange,
+  onSkipPositionsChange,
+}: SheetMapProps) {
+  const slots = getFirstSheetSlots({ columns, rows }, startPosition, skipPositions);
+  const printed = new Set(slots.slice(0, labelCount));
+
+  function handleClick(index: number) {
+    if (!markUsed) {
+      onStartPositionChange(index);
+      onSkipPositionsChange(skipPositions.filter((skipped) => skipped > index));
+      return;
+    }
+
+    onSkipPositionsChange(
+      skipPositions.includes(index)
+        ? skipPositions.filter((skipped) => skipped !== index)
+        : [...skipPositions, index].sort((a, b) => a - b)
+    );
+  }
+
+  return (
+    <div
+      className="grid w-fit gap-1 rounded-md border bg-muted/40 p-2"
+      style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      role="group"
+      aria-label="Sheet positions"
+    >
+      {Array.from({ length: rows * columns }, (_, index) => {
+        const used = index < startPosition || skipPositions.includes(index);
+        const row = Math.floor(index / columns) + 1;
+        const column = (index % columns) + 1;
+
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => handleClick(index)}
+            disabled={markUsed && index < startPosition}
+            className={cn(
+              "h-5 w-12 rounded-sm border text-[10px] tabular-nums transition-colors",
+              used && "border-dashed bg-muted text-muted-foreground line-through",
+              printed.has(index) && "border-primary bg-primary/20 text-primary",
+              !used && !printed.has(index) && "bg-background text-muted-foreground",
+              index === startPosition && "ring-2 ring-primary"
+            )}
+            aria-label={`Row ${row}, column ${column}${used ? ", used" : ""}`}
+            aria-pressed={markUsed ? skipPositions.includes(index) : index === startPosition}
+          >
+            {index + 1}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { Hash, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useAssetTagPatterns,
+  useCreateAssetTagPattern,
+  useUpdateAssetTagPattern,
+  useDeleteAssetTagPattern,
+} from "@/hooks/use-asset-tag-patterns";
+import { getTagPatternError, renderTagPattern, type TagPatternValues } from "@/lib/asset-tag-pattern";
+import { EQUIPMENT_CATEGORIES, type EquipmentCategory } from "@/types/asset";
+import type { AssetTagPattern } from "@/types/asset-tag";
+
+const CATEGORY_LABELS: Record<EquipmentCategory, string> = {
+  networking: "Networking",
+  servers: "Servers",
+  cabling: "Cabling",
+  power: "Power",
+  physical: "Physical",
+  "iot-edge": "IoT/Edge",
+};
+
+const SAMPLE_VALUES: TagPatternValues = {
+  type: "switch",
+  manufacturer: "Cisco",
+  model: "C9300",
+  serialNumber: "FOC1234X0AB",
+  location: "DC1",
+  department: "IT",
+  status: "active",
+  customFields: { site: "HQ" },
+};
+
+interface PatternFormData {
+  category: EquipmentCategory;
+  pattern: string;
+  description: string;
+}
+
+function getExample(pattern: string, category: EquipmentCategory): string {
+  try {
+    return renderTagPattern(pattern, { ...SAMPLE_VALUES, category }, {
+      now: new Date(),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }).format(1);
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid tag pattern";
+  }
+}
+
+export function AssetTagSettings() {
+  const { data: patterns = [], isLoading } = useAssetTagPatterns();
+  const createPattern = useCreateAssetTagPattern();
+  const updatePattern = useUpdateAssetTagPattern();
+  const deletePattern = useDeleteAssetTagPattern();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPattern, setEditingPattern] = useState<AssetTagPattern | null>(null);
+  const [formData, setFormData] = useState<PatternFormData>({
+    category: EQUIPMENT_CATEGORIES.NETWORKING,
+    pattern: "",
+    description: "",
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [deleteConfirmPattern, setDeleteConfirmPattern] = useState<AssetTagPattern | null>(null);
+
+  const availableCategories = Object.values(EQUIPMENT_CATEGORIES).filter(
+    (category) => !patterns.some((pattern) => pattern.category === category)
+  );
+  const isSaving = createPattern.isPending || updatePattern.isPending;
+
+  function openCreateDialog() {
+    setEditingPattern(null);
+    setFormData({
+      category: availableCategories[0] ?? EQUIPMENT_CATEGORIES.NETWORKING,
+      pattern: "",
+      description: "",
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  }
+
+  function openEditDialog(pattern: AssetTagPattern) {
+    setEditingPattern(pattern);
+    setFormData({
+      category: pattern.category,
+      pattern: pattern.pattern,
+      description: pattern.description ?? "",
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    const error = getTagPatternError(formData.pattern.trim());
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    const input = {
+      pattern: formData.pattern.trim(),
+      description: formData.description.trim() || null,
+    };
+
+    try {
+      if (editingPattern) {
+        await updatePattern.mutateAsync({ id: editingPattern.id, input });
+      } else {
+        await createPattern.mutateAsync({ ...input, category: formData.category });
+      }
+      setIsDialogOpen(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save tag pattern");
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteConfirmPattern) return;
+    await deletePattern.mutateAsync(deleteConfirmPattern.id);
+    setDeleteConfirmPattern(null);
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="h-5 w-5" />
+              Asset Tags
+            </CardTitle>
+            <CardDescription>
+              Generate asset tags per category when an asset is created or imported without one.
+              Sequence numbers are allocated atomically, so generated tags never repeat.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateDialog} disabled={availableCategories.length === 0}>
+            <Plus className="h-4 w-4" />
+            Add Pattern
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : patterns.length === 0 ? (
+            <EmptyState
+              icon={Hash}
+              title="No tag patterns"
+              description="Asset tags are entered by hand until a pattern is added."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Pattern</TableHead>
+                  <TableHead className="hidden md:table-cell">Example</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {patterns.map((pattern) => (
+                  <TableRow key={pattern.id}>
+                    <TableCell className="font-medium">
+                      {CATEGORY_LABELS[pattern.category]}
+                      {pattern.description && (
+                        <p className="text-xs font-normal text-muted-foreground">{pattern.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{pattern.pattern}</TableCell>
+                    <TableCell className="hidden md:table-cell font-mono text-sm text-muted-foreground">
+                      {getExample(pattern.pattern, pattern.category)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(pattern)} aria-label={`Edit ${CATEGORY_LABELS[pattern.category]} pattern`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDeleteConfirmPattern(pattern)} aria-label={`Delete ${CATEGORY_LABELS[pattern.category]} pattern`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingPattern ? "Edit Tag Pattern" : "Add Tag Pattern"}</DialogTitle>
+            <DialogDescription>
+              Use {"{seq}"} or {"{seq:5}"} for the sequence number, {"{YYYY}"}, {"{YY}"}, {"{MM}"} and{" "}
+              {"{DD}"} for the date, and asset fields such as {"{location}"}, {"{category:upper}"} or a
+              custom field like {"{site}"}. Each distinct prefix keeps its own counter.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                {formError}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, category: value as EquipmentCategory }))}
+                disabled={Boolean(editingPattern)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(editingPattern ? [editingPattern.category] : availableCategories).map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tag-pattern">
+                Pattern <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="tag-pattern"
+                value={formData.pattern}
+                onChange={(e) => setFormData((prev) => ({ ...prev, pattern: e.target.value }))}
+                placeholder="NET-{YYYY}-{seq:5}"
+                className="font-mono"
+              />
+              {formData.pattern.trim() && (
+                <p className="text-xs text-muted-foreground">
+                  Example: <span className="font-mono">{getExample(formData.pattern.trim(), formData.category)}</span>
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tag-pattern-description">Description</Label>
+              <Input
+                id="tag-pattern-description"
+                value={formData.description}
+                onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : editingPattern ? "Save Changes" : "Add Pattern"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(deleteConfirmPattern)} onOpenChange={() => setDeleteConfirmPattern(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Tag Pattern</DialogTitle>
+            <DialogDescription>
+              New {deleteConfirmPattern ? CATEGORY_LABELS[deleteConfirmPattern.category] : ""} assets
+              will need a tag entered by hand. Counters are kept, so adding the pattern back continues
+              where it left off.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmPattern(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deletePattern.isPending}>
+              {deletePattern.isPending ? "Deleting..." : "Delete Pattern"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+import { useRef, useState } from "react";
+import { Loader2, Trash2, Type, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useFonts, useUploadFont, useDeleteFont } from "@/hooks/use-fonts";
+import { MAX_FONT_FILE_SIZE, type TenantFont } from "@/types/font";
+
+function describeFace(font: TenantFont): string {
+  if (font.weight === "bold") {
+    return font.style === "italic" ? "Bold Italic" : "Bold";
+  }
+  return font.style === "italic" ? "Italic" : "Regular";
+}
+
+function formatFileSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+export function FontLibrarySettings() {
+  const { data: fonts = [], isLoading } = useFonts();
+  const uploadFont = useUploadFont();
+  const deleteFont = useDeleteFont();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [family, setFamily] = useState("");
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [deleteConfirmFont, setDeleteConfirmFont] = useState<TenantFont | null>(null);
+
+  async function handleUpload(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file) return;
+
+    if (file.size > MAX_FONT_FILE_SIZE) {
+      setUploadError(`File too large. Maximum size is ${MAX_FONT_FILE_SIZE / 1024 / 1024}MB`);
+      return;
+    }
+
+    setUploadError(null);
+    try {
+      await uploadFont.mutateAsync({ file, family: family.trim() || undefined });
+      setFile(null);
+      setFamily("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Failed to upload font");
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteConfirmFont) return;
+    await deleteFont.mutateAsync(deleteConfirmFont.id);
+    setDeleteConfirmFont(null);
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Type className="h-5 w-5" />
+            Fonts
+          </CardTitle>
+          <CardDescription>
+            Upload TrueType fonts for label text, e.g. your corporate typeface or a font covering
+            Cyrillic or CJK. Only the glyphs a label uses are embedded in its PDF. Printer
+            languages (ZPL, EPL) keep using the printer's resident fonts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleUpload} className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="font-file">Font file (.ttf, .otf)</Label>
+              <Input
+                ref={fileInputRef}
+                id="font-file"
+                type="file"
+                accept=".ttf,.otf,font/ttf,font/otf"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="font-family">Family name</Label>
+              <Input
+                id="font-family"
+                value={family}
+                onChange={(e) => setFamily(e.target.value)}
+                placeholder="From the font file"
+                maxLength={100}
+              />
+            </div>
+            <Button type="submit" disabled={!file || uploadFont.isPending}>
+              {uploadFont.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Upload
+            </Button>
+          </form>
+          {uploadError && <p className="text-sm text-destructive">{uploadError}</p>}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : fonts.length === 0 ? (
+            <EmptyState
+              icon={Type}
+              title="No fonts uploaded"
+              description="Labels use the standard Helvetica, Times and Courier fonts."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Family</TableHead>
+                  <TableHead>Face</TableHead>
+                  <TableHead className="hidden md:table-cell">File</TableHead>
+                  <TableHead className="hidden md:table-cell">Size</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fonts.map((font) => (
+                  <TableRow key={font.id}>
+                    <TableCell className="font-medium">{font.family}</TableCell>
+                    <TableCell>{describeFace(font)}</TableCell>
+                    <TableCell className="hidden md:table-cell text-muted-foreground">{font.fileName}</TableCell>
+                    <TableCell className="hidden md:table-cell tabular-nums text-muted-foreground">
+                      {formatFileSize(font.fileSize)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeleteConfirmFont(font)}
+                        aria-label={`Delete ${font.family} ${describeFace(font)}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(deleteConfirmFont)} onOpenChange={() => setDeleteConfirmFont(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Font</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deleteConfirmFont?.family}{" "}
+              {deleteConfirmFont && describeFace(deleteConfirmFont)}? Labels using it will print with a
+              standard font instead.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmFont(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteFont.isPending}>
+              {deleteFont.isPending ? "Deleting..." : "Delete Font"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,457 @@
+import { useState } from "react";
+import { Copy, Loader2, Pencil, Plus, StickyNote, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useLabelFormats,
+  useCreateLabelFormat,
+  useUpdateLabelFormat,
+  useDeleteLabelFormat,
+} from "@/hooks/use-label-formats";
+import { getLabelFormatFitError } from "@/lib/print-utils";
+import { LABEL_STOCK_TYPES, type LabelFormat, type LabelStockType } from "@/types/label-format";
+import type { LabelUnit } from "@/types/label-spec";
+
+const NUMERIC_FIELDS = [
+  "width",
+  "height",
+  "cornerRadius",
+  "paperWidth",
+  "paperHeight",
+  "columns",
+  "rows",
+  "marginTop",
+  "marginLeft",
+  "horizontalGap",
+  "verticalGap",
+] as const;
+
+type NumericField = (typeof NUMERIC_FIELDS)[number];
+
+type FormatFormData = {
+  name: string;
+  description: string;
+  stockType: LabelStockType;
+  unit: LabelUnit;
+} & Record<NumericField, string>;
+
+const EMPTY_FORM: FormatFormData = {
+  name: "",
+  description: "",
+  stockType: LABEL_STOCK_TYPES.SHEET,
+  unit: "mm",
+  width: "66.7",
+  height: "25.4",
+  cornerRadius: "0",
+  paperWidth: "215.9",
+  paperHeight: "279.4",
+  columns: "3",
+  rows: "10",
+  marginTop: "12.7",
+  marginLeft: "4.8",
+  horizontalGap: "3.2",
+  verticalGap: "0",
+};
+
+const SHEET_FIELDS: { field: NumericField; label: string }[] = [
+  { field: "paperWidth", label: "Paper width" },
+  { field: "paperHeight", label: "Paper height" },
+  { field: "columns", label: "Columns" },
+  { field: "rows", label: "Rows" },
+  { field: "marginTop", label: "Top margin" },
+  { field: "marginLeft", label: "Left margin" },
+  { field: "horizontalGap", label: "Column gap" },
+  { field: "verticalGap", label: "Row gap" },
+];
+
+function toFormData(format: LabelFormat): FormatFormData {
+  return {
+    name: format.name,
+    description: format.description ?? "",
+    stockType: format.stockType,
+    unit: format.unit,
+    ...(Object.fromEntries(
+      NUMERIC_FIELDS.map((field) => [field, String(format[field] ?? "")])
+    ) as Record<NumericField, string>),
+  };
+}
+
+function describeLayout(format: LabelFormat): string {
+  if (format.stockType === LABEL_STOCK_TYPES.ROLL) return "Roll";
+  return `${format.columns} × ${format.rows} on ${format.paperWidth} × ${format.paperHeight} ${format.unit}`;
+}
+
+export function LabelFormatSettings() {
+  const { data: formats = [], isLoading } = useLabelFormats();
+  const createFormat = useCreateLabelFormat();
+  const updateFormat = useUpdateLabelFormat();
+  const deleteFormat = useDeleteLabelFormat();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingFormat, setEditingFormat] = useState<LabelFormat | null>(null);
+  const [formData, setFormData] = useState<FormatFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [deleteConfirmFormat, setDeleteConfirmFormat] = useState<LabelFormat | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const isSaving = createFormat.isPending || updateFormat.isPending;
+  const isSheet = formData.stockType === LABEL_STOCK_TYPES.SHEET;
+
+  function openCreateDialog(from?: LabelFormat) {
+    setEditingFormat(null);
+    setFormData(from ? { ...toFormData(from), name: `${from.name} (Copy)` } : EMPTY_FORM);
+    setFormError(null);
+    setIsDialogOpen(true);
+  }
+
+  function openEditDialog(format: LabelFormat) {
+    setEditingFormat(format);
+    setFormData(toFormData(format));
+    setFormError(null);
+    setIsDialogOpen(true);
+  }
+
+  function setNumber(field: NumericField, value: string) {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setFormError("Name is required");
+      return;
+    }
+
+    const numbers = Object.fromEntries(
+      NUMERIC_FIELDS.map((field) => [field, parseFloat(formData[field]) || 0])
+    ) as Record<NumericField, number>;
+
+    if (numbers.width <= 0 || numbers.height <= 0) {
+      setFormError("Label width and height must be greater than zero");
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      stockType: formData.stockType,
+      unit: formData.unit,
+      ...numbers,
+      paperWidth: isSheet ? numbers.paperWidth || null : null,
+      paperHeight: isSheet ? numbers.paperHeight || null : null,
+      columns: isSheet ? Math.max(1, Math.round(numbers.columns)) : 1,
+      rows: isSheet ? Math.max(1, Math.round(numbers.rows)) : 1,
+    };
+
+    const fitError = getLabelFormatFitError(input);
+    if (fitError) {
+      setFormError(fitError);
+      return;
+    }
+
+    try {
+      if (editingFormat) {
+        await updateFormat.mutateAsync({ id: editingFormat.id, input });
+      } else {
+        await createFormat.mutateAsync(input);
+      }
+      setIsDialogOpen(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save label format");
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteConfirmFormat) return;
+    setDeleteError(null);
+    try {
+      await deleteFormat.mutateAsync(deleteConfirmFormat.id);
+      setDeleteConfirmFormat(null);
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : "Failed to delete label format");
+    }
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <StickyNote className="h-5 w-5" />
+              Label Stock
+            </CardTitle>
+            <CardDescription>
+              Label sizes and sheet layouts templates are designed for. System formats cover common
+              Avery, DYMO and Brother stock; copy one to adjust it for your printer.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openCreateDialog()}>
+            <Plus className="h-4 w-4" />
+            Add Format
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : formats.length === 0 ? (
+            <EmptyState
+              icon={StickyNote}
+              title="No label formats"
+              description="Add the label stock your templates print on."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead className="hidden md:table-cell">Layout</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {formats.map((format) => (
+                  <TableRow key={format.id}>
+                    <TableCell className="font-medium">
+                      {format.name}
+                      {format.isSystem && (
+                        <Badge variant="secondary" className="ml-2">System</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="tabular-nums">
+                      {format.width} × {format.height} {format.unit}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-muted-foreground">
+                      {describeLayout(format)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openCreateDialog(format)} aria-label={`Copy ${format.name}`}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        {!format.isSystem && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => openEditDialog(format)} aria-label={`Edit ${format.name}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setDeleteError(null);
+                                setDeleteConfirmFormat(format);
+                              }}
+                              aria-label={`Delete ${format.name}`}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingFormat ? "Edit Label Format" : "Add Label Format"}</DialogTitle>
+            <DialogDescription>
+              Measure the label and sheet in the chosen unit. Existing templates keep their designed
+              size; sheet layout changes apply to the next print.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                {formError}
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="format-name">
+                  Name <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="format-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="Cable flags 50 × 20"
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="format-description">Description</Label>
+                <Input
+                  id="format-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                  maxLength={500}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Stock</Label>
+                <Select
+                  value={formData.stockType}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, stockType: value as LabelStockType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={LABEL_STOCK_TYPES.SHEET}>Sheet (several labels per page)</SelectItem>
+                    <SelectItem value={LABEL_STOCK_TYPES.ROLL}>Roll (one label per page)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Unit</Label>
+                <Select
+                  value={formData.unit}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, unit: value as LabelUnit }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mm">Millimeters</SelectItem>
+                    <SelectItem value="in">Inches</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="format-width">Label width</Label>
+                <Input
+                  id="format-width"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={formData.width}
+                  onChange={(e) => setNumber("width", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="format-height">Label height</Label>
+                <Input
+                  id="format-height"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={formData.height}
+                  onChange={(e) => setNumber("height", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="format-cornerRadius">Corner radius</Label>
+                <Input
+                  id="format-cornerRadius"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={formData.cornerRadius}
+                  onChange={(e) => setNumber("cornerRadius", e.target.value)}
+                />
+              </div>
+            </div>
+
+            {isSheet && (
+              <>
+                <Separator />
+                <div className="grid gap-4 md:grid-cols-4">
+                  {SHEET_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`format-${field}`}>{label}</Label>
+                      <Input
+                        id={`format-${field}`}
+                        type="number"
+                        min={field === "columns" || field === "rows" ? 1 : 0}
+                        step={field === "columns" || field === "rows" ? 1 : "any"}
+                        value={formData[field]}
+                        onChange={(e) => setNumber(field, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : editingFormat ? "Save Changes" : "Create Format"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(deleteConfirmFormat)} onOpenChange={() => setDeleteConfirmFormat(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Label Format</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deleteConfirmFormat?.name}? Formats still used by
+              templates cannot be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteError && <p className="text-sm text-destructive">{deleteError}</p>}
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmFormat(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteFormat.isPending}>
+              {deleteFormat.isPending ? "Deleting..." : "Delete Format"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
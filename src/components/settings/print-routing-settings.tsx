@@ -0,0 +1,600 @@
+import { useState } from "react";
+import { FlaskConical, Loader2, Pencil, Plus, Route, Trash2, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  usePrintAgents,
+  usePrintRoutes,
+  useCreatePrintRoute,
+  useUpdatePrintRoute,
+  useDeletePrintRoute,
+  useTestPrintRoutes,
+} from "@/hooks/use-print-routes";
+import { cn } from "@/lib/utils";
+import { PRINTER_LANGUAGES, type PrinterLanguage } from "@/types/print-agent";
+import {
+  ROUTE_CONDITION_OPERATORS,
+  type PrintRoute,
+  type PrintRouteCondition,
+  type RouteConditionOperator,
+} from "@/types/print-route";
+
+const DEFAULT_PRINTER = "__default__";
+
+const OPERATOR_LABELS: Record<RouteConditionOperator, string> = {
+  eq: "equals",
+  neq: "does not equal",
+  startsWith: "starts with",
+  endsWith: "ends with",
+  contains: "contains",
+  in: "is one of",
+  empty: "is empty",
+  notEmpty: "is not empty",
+};
+
+const FIELD_SUGGESTIONS = ["location", "department", "category", "assignedTo", "status", "manufacturer"];
+
+const VALUELESS_OPERATORS: RouteConditionOperator[] = [
+  ROUTE_CONDITION_OPERATORS.EMPTY,
+  ROUTE_CONDITION_OPERATORS.NOT_EMPTY,
+];
+
+interface RouteFormData {
+  name: string;
+  priority: string;
+  isActive: boolean;
+  conditions: PrintRouteCondition[];
+  agentId: string;
+  printerName: string;
+  format: PrinterLanguage;
+}
+
+const EMPTY_FORM: RouteFormData = {
+  name: "",
+  priority: "0",
+  isActive: true,
+  conditions: [{ field: "location", operator: ROUTE_CONDITION_OPERATORS.STARTS_WITH, value: "" }],
+  agentId: "",
+  printerName: DEFAULT_PRINTER,
+  format: PRINTER_LANGUAGES.PDF,
+};
+
+function describeConditions(route: PrintRoute): string {
+  if (route.match.conditions.length === 0) return "All assets";
+  return route.match.conditions
+    .map((c) =>
+      VALUELESS_OPERATORS.includes(c.operator)
+        ? `${c.field} ${OPERATOR_LABELS[c.operator]}`
+        : `${c.field} ${OPERATOR_LABELS[c.operator]} "${c.value ?? ""}"`
+    )
+    .join(" and ");
+}
+
+export function PrintRoutingSettings() {
+  const { data: routes = [], isLoading } = usePrintRoutes();
+  const { data: agents = [] } = usePrintAgents();
+  const createRoute = useCreatePrintRoute();
+  const updateRoute = useUpdatePrintRoute();
+  const deleteRoute = useDeletePrintRoute();
+  const testRoutes = useTestPrintRoutes();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRoute, setEditingRoute] = useState<PrintRoute | null>(null);
+  const [formData, setFormData] = useState<RouteFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [deleteConfirmRoute, setDeleteConfirmRoute] = useState<PrintRoute | null>(null);
+  const [sampleFields, setSampleFields] = useState<Record<string, string>>({
+    location: "",
+    department: "",
+    category: "",
+  });
+
+  const selectedAgent = agents.find((agent) => agent.id === formData.agentId);
+  const isSaving = createRoute.isPending || updateRoute.isPending;
+
+  function agentName(agentId: string): string {
+    return agents.find((agent) => agent.id === agentId)?.name ?? "Unknown agent";
+  }
+
+  function openCreateDialog() {
+    setEditingRoute(null);
+    setFormData({ ...EMPTY_FORM, agentId: agents[0]?.id ?? "" });
+    setFormError(null);
+    setIsDialogOpen(true);
+  }
+
+  function openEditDialog(route: PrintRoute) {
+    setEditingRoute(route);
+    setFormData({
+      name: route.name,
+      priority: String(route.priority),
+      isActive: route.isActive,
+      conditions: route.match.conditions,
+      agentId: route.destination.agentId,
+      printerName: route.destination.printerName ?? DEFAULT_PRINTER,
+      format: route.destination.format,
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  }
+
+  function updateCondition(index: number, patch: Partial<PrintRouteCondition>) {
+    setFormData((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) =>
+        i === index ? { ...condition, ...patch } : condition
+      ),
+    }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setFormError("Name is required");
+      return;
+    }
+    if (!formData.agentId) {
+      setFormError("Select a print agent");
+      return;
+    }
+    if (formData.conditions.some((c) => !c.field.trim())) {
+      setFormError("Every condition needs a field");
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      priority: parseInt(formData.priority, 10) || 0,
+      isActive: formData.isActive,
+      match: {
+        conditions: formData.conditions.map((c) => ({
+          field: c.field.trim(),
+          operator: c.operator,
+          value: VALUELESS_OPERATORS.includes(c.operator) ? undefined : (c.value ?? ""),
+        })),
+        templateIds: editingRoute?.match.templateIds,
+      },
+      destination: {
+        agentId: formData.agentId,
+        printerName: formData.printerName === DEFAULT_PRINTER ? undefined : formData.printerName,
+        format: formData.format,
+      },
+    };
+
+    try {
+      if (editingRoute) {
+        await updateRoute.mutateAsync({ id: editingRoute.id, input });
+      } else {
+        await createRoute.mutateAsync(input);
+      }
+      setIsDialogOpen(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save route");
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteConfirmRoute) return;
+    await deleteRoute.mutateAsync(deleteConfirmRoute.id);
+    setDeleteConfirmRoute(null);
+  }
+
+  function handleTest() {
+    const sampleAsset = Object.fromEntries(
+      Object.entries(sampleFields).filter(([, value]) => value.trim() !== "")
+    );
+    testRoutes.mutate({ sampleAsset });
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Print Routing
+            </CardTitle>
+            <CardDescription>
+              Send new print jobs to a print agent automatically. Routes are checked from the lowest
+              priority number up and the first match wins.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateDialog} disabled={agents.length === 0}>
+            <Plus className="h-4 w-4" />
+            Add Route
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : routes.length === 0 ? (
+            <EmptyState
+              icon={Route}
+              title="No print routes"
+              description={
+                agents.length === 0
+                  ? "Connect a print agent before creating routes."
+                  : "Print jobs are only downloaded until a route is added."
+              }
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Priority</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="hidden md:table-cell">When</TableHead>
+                  <TableHead>Destination</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {routes.map((route) => (
+                  <TableRow key={route.id}>
+                    <TableCell className="tabular-nums">{route.priority}</TableCell>
+                    <TableCell className="font-medium">{route.name}</TableCell>
+                    <TableCell className="hidden md:table-cell text-muted-foreground">
+                      {describeConditions(route)}
+                    </TableCell>
+                    <TableCell>
+                      {agentName(route.destination.agentId)}
+                      {route.destination.printerName && (
+                        <span className="text-muted-foreground"> / {route.destination.printerName}</span>
+                      )}
+                      <Badge variant="outline" className="ml-2 uppercase">
+                        {route.destination.format}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={route.isActive ? "default" : "secondary"}>
+                        {route.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(route)} aria-label={`Edit ${route.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDeleteConfirmRoute(route)} aria-label={`Delete ${route.name}`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Test Routes
+          </CardTitle>
+          <CardDescription>
+            Enter sample asset values to see which route a print job would use.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            {Object.keys(sampleFields).map((field) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`sample-${field}`} className="capitalize">{field}</Label>
+                <Input
+                  id={`sample-${field}`}
+                  value={sampleFields[field]}
+                  onChange={(e) => setSampleFields((prev) => ({ ...prev, [field]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleTest} disabled={testRoutes.isPending || routes.length === 0}>
+              {testRoutes.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Run Test
+            </Button>
+          </div>
+
+          {testRoutes.error && (
+            <p className="text-sm text-destructive">{testRoutes.error.message}</p>
+          )}
+
+          {testRoutes.data && (
+            <>
+              <Separator />
+              <p className="text-sm">
+                {testRoutes.data.matchedRoute ? (
+                  <>
+                    Matched <span className="font-medium">{testRoutes.data.matchedRoute.name}</span>
+                    {" "}&rarr; {agentName(testRoutes.data.matchedRoute.destination.agentId)}
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">No route matched; the job would not be dispatched.</span>
+                )}
+              </p>
+              <ul className="space-y-1 text-sm">
+                {testRoutes.data.evaluations.map((evaluation) => (
+                  <li key={evaluation.routeId} className="flex items-center gap-2">
+                    <Badge
+                      variant={evaluation.matched ? "default" : "outline"}
+                      className={cn(!evaluation.isActive && "opacity-60")}
+                    >
+                      {evaluation.matched ? "Match" : "Skip"}
+                    </Badge>
+                    <span className="font-medium">{evaluation.name}</span>
+                    {evaluation.reason && (
+                      <span className="text-muted-foreground">{evaluation.reason}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRoute ? "Edit Route" : "Add Route"}</DialogTitle>
+            <DialogDescription>
+              Jobs whose assets all satisfy the conditions are sent to the selected printer.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                {formError}
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-[1fr_120px]">
+              <div className="space-y-2">
+                <Label htmlFor="route-name">
+                  Name <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="route-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="DC2 asset tags"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="route-priority">Priority</Label>
+                <Input
+                  id="route-priority"
+                  type="number"
+                  min={0}
+                  value={formData.priority}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, priority: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">Lower numbers are checked first.</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Conditions</Label>
+              <datalist id="route-field-suggestions">
+                {FIELD_SUGGESTIONS.map((field) => (
+                  <option key={field} value={field} />
+                ))}
+              </datalist>
+              {formData.conditions.map((condition, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    list="route-field-suggestions"
+                    value={condition.field}
+                    onChange={(e) => updateCondition(index, { field: e.target.value })}
+                    placeholder="Field"
+                    className="w-40"
+                    aria-label="Field"
+                  />
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(value) => updateCondition(index, { operator: value as RouteConditionOperator })}
+                  >
+                    <SelectTrigger className="w-40" aria-label="Operator">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(ROUTE_CONDITION_OPERATORS).map((operator) => (
+                        <SelectItem key={operator} value={operator}>
+                          {OPERATOR_LABELS[operator]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={condition.value ?? ""}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    placeholder={condition.operator === ROUTE_CONDITION_OPERATORS.IN ? "A, B, C" : "Value"}
+                    disabled={VALUELESS_OPERATORS.includes(condition.operator)}
+                    className="flex-1"
+                    aria-label="Value"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        conditions: prev.conditions.filter((_, i) => i !== index),
+                      }))
+                    }
+                    aria-label="Remove condition"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    conditions: [
+                      ...prev.conditions,
+                      { field: "", operator: ROUTE_CONDITION_OPERATORS.EQ, value: "" },
+                    ],
+                  }))
+                }
+              >
+                <Plus className="h-4 w-4" />
+                Add Condition
+              </Button>
+              {formData.conditions.length === 0 && (
+                <p className="text-xs text-muted-foreground">Without conditions the route matches every job.</p>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Agent</Label>
+                <Select
+                  value={formData.agentId}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({ ...prev, agentId: value, printerName: DEFAULT_PRINTER }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select agent" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agents.map((agent) => (
+                      <SelectItem key={agent.id} value={agent.id}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Printer</Label>
+                <Select
+                  value={formData.printerName}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, printerName: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PRINTER}>Agent default</SelectItem>
+                    {selectedAgent?.printers.map((printer) => (
+                      <SelectItem key={printer.id} value={printer.name}>
+                        {printer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select
+                  value={formData.format}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, format: value as PrinterLanguage }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(PRINTER_LANGUAGES).map((language) => (
+                      <SelectItem key={language} value={language} className="uppercase">
+                        {language}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="route-active"
+                checked={formData.isActive}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="route-active" className="font-normal cursor-pointer">
+                Route is active
+              </Label>
+            </div>
+
+            <div className="flex justify-end gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : editingRoute ? "Save Changes" : "Create Route"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(deleteConfirmRoute)} onOpenChange={() => setDeleteConfirmRoute(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Route</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete {deleteConfirmRoute?.name}? New print jobs will no longer be sent by this route.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-3 pt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmRoute(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteRoute.isPending}>
+              {deleteRoute.isPending ? "Deleting..." : "Delete Route"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { Crosshair, Download, Loader2, Printer, SlidersHorizontal } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLabelFormats } from "@/hooks/use-label-formats";
+import {
+  usePrintAgents,
+  useUpdatePrinterCalibration,
+  useCalibrationPage,
+} from "@/hooks/use-print-routes";
+import {
+  MAX_CALIBRATION_OFFSET_MM,
+  MAX_ZPL_DARKNESS,
+  MAX_ZPL_PRINT_SPEED,
+  MIN_ZPL_PRINT_SPEED,
+  isIdentityCalibration,
+} from "@/lib/printer-calibration";
+import { DEFAULT_LABEL_FORMAT_KEY } from "@/types/label-format";
+import {
+  DEFAULT_PRINTER_CALIBRATION,
+  PRINTER_LANGUAGES,
+  type PrintAgentPrinter,
+  type PrinterCalibration,
+  type PrinterLanguage,
+} from "@/types/print-agent";
+
+interface CalibrationFormData {
+  offsetX: string;
+  offsetY: string;
+  scalePercent: string;
+  rotation: string;
+  darkness: string;
+  printSpeed: string;
+}
+
+function toFormData(calibration: PrinterCalibration | null): CalibrationFormData {
+  const current = calibration ?? DEFAULT_PRINTER_CALIBRATION;
+  return {
+    offsetX: String(current.offsetX),
+    offsetY: String(current.offsetY),
+    scalePercent: String(Math.round(current.scale * 1000) / 10),
+    rotation: String(current.rotation),
+    darkness: current.darkness === undefined ? "" : String(current.darkness),
+    printSpeed: current.printSpeed === undefined ? "" : String(current.printSpeed),
+  };
+}
+
+function describeCalibration(calibration: PrinterCalibration | null): string {
+  if (isIdentityCalibration(calibration) || !calibration) return "Not calibrated";
+
+  const parts: string[] = [];
+  if (calibration.offsetX !== 0 || calibration.offsetY !== 0) {
+    parts.push(`offset ${calibration.offsetX}, ${calibration.offsetY} mm`);
+  }
+  if (calibration.scale !== 1) parts.push(`scale ${Math.round(calibration.scale * 1000) / 10}%`);
+  if (calibration.rotation !== 0) parts.push(`rotated ${calibration.rotation}°`);
+  if (calibration.darkness !== undefined) parts.push(`darkness ${calibration.darkness}`);
+  if (calibration.printSpeed !== undefined) parts.push(`${calibration.printSpeed} ips`);
+  return parts.join(", ");
+}
+
+export function PrinterCalibrationSettings() {
+  const { data: agents = [], isLoading } = usePrintAgents();
+  const { data: formats = [] } = useLabelFormats();
+  const updateCalibration = useUpdatePrinterCalibration();
+  const calibrationPage = useCalibrationPage();
+
+  const [editingPrinter, setEditingPrinter] = useState<PrintAgentPrinter | null>(null);
+  const [formData, setFormData] = useState<CalibrationFormData>(toFormData(null));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [testFormat, setTestFormat] = useState(DEFAULT_LABEL_FORMAT_KEY);
+  const [testLanguage, setTestLanguage] = useState<PrinterLanguage>(PRINTER_LANGUAGES.PDF);
+
+  const printers = agents.flatMap((agent) =>
+    agent.printers.map((printer) => ({ printer, agentName: agent.name }))
+  );
+  const speaksZpl = editingPrinter?.languages.includes(PRINTER_LANGUAGES.ZPL) ?? false;
+  const nativeOnly = editingPrinter?.languages.some((language) => language !== PRINTER_LANGUAGES.PDF) ?? false;
+
+  function openDialog(printer: PrintAgentPrinter) {
+    setEditingPrinter(printer);
+    setFormData(toFormData(printer.calibration));
+    setFormError(null);
+    setTestLanguage(printer.languages[0] ?? PRINTER_LANGUAGES.PDF);
+    calibrationPage.reset();
+  }
+
+  function parseCalibration(): PrinterCalibration | string {
+    const offsetX = parseFloat(formData.offsetX);
+    const offsetY = parseFloat(formData.offsetY);
+    const scalePercent = parseFloat(formData.scalePercent);
+    const rotation = parseFloat(formData.rotation);
+
+    if ([offsetX, offsetY, scalePercent, rotation].some((value) => Number.isNaN(value))) {
+      return "Offsets, scale and rotation must be numbers";
+    }
+
+    const calibration: PrinterCalibration = { offsetX, offsetY, scale: scalePercent / 100, rotation };
+    if (speaksZpl && formData.darkness.trim() !== "") {
+      calibration.darkness = parseInt(formData.darkness, 10);
+    }
+    if (speaksZpl && formData.printSpeed.trim() !== "") {
+      calibration.printSpeed = parseInt(formData.printSpeed, 10);
+    }
+    return calibration;
+  }
+
+  async function save(calibration: PrinterCalibration | null) {
+    if (!editingPrinter) return;
+
+    try {
+      await updateCalibration.mutateAsync({
+        printerId: editingPrinter.id,
+        calibration: isIdentityCalibration(calibration) ? null : calibration,
+      });
+      setEditingPrinter(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save calibration");
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    const calibration = parseCalibration();
+    if (typeof calibration === "string") {
+      setFormError(calibration);
+      return;
+    }
+    await save(calibration);
+  }
+
+  async function handleDownloadTestPage() {
+    if (!editingPrinter) return;
+
+    const blob = await calibrationPage.mutateAsync({
+      printerId: editingPrinter.id,
+      format: testFormat,
+      language: testLanguage,
+    });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `calibration-${editingPrinter.name}-${testFormat}.${testLanguage}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Printer Calibration
+          </CardTitle>
+          <CardDescription>
+            Correct label position, scale and darkness per printer. Calibration is applied to
+            every job sent to the printer.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : printers.length === 0 ? (
+            <EmptyState
+              icon={Printer}
+              title="No printers"
+              description="Printers appear here once a print agent reports them."
+            />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Printer</TableHead>
+                  <TableHead className="hidden md:table-cell">Agent</TableHead>
+                  <TableHead>Languages</TableHead>
+                  <TableHead>Calibration</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {printers.map(({ printer, agentName }) => (
+                  <TableRow key={printer.id}>
+                    <TableCell className="font-medium">{printer.name}</TableCell>
+                    <TableCell className="hidden md:table-cell text-muted-foreground">{agentName}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {printer.languages.map((language) => (
+                          <Badge key={language} variant="outline" className="uppercase">
+                            {language}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {describeCalibration(printer.calibration)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(printer)} aria-label={`Calibrate ${printer.name}`}>
+                        <SlidersHorizontal className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(editingPrinter)} onOpenChange={() => setEditingPrinter(null)}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Calibrate {editingPrinter?.name}</DialogTitle>
+            <DialogDescription>
+              Print a test page, measure how far the border sits from the label edge and enter the
+              correction. Positive offsets move content right and down.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <Label>Test page</Label>
+            <div className="flex items-center gap-2">
+              <Select value={testFormat} onValueChange={setTestFormat}>
+                <SelectTrigger className="flex-1" aria-label="Label format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {formats.map((format) => (
+                    <SelectItem key={format.key} value={format.key}>
+                      {format.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={testLanguage} onValueChange={(value) => setTestLanguage(value as PrinterLanguage)}>
+                <SelectTrigger className="w-24" aria-label="Output language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {editingPrinter?.languages.map((language) => (
+                    <SelectItem key={language} value={language} className="uppercase">
+                      {language}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleDownloadTestPage} disabled={calibrationPage.isPending}>
+                {calibrationPage.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                Download
+              </Button>
+            </div>
+            {calibrationPage.error && (
+              <p className="text-sm text-destructive">{calibrationPage.error.message}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              The test page is printed with the saved calibration, so what you measure is the error that remains.
+            </p>
+          </div>
+
+          <Separator />
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+                {formError}
+              </div>
+            )}
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="calibration-offset-x">Offset X (mm)</Label>
+                <Input
+                  id="calibration-offset-x"
+                  type="number"
+                  step={0.1}
+                  min={-MAX_CALIBRATION_OFFSET_MM}
+                  max={MAX_CALIBRATION_OFFSET_MM}
+                  value={formData.offsetX}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, offsetX: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calibration-offset-y">Offset Y (mm)</Label>
+                <Input
+                  id="calibration-offset-y"
+                  type="number"
+                  step={0.1}
+                  min={-MAX_CALIBRATION_OFFSET_MM}
+                  max={MAX_CALIBRATION_OFFSET_MM}
+                  value={formData.offsetY}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, offsetY: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calibration-scale">Scale (%)</Label>
+                <Input
+                  id="calibration-scale"
+                  type="number"
+                  step={0.1}
+                  value={formData.scalePercent}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, scalePercent: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calibration-rotation">Rotation (°)</Label>
+                <Input
+                  id="calibration-rotation"
+                  type="number"
+                  step={nativeOnly ? 180 : 0.1}
+                  min={-180}
+                  max={180}
+                  value={formData.rotation}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, rotation: e.target.value }))}
+                />
+              </div>
+              {speaksZpl && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="calibration-darkness">Darkness (0-{MAX_ZPL_DARKNESS})</Label>
+                    <Input
+                      id="calibration-darkness"
+                      type="number"
+                      min={0}
+                      max={MAX_ZPL_DARKNESS}
+                      value={formData.darkness}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, darkness: e.target.value }))}
+                      placeholder="Printer default"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="calibration-speed">Print speed (ips)</Label>
+                    <Input
+                      id="calibration-speed"
+                      type="number"
+                      min={MIN_ZPL_PRINT_SPEED}
+                      max={MAX_ZPL_PRINT_SPEED}
+                      value={formData.printSpeed}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, printSpeed: e.target.value }))}
+                      placeholder="Printer default"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            {nativeOnly && (
+              <p className="text-xs text-muted-foreground">
+                Thermal printers can only rotate labels by 180 degrees.
+              </p>
+            )}
+
+            <div className="flex justify-between gap-3 pt-4">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => save(null)}
+                disabled={updateCalibration.isPending || !editingPrinter?.calibration}
+              >
+                Reset
+              </Button>
+              <div className="flex gap-3">
+                <Button type="button" variant="outline" onClick={() => setEditingPrinter(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateCalibration.isPending}>
+                  {updateCalibration.isPending ? "Saving..." : "Save Calibration"}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
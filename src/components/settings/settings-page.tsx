@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Settings, Globe, Bell, Shield, Database } from "lucide-react";
+import { Settings, Globe, Bell, Shield, Database, Printer, StickyNote, Type } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -16,7 +16,13 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PageHeader, PageShell } from "@/components/ui/page-shell";
+import { AssetTagSettings } from "@/components/settings/asset-tag-settings";
+import { FontLibrarySettings } from "@/components/settings/font-library-settings";
+import { LabelFormatSettings } from "@/components/settings/label-format-settings";
+import { PrintRoutingSettings } from "@/components/settings/print-routing-settings";
+import { PrinterCalibrationSettings } from "@/components/settings/printer-calibration-settings";
 import { useAuth } from "@/hooks/use-auth";
+import { PERMISSIONS } from "@/types/permissions";
 
 const TIMEZONE_OPTIONS = [
   { value: "UTC", label: "UTC (Coordinated Universal Time)" },
@@ -46,7 +52,10 @@ const TIME_FORMAT_OPTIONS = [
 ];
 
 export function SettingsPage() {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
+  const canManagePrinting = hasPermission(PERMISSIONS.PRINT_ADMIN);
+  const canManageTemplates = hasPermission(PERMISSIONS.TEMPLATE_WRITE);
+  const canManageTenant = hasPermission(PERMISSIONS.TENANT_ADMIN);
   
   const [timezone, setTimezone] = useState("UTC");
   const [dateFormat, setDateFormat] = useState("YYYY-MM-DD");
@@ -64,7 +73,7 @@ export function SettingsPage() {
       />
 
       <Tabs defaultValue="general" className="space-y-6">
-        <TabsList className="grid w-full max-w-xl grid-cols-4 lg:w-auto lg:grid-cols-none lg:flex">
+        <TabsList className="grid w-full max-w-xl grid-cols-7 lg:w-auto lg:grid-cols-none lg:flex">
           <TabsTrigger value="general" className="gap-2">
             <Globe className="h-4 w-4 hidden sm:block" />
             General
@@ -81,6 +90,24 @@ export function SettingsPage() {
             <Database className="h-4 w-4 hidden sm:block" />
             Data
           </TabsTrigger>
+          {canManageTemplates && (
+            <TabsTrigger value="fonts" className="gap-2">
+              <Type className="h-4 w-4 hidden sm:block" />
+              Fonts
+            </TabsTrigger>
+          )}
+          {canManageTemplates && (
+            <TabsTrigger value="label-stock" className="gap-2">
+              <StickyNote className="h-4 w-4 hidden sm:block" />
+              Label Stock
+            </TabsTrigger>
+          )}
+          {canManagePrinting && (
+            <TabsTrigger value="printing" className="gap-2">
+              <Printer className="h-4 w-4 hidden sm:block" />
+              Printing
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="general" className="space-y-6">
@@ -328,7 +355,28 @@ export function SettingsPage() {
               </div>
             </CardContent>
           </Card>
+
+          {canManageTenant && <AssetTagSettings />}
         </TabsContent>
+
+        {canManageTemplates && (
+          <TabsContent value="fonts" className="space-y-6">
+            <FontLibrarySettings />
+          </TabsContent>
+        )}
+
+        {canManageTemplates && (
+          <TabsContent value="label-stock" className="space-y-6">
+            <LabelFormatSettings />
+          </TabsContent>
+        )}
+
+        {canManagePrinting && (
+          <TabsContent value="printing" className="space-y-6">
+            <PrintRoutingSettings />
+            <PrinterCalibrationSettings />
+          </TabsContent>
+        )}
       </Tabs>
     </PageShell>
   );
@@ -18,7 +18,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { LABEL_FORMATS, type LabelFormatId } from "@/types/label-spec";
+import { useLabelFormats } from "@/hooks/use-label-formats";
+import type { LabelFormatId } from "@/types/label-spec";
+import { DEFAULT_LABEL_FORMAT_KEY, LABEL_STOCK_TYPES } from "@/types/label-format";
 import { EQUIPMENT_CATEGORIES, type EquipmentCategory } from "@/types/asset";
 
 interface TemplateCreateDialogProps {
@@ -48,7 +50,8 @@ export function TemplateCreateDialog({
   onCreateTemplate,
 }: TemplateCreateDialogProps) {
   const [name, setName] = useState("New Template");
-  const [format, setFormat] = useState<LabelFormatId>("avery-5160");
+  const { data: labelFormats = [] } = useLabelFormats();
+  const [format, setFormat] = useState<LabelFormatId>(DEFAULT_LABEL_FORMAT_KEY);
   const [category, setCategory] = useState<EquipmentCategory | "none">("none");
 
   function handleCreate() {
@@ -62,7 +65,7 @@ export function TemplateCreateDialog({
 
   function resetForm() {
     setName("New Template");
-    setFormat("avery-5160");
+    setFormat(DEFAULT_LABEL_FORMAT_KEY);
     setCategory("none");
   }
 
@@ -73,7 +76,7 @@ export function TemplateCreateDialog({
     onOpenChange(newOpen);
   }
 
-  const selectedFormat = LABEL_FORMATS[format];
+  const selectedFormat = labelFormats.find((f) => f.key === format);
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -103,19 +106,21 @@ export function TemplateCreateDialog({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {Object.entries(LABEL_FORMATS).map(([id, formatConfig]) => (
-                  <SelectItem key={id} value={id}>
-                    {formatConfig.name}
+                {labelFormats.map((labelFormat) => (
+                  <SelectItem key={labelFormat.id} value={labelFormat.key}>
+                    {labelFormat.name}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            <p className="text-xs text-muted-foreground">
-              {selectedFormat.dimensions.width} × {selectedFormat.dimensions.height}{" "}
-              {selectedFormat.dimensions.unit}
-              {selectedFormat.labelsPerSheet > 1 &&
-                ` (${selectedFormat.labelsPerSheet} per sheet)`}
-            </p>
+            {selectedFormat && (
+              <p className="text-xs text-muted-foreground">
+                {selectedFormat.width} × {selectedFormat.height} {selectedFormat.unit}
+                {selectedFormat.stockType === LABEL_STOCK_TYPES.SHEET
+                  ? ` (${selectedFormat.columns * selectedFormat.rows} per sheet)`
+                  : " (roll)"}
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
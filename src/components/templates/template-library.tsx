@@ -44,11 +44,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useAuth } from "@/hooks/use-auth";
+import { useLabelFormat, useLabelFormats } from "@/hooks/use-label-formats";
 import { useTemplates } from "@/hooks/use-templates";
 import type { LabelTemplate } from "@/types/template";
 import type { EquipmentCategory } from "@/types/asset";
 import { EQUIPMENT_CATEGORIES } from "@/types/asset";
-import { LABEL_FORMATS, type LabelFormatId } from "@/types/label-spec";
+import type { LabelFormatId } from "@/types/label-spec";
 import { PageShell, PageHeader } from "@/components/ui/page-shell";
 import { LoadingSkeleton } from "@/components/ui/loading-skeleton";
 import { ErrorState } from "@/components/ui/error-state";
@@ -96,6 +97,8 @@ interface TemplateCardProps {
 }
 
 function TemplateCard({ template, onEdit, onDelete, onDuplicate, onPublish }: TemplateCardProps) {
+  const format = useLabelFormat(template.format);
+
   return (
     <Card className="group overflow-hidden hover:shadow-md transition-all duration-300 border-border/60 hover:border-border">
       <div className="aspect-[3/2] bg-muted relative overflow-hidden group-hover:bg-muted/80 transition-colors">
@@ -187,7 +190,7 @@ function TemplateCard({ template, onEdit, onDelete, onDuplicate, onPublish }: Te
         
         <div className="flex flex-wrap gap-2">
           <Badge variant="outline" className="text-[10px] h-5 px-1.5 font-normal bg-muted/50 border-muted">
-            {LABEL_FORMATS[template.format as LabelFormatId]?.name ?? template.format}
+            {format?.name ?? template.format}
           </Badge>
           {template.category && (
             <Badge variant="outline" className="text-[10px] h-5 px-1.5 font-normal bg-muted/50 border-muted">
@@ -262,6 +265,7 @@ function TemplateGrid({ templates, groupedTemplates, onEdit, onDelete, onDuplica
 export function TemplateLibrary({ onEditTemplate, onCreateTemplate }: TemplateLibraryProps) {
   const { listTemplates, deleteTemplate, duplicateTemplate, publishTemplate, unpublishTemplate, isLoading, error } = useTemplates();
   const { hasPermission } = useAuth();
+  const { data: labelFormats = [] } = useLabelFormats();
   const [templates, setTemplates] = useState<LabelTemplate[]>([]);
   const [total, setTotal] = useState(0);
   const [page, setPage] = useState(1);
@@ -385,7 +389,7 @@ export function TemplateLibrary({ onEditTemplate, onCreateTemplate }: TemplateLi
           ? (CATEGORY_LABELS[template.category as EquipmentCategory] ?? "Other")
           : "Universal";
       } else {
-        const format = LABEL_FORMATS[template.format as LabelFormatId];
+        const format = labelFormats.find((f) => f.key === template.format);
         groupKey = format?.name ?? template.format;
       }
       
@@ -396,7 +400,7 @@ export function TemplateLibrary({ onEditTemplate, onCreateTemplate }: TemplateLi
     }
 
     return Object.entries(groups).sort(([a], [b]) => a.localeCompare(b));
-  }, [sortedTemplates, groupOption]);
+  }, [sortedTemplates, groupOption, labelFormats]);
 
   const totalPages = Math.ceil(total / PAGE_SIZE);
 
@@ -489,8 +493,8 @@ export function TemplateLibrary({ onEditTemplate, onCreateTemplate }: TemplateLi
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Formats</SelectItem>
-                {Object.entries(LABEL_FORMATS).map(([id, format]) => (
-                  <SelectItem key={id} value={id}>
+                {labelFormats.map((format) => (
+                  <SelectItem key={format.id} value={format.key}>
                     {format.name}
                   </SelectItem>
                 ))}
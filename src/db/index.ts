@@ -12,3 +12,12 @@ export const db = drizzle(client, { schema });
 export type Database = typeof db;
 
 export { schema };
+
+/**
+ * Whether a query failed on the named unique index. Drizzle wraps driver
+ * errors, so the Postgres error may be the cause rather than the error.
+ */
+export function isUniqueViolation(error: unknown, indexName: string): boolean {
+  const cause = error instanceof Error && error.cause instanceof postgres.PostgresError ? error.cause : error;
+  return cause instanceof postgres.PostgresError && cause.code === "23505" && cause.constraint_name === indexName;
+}
@@ -0,0 +1,4 @@
+ALTER TABLE "print_dispatches" ADD COLUMN "provider_id" uuid;--> statement-breakpoint
+ALTER TABLE "print_dispatches" ADD COLUMN "remote_job_id" varchar(255);--> statement-breakpoint
+ALTER TABLE "print_dispatches" ADD CONSTRAINT "print_dispatches_provider_id_cloud_print_providers_id_fk" FOREIGN KEY ("provider_id") REFERENCES "public"."cloud_print_providers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "print_dispatches_tenant_provider_idx" ON "print_dispatches" USING btree ("tenant_id","provider_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "print_jobs" ADD COLUMN "output_mime" varchar(100);--> statement-breakpoint
+ALTER TABLE "print_jobs" ADD COLUMN "output_storage_key" text;
\ No newline at end of file
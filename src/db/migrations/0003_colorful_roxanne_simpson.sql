@@ -0,0 +1,17 @@
+CREATE TABLE "tenant_fonts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"family" varchar(100) NOT NULL,
+	"weight" varchar(10) DEFAULT 'normal' NOT NULL,
+	"style" varchar(10) DEFAULT 'normal' NOT NULL,
+	"format" varchar(10) NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"file_size" integer NOT NULL,
+	"storage_key" text NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tenant_fonts" ADD CONSTRAINT "tenant_fonts_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenant_fonts" ADD CONSTRAINT "tenant_fonts_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tenant_fonts_tenant_face_idx" ON "tenant_fonts" USING btree ("tenant_id","family","weight","style");
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "label_formats" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"key" varchar(50) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"stock_type" varchar(10) NOT NULL,
+	"unit" varchar(2) DEFAULT 'mm' NOT NULL,
+	"width" double precision NOT NULL,
+	"height" double precision NOT NULL,
+	"corner_radius" double precision DEFAULT 0 NOT NULL,
+	"paper_width" double precision,
+	"paper_height" double precision,
+	"columns" integer DEFAULT 1 NOT NULL,
+	"rows" integer DEFAULT 1 NOT NULL,
+	"margin_top" double precision DEFAULT 0 NOT NULL,
+	"margin_left" double precision DEFAULT 0 NOT NULL,
+	"horizontal_gap" double precision DEFAULT 0 NOT NULL,
+	"vertical_gap" double precision DEFAULT 0 NOT NULL,
+	"is_system" boolean DEFAULT false NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "label_formats" ADD CONSTRAINT "label_formats_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "label_formats" ADD CONSTRAINT "label_formats_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "label_formats_tenant_key_idx" ON "label_formats" USING btree ("tenant_id","key");--> statement-breakpoint
+-- Seed the system formats (formerly the LABEL_FORMATS constant) into existing tenants
+INSERT INTO "label_formats" ("tenant_id", "key", "name", "description", "stock_type", "unit", "width", "height", "corner_radius", "paper_width", "paper_height", "columns", "rows", "margin_top", "margin_left", "horizontal_gap", "vertical_gap", "is_system")
+SELECT "tenants"."id", f.*, true FROM "tenants" CROSS JOIN (VALUES
+	('avery-5160', 'Avery 5160', 'Address labels, 30 per Letter sheet', 'sheet', 'mm', 66.7, 25.4, 0, 215.9, 279.4, 3, 10, 12.7, 4.8, 3.2, 0),
+	('avery-5161', 'Avery 5161', 'Address labels, 20 per Letter sheet', 'sheet', 'mm', 101.6, 25.4, 0, 215.9, 279.4, 2, 10, 12.7, 4.8, 3.2, 0),
+	('avery-5163', 'Avery 5163', 'Shipping labels, 10 per Letter sheet', 'sheet', 'mm', 101.6, 50.8, 0, 215.9, 279.4, 2, 5, 12.7, 4.8, 3.2, 0),
+	('avery-5164', 'Avery 5164', 'Shipping labels, 6 per Letter sheet', 'sheet', 'mm', 101.6, 88.9, 0, 215.9, 279.4, 2, 3, 12.7, 4.8, 3.2, 0),
+	('dymo-30252', 'DYMO 30252', 'Address labels, roll', 'roll', 'mm', 89, 28, 0, NULL, NULL, 1, 1, 0, 0, 0, 0),
+	('dymo-30336', 'DYMO 30336', 'Multipurpose labels, roll', 'roll', 'mm', 54, 25, 0, NULL, NULL, 1, 1, 0, 0, 0, 0),
+	('brother-dk2205', 'Brother DK-2205', 'Continuous tape cut to 30.48 mm', 'roll', 'mm', 62, 30.48, 0, NULL, NULL, 1, 1, 0, 0, 0, 0),
+	('custom', 'Custom', 'Free-form size set in the designer', 'roll', 'mm', 50, 25, 0, NULL, NULL, 1, 1, 0, 0, 0, 0)
+) AS f("key", "name", "description", "stock_type", "unit", "width", "height", "corner_radius", "paper_width", "paper_height", "columns", "rows", "margin_top", "margin_left", "horizontal_gap", "vertical_gap");
@@ -0,0 +1 @@
+ALTER TABLE "print_agent_printers" ADD COLUMN "calibration" jsonb;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "asset_tag_patterns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"pattern" varchar(100) NOT NULL,
+	"description" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "asset_tag_sequences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"scope" varchar(200) NOT NULL,
+	"value" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "asset_tag_patterns" ADD CONSTRAINT "asset_tag_patterns_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "asset_tag_patterns" ADD CONSTRAINT "asset_tag_patterns_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "asset_tag_sequences" ADD CONSTRAINT "asset_tag_sequences_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "asset_tag_patterns_tenant_category_idx" ON "asset_tag_patterns" USING btree ("tenant_id","category");--> statement-breakpoint
+CREATE UNIQUE INDEX "asset_tag_sequences_tenant_scope_idx" ON "asset_tag_sequences" USING btree ("tenant_id","scope");
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TABLE "reserved_tags" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"batch_id" uuid NOT NULL,
+	"tag" varchar(100) NOT NULL,
+	"status" varchar(20) DEFAULT 'reserved' NOT NULL,
+	"asset_id" uuid,
+	"claimed_by" uuid,
+	"claimed_at" timestamp,
+	"voided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tag_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"pattern" varchar(100) NOT NULL,
+	"quantity" integer NOT NULL,
+	"values" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reserved_tags" ADD CONSTRAINT "reserved_tags_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reserved_tags" ADD CONSTRAINT "reserved_tags_batch_id_tag_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."tag_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reserved_tags" ADD CONSTRAINT "reserved_tags_asset_id_assets_id_fk" FOREIGN KEY ("asset_id") REFERENCES "public"."assets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reserved_tags" ADD CONSTRAINT "reserved_tags_claimed_by_users_id_fk" FOREIGN KEY ("claimed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tag_batches" ADD CONSTRAINT "tag_batches_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tag_batches" ADD CONSTRAINT "tag_batches_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "reserved_tags_tenant_tag_idx" ON "reserved_tags" USING btree ("tenant_id","tag");--> statement-breakpoint
+CREATE INDEX "reserved_tags_batch_status_idx" ON "reserved_tags" USING btree ("batch_id","status");--> statement-breakpoint
+CREATE INDEX "tag_batches_tenant_created_idx" ON "tag_batches" USING btree ("tenant_id","created_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- Keep the oldest asset on each duplicated tag and suffix the others with their id so the unique index can be built.
+-- Every renamed tag is recorded in the tenant's audit log so admins can find and fix the labels already printed.
+WITH "renamed" AS (
+	UPDATE "assets" SET "asset_tag" = left("assets"."asset_tag", 91) || '-' || left("assets"."id"::text, 8), "updated_at" = now()
+	FROM (
+		SELECT "id", "asset_tag", row_number() OVER (PARTITION BY "tenant_id", "asset_tag" ORDER BY "created_at", "id") AS "position" FROM "assets"
+	) AS d
+	WHERE d."id" = "assets"."id" AND d."position" > 1
+	RETURNING "assets"."id", "assets"."tenant_id", d."asset_tag" AS "previous_tag", "assets"."asset_tag"
+)
+INSERT INTO "audit_logs" ("tenant_id", "action", "severity", "resource_type", "resource_id", "details")
+SELECT "tenant_id", 'asset.tag_renamed', 'warning', 'asset', "id",
+	jsonb_build_object('previousTag', "previous_tag", 'assetTag', "asset_tag", 'reason', 'Duplicate asset tag renamed to build the unique tag index')
+FROM "renamed";--> statement-breakpoint
+DROP INDEX "assets_tenant_tag_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "assets_tenant_tag_idx" ON "assets" USING btree ("tenant_id","asset_tag");
@@ -0,0 +1,10 @@
+-- RLS for the tenant font library (fail closed when tenant_id is not set)
+
+ALTER TABLE tenant_fonts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_fonts FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_fonts_tenant_isolation ON tenant_fonts
+  USING (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+CREATE POLICY tenant_fonts_tenant_insert ON tenant_fonts
+  FOR INSERT WITH CHECK (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
@@ -0,0 +1,10 @@
+-- RLS for tenant label formats (fail closed when tenant_id is not set)
+
+ALTER TABLE label_formats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE label_formats FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY label_formats_tenant_isolation ON label_formats
+  USING (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+CREATE POLICY label_formats_tenant_insert ON label_formats
+  FOR INSERT WITH CHECK (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
@@ -0,0 +1,21 @@
+-- RLS for asset tag patterns and sequence counters (fail closed when tenant_id is not set)
+
+ALTER TABLE asset_tag_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE asset_tag_patterns FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY asset_tag_patterns_tenant_isolation ON asset_tag_patterns
+  USING (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+CREATE POLICY asset_tag_patterns_tenant_insert ON asset_tag_patterns
+  FOR INSERT WITH CHECK (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+-- Counters are bumped with INSERT ... ON CONFLICT DO UPDATE, which needs both policies
+
+ALTER TABLE asset_tag_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE asset_tag_sequences FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY asset_tag_sequences_tenant_isolation ON asset_tag_sequences
+  USING (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+CREATE POLICY asset_tag_sequences_tenant_insert ON asset_tag_sequences
+  FOR INSERT WITH CHECK (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
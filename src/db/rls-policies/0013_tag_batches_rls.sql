@@ -0,0 +1,19 @@
+-- RLS for pre-printed tag batches and their reserved tags (fail closed when tenant_id is not set)
+
+ALTER TABLE tag_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tag_batches FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY tag_batches_tenant_isolation ON tag_batches
+  USING (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+CREATE POLICY tag_batches_tenant_insert ON tag_batches
+  FOR INSERT WITH CHECK (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+ALTER TABLE reserved_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reserved_tags FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY reserved_tags_tenant_isolation ON reserved_tags
+  USING (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
+
+CREATE POLICY reserved_tags_tenant_insert ON reserved_tags
+  FOR INSERT WITH CHECK (tenant_id = COALESCE(NULLIF(current_setting('app.current_tenant_id', true), ''), '00000000-0000-0000-0000-000000000000')::uuid);
@@ -6,9 +6,11 @@ import {
   boolean,
   timestamp,
   integer,
+  doublePrecision,
   jsonb,
   date,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 
 export const tenants = pgTable("tenants", {
@@ -101,12 +103,93 @@ export const assets = pgTable(
   (table) => [
     index("assets_tenant_created_idx").on(table.tenantId, table.createdAt),
     index("assets_tenant_serial_idx").on(table.tenantId, table.serialNumber),
-    index("assets_tenant_tag_idx").on(table.tenantId, table.assetTag),
+    uniqueIndex("assets_tenant_tag_idx").on(table.tenantId, table.assetTag),
     index("assets_tenant_status_idx").on(table.tenantId, table.status),
     index("assets_tenant_category_idx").on(table.tenantId, table.category),
   ]
 );
 
+export const assetTagPatterns = pgTable(
+  "asset_tag_patterns",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    category: varchar("category", { length: 50 }).notNull(),
+    pattern: varchar("pattern", { length: 100 }).notNull(),
+    description: text("description"),
+    createdBy: uuid("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("asset_tag_patterns_tenant_category_idx").on(table.tenantId, table.category),
+  ]
+);
+
+export const assetTagSequences = pgTable(
+  "asset_tag_sequences",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    scope: varchar("scope", { length: 200 }).notNull(),
+    value: integer("value").notNull(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("asset_tag_sequences_tenant_scope_idx").on(table.tenantId, table.scope),
+  ]
+);
+
+export const tagBatches = pgTable(
+  "tag_batches",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    category: varchar("category", { length: 50 }).notNull(),
+    pattern: varchar("pattern", { length: 100 }).notNull(),
+    quantity: integer("quantity").notNull(),
+    values: jsonb("values").notNull().default({}),
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("tag_batches_tenant_created_idx").on(table.tenantId, table.createdAt),
+  ]
+);
+
+export const reservedTags = pgTable(
+  "reserved_tags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    batchId: uuid("batch_id")
+      .notNull()
+      .references(() => tagBatches.id, { onDelete: "cascade" }),
+    tag: varchar("tag", { length: 100 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("reserved"),
+    assetId: uuid("asset_id").references(() => assets.id, { onDelete: "set null" }),
+    claimedBy: uuid("claimed_by").references(() => users.id),
+    claimedAt: timestamp("claimed_at"),
+    voidedAt: timestamp("voided_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("reserved_tags_tenant_tag_idx").on(table.tenantId, table.tag),
+    index("reserved_tags_batch_status_idx").on(table.batchId, table.status),
+  ]
+);
+
 export const labelTemplates = pgTable(
   "label_templates",
   {
@@ -138,6 +221,63 @@ export const labelTemplates = pgTable(
   ]
 );
 
+export const tenantFonts = pgTable(
+  "tenant_fonts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    family: varchar("family", { length: 100 }).notNull(),
+    weight: varchar("weight", { length: 10 }).notNull().default("normal"),
+    style: varchar("style", { length: 10 }).notNull().default("normal"),
+    format: varchar("format", { length: 10 }).notNull(),
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    fileSize: integer("file_size").notNull(),
+    storageKey: text("storage_key").notNull(),
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("tenant_fonts_tenant_face_idx").on(table.tenantId, table.family, table.weight, table.style),
+  ]
+);
+
+export const labelFormats = pgTable(
+  "label_formats",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id, { onDelete: "cascade" }),
+    key: varchar("key", { length: 50 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    stockType: varchar("stock_type", { length: 10 }).notNull(),
+    unit: varchar("unit", { length: 2 }).notNull().default("mm"),
+    width: doublePrecision("width").notNull(),
+    height: doublePrecision("height").notNull(),
+    cornerRadius: doublePrecision("corner_radius").notNull().default(0),
+    paperWidth: doublePrecision("paper_width"),
+    paperHeight: doublePrecision("paper_height"),
+    columns: integer("columns").notNull().default(1),
+    rows: integer("rows").notNull().default(1),
+    marginTop: doublePrecision("margin_top").notNull().default(0),
+    marginLeft: doublePrecision("margin_left").notNull().default(0),
+    horizontalGap: doublePrecision("horizontal_gap").notNull().default(0),
+    verticalGap: doublePrecision("vertical_gap").notNull().default(0),
+    isSystem: boolean("is_system").notNull().default(false),
+    createdBy: uuid("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("label_formats_tenant_key_idx").on(table.tenantId, table.key),
+  ]
+);
+
 export const templateVersions = pgTable(
   "template_versions",
   {
@@ -206,6 +346,8 @@ export const printJobs = pgTable(
     errorMessage: text("error_message"),
     outputUrl: text("output_url"),
     outputSize: integer("output_size"),
+    outputMime: varchar("output_mime", { length: 100 }),
+    outputStorageKey: text("output_storage_key"),
     createdBy: uuid("created_by")
       .notNull()
       .references(() => users.id),
@@ -513,6 +655,7 @@ export const printAgentPrinters = pgTable(
     languages: jsonb("languages").notNull().default([]),
     dpi: integer("dpi"),
     isDefault: boolean("is_default").notNull().default(false),
+    calibration: jsonb("calibration"),
   },
   (table) => [
     index("print_agent_printers_agent_idx").on(table.agentId),
@@ -532,6 +675,8 @@ export const printDispatches = pgTable(
       .references(() => printJobs.id, { onDelete: "cascade" }),
     agentId: uuid("agent_id").references(() => printAgents.id),
     printerId: uuid("printer_id").references(() => printAgentPrinters.id),
+    providerId: uuid("provider_id").references(() => cloudPrintProviders.id),
+    remoteJobId: varchar("remote_job_id", { length: 255 }),
     payloadFormat: varchar("payload_format", { length: 10 }).notNull(),
     status: varchar("status", { length: 20 }).notNull().default("queued"),
     attempts: integer("attempts").notNull().default(0),
@@ -543,6 +688,7 @@ export const printDispatches = pgTable(
     index("print_dispatches_tenant_created_idx").on(table.tenantId, table.createdAt),
     index("print_dispatches_tenant_status_idx").on(table.tenantId, table.status),
     index("print_dispatches_job_idx").on(table.printJobId),
+    index("print_dispatches_tenant_provider_idx").on(table.tenantId, table.providerId),
   ]
 );
 
@@ -1,6 +1,7 @@
 import { eq } from "drizzle-orm";
 import { db, schema } from "./index";
 import { hashPassword } from "@/lib/auth";
+import { seedSystemLabelFormats } from "@/services/label-format-service";
 import { DEFAULT_TENANT_SETTINGS } from "@/types/tenant";
 import type { LabelSpec } from "@/types/label-spec";
 import type { EquipmentCategory } from "@/types/asset";
@@ -167,6 +168,9 @@ async function seed() {
 
   console.log(`✅ Created tenant: ${tenant.name} (${tenant.id})`);
 
+  await seedSystemLabelFormats(db, tenant.id);
+  console.log("✅ Created system label formats");
+
   const adminPasswordHash = await hashPassword("admin123!");
 
   const [adminUser] = await db
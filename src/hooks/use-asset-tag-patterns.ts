@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client";
+import type { TagPatternValues } from "@/lib/asset-tag-pattern";
+import type { EquipmentCategory } from "@/types/asset";
+import type {
+  AssetTagPattern,
+  AssetTagPreview,
+  CreateAssetTagPatternInput,
+  UpdateAssetTagPatternInput,
+} from "@/types/asset-tag";
+
+async function fetchAssetTagPatterns(): Promise<AssetTagPattern[]> {
+  const response = await apiGet("/api/asset-tag-patterns");
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to fetch tag patterns");
+  }
+
+  const { patterns } = await response.json();
+  return patterns;
+}
+
+async function createPatternApi(input: CreateAssetTagPatternInput): Promise<AssetTagPattern> {
+  const response = await apiPost("/api/asset-tag-patterns", input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to create tag pattern");
+  }
+
+  const { pattern } = await response.json();
+  return pattern;
+}
+
+async function updatePatternApi(id: string, input: UpdateAssetTagPatternInput): Promise<AssetTagPattern> {
+  const response = await apiPut(`/api/asset-tag-patterns/${id}`, input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to update tag pattern");
+  }
+
+  const { pattern } = await response.json();
+  return pattern;
+}
+
+async function deletePatternApi(id: string): Promise<void> {
+  const response = await apiDelete(`/api/asset-tag-patterns/${id}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to delete tag pattern");
+  }
+}
+
+async function previewAssetTagApi(
+  values: TagPatternValues & { category: EquipmentCategory }
+): Promise<AssetTagPreview> {
+  const response = await apiPost("/api/asset-tag-patterns/preview", values);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to preview asset tag");
+  }
+
+  const { preview } = await response.json();
+  return preview;
+}
+
+export function useAssetTagPatterns() {
+  return useQuery({
+    queryKey: queryKeys.assetTagPatterns.list(),
+    queryFn: fetchAssetTagPatterns,
+  });
+}
+
+/**
+ * Pattern new assets of the category get their tag from, if any
+ */
+export function useAssetTagPattern(category: EquipmentCategory | undefined) {
+  const { data: patterns } = useAssetTagPatterns();
+  return category ? patterns?.find((pattern) => pattern.category === category) : undefined;
+}
+
+export function useCreateAssetTagPattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createPatternApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.assetTagPatterns.all });
+    },
+  });
+}
+
+export function useUpdateAssetTagPattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateAssetTagPatternInput }) =>
+      updatePatternApi(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.assetTagPatterns.all });
+    },
+  });
+}
+
+export function useDeleteAssetTagPattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deletePatternApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.assetTagPatterns.all });
+    },
+  });
+}
+
+export function usePreviewAssetTag() {
+  return useMutation({
+    mutationFn: previewAssetTagApi,
+  });
+}
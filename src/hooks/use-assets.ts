@@ -31,7 +31,7 @@ interface AssetStats {
 interface CreateAssetInput {
   category: EquipmentCategory;
   type: string;
-  assetTag: string;
+  assetTag?: string;
   serialNumber: string;
   manufacturer: string;
   model: string;
@@ -186,6 +186,7 @@ export function useCreateAsset() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.assets.lists() });
       queryClient.invalidateQueries({ queryKey: queryKeys.assets.stats() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tagBatches.all });
     },
   });
 }
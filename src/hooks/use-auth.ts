@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from "react";
 
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
 import type { Permission, Role } from "@/types/permissions";
+import type { DateFormatSettings } from "@/types/tenant";
 
 interface User {
   id: string;
@@ -12,6 +14,7 @@ interface User {
 interface AuthState {
   user: User | null;
   permissions: Permission[];
+  dateSettings: DateFormatSettings;
   isLoading: boolean;
   isAuthenticated: boolean;
 }
@@ -26,6 +29,7 @@ export function useAuth() {
   const [state, setState] = useState<AuthState>({
     user: null,
     permissions: [],
+    dateSettings: DEFAULT_DATE_SETTINGS,
     isLoading: true,
     isAuthenticated: false,
   });
@@ -41,6 +45,7 @@ export function useAuth() {
         setState({
           user: data.user,
           permissions: data.permissions,
+          dateSettings: data.dateSettings ?? DEFAULT_DATE_SETTINGS,
           isLoading: false,
           isAuthenticated: true,
         });
@@ -48,6 +53,7 @@ export function useAuth() {
         setState({
           user: null,
           permissions: [],
+          dateSettings: DEFAULT_DATE_SETTINGS,
           isLoading: false,
           isAuthenticated: false,
         });
@@ -56,6 +62,7 @@ export function useAuth() {
       setState({
         user: null,
         permissions: [],
+        dateSettings: DEFAULT_DATE_SETTINGS,
         isLoading: false,
         isAuthenticated: false,
       });
@@ -97,6 +104,7 @@ export function useAuth() {
       setState({
         user: null,
         permissions: [],
+        dateSettings: DEFAULT_DATE_SETTINGS,
         isLoading: false,
         isAuthenticated: false,
       });
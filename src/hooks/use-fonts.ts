@@ -0,0 +1,138 @@
+import { useMemo } from "react";
+import { useQuery, useQueries, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { apiGet, apiFetch, apiDelete } from "@/lib/api-client";
+import { parseFontFile } from "@/lib/font-file";
+import type { FontFileInfo } from "@/lib/font-file";
+import type { FontStyle, FontWeight, TenantFont } from "@/types/font";
+import type { LabelSpec } from "@/types/label-spec";
+
+export interface UploadFontRequest {
+  file: File;
+  family?: string;
+  weight?: FontWeight;
+  style?: FontStyle;
+}
+
+/**
+ * Tenant font with the metrics the preview needs to lay text out like the renderer
+ */
+export interface LoadedFont extends TenantFont {
+  metrics: FontFileInfo;
+}
+
+async function fetchFonts(): Promise<TenantFont[]> {
+  const response = await apiGet("/api/fonts");
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to fetch fonts");
+  }
+
+  const { fonts } = await response.json();
+  return fonts;
+}
+
+async function fetchFontMetrics(id: string): Promise<FontFileInfo> {
+  const response = await apiGet(`/api/fonts/${id}/file`);
+
+  if (!response.ok) {
+    throw new Error("Failed to load font file");
+  }
+
+  return parseFontFile(new Uint8Array(await response.arrayBuffer()));
+}
+
+async function uploadFontApi({ file, family, weight, style }: UploadFontRequest): Promise<TenantFont> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (family) formData.append("family", family);
+  if (weight) formData.append("weight", weight);
+  if (style) formData.append("style", style);
+
+  const response = await apiFetch("/api/fonts", { method: "POST", body: formData });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to upload font");
+  }
+
+  const { font } = await response.json();
+  return font;
+}
+
+async function deleteFontApi(id: string): Promise<void> {
+  const response = await apiDelete(`/api/fonts/${id}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to delete font");
+  }
+}
+
+export function useFonts() {
+  return useQuery({
+    queryKey: queryKeys.fonts.list(),
+    queryFn: fetchFonts,
+  });
+}
+
+/**
+ * Tenant fonts used by a spec, plus parsed metrics for the ones that have loaded
+ */
+export function useSpecFonts(spec: LabelSpec): { faces: TenantFont[]; loaded: LoadedFont[] } {
+  const { data: fonts = [] } = useFonts();
+
+  const faces = useMemo(() => {
+    const families = new Set<string>();
+    for (const field of spec.fields) {
+      if (field.type === "text" || field.type === "date") {
+        families.add((field.style as { fontFamily: string }).fontFamily);
+      }
+    }
+    for (const element of spec.elements) {
+      if (element.type === "text" && element.style.fontFamily) {
+        families.add(element.style.fontFamily);
+      }
+    }
+    return fonts.filter((font) => families.has(font.family));
+  }, [fonts, spec.fields, spec.elements]);
+
+  const metrics = useQueries({
+    queries: faces.map((font) => ({
+      queryKey: queryKeys.fonts.file(font.id),
+      queryFn: () => fetchFontMetrics(font.id),
+      staleTime: Infinity,
+    })),
+  });
+
+  const loaded = faces.flatMap((font, index) => {
+    const info = metrics[index]?.data;
+    return info ? [{ ...font, metrics: info }] : [];
+  });
+
+  return { faces, loaded };
+}
+
+export function useUploadFont() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: uploadFontApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.fonts.list() });
+    },
+  });
+}
+
+export function useDeleteFont() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteFontApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.fonts.list() });
+    },
+  });
+}
@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client";
+import type { CreateLabelFormatInput, LabelFormat, UpdateLabelFormatInput } from "@/types/label-format";
+
+async function fetchLabelFormats(): Promise<LabelFormat[]> {
+  const response = await apiGet("/api/label-formats");
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to fetch label formats");
+  }
+
+  const { formats } = await response.json();
+  return formats;
+}
+
+async function createLabelFormatApi(input: CreateLabelFormatInput): Promise<LabelFormat> {
+  const response = await apiPost("/api/label-formats", input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to create label format");
+  }
+
+  const { format } = await response.json();
+  return format;
+}
+
+async function updateLabelFormatApi(id: string, input: UpdateLabelFormatInput): Promise<LabelFormat> {
+  const response = await apiPut(`/api/label-formats/${id}`, input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to update label format");
+  }
+
+  const { format } = await response.json();
+  return format;
+}
+
+async function deleteLabelFormatApi(id: string): Promise<void> {
+  const response = await apiDelete(`/api/label-formats/${id}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to delete label format");
+  }
+}
+
+export function useLabelFormats() {
+  return useQuery({
+    queryKey: queryKeys.labelFormats.list(),
+    queryFn: fetchLabelFormats,
+  });
+}
+
+/**
+ * The tenant format stored under a template's format key, once loaded
+ */
+export function useLabelFormat(key: string | undefined): LabelFormat | undefined {
+  const { data: formats } = useLabelFormats();
+  return key ? formats?.find((format) => format.key === key) : undefined;
+}
+
+export function useCreateLabelFormat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createLabelFormatApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.labelFormats.list() });
+    },
+  });
+}
+
+export function useUpdateLabelFormat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateLabelFormatInput }) =>
+      updateLabelFormatApi(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.labelFormats.list() });
+    },
+  });
+}
+
+export function useDeleteLabelFormat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteLabelFormatApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.labelFormats.list() });
+    },
+  });
+}
@@ -0,0 +1,188 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { apiGet, apiPost, apiPut, apiDelete } from "@/lib/api-client";
+import type { PrintAgent, PrintAgentPrinter, PrinterCalibration, PrinterLanguage } from "@/types/print-agent";
+import type {
+  PrintRoute,
+  CreatePrintRouteInput,
+  UpdatePrintRouteInput,
+  TestPrintRoutesInput,
+  TestPrintRoutesResult,
+} from "@/types/print-route";
+
+export interface PrintAgentWithPrinters extends PrintAgent {
+  printers: PrintAgentPrinter[];
+}
+
+async function fetchAgents(): Promise<PrintAgentWithPrinters[]> {
+  const response = await apiGet("/api/print/agents");
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to fetch print agents");
+  }
+
+  const { agents } = await response.json();
+  return agents;
+}
+
+async function fetchRoutes(): Promise<PrintRoute[]> {
+  const response = await apiGet("/api/print/routes");
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to fetch print routes");
+  }
+
+  const { routes } = await response.json();
+  return routes;
+}
+
+async function createRouteApi(input: CreatePrintRouteInput): Promise<PrintRoute> {
+  const response = await apiPost("/api/print/routes", input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to create print route");
+  }
+
+  const { route } = await response.json();
+  return route;
+}
+
+async function updateRouteApi(id: string, input: UpdatePrintRouteInput): Promise<PrintRoute> {
+  const response = await apiPut(`/api/print/routes/${id}`, input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to update print route");
+  }
+
+  const { route } = await response.json();
+  return route;
+}
+
+async function deleteRouteApi(id: string): Promise<void> {
+  const response = await apiDelete(`/api/print/routes/${id}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to delete print route");
+  }
+}
+
+async function testRoutesApi(input: TestPrintRoutesInput): Promise<TestPrintRoutesResult> {
+  const response = await apiPost("/api/print/routes/test", input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to test print routes");
+  }
+
+  return response.json();
+}
+
+async function updateCalibrationApi(
+  printerId: string,
+  calibration: PrinterCalibration | null
+): Promise<PrintAgentPrinter> {
+  const response = await apiPut(`/api/print/printers/${printerId}/calibration`, { calibration });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to update printer calibration");
+  }
+
+  const { printer } = await response.json();
+  return printer;
+}
+
+async function fetchCalibrationPage(
+  printerId: string,
+  format: string,
+  language: PrinterLanguage
+): Promise<Blob> {
+  const params = new URLSearchParams({ format, language });
+  const response = await apiGet(`/api/print/printers/${printerId}/calibration-page?${params}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to render calibration page");
+  }
+
+  return response.blob();
+}
+
+export function usePrintAgents() {
+  return useQuery({
+    queryKey: queryKeys.print.agents(),
+    queryFn: fetchAgents,
+  });
+}
+
+export function usePrintRoutes() {
+  return useQuery({
+    queryKey: queryKeys.print.routes(),
+    queryFn: fetchRoutes,
+  });
+}
+
+export function useCreatePrintRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createRouteApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.print.routes() });
+    },
+  });
+}
+
+export function useUpdatePrintRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdatePrintRouteInput }) =>
+      updateRouteApi(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.print.routes() });
+    },
+  });
+}
+
+export function useDeletePrintRoute() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteRouteApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.print.routes() });
+    },
+  });
+}
+
+export function useTestPrintRoutes() {
+  return useMutation({
+    mutationFn: testRoutesApi,
+  });
+}
+
+export function useUpdatePrinterCalibration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ printerId, calibration }: { printerId: string; calibration: PrinterCalibration | null }) =>
+      updateCalibrationApi(printerId, calibration),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.print.agents() });
+    },
+  });
+}
+
+export function useCalibrationPage() {
+  return useMutation({
+    mutationFn: ({ printerId, format, language }: { printerId: string; format: string; language: PrinterLanguage }) =>
+      fetchCalibrationPage(printerId, format, language),
+  });
+}
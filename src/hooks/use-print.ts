@@ -8,6 +8,7 @@ import type {
   PrintJobFilters,
   PrintJobListResult,
   CreatePrintJobInput,
+  PreflightReport,
 } from "@/types/print";
 
 async function fetchJobs(
@@ -107,6 +108,18 @@ async function previewApi(templateId: string, assetId: string): Promise<Blob> {
   return response.blob();
 }
 
+async function preflightApi(templateId: string, assetIds: string[]): Promise<PreflightReport> {
+  const response = await apiPost("/api/print/preflight", { templateId, assetIds });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to check labels");
+  }
+
+  const { report } = await response.json();
+  return report;
+}
+
 export function usePrintJobList(
   filters: PrintJobFilters = {},
   page = 1,
@@ -170,6 +183,13 @@ export function usePreviewLabel() {
   });
 }
 
+export function usePrintPreflight() {
+  return useMutation({
+    mutationFn: ({ templateId, assetIds }: { templateId: string; assetIds: string[] }) =>
+      preflightApi(templateId, assetIds),
+  });
+}
+
 export function usePrint() {
   const queryClient = useQueryClient();
   const createMutation = useCreatePrintJob();
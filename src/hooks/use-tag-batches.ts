@@ -0,0 +1,116 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { apiGet, apiPost } from "@/lib/api-client";
+import type { CreateTagBatchInput, ReservedTagLookup, TagBatch, TagBatchDetail } from "@/types/tag-batch";
+
+async function fetchTagBatches(): Promise<TagBatch[]> {
+  const response = await apiGet("/api/tag-batches?pageSize=100");
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to fetch tag batches");
+  }
+
+  const { batches } = await response.json();
+  return batches;
+}
+
+async function lookupReservedTag(tag: string): Promise<ReservedTagLookup | null> {
+  const response = await apiGet(`/api/tag-batches/lookup?${new URLSearchParams({ tag })}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to look up tag");
+  }
+
+  const { reserved } = await response.json();
+  return reserved;
+}
+
+async function createBatchApi(input: CreateTagBatchInput): Promise<TagBatchDetail> {
+  const response = await apiPost("/api/tag-batches", input);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to create tag batch");
+  }
+
+  const { batch } = await response.json();
+  return batch;
+}
+
+async function voidTagsApi(batchId: string, tagIds?: string[]): Promise<number> {
+  const response = await apiPost(`/api/tag-batches/${batchId}/void`, { tagIds });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to void tags");
+  }
+
+  const { voided } = await response.json();
+  return voided;
+}
+
+async function fetchTagBatchOutput(batchId: string, templateId: string, sheet: boolean): Promise<Blob> {
+  const params = new URLSearchParams({ templateId, sheet: String(sheet) });
+  const response = await apiGet(`/api/tag-batches/${batchId}/output?${params}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error ?? "Failed to render tag batch");
+  }
+
+  return response.blob();
+}
+
+export function useTagBatches() {
+  return useQuery({
+    queryKey: queryKeys.tagBatches.list(),
+    queryFn: fetchTagBatches,
+  });
+}
+
+/**
+ * The pre-printed tag batch a scanned tag belongs to, if any
+ */
+export function useReservedTag(tag: string) {
+  return useQuery({
+    queryKey: queryKeys.tagBatches.lookup(tag),
+    queryFn: () => lookupReservedTag(tag),
+    enabled: tag.length > 0,
+    staleTime: 30 * 1000,
+  });
+}
+
+export function useCreateTagBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createBatchApi,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tagBatches.all });
+    },
+  });
+}
+
+export function useVoidReservedTags() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ batchId, tagIds }: { batchId: string; tagIds?: string[] }) => voidTagsApi(batchId, tagIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tagBatches.all });
+    },
+  });
+}
+
+export function useTagBatchOutput() {
+  return useMutation({
+    mutationFn: ({ batchId, templateId, sheet }: { batchId: string; templateId: string; sheet: boolean }) =>
+      fetchTagBatchOutput(batchId, templateId, sheet),
+  });
+}
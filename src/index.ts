@@ -11,6 +11,21 @@ import {
   handleDeleteAsset,
   handleGetAssetStats,
 } from "@/api/routes/assets";
+import {
+  handleListAssetTagPatterns,
+  handleCreateAssetTagPattern,
+  handleUpdateAssetTagPattern,
+  handleDeleteAssetTagPattern,
+  handlePreviewAssetTag,
+} from "@/api/routes/asset-tag-patterns";
+import {
+  handleListTagBatches,
+  handleCreateTagBatch,
+  handleLookupReservedTag,
+  handleGetTagBatch,
+  handleVoidReservedTags,
+  handleRenderTagBatch,
+} from "@/api/routes/tag-batches";
 import {
   handleListUsers,
   handleGetUser,
@@ -31,15 +46,51 @@ import {
   handleGetTemplateVersion,
   handleRevertToVersion,
 } from "@/api/routes/templates";
+import {
+  handleListFonts,
+  handleUploadFont,
+  handleDeleteFont,
+  handleGetFontFile,
+} from "@/api/routes/fonts";
+import {
+  handleListLabelFormats,
+  handleCreateLabelFormat,
+  handleUpdateLabelFormat,
+  handleDeleteLabelFormat,
+} from "@/api/routes/label-formats";
 import {
   handleListPrintJobs,
   handleCreatePrintJob,
   handleGetPrintJob,
   handleGetPrintJobItems,
   handleRenderPrintJob,
+  handleGetPrintJobDownload,
   handleCancelPrintJob,
   handlePreview,
+  handlePreflight,
 } from "@/api/routes/print";
+import {
+  handlePrintAgentSocket,
+  handleListPrintAgents,
+  handleUpdatePrinterCalibration,
+  handleGetCalibrationPage,
+} from "@/api/routes/print-agents";
+import {
+  handleListPrintRoutes,
+  handleGetPrintRoute,
+  handleCreatePrintRoute,
+  handleUpdatePrintRoute,
+  handleDeletePrintRoute,
+  handleTestPrintRoutes,
+} from "@/api/routes/print-routes";
+import {
+  handleListCloudPrintProviders,
+  handleGetCloudPrintProvider,
+  handleCreateCloudPrintProvider,
+  handleUpdateCloudPrintProvider,
+  handleDeleteCloudPrintProvider,
+  handleSubmitCloudPrintJob,
+} from "@/api/routes/cloud-print";
 import {
   handleListApiKeys,
   handleGetApiKey,
@@ -62,11 +113,17 @@ import {
   handleGetImportJob,
   handleCreateImportJob,
   handleGetImportJobErrors,
+  handleImportJobProgress,
   handleListImportTemplates,
   handleCreateImportTemplate,
   handleDeleteImportTemplate,
   handleExportAssets,
+  handleCreateExportJob,
+  handleListExportJobs,
+  handleGetExportJob,
+  handleGetExportJobDownload,
 } from "@/api/routes/imports";
+import { handleStorageDownload } from "@/api/routes/storage";
 import {
   handlePublicListAssets,
   handlePublicGetAsset,
@@ -89,6 +146,10 @@ import {
   WEBHOOK_RATE_LIMIT,
 } from "@/api/middleware/rate-limit";
 import { withCsrfProtection } from "@/api/middleware/csrf";
+import { registerDefaultJobHandlers } from "@/services/job-handlers";
+import { startJobWorker } from "@/services/job-worker";
+import { startWebhookScheduler } from "@/services/webhook-scheduler";
+import { printAgentWebSocket } from "@/services/print-agent-gateway";
 
 async function extractEmailFromLoginRequest(req: Request): Promise<string | null> {
   try {
@@ -132,6 +193,7 @@ const rateLimitedLogin = withLoginRateLimit(handleLogin, extractEmailFromLoginRe
 const rateLimitedRefresh = withRateLimit(AUTH_RATE_LIMIT, handleRefresh);
 const rateLimitedCreatePrintJob = withRateLimit(PRINT_JOB_RATE_LIMIT, withCsrfProtection(handleCreatePrintJob));
 const rateLimitedPreview = withRateLimit(PRINT_PREVIEW_RATE_LIMIT, withCsrfProtection(handlePreview));
+const rateLimitedPreflight = withRateLimit(PRINT_PREVIEW_RATE_LIMIT, withCsrfProtection(handlePreflight));
 const rateLimitedCreateImport = withRateLimit(IMPORT_RATE_LIMIT, withCsrfProtection(handleCreateImportJob));
 const rateLimitedExport = withRateLimit(EXPORT_RATE_LIMIT, handleExportAssets);
 const rateLimitedCreateWebhook = withRateLimit(WEBHOOK_RATE_LIMIT, withCsrfProtection(handleCreateSubscription));
@@ -183,6 +245,41 @@ const server = serve({
       DELETE: withCsrfProtection(handleDeleteAsset),
     },
 
+    "/api/asset-tag-patterns": {
+      GET: handleListAssetTagPatterns,
+      POST: withCsrfProtection(handleCreateAssetTagPattern),
+    },
+
+    "/api/asset-tag-patterns/preview": {
+      POST: withCsrfProtection(handlePreviewAssetTag),
+    },
+
+    "/api/asset-tag-patterns/:id": {
+      PUT: withCsrfProtection(handleUpdateAssetTagPattern),
+      DELETE: withCsrfProtection(handleDeleteAssetTagPattern),
+    },
+
+    "/api/tag-batches": {
+      GET: handleListTagBatches,
+      POST: withCsrfProtection(handleCreateTagBatch),
+    },
+
+    "/api/tag-batches/lookup": {
+      GET: handleLookupReservedTag,
+    },
+
+    "/api/tag-batches/:id": {
+      GET: handleGetTagBatch,
+    },
+
+    "/api/tag-batches/:id/void": {
+      POST: withCsrfProtection(handleVoidReservedTags),
+    },
+
+    "/api/tag-batches/:id/output": {
+      GET: withRateLimit(PRINT_RENDER_RATE_LIMIT, handleRenderTagBatch),
+    },
+
     "/api/users": {
       GET: handleListUsers,
       POST: withCsrfProtection(handleCreateUser),
@@ -222,6 +319,29 @@ const server = serve({
       POST: withCsrfProtection(handleRevertToVersion),
     },
 
+    "/api/fonts": {
+      GET: handleListFonts,
+      POST: withCsrfProtection(handleUploadFont),
+    },
+
+    "/api/fonts/:id": {
+      DELETE: withCsrfProtection(handleDeleteFont),
+    },
+
+    "/api/fonts/:id/file": {
+      GET: handleGetFontFile,
+    },
+
+    "/api/label-formats": {
+      GET: handleListLabelFormats,
+      POST: withCsrfProtection(handleCreateLabelFormat),
+    },
+
+    "/api/label-formats/:id": {
+      PUT: withCsrfProtection(handleUpdateLabelFormat),
+      DELETE: withCsrfProtection(handleDeleteLabelFormat),
+    },
+
     "/api/print/jobs": {
       GET: handleListPrintJobs,
       POST: rateLimitedCreatePrintJob,
@@ -240,10 +360,68 @@ const server = serve({
       GET: withRateLimit(PRINT_RENDER_RATE_LIMIT, handleRenderPrintJob),
     },
 
+    "/api/print/jobs/:id/output": {
+      GET: withRateLimit(PRINT_RENDER_RATE_LIMIT, handleRenderPrintJob),
+    },
+
+    "/api/print/jobs/:id/download": {
+      GET: handleGetPrintJobDownload,
+    },
+
+    "/api/print/jobs/:id/cloud": {
+      POST: withRateLimit(PRINT_RENDER_RATE_LIMIT, withCsrfProtection(handleSubmitCloudPrintJob)),
+    },
+
     "/api/print/preview": {
       POST: rateLimitedPreview,
     },
 
+    "/api/print/preflight": {
+      POST: rateLimitedPreflight,
+    },
+
+    "/api/print/agents": {
+      GET: handleListPrintAgents,
+    },
+
+    "/api/print/agents/ws": {
+      GET: handlePrintAgentSocket,
+    },
+
+    "/api/print/printers/:id/calibration": {
+      PUT: withCsrfProtection(handleUpdatePrinterCalibration),
+    },
+
+    "/api/print/printers/:id/calibration-page": {
+      GET: withRateLimit(PRINT_RENDER_RATE_LIMIT, handleGetCalibrationPage),
+    },
+
+    "/api/print/routes": {
+      GET: handleListPrintRoutes,
+      POST: withCsrfProtection(handleCreatePrintRoute),
+    },
+
+    "/api/print/routes/test": {
+      POST: withCsrfProtection(handleTestPrintRoutes),
+    },
+
+    "/api/print/routes/:id": {
+      GET: handleGetPrintRoute,
+      PUT: withCsrfProtection(handleUpdatePrintRoute),
+      DELETE: withCsrfProtection(handleDeletePrintRoute),
+    },
+
+    "/api/print/cloud-providers": {
+      GET: handleListCloudPrintProviders,
+      POST: withCsrfProtection(handleCreateCloudPrintProvider),
+    },
+
+    "/api/print/cloud-providers/:id": {
+      GET: handleGetCloudPrintProvider,
+      PUT: withCsrfProtection(handleUpdateCloudPrintProvider),
+      DELETE: withCsrfProtection(handleDeleteCloudPrintProvider),
+    },
+
     "/api/integrations/api-keys": {
       GET: handleListApiKeys,
       POST: withCsrfProtection(handleCreateApiKey),
@@ -291,6 +469,10 @@ const server = serve({
       GET: handleGetImportJobErrors,
     },
 
+    "/api/imports/:id/progress": {
+      GET: handleImportJobProgress,
+    },
+
     "/api/import-templates": {
       GET: handleListImportTemplates,
       POST: withCsrfProtection(handleCreateImportTemplate),
@@ -304,6 +486,23 @@ const server = serve({
       GET: rateLimitedExport,
     },
 
+    "/api/exports/jobs": {
+      GET: handleListExportJobs,
+      POST: withRateLimit(EXPORT_RATE_LIMIT, withCsrfProtection(handleCreateExportJob)),
+    },
+
+    "/api/exports/jobs/:id": {
+      GET: handleGetExportJob,
+    },
+
+    "/api/exports/jobs/:id/download": {
+      GET: handleGetExportJobDownload,
+    },
+
+    "/api/storage/download": {
+      GET: handleStorageDownload,
+    },
+
     "/api/v1/assets": {
       GET: handlePublicListAssets,
       POST: handlePublicCreateAsset,
@@ -332,8 +531,14 @@ const server = serve({
     "/api/v1/print/jobs/:id/pdf": {
       GET: handlePublicRenderPrintJob,
     },
+
+    "/api/v1/print/jobs/:id/output": {
+      GET: handlePublicRenderPrintJob,
+    },
   },
 
+  websocket: printAgentWebSocket,
+
   async fetch(req, server) {
     const requestId = req.headers.get("x-request-id") ?? generateRequestId();
     const response = await server.fetch(req);
@@ -359,3 +564,15 @@ const server = serve({
 });
 
 console.log(`🚀 Server running at ${server.url}`);
+
+if (process.env.RUN_JOB_WORKER === "true") {
+  registerDefaultJobHandlers();
+  const worker = startJobWorker({ instanceId: `server:${process.pid}` });
+  const webhookScheduler = startWebhookScheduler();
+
+  process.on("SIGTERM", async () => {
+    webhookScheduler.stop();
+    await worker.stop();
+    process.exit(0);
+  });
+}
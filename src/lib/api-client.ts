@@ -19,7 +19,8 @@ export async function apiFetch(
     headers.set(CSRF_HEADER, CSRF_HEADER_VALUE);
   }
   
-  if (rest.body && !headers.has("Content-Type")) {
+  // FormData bodies need the browser-generated multipart boundary
+  if (rest.body && !(rest.body instanceof FormData) && !headers.has("Content-Type")) {
     headers.set("Content-Type", "application/json");
   }
 
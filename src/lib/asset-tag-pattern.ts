@@ -0,0 +1,192 @@
+import { formatDateValue } from "@/lib/date-format";
+
+/**
+ * Asset tag patterns, e.g. `NET-{YYYY}-{seq:5}` or `{site}-{category:upper}-{seq}`.
+ *
+ * Text outside braces is copied as is. Tokens:
+ *   {YYYY} {YY} {MM} {DD}   creation date in the tenant timezone
+ *   {seq} {seq:5}           next sequence number, optionally zero-padded
+ *   {field} {field:upper}   an asset field; `upper`, `lower` or a length
+ *                           modifier (`{location:3}` keeps 3 characters)
+ *
+ * Fields are the core asset columns or `customFields.name`; other bare
+ * names such as `{site}` read the custom field of that name. Every pattern
+ * has exactly one sequence token.
+ */
+
+export const MAX_TAG_PATTERN_LENGTH = 100;
+export const MAX_ASSET_TAG_LENGTH = 100;
+const MAX_SEQUENCE_WIDTH = 12;
+const TOKEN = /\{([^{}]*)\}/g;
+const DATE_TOKENS = new Set(["YYYY", "YY", "MM", "DD"]);
+const FIELD_NAME = /^(customFields\.)?[A-Za-z_][A-Za-z0-9_]*$/;
+const BLOCKED_NAMES = new Set(["__proto__", "prototype", "constructor"]);
+
+export const TAG_PATTERN_FIELDS = [
+  "category",
+  "type",
+  "manufacturer",
+  "model",
+  "serialNumber",
+  "location",
+  "department",
+  "assignedTo",
+  "status",
+] as const;
+
+type TagPatternField = (typeof TAG_PATTERN_FIELDS)[number];
+
+/** Asset values a pattern can read */
+export type TagPatternValues = Partial<Record<TagPatternField, string | null>> & {
+  customFields?: Record<string, unknown>;
+};
+
+type TagPatternToken =
+  | { type: "text"; value: string }
+  | { type: "date"; format: string }
+  | { type: "sequence"; width: number }
+  | { type: "field"; name: string; modifier: string | null };
+
+/**
+ * A pattern rendered for one asset. Assets whose tags share a scope share
+ * a counter, so `NET-{YYYY}-{seq}` restarts every year and
+ * `{site}-{seq}` counts per site.
+ */
+export interface RenderedTagPattern {
+  scope: string; // the tag with the sequence left as "{seq}"
+  format(sequence: number): string;
+}
+
+function parseTagPattern(pattern: string): TagPatternToken[] {
+  if (pattern.length === 0 || pattern.length > MAX_TAG_PATTERN_LENGTH) {
+    throw new Error(`Invalid tag pattern: must be 1-${MAX_TAG_PATTERN_LENGTH} characters`);
+  }
+
+  const tokens: TagPatternToken[] = [];
+  let last = 0;
+
+  for (const match of pattern.matchAll(TOKEN)) {
+    if (match.index > last) {
+      tokens.push({ type: "text", value: pattern.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+
+    const [name = "", modifier = null, ...rest] = match[1]!.split(":");
+    if (rest.length > 0) {
+      throw new Error(`Invalid tag pattern: {${match[1]}} has more than one modifier`);
+    }
+
+    if (DATE_TOKENS.has(name)) {
+      if (modifier !== null) {
+        throw new Error(`Invalid tag pattern: {${name}} takes no modifier`);
+      }
+      tokens.push({ type: "date", format: name });
+    } else if (name === "seq") {
+      const width = modifier === null ? 1 : Number(modifier);
+      if (!Number.isInteger(width) || width < 1 || width > MAX_SEQUENCE_WIDTH) {
+        throw new Error(`Invalid tag pattern: sequence width must be 1-${MAX_SEQUENCE_WIDTH}`);
+      }
+      tokens.push({ type: "sequence", width });
+    } else {
+      if (!FIELD_NAME.test(name) || name.split(".").some((part) => BLOCKED_NAMES.has(part))) {
+        throw new Error(`Invalid tag pattern: unknown token {${match[1]}}`);
+      }
+      if (modifier !== null && modifier !== "upper" && modifier !== "lower" && !/^[1-9]\d?$/.test(modifier)) {
+        throw new Error(`Invalid tag pattern: unknown modifier "${modifier}" on {${name}}`);
+      }
+      tokens.push({ type: "field", name, modifier });
+    }
+  }
+
+  const trailing = pattern.slice(last);
+  if (/[{}]/.test(trailing) || tokens.some((token) => token.type === "text" && /[{}]/.test(token.value))) {
+    throw new Error("Invalid tag pattern: unbalanced braces");
+  }
+  if (trailing) {
+    tokens.push({ type: "text", value: trailing });
+  }
+
+  const sequences = tokens.filter((token) => token.type === "sequence").length;
+  if (sequences !== 1) {
+    throw new Error("Invalid tag pattern: use {seq} exactly once");
+  }
+
+  return tokens;
+}
+
+export function getTagPatternError(pattern: string): string | null {
+  try {
+    parseTagPattern(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid tag pattern";
+  }
+}
+
+function readField(values: TagPatternValues, name: string): string {
+  const raw = name.startsWith("customFields.")
+    ? values.customFields?.[name.slice("customFields.".length)]
+    : (TAG_PATTERN_FIELDS as readonly string[]).includes(name)
+      ? values[name as TagPatternField]
+      : values.customFields?.[name];
+
+  return raw === null || raw === undefined ? "" : String(raw).trim();
+}
+
+/**
+ * Renders everything but the sequence number. Field values have spaces
+ * collapsed to "-" and braces removed so they cannot alter the scope.
+ * Throws when a field the pattern uses is empty.
+ */
+export function renderTagPattern(
+  pattern: string,
+  values: TagPatternValues,
+  options: { now: Date; timezone: string }
+): RenderedTagPattern {
+  let prefix = "";
+  let suffix = "";
+  let width = 1;
+  let seen = false;
+
+  for (const token of parseTagPattern(pattern)) {
+    let text: string;
+
+    switch (token.type) {
+      case "text":
+        text = token.value;
+        break;
+      case "date":
+        text = formatDateValue(options.now, token.format, options.timezone) ?? "";
+        break;
+      case "sequence":
+        width = token.width;
+        seen = true;
+        continue;
+      case "field": {
+        const value = readField(values, token.name).replace(/\s+/g, "-").replace(/[{}]/g, "");
+        if (!value) {
+          throw new Error(`Asset tag pattern needs a value for ${token.name}`);
+        }
+        text = token.modifier === "upper"
+          ? value.toUpperCase()
+          : token.modifier === "lower"
+            ? value.toLowerCase()
+            : token.modifier
+              ? value.slice(0, Number(token.modifier))
+              : value;
+        break;
+      }
+    }
+
+    if (seen) {
+      suffix += text;
+    } else {
+      prefix += text;
+    }
+  }
+
+  return {
+    scope: `${prefix}{seq}${suffix}`,
+    format: (sequence) => `${prefix}${String(sequence).padStart(width, "0")}${suffix}`,
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Regular expressions for `matches` conditions. They run against asset data
+ * on every render, so instead of handing them to the backtracking RegExp
+ * engine they are compiled to a Thompson NFA and matched by stepping all
+ * states at once: a test takes time linear in the input for any pattern.
+ *
+ * The syntax is the RegExp subset of literals, escapes, character classes,
+ * `.`, anchors, word boundaries, alternation and (...) or (?:...) groups,
+ * with quantifiers only on a single character or class. Single characters
+ * and classes are still tested with RegExp, one character at a time, so a
+ * pattern matches exactly what `new RegExp(source).test(text)` would.
+ */
+
+export const MAX_PATTERN_STATES = 250;
+
+const QUANTIFIER = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/;
+const ESCAPE = /^\\(?:x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|c[A-Za-z]|0[0-7]{0,2}|[^])/;
+const WORD_CHAR = /\w/;
+const LINE_TERMINATORS = new Set([0x0a, 0x0d, 0x2028, 0x2029]);
+
+const REPEAT_ERROR = "Patterns may only repeat a single character or class, e.g. \\d+ but not (ab)+";
+
+type CharTest = (code: number) => boolean;
+type AssertTest = (text: string, index: number) => boolean;
+
+type PatternNode =
+  | { type: "char"; test: CharTest }
+  | { type: "assert"; test: AssertTest }
+  | { type: "sequence"; items: PatternNode[] }
+  | { type: "alternation"; branches: PatternNode[] }
+  | { type: "repeat"; node: PatternNode; min: number; max: number };
+
+type PatternState =
+  | { type: "char"; test: CharTest; next: number }
+  | { type: "assert"; test: AssertTest; next: number }
+  | { type: "split"; next: number[] }
+  | { type: "match" };
+
+export interface ConditionPattern {
+  test(text: string): boolean;
+}
+
+class PatternParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): PatternNode {
+    const node = this.parseAlternation();
+    if (this.index < this.source.length) {
+      throw this.invalid(); // an unmatched ")"
+    }
+    return node;
+  }
+
+  private invalid(): Error {
+    return new Error(`Invalid pattern: ${this.source}`);
+  }
+
+  private parseAlternation(): PatternNode {
+    const branches = [this.parseSequence()];
+    while (this.source[this.index] === "|") {
+      this.index++;
+      branches.push(this.parseSequence());
+    }
+    return branches.length === 1 ? branches[0]! : { type: "alternation", branches };
+  }
+
+  private parseSequence(): PatternNode {
+    const items: PatternNode[] = [];
+    while (this.index < this.source.length && this.source[this.index] !== "|" && this.source[this.index] !== ")") {
+      items.push(this.parseTerm());
+    }
+    return { type: "sequence", items };
+  }
+
+  private parseTerm(): PatternNode {
+    if (QUANTIFIER.test(this.source.slice(this.index))) {
+      throw new Error(REPEAT_ERROR);
+    }
+
+    const node = this.parseAtom();
+    const quantifier = QUANTIFIER.exec(this.source.slice(this.index));
+    if (!quantifier) {
+      return node;
+    }
+    if (node.type !== "char") {
+      throw new Error(REPEAT_ERROR);
+    }
+    this.index += quantifier[0].length;
+
+    const [, symbol, min, comma, max] = quantifier;
+    if (symbol) {
+      return { type: "repeat", node, min: symbol === "+" ? 1 : 0, max: symbol === "?" ? 1 : Infinity };
+    }
+
+    const lower = Number(min);
+    const upper = !comma ? lower : max ? Number(max) : Infinity;
+    if (upper < lower) {
+      throw this.invalid();
+    }
+    return { type: "repeat", node, min: lower, max: upper };
+  }
+
+  private parseAtom(): PatternNode {
+    const source = this.source;
+    const char = source[this.index]!;
+
+    switch (char) {
+      case "(": {
+        if (source[this.index + 1] === "?" && source[this.index + 2] !== ":") {
+          throw new Error("Patterns may only use plain (...) or (?:...) groups");
+        }
+        this.index += source[this.index + 1] === "?" ? 3 : 1;
+        const node = this.parseAlternation();
+        if (source[this.index] !== ")") {
+          throw this.invalid();
+        }
+        this.index++;
+        return node;
+      }
+      case "[": {
+        let end = this.index + 1;
+        while (end < source.length && source[end] !== "]") {
+          end += source[end] === "\\" ? 2 : 1;
+        }
+        if (end >= source.length) {
+          throw this.invalid();
+        }
+        const token = source.slice(this.index, end + 1);
+        this.index = end + 1;
+        return { type: "char", test: this.singleCharTest(token) };
+      }
+      case "\\":
+        return this.parseEscape();
+      case ".":
+        this.index++;
+        return { type: "char", test: (code) => !LINE_TERMINATORS.has(code) };
+      case "^":
+        this.index++;
+        return { type: "assert", test: (_text, index) => index === 0 };
+      case "$":
+        this.index++;
+        return { type: "assert", test: (text, index) => index === text.length };
+      default: {
+        this.index++;
+        const code = char.charCodeAt(0);
+        return { type: "char", test: (other) => other === code };
+      }
+    }
+  }
+
+  private parseEscape(): PatternNode {
+    const escaped = this.source[this.index + 1];
+    if (escaped === undefined || (escaped === "c" && !/[A-Za-z]/.test(this.source[this.index + 2] ?? ""))) {
+      throw this.invalid();
+    }
+    if (/[1-9k]/.test(escaped)) {
+      throw new Error("Patterns may not use backreferences");
+    }
+
+    if (escaped === "b" || escaped === "B") {
+      this.index += 2;
+      const boundary = escaped === "b";
+      return {
+        type: "assert",
+        test: (text, index) => (isWordChar(text, index - 1) !== isWordChar(text, index)) === boundary,
+      };
+    }
+
+    const token = ESCAPE.exec(this.source.slice(this.index))![0];
+    this.index += token.length;
+    return { type: "char", test: this.singleCharTest(token) };
+  }
+
+  private singleCharTest(token: string): CharTest {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(`^${token}$`);
+    } catch {
+      throw this.invalid();
+    }
+    return (code) => pattern.test(String.fromCharCode(code));
+  }
+}
+
+function isWordChar(text: string, index: number): boolean {
+  return index >= 0 && index < text.length && WORD_CHAR.test(text[index]!);
+}
+
+class PatternCompiler {
+  readonly states: PatternState[] = [{ type: "match" }];
+
+  private add(state: PatternState): number {
+    if (this.states.length >= MAX_PATTERN_STATES) {
+      throw new Error(`Patterns may hold at most ${MAX_PATTERN_STATES} characters once repeats are counted`);
+    }
+    return this.states.push(state) - 1;
+  }
+
+  /** Adds the states for node ahead of `next` and returns the first */
+  compile(node: PatternNode, next: number): number {
+    switch (node.type) {
+      case "char":
+      case "assert":
+        return this.add({ type: node.type, test: node.test, next } as PatternState);
+      case "sequence":
+        return node.items.reduceRight((following, item) => this.compile(item, following), next);
+      case "alternation":
+        return this.add({ type: "split", next: node.branches.map((branch) => this.compile(branch, next)) });
+      case "repeat": {
+        let start = next;
+        if (node.max === Infinity) {
+          const loop: PatternState = { type: "split", next: [] };
+          start = this.add(loop);
+          loop.next = [this.compile(node.node, start), next];
+        } else {
+          for (let i = node.min; i < node.max; i++) {
+            start = this.add({ type: "split", next: [this.compile(node.node, start), start] });
+          }
+        }
+        for (let i = 0; i < node.min; i++) {
+          start = this.compile(node.node, start);
+        }
+        return start;
+      }
+    }
+  }
+}
+
+/**
+ * Compiles a pattern, throwing with a message for the user when it is
+ * outside the supported subset or not a valid regular expression.
+ */
+export function compileConditionPattern(source: string): ConditionPattern {
+  const compiler = new PatternCompiler();
+  const start = compiler.compile(new PatternParser(source).parse(), 0);
+  const states = compiler.states;
+
+  return {
+    test(text) {
+      const visited = new Int32Array(states.length).fill(-1);
+      let targets: number[] = [];
+
+      for (let index = 0; ; index++) {
+        // Starting a thread at every position makes the search unanchored
+        const pending = [...targets, start];
+        const active: number[] = [];
+
+        while (pending.length > 0) {
+          const id = pending.pop()!;
+          if (visited[id] === index) continue;
+          visited[id] = index;
+
+          const state = states[id]!;
+          if (state.type === "match") return true;
+          if (state.type === "char") active.push(id);
+          else if (state.type === "split") pending.push(...state.next);
+          else if (state.test(text, index)) pending.push(state.next);
+        }
+
+        if (index === text.length) return false;
+
+        const code = text.charCodeAt(index);
+        targets = [];
+        for (const id of active) {
+          const state = states[id] as Extract<PatternState, { type: "char" }>;
+          if (state.test(code)) targets.push(state.next);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import { DEFAULT_TENANT_SETTINGS } from "@/types/tenant";
+import type { DateFormatSettings } from "@/types/tenant";
+
+export const DEFAULT_DATE_SETTINGS: DateFormatSettings = {
+  timezone: DEFAULT_TENANT_SETTINGS.timezone,
+  dateFormat: DEFAULT_TENANT_SETTINGS.dateFormat,
+};
+
+/** Tokens: YYYY YY MMMM MMM MM M DD D HH H hh h mm ss A; [text] is literal */
+const DATE_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A/g;
+const CALENDAR_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats a Date, ISO timestamp or YYYY-MM-DD string; returns null for
+ * anything that is not a date so callers can print the raw value instead.
+ *
+ * Asset date columns (purchase date, warranty expiry) are calendar dates
+ * that arrive as UTC midnight. Those are not shifted into the tenant
+ * timezone, otherwise they would print as the previous day west of UTC.
+ */
+export function formatDateValue(value: unknown, pattern: string, timezone: string): string | null {
+  const parts = getDateParts(value, timezone);
+  if (!parts) return null;
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const hour12 = parts.hour % 12 || 12;
+
+  return pattern.replace(DATE_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+
+    switch (token) {
+      case "YYYY": return String(parts.year);
+      case "YY": return pad(parts.year % 100);
+      case "MMMM": return MONTHS[parts.month - 1]!;
+      case "MMM": return MONTHS[parts.month - 1]!.slice(0, 3);
+      case "MM": return pad(parts.month);
+      case "M": return String(parts.month);
+      case "DD": return pad(parts.day);
+      case "D": return String(parts.day);
+      case "HH": return pad(parts.hour);
+      case "H": return String(parts.hour);
+      case "hh": return pad(hour12);
+      case "h": return String(hour12);
+      case "mm": return pad(parts.minute);
+      case "ss": return pad(parts.second);
+      default: return parts.hour < 12 ? "AM" : "PM";
+    }
+  });
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a date value in the tenant timezone, so
+ * dates compare as plain strings
+ */
+export function toCalendarDate(value: unknown, timezone: string): string | null {
+  const parts = getDateParts(value, timezone);
+  if (!parts) return null;
+
+  return `${parts.year}-${String(parts.month).padStart(2, "0")}-${String(parts.day).padStart(2, "0")}`;
+}
+
+function getDateParts(value: unknown, timezone: string): DateParts | null {
+  if (typeof value === "string") {
+    const calendar = CALENDAR_DATE.exec(value);
+    if (calendar) {
+      return {
+        year: Number(calendar[1]),
+        month: Number(calendar[2]),
+        day: Number(calendar[3]),
+        hour: 0,
+        minute: 0,
+        second: 0,
+      };
+    }
+    return ISO_TIMESTAMP.test(value) ? getDateParts(new Date(value), timezone) : null;
+  }
+
+  if (!(value instanceof Date) || isNaN(value.getTime())) {
+    return null;
+  }
+
+  if (value.getTime() % 86_400_000 === 0) {
+    return getDateParts(value.toISOString().slice(0, 10), timezone);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(value)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour!,
+    minute: parts.minute!,
+    second: parts.second!,
+  };
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: isValidTimezone(timezone) ? timezone : DEFAULT_DATE_SETTINGS.timezone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
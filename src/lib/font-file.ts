@@ -0,0 +1,312 @@
+import type { FontStyle, FontWeight } from "@/types/font";
+
+/**
+ * Minimal sfnt reader for uploaded fonts. It reads just enough (names,
+ * cmap, advance widths) to validate uploads and to lay text out with the
+ * same metrics on the server and in the browser preview.
+ */
+
+const SFNT_TRUETYPE = 0x00010000;
+const SFNT_APPLE_TRUETYPE = 0x74727565; // "true"
+const SFNT_CFF = 0x4f54544f; // "OTTO"
+const SFNT_COLLECTION = 0x74746366; // "ttcf"
+const SFNT_WOFF = 0x774f4646; // "wOFF"
+const SFNT_WOFF2 = 0x774f4632; // "wOF2"
+
+const REQUIRED_TABLES = ["cmap", "head", "hhea", "hmtx", "maxp", "name", "glyf", "loca"] as const;
+
+const NAME_FAMILY = 1;
+const NAME_SUBFAMILY = 2;
+const NAME_TYPOGRAPHIC_FAMILY = 16;
+const NAME_TYPOGRAPHIC_SUBFAMILY = 17;
+
+const FS_SELECTION_ITALIC = 1 << 0;
+const FS_SELECTION_BOLD = 1 << 5;
+const BOLD_WEIGHT_CLASS = 600;
+
+export class FontFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FontFileError";
+  }
+}
+
+export interface FontFileInfo {
+  family: string;
+  subfamily: string;
+  weight: FontWeight;
+  style: FontStyle;
+  unitsPerEm: number;
+  glyphCount: number;
+  /** Glyph index for a code point; 0 (.notdef) when the font lacks it */
+  glyphIndex(codePoint: number): number;
+  /** Advance width in font units */
+  advanceWidth(glyph: number): number;
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+type CmapLookup = (codePoint: number) => number;
+
+export function parseFontFile(data: Uint8Array): FontFileInfo {
+  if (data.length < 12) {
+    throw new FontFileError("File is not a font");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  assertTrueTypeOutlines(view);
+
+  const tables = readTableDirectory(view);
+
+  for (const tag of REQUIRED_TABLES) {
+    if (!tables.has(tag)) {
+      throw new FontFileError(`Font is missing the "${tag}" table`);
+    }
+  }
+
+  const head = tables.get("head")!;
+  const hhea = tables.get("hhea")!;
+  const hmtx = tables.get("hmtx")!;
+  const maxp = tables.get("maxp")!;
+
+  const unitsPerEm = view.getUint16(head.offset + 18);
+  const glyphCount = view.getUint16(maxp.offset + 4);
+  const metricCount = view.getUint16(hhea.offset + 34);
+  if (unitsPerEm === 0 || metricCount === 0 || hmtx.offset + metricCount * 4 > view.byteLength) {
+    throw new FontFileError("Font metrics are invalid");
+  }
+
+  const names = readNames(view, tables.get("name")!);
+  const family = names.get(NAME_TYPOGRAPHIC_FAMILY) ?? names.get(NAME_FAMILY);
+  if (!family) {
+    throw new FontFileError("Font has no family name");
+  }
+  const subfamily = names.get(NAME_TYPOGRAPHIC_SUBFAMILY) ?? names.get(NAME_SUBFAMILY) ?? "Regular";
+
+  const os2 = tables.get("OS/2");
+  const weightClass = os2 ? view.getUint16(os2.offset + 4) : 400;
+  const fsSelection = os2 && os2.length >= 64 ? view.getUint16(os2.offset + 62) : 0;
+  const subfamilyLower = subfamily.toLowerCase();
+
+  const lookup = readCmap(view, tables.get("cmap")!);
+  const lastAdvance = view.getUint16(hmtx.offset + (metricCount - 1) * 4);
+
+  return {
+    family,
+    subfamily,
+    weight: weightClass >= BOLD_WEIGHT_CLASS || fsSelection & FS_SELECTION_BOLD || subfamilyLower.includes("bold")
+      ? "bold"
+      : "normal",
+    style: fsSelection & FS_SELECTION_ITALIC || /italic|oblique/.test(subfamilyLower) ? "italic" : "normal",
+    unitsPerEm,
+    glyphCount,
+    glyphIndex: (codePoint) => {
+      const glyph = lookup(codePoint);
+      return glyph < glyphCount ? glyph : 0;
+    },
+    advanceWidth: (glyph) =>
+      glyph < metricCount ? view.getUint16(hmtx.offset + glyph * 4) : lastAdvance,
+  };
+}
+
+/**
+ * Picks the face of a family closest to the requested weight and style.
+ * A missing bold or italic face falls back to the regular one rather than
+ * being synthesized, so every renderer draws the same glyphs.
+ */
+export function selectFontFace<T extends { family: string; weight: FontWeight; style: FontStyle }>(
+  faces: readonly T[],
+  family: string,
+  weight: FontWeight,
+  style: FontStyle
+): T | null {
+  const candidates = faces.filter((face) => face.family === family);
+  if (candidates.length === 0) return null;
+
+  const score = (face: T) => (face.style === style ? 2 : 0) + (face.weight === weight ? 1 : 0);
+  return candidates.reduce((best, face) => (score(face) > score(best) ? face : best));
+}
+
+function assertTrueTypeOutlines(view: DataView): void {
+  switch (view.getUint32(0)) {
+    case SFNT_TRUETYPE:
+    case SFNT_APPLE_TRUETYPE:
+      return;
+    case SFNT_CFF:
+      throw new FontFileError(
+        "OpenType fonts with PostScript (CFF) outlines cannot be embedded; upload a TrueType-flavored TTF or OTF"
+      );
+    case SFNT_COLLECTION:
+      throw new FontFileError("Font collections (.ttc) are not supported; upload a single face");
+    case SFNT_WOFF:
+    case SFNT_WOFF2:
+      throw new FontFileError("WOFF web fonts are not supported; upload the TTF or OTF file");
+    default:
+      throw new FontFileError("File is not a TrueType or OpenType font");
+  }
+}
+
+function readTableDirectory(view: DataView): Map<string, TableRecord> {
+  const tables = new Map<string, TableRecord>();
+  const count = view.getUint16(4);
+
+  if (12 + count * 16 > view.byteLength) {
+    throw new FontFileError("Font table directory is truncated");
+  }
+
+  for (let i = 0; i < count; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record),
+      view.getUint8(record + 1),
+      view.getUint8(record + 2),
+      view.getUint8(record + 3)
+    );
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+
+    if (offset + length > view.byteLength) {
+      throw new FontFileError(`Font table "${tag}" is truncated`);
+    }
+    tables.set(tag, { offset, length });
+  }
+
+  return tables;
+}
+
+function readNames(view: DataView, table: TableRecord): Map<number, string> {
+  const names = new Map<number, string>();
+  const count = view.getUint16(table.offset + 2);
+  const storage = table.offset + view.getUint16(table.offset + 4);
+
+  // Windows (UTF-16BE, English preferred) names win over Mac Roman ones
+  const ranked: { nameId: number; rank: number; value: string }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 6 + i * 12;
+    const platformId = view.getUint16(record);
+    const languageId = view.getUint16(record + 4);
+    const nameId = view.getUint16(record + 6);
+    const length = view.getUint16(record + 8);
+    const start = storage + view.getUint16(record + 10);
+
+    if (start + length > view.byteLength) continue;
+
+    if (platformId === 3) {
+      let value = "";
+      for (let j = 0; j + 1 < length; j += 2) {
+        value += String.fromCharCode(view.getUint16(start + j));
+      }
+      ranked.push({ nameId, rank: languageId === 0x0409 ? 3 : 2, value });
+    } else if (platformId === 1 && languageId === 0) {
+      let value = "";
+      for (let j = 0; j < length; j++) {
+        value += String.fromCharCode(view.getUint8(start + j));
+      }
+      ranked.push({ nameId, rank: 1, value });
+    }
+  }
+
+  const ranks = new Map<number, number>();
+  for (const { nameId, rank, value } of ranked) {
+    const trimmed = value.trim();
+    if (trimmed && rank > (ranks.get(nameId) ?? 0)) {
+      names.set(nameId, trimmed);
+      ranks.set(nameId, rank);
+    }
+  }
+
+  return names;
+}
+
+function readCmap(view: DataView, table: TableRecord): CmapLookup {
+  const count = view.getUint16(table.offset + 2);
+  const subtables = new Map<string, number>();
+
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 4 + i * 8;
+    const key = `${view.getUint16(record)}/${view.getUint16(record + 2)}`;
+    subtables.set(key, table.offset + view.getUint32(record + 4));
+  }
+
+  // Full-repertoire tables first so CJK supplementary planes resolve
+  for (const key of ["3/10", "0/6", "0/4", "3/1", "0/3", "0/1", "0/0"]) {
+    const offset = subtables.get(key);
+    if (offset === undefined) continue;
+
+    switch (view.getUint16(offset)) {
+      case 12:
+        return readCmapFormat12(view, offset);
+      case 4:
+        return readCmapFormat4(view, offset);
+    }
+  }
+
+  throw new FontFileError("Font has no Unicode character map");
+}
+
+function readCmapFormat4(view: DataView, offset: number): CmapLookup {
+  const segments = view.getUint16(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segments * 2 + 2;
+  const deltas = startCodes + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+
+  return (codePoint) => {
+    if (codePoint > 0xffff) return 0;
+
+    let low = 0;
+    let high = segments - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const end = view.getUint16(endCodes + mid * 2);
+      const start = view.getUint16(startCodes + mid * 2);
+
+      if (codePoint > end) {
+        low = mid + 1;
+      } else if (codePoint < start) {
+        high = mid - 1;
+      } else {
+        const delta = view.getInt16(deltas + mid * 2);
+        const rangeOffset = view.getUint16(rangeOffsets + mid * 2);
+        if (rangeOffset === 0) {
+          return (codePoint + delta) & 0xffff;
+        }
+
+        const address = rangeOffsets + mid * 2 + rangeOffset + (codePoint - start) * 2;
+        if (address + 2 > view.byteLength) return 0;
+        const glyph = view.getUint16(address);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+    }
+    return 0;
+  };
+}
+
+function readCmapFormat12(view: DataView, offset: number): CmapLookup {
+  const groups = view.getUint32(offset + 12);
+  const first = offset + 16;
+
+  return (codePoint) => {
+    let low = 0;
+    let high = groups - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const group = first + mid * 12;
+      const start = view.getUint32(group);
+      const end = view.getUint32(group + 4);
+
+      if (codePoint > end) {
+        low = mid + 1;
+      } else if (codePoint < start) {
+        high = mid - 1;
+      } else {
+        return view.getUint32(group + 8) + (codePoint - start);
+      }
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,175 @@
+import type { GS1ApplicationIdentifier, GS1Binding } from "@/types/label-spec";
+
+interface GS1ApplicationIdentifierDefinition {
+  title: string;
+  length?: number; // predefined length; variable-length AIs need an FNC1 separator
+  maxLength: number;
+}
+
+export const GS1_APPLICATION_IDENTIFIERS: Record<GS1ApplicationIdentifier, GS1ApplicationIdentifierDefinition> = {
+  "01": { title: "GTIN", length: 14, maxLength: 14 },
+  "17": { title: "Expiration date", length: 6, maxLength: 6 },
+  "10": { title: "Batch/lot number", maxLength: 20 },
+  "21": { title: "Serial number", maxLength: 20 },
+};
+
+/** Code point JsBarcode reads as FNC1 inside CODE128 data */
+export const CODE128_FNC1 = String.fromCharCode(207);
+
+/**
+ * GS1 AI encodable character set 82, minus the parentheses that delimit AIs
+ * in human-readable and printer-side element strings
+ */
+const GS1_CHARSET = /^[!"%&'*+,\-./0-9:;<=>?A-Z_a-z]+$/;
+const GTIN_LENGTHS = new Set([8, 12, 13, 14]);
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})/;
+
+export interface GS1Element {
+  ai: GS1ApplicationIdentifier;
+  value: string;
+}
+
+/**
+ * Validated element string, ordered predefined-length AIs first so that only
+ * variable-length elements before the last one need an FNC1 separator
+ */
+export interface GS1Encoding {
+  elements: GS1Element[];
+  text: string; // "(01)09506000134352(21)ABC123"
+}
+
+/**
+ * Resolves each AI binding to a string; empty sources are dropped
+ */
+export function resolveGS1Elements(
+  binding: GS1Binding,
+  lookup: (source: string) => unknown
+): GS1Element[] {
+  const elements: GS1Element[] = [];
+
+  for (const entry of binding.elements) {
+    const raw = lookup(entry.source);
+    const value = raw instanceof Date
+      ? formatGS1Date(raw)
+      : raw === null || raw === undefined || raw === ""
+      ? entry.fallback ?? ""
+      : String(raw);
+
+    if (value) {
+      elements.push({ ai: entry.ai, value });
+    }
+  }
+
+  return elements;
+}
+
+export function encodeGS1(elements: GS1Element[]): GS1Encoding {
+  if (elements.length === 0) {
+    throw new Error("GS1 element string is empty");
+  }
+
+  const seen = new Set<GS1ApplicationIdentifier>();
+  const normalized = elements.map((element) => {
+    if (seen.has(element.ai)) {
+      throw new Error(`GS1 AI (${element.ai}) appears more than once`);
+    }
+    seen.add(element.ai);
+    return { ai: element.ai, value: normalizeGS1Value(element.ai, element.value) };
+  });
+
+  const ordered = [
+    ...normalized.filter((element) => GS1_APPLICATION_IDENTIFIERS[element.ai].length !== undefined),
+    ...normalized.filter((element) => GS1_APPLICATION_IDENTIFIERS[element.ai].length === undefined),
+  ];
+
+  return {
+    elements: ordered,
+    text: ordered.map((element) => `(${element.ai})${element.value}`).join(""),
+  };
+}
+
+/**
+ * Concatenated AIs and values with the symbology's FNC1 representation
+ * between a variable-length element and the next one
+ */
+export function gs1ElementData(encoding: GS1Encoding, separator: string): string {
+  return encoding.elements
+    .map((element, index) => {
+      const variable = GS1_APPLICATION_IDENTIFIERS[element.ai].length === undefined;
+      const last = index === encoding.elements.length - 1;
+      return `${element.ai}${element.value}${variable && !last ? separator : ""}`;
+    })
+    .join("");
+}
+
+function normalizeGS1Value(ai: GS1ApplicationIdentifier, raw: string): string {
+  const value = raw.trim();
+
+  switch (ai) {
+    case "01":
+      return normalizeGTIN(value);
+    case "17":
+      return normalizeGS1Date(value);
+    default: {
+      const { title, maxLength } = GS1_APPLICATION_IDENTIFIERS[ai];
+      if (value.length > maxLength) {
+        throw new Error(`GS1 ${title} (${ai}) exceeds ${maxLength} characters`);
+      }
+      if (!GS1_CHARSET.test(value)) {
+        throw new Error(`GS1 ${title} (${ai}) contains characters outside the GS1 character set`);
+      }
+      return value;
+    }
+  }
+}
+
+function normalizeGTIN(value: string): string {
+  if (!/^\d+$/.test(value) || !GTIN_LENGTHS.has(value.length)) {
+    throw new Error("GTIN (01) must be 8, 12, 13 or 14 digits");
+  }
+
+  const gtin = value.padStart(14, "0");
+  if (gtinCheckDigit(gtin.slice(0, 13)) !== Number(gtin[13])) {
+    throw new Error(`GTIN (01) ${value} has an invalid check digit`);
+  }
+
+  return gtin;
+}
+
+/**
+ * GS1 mod-10 check digit: weights alternate 3 and 1 starting from the
+ * rightmost data digit
+ */
+export function gtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function normalizeGS1Date(value: string): string {
+  const iso = ISO_DATE.exec(value);
+  const date = iso ? `${iso[1]!.slice(2)}${iso[2]}${iso[3]}` : value;
+
+  if (!/^\d{6}$/.test(date)) {
+    throw new Error("Expiration date (17) must be YYMMDD or an ISO date");
+  }
+
+  const month = Number(date.slice(2, 4));
+  const day = Number(date.slice(4, 6));
+  // A day of 00 means the end of the month
+  if (month < 1 || month > 12 || day > 31) {
+    throw new Error(`Expiration date (17) ${value} is not a valid date`);
+  }
+
+  return date;
+}
+
+function formatGS1Date(date: Date): string {
+  const year = String(date.getUTCFullYear() % 100).padStart(2, "0");
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
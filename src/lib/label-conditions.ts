@@ -0,0 +1,228 @@
+import { compileConditionPattern } from "@/lib/condition-pattern";
+import type { ConditionPattern } from "@/lib/condition-pattern";
+import { formatDateValue, toCalendarDate } from "@/lib/date-format";
+import type { ConditionGroup, ConditionOperator, FieldCondition, LabelCondition } from "@/types/label-spec";
+import type { DateFormatSettings } from "@/types/tenant";
+
+/**
+ * Visibility conditions for label fields and static elements. The renderers
+ * and the browser preview both evaluate them here, so an element shows in
+ * the preview exactly when it prints.
+ */
+
+export type ConditionLookup = (path: string) => unknown;
+
+export const MAX_CONDITION_DEPTH = 4;
+export const MAX_GROUP_CONDITIONS = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_MATCH_INPUT = 1000;
+const PATTERN_CACHE_LIMIT = 200;
+
+const VALUELESS_OPERATORS = new Set<ConditionOperator>(["empty", "notEmpty"]);
+const COMPARISON_OPERATORS = new Set<ConditionOperator>(["gt", "gte", "lt", "lte"]);
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE = /^today(?:\s*([+-])\s*(\d{1,4})\s*([dwmy]))?$/i;
+
+const patternCache = new Map<string, ConditionPattern | null>();
+
+export function isConditionGroup(condition: LabelCondition): condition is ConditionGroup {
+  return "conditions" in condition;
+}
+
+/**
+ * Evaluates a condition against asset values. Relative dates such as
+ * today+90d resolve against `now` in the tenant timezone.
+ */
+export function evaluateLabelCondition(
+  condition: LabelCondition,
+  lookup: ConditionLookup,
+  dates: DateFormatSettings,
+  now: Date = new Date()
+): boolean {
+  if (isConditionGroup(condition)) {
+    const matches = (child: LabelCondition) => evaluateLabelCondition(child, lookup, dates, now);
+    return condition.match === "any" ? condition.conditions.some(matches) : condition.conditions.every(matches);
+  }
+
+  return evaluateFieldCondition(condition, lookup, dates, now);
+}
+
+/**
+ * Returns why a condition is invalid, or null when it can be evaluated
+ */
+export function getConditionError(condition: LabelCondition, depth = 1): string | null {
+  if (isConditionGroup(condition)) {
+    if (depth > MAX_CONDITION_DEPTH) {
+      return `Condition groups may nest at most ${MAX_CONDITION_DEPTH} levels`;
+    }
+    if (condition.conditions.length === 0) {
+      return "Condition groups need at least one condition";
+    }
+    if (condition.conditions.length > MAX_GROUP_CONDITIONS) {
+      return `Condition groups may hold at most ${MAX_GROUP_CONDITIONS} conditions`;
+    }
+    for (const child of condition.conditions) {
+      const error = getConditionError(child, depth + 1);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (!condition.field.trim()) {
+    return "Every condition needs a field";
+  }
+  if (VALUELESS_OPERATORS.has(condition.operator)) {
+    return null;
+  }
+
+  const value = condition.value?.trim() ?? "";
+  if (!value) {
+    return `Condition on ${condition.field} needs a value`;
+  }
+
+  if (condition.operator === "matches") {
+    if (value.length > MAX_PATTERN_LENGTH) {
+      return `Patterns may be at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      compileConditionPattern(value);
+    } catch (error) {
+      return error instanceof Error ? error.message : `Invalid pattern: ${value}`;
+    }
+  }
+
+  if (
+    COMPARISON_OPERATORS.has(condition.operator) &&
+    resolveDateValue(value, "UTC", new Date()) === null &&
+    parseNumber(value) === null
+  ) {
+    return `Compare ${condition.field} against a number, a YYYY-MM-DD date or today±N(d|w|m|y)`;
+  }
+
+  return null;
+}
+
+function evaluateFieldCondition(
+  condition: FieldCondition,
+  lookup: ConditionLookup,
+  dates: DateFormatSettings,
+  now: Date
+): boolean {
+  const actual = lookup(condition.field);
+  const text = toText(actual, dates);
+  const expected = condition.value ?? "";
+
+  switch (condition.operator) {
+    case "eq":
+      return text === expected;
+    case "neq":
+      return text !== expected;
+    case "contains":
+      return text.includes(expected);
+    case "empty":
+      return text.trim() === "";
+    case "notEmpty":
+      return text.trim() !== "";
+    case "in":
+      return parseList(expected).includes(text.trim());
+    case "notIn":
+      return !parseList(expected).includes(text.trim());
+    case "matches":
+      return getPattern(expected)?.test(text.slice(0, MAX_MATCH_INPUT)) ?? false;
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const order = compareValues(actual, text, expected.trim(), dates.timezone, now);
+      if (order === null) return false;
+      if (condition.operator === "gt") return order > 0;
+      if (condition.operator === "gte") return order >= 0;
+      if (condition.operator === "lt") return order < 0;
+      return order <= 0;
+    }
+    default:
+      return true;
+  }
+}
+
+function toText(value: unknown, dates: DateFormatSettings): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDateValue(value, dates.dateFormat, dates.timezone) ?? "";
+  return String(value);
+}
+
+function parseList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function parseNumber(value: string): number | null {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Orders the asset value against the expected one: as calendar dates when
+ * the expected value is a date, otherwise as numbers. Null when the asset
+ * value is missing or not comparable, so comparisons on it never match.
+ */
+function compareValues(actual: unknown, text: string, expected: string, timezone: string, now: Date): number | null {
+  const targetDate = resolveDateValue(expected, timezone, now);
+  if (targetDate !== null) {
+    const date = toCalendarDate(actual, timezone);
+    if (date === null) return null;
+    return date < targetDate ? -1 : date > targetDate ? 1 : 0;
+  }
+
+  const number = typeof actual === "number" ? actual : parseNumber(text);
+  const target = parseNumber(expected);
+  if (number === null || target === null) return null;
+  return Math.sign(number - target);
+}
+
+/**
+ * Resolves YYYY-MM-DD and today[±N(d|w|m|y)] to a calendar date. Month and
+ * year offsets clamp to the end of shorter months (Jan 31 + 1m = Feb 28).
+ */
+function resolveDateValue(value: string, timezone: string, now: Date): string | null {
+  if (CALENDAR_DATE.test(value)) return value;
+
+  const relative = RELATIVE_DATE.exec(value);
+  if (!relative) return null;
+
+  const today = toCalendarDate(now, timezone);
+  if (!today || !relative[1]) return today;
+
+  const [year, month, day] = today.split("-").map(Number) as [number, number, number];
+  const amount = Number(relative[2]) * (relative[1] === "-" ? -1 : 1);
+  const unit = relative[3]!.toLowerCase();
+
+  if (unit === "d" || unit === "w") {
+    const days = unit === "w" ? amount * 7 : amount;
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  }
+
+  const monthIndex = month - 1 + (unit === "y" ? amount * 12 : amount);
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+function getPattern(source: string): ConditionPattern | null {
+  if (patternCache.has(source)) return patternCache.get(source)!;
+
+  let pattern: ConditionPattern | null = null;
+  if (source.length <= MAX_PATTERN_LENGTH) {
+    try {
+      pattern = compileConditionPattern(source);
+    } catch {
+      pattern = null;
+    }
+  }
+
+  if (patternCache.size >= PATTERN_CACHE_LIMIT) {
+    patternCache.clear();
+  }
+  patternCache.set(source, pattern);
+  return pattern;
+}
@@ -0,0 +1,575 @@
+import JsBarcode from "jsbarcode";
+import QRCode from "qrcode";
+
+import type {
+  LabelSpec,
+  LabelField,
+  LabelElement,
+  LabelUnit,
+  TextAlign,
+  TextStyle,
+  BarcodeStyle,
+  QRCodeStyle,
+  MatrixBarcodeType,
+  DataMatrixStyle,
+  PDF417Style,
+  AztecStyle,
+} from "@/types/label-spec";
+import type { DateFormatSettings } from "@/types/tenant";
+import type { FontStyle, FontWeight, RenderFont } from "@/types/font";
+import {
+  applyTextTransform,
+  dimensionsToPoints,
+  evaluateCondition,
+  getGS1Elements,
+  resolveFieldValue,
+  toPoints,
+} from "@/lib/print-utils";
+import { CODE128_FNC1, encodeGS1, gs1ElementData } from "@/lib/gs1";
+import type { GS1Element } from "@/lib/gs1";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import {
+  MATRIX_BARCODE_LABELS,
+  encodeMatrixBarcode,
+  fitMatrixBarcode,
+  matrixBarcodeRects,
+} from "@/lib/matrix-barcode";
+import type { ModuleGrid } from "@/lib/matrix-barcode";
+import { layoutText, measureFontText } from "@/lib/text-layout";
+import type { TextLayout } from "@/lib/text-layout";
+import { selectFontFace } from "@/lib/font-file";
+import type { FontFileInfo } from "@/lib/font-file";
+
+/**
+ * Layout engine shared by the PDF, PNG and SVG output and the browser
+ * preview. A label is laid out once into a display list in points, measured
+ * from its top-left corner, and each backend only draws the list, so
+ * conditions, values, text fitting and symbol encoding cannot drift apart.
+ */
+
+const BARCODE_QUIET_MODULES = 2;
+const ERROR_FONT_SIZE = 8;
+const ERROR_COLOR = "#ff0000";
+
+/**
+ * Face a text item is drawn with: a tenant font when `faceId` is set,
+ * otherwise the standard PDF font that `family` maps to
+ */
+export interface DisplayFont {
+  family: string;
+  weight: FontWeight;
+  style: FontStyle;
+  faceId: string | null;
+}
+
+export interface DisplayRect {
+  type: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  radius: number;
+}
+
+export interface DisplayLine {
+  type: "line";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  stroke: string;
+  strokeWidth: number;
+}
+
+/** One line of text; y is the baseline and x the anchor for `align` */
+export interface DisplayText {
+  type: "text";
+  x: number;
+  y: number;
+  text: string;
+  font: DisplayFont;
+  fontSize: number;
+  color: string;
+  align: TextAlign;
+}
+
+/** Only data URLs are laid out; nothing can fetch other sources while printing */
+export interface DisplayImage {
+  type: "image";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  src: string;
+}
+
+/**
+ * Editor hint that never prints: an image that cannot be shown, text that
+ * was shortened, or a symbol that failed to encode
+ */
+export interface DisplayMarker {
+  type: "marker";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  severity: "placeholder" | "warning" | "error";
+  message?: string;
+}
+
+/** Items of one element or field, positioned at x/y and rotated clockwise about that point */
+export interface DisplayGroup {
+  type: "group";
+  id: string;
+  x: number;
+  y: number;
+  rotation: number;
+  items: DisplayItem[];
+}
+
+export type DisplayItem = DisplayRect | DisplayLine | DisplayText | DisplayImage | DisplayMarker | DisplayGroup;
+
+/**
+ * Font face with the metrics text is measured with. Renderers pass their
+ * embedded fonts, the preview the faces it has loaded.
+ */
+export interface LayoutFont extends Pick<RenderFont, "id" | "family" | "weight" | "style"> {
+  metrics: FontFileInfo;
+}
+
+/**
+ * Encoded symbols by payload, shared across the labels of one render
+ */
+export interface LayoutCache {
+  barcodes: Map<string, BarcodeEncoding[]>;
+  qrCodes: Map<string, ModuleGrid>;
+  matrixBarcodes: Map<string, ModuleGrid>;
+}
+
+/**
+ * How field values are read from the asset. The preview substitutes
+ * placeholders for empty values; everything else uses the defaults.
+ */
+export interface FieldValueResolver {
+  value: (field: LabelField, asset: Record<string, unknown>, dates: DateFormatSettings) => string;
+  gs1: (field: LabelField, asset: Record<string, unknown>) => GS1Element[];
+}
+
+export interface LayoutOptions {
+  dates?: DateFormatSettings;
+  fonts?: readonly LayoutFont[];
+  cache?: LayoutCache;
+  resolver?: FieldValueResolver;
+  pixelsPerPoint?: number; // raster output: 1D barcode modules snap to whole pixels
+}
+
+/** Text field that did not fit, with the layout it was shortened to */
+export interface TextOverflowLayout {
+  field: LabelField;
+  layout: TextLayout;
+}
+
+export interface LabelLayout {
+  width: number;
+  height: number;
+  items: DisplayItem[];
+  overflow: TextOverflowLayout[];
+}
+
+interface BarcodeEncoding {
+  data: string;
+  text: string;
+}
+
+interface LayoutContext {
+  unit: LabelUnit;
+  dates: DateFormatSettings;
+  fonts: readonly LayoutFont[];
+  cache: LayoutCache;
+  resolver: FieldValueResolver;
+  pixelsPerPoint: number | null;
+  overflow: TextOverflowLayout[];
+}
+
+interface Box {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_FIELD_RESOLVER: FieldValueResolver = {
+  value: (field, asset, dates) => resolveFieldValue(asset, field, dates),
+  gs1: (field, asset) => (field.gs1 ? getGS1Elements(asset, field.gs1) : []),
+};
+
+export function createLayoutCache(): LayoutCache {
+  return {
+    barcodes: new Map(),
+    qrCodes: new Map(),
+    matrixBarcodes: new Map(),
+  };
+}
+
+export function layoutLabel(spec: LabelSpec, asset: Record<string, unknown>, options: LayoutOptions = {}): LabelLayout {
+  const dims = dimensionsToPoints(spec.dimensions);
+  const ctx: LayoutContext = {
+    unit: spec.dimensions.unit,
+    dates: options.dates ?? DEFAULT_DATE_SETTINGS,
+    fonts: options.fonts ?? [],
+    cache: options.cache ?? createLayoutCache(),
+    resolver: options.resolver ?? DEFAULT_FIELD_RESOLVER,
+    pixelsPerPoint: options.pixelsPerPoint ?? null,
+    overflow: [],
+  };
+  const items: DisplayItem[] = [];
+
+  for (const element of spec.elements) {
+    if (element.visible === false) continue;
+    if (element.condition && !evaluateCondition(element.condition, asset, ctx.dates)) continue;
+    items.push(createGroup(ctx, element, layoutElement(ctx, element, getBox(ctx, element))));
+  }
+
+  for (const field of spec.fields) {
+    if (field.visible === false) continue;
+    if (field.condition && !evaluateCondition(field.condition, asset, ctx.dates)) continue;
+    items.push(createGroup(ctx, field, layoutField(ctx, field, asset, getBox(ctx, field))));
+  }
+
+  return { width: dims.width, height: dims.height, items, overflow: ctx.overflow };
+}
+
+/**
+ * The face text with this style is measured and drawn with
+ */
+function resolveDisplayFont(
+  fonts: readonly LayoutFont[],
+  style: Pick<TextStyle, "fontFamily" | "fontWeight" | "fontStyle">
+): { font: DisplayFont; metrics: FontFileInfo | null } {
+  const face = selectFontFace(fonts, style.fontFamily, style.fontWeight, style.fontStyle);
+
+  return face
+    ? { font: { family: face.family, weight: face.weight, style: face.style, faceId: face.id }, metrics: face.metrics }
+    : { font: { family: style.fontFamily, weight: style.fontWeight, style: style.fontStyle, faceId: null }, metrics: null };
+}
+
+function getBox(ctx: LayoutContext, item: LabelElement | LabelField): Box {
+  return { width: toPoints(item.size.width, ctx.unit), height: toPoints(item.size.height, ctx.unit) };
+}
+
+function createGroup(ctx: LayoutContext, item: LabelElement | LabelField, items: DisplayItem[]): DisplayGroup {
+  return {
+    type: "group",
+    id: item.id,
+    x: toPoints(item.position.x, ctx.unit),
+    y: toPoints(item.position.y, ctx.unit),
+    rotation: item.rotation ?? 0,
+    items,
+  };
+}
+
+function layoutElement(ctx: LayoutContext, element: LabelElement, box: Box): DisplayItem[] {
+  const { style } = element;
+
+  switch (element.type) {
+    case "text":
+      return layoutTextBox(ctx, element.content ?? "", {
+        fontFamily: style.fontFamily ?? "Arial",
+        fontSize: style.fontSize ?? 10,
+        fontWeight: style.fontWeight ?? "normal",
+        fontStyle: "normal",
+        color: style.color ?? "#000000",
+        textAlign: style.textAlign ?? "left",
+        verticalAlign: "top",
+      }, box).items;
+    case "rect": {
+      const stroke = style.stroke && style.strokeWidth ? style.stroke : null;
+      if (!style.fill && !stroke) return [];
+      return [{
+        type: "rect",
+        x: 0,
+        y: 0,
+        ...box,
+        fill: style.fill ?? null,
+        stroke,
+        strokeWidth: stroke ? style.strokeWidth! : 0,
+        radius: toPoints(style.borderRadius ?? 0, ctx.unit),
+      }];
+    }
+    case "line":
+      return [{
+        type: "line",
+        x1: 0,
+        y1: 0,
+        x2: box.width,
+        y2: box.height,
+        stroke: style.stroke ?? "#000000",
+        strokeWidth: style.strokeWidth ?? 1,
+      }];
+    case "image":
+    case "logo":
+      return layoutImage(element.content ?? "", box);
+    default:
+      return [];
+  }
+}
+
+function layoutField(
+  ctx: LayoutContext,
+  field: LabelField,
+  asset: Record<string, unknown>,
+  box: Box
+): DisplayItem[] {
+  const value = ctx.resolver.value(field, asset, ctx.dates);
+  const gs1 = field.gs1 ? ctx.resolver.gs1(field, asset) : null;
+
+  switch (field.type) {
+    case "text":
+    case "date": {
+      const style = field.style as TextStyle;
+      const text = layoutTextBox(ctx, applyTextTransform(value, style.textTransform), style, box);
+      if (!text.layout?.truncated) return text.items;
+
+      ctx.overflow.push({ field, layout: text.layout });
+      return [
+        {
+          type: "marker",
+          x: 0,
+          y: 0,
+          ...box,
+          severity: style.overflow === "error" ? "error" : "warning",
+          message: "Text does not fit",
+        },
+        ...text.items,
+      ];
+    }
+    case "barcode":
+      if (gs1 ? gs1.length === 0 : !value) return [];
+      return layoutSymbol("Invalid barcode", box, () => layoutBarcode(ctx, value, field.style as BarcodeStyle, gs1, box));
+    case "qrcode":
+      if (!value) return [];
+      return layoutSymbol("QR Error", box, () => layoutQRCode(ctx, value, field.style as QRCodeStyle, box));
+    case "datamatrix":
+    case "pdf417":
+    case "aztec":
+      if (gs1 ? gs1.length === 0 : !value) return [];
+      return layoutSymbol(`${MATRIX_BARCODE_LABELS[field.type]} Error`, box, () =>
+        layoutMatrixBarcode(ctx, field.type as MatrixBarcodeType, value, field.style as DataMatrixStyle | PDF417Style | AztecStyle, gs1, box)
+      );
+    case "image":
+      return layoutImage(value, box);
+    default:
+      return [];
+  }
+}
+
+function layoutTextBox(
+  ctx: LayoutContext,
+  text: string,
+  style: TextStyle,
+  box: Box
+): { items: DisplayItem[]; layout: TextLayout | null } {
+  if (!text) return { items: [], layout: null };
+
+  const { font, metrics } = resolveDisplayFont(ctx.fonts, style);
+  const layout = metrics
+    ? layoutText(text, style, box.width, box.height, measureFontText(metrics))
+    : layoutText(text, style, box.width, box.height);
+
+  let x = 0;
+  if (style.textAlign === "center") x = box.width / 2;
+  else if (style.textAlign === "right") x = box.width;
+
+  return {
+    items: layout.lines.map((line, index) => ({
+      type: "text",
+      x,
+      y: layout.baseline + index * layout.lineHeight,
+      text: line,
+      font,
+      fontSize: layout.fontSize,
+      color: style.color,
+      align: style.textAlign,
+    })),
+    layout,
+  };
+}
+
+function layoutImage(src: string, box: Box): DisplayItem[] {
+  if (src.startsWith("data:")) {
+    return [{ type: "image", x: 0, y: 0, ...box, src }];
+  }
+  return [{ type: "marker", x: 0, y: 0, ...box, severity: "placeholder" }];
+}
+
+/**
+ * Lays out a symbol, or an error in its place when the value cannot be encoded
+ */
+function layoutSymbol(errorText: string, box: Box, layout: () => DisplayItem[]): DisplayItem[] {
+  try {
+    return layout();
+  } catch (error) {
+    return [
+      {
+        type: "marker",
+        x: 0,
+        y: 0,
+        ...box,
+        severity: "error",
+        message: error instanceof Error ? error.message : errorText,
+      },
+      {
+        type: "text",
+        x: 0,
+        y: box.height / 2,
+        text: errorText,
+        font: { family: "Helvetica", weight: "normal", style: "normal", faceId: null },
+        fontSize: ERROR_FONT_SIZE,
+        color: ERROR_COLOR,
+        align: "left",
+      },
+    ];
+  }
+}
+
+function layoutBarcode(
+  ctx: LayoutContext,
+  value: string,
+  style: BarcodeStyle,
+  gs1: GS1Element[] | null,
+  box: Box
+): DisplayItem[] {
+  const encoding = gs1 ? encodeGS1(gs1) : null;
+  const cacheKey = `bc:${style.format}:${encoding ? `gs1:${encoding.text}` : value}`;
+  let encodings = ctx.cache.barcodes.get(cacheKey);
+
+  if (!encodings) {
+    const target: { encodings?: BarcodeEncoding[] } = {};
+    JsBarcode(target, encoding ? gs1ElementData(encoding, CODE128_FNC1) : value, {
+      format: style.format,
+      displayValue: style.displayValue,
+      ean128: encoding !== null,
+      text: encoding?.text,
+    });
+    encodings = target.encodings ?? [];
+    ctx.cache.barcodes.set(cacheKey, encodings);
+  }
+
+  const modules = encodings.reduce((sum, segment) => sum + segment.data.length, 0);
+  const moduleWidth = getModuleWidth(ctx, box.width, modules + BARCODE_QUIET_MODULES * 2);
+  const barcodeWidth = modules * moduleWidth;
+
+  const textHeight = style.displayValue ? style.fontSize * 1.2 : 0;
+  const barHeight = Math.max(1, box.height - textHeight);
+
+  let barX = (box.width - barcodeWidth) / 2;
+  if (style.textAlign === "left") barX = BARCODE_QUIET_MODULES * moduleWidth;
+  else if (style.textAlign === "right") barX = box.width - barcodeWidth - BARCODE_QUIET_MODULES * moduleWidth;
+
+  const items: DisplayItem[] = [fillRect(0, 0, box.width, box.height, style.background)];
+
+  for (const segment of encodings) {
+    const segmentX = barX;
+    let run = 0;
+
+    for (let i = 0; i <= segment.data.length; i++) {
+      if (segment.data[i] === "1") {
+        run++;
+        continue;
+      }
+      if (run > 0) {
+        items.push(fillRect(barX + (i - run) * moduleWidth, 0, run * moduleWidth, barHeight, style.lineColor));
+        run = 0;
+      }
+    }
+    barX += segment.data.length * moduleWidth;
+
+    if (style.displayValue && segment.text) {
+      items.push({
+        type: "text",
+        x: segmentX + (barX - segmentX) / 2,
+        y: barHeight + style.fontSize,
+        text: segment.text,
+        font: { family: "Courier", weight: "normal", style: "normal", faceId: null },
+        fontSize: style.fontSize,
+        color: style.lineColor,
+        align: "center",
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Width of one bar module. Raster output rounds it down to whole pixels,
+ * as bars that straddle pixels blur and may not scan.
+ */
+function getModuleWidth(ctx: LayoutContext, width: number, modules: number): number {
+  if (!ctx.pixelsPerPoint) return width / modules;
+  return Math.max(1, Math.floor((width * ctx.pixelsPerPoint) / modules)) / ctx.pixelsPerPoint;
+}
+
+function layoutQRCode(ctx: LayoutContext, value: string, style: QRCodeStyle, box: Box): DisplayItem[] {
+  const cacheKey = `qr:${style.errorCorrectionLevel}:${value}`;
+  let grid = ctx.cache.qrCodes.get(cacheKey);
+
+  if (!grid) {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: style.errorCorrectionLevel });
+    grid = { columns: modules.size, rows: modules.size, modules: modules.data };
+    ctx.cache.qrCodes.set(cacheKey, grid);
+  }
+
+  return layoutModules(grid, style, box);
+}
+
+function layoutMatrixBarcode(
+  ctx: LayoutContext,
+  type: MatrixBarcodeType,
+  value: string,
+  style: DataMatrixStyle | PDF417Style | AztecStyle,
+  gs1: GS1Element[] | null,
+  box: Box
+): DisplayItem[] {
+  const encoding = gs1 ? encodeGS1(gs1) : null;
+  const cacheKey = `mx:${type}:${JSON.stringify(style)}:${encoding ? `gs1:${encoding.text}` : value}`;
+  let barcode = ctx.cache.matrixBarcodes.get(cacheKey);
+
+  if (!barcode) {
+    barcode = encodeMatrixBarcode(type, value, style, encoding);
+    ctx.cache.matrixBarcodes.set(cacheKey, barcode);
+  }
+
+  return layoutModules(barcode, style, box);
+}
+
+/**
+ * Square modules of a 2D symbol, centered in the box on its quiet zone
+ */
+function layoutModules(
+  grid: ModuleGrid,
+  style: { margin: number; darkColor: string; lightColor: string },
+  box: Box
+): DisplayItem[] {
+  const layout = fitMatrixBarcode(grid, style.margin, box.width, box.height);
+  const originX = layout.x + style.margin * layout.moduleSize;
+  const originY = layout.y + style.margin * layout.moduleSize;
+
+  return [
+    fillRect(layout.x, layout.y, layout.width, layout.height, style.lightColor),
+    ...matrixBarcodeRects(grid).map((rect) =>
+      fillRect(
+        originX + rect.x * layout.moduleSize,
+        originY + rect.y * layout.moduleSize,
+        rect.width * layout.moduleSize,
+        rect.height * layout.moduleSize,
+        style.darkColor
+      )
+    ),
+  ];
+}
+
+function fillRect(x: number, y: number, width: number, height: number, fill: string): DisplayRect {
+  return { type: "rect", x, y, width, height, fill, stroke: null, strokeWidth: 0, radius: 0 };
+}
@@ -0,0 +1,180 @@
+import type { DisplayItem, DisplayMarker, DisplayText, LabelLayout } from "@/lib/label-layout";
+import { mapStandardFont } from "@/lib/text-layout";
+import type { StandardFont } from "@/lib/text-layout";
+import type { LabelDimensions } from "@/types/label-spec";
+import type { RenderFont } from "@/types/font";
+
+/**
+ * SVG backend for the label display list. It emits markup rather than
+ * React elements so the browser preview and exported files share it.
+ */
+
+const SVG_FONT_FAMILIES: Record<StandardFont, string> = {
+  helvetica: "Helvetica, Arial, sans-serif",
+  times: "'Times New Roman', Times, serif",
+  courier: "'Courier New', Courier, monospace",
+};
+
+const SVG_TEXT_ANCHORS = { left: "start", center: "middle", right: "end" } as const;
+
+const MARKER_STYLES: Record<DisplayMarker["severity"], { fill: string; stroke: string; dashed: boolean }> = {
+  placeholder: { fill: "#f3f4f6", stroke: "#d1d5db", dashed: false },
+  warning: { fill: "none", stroke: "#f59e0b", dashed: true },
+  error: { fill: "#fef2f2", stroke: "#ef4444", dashed: true },
+};
+
+export interface SvgMarkupOptions {
+  markers?: boolean; // draw editor markers, which never print
+}
+
+/**
+ * Tenant font face to embed, with its file as a data URL
+ */
+export interface SvgFontFace extends Pick<RenderFont, "id" | "family" | "weight" | "style"> {
+  src: string;
+}
+
+/**
+ * SVG markup for display items, in points. Wrap it in an <svg> whose
+ * viewBox spans the label in points.
+ */
+export function displayItemsToSvg(items: DisplayItem[], options: SvgMarkupOptions = {}): string {
+  return items.map((item) => itemToSvg(item, options)).join("");
+}
+
+/**
+ * Standalone SVG file of one laid out label, sized in the label's unit.
+ * The faces its text uses are embedded whole, as SVG has no subsetting.
+ */
+export function renderSvgDocument(
+  layout: LabelLayout,
+  dimensions: LabelDimensions,
+  fonts: readonly SvgFontFace[] = []
+): string {
+  const used = new Set<string>();
+  collectFontFaces(layout.items, used);
+
+  const fontFaces = fonts
+    .filter((font) => used.has(font.id))
+    .map((font) => [
+      "@font-face {",
+      `font-family: ${JSON.stringify(font.family)};`,
+      `src: url("${font.src}");`,
+      `font-weight: ${font.weight};`,
+      `font-style: ${font.style};`,
+      "}",
+    ].join(" "))
+    .join("\n");
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${dimensions.width}${dimensions.unit}" ` +
+      `height="${dimensions.height}${dimensions.unit}" viewBox="0 0 ${num(layout.width)} ${num(layout.height)}">`,
+    fontFaces ? `<style>${escapeXml(fontFaces)}</style>` : "",
+    displayItemsToSvg(layout.items),
+    "</svg>",
+    "",
+  ].join("\n");
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function itemToSvg(item: DisplayItem, options: SvgMarkupOptions): string {
+  switch (item.type) {
+    case "group": {
+      const transform = `translate(${num(item.x)} ${num(item.y)})${item.rotation ? ` rotate(${num(item.rotation)})` : ""}`;
+      return `<g transform="${transform}">${displayItemsToSvg(item.items, options)}</g>`;
+    }
+    case "rect":
+      return element("rect", {
+        x: num(item.x),
+        y: num(item.y),
+        width: num(item.width),
+        height: num(item.height),
+        rx: item.radius > 0 ? num(item.radius) : null,
+        fill: item.fill ?? "none",
+        stroke: item.stroke,
+        "stroke-width": item.stroke ? num(item.strokeWidth) : null,
+      });
+    case "line":
+      return element("line", {
+        x1: num(item.x1),
+        y1: num(item.y1),
+        x2: num(item.x2),
+        y2: num(item.y2),
+        stroke: item.stroke,
+        "stroke-width": num(item.strokeWidth),
+      });
+    case "text":
+      return textToSvg(item);
+    case "image":
+      return element("image", {
+        x: num(item.x),
+        y: num(item.y),
+        width: num(item.width),
+        height: num(item.height),
+        href: item.src,
+        preserveAspectRatio: "none",
+      });
+    case "marker":
+      return options.markers ? markerToSvg(item) : "";
+  }
+}
+
+function collectFontFaces(items: DisplayItem[], faceIds: Set<string>): void {
+  for (const item of items) {
+    if (item.type === "group") collectFontFaces(item.items, faceIds);
+    else if (item.type === "text" && item.font.faceId) faceIds.add(item.font.faceId);
+  }
+}
+
+function textToSvg(text: DisplayText): string {
+  return element("text", {
+    x: num(text.x),
+    y: num(text.y),
+    "font-family": text.font.faceId ? JSON.stringify(text.font.family) : SVG_FONT_FAMILIES[mapStandardFont(text.font.family)],
+    "font-size": num(text.fontSize),
+    "font-weight": text.font.weight,
+    "font-style": text.font.style,
+    "text-anchor": SVG_TEXT_ANCHORS[text.align],
+    fill: text.color,
+    "xml:space": "preserve",
+  }, escapeXml(text.text));
+}
+
+function markerToSvg(marker: DisplayMarker): string {
+  const style = MARKER_STYLES[marker.severity];
+  return element("rect", {
+    x: num(marker.x),
+    y: num(marker.y),
+    width: num(marker.width),
+    height: num(marker.height),
+    fill: style.fill,
+    stroke: style.stroke,
+    "stroke-width": "0.5",
+    "stroke-dasharray": style.dashed ? "1.5 1.5" : null,
+  }, marker.message ? `<title>${escapeXml(marker.message)}</title>` : undefined);
+}
+
+/**
+ * Element with escaped attribute values; `content` is inserted as markup
+ */
+function element(tag: string, attributes: Record<string, string | null>, content?: string): string {
+  const rendered = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+
+  return content === undefined ? `<${tag}${rendered}/>` : `<${tag}${rendered}>${content}</${tag}>`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
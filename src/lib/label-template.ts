@@ -0,0 +1,560 @@
+import { DEFAULT_DATE_SETTINGS, formatDateValue } from "@/lib/date-format";
+import type { DateFormatSettings } from "@/types/tenant";
+
+/**
+ * Sandboxed text templates for label fields, e.g.
+ *   Rack {{ customFields.rackUnit | pad:2:"0" }} / {{ location | upper }}
+ *
+ * Expressions are parsed into a small AST and interpreted; there is no
+ * access to JavaScript beyond reading asset paths through the caller's
+ * lookup. Grammar, loosest binding first:
+ *   cond ? a : b    ternary (empty values are falsy)
+ *   a ?? b          b when a is empty
+ *   a == b, a != b  string comparison
+ *   a + b           concatenation
+ *   a | filter:arg  filters; arguments are literals attached with ":"
+ */
+
+export type TemplateFilterName =
+  | "upper"
+  | "lower"
+  | "capitalize"
+  | "trim"
+  | "truncate"
+  | "pad"
+  | "padEnd"
+  | "replace"
+  | "default"
+  | "date";
+
+interface TemplateFilterDefinition {
+  description: string;
+  usage: string;
+  minArgs: number;
+  maxArgs: number;
+  numericArgs?: number[]; // argument indexes that must be numbers
+}
+
+export const TEMPLATE_FILTERS: Record<TemplateFilterName, TemplateFilterDefinition> = {
+  upper: { description: "UPPERCASE", usage: "upper", minArgs: 0, maxArgs: 0 },
+  lower: { description: "lowercase", usage: "lower", minArgs: 0, maxArgs: 0 },
+  capitalize: { description: "Capitalize Each Word", usage: "capitalize", minArgs: 0, maxArgs: 0 },
+  trim: { description: "Strip surrounding spaces", usage: "trim", minArgs: 0, maxArgs: 0 },
+  truncate: { description: "Cut to a length", usage: "truncate:20[:\"…\"]", minArgs: 1, maxArgs: 2, numericArgs: [0] },
+  pad: { description: "Pad on the left", usage: "pad:4[:\"0\"]", minArgs: 1, maxArgs: 2, numericArgs: [0] },
+  padEnd: { description: "Pad on the right", usage: "padEnd:4[:\" \"]", minArgs: 1, maxArgs: 2, numericArgs: [0] },
+  replace: { description: "Replace text", usage: "replace:\"find\":\"with\"", minArgs: 2, maxArgs: 2 },
+  default: { description: "Value when empty", usage: "default:\"text\"", minArgs: 1, maxArgs: 1 },
+  date: { description: "Tenant date format by default", usage: "date[:\"YYYY-MM-DD\"]", minArgs: 0, maxArgs: 1 },
+};
+
+const MAX_TEMPLATE_LENGTH = 1000;
+const MAX_OUTPUT_LENGTH = 1000;
+const MAX_PAD_WIDTH = 200;
+const MAX_DEPTH = 20;
+const MAX_FILTER_CHAIN = 8;
+const PARSE_CACHE_LIMIT = 500;
+const BLOCKED_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+
+export class TemplateSyntaxError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "TemplateSyntaxError";
+    this.position = position;
+  }
+}
+
+type TemplateExpression =
+  | { type: "path"; path: string }
+  | { type: "literal"; value: string }
+  | { type: "concat"; left: TemplateExpression; right: TemplateExpression }
+  | { type: "default"; left: TemplateExpression; right: TemplateExpression }
+  | { type: "compare"; negate: boolean; left: TemplateExpression; right: TemplateExpression }
+  | { type: "ternary"; test: TemplateExpression; consequent: TemplateExpression; alternate: TemplateExpression }
+  | { type: "filter"; name: TemplateFilterName; input: TemplateExpression; args: string[] };
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "expression"; expression: TemplateExpression };
+
+type TokenType = "path" | "string" | "number" | "operator" | "end";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  spaceBefore: boolean;
+}
+
+type TemplateValue = string | Date | null;
+
+interface TemplateScope {
+  lookup: (path: string) => unknown;
+  dates: DateFormatSettings;
+}
+
+const parseCache = new Map<string, TemplateNode[]>();
+
+export function isTemplate(value: string): boolean {
+  return value.includes("{{");
+}
+
+export function parseTemplate(template: string): TemplateNode[] {
+  const cached = parseCache.get(template);
+  if (cached) return cached;
+
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new TemplateSyntaxError(`Template exceeds ${MAX_TEMPLATE_LENGTH} characters`, MAX_TEMPLATE_LENGTH);
+  }
+
+  const nodes: TemplateNode[] = [];
+  let index = 0;
+
+  while (index < template.length) {
+    const open = template.indexOf("{{", index);
+    if (open === -1) {
+      nodes.push({ type: "text", value: template.slice(index) });
+      break;
+    }
+    if (open > index) {
+      nodes.push({ type: "text", value: template.slice(index, open) });
+    }
+
+    const close = template.indexOf("}}", open + 2);
+    if (close === -1) {
+      throw new TemplateSyntaxError("Unclosed {{", open);
+    }
+
+    const parser = new ExpressionParser(tokenize(template.slice(open + 2, close), open + 2));
+    nodes.push({ type: "expression", expression: parser.parse() });
+    index = close + 2;
+  }
+
+  if (parseCache.size >= PARSE_CACHE_LIMIT) {
+    parseCache.clear();
+  }
+  parseCache.set(template, nodes);
+  return nodes;
+}
+
+/**
+ * Throws TemplateSyntaxError for malformed templates
+ */
+export function renderTemplate(
+  template: string,
+  lookup: (path: string) => unknown,
+  dates: DateFormatSettings = DEFAULT_DATE_SETTINGS
+): string {
+  const scope: TemplateScope = { lookup, dates };
+  let output = "";
+
+  for (const node of parseTemplate(template)) {
+    output += node.type === "text" ? node.value : toText(evaluate(node.expression, scope), scope);
+    if (output.length > MAX_OUTPUT_LENGTH) {
+      return output.slice(0, MAX_OUTPUT_LENGTH);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Asset paths a template reads, for validation and designer hints
+ */
+export function getTemplatePaths(template: string): string[] {
+  const paths = new Set<string>();
+
+  const visit = (expression: TemplateExpression): void => {
+    switch (expression.type) {
+      case "path":
+        paths.add(expression.path);
+        break;
+      case "literal":
+        break;
+      case "filter":
+        visit(expression.input);
+        break;
+      case "ternary":
+        visit(expression.test);
+        visit(expression.consequent);
+        visit(expression.alternate);
+        break;
+      default:
+        visit(expression.left);
+        visit(expression.right);
+    }
+  };
+
+  for (const node of parseTemplate(template)) {
+    if (node.type === "expression") visit(node.expression);
+  }
+
+  return [...paths];
+}
+
+export interface TemplateCompletion {
+  kind: "path" | "filter";
+  from: number; // replace template.slice(from, caret) with the chosen item
+  prefix: string;
+}
+
+/**
+ * Works out what the word before the caret is, if the caret is inside {{ }}
+ */
+export function getTemplateCompletion(template: string, caret: number): TemplateCompletion | null {
+  const before = template.slice(0, caret);
+  const open = before.lastIndexOf("{{");
+  if (open === -1 || before.lastIndexOf("}}") > open) {
+    return null;
+  }
+
+  const expression = before.slice(open + 2);
+  const quotes = (expression.match(/["']/g) ?? []).length;
+  if (quotes % 2 === 1) {
+    return null;
+  }
+
+  const filter = /\|\s*([A-Za-z]*)$/.exec(expression);
+  if (filter) {
+    return { kind: "filter", from: caret - filter[1]!.length, prefix: filter[1]! };
+  }
+
+  const path = /(?:^|[\s(+?:=!])([A-Za-z_][\w.-]*)?$/.exec(expression);
+  if (path) {
+    const prefix = path[1] ?? "";
+    return { kind: "path", from: caret - prefix.length, prefix };
+  }
+
+  return null;
+}
+
+function tokenize(source: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const start = index;
+    while (index < source.length && /\s/.test(source[index]!)) index++;
+    if (index >= source.length) break;
+
+    const spaceBefore = index > start;
+    const position = offset + index;
+    const char = source[index]!;
+    const rest = source.slice(index);
+
+    if (char === "\"" || char === "'") {
+      let value = "";
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\" && index + 1 < source.length) index++;
+        value += source[index];
+        index++;
+      }
+      if (index >= source.length) {
+        throw new TemplateSyntaxError("Unterminated string", position);
+      }
+      index++;
+      tokens.push({ type: "string", value, position, spaceBefore });
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      index += number[0].length;
+      tokens.push({ type: "number", value: number[0], position, spaceBefore });
+      continue;
+    }
+
+    const path = /^[A-Za-z_][\w-]*(\.[\w-]+)*/.exec(rest);
+    if (path) {
+      for (const segment of path[0].split(".")) {
+        if (BLOCKED_SEGMENTS.has(segment)) {
+          throw new TemplateSyntaxError(`"${segment}" is not allowed in a path`, position);
+        }
+      }
+      index += path[0].length;
+      tokens.push({ type: "path", value: path[0], position, spaceBefore });
+      continue;
+    }
+
+    const operator = /^(\?\?|==|!=|[|:?+()])/.exec(rest);
+    if (operator) {
+      index += operator[0].length;
+      tokens.push({ type: "operator", value: operator[0], position, spaceBefore });
+      continue;
+    }
+
+    throw new TemplateSyntaxError(`Unexpected character "${char}"`, position);
+  }
+
+  tokens.push({ type: "end", value: "", position: offset + source.length, spaceBefore: false });
+  return tokens;
+}
+
+class ExpressionParser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): TemplateExpression {
+    if (this.peek().type === "end") {
+      throw new TemplateSyntaxError("Empty expression", this.peek().position);
+    }
+
+    const expression = this.parseTernary();
+    const next = this.peek();
+    if (next.type !== "end") {
+      throw new TemplateSyntaxError(`Unexpected "${next.value}"`, next.position);
+    }
+    return expression;
+  }
+
+  private parseTernary(): TemplateExpression {
+    this.enter(this.peek().position);
+
+    const test = this.parseDefault();
+    let expression = test;
+    if (this.match("?")) {
+      const consequent = this.parseTernary();
+      this.expect(":");
+      const alternate = this.parseTernary();
+      expression = { type: "ternary", test, consequent, alternate };
+    }
+
+    this.depth--;
+    return expression;
+  }
+
+  private parseDefault(): TemplateExpression {
+    let left = this.parseComparison();
+    while (this.match("??")) {
+      left = { type: "default", left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): TemplateExpression {
+    const left = this.parseConcat();
+    const operator = this.peek();
+    if (operator.type === "operator" && (operator.value === "==" || operator.value === "!=")) {
+      this.index++;
+      return { type: "compare", negate: operator.value === "!=", left, right: this.parseConcat() };
+    }
+    return left;
+  }
+
+  private parseConcat(): TemplateExpression {
+    let left = this.parseFiltered();
+    while (this.match("+")) {
+      left = { type: "concat", left, right: this.parseFiltered() };
+    }
+    return left;
+  }
+
+  private parseFiltered(): TemplateExpression {
+    let input = this.parsePrimary();
+    let filters = 0;
+
+    while (this.match("|")) {
+      const nameToken = this.next();
+      if (++filters > MAX_FILTER_CHAIN) {
+        throw new TemplateSyntaxError(`At most ${MAX_FILTER_CHAIN} filters can be chained`, nameToken.position);
+      }
+      // Each filter wraps the node before it, so it counts towards the depth
+      this.enter(nameToken.position);
+
+      if (nameToken.type !== "path" || !Object.hasOwn(TEMPLATE_FILTERS, nameToken.value)) {
+        throw new TemplateSyntaxError(`Unknown filter "${nameToken.value}"`, nameToken.position);
+      }
+
+      const name = nameToken.value as TemplateFilterName;
+      const definition = TEMPLATE_FILTERS[name];
+      const args: string[] = [];
+
+      // Only an attached ":" starts an argument, so "a ? b | upper : c" still parses
+      while (this.peek().value === ":" && !this.peek().spaceBefore && this.peek().type === "operator") {
+        this.index++;
+        const arg = this.next();
+        if (arg.type !== "string" && arg.type !== "number") {
+          throw new TemplateSyntaxError(`Filter "${name}" arguments must be literals`, arg.position);
+        }
+        if (definition.numericArgs?.includes(args.length) && arg.type !== "number") {
+          throw new TemplateSyntaxError(`Filter "${name}" argument ${args.length + 1} must be a number`, arg.position);
+        }
+        args.push(arg.value);
+      }
+
+      if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+        throw new TemplateSyntaxError(`Filter "${name}" is used as ${definition.usage}`, nameToken.position);
+      }
+
+      input = { type: "filter", name, input, args };
+    }
+
+    this.depth -= filters;
+    return input;
+  }
+
+  private parsePrimary(): TemplateExpression {
+    const token = this.next();
+
+    switch (token.type) {
+      case "path":
+        return { type: "path", path: token.value };
+      case "string":
+      case "number":
+        return { type: "literal", value: token.value };
+      case "operator":
+        if (token.value === "(") {
+          const expression = this.parseTernary();
+          this.expect(")");
+          return expression;
+        }
+        break;
+    }
+
+    throw new TemplateSyntaxError(
+      token.type === "end" ? "Unexpected end of expression" : `Unexpected "${token.value}"`,
+      token.position
+    );
+  }
+
+  private enter(position: number): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw new TemplateSyntaxError("Expression is nested too deeply", position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      const token = this.peek();
+      throw new TemplateSyntaxError(`Expected "${operator}"`, token.position);
+    }
+  }
+}
+
+/**
+ * Every intermediate string is clamped to the output limit, so chained
+ * filters and concatenations cannot grow past it
+ */
+function evaluate(expression: TemplateExpression, scope: TemplateScope): TemplateValue {
+  switch (expression.type) {
+    case "path":
+      return clamp(toValue(scope.lookup(expression.path)));
+    case "literal":
+      return expression.value;
+    case "concat":
+      return clamp(toText(evaluate(expression.left, scope), scope) + toText(evaluate(expression.right, scope), scope));
+    case "default": {
+      const left = evaluate(expression.left, scope);
+      return isEmpty(left) ? evaluate(expression.right, scope) : left;
+    }
+    case "compare": {
+      const left = toText(evaluate(expression.left, scope), scope);
+      const equal = left === toText(evaluate(expression.right, scope), scope);
+      return equal !== expression.negate ? "true" : "";
+    }
+    case "ternary":
+      return isEmpty(evaluate(expression.test, scope))
+        ? evaluate(expression.alternate, scope)
+        : evaluate(expression.consequent, scope);
+    case "filter":
+      return clamp(applyFilter(expression.name, evaluate(expression.input, scope), expression.args, scope));
+  }
+}
+
+function applyFilter(
+  name: TemplateFilterName,
+  value: TemplateValue,
+  args: string[],
+  scope: TemplateScope
+): TemplateValue {
+  if (name === "date") {
+    return formatDateValue(value, args[0] ?? scope.dates.dateFormat, scope.dates.timezone) ?? "";
+  }
+  if (name === "default") {
+    return isEmpty(value) ? args[0]! : value;
+  }
+
+  const text = toText(value, scope);
+  switch (name) {
+    case "upper":
+      return text.toUpperCase();
+    case "lower":
+      return text.toLowerCase();
+    case "capitalize":
+      return text.replace(/\b\w/g, (c) => c.toUpperCase());
+    case "trim":
+      return text.trim();
+    case "truncate": {
+      const length = Number(args[0]);
+      const suffix = args[1] ?? "";
+      if (text.length <= length) return text;
+      return text.slice(0, Math.max(0, length - suffix.length)) + suffix;
+    }
+    case "pad":
+    case "padEnd": {
+      const width = Math.min(Number(args[0]), MAX_PAD_WIDTH);
+      const fill = args[1] || " ";
+      return name === "pad" ? text.padStart(width, fill) : text.padEnd(width, fill);
+    }
+    case "replace":
+      return args[0] ? replaceAll(text, args[0], args[1]!) : text;
+  }
+}
+
+/**
+ * Stops once the result passes the output limit instead of building it whole
+ */
+function replaceAll(text: string, search: string, replacement: string): string {
+  const parts = text.split(search);
+  let result = parts[0]!;
+  for (let i = 1; i < parts.length && result.length <= MAX_OUTPUT_LENGTH; i++) {
+    result += replacement + parts[i];
+  }
+  return result;
+}
+
+function toValue(raw: unknown): TemplateValue {
+  if (raw === null || raw === undefined) return null;
+  if (raw instanceof Date) return isNaN(raw.getTime()) ? null : raw;
+  if (typeof raw === "object") return null;
+  return String(raw);
+}
+
+function clamp(value: TemplateValue): TemplateValue {
+  return typeof value === "string" && value.length > MAX_OUTPUT_LENGTH ? value.slice(0, MAX_OUTPUT_LENGTH) : value;
+}
+
+function toText(value: TemplateValue, scope: TemplateScope): string {
+  if (value instanceof Date) {
+    return formatDateValue(value, scope.dates.dateFormat, scope.dates.timezone) ?? "";
+  }
+  return value ?? "";
+}
+
+function isEmpty(value: TemplateValue): boolean {
+  return value === null || value === "";
+}
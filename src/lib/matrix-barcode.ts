@@ -0,0 +1,211 @@
+import bwipjs from "bwip-js/generic";
+
+import type { MatrixBarcodeType, DataMatrixStyle, PDF417Style, AztecStyle } from "@/types/label-spec";
+import type { GS1Encoding } from "@/lib/gs1";
+
+export const MATRIX_BARCODE_LABELS: Record<MatrixBarcodeType, string> = {
+  datamatrix: "DataMatrix",
+  pdf417: "PDF417",
+  aztec: "Aztec",
+};
+
+const PDF417_START_STOP_MODULES = 35;
+const PDF417_RIGHT_INDICATOR_MODULES = 34;
+const PDF417_CODEWORD_MODULES = 17;
+
+/**
+ * Row-major grid of modules (1 = dark)
+ */
+export interface ModuleGrid {
+  columns: number;
+  rows: number;
+  modules: ArrayLike<number>;
+}
+
+/**
+ * Encoded symbol
+ */
+export interface MatrixBarcode extends ModuleGrid {
+  type: MatrixBarcodeType;
+  modules: number[];
+}
+
+/**
+ * Run of dark modules, in module units
+ */
+export interface ModuleRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MatrixBarcodeLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  moduleSize: number;
+}
+
+export function isMatrixBarcodeType(type: string): type is MatrixBarcodeType {
+  return Object.hasOwn(MATRIX_BARCODE_LABELS, type);
+}
+
+/**
+ * Encodes the value, or for GS1 DataMatrix the bracketed element string,
+ * which the encoder splits into AIs and FNC1 separators itself
+ */
+export function encodeMatrixBarcode(
+  type: MatrixBarcodeType,
+  value: string,
+  style: DataMatrixStyle | PDF417Style | AztecStyle,
+  gs1?: GS1Encoding | null
+): MatrixBarcode {
+  if (gs1 && type !== "datamatrix") {
+    throw new Error(`${MATRIX_BARCODE_LABELS[type]} does not support GS1 mode`);
+  }
+
+  const [bcid, options] = getEncoderOptions(type, style);
+  const [symbol] = gs1
+    ? bwipjs.raw(`gs1${bcid}`, gs1.text, options)
+    : bwipjs.raw(bcid, value, options);
+
+  if (!symbol || !("pixs" in symbol)) {
+    throw new Error(`${MATRIX_BARCODE_LABELS[type]} encoding failed`);
+  }
+
+  return {
+    type,
+    columns: symbol.pixx,
+    rows: symbol.pixy,
+    modules: expandRows(symbol.pixs, symbol.pixx, symbol.pixy),
+  };
+}
+
+/**
+ * The encoder counts PDF417's repeated rows (rowmult) in pixy but stores
+ * each row once, so repeat them to fill the grid
+ */
+function expandRows(modules: number[], columns: number, rows: number): number[] {
+  const stored = modules.length / columns;
+  if (stored >= rows) return modules;
+
+  const expanded: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    const start = Math.floor((row * stored) / rows) * columns;
+    expanded.push(...modules.slice(start, start + columns));
+  }
+  return expanded;
+}
+
+function getEncoderOptions(
+  type: MatrixBarcodeType,
+  style: DataMatrixStyle | PDF417Style | AztecStyle
+): [string, string] {
+  switch (type) {
+    case "datamatrix": {
+      const s = style as DataMatrixStyle;
+      return [s.shape === "rectangle" ? "datamatrixrectangular" : "datamatrix", ""];
+    }
+    case "pdf417": {
+      const s = style as PDF417Style;
+      const options = [`eclevel=${s.errorCorrectionLevel}`, `rowmult=${s.rowHeight}`];
+      if (s.columns > 0) options.push(`columns=${s.columns}`);
+      return [s.compact ? "pdf417compact" : "pdf417", options.join(" ")];
+    }
+    case "aztec": {
+      const s = style as AztecStyle;
+      const options = [`eclevel=${s.errorCorrectionPercent}`];
+      if (s.format !== "auto") options.push(`format=${s.format}`);
+      return ["azteccode", options.join(" ")];
+    }
+  }
+}
+
+export function isDarkModule(barcode: ModuleGrid, row: number, column: number): boolean {
+  return barcode.modules[row * barcode.columns + column] === 1;
+}
+
+/**
+ * Collapses dark modules into horizontal runs, then merges runs that repeat
+ * on consecutive rows so stacked symbols like PDF417 draw as few shapes
+ */
+export function matrixBarcodeRects(barcode: ModuleGrid): ModuleRect[] {
+  const rects: ModuleRect[] = [];
+  let open = new Map<string, ModuleRect>();
+
+  for (let row = 0; row < barcode.rows; row++) {
+    const next = new Map<string, ModuleRect>();
+    let column = 0;
+
+    while (column < barcode.columns) {
+      if (!isDarkModule(barcode, row, column)) {
+        column++;
+        continue;
+      }
+
+      const start = column;
+      while (column < barcode.columns && isDarkModule(barcode, row, column)) {
+        column++;
+      }
+
+      const key = `${start}:${column - start}`;
+      const rect = open.get(key);
+      if (rect) {
+        rect.height++;
+        next.set(key, rect);
+      } else {
+        const created = { x: start, y: row, width: column - start, height: 1 };
+        rects.push(created);
+        next.set(key, created);
+      }
+    }
+
+    open = next;
+  }
+
+  return rects;
+}
+
+/**
+ * Largest square-module layout of the symbol plus its quiet zone that fits
+ * the field box, centered
+ */
+export function fitMatrixBarcode(
+  barcode: ModuleGrid,
+  margin: number,
+  width: number,
+  height: number
+): MatrixBarcodeLayout {
+  const totalColumns = barcode.columns + margin * 2;
+  const totalRows = barcode.rows + margin * 2;
+  const moduleSize = Math.min(width / totalColumns, height / totalRows);
+  const symbolWidth = totalColumns * moduleSize;
+  const symbolHeight = totalRows * moduleSize;
+
+  return {
+    x: (width - symbolWidth) / 2,
+    y: (height - symbolHeight) / 2,
+    width: symbolWidth,
+    height: symbolHeight,
+    moduleSize,
+  };
+}
+
+/**
+ * Number of PDF417 data columns and rows in an encoded symbol
+ */
+export function getPDF417Dimensions(
+  barcode: MatrixBarcode,
+  style: PDF417Style
+): { columns: number; rows: number } {
+  const overhead = style.compact
+    ? PDF417_START_STOP_MODULES
+    : PDF417_START_STOP_MODULES + PDF417_RIGHT_INDICATOR_MODULES;
+
+  return {
+    columns: Math.round((barcode.columns - overhead) / PDF417_CODEWORD_MODULES),
+    rows: Math.round(barcode.rows / style.rowHeight),
+  };
+}
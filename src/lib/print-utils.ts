@@ -1,6 +1,13 @@
-import type { LabelUnit, LabelDimensions, LabelSpec } from "@/types/label-spec";
-import type { SheetLayout, PaperSize, PAPER_SIZES } from "@/types/print";
-import { LABEL_FORMATS } from "@/types/label-spec";
+import type { LabelUnit, LabelDimensions, LabelSpec, LabelField, LabelCondition, TextStyle, BarcodeFormat, GS1Binding } from "@/types/label-spec";
+import type { SheetLayout, PAPER_SIZES } from "@/types/print";
+import type { LabelFormat } from "@/types/label-format";
+import { LABEL_STOCK_TYPES } from "@/types/label-format";
+import { resolveGS1Elements } from "@/lib/gs1";
+import type { GS1Element } from "@/lib/gs1";
+import { renderTemplate } from "@/lib/label-template";
+import { evaluateLabelCondition } from "@/lib/label-conditions";
+import { DEFAULT_DATE_SETTINGS, formatDateValue } from "@/lib/date-format";
+import type { DateFormatSettings } from "@/types/tenant";
 
 const MM_PER_INCH = 25.4;
 const PT_PER_INCH = 72;
@@ -65,26 +72,138 @@ export function pointsToPixels(points: number, dpi: number): number {
   return (points / PT_PER_INCH) * dpi;
 }
 
-export function getSheetLayoutForFormat(formatId: string): SheetLayout | null {
-  const format = LABEL_FORMATS[formatId as keyof typeof LABEL_FORMATS];
-  if (!format || format.labelsPerSheet === 1) {
+export function toDots(value: number, unit: LabelUnit, dpi: number): number {
+  return Math.round(toInches(value, unit) * dpi);
+}
+
+export function normalizeRotation(rotation: number = 0): number {
+  return ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+}
+
+export function isDarkColor(color: string): boolean {
+  const hex = color.replace("#", "");
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+    return color !== "transparent" && color !== "none";
+  }
+
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+}
+
+export function estimateBarcodeModules(format: BarcodeFormat, value: string): number {
+  switch (format) {
+    case "CODE128": {
+      const symbols = /^\d+$/.test(value) ? Math.ceil(value.length / 2) : value.length;
+      return 11 * (symbols + 3) + 2;
+    }
+    case "CODE39":
+      return (value.length + 2) * 16;
+    case "EAN13":
+    case "UPC":
+      return 95;
+    case "EAN8":
+      return 67;
+    case "ITF14":
+      return 14 * 9 + 9;
+    case "MSI":
+      return value.length * 12 + 7;
+    case "MSI10":
+      return (value.length + 1) * 12 + 7;
+    default:
+      return value.length * 11;
+  }
+}
+
+/**
+ * Sheet geometry in mm for sheet stock; null for roll stock, which prints
+ * one label per page
+ */
+export function getSheetLayoutForFormat(format: LabelFormat | null | undefined): SheetLayout | null {
+  if (!format || format.stockType !== LABEL_STOCK_TYPES.SHEET || !format.paperWidth || !format.paperHeight) {
     return null;
   }
 
-  const letterPaper: PaperSize = { width: 215.9, height: 279.4, unit: "mm" };
+  const toMm = (value: number) => (format.unit === "in" ? value * MM_PER_INCH : value);
 
   return {
-    paperSize: letterPaper,
-    labelsPerSheet: format.labelsPerSheet,
+    paperSize: { width: toMm(format.paperWidth), height: toMm(format.paperHeight), unit: "mm" },
+    labelsPerSheet: format.columns * format.rows,
     columns: format.columns,
     rows: format.rows,
-    marginTop: 12.7,
-    marginLeft: 4.8,
-    horizontalGap: 3.2,
-    verticalGap: 0,
+    marginTop: toMm(format.marginTop),
+    marginLeft: toMm(format.marginLeft),
+    horizontalGap: toMm(format.horizontalGap),
+    verticalGap: toMm(format.verticalGap),
   };
 }
 
+/**
+ * Returns why a format's labels do not fit its paper, or null
+ */
+export function getLabelFormatFitError(
+  format: Pick<
+    LabelFormat,
+    "stockType" | "width" | "height" | "paperWidth" | "paperHeight" | "columns" | "rows" |
+    "marginTop" | "marginLeft" | "horizontalGap" | "verticalGap"
+  >
+): string | null {
+  if (format.stockType !== LABEL_STOCK_TYPES.SHEET) return null;
+
+  if (!format.paperWidth || !format.paperHeight) {
+    return "Sheet formats need a paper size";
+  }
+
+  const usedWidth = format.marginLeft + format.columns * format.width + (format.columns - 1) * format.horizontalGap;
+  const usedHeight = format.marginTop + format.rows * format.height + (format.rows - 1) * format.verticalGap;
+  // Allow for rounding in published stock measurements
+  if (usedWidth > format.paperWidth + 0.01 || usedHeight > format.paperHeight + 0.01) {
+    return "Labels do not fit on the paper with these columns, rows, margins and gaps";
+  }
+
+  return null;
+}
+
+/**
+ * Slots the first sheet prints into: from startPosition on, leaving out the
+ * slots already used. Later sheets use every slot.
+ */
+export function getFirstSheetSlots(
+  layout: Pick<SheetLayout, "rows" | "columns">,
+  startPosition = 0,
+  skipPositions: readonly number[] = []
+): number[] {
+  const skipped = new Set(skipPositions);
+  const slots: number[] = [];
+
+  for (let index = Math.max(0, startPosition); index < layout.rows * layout.columns; index++) {
+    if (!skipped.has(index)) slots.push(index);
+  }
+
+  return slots;
+}
+
+/**
+ * Returns why a start position or skip mask does not fit the sheet, or null
+ */
+export function getSheetStartError(
+  layout: Pick<SheetLayout, "rows" | "columns">,
+  startPosition = 0,
+  skipPositions: readonly number[] = []
+): string | null {
+  const slotCount = layout.rows * layout.columns;
+
+  if (startPosition >= slotCount || skipPositions.some((index) => index >= slotCount)) {
+    return `Invalid start position: sheet positions run from 0 to ${slotCount - 1}`;
+  }
+  if (getFirstSheetSlots(layout, startPosition, skipPositions).length === 0) {
+    return "Invalid start position: no free positions left on the first sheet";
+  }
+
+  return null;
+}
+
 export function calculateLabelPositions(
   layout: SheetLayout,
   labelWidth: number,
@@ -103,28 +222,95 @@ export function calculateLabelPositions(
   return positions;
 }
 
-export function getFieldValue(asset: Record<string, unknown>, source: string, fallback?: string): string {
-  const parts = source.split(".");
+export function getSourceValue(asset: Record<string, unknown>, source: string): unknown {
   let value: unknown = asset;
 
-  for (const part of parts) {
+  for (const part of source.split(".")) {
     if (value === null || value === undefined) {
-      return fallback ?? "";
+      return undefined;
     }
     value = (value as Record<string, unknown>)[part];
   }
 
+  return value;
+}
+
+export function getFieldValue(
+  asset: Record<string, unknown>,
+  source: string,
+  fallback?: string,
+  dates: DateFormatSettings = DEFAULT_DATE_SETTINGS
+): string {
+  const value = getSourceValue(asset, source);
+
   if (value === null || value === undefined) {
     return fallback ?? "";
   }
 
   if (value instanceof Date) {
-    return value.toLocaleDateString();
+    return formatDateValue(value, dates.dateFormat, dates.timezone) ?? "";
   }
 
   return String(value);
 }
 
+/**
+ * Field text from its template when set, otherwise from its single source.
+ * Date fields format with their own pattern, falling back to the tenant's.
+ */
+export function resolveFieldValue(
+  asset: Record<string, unknown>,
+  field: Pick<LabelField, "type" | "source" | "fallback" | "template" | "style">,
+  dates: DateFormatSettings = DEFAULT_DATE_SETTINGS
+): string {
+  const settings = field.type === "date"
+    ? { ...dates, dateFormat: (field.style as TextStyle).dateFormat || dates.dateFormat }
+    : dates;
+
+  if (field.template) {
+    return renderTemplate(field.template, (path) => getSourceValue(asset, path), settings) || (field.fallback ?? "");
+  }
+
+  if (field.type === "date") {
+    const formatted = formatDateValue(getSourceValue(asset, field.source), settings.dateFormat, settings.timezone);
+    if (formatted !== null) return formatted;
+  }
+
+  return getFieldValue(asset, field.source, field.fallback, settings);
+}
+
+export function getGS1Elements(asset: Record<string, unknown>, binding: GS1Binding): GS1Element[] {
+  return resolveGS1Elements(binding, (source) => getSourceValue(asset, source));
+}
+
+/**
+ * Whether a field or element with this condition shows for the asset
+ */
+export function evaluateCondition(
+  condition: LabelCondition,
+  asset: Record<string, unknown>,
+  dates: DateFormatSettings = DEFAULT_DATE_SETTINGS,
+  now?: Date
+): boolean {
+  return evaluateLabelCondition(condition, (path) => getSourceValue(asset, path), dates, now);
+}
+
+export function applyTextTransform(
+  text: string,
+  transform: "none" | "uppercase" | "lowercase" | "capitalize" | undefined
+): string {
+  switch (transform) {
+    case "uppercase":
+      return text.toUpperCase();
+    case "lowercase":
+      return text.toLowerCase();
+    case "capitalize":
+      return text.replace(/\b\w/g, (c) => c.toUpperCase());
+    default:
+      return text;
+  }
+}
+
 export function formatDate(date: Date | string | null, format: string = "short"): string {
   if (!date) return "";
   
@@ -155,8 +341,12 @@ export function sanitizeFilename(name: string): string {
     .slice(0, 100);
 }
 
-export function generatePrintFilename(templateName: string, assetCount: number): string {
+export function generatePrintFilename(
+  templateName: string,
+  assetCount: number,
+  extension = "pdf"
+): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
   const sanitized = sanitizeFilename(templateName);
-  return `labels_${sanitized}_${assetCount}x_${timestamp}.pdf`;
+  return `labels_${sanitized}_${assetCount}x_${timestamp}.${extension}`;
 }
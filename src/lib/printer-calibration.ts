@@ -0,0 +1,184 @@
+import type { LabelDimensions, LabelElement, LabelSpec } from "@/types/label-spec";
+import type { PrinterCalibration, PrinterLanguage } from "@/types/print-agent";
+import { PRINTER_LANGUAGES } from "@/types/print-agent";
+import { toMm } from "@/lib/print-utils";
+
+export const MAX_CALIBRATION_OFFSET_MM = 10;
+export const MIN_CALIBRATION_SCALE = 0.9;
+export const MAX_CALIBRATION_SCALE = 1.1;
+export const MAX_ZPL_DARKNESS = 30;
+export const MIN_ZPL_PRINT_SPEED = 1;
+export const MAX_ZPL_PRINT_SPEED = 14;
+
+/** 2D affine matrix in y-down coordinates: x' = a*x + c*y + e, y' = b*x + d*y + f */
+export interface CalibrationMatrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export function isIdentityCalibration(calibration: PrinterCalibration | null | undefined): boolean {
+  return (
+    !calibration ||
+    (calibration.offsetX === 0 &&
+      calibration.offsetY === 0 &&
+      calibration.scale === 1 &&
+      calibration.rotation === 0 &&
+      calibration.darkness === undefined &&
+      calibration.printSpeed === undefined)
+  );
+}
+
+/**
+ * Whether the rotation is a half turn, the only rotation thermal printer
+ * languages can apply to a whole label
+ */
+export function isFlippedCalibration(calibration: PrinterCalibration | null | undefined): boolean {
+  return !!calibration && Math.abs(Math.abs(calibration.rotation) - 180) < 0.01;
+}
+
+/**
+ * Returns why a calibration cannot be used, or null. Pass the printer's
+ * languages to also reject rotations its native languages cannot apply.
+ */
+export function getCalibrationError(
+  calibration: PrinterCalibration,
+  languages: PrinterLanguage[] = []
+): string | null {
+  if (Math.abs(calibration.offsetX) > MAX_CALIBRATION_OFFSET_MM || Math.abs(calibration.offsetY) > MAX_CALIBRATION_OFFSET_MM) {
+    return `Invalid calibration: offsets may be at most ${MAX_CALIBRATION_OFFSET_MM} mm`;
+  }
+  if (calibration.scale < MIN_CALIBRATION_SCALE || calibration.scale > MAX_CALIBRATION_SCALE) {
+    return `Invalid calibration: scale must be between ${MIN_CALIBRATION_SCALE * 100}% and ${MAX_CALIBRATION_SCALE * 100}%`;
+  }
+  if (calibration.rotation < -180 || calibration.rotation > 180) {
+    return "Invalid calibration: rotation must be between -180 and 180 degrees";
+  }
+
+  const native = languages.filter((language) => language !== PRINTER_LANGUAGES.PDF);
+  if (native.length > 0 && calibration.rotation !== 0 && !isFlippedCalibration(calibration)) {
+    return `Invalid calibration: ${native.join("/").toUpperCase()} printers can only rotate labels by 180 degrees`;
+  }
+
+  if (calibration.darkness !== undefined && (calibration.darkness < 0 || calibration.darkness > MAX_ZPL_DARKNESS)) {
+    return `Invalid calibration: darkness must be between 0 and ${MAX_ZPL_DARKNESS}`;
+  }
+  if (
+    calibration.printSpeed !== undefined &&
+    (calibration.printSpeed < MIN_ZPL_PRINT_SPEED || calibration.printSpeed > MAX_ZPL_PRINT_SPEED)
+  ) {
+    return `Invalid calibration: print speed must be between ${MIN_ZPL_PRINT_SPEED} and ${MAX_ZPL_PRINT_SPEED} inches per second`;
+  }
+
+  return null;
+}
+
+/**
+ * Maps a point on the designed page to where it must be drawn so it prints
+ * in place: scale from the top-left corner, rotate about the page center,
+ * then offset. Width, height and the result are in points; offsets are
+ * converted from millimetres.
+ */
+export function getCalibrationMatrix(
+  calibration: PrinterCalibration,
+  width: number,
+  height: number
+): CalibrationMatrix {
+  const radians = (calibration.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+  const pointsPerMm = 72 / 25.4;
+
+  return {
+    a: calibration.scale * cos,
+    b: calibration.scale * sin,
+    c: -calibration.scale * sin,
+    d: calibration.scale * cos,
+    e: cx - (cos * cx - sin * cy) + calibration.offsetX * pointsPerMm,
+    f: cy - (sin * cx + cos * cy) + calibration.offsetY * pointsPerMm,
+  };
+}
+
+/**
+ * Builds the calibration test page for a label size: a border on the label
+ * edge, a center crosshair and millimetre rulers along the top and left
+ * edges. Printed with the current calibration, the distance from the paper
+ * edge to the border is the remaining offset, and the 10 mm marks show the
+ * scale error.
+ */
+export function buildCalibrationSpec(
+  dimensions: LabelDimensions,
+  calibration: PrinterCalibration | null
+): LabelSpec {
+  const widthMm = toMm(dimensions.width, dimensions.unit);
+  const heightMm = toMm(dimensions.height, dimensions.unit);
+  const elements: LabelElement[] = [];
+
+  const line = (id: string, x: number, y: number, width: number, height: number, strokeWidth = 0.5) => {
+    elements.push({
+      id,
+      type: "line",
+      position: { x, y },
+      size: { width, height },
+      style: { stroke: "#000000", strokeWidth },
+    });
+  };
+  const text = (id: string, x: number, y: number, width: number, content: string, fontSize: number) => {
+    elements.push({
+      id,
+      type: "text",
+      position: { x, y },
+      size: { width, height: fontSize * 0.5 },
+      content,
+      style: { fontFamily: "Helvetica", fontSize, color: "#000000", textAlign: "center" },
+    });
+  };
+
+  elements.push({
+    id: "border",
+    type: "rect",
+    position: { x: 0, y: 0 },
+    size: { width: widthMm, height: heightMm },
+    style: { stroke: "#000000", strokeWidth: 0.5 },
+  });
+
+  line("center-h", widthMm / 2 - 5, heightMm / 2, 10, 0);
+  line("center-v", widthMm / 2, heightMm / 2 - 5, 0, 10);
+
+  // Tick lengths mark 1, 5 and 10 mm
+  const tick = (mm: number) => (mm % 10 === 0 ? 3 : mm % 5 === 0 ? 2 : 1);
+  for (let mm = 1; mm < widthMm; mm++) {
+    line(`ruler-x-${mm}`, mm, 0, 0, tick(mm), 0.3);
+  }
+  for (let mm = 1; mm < heightMm; mm++) {
+    line(`ruler-y-${mm}`, 0, mm, tick(mm), 0, 0.3);
+  }
+
+  const current = calibration ?? { offsetX: 0, offsetY: 0, scale: 1, rotation: 0 };
+  const fontSize = Math.max(4, Math.min(8, heightMm / 5));
+  text("title", 4, heightMm / 2 + 6, widthMm - 8, "Calibration test", fontSize);
+  text(
+    "settings",
+    4,
+    heightMm / 2 + 6 + fontSize * 0.5,
+    widthMm - 8,
+    `X ${current.offsetX} mm, Y ${current.offsetY} mm, scale ${Math.round(current.scale * 1000) / 10}%, rotation ${current.rotation}°`,
+    fontSize * 0.75
+  );
+
+  return {
+    id: "calibration",
+    version: "1.0.0",
+    name: `Calibration ${widthMm}x${heightMm}mm`,
+    dimensions: { width: widthMm, height: heightMm, unit: "mm" },
+    dpi: 300,
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+    fields: [],
+    elements,
+  };
+}
@@ -32,6 +32,24 @@ export const queryKeys = {
     versions: (id: string) => [...queryKeys.templates.detail(id), "versions"] as const,
     version: (id: string, version: number) => [...queryKeys.templates.versions(id), version] as const,
   },
+  fonts: {
+    all: ["fonts"] as const,
+    list: () => [...queryKeys.fonts.all, "list"] as const,
+    file: (id: string) => [...queryKeys.fonts.all, "file", id] as const,
+  },
+  labelFormats: {
+    all: ["labelFormats"] as const,
+    list: () => [...queryKeys.labelFormats.all, "list"] as const,
+  },
+  assetTagPatterns: {
+    all: ["assetTagPatterns"] as const,
+    list: () => [...queryKeys.assetTagPatterns.all, "list"] as const,
+  },
+  tagBatches: {
+    all: ["tagBatches"] as const,
+    list: () => [...queryKeys.tagBatches.all, "list"] as const,
+    lookup: (tag: string) => [...queryKeys.tagBatches.all, "lookup", tag] as const,
+  },
   users: {
     all: ["users"] as const,
     lists: () => [...queryKeys.users.all, "list"] as const,
@@ -45,6 +63,8 @@ export const queryKeys = {
     jobList: (filters: Record<string, unknown>) => [...queryKeys.print.jobs(), filters] as const,
     job: (id: string) => [...queryKeys.print.jobs(), id] as const,
     jobItems: (id: string) => [...queryKeys.print.job(id), "items"] as const,
+    agents: () => [...queryKeys.print.all, "agents"] as const,
+    routes: () => [...queryKeys.print.all, "routes"] as const,
   },
   auth: {
     me: ["auth", "me"] as const,
@@ -95,6 +95,10 @@ function isBlockedIp(ip: string): boolean {
 }
 
 export async function validateOutboundWebhookUrl(urlString: string): Promise<URL> {
+  return validateOutboundUrl(urlString, "Webhook URL");
+}
+
+export async function validateOutboundUrl(urlString: string, label = "URL"): Promise<URL> {
   let url: URL;
   try {
     url = new URL(urlString);
@@ -103,11 +107,11 @@ export async function validateOutboundWebhookUrl(urlString: string): Promise<URL
   }
 
   if (url.protocol !== "https:") {
-    throw new Error("Webhook URL must be HTTPS");
+    throw new Error(`${label} must be HTTPS`);
   }
 
   if (url.username || url.password) {
-    throw new Error("Webhook URL must not include credentials");
+    throw new Error(`${label} must not include credentials`);
   }
 
   const hostname = normalizeHostname(url.hostname);
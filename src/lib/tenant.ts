@@ -1,7 +1,8 @@
 import { db, schema } from "@/db";
 import { eq, sql } from "drizzle-orm";
 
-import type { TenantContext } from "@/types/tenant";
+import { DEFAULT_TENANT_SETTINGS } from "@/types/tenant";
+import type { TenantContext, TenantSettings } from "@/types/tenant";
 import type { Permission } from "@/types/permissions";
 import type { Database } from "@/db";
 
@@ -46,6 +47,11 @@ export async function getTenantById(tenantId: string) {
   return tenant ?? null;
 }
 
+export async function getTenantSettings(tenantId: string): Promise<TenantSettings> {
+  const tenant = await getTenantById(tenantId);
+  return { ...DEFAULT_TENANT_SETTINGS, ...(tenant?.settings as Partial<TenantSettings> | undefined) };
+}
+
 export async function getTenantBySlug(slug: string) {
   const [tenant] = await db
     .select()
@@ -64,6 +70,15 @@ export async function getTenantByDomain(domain: string) {
   return tenant ?? null;
 }
 
+export async function listActiveTenantIds(): Promise<string[]> {
+  const rows = await db
+    .select({ id: schema.tenants.id })
+    .from(schema.tenants)
+    .where(eq(schema.tenants.isActive, true));
+
+  return rows.map((row) => row.id);
+}
+
 export async function withTenant<T>(
   tenantId: string,
   fn: (tx: Database) => Promise<T>
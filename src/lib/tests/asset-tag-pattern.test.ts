@@ -0,0 +1,83 @@
+import { describe, test, expect } from "bun:test";
+import { getTagPatternError, renderTagPattern } from "@/lib/asset-tag-pattern";
+import type { TagPatternValues } from "@/lib/asset-tag-pattern";
+
+const OPTIONS = { now: new Date("2024-03-05T14:00:00Z"), timezone: "UTC" };
+
+const VALUES: TagPatternValues = {
+  category: "Network Gear",
+  location: "Berlin Office",
+  serialNumber: " SN-77 ",
+  customFields: { site: "fra", floor: 3 },
+};
+
+function render(pattern: string, values: TagPatternValues = VALUES, options = OPTIONS) {
+  return renderTagPattern(pattern, values, options);
+}
+
+describe("renderTagPattern", () => {
+  test("expands date tokens and pads the sequence", () => {
+    const rendered = render("NET-{YYYY}{MM}{DD}-{seq:5}");
+
+    expect(rendered.scope).toBe("NET-20240305-{seq}");
+    expect(rendered.format(42)).toBe("NET-20240305-00042");
+    expect(rendered.format(1234567)).toBe("NET-20240305-1234567");
+  });
+
+  test("dates tags in the tenant timezone", () => {
+    const late = { now: new Date("2024-12-31T23:30:00Z"), timezone: "Asia/Tokyo" };
+    expect(render("{YY}-{seq}", VALUES, late).format(1)).toBe("25-1");
+  });
+
+  test("reads core fields, custom fields and bare custom field names", () => {
+    expect(render("{site}-{customFields.floor}-{serialNumber}-{seq}").format(7)).toBe("fra-3-SN-77-7");
+  });
+
+  test("applies case and length modifiers", () => {
+    expect(render("{site:upper}-{category:lower}-{location:3}-{seq}").format(1)).toBe("FRA-network-gear-Ber-1");
+  });
+
+  test("keeps text after the sequence in the scope", () => {
+    const rendered = render("{seq:3}/{site}");
+
+    expect(rendered.scope).toBe("{seq}/fra");
+    expect(rendered.format(9)).toBe("009/fra");
+  });
+
+  test("strips braces from values so they cannot change the scope", () => {
+    const rendered = render("{site}-{seq}", { customFields: { site: "a{seq}b" } });
+    expect(rendered.scope).toBe("aseqb-{seq}");
+  });
+
+  test("needs a value for every field it uses", () => {
+    expect(() => render("{department}-{seq}")).toThrow("Asset tag pattern needs a value for department");
+    expect(() => render("{site}-{seq}", { customFields: { site: "  " } })).toThrow(
+      "Asset tag pattern needs a value for site"
+    );
+  });
+});
+
+describe("getTagPatternError", () => {
+  test("accepts valid patterns", () => {
+    expect(getTagPatternError("NET-{YYYY}-{seq:5}")).toBeNull();
+    expect(getTagPatternError("{site}-{category:upper}-{seq}")).toBeNull();
+  });
+
+  test.each([
+    ["", "must be 1-100 characters"],
+    ["X".repeat(101) + "{seq}", "must be 1-100 characters"],
+    ["LAP-", "use {seq} exactly once"],
+    ["{seq}-{seq}", "use {seq} exactly once"],
+    ["{seq:0}", "sequence width must be 1-12"],
+    ["{seq:13}", "sequence width must be 1-12"],
+    ["{YYYY:2}-{seq}", "{YYYY} takes no modifier"],
+    ["{site:upper:3}-{seq}", "{site:upper:3} has more than one modifier"],
+    ["{site:title}-{seq}", `unknown modifier "title" on {site}`],
+    ["{site-name}-{seq}", "unknown token {site-name}"],
+    ["{customFields.__proto__}-{seq}", "unknown token {customFields.__proto__}"],
+    ["{seq}}", "unbalanced braces"],
+    ["{site-{seq}", "unbalanced braces"],
+  ])("rejects %p", (pattern, message) => {
+    expect(getTagPatternError(pattern)).toBe(`Invalid tag pattern: ${message}`);
+  });
+});
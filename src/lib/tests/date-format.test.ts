@@ -0,0 +1,73 @@
+import { describe, test, expect } from "bun:test";
+import { formatDateValue, isValidTimezone, toCalendarDate } from "@/lib/date-format";
+
+// 2024-03-05 14:07:09 UTC
+const TIMESTAMP = new Date("2024-03-05T14:07:09Z");
+
+describe("formatDateValue", () => {
+  test.each([
+    ["YYYY-MM-DD", "2024-03-05"],
+    ["DD/MM/YY", "05/03/24"],
+    ["D MMM YYYY", "5 Mar 2024"],
+    ["MMMM D, YYYY", "March 5, 2024"],
+    ["M/D", "3/5"],
+    ["HH:mm:ss", "14:07:09"],
+    ["H:mm", "14:07"],
+    ["hh:mm A", "02:07 PM"],
+    ["h A", "2 PM"],
+    ["[Due] DD MMM", "Due 05 Mar"],
+    ["[YYYY] YYYY", "YYYY 2024"],
+  ])("formats %s as %s", (pattern, expected) => {
+    expect(formatDateValue(TIMESTAMP, pattern, "UTC")).toBe(expected);
+  });
+
+  test("shows midnight and noon on a 12-hour clock", () => {
+    expect(formatDateValue(new Date("2024-03-05T00:30:00Z"), "h:mm A", "UTC")).toBe("12:30 AM");
+    expect(formatDateValue(new Date("2024-03-05T12:30:00Z"), "h:mm A", "UTC")).toBe("12:30 PM");
+  });
+
+  test("converts timestamps into the tenant timezone", () => {
+    expect(formatDateValue(TIMESTAMP, "YYYY-MM-DD HH:mm", "America/New_York")).toBe("2024-03-05 09:07");
+    expect(formatDateValue(TIMESTAMP, "YYYY-MM-DD HH:mm", "Asia/Tokyo")).toBe("2024-03-05 23:07");
+    expect(formatDateValue(new Date("2024-03-05T20:00:00Z"), "YYYY-MM-DD", "Pacific/Auckland")).toBe("2024-03-06");
+  });
+
+  test("keeps calendar dates on their day in every timezone", () => {
+    const purchaseDate = new Date("2024-03-05T00:00:00Z");
+
+    expect(formatDateValue(purchaseDate, "YYYY-MM-DD", "America/Los_Angeles")).toBe("2024-03-05");
+    expect(formatDateValue("2024-03-05", "DD MMM YYYY", "Pacific/Honolulu")).toBe("05 Mar 2024");
+  });
+
+  test("parses ISO timestamp strings", () => {
+    expect(formatDateValue("2024-03-05T14:07:09Z", "HH:mm", "Europe/Berlin")).toBe("15:07");
+  });
+
+  test("falls back to the default timezone for unknown zones", () => {
+    expect(formatDateValue(TIMESTAMP, "HH:mm", "Mars/Olympus_Mons")).toBe(formatDateValue(TIMESTAMP, "HH:mm", "UTC"));
+  });
+
+  test.each([null, undefined, "", "tomorrow", "05/03/2024", 42, {}, new Date("not a date")])(
+    "returns null for %p",
+    (value) => {
+      expect(formatDateValue(value, "YYYY-MM-DD", "UTC")).toBeNull();
+    }
+  );
+});
+
+describe("toCalendarDate", () => {
+  test("returns the day in the tenant timezone", () => {
+    expect(toCalendarDate(TIMESTAMP, "UTC")).toBe("2024-03-05");
+    expect(toCalendarDate(new Date("2024-03-05T02:00:00Z"), "America/Chicago")).toBe("2024-03-04");
+    expect(toCalendarDate("2024-12-31", "Asia/Tokyo")).toBe("2024-12-31");
+    expect(toCalendarDate("soon", "UTC")).toBeNull();
+  });
+});
+
+describe("isValidTimezone", () => {
+  test("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimezone("Europe/London")).toBe(true);
+    expect(isValidTimezone("UTC")).toBe(true);
+    expect(isValidTimezone("Europe/Atlantis")).toBe(false);
+  });
+});
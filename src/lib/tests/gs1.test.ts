@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test";
+import { CODE128_FNC1, encodeGS1, gs1ElementData, gtinCheckDigit, resolveGS1Elements } from "@/lib/gs1";
+
+describe("gtinCheckDigit", () => {
+  test.each([
+    ["950600013435", 2], // GTIN-13 from the GS1 general specifications
+    ["400638133393", 1],
+    ["03600029145", 2], // UPC-A
+    ["9638507", 4], // GTIN-8
+    ["0950600013435", 2], // GTIN-14 data digits
+    ["0000000000000", 0],
+  ])("%s has check digit %d", (digits, check) => {
+    expect(gtinCheckDigit(digits)).toBe(check);
+  });
+});
+
+describe("encodeGS1", () => {
+  test("pads GTINs to 14 digits and checks them", () => {
+    expect(encodeGS1([{ ai: "01", value: "4006381333931" }]).text).toBe("(01)04006381333931");
+    expect(encodeGS1([{ ai: "01", value: " 96385074 " }]).text).toBe("(01)00000096385074");
+    expect(() => encodeGS1([{ ai: "01", value: "4006381333932" }])).toThrow("has an invalid check digit");
+    expect(() => encodeGS1([{ ai: "01", value: "12345" }])).toThrow("must be 8, 12, 13 or 14 digits");
+  });
+
+  test("puts predefined-length AIs before variable-length ones", () => {
+    const encoding = encodeGS1([
+      { ai: "21", value: "SN1" },
+      { ai: "10", value: "LOT7" },
+      { ai: "17", value: "2027-06-30" },
+      { ai: "01", value: "09506000134352" },
+    ]);
+
+    expect(encoding.elements.map((element) => element.ai)).toEqual(["17", "01", "21", "10"]);
+    expect(encoding.text).toBe("(17)270630(01)09506000134352(21)SN1(10)LOT7");
+  });
+
+  test("accepts YYMMDD expiry dates with day 00", () => {
+    expect(encodeGS1([{ ai: "17", value: "271200" }]).text).toBe("(17)271200");
+    expect(() => encodeGS1([{ ai: "17", value: "271301" }])).toThrow("is not a valid date");
+    expect(() => encodeGS1([{ ai: "17", value: "June" }])).toThrow("must be YYMMDD or an ISO date");
+  });
+
+  test("rejects empty, repeated, long and out-of-charset elements", () => {
+    expect(() => encodeGS1([])).toThrow("GS1 element string is empty");
+    expect(() => encodeGS1([{ ai: "21", value: "A" }, { ai: "21", value: "B" }])).toThrow("appears more than once");
+    expect(() => encodeGS1([{ ai: "10", value: "X".repeat(21) }])).toThrow("exceeds 20 characters");
+    expect(() => encodeGS1([{ ai: "21", value: "SN(1)" }])).toThrow("outside the GS1 character set");
+  });
+});
+
+describe("gs1ElementData", () => {
+  test("separates variable-length elements with FNC1 except the last", () => {
+    const encoding = encodeGS1([
+      { ai: "21", value: "SN1" },
+      { ai: "01", value: "09506000134352" },
+      { ai: "10", value: "LOT7" },
+    ]);
+
+    expect(gs1ElementData(encoding, CODE128_FNC1)).toBe(`010950600013435221SN1${CODE128_FNC1}10LOT7`);
+    expect(gs1ElementData(encoding, "\x1d")).toBe("0109506000134352" + "21SN1\x1d10LOT7");
+  });
+
+  test("needs no separator after predefined-length elements", () => {
+    const encoding = encodeGS1([{ ai: "01", value: "09506000134352" }, { ai: "17", value: "270630" }]);
+    expect(gs1ElementData(encoding, CODE128_FNC1)).toBe("0109506000134352" + "17270630");
+  });
+});
+
+describe("resolveGS1Elements", () => {
+  test("formats dates, uses fallbacks and drops empty elements", () => {
+    const values: Record<string, unknown> = {
+      gtin: "09506000134352",
+      expiry: new Date("2027-06-30T00:00:00Z"),
+      lot: "",
+      serial: null,
+    };
+    const elements = resolveGS1Elements(
+      {
+        elements: [
+          { ai: "01", source: "gtin" },
+          { ai: "17", source: "expiry" },
+          { ai: "10", source: "lot", fallback: "NOLOT" },
+          { ai: "21", source: "serial" },
+        ],
+      },
+      (source) => values[source]
+    );
+
+    expect(elements).toEqual([
+      { ai: "01", value: "09506000134352" },
+      { ai: "17", value: "270630" },
+      { ai: "10", value: "NOLOT" },
+    ]);
+  });
+});
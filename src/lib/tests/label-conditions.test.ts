@@ -0,0 +1,167 @@
+import { describe, test, expect } from "bun:test";
+import { evaluateLabelCondition, getConditionError } from "@/lib/label-conditions";
+import type { ConditionOperator, LabelCondition } from "@/types/label-spec";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+
+// 2024-03-05 22:00 UTC is already March 6 in Tokyo
+const NOW = new Date("2024-03-05T22:00:00Z");
+
+const VALUES: Record<string, unknown> = {
+  assetTag: "LAP-0042",
+  status: "active",
+  location: "Berlin Office",
+  notes: "",
+  department: null,
+  "customFields.rackUnit": 12,
+  warrantyExpiry: new Date("2024-03-01T00:00:00Z"),
+  purchaseDate: "2024-06-05",
+};
+
+function evaluate(condition: LabelCondition, values = VALUES, timezone = "UTC"): boolean {
+  return evaluateLabelCondition(condition, (path) => values[path], { ...DEFAULT_DATE_SETTINGS, timezone }, NOW);
+}
+
+function field(field: string, operator: ConditionOperator, value?: string): LabelCondition {
+  return { field, operator, value };
+}
+
+describe("evaluateLabelCondition", () => {
+  test.each([
+    [field("status", "eq", "active"), true],
+    [field("status", "neq", "active"), false],
+    [field("location", "contains", "Berlin"), true],
+    [field("notes", "empty"), true],
+    [field("department", "empty"), true],
+    [field("assetTag", "notEmpty"), true],
+    [field("status", "in", "retired, active"), true],
+    [field("status", "notIn", "retired,lost"), true],
+    [field("customFields.rackUnit", "eq", "12"), true],
+    [field("warrantyExpiry", "eq", "2024-03-01"), true], // dates compare in the tenant format
+  ] as const)("evaluates %p as %p", (condition, expected) => {
+    expect(evaluate(condition)).toBe(expected);
+  });
+
+  test("compares numbers and dates", () => {
+    expect(evaluate(field("customFields.rackUnit", "gt", "9"))).toBe(true);
+    expect(evaluate(field("customFields.rackUnit", "lte", "11.5"))).toBe(false);
+    expect(evaluate(field("warrantyExpiry", "lt", "today"))).toBe(true);
+    expect(evaluate(field("purchaseDate", "gte", "today+3m"))).toBe(true);
+    expect(evaluate(field("purchaseDate", "gt", "today+1y"))).toBe(false);
+    expect(evaluate(field("warrantyExpiry", "gte", "2024-03-01"))).toBe(true);
+  });
+
+  test("never matches comparisons on missing or non-numeric values", () => {
+    expect(evaluate(field("department", "lt", "today"))).toBe(false);
+    expect(evaluate(field("department", "gte", "today"))).toBe(false);
+    expect(evaluate(field("location", "gt", "0"))).toBe(false);
+  });
+
+  test("resolves relative dates in the tenant timezone", () => {
+    const values = { due: "2024-03-06" };
+
+    expect(evaluate(field("due", "eq", "2024-03-06"), values)).toBe(true);
+    expect(evaluate(field("due", "gt", "today"), values, "UTC")).toBe(true);
+    expect(evaluate(field("due", "gt", "today"), values, "Asia/Tokyo")).toBe(false);
+    expect(evaluate(field("due", "eq", "today+1d"), values, "UTC")).toBe(false);
+    expect(evaluate(field("due", "gte", "today+1d"), values, "UTC")).toBe(true);
+  });
+
+  test("clamps month offsets to the end of shorter months", () => {
+    const janThirtyFirst = new Date("2024-01-31T12:00:00Z");
+    const lookup = (path: string) => ({ due: "2024-02-29" })[path];
+
+    expect(evaluateLabelCondition(field("due", "lte", "today+1m"), lookup, DEFAULT_DATE_SETTINGS, janThirtyFirst)).toBe(true);
+    expect(evaluateLabelCondition(field("due", "lt", "today+1m"), lookup, DEFAULT_DATE_SETTINGS, janThirtyFirst)).toBe(false);
+  });
+
+  test("combines groups with all and any", () => {
+    const expired: LabelCondition = {
+      match: "all",
+      conditions: [
+        field("status", "eq", "active"),
+        { match: "any", conditions: [field("warrantyExpiry", "lt", "today"), field("notes", "notEmpty")] },
+      ],
+    };
+
+    expect(evaluate(expired)).toBe(true);
+    expect(evaluate({ ...expired, match: "any", conditions: [field("status", "eq", "lost"), expired] })).toBe(true);
+    expect(evaluate({ match: "all", conditions: [field("status", "eq", "lost"), expired] })).toBe(false);
+  });
+
+  test.each([
+    ["^LAP-\\d{4}$", "LAP-0042", true],
+    ["^LAP-\\d{4}$", "LAP-00421", false],
+    ["^(?:LAP|DSK)-[0-9]+$", "DSK-7", true],
+    ["office", "Berlin Office", false],
+    ["\\bOffice$", "Berlin Office", true],
+    ["colou?r", "color", true],
+    ["^x{2,3}$", "xxxx", false],
+    ["a.c", "a\nc", false],
+    ["^$", "", true],
+  ])("matches %p against %p as %p", (pattern, value, expected) => {
+    expect(evaluate(field("value", "matches", pattern), { value })).toBe(expected);
+  });
+
+  test("matches patterns in linear time", () => {
+    const value = "1".repeat(999) + "x";
+    const started = performance.now();
+
+    expect(evaluate(field("value", "matches", "\\d*\\d*\\d*y"), { value })).toBe(false);
+    expect(evaluate(field("value", "matches", "^\\d{0,40}\\d{0,40}\\d{0,40}\\d{0,40}\\d{0,40}\\d{0,40}$"), { value })).toBe(false);
+    expect(evaluate(field("value", "matches", "(?:1|1)(?:1|1)(?:1|1)(?:1|1)(?:1|1)(?:1|1)y"), { value })).toBe(false);
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+
+  test("does not match invalid patterns", () => {
+    expect(evaluate(field("assetTag", "matches", "(LAP"))).toBe(false);
+    expect(evaluate(field("assetTag", "matches", "(LAP)+"))).toBe(false);
+  });
+});
+
+describe("getConditionError", () => {
+  test("accepts valid conditions", () => {
+    expect(getConditionError(field("status", "empty"))).toBeNull();
+    expect(getConditionError(field("warrantyExpiry", "lt", "today-2w"))).toBeNull();
+    expect(getConditionError(field("assetTag", "matches", "^[A-Z]{3}-\\d+$|^TMP-"))).toBeNull();
+  });
+
+  test.each([
+    [field(" ", "eq", "x"), "Every condition needs a field"],
+    [field("status", "eq", "  "), "Condition on status needs a value"],
+    [field("purchaseDate", "lt", "yesterday"), "Compare purchaseDate against a number, a YYYY-MM-DD date or today±N(d|w|m|y)"],
+    [{ match: "all", conditions: [] }, "Condition groups need at least one condition"],
+    [
+      { match: "any", conditions: Array.from({ length: 21 }, () => field("status", "empty")) },
+      "Condition groups may hold at most 20 conditions",
+    ],
+  ] as const)("rejects %p", (condition, message) => {
+    expect(getConditionError(condition as LabelCondition)).toBe(message);
+  });
+
+  test("limits group nesting", () => {
+    let condition: LabelCondition = field("status", "empty");
+    for (let depth = 0; depth < 5; depth++) {
+      condition = { match: "all", conditions: [condition] };
+    }
+    expect(getConditionError(condition)).toBe("Condition groups may nest at most 4 levels");
+  });
+
+  test.each([
+    ["(ab)+", "Patterns may only repeat a single character or class, e.g. \\d+ but not (ab)+"],
+    ["(?:a|b)*", "Patterns may only repeat a single character or class, e.g. \\d+ but not (ab)+"],
+    ["a**", "Patterns may only repeat a single character or class, e.g. \\d+ but not (ab)+"],
+    ["^*", "Patterns may only repeat a single character or class, e.g. \\d+ but not (ab)+"],
+    ["(a)\\1", "Patterns may not use backreferences"],
+    ["(?<tag>a)\\k<tag>", "Patterns may only use plain (...) or (?:...) groups"],
+    ["(?=LAP)", "Patterns may only use plain (...) or (?:...) groups"],
+    ["\\d{200}\\d{60}", "Patterns may hold at most 250 characters once repeats are counted"],
+    ["(LAP", "Invalid pattern: (LAP"],
+    ["LAP)", "Invalid pattern: LAP)"],
+    ["[a-", "Invalid pattern: [a-"],
+    ["[z-a]", "Invalid pattern: [z-a]"],
+    ["a{3,1}", "Invalid pattern: a{3,1}"],
+    ["x".repeat(201), "Patterns may be at most 200 characters"],
+  ])("rejects the pattern %p", (pattern, message) => {
+    expect(getConditionError(field("assetTag", "matches", pattern))).toBe(message);
+  });
+});
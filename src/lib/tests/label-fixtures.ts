@@ -0,0 +1,141 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { LabelField, LabelSpec, TextStyle } from "@/types/label-spec";
+import type { RenderAssetData } from "@/types/print";
+import type { FontFileFormat, RenderFont } from "@/types/font";
+import type { DisplayItem } from "@/lib/label-layout";
+
+/**
+ * Shared label spec and asset for the layout and renderer tests
+ */
+
+export const PIXEL_PNG =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
+
+// A monospaced TrueType font that ships with bwip-js, for uploaded font tests
+export const OCRB_FONT_DATA = new Uint8Array(
+  readFileSync(join(import.meta.dir, "../../../node_modules/bwip-js/fonts/OCRB7.ttf"))
+);
+
+export function createTestFont(format: FontFileFormat = "ttf"): RenderFont {
+  return { id: "font-1", family: "OCRB", weight: "normal", style: "normal", format, data: OCRB_FONT_DATA };
+}
+
+export const TEXT_STYLE: TextStyle = {
+  fontFamily: "Helvetica",
+  fontSize: 10,
+  fontWeight: "normal",
+  fontStyle: "normal",
+  color: "#000000",
+  textAlign: "left",
+  verticalAlign: "top",
+};
+
+export function createTestAsset(overrides: Partial<RenderAssetData> = {}): RenderAssetData {
+  return {
+    id: "asset-1",
+    assetTag: "LAP-0001",
+    serialNumber: "SN123456",
+    manufacturer: "Lenovo",
+    model: "ThinkPad T14",
+    category: "Laptop",
+    type: "laptop",
+    location: "HQ",
+    department: null,
+    assignedTo: null,
+    status: "active",
+    purchaseDate: new Date("2024-03-15T12:00:00Z"),
+    warrantyExpiry: null,
+    customFields: {},
+    ...overrides,
+  };
+}
+
+export function createTestField(overrides: Partial<LabelField> & Pick<LabelField, "id" | "type">): LabelField {
+  return {
+    source: "assetTag",
+    position: { x: 0, y: 0 },
+    size: { width: 20, height: 5 },
+    style: TEXT_STYLE,
+    ...overrides,
+  };
+}
+
+export function createTestSpec(overrides: Partial<LabelSpec> = {}): LabelSpec {
+  return {
+    id: "spec-1",
+    version: "1.0",
+    name: "Test Label",
+    dimensions: { width: 60, height: 30, unit: "mm" },
+    dpi: 203,
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+    elements: [
+      {
+        id: "frame",
+        type: "rect",
+        position: { x: 0, y: 0 },
+        size: { width: 60, height: 30 },
+        style: { stroke: "#000000", strokeWidth: 1 },
+      },
+      {
+        id: "rule",
+        type: "line",
+        position: { x: 2, y: 15 },
+        size: { width: 56, height: 0 },
+        style: { stroke: "#333333", strokeWidth: 0.5 },
+      },
+      {
+        id: "title",
+        type: "text",
+        position: { x: 2, y: 1 },
+        size: { width: 30, height: 5 },
+        content: "Property of IT",
+        style: { fontSize: 8, fontWeight: "bold" },
+      },
+      {
+        id: "logo",
+        type: "logo",
+        position: { x: 50, y: 1 },
+        size: { width: 8, height: 8 },
+        content: PIXEL_PNG,
+        style: {},
+      },
+    ],
+    fields: [
+      createTestField({ id: "tag", type: "text", position: { x: 2, y: 6 }, rotation: 0 }),
+      createTestField({
+        id: "serial",
+        type: "barcode",
+        source: "serialNumber",
+        position: { x: 2, y: 16 },
+        size: { width: 30, height: 12 },
+        style: {
+          format: "CODE128",
+          displayValue: true,
+          fontSize: 6,
+          textAlign: "center",
+          background: "#ffffff",
+          lineColor: "#000000",
+          width: 1,
+          height: 10,
+        },
+      }),
+      createTestField({
+        id: "qr",
+        type: "qrcode",
+        source: "serialNumber",
+        position: { x: 40, y: 16 },
+        size: { width: 12, height: 12 },
+        style: { errorCorrectionLevel: "M", margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+      }),
+    ],
+    ...overrides,
+  };
+}
+
+/**
+ * Leaf items of a display list, with group offsets left as they are
+ */
+export function flattenItems(items: DisplayItem[]): DisplayItem[] {
+  return items.flatMap((item) => (item.type === "group" ? flattenItems(item.items) : [item]));
+}
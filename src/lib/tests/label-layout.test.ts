@@ -0,0 +1,263 @@
+import { describe, test, expect } from "bun:test";
+import { createLayoutCache, layoutLabel } from "@/lib/label-layout";
+import type { DisplayGroup, DisplayItem, DisplayRect, DisplayText, FieldValueResolver } from "@/lib/label-layout";
+import { mmToPoints } from "@/lib/print-utils";
+import type { BarcodeStyle, DataMatrixStyle } from "@/types/label-spec";
+import {
+  PIXEL_PNG,
+  TEXT_STYLE,
+  createTestAsset,
+  createTestField,
+  createTestSpec,
+  flattenItems,
+} from "@/lib/tests/label-fixtures";
+
+const BARCODE_STYLE: BarcodeStyle = {
+  format: "CODE128",
+  displayValue: false,
+  fontSize: 6,
+  textAlign: "center",
+  background: "#ffffff",
+  lineColor: "#000000",
+  width: 1,
+  height: 10,
+};
+
+const DATAMATRIX_STYLE: DataMatrixStyle = {
+  shape: "square",
+  margin: 1,
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+};
+
+function findGroup(items: DisplayItem[], id: string): DisplayGroup {
+  const group = items.find((item): item is DisplayGroup => item.type === "group" && item.id === id);
+  if (!group) throw new Error(`No group ${id}`);
+  return group;
+}
+
+function ofType<T extends DisplayItem["type"]>(items: DisplayItem[], type: T): Extract<DisplayItem, { type: T }>[] {
+  return items.filter((item): item is Extract<DisplayItem, { type: T }> => item.type === type);
+}
+
+describe("layoutLabel", () => {
+  test("lays out elements then fields as positioned groups in points", () => {
+    const layout = layoutLabel(createTestSpec(), createTestAsset());
+
+    expect(layout.width).toBeCloseTo(mmToPoints(60));
+    expect(layout.height).toBeCloseTo(mmToPoints(30));
+    expect(layout.items.map((item) => (item as DisplayGroup).id)).toEqual([
+      "frame",
+      "rule",
+      "title",
+      "logo",
+      "tag",
+      "serial",
+      "qr",
+    ]);
+
+    const tag = findGroup(layout.items, "tag");
+    expect(tag.x).toBeCloseTo(mmToPoints(2));
+    expect(tag.y).toBeCloseTo(mmToPoints(6));
+    expect(layout.overflow).toEqual([]);
+  });
+
+  test("skips hidden items and items whose condition fails", () => {
+    const spec = createTestSpec({
+      fields: [
+        createTestField({ id: "shown", type: "text", condition: { field: "status", operator: "eq", value: "active" } }),
+        createTestField({ id: "retired", type: "text", condition: { field: "status", operator: "eq", value: "retired" } }),
+        createTestField({ id: "hidden", type: "text", visible: false }),
+      ],
+      elements: [],
+    });
+
+    const layout = layoutLabel(spec, createTestAsset());
+    expect(layout.items.map((item) => (item as DisplayGroup).id)).toEqual(["shown"]);
+  });
+
+  test("draws rects, lines, static text and data URL images", () => {
+    const spec = createTestSpec({
+      elements: [
+        {
+          id: "badge",
+          type: "rect",
+          position: { x: 0, y: 0 },
+          size: { width: 10, height: 5 },
+          style: { fill: "#ff0000", stroke: "#000000", strokeWidth: 2, borderRadius: 1 },
+        },
+        { id: "empty", type: "rect", position: { x: 0, y: 0 }, size: { width: 10, height: 5 }, style: {} },
+        ...createTestSpec().elements.slice(1),
+        { id: "remote", type: "image", position: { x: 0, y: 0 }, size: { width: 5, height: 5 }, content: "https://example.com/a.png", style: {} },
+      ],
+      fields: [createTestField({ id: "photo", type: "image", source: "customFields.photo" })],
+    });
+    const layout = layoutLabel(spec, createTestAsset({ customFields: { photo: PIXEL_PNG } }));
+
+    const [badge] = findGroup(layout.items, "badge").items as DisplayRect[];
+    expect(badge).toMatchObject({ fill: "#ff0000", stroke: "#000000", strokeWidth: 2 });
+    expect(badge!.radius).toBeCloseTo(mmToPoints(1));
+    expect(findGroup(layout.items, "empty").items).toEqual([]);
+
+    expect(findGroup(layout.items, "rule").items).toEqual([
+      { type: "line", x1: 0, y1: 0, x2: mmToPoints(56), y2: 0, stroke: "#333333", strokeWidth: 0.5 },
+    ]);
+
+    const [title] = findGroup(layout.items, "title").items as DisplayText[];
+    expect(title).toMatchObject({
+      text: "Property of IT",
+      fontSize: 8,
+      align: "left",
+      font: { family: "Arial", weight: "bold", style: "normal", faceId: null },
+    });
+
+    expect(findGroup(layout.items, "logo").items).toEqual([
+      { type: "image", x: 0, y: 0, width: mmToPoints(8), height: mmToPoints(8), src: PIXEL_PNG },
+    ]);
+    expect(findGroup(layout.items, "remote").items[0]).toMatchObject({ type: "marker", severity: "placeholder" });
+    expect(findGroup(layout.items, "photo").items[0]).toMatchObject({ type: "image", src: PIXEL_PNG });
+  });
+
+  test("anchors text at the alignment edge and rotates its group", () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [
+        createTestField({ id: "right", type: "text", rotation: 90, style: { ...TEXT_STYLE, textAlign: "right", textTransform: "lowercase" } }),
+        createTestField({ id: "center", type: "text", style: { ...TEXT_STYLE, textAlign: "center" } }),
+      ],
+    });
+    const layout = layoutLabel(spec, createTestAsset());
+
+    const right = findGroup(layout.items, "right");
+    expect(right.rotation).toBe(90);
+    expect(right.items[0]).toMatchObject({ text: "lap-0001", x: mmToPoints(20), align: "right" });
+    expect(findGroup(layout.items, "center").items[0]).toMatchObject({ x: mmToPoints(10), align: "center" });
+  });
+
+  test("records truncated text and marks it behind the text", () => {
+    const field = createTestField({
+      id: "model",
+      type: "text",
+      source: "model",
+      size: { width: 5, height: 5 },
+      style: { ...TEXT_STYLE, overflow: "ellipsis" },
+    });
+    const layout = layoutLabel(createTestSpec({ elements: [], fields: [field] }), createTestAsset());
+
+    expect(layout.overflow).toHaveLength(1);
+    expect(layout.overflow[0]!.field).toBe(field);
+    expect(layout.overflow[0]!.layout.truncated).toBe(true);
+
+    const [marker, text] = findGroup(layout.items, "model").items;
+    expect(marker).toMatchObject({ type: "marker", severity: "warning", message: "Text does not fit" });
+    expect((text as DisplayText).text.endsWith("...")).toBe(true);
+  });
+
+  test("draws 1D barcode bars inside the quiet zone with the value below", () => {
+    const layout = layoutLabel(createTestSpec({ elements: [] }), createTestAsset());
+    const [background, ...rest] = findGroup(layout.items, "serial").items;
+    const bars = ofType(rest, "rect");
+    const [label] = ofType(rest, "text");
+
+    expect(background).toMatchObject({ x: 0, y: 0, width: mmToPoints(30), height: mmToPoints(12), fill: "#ffffff" });
+    expect(bars.length).toBeGreaterThan(10);
+    for (const bar of bars) {
+      expect(bar.fill).toBe("#000000");
+      expect(bar.x).toBeGreaterThan(0);
+      expect(bar.x + bar.width).toBeLessThan(mmToPoints(30));
+      expect(bar.height).toBeCloseTo(mmToPoints(12) - 6 * 1.2);
+    }
+    expect(label).toMatchObject({ text: "SN123456", align: "center", font: { family: "Courier" } });
+  });
+
+  test("snaps barcode modules to whole pixels for raster output", () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [createTestField({ id: "bars", type: "barcode", size: { width: 40, height: 10 }, style: BARCODE_STYLE })],
+    });
+    const pixelsPerPoint = 203 / 72;
+    const layout = layoutLabel(spec, createTestAsset(), { pixelsPerPoint });
+    const bars = ofType(findGroup(layout.items, "bars").items, "rect").slice(1);
+
+    for (const bar of bars) {
+      const pixels = bar.width * pixelsPerPoint;
+      expect(Math.abs(pixels - Math.round(pixels))).toBeLessThan(1e-9);
+    }
+  });
+
+  test("lays out QR and DataMatrix modules on a light background", () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [
+        createTestSpec().fields[2]!,
+        createTestField({ id: "dm", type: "datamatrix", size: { width: 10, height: 10 }, style: DATAMATRIX_STYLE }),
+      ],
+    });
+    const layout = layoutLabel(spec, createTestAsset());
+
+    for (const id of ["qr", "dm"]) {
+      const [background, ...modules] = findGroup(layout.items, id).items as DisplayRect[];
+      expect(background!.fill).toBe("#ffffff");
+      expect(modules.length).toBeGreaterThan(0);
+      for (const module of modules) {
+        expect(module.fill).toBe("#000000");
+        expect(module.x).toBeGreaterThanOrEqual(background!.x);
+        expect(module.x + module.width).toBeLessThanOrEqual(background!.x + background!.width + 1e-9);
+      }
+    }
+  });
+
+  test("shows an error in place of a symbol that cannot be encoded", () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [createTestField({ id: "ean", type: "barcode", source: "model", style: { ...BARCODE_STYLE, format: "EAN13" } })],
+    });
+    const [marker, text] = findGroup(layoutLabel(spec, createTestAsset()).items, "ean").items;
+
+    expect(marker).toMatchObject({ type: "marker", severity: "error" });
+    expect(text).toMatchObject({ type: "text", text: "Invalid barcode", color: "#ff0000", fontSize: 8 });
+  });
+
+  test("encodes GS1 element strings instead of the source", () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [
+        createTestField({
+          id: "gs1",
+          type: "barcode",
+          style: { ...BARCODE_STYLE, displayValue: true },
+          gs1: { elements: [{ ai: "01", source: "customFields.gtin" }, { ai: "21", source: "serialNumber" }] },
+        }),
+        createTestField({ id: "missing", type: "datamatrix", style: DATAMATRIX_STYLE, gs1: { elements: [] } }),
+      ],
+    });
+    const layout = layoutLabel(spec, createTestAsset({ customFields: { gtin: "09506000134352" } }));
+
+    const [label] = ofType(findGroup(layout.items, "gs1").items, "text");
+    expect(label!.text).toBe("(01)09506000134352(21)SN123456");
+    expect(findGroup(layout.items, "missing").items).toEqual([]);
+  });
+
+  test("reuses encoded symbols from a shared cache", () => {
+    const cache = createLayoutCache();
+    const spec = createTestSpec();
+
+    const first = layoutLabel(spec, createTestAsset(), { cache });
+    const second = layoutLabel(spec, createTestAsset({ id: "asset-2" }), { cache });
+
+    expect(cache.barcodes.size).toBe(1);
+    expect(cache.qrCodes.size).toBe(1);
+    expect(flattenItems(second.items)).toEqual(flattenItems(first.items));
+  });
+
+  test("reads values through a custom resolver", () => {
+    const resolver: FieldValueResolver = {
+      value: (field) => `<${field.source}>`,
+      gs1: () => [],
+    };
+    const spec = createTestSpec({ elements: [], fields: [createTestField({ id: "tag", type: "text" })] });
+    const [text] = findGroup(layoutLabel(spec, createTestAsset(), { resolver }).items, "tag").items;
+
+    expect(text).toMatchObject({ text: "<assetTag>" });
+  });
+});
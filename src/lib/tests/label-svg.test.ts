@@ -0,0 +1,127 @@
+import { describe, test, expect } from "bun:test";
+import { displayItemsToSvg, escapeXml, renderSvgDocument } from "@/lib/label-svg";
+import type { SvgFontFace } from "@/lib/label-svg";
+import type { DisplayItem, DisplayText, LabelLayout } from "@/lib/label-layout";
+
+const TEXT: DisplayText = {
+  type: "text",
+  x: 10,
+  y: 12.3456,
+  text: "R&D <Lab>",
+  font: { family: "Times New Roman", weight: "bold", style: "italic", faceId: null },
+  fontSize: 9,
+  color: "#112233",
+  align: "center",
+};
+
+const FACE: SvgFontFace = {
+  id: "font-1",
+  family: "Corporate Sans",
+  weight: "normal",
+  style: "normal",
+  src: "data:font/ttf;base64,AAAA",
+};
+
+function createLayout(items: DisplayItem[]): LabelLayout {
+  return { width: 144, height: 72, items, overflow: [] };
+}
+
+describe("displayItemsToSvg", () => {
+  test("translates and rotates groups", () => {
+    const svg = displayItemsToSvg([
+      { type: "group", id: "a", x: 5, y: 6, rotation: 0, items: [] },
+      { type: "group", id: "b", x: 1.23456, y: 2, rotation: 90, items: [] },
+    ]);
+
+    expect(svg).toBe(`<g transform="translate(5 6)"></g><g transform="translate(1.235 2) rotate(90)"></g>`);
+  });
+
+  test("draws rects, lines and images", () => {
+    const svg = displayItemsToSvg([
+      { type: "rect", x: 0, y: 0, width: 10, height: 5, fill: "#ff0000", stroke: null, strokeWidth: 0, radius: 0 },
+      { type: "rect", x: 1, y: 1, width: 8, height: 3, fill: null, stroke: "#000000", strokeWidth: 0.5, radius: 2 },
+      { type: "line", x1: 0, y1: 0, x2: 10, y2: 0, stroke: "#333333", strokeWidth: 1 },
+      { type: "image", x: 0, y: 0, width: 4, height: 4, src: "data:image/png;base64,AA==" },
+    ]);
+
+    expect(svg).toBe(
+      `<rect x="0" y="0" width="10" height="5" fill="#ff0000"/>` +
+        `<rect x="1" y="1" width="8" height="3" rx="2" fill="none" stroke="#000000" stroke-width="0.5"/>` +
+        `<line x1="0" y1="0" x2="10" y2="0" stroke="#333333" stroke-width="1"/>` +
+        `<image x="0" y="0" width="4" height="4" href="data:image/png;base64,AA==" preserveAspectRatio="none"/>`
+    );
+  });
+
+  test("escapes text and maps standard fonts to CSS families", () => {
+    expect(displayItemsToSvg([TEXT])).toBe(
+      `<text x="10" y="12.346" font-family="&apos;Times New Roman&apos;, Times, serif" font-size="9" ` +
+        `font-weight="bold" font-style="italic" text-anchor="middle" fill="#112233" xml:space="preserve">` +
+        `R&amp;D &lt;Lab&gt;</text>`
+    );
+  });
+
+  test("names tenant faces by family", () => {
+    const svg = displayItemsToSvg([{ ...TEXT, font: { ...TEXT.font, family: "Corporate Sans", faceId: FACE.id } }]);
+    expect(svg).toContain(`font-family="&quot;Corporate Sans&quot;"`);
+  });
+
+  test("draws markers only when asked", () => {
+    const marker: DisplayItem = {
+      type: "marker",
+      x: 0,
+      y: 0,
+      width: 10,
+      height: 5,
+      severity: "error",
+      message: "Value <bad>",
+    };
+
+    expect(displayItemsToSvg([marker])).toBe("");
+    expect(displayItemsToSvg([marker], { markers: true })).toBe(
+      `<rect x="0" y="0" width="10" height="5" fill="#fef2f2" stroke="#ef4444" stroke-width="0.5" ` +
+        `stroke-dasharray="1.5 1.5"><title>Value &lt;bad&gt;</title></rect>`
+    );
+    expect(displayItemsToSvg([{ ...marker, severity: "placeholder", message: undefined }], { markers: true })).toBe(
+      `<rect x="0" y="0" width="10" height="5" fill="#f3f4f6" stroke="#d1d5db" stroke-width="0.5"/>`
+    );
+  });
+});
+
+describe("renderSvgDocument", () => {
+  test("sizes the document in the label unit with a viewBox in points", () => {
+    const svg = renderSvgDocument(createLayout([]), { width: 50.8, height: 25.4, unit: "mm" });
+
+    expect(svg.startsWith(`<?xml version="1.0" encoding="UTF-8"?>\n`)).toBe(true);
+    expect(svg).toContain(`width="50.8mm" height="25.4mm" viewBox="0 0 144 72"`);
+    expect(svg).not.toContain("<style>");
+  });
+
+  test("embeds only the tenant faces its text uses", () => {
+    const unused: SvgFontFace = { ...FACE, id: "font-2", family: "Unused" };
+    const layout = createLayout([
+      {
+        type: "group",
+        id: "tag",
+        x: 0,
+        y: 0,
+        rotation: 0,
+        items: [{ ...TEXT, font: { family: FACE.family, weight: "normal", style: "normal", faceId: FACE.id } }],
+      },
+    ]);
+    const svg = renderSvgDocument(layout, { width: 2, height: 1, unit: "in" }, [FACE, unused]);
+
+    expect(svg).toContain(
+      `<style>@font-face { font-family: &quot;Corporate Sans&quot;; src: url(&quot;data:font/ttf;base64,AAAA&quot;); ` +
+        `font-weight: normal; font-style: normal; }</style>`
+    );
+    expect(svg).not.toContain("Unused");
+  });
+});
+
+describe("escapeXml", () => {
+  test("escapes markup and quote characters", () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;"
+    );
+  });
+});
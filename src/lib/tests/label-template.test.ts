@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import { TemplateSyntaxError, getTemplatePaths, parseTemplate, renderTemplate } from "@/lib/label-template";
+
+const VALUES: Record<string, unknown> = {
+  assetTag: "LAP-0042",
+  status: "active",
+  location: "berlin office",
+  notes: "",
+  department: null,
+  "customFields.rackUnit": 7,
+  purchaseDate: new Date("2024-03-05T12:00:00Z"),
+};
+
+function render(template: string, values = VALUES): string {
+  return renderTemplate(template, (path) => values[path]);
+}
+
+function nested(depth: number): string {
+  return `{{ ${"(".repeat(depth)}assetTag${")".repeat(depth)} }}`;
+}
+
+function filtered(count: number): string {
+  return `{{ assetTag${" | trim".repeat(count)} }}`;
+}
+
+describe("renderTemplate", () => {
+  test("reads paths and applies filters", () => {
+    expect(render("Rack {{ customFields.rackUnit | pad:2:\"0\" }} / {{ location | capitalize }}")).toBe(
+      "Rack 07 / Berlin Office"
+    );
+    expect(render("{{ assetTag | lower | replace:\"-\":\"_\" }}")).toBe("lap_0042");
+    expect(render("{{ location | truncate:8:\"…\" }}")).toBe("berlin …");
+    expect(render("{{ purchaseDate | date:\"DD.MM.YYYY\" }}")).toBe("05.03.2024");
+    expect(render("{{ assetTag + \"/\" + status | upper }}")).toBe("LAP-0042/ACTIVE");
+  });
+
+  test("treats empty values as falsy in ternaries", () => {
+    expect(render("{{ status == \"active\" ? \"In use\" : \"Spare\" }}")).toBe("In use");
+    expect(render("{{ status != \"active\" ? \"In use\" : \"Spare\" }}")).toBe("Spare");
+    expect(render("{{ notes ? notes : \"-\" }}")).toBe("-");
+    expect(render("{{ department ? \"Dept\" : \"None\" }}")).toBe("None");
+    expect(render("{{ missing ? \"yes\" : \"no\" }}")).toBe("no");
+  });
+
+  test("nests ternaries and keeps spaced colons for the ternary", () => {
+    expect(render("{{ notes ? \"a\" : status == \"lost\" ? \"b\" : \"c\" }}")).toBe("c");
+    expect(render("{{ status ? location | upper : \"x\" }}")).toBe("BERLIN OFFICE");
+  });
+
+  test("falls back to defaults for empty values only", () => {
+    expect(render("{{ notes ?? department ?? \"n/a\" }}")).toBe("n/a");
+    expect(render("{{ status ?? \"n/a\" }}")).toBe("active");
+    expect(render("{{ notes | default:\"none\" }}")).toBe("none");
+    expect(render("{{ customFields.rackUnit | default:\"none\" }}")).toBe("7");
+  });
+
+  test("never reads blocked path segments", () => {
+    const lookup = (path: string) => {
+      throw new Error(`read ${path}`);
+    };
+
+    for (const template of ["{{ __proto__ }}", "{{ asset.constructor }}", "{{ customFields.prototype.x }}"]) {
+      expect(() => renderTemplate(template, lookup)).toThrow(TemplateSyntaxError);
+    }
+  });
+
+  test("clamps the output", () => {
+    const template = "{{ assetTag | pad:200 + assetTag | pad:200 + assetTag | pad:200 }}".repeat(3);
+    expect(render(template)).toHaveLength(1000);
+    expect(render("{{ status | replace:\"a\":\"aaaaaaaaaa\" | replace:\"a\":\"aaaaaaaaaa\" | replace:\"a\":\"aaaaaaaaaa\" }}")).toHaveLength(1000);
+  });
+});
+
+describe("parseTemplate", () => {
+  test("splits text and expressions", () => {
+    expect(parseTemplate("Tag: {{ assetTag }}!").map((node) => node.type)).toEqual(["text", "expression", "text"]);
+    expect(getTemplatePaths("{{ a ? b | upper : c ?? (d + \"x\") }}")).toEqual(["a", "b", "c", "d"]);
+  });
+
+  test("limits template length", () => {
+    expect(() => parseTemplate("x".repeat(1000))).not.toThrow();
+    expect(() => parseTemplate("x".repeat(1001))).toThrow("Template exceeds 1000 characters at position 1001");
+  });
+
+  test("limits expression depth", () => {
+    expect(render(nested(19))).toBe("LAP-0042");
+    expect(() => parseTemplate(nested(20))).toThrow("Expression is nested too deeply at position 24");
+  });
+
+  test("limits filter chains", () => {
+    expect(render(filtered(8))).toBe("LAP-0042");
+    expect(() => parseTemplate(filtered(9))).toThrow("At most 8 filters can be chained at position 71");
+  });
+
+  test.each([
+    ["{{ __proto__ }}", "\"__proto__\" is not allowed in a path at position 4"],
+    ["{{ asset.constructor }}", "\"constructor\" is not allowed in a path at position 4"],
+    ["{{ prototype | upper }}", "\"prototype\" is not allowed in a path at position 4"],
+    ["{{ name | shout }}", "Unknown filter \"shout\" at position 11"],
+    ["{{ name | toString }}", "Unknown filter \"toString\" at position 11"],
+    ["{{ name", "Unclosed {{ at position 1"],
+    ["{{  }}", "Empty expression at position 5"],
+    ["{{ \"abc }}", "Unterminated string at position 4"],
+    ["{{ name | pad }}", "Filter \"pad\" is used as pad:4[:\"0\"] at position 11"],
+    ["{{ name | pad:\"4\" }}", "Filter \"pad\" argument 1 must be a number at position 15"],
+    ["{{ name | upper:name }}", "Filter \"upper\" arguments must be literals at position 17"],
+    ["{{ name $ }}", "Unexpected character \"$\" at position 9"],
+    ["{{ name name }}", "Unexpected \"name\" at position 9"],
+    ["{{ a ? b }}", "Expected \":\" at position 10"],
+    ["{{ (a }}", "Expected \")\" at position 7"],
+    ["{{ a + }}", "Unexpected end of expression at position 8"],
+  ])("rejects %p", (template, message) => {
+    let error: unknown;
+    try {
+      parseTemplate(template);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TemplateSyntaxError);
+    expect((error as TemplateSyntaxError).message).toBe(message);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, test, expect } from "bun:test";
+import {
+  encodeMatrixBarcode,
+  fitMatrixBarcode,
+  getPDF417Dimensions,
+  isDarkModule,
+  isMatrixBarcodeType,
+  matrixBarcodeRects,
+} from "@/lib/matrix-barcode";
+import type { MatrixBarcode } from "@/lib/matrix-barcode";
+import { encodeGS1 } from "@/lib/gs1";
+import type { AztecStyle, DataMatrixStyle, PDF417Style } from "@/types/label-spec";
+
+const DATAMATRIX: DataMatrixStyle = { shape: "square", margin: 1, darkColor: "#000000", lightColor: "#ffffff" };
+const PDF417: PDF417Style = {
+  columns: 3,
+  errorCorrectionLevel: 2,
+  rowHeight: 3,
+  compact: false,
+  margin: 1,
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+};
+const AZTEC: AztecStyle = { errorCorrectionPercent: 23, format: "compact", margin: 1, darkColor: "#000000", lightColor: "#ffffff" };
+
+const PDF417_START = "11111111010101000";
+const PDF417_STOP = "111111101000101001";
+
+function row(barcode: MatrixBarcode, index: number): string {
+  return Array.from({ length: barcode.columns }, (_, column) => (isDarkModule(barcode, index, column) ? "1" : "0")).join("");
+}
+
+/**
+ * DataMatrix finder pattern: solid left and bottom edges, alternating top
+ * and right edges
+ */
+function expectDataMatrixFinder(barcode: MatrixBarcode): void {
+  const last = barcode.rows - 1;
+
+  expect(row(barcode, last)).toBe("1".repeat(barcode.columns));
+  expect(row(barcode, 0)).toBe("10".repeat(barcode.columns / 2));
+  for (let index = 0; index < barcode.rows; index++) {
+    expect(isDarkModule(barcode, index, 0)).toBe(true);
+    expect(isDarkModule(barcode, index, barcode.columns - 1)).toBe(index % 2 === 1);
+  }
+}
+
+describe("encodeMatrixBarcode", () => {
+  test("encodes DataMatrix in the smallest square symbol with the finder pattern", () => {
+    const barcode = encodeMatrixBarcode("datamatrix", "SN123456", DATAMATRIX);
+
+    expect(barcode).toMatchObject({ type: "datamatrix", columns: 12, rows: 12 });
+    expect(barcode.modules).toHaveLength(144);
+    expectDataMatrixFinder(barcode);
+  });
+
+  test("encodes rectangular DataMatrix wider than tall", () => {
+    const barcode = encodeMatrixBarcode("datamatrix", "SN123456", { ...DATAMATRIX, shape: "rectangle" });
+
+    expect(barcode).toMatchObject({ columns: 18, rows: 8 });
+    expectDataMatrixFinder(barcode);
+  });
+
+  test("encodes the same value to the same modules and another value differently", () => {
+    const first = encodeMatrixBarcode("datamatrix", "SN123456", DATAMATRIX);
+
+    expect(encodeMatrixBarcode("datamatrix", "SN123456", DATAMATRIX).modules).toEqual(first.modules);
+    expect(encodeMatrixBarcode("datamatrix", "SN123457", DATAMATRIX).modules).not.toEqual(first.modules);
+  });
+
+  test("grows DataMatrix symbols with the data", () => {
+    const barcode = encodeMatrixBarcode("datamatrix", "x".repeat(100), DATAMATRIX);
+
+    expect(barcode.columns).toBe(barcode.rows);
+    expect(barcode.columns).toBeGreaterThan(12);
+    expectDataMatrixFinder(barcode);
+  });
+
+  test("encodes GS1 DataMatrix from the element string", () => {
+    const gs1 = encodeGS1([{ ai: "01", value: "09506000134352" }, { ai: "21", value: "SN1" }]);
+    const barcode = encodeMatrixBarcode("datamatrix", "", DATAMATRIX, gs1);
+
+    expectDataMatrixFinder(barcode);
+    expect(barcode.modules).not.toEqual(encodeMatrixBarcode("datamatrix", gs1.text, DATAMATRIX).modules);
+  });
+
+  test("encodes PDF417 rows between start and stop patterns", () => {
+    const barcode = encodeMatrixBarcode("pdf417", "SN123456", PDF417);
+
+    // 3 data columns of 17 modules plus start, stop and both row indicators
+    expect(barcode).toMatchObject({ type: "pdf417", columns: 120, rows: 15 });
+    expect(barcode.modules).toHaveLength(120 * 15);
+    expect(getPDF417Dimensions(barcode, PDF417)).toEqual({ columns: 3, rows: 5 });
+    for (let index = 0; index < barcode.rows; index++) {
+      expect(row(barcode, index)).toStartWith(PDF417_START);
+      expect(row(barcode, index)).toEndWith(PDF417_STOP);
+    }
+  });
+
+  test("repeats each PDF417 row for its row height", () => {
+    const barcode = encodeMatrixBarcode("pdf417", "SN123456", { ...PDF417, rowHeight: 2 });
+
+    expect(barcode.rows).toBe(10);
+    expect(row(barcode, 0)).toBe(row(barcode, 1));
+    expect(row(barcode, 1)).not.toBe(row(barcode, 2));
+  });
+
+  test("drops the right row indicator and stop pattern in compact PDF417", () => {
+    const style = { ...PDF417, compact: true };
+    const barcode = encodeMatrixBarcode("pdf417", "SN123456", style);
+
+    expect(barcode.columns).toBe(86);
+    expect(getPDF417Dimensions(barcode, style)).toEqual({ columns: 3, rows: 5 });
+    expect(row(barcode, 0)).toStartWith(PDF417_START);
+    expect(row(barcode, 0)).not.toEndWith(PDF417_STOP);
+  });
+
+  test("adds PDF417 rows for more data at a fixed column count", () => {
+    const barcode = encodeMatrixBarcode("pdf417", "x".repeat(200), PDF417);
+    const dimensions = getPDF417Dimensions(barcode, PDF417);
+
+    expect(dimensions.columns).toBe(3);
+    expect(dimensions.rows).toBeGreaterThan(5);
+  });
+
+  test("encodes compact Aztec symbols", () => {
+    const barcode = encodeMatrixBarcode("aztec", "SN123456", AZTEC);
+
+    expect(barcode).toMatchObject({ type: "aztec", columns: 15, rows: 15 });
+  });
+
+  test.each([
+    ["datamatrix", "", DATAMATRIX, "The data must not be empty"],
+    ["datamatrix", "x".repeat(3000), DATAMATRIX, "The input data exceeds the symbol capacity"],
+    ["pdf417", "x".repeat(3000), PDF417, "The input data is too long"],
+    ["pdf417", "SN123456", { ...PDF417, errorCorrectionLevel: 9 }, "Valid error correction levels are 0 to 8"],
+  ] as const)("rejects %s input %#", (type, value, style, message) => {
+    expect(() => encodeMatrixBarcode(type, value, style)).toThrow(message);
+  });
+
+  test.each([
+    ["pdf417", PDF417, "PDF417 does not support GS1 mode"],
+    ["aztec", AZTEC, "Aztec does not support GS1 mode"],
+  ] as const)("rejects GS1 data for %s", (type, style, message) => {
+    const gs1 = encodeGS1([{ ai: "01", value: "09506000134352" }]);
+    expect(() => encodeMatrixBarcode(type, gs1.text, style, gs1)).toThrow(message);
+  });
+});
+
+describe("isMatrixBarcodeType", () => {
+  test.each([
+    ["datamatrix", true],
+    ["pdf417", true],
+    ["aztec", true],
+    ["qrcode", false],
+    ["constructor", false],
+    ["toString", false],
+  ])("%s is %p", (type, expected) => {
+    expect(isMatrixBarcodeType(type)).toBe(expected);
+  });
+});
+
+describe("matrixBarcodeRects", () => {
+  test("merges runs that repeat on consecutive rows", () => {
+    const grid = {
+      columns: 4,
+      rows: 3,
+      modules: [
+        1, 1, 0, 1,
+        1, 1, 0, 0,
+        0, 1, 1, 1,
+      ],
+    };
+
+    expect(matrixBarcodeRects(grid)).toEqual([
+      { x: 0, y: 0, width: 2, height: 2 },
+      { x: 3, y: 0, width: 1, height: 1 },
+      { x: 1, y: 2, width: 3, height: 1 },
+    ]);
+  });
+
+  test("covers every dark module of an encoded symbol exactly once", () => {
+    const barcode = encodeMatrixBarcode("pdf417", "SN123456", PDF417);
+    const darkCount = barcode.modules.filter((module) => module === 1).length;
+    const covered = matrixBarcodeRects(barcode).reduce((total, rect) => total + rect.width * rect.height, 0);
+
+    expect(covered).toBe(darkCount);
+  });
+});
+
+describe("fitMatrixBarcode", () => {
+  test("fits square modules and the quiet zone into the box, centered", () => {
+    expect(fitMatrixBarcode({ columns: 10, rows: 10, modules: [] }, 1, 24, 12)).toEqual({
+      x: 6,
+      y: 0,
+      width: 12,
+      height: 12,
+      moduleSize: 1,
+    });
+    expect(fitMatrixBarcode({ columns: 20, rows: 4, modules: [] }, 2, 12, 12)).toEqual({
+      x: 0,
+      y: 4,
+      width: 12,
+      height: 4,
+      moduleSize: 0.5,
+    });
+  });
+});
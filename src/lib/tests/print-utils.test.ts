@@ -0,0 +1,55 @@
+import { describe, test, expect } from "bun:test";
+import { getFirstSheetSlots, getSheetStartError } from "@/lib/print-utils";
+
+// Three columns by two rows: slots 0-2 on the top row, 3-5 below
+const SHEET = { columns: 3, rows: 2 };
+
+describe("getFirstSheetSlots", () => {
+  test("uses every slot by default", () => {
+    expect(getFirstSheetSlots(SHEET)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  test("starts a partial first sheet at the start position", () => {
+    expect(getFirstSheetSlots(SHEET, 4)).toEqual([4, 5]);
+  });
+
+  test("leaves out skipped slots before and after the start position", () => {
+    expect(getFirstSheetSlots(SHEET, 1, [0, 2, 5])).toEqual([1, 3, 4]);
+  });
+
+  test("treats a negative start position as the first slot", () => {
+    expect(getFirstSheetSlots(SHEET, -2)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  test("returns no slots past the end of the sheet", () => {
+    expect(getFirstSheetSlots(SHEET, 6)).toEqual([]);
+    expect(getFirstSheetSlots(SHEET, 3, [3, 4, 5])).toEqual([]);
+  });
+});
+
+describe("getSheetStartError", () => {
+  test("accepts any position that leaves a free slot", () => {
+    expect(getSheetStartError(SHEET)).toBeNull();
+    expect(getSheetStartError(SHEET, 5)).toBeNull();
+    expect(getSheetStartError(SHEET, 0, [0, 1, 2, 3, 4])).toBeNull();
+  });
+
+  test.each([
+    [6, []],
+    [99, []],
+    [0, [6]],
+  ] as const)("rejects start position %p with skipped slots %p as out of range", (startPosition, skipPositions) => {
+    expect(getSheetStartError(SHEET, startPosition, skipPositions)).toBe(
+      "Invalid start position: sheet positions run from 0 to 5"
+    );
+  });
+
+  test("rejects a first sheet with every remaining slot skipped", () => {
+    expect(getSheetStartError(SHEET, 4, [4, 5])).toBe(
+      "Invalid start position: no free positions left on the first sheet"
+    );
+    expect(getSheetStartError({ columns: 1, rows: 1 }, 0, [0])).toBe(
+      "Invalid start position: no free positions left on the first sheet"
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, test, expect } from "bun:test";
+import {
+  assertTextFits,
+  isStandardFontFamily,
+  layoutText,
+  mapStandardFont,
+  measureStandardText,
+  reportTextOverflow,
+  scaleTextStyle,
+} from "@/lib/text-layout";
+import type { TextMeasure } from "@/lib/text-layout";
+import type { TextStyle } from "@/types/label-spec";
+import type { TextOverflowReport } from "@/types/print";
+import { TEXT_STYLE, createTestField } from "@/lib/tests/label-fixtures";
+
+// Every character is half the font size wide: 5 units at 10pt
+const monospace: TextMeasure = (text, fontSize) => text.length * fontSize * 0.5;
+
+function layout(text: string, style: Partial<TextStyle>, width: number, height: number) {
+  return layoutText(text, { ...TEXT_STYLE, ...style }, width, height, monospace);
+}
+
+describe("layoutText", () => {
+  test("keeps text that fits on one line", () => {
+    expect(layout("ABCD", {}, 100, 20)).toEqual({
+      lines: ["ABCD"],
+      fontSize: 10,
+      lineHeight: 12,
+      top: 0,
+      baseline: 8,
+      truncated: false,
+    });
+  });
+
+  test("wraps at spaces and paragraph breaks", () => {
+    // 10 characters per line, 3 lines in 40 units (10 + 2 x 12)
+    expect(layout("alpha beta gamma\ndelta", { overflow: "wrap" }, 50, 40).lines).toEqual([
+      "alpha beta",
+      "gamma",
+      "delta",
+    ]);
+  });
+
+  test("breaks words wider than the box", () => {
+    expect(layout("ABCDEFGHIJKLMNO", {}, 25, 40).lines).toEqual(["ABCDE", "FGHIJ", "KLMNO"]);
+  });
+
+  test("ends the last line that fits with an ellipsis", () => {
+    const result = layout("one two three four five six", { overflow: "wrap" }, 40, 22);
+
+    // Two lines fit in 22 units: 10 for the first, 12 for the second
+    expect(result.lines).toEqual(["one two", "three..."]);
+    expect(result.truncated).toBe(true);
+  });
+
+  test("caps wrapping at maxLines", () => {
+    const result = layout("one two three four", { overflow: "wrap", maxLines: 1 }, 40, 100);
+    expect(result.lines).toEqual(["one t..."]);
+    expect(result.truncated).toBe(true);
+  });
+
+  test("cuts a single line to fit with an ellipsis", () => {
+    const result = layout("ThinkPad T14\nGen 5", { overflow: "ellipsis" }, 50, 10);
+
+    expect(result.lines).toEqual(["ThinkPa..."]);
+    expect(result.truncated).toBe(true);
+    expect(layout("Short", { overflow: "ellipsis" }, 50, 10)).toMatchObject({ lines: ["Short"], truncated: false });
+  });
+
+  test("shrinks the font in half-point steps until the text fits", () => {
+    const result = layout("ABCDEFGHIJ", { overflow: "shrink", fontSize: 12, minFontSize: 4 }, 40, 20);
+
+    // 10 characters fit 40 units at 8pt
+    expect(result).toMatchObject({ lines: ["ABCDEFGHIJ"], fontSize: 8, truncated: false });
+  });
+
+  test("truncates at the minimum size when shrinking is not enough", () => {
+    const result = layout("ABCDEFGHIJKLMNOPQRST", { overflow: "shrink", fontSize: 12, minFontSize: 6 }, 40, 20);
+
+    expect(result.fontSize).toBe(6);
+    expect(result.truncated).toBe(true);
+    expect(result.lines).toEqual(["ABCDEFGHIJ..."]); // 13 characters of 3 units at 6pt
+  });
+
+  test("shrinks onto up to maxLines lines", () => {
+    const result = layout("alpha beta", { overflow: "shrink", fontSize: 10, maxLines: 2 }, 30, 30);
+    expect(result).toMatchObject({ lines: ["alpha", "beta"], fontSize: 10, truncated: false });
+  });
+
+  test("aligns the block vertically", () => {
+    expect(layout("A", { verticalAlign: "middle" }, 100, 30)).toMatchObject({ top: 10, baseline: 18 });
+    expect(layout("A", { verticalAlign: "bottom" }, 100, 30)).toMatchObject({ top: 20, baseline: 28 });
+  });
+
+  test("measures standard fonts with their metrics", () => {
+    const courier = measureStandardText({ fontFamily: "Courier", fontWeight: "normal", fontStyle: "normal" });
+    const helvetica = measureStandardText({ fontFamily: "Arial", fontWeight: "normal", fontStyle: "normal" });
+    const helveticaBold = measureStandardText({ fontFamily: "Arial", fontWeight: "bold", fontStyle: "normal" });
+    const times = measureStandardText({ fontFamily: "Times", fontWeight: "bold", fontStyle: "italic" });
+
+    expect(courier("ABC", 10)).toBeCloseTo(18);
+    expect(helvetica("il", 10)).toBeCloseTo(4.4);
+    expect(helveticaBold("il", 10)).toBeCloseTo(5.6);
+    expect(times("W", 10)).toBeCloseTo(8.9);
+    expect(helvetica("é", 10)).toBeCloseTo(5.5); // outside ASCII takes the fallback width
+  });
+});
+
+describe("mapStandardFont", () => {
+  test("maps families to the PDF standard fonts", () => {
+    expect(mapStandardFont("Times New Roman")).toBe("times");
+    expect(mapStandardFont("Courier New")).toBe("courier");
+    expect(mapStandardFont("Roboto")).toBe("helvetica");
+  });
+
+  test("tells standard families from fallbacks", () => {
+    expect(isStandardFontFamily("Arial")).toBe(true);
+    expect(isStandardFontFamily("Courier")).toBe(true);
+    expect(isStandardFontFamily("Roboto")).toBe(false);
+    expect(isStandardFontFamily("constructor")).toBe(false);
+  });
+});
+
+describe("scaleTextStyle", () => {
+  test("scales the font size and the shrink floor", () => {
+    expect(scaleTextStyle({ ...TEXT_STYLE, fontSize: 10 }, 2)).toMatchObject({ fontSize: 20, minFontSize: 8 });
+  });
+});
+
+describe("overflow handling", () => {
+  const truncated = layout("ABCDEFGHIJ", { overflow: "ellipsis" }, 20, 10);
+
+  test("fails only fields set to error", () => {
+    expect(() => assertTextFits(truncated, { ...TEXT_STYLE, overflow: "error" }, "model")).toThrow(
+      "Text does not fit field model"
+    );
+    expect(() => assertTextFits(truncated, { ...TEXT_STYLE, overflow: "ellipsis" }, "model")).not.toThrow();
+  });
+
+  test("reports each field once per asset", () => {
+    const reports: TextOverflowReport[] = [];
+    const field = createTestField({ id: "model", type: "text", style: { ...TEXT_STYLE, overflow: "shrink" } });
+
+    reportTextOverflow(reports, "asset-1", field);
+    reportTextOverflow(reports, "asset-1", field);
+    reportTextOverflow(reports, "asset-2", createTestField({ id: "model", type: "text" }));
+
+    expect(reports).toEqual([
+      { assetId: "asset-1", fieldId: "model", mode: "shrink" },
+      { assetId: "asset-2", fieldId: "model", mode: "wrap" },
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+import type { FontFileInfo } from "@/lib/font-file";
+import type { LabelField, TextStyle } from "@/types/label-spec";
+import type { TextOverflowReport } from "@/types/print";
+
+/**
+ * Shared text layout for the PDF, PNG and printer renderers and the browser
+ * preview, so line breaks, shrinking and truncation come out identical.
+ * Widths use the PDF standard font metrics (per 1000 em, ASCII 32-126), or
+ * the advance widths of an uploaded font file.
+ */
+
+export type TextMeasure = (text: string, fontSize: number) => number;
+
+export interface TextLayout {
+  lines: string[];
+  fontSize: number; // in the same unit as the box, usually points
+  lineHeight: number;
+  top: number; // top of the first line, measured from the top of the box
+  baseline: number; // first baseline, measured from the top of the box
+  truncated: boolean;
+}
+
+const ELLIPSIS = "...";
+const SHRINK_STEP = 0.5;
+const DEFAULT_MIN_FONT_SIZE = 4;
+const ASCENT = 0.8;
+
+const HELVETICA = [
+  280, 280, 350, 550, 550, 890, 660, 190, 330, 330, 390, 580, 280, 330, 280, 280, 550, 550, 550, 550, 550, 550, 550, 550,
+  550, 550, 280, 280, 580, 580, 580, 550, 1010, 660, 660, 720, 720, 660, 610, 780, 720, 280, 500, 660, 550, 830, 720, 780,
+  660, 780, 720, 660, 610, 720, 660, 940, 660, 660, 610, 280, 280, 280, 470, 550, 330, 550, 550, 500, 550, 550, 280, 550,
+  550, 220, 220, 500, 220, 830, 550, 550, 550, 550, 330, 500, 280, 550, 500, 720, 500, 500, 500, 330, 260, 330, 580,
+];
+const HELVETICA_BOLD = [
+  280, 330, 470, 550, 550, 890, 720, 240, 330, 330, 390, 580, 280, 330, 280, 280, 550, 550, 550, 550, 550, 550, 550, 550,
+  550, 550, 330, 330, 580, 580, 580, 610, 970, 720, 720, 720, 720, 660, 610, 780, 720, 280, 550, 720, 610, 830, 720, 780,
+  660, 780, 720, 660, 610, 720, 660, 940, 660, 660, 610, 330, 280, 330, 580, 550, 330, 550, 610, 550, 610, 550, 330, 610,
+  610, 280, 280, 550, 280, 890, 610, 610, 610, 610, 390, 550, 330, 610, 550, 780, 550, 550, 500, 390, 280, 390, 580,
+];
+const TIMES = [
+  250, 330, 410, 500, 500, 830, 780, 180, 330, 330, 500, 560, 250, 330, 250, 280, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 280, 280, 560, 560, 560, 440, 920, 720, 660, 660, 720, 610, 550, 720, 720, 330, 390, 720, 610, 890, 720, 720,
+  550, 720, 660, 550, 610, 720, 720, 940, 720, 720, 610, 330, 280, 330, 470, 500, 330, 440, 500, 440, 500, 440, 330, 500,
+  500, 280, 280, 500, 280, 780, 500, 500, 500, 500, 330, 390, 280, 500, 500, 720, 500, 500, 440, 480, 200, 480, 540,
+];
+const TIMES_BOLD = [
+  250, 330, 550, 500, 500, 1000, 830, 280, 330, 330, 500, 570, 250, 330, 250, 280, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 330, 330, 570, 570, 570, 500, 930, 720, 660, 720, 720, 660, 610, 780, 780, 390, 500, 780, 660, 940, 720, 780,
+  610, 780, 720, 550, 660, 720, 720, 1000, 720, 720, 660, 330, 280, 330, 580, 500, 330, 500, 550, 440, 550, 440, 330, 500,
+  550, 280, 330, 550, 280, 830, 550, 500, 550, 550, 440, 390, 330, 550, 500, 720, 500, 500, 440, 390, 220, 390, 520,
+];
+const TIMES_ITALIC = [
+  250, 330, 420, 500, 500, 830, 780, 210, 330, 330, 500, 670, 250, 330, 250, 280, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 330, 330, 670, 670, 670, 500, 920, 610, 610, 660, 720, 610, 610, 720, 720, 330, 440, 660, 550, 830, 660, 720,
+  610, 720, 610, 500, 550, 720, 610, 830, 610, 550, 550, 390, 280, 390, 420, 500, 330, 500, 500, 440, 500, 440, 280, 500,
+  500, 280, 280, 440, 280, 720, 500, 500, 500, 500, 390, 390, 280, 500, 440, 660, 440, 440, 390, 400, 270, 400, 540,
+];
+const TIMES_BOLD_ITALIC = [
+  250, 390, 550, 500, 500, 830, 780, 280, 330, 330, 500, 570, 250, 330, 250, 280, 500, 500, 500, 500, 500, 500, 500, 500,
+  500, 500, 330, 330, 570, 570, 570, 500, 830, 660, 660, 660, 720, 660, 660, 720, 780, 390, 500, 660, 610, 890, 720, 720,
+  610, 720, 660, 550, 610, 720, 660, 890, 660, 610, 610, 330, 280, 330, 570, 500, 330, 500, 500, 440, 500, 440, 330, 500,
+  550, 280, 280, 500, 280, 780, 550, 500, 500, 500, 390, 390, 280, 550, 440, 660, 500, 440, 390, 350, 220, 350, 570,
+];
+
+interface FontMetrics {
+  widths: number[] | null; // null for monospaced fonts
+  fallback: number;
+}
+
+export type StandardFont = "helvetica" | "times" | "courier";
+
+const STANDARD_FONT_FAMILIES: Record<string, StandardFont> = {
+  Arial: "helvetica",
+  Helvetica: "helvetica",
+  "Times New Roman": "times",
+  Times: "times",
+  "Courier New": "courier",
+  Courier: "courier",
+};
+
+/**
+ * Whether a family is drawn with a standard font by design, rather than as
+ * the fallback for a family without an uploaded font
+ */
+export function isStandardFontFamily(fontFamily: string): boolean {
+  return Object.hasOwn(STANDARD_FONT_FAMILIES, fontFamily);
+}
+
+export function mapStandardFont(fontFamily: string): StandardFont {
+  return isStandardFontFamily(fontFamily) ? STANDARD_FONT_FAMILIES[fontFamily]! : "helvetica";
+}
+
+function getFontMetrics(style: Pick<TextStyle, "fontFamily" | "fontWeight" | "fontStyle">): FontMetrics {
+  const bold = style.fontWeight === "bold";
+  const italic = style.fontStyle === "italic";
+
+  switch (mapStandardFont(style.fontFamily)) {
+    case "courier":
+      return { widths: null, fallback: 600 };
+    case "times":
+      return {
+        widths: bold ? (italic ? TIMES_BOLD_ITALIC : TIMES_BOLD) : italic ? TIMES_ITALIC : TIMES,
+        fallback: 500,
+      };
+    default:
+      // Helvetica oblique shares the upright widths
+      return { widths: bold ? HELVETICA_BOLD : HELVETICA, fallback: 550 };
+  }
+}
+
+export function measureStandardText(style: Pick<TextStyle, "fontFamily" | "fontWeight" | "fontStyle">): TextMeasure {
+  const { widths, fallback } = getFontMetrics(style);
+
+  return (text, fontSize) => {
+    if (!widths) {
+      return (text.length * fallback * fontSize) / 1000;
+    }
+
+    let units = 0;
+    for (let i = 0; i < text.length; i++) {
+      units += widths[text.charCodeAt(i) - 32] ?? fallback;
+    }
+    return (units * fontSize) / 1000;
+  };
+}
+
+export function measureFontText(font: FontFileInfo): TextMeasure {
+  return (text, fontSize) => {
+    let units = 0;
+    for (const char of text) {
+      units += font.advanceWidth(font.glyphIndex(char.codePointAt(0)!));
+    }
+    return (units * fontSize) / font.unitsPerEm;
+  };
+}
+
+/**
+ * Fits text into a width x height box according to style.overflow. The box
+ * and style.fontSize must share a unit; callers pass points unless they
+ * supply their own measure.
+ */
+export function layoutText(
+  text: string,
+  style: TextStyle,
+  width: number,
+  height: number,
+  measure: TextMeasure = measureStandardText(style)
+): TextLayout {
+  const lineFactor = style.lineHeight ?? 1.2;
+
+  const fit = (fontSize: number, maxLines: number | undefined): TextLayout => {
+    const lineHeight = fontSize * lineFactor;
+    const available = Math.max(1, Math.floor((height - fontSize) / lineHeight) + 1);
+    const limit = Math.min(maxLines ?? available, available);
+    const wrapped = wrapLines(text, width, fontSize, measure);
+    const truncated = wrapped.length > limit;
+    const lines = truncated
+      ? [...wrapped.slice(0, limit - 1), ellipsize(wrapped[limit - 1]!, width, fontSize, measure)]
+      : wrapped;
+
+    return positionLines(style, height, lines, fontSize, lineHeight, truncated);
+  };
+
+  switch (style.overflow ?? "wrap") {
+    case "ellipsis": {
+      const line = text.replace(/\s*\r?\n\s*/g, " ");
+      const truncated = measure(line, style.fontSize) > width;
+      const lines = [truncated ? ellipsize(line, width, style.fontSize, measure) : line];
+      return positionLines(style, height, lines, style.fontSize, style.fontSize * lineFactor, truncated);
+    }
+    case "shrink": {
+      const maxLines = style.maxLines ?? 1;
+      const minFontSize = Math.min(style.minFontSize ?? DEFAULT_MIN_FONT_SIZE, style.fontSize);
+      for (let size = style.fontSize; size > minFontSize; size -= SHRINK_STEP) {
+        const layout = fit(size, maxLines);
+        if (!layout.truncated) return layout;
+      }
+      return fit(minFontSize, maxLines);
+    }
+    default:
+      return fit(style.fontSize, style.maxLines);
+  }
+}
+
+function positionLines(
+  style: TextStyle,
+  height: number,
+  lines: string[],
+  fontSize: number,
+  lineHeight: number,
+  truncated: boolean
+): TextLayout {
+  const blockHeight = fontSize + (lines.length - 1) * lineHeight;
+  let top = 0;
+  if (style.verticalAlign === "middle") {
+    top = Math.max(0, (height - blockHeight) / 2);
+  } else if (style.verticalAlign === "bottom") {
+    top = Math.max(0, height - blockHeight);
+  }
+
+  return { lines, fontSize, lineHeight, top, baseline: top + fontSize * ASCENT, truncated };
+}
+
+/**
+ * Converts point sizes for layout in another unit, e.g. printer dots
+ */
+export function scaleTextStyle(style: TextStyle, scale: number): TextStyle {
+  return {
+    ...style,
+    fontSize: style.fontSize * scale,
+    minFontSize: (style.minFontSize ?? DEFAULT_MIN_FONT_SIZE) * scale,
+  };
+}
+
+/**
+ * Fails the render for fields whose overflow mode is "error"
+ */
+export function assertTextFits(layout: TextLayout, style: TextStyle, fieldId: string): void {
+  if (layout.truncated && style.overflow === "error") {
+    throw new Error(`Text does not fit field ${fieldId}`);
+  }
+}
+
+/**
+ * Records a truncated field once per asset, however many copies print
+ */
+export function reportTextOverflow(reports: TextOverflowReport[], assetId: string, field: LabelField): void {
+  if (reports.some((report) => report.assetId === assetId && report.fieldId === field.id)) return;
+  reports.push({ assetId, fieldId: field.id, mode: (field.style as TextStyle).overflow ?? "wrap" });
+}
+
+function wrapLines(text: string, width: number, fontSize: number, measure: TextMeasure): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = "";
+
+    for (const word of paragraph.split(/\s+/)) {
+      if (!word) continue;
+
+      const candidate = current ? `${current} ${word}` : word;
+      if (measure(candidate, fontSize) <= width) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) lines.push(current);
+      current = word;
+
+      // Break words that are wider than the box on their own
+      while (current.length > 1 && measure(current, fontSize) > width) {
+        let end = current.length - 1;
+        while (end > 1 && measure(current.slice(0, end), fontSize) > width) end--;
+        lines.push(current.slice(0, end));
+        current = current.slice(end);
+      }
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+function ellipsize(line: string, width: number, fontSize: number, measure: TextMeasure): string {
+  let end = line.length;
+  while (end > 0 && measure(`${line.slice(0, end).trimEnd()}${ELLIPSIS}`, fontSize) > width) end--;
+  return `${line.slice(0, end).trimEnd()}${ELLIPSIS}`;
+}
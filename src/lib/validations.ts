@@ -1,17 +1,19 @@
 import { z } from "zod";
 import { EQUIPMENT_CATEGORIES, ASSET_STATUSES } from "@/types/asset";
-import { LABEL_FORMATS } from "@/types/label-spec";
+import type { ConditionGroup, LabelCondition } from "@/types/label-spec";
+import { parseTemplate } from "@/lib/label-template";
+import { getConditionError, MAX_GROUP_CONDITIONS } from "@/lib/label-conditions";
 import { ROLES } from "@/types/permissions";
 
 const equipmentCategoryValues = Object.values(EQUIPMENT_CATEGORIES) as [string, ...string[]];
 const assetStatusValues = Object.values(ASSET_STATUSES) as [string, ...string[]];
 const roleValues = Object.values(ROLES) as [string, ...string[]];
-const labelFormatValues = Object.keys(LABEL_FORMATS) as [string, ...string[]];
+const labelFormatKeySchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,49}$/, "Invalid label format key");
 
 export const createAssetSchema = z.object({
   category: z.enum(equipmentCategoryValues),
   type: z.string().min(1).max(100),
-  assetTag: z.string().min(1).max(100),
+  assetTag: z.string().min(1).max(100).optional(),
   serialNumber: z.string().min(1).max(255),
   manufacturer: z.string().min(1).max(255),
   model: z.string().min(1).max(255),
@@ -92,10 +94,14 @@ const textStyleSchema = z.object({
   lineHeight: z.number().optional(),
   letterSpacing: z.number().optional(),
   textTransform: z.enum(["none", "uppercase", "lowercase", "capitalize"]).optional(),
+  dateFormat: z.string().max(50).optional(),
+  overflow: z.enum(["shrink", "wrap", "ellipsis", "error"]).optional(),
+  minFontSize: z.number().min(4).max(72).optional(),
+  maxLines: z.number().int().min(1).max(20).optional(),
 });
 
 const barcodeStyleSchema = z.object({
-  format: z.enum(["CODE128", "CODE39", "EAN13", "EAN8", "UPC", "ITF14", "MSI", "pharmacode"]),
+  format: z.enum(["CODE128", "CODE39", "EAN13", "EAN8", "UPC", "ITF14", "MSI", "MSI10", "pharmacode"]),
   displayValue: z.boolean(),
   fontSize: z.number().min(4).max(24),
   textAlign: z.enum(["left", "center", "right"]),
@@ -112,6 +118,31 @@ const qrcodeStyleSchema = z.object({
   lightColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
 });
 
+const datamatrixStyleSchema = z.object({
+  shape: z.enum(["square", "rectangle"]),
+  margin: z.number().min(0).max(10),
+  darkColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+  lightColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+});
+
+const pdf417StyleSchema = z.object({
+  columns: z.number().int().min(0).max(30),
+  errorCorrectionLevel: z.number().int().min(0).max(8),
+  rowHeight: z.number().int().min(2).max(8),
+  compact: z.boolean(),
+  margin: z.number().min(0).max(10),
+  darkColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+  lightColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+});
+
+const aztecStyleSchema = z.object({
+  errorCorrectionPercent: z.number().int().min(5).max(95),
+  format: z.enum(["auto", "compact", "full"]),
+  margin: z.number().min(0).max(10),
+  darkColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+  lightColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/),
+});
+
 const imageStyleSchema = z.object({
   objectFit: z.enum(["contain", "cover", "fill"]),
   opacity: z.number().min(0).max(1),
@@ -132,20 +163,57 @@ const elementStyleSchema = z.object({
 });
 
 const fieldConditionSchema = z.object({
-  field: z.string(),
-  operator: z.enum(["eq", "neq", "contains", "empty", "notEmpty"]),
-  value: z.string().optional(),
+  field: z.string().max(255),
+  operator: z.enum([
+    "eq", "neq", "contains", "empty", "notEmpty", "in", "notIn", "matches", "gt", "gte", "lt", "lte",
+  ]),
+  value: z.string().max(1000).optional(),
+});
+
+const conditionGroupSchema: z.ZodType<ConditionGroup> = z.object({
+  match: z.enum(["all", "any"]),
+  conditions: z.array(z.lazy(() => conditionSchema)).max(MAX_GROUP_CONDITIONS),
+});
+
+const conditionSchema: z.ZodType<LabelCondition> = z.union([fieldConditionSchema, conditionGroupSchema]);
+
+const labelConditionSchema = conditionSchema.superRefine((condition, ctx) => {
+  const error = getConditionError(condition);
+  if (error) {
+    ctx.addIssue({ code: "custom", message: error });
+  }
+});
+
+const gs1BindingSchema = z.object({
+  elements: z.array(z.object({
+    ai: z.enum(["01", "10", "17", "21"]),
+    source: z.string().max(255),
+    fallback: z.string().max(255).optional(),
+  })).min(1).max(4).refine(
+    (elements) => new Set(elements.map((element) => element.ai)).size === elements.length,
+    { message: "Each GS1 Application Identifier may only be used once" }
+  ),
+});
+
+const fieldTemplateSchema = z.string().max(1000).superRefine((template, ctx) => {
+  try {
+    parseTemplate(template);
+  } catch (error) {
+    ctx.addIssue({ code: "custom", message: error instanceof Error ? error.message : "Invalid template" });
+  }
 });
 
 const baseFieldSchema = z.object({
   id: z.string(),
   source: z.string().max(255),
   fallback: z.string().max(255).optional(),
+  template: fieldTemplateSchema.optional(),
+  required: z.boolean().optional(),
   position: z.object({ x: z.number(), y: z.number() }),
   size: z.object({ width: z.number().positive(), height: z.number().positive() }),
   rotation: z.number().min(-180).max(180).optional(),
   visible: z.boolean().optional(),
-  condition: fieldConditionSchema.optional(),
+  condition: labelConditionSchema.optional(),
 });
 
 const textFieldSchema = baseFieldSchema.extend({
@@ -161,6 +229,10 @@ const dateFieldSchema = baseFieldSchema.extend({
 const barcodeFieldSchema = baseFieldSchema.extend({
   type: z.literal("barcode"),
   style: barcodeStyleSchema,
+  gs1: gs1BindingSchema.optional(),
+}).refine((field) => !field.gs1 || field.style.format === "CODE128", {
+  message: "GS1 mode requires the CODE128 format",
+  path: ["gs1"],
 });
 
 const qrcodeFieldSchema = baseFieldSchema.extend({
@@ -168,6 +240,22 @@ const qrcodeFieldSchema = baseFieldSchema.extend({
   style: qrcodeStyleSchema,
 });
 
+const datamatrixFieldSchema = baseFieldSchema.extend({
+  type: z.literal("datamatrix"),
+  style: datamatrixStyleSchema,
+  gs1: gs1BindingSchema.optional(),
+});
+
+const pdf417FieldSchema = baseFieldSchema.extend({
+  type: z.literal("pdf417"),
+  style: pdf417StyleSchema,
+});
+
+const aztecFieldSchema = baseFieldSchema.extend({
+  type: z.literal("aztec"),
+  style: aztecStyleSchema,
+});
+
 const imageFieldSchema = baseFieldSchema.extend({
   type: z.literal("image"),
   style: imageStyleSchema,
@@ -178,6 +266,9 @@ const labelFieldSchema = z.discriminatedUnion("type", [
   dateFieldSchema,
   barcodeFieldSchema,
   qrcodeFieldSchema,
+  datamatrixFieldSchema,
+  pdf417FieldSchema,
+  aztecFieldSchema,
   imageFieldSchema,
 ]);
 
@@ -190,6 +281,7 @@ const labelElementSchema = z.object({
   content: z.string().max(1000).optional(),
   style: elementStyleSchema,
   visible: z.boolean().optional(),
+  condition: labelConditionSchema.optional(),
 });
 
 const MAX_FIELDS = 50;
@@ -220,7 +312,7 @@ export const createTemplateSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
   category: z.enum(equipmentCategoryValues).optional(),
-  format: z.enum(labelFormatValues),
+  format: labelFormatKeySchema,
   spec: labelSpecSchema,
 });
 
@@ -228,14 +320,14 @@ export const updateTemplateSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().nullable().optional(),
   category: z.enum(equipmentCategoryValues).nullable().optional(),
-  format: z.enum(labelFormatValues).optional(),
+  format: labelFormatKeySchema.optional(),
   spec: labelSpecSchema.optional(),
   changeNote: z.string().optional(),
 });
 
 export const templateFiltersSchema = z.object({
   category: z.enum(equipmentCategoryValues).optional(),
-  format: z.enum(labelFormatValues).optional(),
+  format: labelFormatKeySchema.optional(),
   isPublished: z.coerce.boolean().optional(),
   isSystemTemplate: z.coerce.boolean().optional(),
   search: z.string().optional(),
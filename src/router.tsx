@@ -17,6 +17,7 @@ import { DashboardLayout } from "@/components/dashboard/dashboard-layout";
 import { AssetList } from "@/components/assets/asset-list";
 import { AssetForm } from "@/components/assets/asset-form";
 import { ImportWizard } from "@/components/assets/import-wizard";
+import { TagBatchesDialog } from "@/components/assets/tag-batches-dialog";
 import { TemplateLibrary } from "@/components/templates/template-library";
 import { TemplateCreateDialog } from "@/components/templates/template-create-dialog";
 import { UserManagement } from "@/components/users/user-management";
@@ -26,10 +27,12 @@ import { EmptyState } from "@/components/ui/empty-state";
 import { PageShell } from "@/components/ui/page-shell";
 import { LabelDesignerBoundary } from "@/components/labels/label-designer-boundary";
 import { useAuth } from "@/hooks/use-auth";
+import { useLabelFormats } from "@/hooks/use-label-formats";
 import { useTemplates } from "@/hooks/use-templates";
 import type { Asset, EquipmentCategory } from "@/types/asset";
 import type { LabelSpec, LabelFormatId } from "@/types/label-spec";
-import { LABEL_FORMATS } from "@/types/label-spec";
+import type { LabelFormat } from "@/types/label-format";
+import { DEFAULT_LABEL_FORMAT_KEY } from "@/types/label-format";
 import type { LabelTemplate } from "@/types/template";
 
 import "./index.css";
@@ -48,13 +51,14 @@ function LoadingSpinner() {
   );
 }
 
-function createDefaultSpec(format: LabelFormatId): LabelSpec {
-  const formatConfig = LABEL_FORMATS[format];
+function createDefaultSpec(format: LabelFormat | undefined): LabelSpec {
   return {
     id: crypto.randomUUID(),
     version: "1.0.0",
     name: "New Template",
-    dimensions: { ...formatConfig.dimensions },
+    dimensions: format
+      ? { width: format.width, height: format.height, unit: format.unit }
+      : { width: 50, height: 25, unit: "mm" },
     dpi: 300,
     margins: { top: 2, right: 2, bottom: 2, left: 2 },
     fields: [],
@@ -143,6 +147,7 @@ const indexRoute = createRoute({
 function AssetsPage() {
   const [isAssetFormOpen, setIsAssetFormOpen] = useState(false);
   const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
+  const [isTagBatchesOpen, setIsTagBatchesOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<Asset | null>(null);
 
   function handleCreateAsset() {
@@ -159,12 +164,17 @@ function AssetsPage() {
     setIsImportWizardOpen(true);
   }
 
+  function handleManageTagBatches() {
+    setIsTagBatchesOpen(true);
+  }
+
   return (
     <>
       <AssetList
         onCreateAsset={handleCreateAsset}
         onEditAsset={handleEditAsset}
         onImportAssets={handleImportAssets}
+        onManageTagBatches={handleManageTagBatches}
       />
       <AssetForm
         asset={editingAsset}
@@ -177,6 +187,7 @@ function AssetsPage() {
         onOpenChange={setIsImportWizardOpen}
         onSuccess={() => {}}
       />
+      <TagBatchesDialog open={isTagBatchesOpen} onOpenChange={setIsTagBatchesOpen} />
     </>
   );
 }
@@ -247,23 +258,28 @@ function TemplateNewPage() {
   const navigate = useNavigate();
   const { createTemplate, isLoading: isSavingTemplate, invalidateTemplates } = useTemplates();
   
+  const { data: labelFormats, isPending: isLoadingFormats } = useLabelFormats();
+
   const [designerSpec, setDesignerSpec] = useState<LabelSpec | null>(null);
-  const [format, setFormat] = useState<LabelFormatId>("avery-5160");
+  const [format, setFormat] = useState<LabelFormatId>(DEFAULT_LABEL_FORMAT_KEY);
   const [category, setCategory] = useState<EquipmentCategory | undefined>(undefined);
 
   useEffect(() => {
+    // Size the new label from the tenant's format once formats have loaded
+    if (isLoadingFormats || designerSpec) return;
+
     const params = new URLSearchParams(window.location.search);
     const nameParam = params.get("name") || "New Template";
-    const formatParam = (params.get("format") as LabelFormatId) || "avery-5160";
+    const formatParam = params.get("format") || DEFAULT_LABEL_FORMAT_KEY;
     const categoryParam = params.get("category") as EquipmentCategory | undefined;
     
     setFormat(formatParam);
     setCategory(categoryParam || undefined);
     
-    const spec = createDefaultSpec(formatParam);
+    const spec = createDefaultSpec(labelFormats?.find((f) => f.key === formatParam));
     spec.name = nameParam;
     setDesignerSpec(spec);
-  }, []);
+  }, [isLoadingFormats, labelFormats, designerSpec]);
 
   if (!hasPermission("template:write")) {
     return (
@@ -4,8 +4,13 @@ import { eq, and, or, ilike, desc, count } from "drizzle-orm";
 import type { TenantContext } from "@/types/tenant";
 import type { Asset, AssetListResult, EquipmentCategory, AssetStatus } from "@/types/asset";
 import type { CreateAssetInput, UpdateAssetInput, AssetFiltersInput } from "@/lib/validations";
+import { getTenantSettings, withTenant } from "@/lib/tenant";
+import { generateAssetTag, toAssetTagConflict } from "./asset-tag-service";
 import { createAuditLog } from "./audit-service";
+import { claimReservedTag } from "./tag-batch-service";
+import { publishEventInTx } from "./webhook-service";
 import { AUDIT_ACTIONS } from "@/types/audit";
+import { WEBHOOK_EVENT_TYPES } from "@/types/webhook";
 
 function mapRowToAsset(row: typeof schema.assets.$inferSelect): Asset {
   return {
@@ -38,37 +43,62 @@ export async function createAsset(
   ctx: TenantContext,
   input: CreateAssetInput
 ): Promise<Asset> {
-  const [row] = await db
-    .insert(schema.assets)
-    .values({
-      tenantId: ctx.tenantId,
-      category: input.category,
-      type: input.type,
-      assetTag: input.assetTag,
-      serialNumber: input.serialNumber,
-      manufacturer: input.manufacturer,
-      model: input.model,
-      location: input.location,
-      department: input.department ?? null,
-      assignedTo: input.assignedTo ?? null,
-      status: input.status ?? "pending",
-      purchaseDate: input.purchaseDate ?? null,
-      warrantyExpiry: input.warrantyExpiry ?? null,
-      notes: input.notes ?? null,
-      customFields: input.customFields ?? {},
-      createdBy: ctx.userId,
-    })
-    .returning();
+  const timezone = input.assetTag ? null : (await getTenantSettings(ctx.tenantId)).timezone;
 
-  if (!row) {
-    throw new Error("Failed to create asset");
-  }
+  let assetTag = input.assetTag ?? null;
+
+  const row = await withTenant(ctx.tenantId, async (tx) => {
+    assetTag ??= await generateAssetTag(tx, ctx.tenantId, input, timezone!);
+    if (!assetTag) {
+      throw new Error(`Asset tag is required: no tag pattern is set for ${input.category}`);
+    }
+
+    const [inserted] = await tx
+      .insert(schema.assets)
+      .values({
+        tenantId: ctx.tenantId,
+        category: input.category,
+        type: input.type,
+        assetTag,
+        serialNumber: input.serialNumber,
+        manufacturer: input.manufacturer,
+        model: input.model,
+        location: input.location,
+        department: input.department ?? null,
+        assignedTo: input.assignedTo ?? null,
+        status: input.status ?? "pending",
+        purchaseDate: input.purchaseDate ?? null,
+        warrantyExpiry: input.warrantyExpiry ?? null,
+        notes: input.notes ?? null,
+        customFields: input.customFields ?? {},
+        createdBy: ctx.userId,
+      })
+      .returning();
+
+    if (!inserted) {
+      throw new Error("Failed to create asset");
+    }
+
+    const claimed = input.assetTag
+      ? await claimReservedTag(tx, ctx.tenantId, input.assetTag, inserted.id, ctx.userId)
+      : null;
+
+    await publishEventInTx(tx, ctx.tenantId, {
+      type: WEBHOOK_EVENT_TYPES.ASSET_CREATED,
+      resourceId: inserted.id,
+      data: { asset: mapRowToAsset(inserted) },
+    });
+
+    return { ...inserted, tagBatchId: claimed?.batchId };
+  }).catch((error: unknown) => {
+    throw toAssetTagConflict(error, assetTag);
+  });
 
   await createAuditLog(ctx, {
     action: AUDIT_ACTIONS.ASSET_CREATED,
     resourceType: "asset",
     resourceId: row.id,
-    details: { assetTag: input.assetTag, category: input.category },
+    details: { assetTag: row.assetTag, category: input.category, tagBatchId: row.tagBatchId },
   });
 
   return mapRowToAsset(row);
@@ -120,16 +150,39 @@ export async function updateAsset(
   if (input.notes !== undefined) updateData.notes = input.notes;
   if (input.customFields !== undefined) updateData.customFields = input.customFields;
 
-  const [row] = await db
-    .update(schema.assets)
-    .set(updateData)
-    .where(
-      and(
-        eq(schema.assets.id, assetId),
-        eq(schema.assets.tenantId, ctx.tenantId)
+  const row = await withTenant(ctx.tenantId, async (tx) => {
+    const [updated] = await tx
+      .update(schema.assets)
+      .set(updateData)
+      .where(
+        and(
+          eq(schema.assets.id, assetId),
+          eq(schema.assets.tenantId, ctx.tenantId)
+        )
       )
-    )
-    .returning();
+      .returning();
+
+    if (!updated) return null;
+
+    // A new tag may be one of a batch's pre-printed tags, claimed as on create
+    const claimed = input.assetTag !== undefined && input.assetTag !== existing.assetTag
+      ? await claimReservedTag(tx, ctx.tenantId, input.assetTag, assetId, ctx.userId)
+      : null;
+
+    await publishEventInTx(tx, ctx.tenantId, {
+      type: WEBHOOK_EVENT_TYPES.ASSET_UPDATED,
+      resourceId: assetId,
+      data: {
+        asset: mapRowToAsset(updated),
+        changedFields: Object.keys(input),
+        previousStatus: existing.status,
+      },
+    });
+
+    return { ...updated, tagBatchId: claimed?.batchId };
+  }).catch((error: unknown) => {
+    throw toAssetTagConflict(error, input.assetTag ?? null);
+  });
 
   if (!row) return null;
 
@@ -139,8 +192,8 @@ export async function updateAsset(
     resourceType: "asset",
     resourceId: assetId,
     details: statusChanged
-      ? { oldStatus: existing.status, newStatus: input.status }
-      : { fields: Object.keys(input) },
+      ? { oldStatus: existing.status, newStatus: input.status, tagBatchId: row.tagBatchId }
+      : { fields: Object.keys(input), tagBatchId: row.tagBatchId },
   });
 
   return mapRowToAsset(row);
@@ -153,14 +206,36 @@ export async function deleteAsset(
   const existing = await getAssetById(ctx, assetId);
   if (!existing) return false;
 
-  await db
-    .delete(schema.assets)
-    .where(
-      and(
-        eq(schema.assets.id, assetId),
-        eq(schema.assets.tenantId, ctx.tenantId)
+  const deleted = await withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .delete(schema.assets)
+      .where(
+        and(
+          eq(schema.assets.id, assetId),
+          eq(schema.assets.tenantId, ctx.tenantId)
+        )
       )
-    );
+      .returning({ id: schema.assets.id });
+
+    if (rows.length === 0) return false;
+
+    await publishEventInTx(tx, ctx.tenantId, {
+      type: WEBHOOK_EVENT_TYPES.ASSET_DELETED,
+      resourceId: assetId,
+      data: {
+        asset: {
+          id: existing.id,
+          assetTag: existing.assetTag,
+          category: existing.category,
+          type: existing.type,
+        },
+      },
+    });
+
+    return true;
+  });
+
+  if (!deleted) return false;
 
   await createAuditLog(ctx, {
     action: AUDIT_ACTIONS.ASSET_DELETED,
@@ -0,0 +1,339 @@
+import { eq, and, asc, inArray, sql } from "drizzle-orm";
+
+import { isUniqueViolation, type Database } from "@/db";
+import { assets, assetTagPatterns, assetTagSequences, reservedTags } from "@/db/schema";
+import {
+  MAX_ASSET_TAG_LENGTH,
+  getTagPatternError,
+  renderTagPattern,
+  type RenderedTagPattern,
+  type TagPatternValues,
+} from "@/lib/asset-tag-pattern";
+import { getTenantSettings, withTenant } from "@/lib/tenant";
+import { createAuditLog } from "@/services/audit-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type { EquipmentCategory } from "@/types/asset";
+import type {
+  AssetTagPattern,
+  AssetTagPreview,
+  CreateAssetTagPatternInput,
+  UpdateAssetTagPatternInput,
+} from "@/types/asset-tag";
+import { AUDIT_ACTIONS } from "@/types/audit";
+
+/** Sequence numbers tried before giving up when generated tags are taken */
+const MAX_ALLOCATION_ATTEMPTS = 100;
+
+function mapPatternRow(row: typeof assetTagPatterns.$inferSelect): AssetTagPattern {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    category: row.category as EquipmentCategory,
+    pattern: row.pattern,
+    description: row.description,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function assertValidPattern(pattern: string): void {
+  const error = getTagPatternError(pattern);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+async function findPattern(tx: Database, tenantId: string, category: string) {
+  const [row] = await tx
+    .select()
+    .from(assetTagPatterns)
+    .where(and(
+      eq(assetTagPatterns.tenantId, tenantId),
+      eq(assetTagPatterns.category, category)
+    ));
+
+  return row ?? null;
+}
+
+async function findTakenTags(tx: Database, tenantId: string, tags: string[]): Promise<Set<string>> {
+  const assetRows = await tx
+    .select({ tag: assets.assetTag })
+    .from(assets)
+    .where(and(eq(assets.tenantId, tenantId), inArray(assets.assetTag, tags)));
+  const reservedRows = await tx
+    .select({ tag: reservedTags.tag })
+    .from(reservedTags)
+    .where(and(eq(reservedTags.tenantId, tenantId), inArray(reservedTags.tag, tags)));
+
+  return new Set([...assetRows, ...reservedRows].map((row) => row.tag));
+}
+
+export async function listAssetTagPatterns(ctx: TenantContext): Promise<AssetTagPattern[]> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(assetTagPatterns)
+      .where(eq(assetTagPatterns.tenantId, ctx.tenantId))
+      .orderBy(asc(assetTagPatterns.category));
+
+    return rows.map(mapPatternRow);
+  });
+}
+
+export async function createAssetTagPattern(
+  ctx: TenantContext,
+  input: CreateAssetTagPatternInput
+): Promise<AssetTagPattern> {
+  assertValidPattern(input.pattern);
+
+  return withTenant(ctx.tenantId, async (tx) => {
+    if (await findPattern(tx, ctx.tenantId, input.category)) {
+      throw new Error("Category already has a tag pattern");
+    }
+
+    const [row] = await tx
+      .insert(assetTagPatterns)
+      .values({
+        tenantId: ctx.tenantId,
+        category: input.category,
+        pattern: input.pattern,
+        description: input.description ?? null,
+        createdBy: ctx.userId,
+      })
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to create tag pattern");
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.ASSET_TAG_PATTERN_CREATED,
+      resourceType: "asset_tag_pattern",
+      resourceId: row.id,
+      details: { category: input.category, pattern: input.pattern },
+    });
+
+    return mapPatternRow(row);
+  });
+}
+
+export async function updateAssetTagPattern(
+  ctx: TenantContext,
+  patternId: string,
+  input: UpdateAssetTagPatternInput
+): Promise<AssetTagPattern | null> {
+  if (input.pattern !== undefined) {
+    assertValidPattern(input.pattern);
+  }
+
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .update(assetTagPatterns)
+      .set({
+        ...(input.pattern !== undefined ? { pattern: input.pattern } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(assetTagPatterns.id, patternId),
+        eq(assetTagPatterns.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (!row) {
+      return null;
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.ASSET_TAG_PATTERN_UPDATED,
+      resourceType: "asset_tag_pattern",
+      resourceId: patternId,
+      details: { ...input },
+    });
+
+    return mapPatternRow(row);
+  });
+}
+
+/**
+ * Sequence counters are kept, so re-adding the pattern continues numbering
+ */
+export async function deleteAssetTagPattern(ctx: TenantContext, patternId: string): Promise<boolean> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .delete(assetTagPatterns)
+      .where(and(
+        eq(assetTagPatterns.id, patternId),
+        eq(assetTagPatterns.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (!row) {
+      return false;
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.ASSET_TAG_PATTERN_DELETED,
+      resourceType: "asset_tag_pattern",
+      resourceId: patternId,
+      details: { category: row.category, pattern: row.pattern },
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Takes `count` numbers from the pattern's counter and returns their tags,
+ * skipping tags already used by an asset or reserved in a tag batch. The
+ * counter row stays locked until the caller's transaction commits, so
+ * concurrent callers get distinct numbers, and a rollback gives them back.
+ */
+async function allocateTags(
+  tx: Database,
+  tenantId: string,
+  rendered: RenderedTagPattern,
+  count: number
+): Promise<string[]> {
+  const tags: string[] = [];
+
+  for (let attempt = 0; tags.length < count; attempt++) {
+    if (attempt >= MAX_ALLOCATION_ATTEMPTS) {
+      throw new Error("Asset tag sequence exhausted: generated tags are already in use");
+    }
+
+    const needed = count - tags.length;
+    const [sequence] = await tx
+      .insert(assetTagSequences)
+      .values({ tenantId, scope: rendered.scope, value: needed })
+      .onConflictDoUpdate({
+        target: [assetTagSequences.tenantId, assetTagSequences.scope],
+        set: { value: sql`${assetTagSequences.value} + ${needed}`, updatedAt: new Date() },
+      })
+      .returning({ value: assetTagSequences.value });
+
+    if (!sequence) {
+      throw new Error("Failed to allocate asset tag");
+    }
+
+    const candidates = Array.from({ length: needed }, (_, i) => rendered.format(sequence.value - needed + 1 + i));
+    if (candidates.some((tag) => tag.length > MAX_ASSET_TAG_LENGTH)) {
+      throw new Error(`Asset tag is too long: generated tags may be at most ${MAX_ASSET_TAG_LENGTH} characters`);
+    }
+
+    const taken = await findTakenTags(tx, tenantId, candidates);
+    tags.push(...candidates.filter((tag) => !taken.has(tag)));
+  }
+
+  return tags;
+}
+
+async function renderCategoryPattern(
+  tx: Database,
+  tenantId: string,
+  values: TagPatternValues & { category: string },
+  timezone: string
+) {
+  const pattern = await findPattern(tx, tenantId, values.category);
+  if (!pattern) {
+    return null;
+  }
+
+  return {
+    pattern: pattern.pattern,
+    rendered: renderTagPattern(pattern.pattern, values, { now: new Date(), timezone }),
+  };
+}
+
+/**
+ * Allocates the next tag for an asset from its category's pattern, or
+ * returns null when the category has none. Run it in the transaction that
+ * inserts the asset.
+ */
+export async function generateAssetTag(
+  tx: Database,
+  tenantId: string,
+  values: TagPatternValues & { category: string },
+  timezone: string
+): Promise<string | null> {
+  const category = await renderCategoryPattern(tx, tenantId, values, timezone);
+  if (!category) {
+    return null;
+  }
+
+  const [tag] = await allocateTags(tx, tenantId, category.rendered, 1);
+  return tag ?? null;
+}
+
+/**
+ * Turns a duplicate key error from the assets tag index into the conflict
+ * error routes report as 409. Other errors are returned unchanged. The
+ * transaction has already failed, so call it outside withTenant.
+ */
+export function toAssetTagConflict(error: unknown, assetTag: string | null): unknown {
+  if (!isUniqueViolation(error, "assets_tenant_tag_idx")) {
+    return error;
+  }
+  return new Error(assetTag ? `Asset tag ${assetTag} is already in use` : "Asset tag is already in use");
+}
+
+/**
+ * Allocates a consecutive run of tags for a tag batch. Throws when the
+ * category has no pattern.
+ */
+export async function reserveAssetTags(
+  tx: Database,
+  tenantId: string,
+  values: TagPatternValues & { category: string },
+  timezone: string,
+  count: number
+): Promise<{ pattern: string; tags: string[] }> {
+  const category = await renderCategoryPattern(tx, tenantId, values, timezone);
+  if (!category) {
+    throw new Error(`Asset tag pattern is not set for ${values.category}`);
+  }
+
+  return {
+    pattern: category.pattern,
+    tags: await allocateTags(tx, tenantId, category.rendered, count),
+  };
+}
+
+/**
+ * The tag the next asset with these values would get, without allocating it
+ */
+export async function previewAssetTag(
+  ctx: TenantContext,
+  values: TagPatternValues & { category: string }
+): Promise<AssetTagPreview> {
+  const { timezone } = await getTenantSettings(ctx.tenantId);
+
+  return withTenant(ctx.tenantId, async (tx) => {
+    const pattern = await findPattern(tx, ctx.tenantId, values.category);
+    if (!pattern) {
+      return { pattern: null, tag: null, error: null };
+    }
+
+    let rendered;
+    try {
+      rendered = renderTagPattern(pattern.pattern, values, { now: new Date(), timezone });
+    } catch (error) {
+      return {
+        pattern: pattern.pattern,
+        tag: null,
+        error: error instanceof Error ? error.message : "Invalid tag pattern",
+      };
+    }
+
+    const [sequence] = await tx
+      .select({ value: assetTagSequences.value })
+      .from(assetTagSequences)
+      .where(and(
+        eq(assetTagSequences.tenantId, ctx.tenantId),
+        eq(assetTagSequences.scope, rendered.scope)
+      ));
+
+    return { pattern: pattern.pattern, tag: rendered.format((sequence?.value ?? 0) + 1), error: null };
+  });
+}
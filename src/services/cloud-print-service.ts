@@ -0,0 +1,519 @@
+import { eq, and, asc, ne, sql } from "drizzle-orm";
+import { ZodError } from "zod";
+
+import { cloudPrintProviders, printDispatches, printJobs } from "@/db/schema";
+import { withTenant } from "@/lib/tenant";
+import { createAuditLog } from "@/services/audit-service";
+import { enqueueJob, hasQueuedJob } from "@/services/job-service";
+import { ippPrintAdapter } from "@/services/ipp-print-provider";
+import { mockPrintAdapter } from "@/services/mock-print-provider";
+import {
+  createCloudDispatch,
+  listInFlightCloudDispatches,
+  recordCloudSubmission,
+  updateDispatchStatus,
+} from "@/services/print-agent-service";
+import { markPrintJobDispatched, renderPrintJobForDispatch } from "@/services/print-service";
+import { publishEventInTx } from "@/services/webhook-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type {
+  CloudPrintAdapter,
+  CloudPrintJobStatus,
+  CloudPrintProvider,
+  CloudPrintSyncResult,
+  CreateCloudPrintProviderInput,
+  SubmitCloudPrintInput,
+  UpdateCloudPrintProviderInput,
+} from "@/types/cloud-print";
+import type { PrintDispatch } from "@/types/print-agent";
+import { CLOUD_PRINT_JOB_STATES } from "@/types/cloud-print";
+import { DISPATCH_STATUS, PRINT_DELIVERY_METHODS, PRINTER_LANGUAGES } from "@/types/print-agent";
+import { PRINT_JOB_STATUS } from "@/types/print";
+import { JOB_TYPES } from "@/types/background-job";
+import { AUDIT_ACTIONS } from "@/types/audit";
+import { WEBHOOK_EVENT_TYPES } from "@/types/webhook";
+
+export const CLOUD_PRINT_SYNC_INTERVAL_MS = 15 * 1000;
+
+const SECRET_MASK = "********";
+
+const adapters = new Map<string, CloudPrintAdapter<unknown>>();
+
+export function registerCloudPrintAdapter<TConfig>(adapter: CloudPrintAdapter<TConfig>): void {
+  adapters.set(adapter.type, adapter);
+}
+
+export function getRegisteredCloudPrintProviders(): string[] {
+  return Array.from(adapters.keys());
+}
+
+registerCloudPrintAdapter(ippPrintAdapter);
+if (process.env.NODE_ENV !== "production") {
+  registerCloudPrintAdapter(mockPrintAdapter);
+}
+
+function getAdapter(provider: string): CloudPrintAdapter<unknown> {
+  const adapter = adapters.get(provider);
+  if (!adapter) {
+    throw new Error(`Unsupported cloud print provider: ${provider}`);
+  }
+  return adapter;
+}
+
+function parseProviderConfig(adapter: CloudPrintAdapter<unknown>, config: unknown): unknown {
+  try {
+    return adapter.parseConfig(config);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0];
+      throw new Error(`Invalid provider config: ${issue ? `${issue.path.join(".")} ${issue.message}` : "invalid"}`);
+    }
+    throw error;
+  }
+}
+
+function mapProviderRow(row: typeof cloudPrintProviders.$inferSelect): CloudPrintProvider {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    provider: row.provider,
+    name: row.name,
+    config: (row.config ?? {}) as Record<string, unknown>,
+    isActive: row.isActive,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+  };
+}
+
+function maskSecrets(provider: CloudPrintProvider): CloudPrintProvider {
+  const secretFields = adapters.get(provider.provider)?.secretFields ?? [];
+  const config = { ...provider.config };
+  for (const field of secretFields) {
+    if (config[field]) {
+      config[field] = SECRET_MASK;
+    }
+  }
+  return { ...provider, config };
+}
+
+function stripMaskedSecrets(config: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== SECRET_MASK));
+}
+
+export async function listCloudPrintProviders(ctx: TenantContext): Promise<CloudPrintProvider[]> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(cloudPrintProviders)
+      .where(eq(cloudPrintProviders.tenantId, ctx.tenantId))
+      .orderBy(asc(cloudPrintProviders.name));
+
+    return rows.map((row) => maskSecrets(mapProviderRow(row)));
+  });
+}
+
+export async function getCloudPrintProvider(
+  ctx: TenantContext,
+  providerId: string
+): Promise<CloudPrintProvider | null> {
+  const provider = await loadProvider(ctx.tenantId, providerId);
+  return provider ? maskSecrets(provider) : null;
+}
+
+async function loadProvider(tenantId: string, providerId: string): Promise<CloudPrintProvider | null> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(cloudPrintProviders)
+      .where(and(
+        eq(cloudPrintProviders.id, providerId),
+        eq(cloudPrintProviders.tenantId, tenantId)
+      ));
+
+    return row ? mapProviderRow(row) : null;
+  });
+}
+
+export async function createCloudPrintProvider(
+  ctx: TenantContext,
+  input: CreateCloudPrintProviderInput
+): Promise<CloudPrintProvider> {
+  const adapter = getAdapter(input.provider);
+  parseProviderConfig(adapter, input.config);
+
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .insert(cloudPrintProviders)
+      .values({
+        tenantId: ctx.tenantId,
+        provider: input.provider,
+        name: input.name,
+        config: input.config,
+        isActive: input.isActive ?? true,
+        createdBy: ctx.userId,
+      })
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to create cloud print provider");
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.CLOUD_PRINT_PROVIDER_CREATED,
+      resourceType: "cloud_print_provider",
+      resourceId: row.id,
+      details: { name: input.name, provider: input.provider },
+    });
+
+    return maskSecrets(mapProviderRow(row));
+  });
+}
+
+export async function updateCloudPrintProvider(
+  ctx: TenantContext,
+  providerId: string,
+  input: UpdateCloudPrintProviderInput
+): Promise<CloudPrintProvider | null> {
+  const existing = await loadProvider(ctx.tenantId, providerId);
+  if (!existing) return null;
+
+  const updateData: Partial<typeof cloudPrintProviders.$inferInsert> = {};
+
+  if (input.name !== undefined) updateData.name = input.name;
+  if (input.isActive !== undefined) updateData.isActive = input.isActive;
+  if (input.config !== undefined) {
+    const config = { ...existing.config, ...stripMaskedSecrets(input.config) };
+    parseProviderConfig(getAdapter(existing.provider), config);
+    updateData.config = config;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return maskSecrets(existing);
+  }
+
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .update(cloudPrintProviders)
+      .set(updateData)
+      .where(and(
+        eq(cloudPrintProviders.id, providerId),
+        eq(cloudPrintProviders.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (row) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.CLOUD_PRINT_PROVIDER_UPDATED,
+        resourceType: "cloud_print_provider",
+        resourceId: providerId,
+        details: {
+          name: input.name,
+          isActive: input.isActive,
+          configKeys: input.config ? Object.keys(input.config) : undefined,
+        },
+      });
+    }
+
+    return row ? maskSecrets(mapProviderRow(row)) : null;
+  });
+}
+
+export async function deleteCloudPrintProvider(
+  ctx: TenantContext,
+  providerId: string
+): Promise<boolean> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [used] = await tx
+      .select({ id: printDispatches.id })
+      .from(printDispatches)
+      .where(and(
+        eq(printDispatches.tenantId, ctx.tenantId),
+        eq(printDispatches.providerId, providerId)
+      ))
+      .limit(1);
+
+    if (used) {
+      throw new Error("Cloud print provider has print history; deactivate it instead");
+    }
+
+    const [row] = await tx
+      .delete(cloudPrintProviders)
+      .where(and(
+        eq(cloudPrintProviders.id, providerId),
+        eq(cloudPrintProviders.tenantId, ctx.tenantId)
+      ))
+      .returning({ id: cloudPrintProviders.id });
+
+    if (row) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.CLOUD_PRINT_PROVIDER_DELETED,
+        resourceType: "cloud_print_provider",
+        resourceId: providerId,
+      });
+    }
+
+    return !!row;
+  });
+}
+
+export async function scheduleCloudPrintSync(
+  ctx: TenantContext | { tenantId: string; userId: string | null },
+  delayMs = CLOUD_PRINT_SYNC_INTERVAL_MS
+): Promise<void> {
+  if (await hasQueuedJob(ctx.tenantId, JOB_TYPES.CLOUD_PRINT_SYNC)) return;
+
+  await enqueueJob(ctx, {
+    type: JOB_TYPES.CLOUD_PRINT_SYNC,
+    payload: { tenantId: ctx.tenantId },
+    runAfter: new Date(Date.now() + delayMs),
+  });
+}
+
+/**
+ * Renders a print job for the provider and submits it. The dispatch is recorded
+ * before submission so failures remain visible; status is reconciled later by
+ * the `cloud_print_sync` job.
+ */
+export async function submitCloudPrintJob(
+  ctx: TenantContext,
+  printJobId: string,
+  input: SubmitCloudPrintInput
+): Promise<PrintDispatch> {
+  const provider = await loadProvider(ctx.tenantId, input.providerId);
+  if (!provider) {
+    throw new Error("Cloud print provider not found");
+  }
+  if (!provider.isActive) {
+    throw new Error("Cloud print provider is inactive");
+  }
+
+  const adapter = getAdapter(provider.provider);
+  const config = parseProviderConfig(adapter, provider.config);
+  const format = input.format ?? PRINTER_LANGUAGES.PDF;
+
+  const rendered = await renderPrintJobForDispatch(ctx, printJobId, { language: format });
+  const dispatch = await createCloudDispatch(ctx, printJobId, provider.id, format);
+
+  let submission;
+  try {
+    submission = await adapter.submit(config, {
+      data: rendered.buffer,
+      mimeType: rendered.mimeType,
+      filename: rendered.filename,
+      jobName: rendered.filename,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Submission failed";
+    await failCloudDispatch(ctx, dispatch, message);
+    throw new Error(`Cloud print submission failed: ${message}`);
+  }
+
+  const updated = await recordCloudSubmission(dispatch.id, ctx.tenantId, submission.remoteJobId);
+
+  await markPrintJobDispatched(ctx.tenantId, printJobId);
+
+  await createAuditLog(ctx, {
+    action: AUDIT_ACTIONS.CLOUD_PRINT_SUBMITTED,
+    resourceType: "print_dispatch",
+    resourceId: dispatch.id,
+    details: {
+      printJobId,
+      providerId: provider.id,
+      remoteJobId: submission.remoteJobId,
+      format,
+    },
+  });
+
+  const applied = updated
+    ? await applyRemoteStatus({ tenantId: ctx.tenantId, userId: ctx.userId }, updated, submission)
+    : false;
+  if (!applied) {
+    await scheduleCloudPrintSync(ctx);
+  }
+
+  return updated ?? dispatch;
+}
+
+async function failCloudDispatch(
+  ctx: { tenantId: string; userId: string | null },
+  dispatch: PrintDispatch,
+  message: string
+): Promise<void> {
+  await updateDispatchStatus(dispatch.id, ctx.tenantId, DISPATCH_STATUS.FAILED, message);
+
+  await withTenant(ctx.tenantId, async (tx) => {
+    const [job] = await tx
+      .update(printJobs)
+      .set({
+        status: PRINT_JOB_STATUS.FAILED,
+        errorMessage: message,
+        completedAt: new Date(),
+      })
+      .where(and(
+        eq(printJobs.id, dispatch.printJobId),
+        eq(printJobs.tenantId, ctx.tenantId),
+        ne(printJobs.status, PRINT_JOB_STATUS.CANCELLED)
+      ))
+      .returning({ templateId: printJobs.templateId });
+
+    if (job) {
+      await publishEventInTx(tx, ctx.tenantId, {
+        type: WEBHOOK_EVENT_TYPES.PRINT_FAILED,
+        resourceId: dispatch.printJobId,
+        data: {
+          printJobId: dispatch.printJobId,
+          templateId: job.templateId,
+          deliveryMethod: PRINT_DELIVERY_METHODS.CLOUD,
+          dispatchId: dispatch.id,
+          providerId: dispatch.providerId,
+          error: message,
+        },
+      });
+    }
+  });
+
+  await createAuditLog(ctx, {
+    action: AUDIT_ACTIONS.CLOUD_PRINT_FAILED,
+    severity: "error",
+    resourceType: "print_dispatch",
+    resourceId: dispatch.id,
+    details: { printJobId: dispatch.printJobId, providerId: dispatch.providerId, error: message },
+  });
+}
+
+/**
+ * Writes a remote status onto the dispatch and its print job.
+ * Returns true when the dispatch reached a final state.
+ */
+async function applyRemoteStatus(
+  ctx: { tenantId: string; userId: string | null },
+  dispatch: PrintDispatch,
+  status: CloudPrintJobStatus
+): Promise<boolean> {
+  switch (status.state) {
+    case CLOUD_PRINT_JOB_STATES.PENDING:
+      return false;
+
+    case CLOUD_PRINT_JOB_STATES.PROCESSING:
+      if (dispatch.status !== DISPATCH_STATUS.PRINTING) {
+        await updateDispatchStatus(dispatch.id, ctx.tenantId, DISPATCH_STATUS.PRINTING);
+      }
+      return false;
+
+    case CLOUD_PRINT_JOB_STATES.COMPLETED:
+      await updateDispatchStatus(dispatch.id, ctx.tenantId, DISPATCH_STATUS.COMPLETED);
+      await withTenant(ctx.tenantId, async (tx) => {
+        const [job] = await tx
+          .update(printJobs)
+          .set({ status: PRINT_JOB_STATUS.COMPLETED, completedCount: sql`${printJobs.itemCount}`, completedAt: new Date() })
+          .where(and(
+            eq(printJobs.id, dispatch.printJobId),
+            eq(printJobs.tenantId, ctx.tenantId),
+            eq(printJobs.status, PRINT_JOB_STATUS.PROCESSING)
+          ))
+          .returning({ templateId: printJobs.templateId, itemCount: printJobs.itemCount });
+
+        if (job) {
+          await publishEventInTx(tx, ctx.tenantId, {
+            type: WEBHOOK_EVENT_TYPES.PRINT_COMPLETED,
+            resourceId: dispatch.printJobId,
+            data: {
+              printJobId: dispatch.printJobId,
+              templateId: job.templateId,
+              deliveryMethod: PRINT_DELIVERY_METHODS.CLOUD,
+              itemCount: job.itemCount,
+              dispatchId: dispatch.id,
+              providerId: dispatch.providerId,
+            },
+          });
+        }
+      });
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.CLOUD_PRINT_COMPLETED,
+        resourceType: "print_dispatch",
+        resourceId: dispatch.id,
+        details: { printJobId: dispatch.printJobId, remoteJobId: dispatch.remoteJobId },
+      });
+      return true;
+
+    case CLOUD_PRINT_JOB_STATES.FAILED:
+    case CLOUD_PRINT_JOB_STATES.CANCELLED:
+      await failCloudDispatch(
+        ctx,
+        dispatch,
+        status.message ?? (status.state === CLOUD_PRINT_JOB_STATES.CANCELLED
+          ? "Cancelled on the print service"
+          : "Print service reported a failure")
+      );
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Polls providers for in-flight cloud dispatches of one tenant and reconciles
+ * their status into `print_dispatches` and `print_jobs`. Dispatches whose print
+ * job was cancelled locally are cancelled remotely.
+ */
+export async function syncCloudPrintJobs(tenantId: string): Promise<CloudPrintSyncResult> {
+  const ctx = { tenantId, userId: null };
+  const dispatches = await listInFlightCloudDispatches(tenantId);
+  const result: CloudPrintSyncResult = { checked: 0, completed: 0, failed: 0, pending: 0 };
+  const providers = new Map<string, CloudPrintProvider | null>();
+
+  for (const dispatch of dispatches) {
+    result.checked += 1;
+    const providerId = dispatch.providerId!;
+    const remoteJobId = dispatch.remoteJobId!;
+
+    if (!providers.has(providerId)) {
+      providers.set(providerId, await loadProvider(tenantId, providerId));
+    }
+    const provider = providers.get(providerId);
+
+    try {
+      if (!provider) {
+        throw new Error("Cloud print provider not found");
+      }
+
+      const adapter = getAdapter(provider.provider);
+      const config = parseProviderConfig(adapter, provider.config);
+
+      const [job] = await withTenant(tenantId, async (tx) => {
+        return tx
+          .select({ status: printJobs.status })
+          .from(printJobs)
+          .where(and(
+            eq(printJobs.id, dispatch.printJobId),
+            eq(printJobs.tenantId, tenantId)
+          ));
+      });
+
+      if (job?.status === PRINT_JOB_STATUS.CANCELLED) {
+        await adapter.cancel(config, remoteJobId);
+        await updateDispatchStatus(dispatch.id, tenantId, DISPATCH_STATUS.FAILED, "Print job cancelled");
+        result.failed += 1;
+        continue;
+      }
+
+      const status = await adapter.getStatus(config, remoteJobId);
+      const finished = await applyRemoteStatus(ctx, dispatch, status);
+
+      if (!finished) {
+        result.pending += 1;
+      } else if (status.state === CLOUD_PRINT_JOB_STATES.COMPLETED) {
+        result.completed += 1;
+      } else {
+        result.failed += 1;
+      }
+    } catch (error) {
+      console.error(`[CLOUD_PRINT] Failed to sync dispatch ${dispatch.id}:`, error);
+      result.pending += 1;
+    }
+  }
+
+  return result;
+}
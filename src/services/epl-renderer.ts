@@ -0,0 +1,516 @@
+import QRCode from "qrcode";
+
+import type {
+  LabelSpec,
+  LabelField,
+  LabelElement,
+  LabelUnit,
+  TextStyle,
+  BarcodeStyle,
+  BarcodeFormat,
+  QRCodeStyle,
+  MatrixBarcodeType,
+  DataMatrixStyle,
+  PDF417Style,
+  AztecStyle,
+} from "@/types/label-spec";
+import type { RenderResult, RenderRequest, RenderAssetData, TextOverflowReport } from "@/types/print";
+import type { DateFormatSettings } from "@/types/tenant";
+import {
+  toDots as unitToDots,
+  pointsToPixels,
+  normalizeRotation,
+  isDarkColor,
+  estimateBarcodeModules,
+  evaluateCondition,
+  applyTextTransform,
+  generatePrintFilename,
+  getGS1Elements,
+  resolveFieldValue,
+} from "@/lib/print-utils";
+import { encodeGS1 } from "@/lib/gs1";
+import type { GS1Element } from "@/lib/gs1";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { MATRIX_BARCODE_LABELS, encodeMatrixBarcode, matrixBarcodeRects } from "@/lib/matrix-barcode";
+import { layoutText, reportTextOverflow, scaleTextStyle } from "@/lib/text-layout";
+import { isFlippedCalibration } from "@/lib/printer-calibration";
+
+const LABEL_GAP_MM = 3;
+const MAX_QR_SCALE = 99;
+const MAX_MATRIX_MODULE_SIZE = 10;
+const MAX_NARROW_BAR = 10;
+const WIDE_RATIO = 3;
+
+/** Resident font cell sizes (width, height) in dots, per EPL2 programming guide */
+const FONTS_203_DPI = [
+  { id: 1, width: 10, height: 12 },
+  { id: 2, width: 12, height: 16 },
+  { id: 3, width: 14, height: 20 },
+  { id: 4, width: 16, height: 24 },
+  { id: 5, width: 34, height: 48 },
+];
+
+const FONTS_300_DPI = [
+  { id: 1, width: 14, height: 22 },
+  { id: 2, width: 18, height: 28 },
+  { id: 3, width: 22, height: 36 },
+  { id: 4, width: 26, height: 44 },
+  { id: 5, width: 50, height: 80 },
+];
+
+interface EplContext {
+  dpi: number; // scaled by the printer calibration, for content
+  unit: LabelUnit;
+  dates: DateFormatSettings;
+  textOverflow: TextOverflowReport[];
+  origin: { x: number; y: number }; // calibration offset in dots
+  setup: string[]; // label size and print direction
+}
+
+interface DotRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface EplFont {
+  id: number;
+  hMult: number;
+  vMult: number;
+  charWidth: number;
+  charHeight: number;
+}
+
+export async function renderLabelsEpl(request: RenderRequest): Promise<RenderResult> {
+  const { spec, assets, options, dates = DEFAULT_DATE_SETTINGS, calibration } = request;
+  const dpi = options.dpi || spec.dpi;
+  const copies = Math.max(1, Math.min(options.copies ?? 1, 100));
+  // ZB prints the label turned by 180 degrees, so offsets are applied reversed
+  const flipped = isFlippedCalibration(calibration);
+  const sign = flipped ? -1 : 1;
+  const ctx: EplContext = {
+    dpi: dpi * (calibration?.scale ?? 1),
+    unit: spec.dimensions.unit,
+    dates,
+    textOverflow: [],
+    origin: {
+      x: sign * unitToDots(calibration?.offsetX ?? 0, "mm", dpi),
+      y: sign * unitToDots(calibration?.offsetY ?? 0, "mm", dpi),
+    },
+    setup: [
+      `q${unitToDots(spec.dimensions.width, spec.dimensions.unit, dpi)}`,
+      `Q${unitToDots(spec.dimensions.height, spec.dimensions.unit, dpi)},${unitToDots(LABEL_GAP_MM, "mm", dpi)}`,
+      ...(flipped ? ["ZB"] : []),
+    ],
+  };
+
+  const labels: string[] = [];
+  for (const asset of assets) {
+    labels.push(renderSingleLabel(ctx, spec, asset, copies));
+  }
+
+  return {
+    buffer: Buffer.from(labels.join("\n"), "latin1"),
+    mimeType: "application/x-epl",
+    filename: generatePrintFilename(spec.name, assets.length * copies, "epl"),
+    pageCount: assets.length * copies,
+    textOverflow: ctx.textOverflow,
+  };
+}
+
+function renderSingleLabel(
+  ctx: EplContext,
+  spec: LabelSpec,
+  asset: RenderAssetData,
+  copies: number
+): string {
+  const commands: string[] = [
+    "",
+    "N",
+    ...ctx.setup,
+    "I8,A,001",
+  ];
+
+  for (const element of spec.elements) {
+    if (element.visible === false) continue;
+    if (element.condition && !evaluateCondition(element.condition, asset, ctx.dates)) continue;
+    commands.push(...renderElement(ctx, element));
+  }
+
+  for (const field of spec.fields) {
+    if (field.visible === false) continue;
+    if (field.condition && !evaluateCondition(field.condition, asset, ctx.dates)) continue;
+    commands.push(...renderField(ctx, field, asset));
+  }
+
+  commands.push(`P${copies}`);
+  return commands.join("\n");
+}
+
+function renderElement(ctx: EplContext, element: LabelElement): string[] {
+  const rect = toDotRect(ctx, element.position, element.size);
+  const rotation = toEplRotation(element.rotation, `element ${element.id}`);
+
+  switch (element.type) {
+    case "text": {
+      const style: TextStyle = {
+        fontFamily: element.style.fontFamily ?? "Arial",
+        fontSize: element.style.fontSize ?? 10,
+        fontWeight: element.style.fontWeight ?? "normal",
+        fontStyle: "normal",
+        color: element.style.color ?? "#000000",
+        textAlign: element.style.textAlign ?? "left",
+        verticalAlign: "top",
+      };
+      return renderText(ctx, rect, element.content ?? "", style, rotation, `element ${element.id}`);
+    }
+    case "rect":
+      assertUnrotated(rotation, `element ${element.id}`);
+      return renderRect(ctx, rect, element.style, element.id);
+    case "line":
+      assertUnrotated(rotation, `element ${element.id}`);
+      return renderLine(ctx, rect, element.style);
+    case "image":
+    case "logo":
+      throw new Error(`EPL2 output does not support ${element.type} elements (element ${element.id})`);
+  }
+}
+
+function renderField(ctx: EplContext, field: LabelField, asset: RenderAssetData): string[] {
+  const rect = toDotRect(ctx, field.position, field.size);
+  const rotation = toEplRotation(field.rotation, `field ${field.id}`);
+  const value = resolveFieldValue(asset, field, ctx.dates);
+  const gs1 = field.gs1 ? getGS1Elements(asset, field.gs1) : null;
+
+  switch (field.type) {
+    case "text":
+    case "date":
+      return renderText(ctx, rect, value, field.style as TextStyle, rotation, `field ${field.id}`, () =>
+        reportTextOverflow(ctx.textOverflow, asset.id, field)
+      );
+    case "barcode":
+      if (gs1) {
+        throw new Error(`EPL2 output does not support GS1-128 barcodes (field ${field.id})`);
+      }
+      return renderBarcode(ctx, rect, value, field.style as BarcodeStyle, rotation, field.id);
+    case "qrcode":
+      return renderQRCode(rect, value, field.style as QRCodeStyle, field.id);
+    case "datamatrix":
+    case "pdf417":
+    case "aztec":
+      return renderMatrixBarcode(
+        rect,
+        value,
+        field.type,
+        field.style as DataMatrixStyle | PDF417Style | AztecStyle,
+        rotation,
+        field.id,
+        gs1
+      );
+    case "image":
+      throw new Error(`EPL2 output does not support image fields (field ${field.id})`);
+  }
+}
+
+function renderText(
+  ctx: EplContext,
+  rect: DotRect,
+  text: string,
+  style: TextStyle,
+  rotation: number,
+  label: string,
+  onTruncated?: () => void
+): string[] {
+  if (!text) return [];
+
+  if (!isDarkColor(style.color)) {
+    throw new Error(`EPL2 output does not support light text colors (${label})`);
+  }
+
+  const displayText = applyTextTransform(text, style.textTransform);
+  const sideways = rotation === 1 || rotation === 3;
+  const boxWidth = sideways ? rect.height : rect.width;
+  const boxHeight = sideways ? rect.width : rect.height;
+
+  // Resident fonts are fixed-pitch bitmaps, so measure with the font each size maps to
+  const layout = layoutText(
+    displayText,
+    scaleTextStyle(style, pointsToPixels(1, ctx.dpi)),
+    boxWidth,
+    boxHeight,
+    (line, size) => line.length * selectFont(ctx, size).charWidth
+  );
+  if (layout.truncated) {
+    if (style.overflow === "error") {
+      throw new Error(`Text does not fit ${label}`);
+    }
+    onTruncated?.();
+  }
+
+  const font = selectFont(ctx, layout.fontSize);
+  const lineHeight = Math.round(layout.lineHeight);
+  const top = Math.round(layout.top);
+
+  return layout.lines.map((line, index) => {
+    const lineWidth = line.length * font.charWidth;
+    let left = 0;
+    if (style.textAlign === "center") {
+      left = Math.max(0, Math.round((boxWidth - lineWidth) / 2));
+    } else if (style.textAlign === "right") {
+      left = Math.max(0, boxWidth - lineWidth);
+    }
+
+    const { x, y } = placeInRect(rect, rotation, left, top + index * lineHeight);
+    return `A${x},${y},${rotation},${font.id},${font.hMult},${font.vMult},N,${quote(line, label)}`;
+  });
+}
+
+function renderBarcode(
+  ctx: EplContext,
+  rect: DotRect,
+  value: string,
+  style: BarcodeStyle,
+  rotation: number,
+  fieldId: string
+): string[] {
+  if (!value) return [];
+
+  const type = barcodeType(style.format, value, fieldId);
+  const sideways = rotation === 1 || rotation === 3;
+  const boxWidth = sideways ? rect.height : rect.width;
+  const boxHeight = sideways ? rect.width : rect.height;
+
+  const modules = estimateBarcodeModules(style.format, value);
+  const narrow = Math.max(1, Math.min(MAX_NARROW_BAR, Math.floor(boxWidth / modules)));
+  const wide = style.format === "CODE39" || style.format === "ITF14" ? narrow * WIDE_RATIO : narrow;
+  const textReserve = style.displayValue ? Math.round(ctx.dpi / 10) : 0;
+  const barHeight = Math.max(1, boxHeight - textReserve);
+
+  const barcodeWidth = modules * narrow;
+  let left = 0;
+  if (style.textAlign === "center") {
+    left = Math.max(0, Math.round((boxWidth - barcodeWidth) / 2));
+  } else if (style.textAlign === "right") {
+    left = Math.max(0, boxWidth - barcodeWidth);
+  }
+
+  const { x, y } = placeInRect(rect, rotation, left, 0);
+  const readable = style.displayValue ? "B" : "N";
+  return [`B${x},${y},${rotation},${type},${narrow},${wide},${barHeight},${readable},${quote(value, `field ${fieldId}`)}`];
+}
+
+function barcodeType(format: BarcodeFormat, value: string, fieldId: string): string {
+  switch (format) {
+    case "CODE128":
+      return "1";
+    case "CODE39":
+      return "3";
+    case "EAN13":
+      return "E30";
+    case "EAN8":
+      return "E80";
+    case "UPC":
+      return "UA0";
+    case "ITF14":
+      return value.length === 13 ? "2C" : "2";
+    default:
+      throw new Error(`EPL2 output does not support ${format} barcodes (field ${fieldId})`);
+  }
+}
+
+function renderQRCode(rect: DotRect, value: string, style: QRCodeStyle, fieldId: string): string[] {
+  if (!value) return [];
+
+  if (!isDarkColor(style.darkColor) || isDarkColor(style.lightColor)) {
+    throw new Error(`EPL2 output does not support inverted QR code colors (field ${fieldId})`);
+  }
+
+  const moduleCount = QRCode.create(value, {
+    errorCorrectionLevel: style.errorCorrectionLevel,
+  }).modules.size + style.margin * 2;
+  const size = Math.min(rect.width, rect.height);
+  const scale = Math.max(1, Math.min(MAX_QR_SCALE, Math.floor(size / moduleCount)));
+
+  const symbolSize = moduleCount * scale;
+  const x = rect.x + Math.max(0, Math.round((rect.width - symbolSize) / 2)) + style.margin * scale;
+  const y = rect.y + Math.max(0, Math.round((rect.height - symbolSize) / 2)) + style.margin * scale;
+
+  return [`b${x},${y},Q,m2,s${scale},e${style.errorCorrectionLevel},${quote(value, `field ${fieldId}`)}`];
+}
+
+/**
+ * EPL2 has no reliable resident DataMatrix, PDF417 or Aztec encoders across
+ * printer models, so the encoded modules are drawn as black line boxes
+ */
+function renderMatrixBarcode(
+  rect: DotRect,
+  value: string,
+  type: MatrixBarcodeType,
+  style: DataMatrixStyle | PDF417Style | AztecStyle,
+  rotation: number,
+  fieldId: string,
+  gs1: GS1Element[] | null = null
+): string[] {
+  if (gs1 ? gs1.length === 0 : !value) return [];
+
+  const label = MATRIX_BARCODE_LABELS[type];
+  if (rotation !== 0) {
+    throw new Error(`EPL2 output does not support rotated ${label} symbols (field ${fieldId})`);
+  }
+  if (!isDarkColor(style.darkColor) || isDarkColor(style.lightColor)) {
+    throw new Error(`EPL2 output does not support inverted ${label} colors (field ${fieldId})`);
+  }
+
+  const barcode = encodeMatrixBarcode(type, value, style, gs1 ? encodeGS1(gs1) : null);
+  const columns = barcode.columns + style.margin * 2;
+  const rows = barcode.rows + style.margin * 2;
+  const moduleSize = Math.max(
+    1,
+    Math.min(MAX_MATRIX_MODULE_SIZE, Math.floor(Math.min(rect.width / columns, rect.height / rows)))
+  );
+
+  const x = rect.x + Math.max(0, Math.round((rect.width - columns * moduleSize) / 2)) + style.margin * moduleSize;
+  const y = rect.y + Math.max(0, Math.round((rect.height - rows * moduleSize) / 2)) + style.margin * moduleSize;
+
+  return matrixBarcodeRects(barcode).map(
+    (module) =>
+      `LO${x + module.x * moduleSize},${y + module.y * moduleSize},${module.width * moduleSize},${module.height * moduleSize}`
+  );
+}
+
+function renderRect(
+  ctx: EplContext,
+  rect: DotRect,
+  style: LabelElement["style"],
+  elementId: string
+): string[] {
+  if (style.borderRadius) {
+    throw new Error(`EPL2 output does not support rounded rectangles (element ${elementId})`);
+  }
+
+  const commands: string[] = [];
+
+  if (style.fill && isDarkColor(style.fill)) {
+    commands.push(`LO${rect.x},${rect.y},${rect.width},${rect.height}`);
+  }
+
+  if (style.stroke && style.strokeWidth) {
+    const thickness = Math.max(1, pointsToDots(ctx, style.strokeWidth));
+    if (isDarkColor(style.stroke)) {
+      commands.push(`X${rect.x},${rect.y},${thickness},${rect.x + rect.width},${rect.y + rect.height}`);
+    } else {
+      commands.push(
+        `LW${rect.x},${rect.y},${rect.width},${thickness}`,
+        `LW${rect.x},${rect.y + rect.height - thickness},${rect.width},${thickness}`,
+        `LW${rect.x},${rect.y},${thickness},${rect.height}`,
+        `LW${rect.x + rect.width - thickness},${rect.y},${thickness},${rect.height}`
+      );
+    }
+  }
+
+  return commands;
+}
+
+function renderLine(ctx: EplContext, rect: DotRect, style: LabelElement["style"]): string[] {
+  const thickness = Math.max(1, pointsToDots(ctx, style.strokeWidth ?? 1));
+  const dark = isDarkColor(style.stroke ?? "#000000");
+
+  if (rect.height === 0 || rect.width === 0) {
+    const width = Math.max(rect.width, thickness);
+    const height = Math.max(rect.height, thickness);
+    return [`${dark ? "LO" : "LW"}${rect.x},${rect.y},${width},${height}`];
+  }
+
+  if (!dark) {
+    throw new Error("EPL2 output does not support light diagonal lines");
+  }
+
+  return [`LS${rect.x},${rect.y},${thickness},${rect.x + rect.width},${rect.y + rect.height}`];
+}
+
+function selectFont(ctx: EplContext, targetHeight: number): EplFont {
+  const fonts = ctx.dpi >= 300 ? FONTS_300_DPI : FONTS_203_DPI;
+
+  let best: EplFont | null = null;
+  let bestDelta = Infinity;
+
+  for (const font of fonts) {
+    const vMult = Math.max(1, Math.min(9, Math.round(targetHeight / font.height)));
+    const delta = Math.abs(font.height * vMult - targetHeight) + (vMult - 1);
+    if (delta < bestDelta) {
+      const hMult = Math.min(6, vMult);
+      best = {
+        id: font.id,
+        hMult,
+        vMult,
+        charWidth: font.width * hMult,
+        charHeight: font.height * vMult,
+      };
+      bestDelta = delta;
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Maps an offset inside the unrotated field box to the EPL anchor point,
+ * which the printer rotates around.
+ */
+function placeInRect(rect: DotRect, rotation: number, left: number, top: number): { x: number; y: number } {
+  switch (rotation) {
+    case 1:
+      return { x: rect.x + rect.width - top, y: rect.y + left };
+    case 2:
+      return { x: rect.x + rect.width - left, y: rect.y + rect.height - top };
+    case 3:
+      return { x: rect.x + top, y: rect.y + rect.height - left };
+    default:
+      return { x: rect.x + left, y: rect.y + top };
+  }
+}
+
+function toEplRotation(rotation: number | undefined, label: string): number {
+  const normalized = normalizeRotation(rotation);
+  if (rotation !== undefined && ((rotation % 360) + 360) % 360 !== normalized) {
+    throw new Error(`EPL2 output only supports rotations in 90 degree steps (${label})`);
+  }
+  return normalized / 90;
+}
+
+function assertUnrotated(rotation: number, label: string): void {
+  if (rotation !== 0) {
+    throw new Error(`EPL2 output does not support rotated shapes (${label})`);
+  }
+}
+
+function quote(value: string, label: string): string {
+  for (const char of value) {
+    if (char.charCodeAt(0) > 0xff) {
+      throw new Error(`EPL2 output cannot encode the character "${char}" (${label})`);
+    }
+  }
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function toDots(ctx: EplContext, value: number): number {
+  return unitToDots(value, ctx.unit, ctx.dpi);
+}
+
+function pointsToDots(ctx: EplContext, points: number): number {
+  return Math.round(pointsToPixels(points, ctx.dpi));
+}
+
+function toDotRect(
+  ctx: EplContext,
+  position: { x: number; y: number },
+  size: { width: number; height: number }
+): DotRect {
+  return {
+    x: Math.max(0, ctx.origin.x + toDots(ctx, position.x)),
+    y: Math.max(0, ctx.origin.y + toDots(ctx, position.y)),
+    width: toDots(ctx, size.width),
+    height: toDots(ctx, size.height),
+  };
+}
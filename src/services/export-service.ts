@@ -1,11 +1,14 @@
-import { eq, and, ilike, desc } from "drizzle-orm";
+import { eq, and, ilike, desc, count } from "drizzle-orm";
 import * as Papa from "papaparse";
 import * as XLSX from "xlsx";
 
 import { db } from "@/db";
+import type { Database } from "@/db";
 import { assets, exportJobs } from "@/db/schema";
 import { withTenant } from "@/lib/tenant";
 import { createAuditLog } from "@/services/audit-service";
+import { enqueueJob } from "@/services/job-service";
+import { createSignedDownload, getStorage, tenantStorageKey } from "@/services/storage-service";
 
 import type { TenantContext } from "@/types/tenant";
 import type {
@@ -14,9 +17,13 @@ import type {
   CreateExportJobInput,
   ExportResult,
   ExportFormat,
+  ExportAssetsJobPayload,
+  ExportJobListResult,
   ImportJobStatus,
 } from "@/types/import-export";
+import type { SignedDownload } from "@/types/storage";
 import { IMPORT_JOB_STATUS, EXPORT_FORMATS } from "@/types/import-export";
+import { JOB_TYPES } from "@/types/background-job";
 import { AUDIT_ACTIONS } from "@/types/audit";
 
 const MAX_EXPORT_ROWS = 50000;
@@ -69,70 +76,81 @@ function mapJobRow(row: typeof exportJobs.$inferSelect): ExportJob {
   };
 }
 
+async function buildAssetExport(
+  tx: Database,
+  tenantId: string,
+  format: ExportFormat,
+  filters: ExportFilters = {}
+): Promise<ExportResult & { rowCount: number }> {
+  const conditions = [eq(assets.tenantId, tenantId)];
+
+  if (filters.category) {
+    conditions.push(eq(assets.category, filters.category));
+  }
+  if (filters.status) {
+    conditions.push(eq(assets.status, filters.status));
+  }
+  if (filters.location) {
+    conditions.push(ilike(assets.location, `%${filters.location}%`));
+  }
+  if (filters.search) {
+    const search = `%${filters.search}%`;
+    conditions.push(
+      ilike(assets.assetTag, search)
+    );
+  }
+
+  const rows = await tx
+    .select()
+    .from(assets)
+    .where(and(...conditions))
+    .orderBy(desc(assets.createdAt))
+    .limit(MAX_EXPORT_ROWS);
+
+  const data = rows.map((row) => sanitizeExportRow({
+    "Asset Tag": row.assetTag,
+    "Serial Number": row.serialNumber,
+    "Category": row.category,
+    "Type": row.type,
+    "Manufacturer": row.manufacturer,
+    "Model": row.model,
+    "Location": row.location,
+    "Department": row.department ?? "",
+    "Assigned To": row.assignedTo ?? "",
+    "Status": row.status,
+    "Purchase Date": row.purchaseDate ?? "",
+    "Warranty Expiry": row.warrantyExpiry ?? "",
+    "Notes": row.notes ?? "",
+    "Created At": row.createdAt.toISOString(),
+  }));
+
+  let buffer: Buffer;
+  let mimeType: string;
+  let filename: string;
+
+  if (format === EXPORT_FORMATS.CSV) {
+    const csv = Papa.unparse(data);
+    buffer = Buffer.from(csv, "utf-8");
+    mimeType = "text/csv";
+    filename = `assets-export-${Date.now()}.csv`;
+  } else {
+    const worksheet = XLSX.utils.json_to_sheet(data);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Assets");
+    buffer = Buffer.from(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+    mimeType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+    filename = `assets-export-${Date.now()}.xlsx`;
+  }
+
+  return { buffer, filename, mimeType, rowCount: data.length };
+}
+
 export async function exportAssets(
   ctx: TenantContext,
   input: CreateExportJobInput
 ): Promise<ExportResult> {
   return withTenant(ctx.tenantId, async (tx) => {
-    const conditions = [eq(assets.tenantId, ctx.tenantId)];
-
-    if (input.filters?.category) {
-      conditions.push(eq(assets.category, input.filters.category));
-    }
-    if (input.filters?.status) {
-      conditions.push(eq(assets.status, input.filters.status));
-    }
-    if (input.filters?.location) {
-      conditions.push(ilike(assets.location, `%${input.filters.location}%`));
-    }
-    if (input.filters?.search) {
-      const search = `%${input.filters.search}%`;
-      conditions.push(
-        ilike(assets.assetTag, search)
-      );
-    }
-
-    const rows = await tx
-      .select()
-      .from(assets)
-      .where(and(...conditions))
-      .orderBy(desc(assets.createdAt))
-      .limit(MAX_EXPORT_ROWS);
-
-    const data = rows.map((row) => sanitizeExportRow({
-      "Asset Tag": row.assetTag,
-      "Serial Number": row.serialNumber,
-      "Category": row.category,
-      "Type": row.type,
-      "Manufacturer": row.manufacturer,
-      "Model": row.model,
-      "Location": row.location,
-      "Department": row.department ?? "",
-      "Assigned To": row.assignedTo ?? "",
-      "Status": row.status,
-      "Purchase Date": row.purchaseDate ?? "",
-      "Warranty Expiry": row.warrantyExpiry ?? "",
-      "Notes": row.notes ?? "",
-      "Created At": row.createdAt.toISOString(),
-    }));
-
-    let buffer: Buffer;
-    let mimeType: string;
-    let filename: string;
-
-    if (input.format === EXPORT_FORMATS.CSV) {
-      const csv = Papa.unparse(data);
-      buffer = Buffer.from(csv, "utf-8");
-      mimeType = "text/csv";
-      filename = `assets-export-${Date.now()}.csv`;
-    } else {
-      const worksheet = XLSX.utils.json_to_sheet(data);
-      const workbook = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(workbook, worksheet, "Assets");
-      buffer = Buffer.from(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
-      mimeType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
-      filename = `assets-export-${Date.now()}.xlsx`;
-    }
+    const { rowCount, ...result } = await buildAssetExport(tx, ctx.tenantId, input.format, input.filters);
 
     await createAuditLog(ctx, {
       action: AUDIT_ACTIONS.EXPORT_EXECUTED,
@@ -140,11 +158,11 @@ export async function exportAssets(
       details: {
         format: input.format,
         filters: input.filters,
-        rowCount: data.length,
+        rowCount,
       },
     });
 
-    return { buffer, filename, mimeType };
+    return result;
   });
 }
 
@@ -173,6 +191,18 @@ export async function createExportJob(
       throw new Error("Failed to create export job");
     }
 
+    const payload: ExportAssetsJobPayload = {
+      jobId: row.id,
+      tenantId: ctx.tenantId,
+    };
+
+    await enqueueJob(ctx, {
+      type: JOB_TYPES.EXPORT_ASSETS,
+      payload,
+      priority: 5,
+      maxAttempts: 1,
+    });
+
     await createAuditLog(ctx, {
       action: AUDIT_ACTIONS.EXPORT_CREATED,
       resourceType: "export_job",
@@ -200,3 +230,121 @@ export async function getExportJob(
     return row ? mapJobRow(row) : null;
   });
 }
+
+export async function listExportJobs(
+  ctx: TenantContext,
+  page = 1,
+  pageSize = 20
+): Promise<ExportJobListResult> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [countResult] = await tx
+      .select({ count: count() })
+      .from(exportJobs)
+      .where(eq(exportJobs.tenantId, ctx.tenantId));
+
+    const rows = await tx
+      .select()
+      .from(exportJobs)
+      .where(eq(exportJobs.tenantId, ctx.tenantId))
+      .orderBy(desc(exportJobs.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      jobs: rows.map(mapJobRow),
+      total: countResult?.count ?? 0,
+      page,
+      pageSize,
+    };
+  });
+}
+
+export async function getExportJobDownload(
+  ctx: TenantContext,
+  jobId: string
+): Promise<SignedDownload | null> {
+  const job = await getExportJob(ctx, jobId);
+  if (!job) {
+    throw new Error("Export job not found");
+  }
+
+  if (job.status !== IMPORT_JOB_STATUS.COMPLETED || !job.outputStorageKey) {
+    return null;
+  }
+  if (job.expiresAt && job.expiresAt < new Date()) {
+    return null;
+  }
+
+  return createSignedDownload(job.outputStorageKey, {
+    filename: job.outputStorageKey.split("/").pop(),
+    contentType: job.outputMime ?? undefined,
+  });
+}
+
+export async function processExportJob(jobId: string, tenantId: string): Promise<void> {
+  const job = await withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(exportJobs)
+      .set({
+        status: IMPORT_JOB_STATUS.PROCESSING,
+        startedAt: new Date(),
+      })
+      .where(and(
+        eq(exportJobs.id, jobId),
+        eq(exportJobs.status, IMPORT_JOB_STATUS.QUEUED)
+      ))
+      .returning();
+
+    return row ?? null;
+  });
+
+  if (!job) {
+    return;
+  }
+
+  try {
+    const result = await withTenant(tenantId, (tx) =>
+      buildAssetExport(tx, tenantId, job.format as ExportFormat, job.filters as ExportFilters)
+    );
+
+    const key = tenantStorageKey(tenantId, "exports", jobId, result.filename);
+    await getStorage().put(key, result.buffer, result.mimeType);
+
+    await withTenant(tenantId, async (tx) => {
+      await tx
+        .update(exportJobs)
+        .set({
+          status: IMPORT_JOB_STATUS.COMPLETED,
+          totalRows: result.rowCount,
+          outputMime: result.mimeType,
+          outputBytes: result.buffer.length,
+          outputStorageKey: key,
+          completedAt: new Date(),
+        })
+        .where(eq(exportJobs.id, jobId));
+    });
+
+    await createAuditLog({ tenantId, userId: job.createdBy }, {
+      action: AUDIT_ACTIONS.EXPORT_EXECUTED,
+      resourceType: "export_job",
+      resourceId: jobId,
+      details: {
+        format: job.format,
+        filters: job.filters,
+        rowCount: result.rowCount,
+      },
+    });
+  } catch (error) {
+    await withTenant(tenantId, async (tx) => {
+      await tx
+        .update(exportJobs)
+        .set({
+          status: IMPORT_JOB_STATUS.FAILED,
+          completedAt: new Date(),
+        })
+        .where(eq(exportJobs.id, jobId));
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,243 @@
+import { eq, and, asc, inArray } from "drizzle-orm";
+
+import type { Database } from "@/db";
+import { tenantFonts } from "@/db/schema";
+import { parseFontFile } from "@/lib/font-file";
+import { withTenant } from "@/lib/tenant";
+import { createAuditLog } from "@/services/audit-service";
+import { getStorage, tenantStorageKey } from "@/services/storage-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type { LabelSpec } from "@/types/label-spec";
+import type { FontFileFormat, FontStyle, FontWeight, RenderFont, TenantFont, UploadFontInput } from "@/types/font";
+import { FONT_FILE_FORMATS, FONT_MIME_TYPES, MAX_FONT_FILE_SIZE } from "@/types/font";
+import { AUDIT_ACTIONS } from "@/types/audit";
+
+function mapFontRow(row: typeof tenantFonts.$inferSelect): TenantFont {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    family: row.family,
+    weight: row.weight as FontWeight,
+    style: row.style as FontStyle,
+    format: row.format as FontFileFormat,
+    fileName: row.fileName,
+    fileSize: row.fileSize,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+  };
+}
+
+function getFontFormat(fileName: string): FontFileFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const format = Object.values(FONT_FILE_FORMATS).find((value) => value === extension);
+
+  if (!format) {
+    throw new Error("Invalid file type. Must be a .ttf or .otf font");
+  }
+  return format;
+}
+
+export function getFontMimeType(font: Pick<TenantFont, "format">): string {
+  return FONT_MIME_TYPES[font.format];
+}
+
+/**
+ * Families a spec's text fields and static text elements ask for
+ */
+function getSpecFontFamilies(spec: LabelSpec): string[] {
+  const families = new Set<string>();
+
+  for (const field of spec.fields) {
+    if (field.type === "text" || field.type === "date") {
+      families.add((field.style as { fontFamily: string }).fontFamily);
+    }
+  }
+  for (const element of spec.elements) {
+    if (element.type === "text" && element.style.fontFamily) {
+      families.add(element.style.fontFamily);
+    }
+  }
+
+  return [...families];
+}
+
+export async function listFonts(ctx: TenantContext): Promise<TenantFont[]> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(tenantFonts)
+      .where(eq(tenantFonts.tenantId, ctx.tenantId))
+      .orderBy(asc(tenantFonts.family), asc(tenantFonts.weight), asc(tenantFonts.style));
+
+    return rows.map(mapFontRow);
+  });
+}
+
+export async function uploadFont(ctx: TenantContext, input: UploadFontInput): Promise<TenantFont> {
+  if (input.data.length > MAX_FONT_FILE_SIZE) {
+    throw new Error(`Font file too large. Maximum size is ${MAX_FONT_FILE_SIZE / 1024 / 1024}MB`);
+  }
+
+  const format = getFontFormat(input.fileName);
+  const info = parseFontFile(new Uint8Array(input.data));
+  const family = input.family?.trim() || info.family;
+  const weight = input.weight ?? info.weight;
+  const style = input.style ?? info.style;
+
+  const id = crypto.randomUUID();
+  const storageKey = tenantStorageKey(ctx.tenantId, "fonts", id, input.fileName);
+  let stored = false;
+
+  try {
+    return await withTenant(ctx.tenantId, async (tx) => {
+      const [existing] = await tx
+        .select({ id: tenantFonts.id })
+        .from(tenantFonts)
+        .where(and(
+          eq(tenantFonts.tenantId, ctx.tenantId),
+          eq(tenantFonts.family, family),
+          eq(tenantFonts.weight, weight),
+          eq(tenantFonts.style, style)
+        ));
+
+      if (existing) {
+        throw new Error("Font face already exists");
+      }
+
+      await getStorage().put(storageKey, input.data, FONT_MIME_TYPES[format]);
+      stored = true;
+
+      const [row] = await tx
+        .insert(tenantFonts)
+        .values({
+          id,
+          tenantId: ctx.tenantId,
+          family,
+          weight,
+          style,
+          format,
+          fileName: input.fileName,
+          fileSize: input.data.length,
+          storageKey,
+          createdBy: ctx.userId,
+        })
+        .returning();
+
+      if (!row) {
+        throw new Error("Failed to save font");
+      }
+
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.FONT_UPLOADED,
+        resourceType: "font",
+        resourceId: row.id,
+        details: { family, weight, style, fileName: input.fileName, fileSize: input.data.length },
+      });
+
+      return mapFontRow(row);
+    });
+  } catch (error) {
+    // The file is written before the row, so a failed insert would orphan it
+    if (stored) await deleteFontFile(storageKey);
+    throw error;
+  }
+}
+
+export async function deleteFont(ctx: TenantContext, fontId: string): Promise<boolean> {
+  const deleted = await withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .delete(tenantFonts)
+      .where(and(
+        eq(tenantFonts.id, fontId),
+        eq(tenantFonts.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (row) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.FONT_DELETED,
+        resourceType: "font",
+        resourceId: fontId,
+        details: { family: row.family, weight: row.weight, style: row.style },
+      });
+    }
+
+    return row ?? null;
+  });
+
+  if (!deleted) return false;
+
+  await deleteFontFile(deleted.storageKey);
+  return true;
+}
+
+async function deleteFontFile(storageKey: string): Promise<void> {
+  try {
+    await getStorage().delete(storageKey);
+  } catch (error) {
+    console.error(`[STORAGE] Failed to delete font file ${storageKey}:`, error);
+  }
+}
+
+export async function getFontFile(
+  ctx: TenantContext,
+  fontId: string
+): Promise<{ font: TenantFont; data: Buffer } | null> {
+  const row = await withTenant(ctx.tenantId, async (tx) => {
+    const [font] = await tx
+      .select()
+      .from(tenantFonts)
+      .where(and(
+        eq(tenantFonts.id, fontId),
+        eq(tenantFonts.tenantId, ctx.tenantId)
+      ));
+    return font ?? null;
+  });
+
+  if (!row) return null;
+
+  const data = await getStorage().get(row.storageKey);
+  return data ? { font: mapFontRow(row), data } : null;
+}
+
+/**
+ * Loads the tenant fonts a spec uses so renderers can embed them. Families
+ * without an uploaded font fall back to the standard fonts.
+ */
+export async function loadSpecFonts(
+  tx: Database,
+  tenantId: string,
+  spec: LabelSpec
+): Promise<RenderFont[]> {
+  const families = getSpecFontFamilies(spec);
+  if (families.length === 0) return [];
+
+  const rows = await tx
+    .select()
+    .from(tenantFonts)
+    .where(and(
+      eq(tenantFonts.tenantId, tenantId),
+      inArray(tenantFonts.family, families)
+    ));
+
+  const fonts = await Promise.all(
+    rows.map(async (row): Promise<RenderFont | null> => {
+      const data = await getStorage().get(row.storageKey);
+      if (!data) {
+        console.error(`[STORAGE] Font file missing for font ${row.id}`);
+        return null;
+      }
+      return {
+        id: row.id,
+        family: row.family,
+        weight: row.weight as FontWeight,
+        style: row.style as FontStyle,
+        format: row.format as FontFileFormat,
+        data: new Uint8Array(data),
+      };
+    })
+  );
+
+  return fonts.filter((font): font is RenderFont => font !== null);
+}
@@ -1,12 +1,17 @@
-import { eq, and, desc, count } from "drizzle-orm";
+import { eq, and, desc, count, inArray, sql } from "drizzle-orm";
 import * as Papa from "papaparse";
 import * as XLSX from "xlsx";
 
 import { db } from "@/db";
-import { importTemplates, importJobs, importJobErrors, assets } from "@/db/schema";
-import { withTenant } from "@/lib/tenant";
+import { importTemplates, importJobs, importJobErrors, assets, backgroundJobs } from "@/db/schema";
+import type { TagPatternValues } from "@/lib/asset-tag-pattern";
+import { getTenantSettings, withTenant } from "@/lib/tenant";
+import { generateAssetTag, toAssetTagConflict } from "@/services/asset-tag-service";
 import { createAuditLog } from "@/services/audit-service";
 import { enqueueJob } from "@/services/job-service";
+import { NonRetryableJobError } from "@/services/job-worker";
+import { claimReservedTag } from "@/services/tag-batch-service";
+import { publishEventInTx } from "@/services/webhook-service";
 
 import type { TenantContext } from "@/types/tenant";
 import type {
@@ -19,16 +24,23 @@ import type {
   ImportJobListResult,
   ImportJobErrorsResult,
   ImportJobStatus,
+  ImportJobProgress,
+  ImportAssetsJobPayload,
   ImportColumnMapping,
   ImportTransform,
   AssetFieldPath,
 } from "@/types/import-export";
 import { IMPORT_JOB_STATUS, IMPORT_SOURCE_TYPES } from "@/types/import-export";
-import { JOB_TYPES } from "@/types/background-job";
+import { JOB_STATUS, JOB_TYPES } from "@/types/background-job";
 import { AUDIT_ACTIONS } from "@/types/audit";
+import { WEBHOOK_EVENT_TYPES } from "@/types/webhook";
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 const MAX_ROWS = 10000;
+const PROGRESS_BATCH_SIZE = 50;
+// The second attempt only runs after a worker died mid-import; it fails the import
+const IMPORT_MAX_ATTEMPTS = 2;
+const INTERRUPTED_MESSAGE = "Import was interrupted; rows imported before it stopped were kept";
 
 function mapTemplateRow(row: typeof importTemplates.$inferSelect): ImportTemplate {
   return {
@@ -155,17 +167,20 @@ export async function createImportJob(
       throw new Error("Failed to create import job");
     }
 
+    const payload: ImportAssetsJobPayload = {
+      jobId: row.id,
+      tenantId: ctx.tenantId,
+      fileContent: input.fileContent.toString("base64"),
+      sourceType: input.sourceType,
+      templateId: input.templateId,
+      mappingOverride: input.mappingOverride,
+    };
+
     await enqueueJob(ctx, {
       type: JOB_TYPES.IMPORT_ASSETS,
-      payload: {
-        jobId: row.id,
-        tenantId: ctx.tenantId,
-        fileContent: input.fileContent.toString("base64"),
-        sourceType: input.sourceType,
-        templateId: input.templateId,
-        mappingOverride: input.mappingOverride,
-      },
+      payload,
       priority: 5,
+      maxAttempts: IMPORT_MAX_ATTEMPTS,
     });
 
     await createAuditLog(ctx, {
@@ -196,6 +211,86 @@ export async function getImportJob(
   });
 }
 
+/**
+ * Fails a queued or processing import whose background job has failed,
+ * been cancelled or disappeared, so it cannot stay in progress forever.
+ * Returns the failed import, or null when its job is still alive.
+ */
+export async function failAbandonedImportJob(
+  ctx: TenantContext,
+  jobId: string
+): Promise<ImportJob | null> {
+  const [backgroundJob] = await withTenant(ctx.tenantId, async (tx) => {
+    return tx
+      .select({ status: backgroundJobs.status, errorMessage: backgroundJobs.errorMessage })
+      .from(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.tenantId, ctx.tenantId),
+        eq(backgroundJobs.type, JOB_TYPES.IMPORT_ASSETS),
+        sql`${backgroundJobs.payload}->>'jobId' = ${jobId}`
+      ))
+      .orderBy(desc(backgroundJobs.createdAt))
+      .limit(1);
+  });
+
+  if (backgroundJob?.status === JOB_STATUS.QUEUED || backgroundJob?.status === JOB_STATUS.PROCESSING) {
+    return null;
+  }
+
+  return failImportJob(ctx.tenantId, jobId, backgroundJob?.errorMessage ?? INTERRUPTED_MESSAGE);
+}
+
+/**
+ * Marks an unfinished import failed and announces it. Imports that already
+ * ended are left alone and null is returned.
+ */
+async function failImportJob(tenantId: string, jobId: string, errorMessage: string): Promise<ImportJob | null> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(importJobs)
+      .set({
+        status: IMPORT_JOB_STATUS.FAILED,
+        completedAt: new Date(),
+        summary: { errors: [errorMessage] },
+      })
+      .where(and(
+        eq(importJobs.id, jobId),
+        eq(importJobs.tenantId, tenantId),
+        inArray(importJobs.status, [IMPORT_JOB_STATUS.QUEUED, IMPORT_JOB_STATUS.PROCESSING])
+      ))
+      .returning();
+
+    if (!row) {
+      return null;
+    }
+
+    await publishEventInTx(tx, tenantId, {
+      type: WEBHOOK_EVENT_TYPES.IMPORT_FAILED,
+      resourceId: jobId,
+      data: { importJobId: jobId, error: errorMessage },
+    });
+
+    return mapJobRow(row);
+  });
+}
+
+export function toImportJobProgress(job: ImportJob): ImportJobProgress {
+  const percent = job.totalRows > 0
+    ? Math.min(100, Math.round((job.processedRows / job.totalRows) * 100))
+    : job.status === IMPORT_JOB_STATUS.COMPLETED ? 100 : 0;
+
+  return {
+    jobId: job.id,
+    status: job.status,
+    totalRows: job.totalRows,
+    processedRows: job.processedRows,
+    successRows: job.successRows,
+    errorRows: job.errorRows,
+    percent,
+    error: job.summary?.errors?.[0] ?? null,
+  };
+}
+
 export async function listImportJobs(
   ctx: TenantContext,
   page = 1,
@@ -466,16 +561,32 @@ export async function processImportJob(
 ): Promise<void> {
   const startTime = Date.now();
 
-  await withTenant(tenantId, async (tx) => {
-    await tx
+  const claimed = await withTenant(tenantId, async (tx) => {
+    const [row] = await tx
       .update(importJobs)
       .set({
         status: IMPORT_JOB_STATUS.PROCESSING,
         startedAt: new Date(),
       })
-      .where(eq(importJobs.id, jobId));
+      .where(and(
+        eq(importJobs.id, jobId),
+        eq(importJobs.status, IMPORT_JOB_STATUS.QUEUED)
+      ))
+      .returning({ id: importJobs.id });
+
+    return !!row;
   });
 
+  if (!claimed) {
+    // Still processing means an earlier attempt died part way through.
+    // Rows it imported are committed, so running the file again would
+    // duplicate them; fail the import instead.
+    if (await failImportJob(tenantId, jobId, INTERRUPTED_MESSAGE)) {
+      throw new NonRetryableJobError(INTERRUPTED_MESSAGE);
+    }
+    return;
+  }
+
   try {
     const { mapping, createdBy } = await withTenant(tenantId, async (tx) => {
       const [job] = await tx
@@ -531,6 +642,7 @@ export async function processImportJob(
         .where(eq(importJobs.id, jobId));
     });
 
+    const { timezone } = await getTenantSettings(tenantId);
     let successCount = 0;
     let errorCount = 0;
 
@@ -556,13 +668,20 @@ export async function processImportJob(
         });
         errorCount++;
       } else {
+        let assetTag: string | null = null;
         try {
           await withTenant(tenantId, async (tx) => {
-            await tx.insert(assets).values({
+            const category = (data.category as string) || "networking";
+            // Empty tags come from the category's tag pattern when it has one
+            assetTag = (data.assetTag as string)
+              || (await generateAssetTag(tx, tenantId, { ...(data as TagPatternValues), category }, timezone))
+              || `ASSET-${Date.now()}-${i}`;
+
+            const [inserted] = await tx.insert(assets).values({
               tenantId,
-              category: (data.category as string) || "networking",
+              category,
               type: (data.type as string) || "other",
-              assetTag: (data.assetTag as string) || `ASSET-${Date.now()}-${i}`,
+              assetTag,
               serialNumber: (data.serialNumber as string) || "",
               manufacturer: (data.manufacturer as string) || "",
               model: (data.model as string) || "",
@@ -575,16 +694,33 @@ export async function processImportJob(
               notes: (data.notes as string) || null,
               customFields: (data.customFields as Record<string, unknown>) || {},
               createdBy,
+            }).returning({
+              id: assets.id,
+              assetTag: assets.assetTag,
+              category: assets.category,
+              type: assets.type,
             });
+
+            if (inserted) {
+              if (data.assetTag) {
+                await claimReservedTag(tx, tenantId, inserted.assetTag, inserted.id, createdBy);
+              }
+              await publishEventInTx(tx, tenantId, {
+                type: WEBHOOK_EVENT_TYPES.ASSET_CREATED,
+                resourceId: inserted.id,
+                data: { asset: inserted, importJobId: jobId },
+              });
+            }
           });
           successCount++;
         } catch (insertError) {
+          const failure = toAssetTagConflict(insertError, assetTag);
           await withTenant(tenantId, async (tx) => {
             await tx.insert(importJobErrors).values({
               tenantId,
               jobId,
               rowNumber,
-              message: insertError instanceof Error ? insertError.message : "Insert failed",
+              message: failure instanceof Error ? failure.message : "Insert failed",
               raw: row,
             });
           });
@@ -592,12 +728,13 @@ export async function processImportJob(
         }
       }
 
-      if (i % 100 === 0) {
+      const processed = i + 1;
+      if (processed % PROGRESS_BATCH_SIZE === 0 && processed < rows.length) {
         await withTenant(tenantId, async (tx) => {
           await tx
             .update(importJobs)
             .set({
-              processedRows: i + 1,
+              processedRows: processed,
               successRows: successCount,
               errorRows: errorCount,
             })
@@ -620,22 +757,26 @@ export async function processImportJob(
           summary: { duration },
         })
         .where(eq(importJobs.id, jobId));
+
+      await publishEventInTx(tx, tenantId, {
+        type: WEBHOOK_EVENT_TYPES.IMPORT_COMPLETED,
+        resourceId: jobId,
+        data: {
+          importJobId: jobId,
+          totalRows: rows.length,
+          successRows: successCount,
+          errorRows: errorCount,
+          durationMs: duration,
+        },
+      });
     });
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
-    await withTenant(tenantId, async (tx) => {
-      await tx
-        .update(importJobs)
-        .set({
-          status: IMPORT_JOB_STATUS.FAILED,
-          completedAt: new Date(),
-          summary: { errors: [errorMessage] },
-        })
-        .where(eq(importJobs.id, jobId));
-    });
+    await failImportJob(tenantId, jobId, errorMessage);
 
-    throw error;
+    // The import is recorded as failed; a retry would find it already ended
+    throw new NonRetryableJobError(errorMessage);
   }
 }
@@ -0,0 +1,309 @@
+import { z } from "zod";
+
+import { validateOutboundUrl } from "@/lib/ssrf";
+
+import type {
+  CloudPrintAdapter,
+  CloudPrintDocument,
+  CloudPrintJobState,
+  CloudPrintJobStatus,
+  CloudPrintSubmission,
+} from "@/types/cloud-print";
+import { CLOUD_PRINT_JOB_STATES, CLOUD_PRINT_PROVIDER_TYPES } from "@/types/cloud-print";
+
+const REQUEST_TIMEOUT_MS = 30000;
+const IPPS_DEFAULT_PORT = "631";
+
+const OPERATIONS = {
+  PRINT_JOB: 0x0002,
+  CANCEL_JOB: 0x0008,
+  GET_JOB_ATTRIBUTES: 0x0009,
+} as const;
+
+const TAGS = {
+  OPERATION_ATTRIBUTES: 0x01,
+  END_OF_ATTRIBUTES: 0x03,
+  INTEGER: 0x21,
+  BOOLEAN: 0x22,
+  ENUM: 0x23,
+  TEXT: 0x41,
+  NAME: 0x42,
+  KEYWORD: 0x44,
+  URI: 0x45,
+  CHARSET: 0x47,
+  NATURAL_LANGUAGE: 0x48,
+  MIME_MEDIA_TYPE: 0x49,
+} as const;
+
+const JOB_STATES: Record<number, CloudPrintJobState> = {
+  3: CLOUD_PRINT_JOB_STATES.PENDING,
+  4: CLOUD_PRINT_JOB_STATES.PENDING,
+  5: CLOUD_PRINT_JOB_STATES.PROCESSING,
+  6: CLOUD_PRINT_JOB_STATES.PROCESSING,
+  7: CLOUD_PRINT_JOB_STATES.CANCELLED,
+  8: CLOUD_PRINT_JOB_STATES.FAILED,
+  9: CLOUD_PRINT_JOB_STATES.COMPLETED,
+};
+
+const ippConfigSchema = z.object({
+  printerUri: z.string().regex(/^(ipps|https):\/\//i, "Printer URI must use ipps:// or https://"),
+  username: z.string().max(255).optional(),
+  password: z.string().max(255).optional(),
+  requestingUserName: z.string().max(255).optional(),
+  documentFormat: z.string().max(100).optional(),
+});
+
+type IppConfig = z.infer<typeof ippConfigSchema>;
+
+type IppValue = string | number | boolean;
+
+interface IppAttribute {
+  tag: number;
+  name: string;
+  value: IppValue | IppValue[];
+}
+
+type IppAttributes = Map<string, IppValue[]>;
+
+interface IppResponse {
+  statusCode: number;
+  attributes: IppAttributes;
+}
+
+let nextRequestId = 1;
+
+function encodeValue(tag: number, value: IppValue): Buffer {
+  if (tag === TAGS.INTEGER || tag === TAGS.ENUM) {
+    const buf = Buffer.alloc(4);
+    buf.writeInt32BE(Number(value));
+    return buf;
+  }
+  if (tag === TAGS.BOOLEAN) {
+    return Buffer.from([value ? 1 : 0]);
+  }
+  return Buffer.from(String(value), "utf-8");
+}
+
+function encodeRequest(operation: number, attributes: IppAttribute[], document?: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  const header = Buffer.alloc(8);
+  header.writeUInt8(1, 0);
+  header.writeUInt8(1, 1);
+  header.writeUInt16BE(operation, 2);
+  header.writeUInt32BE(nextRequestId++, 4);
+  parts.push(header, Buffer.from([TAGS.OPERATION_ATTRIBUTES]));
+
+  for (const attribute of attributes) {
+    const values = Array.isArray(attribute.value) ? attribute.value : [attribute.value];
+    values.forEach((value, index) => {
+      const name = index === 0 ? Buffer.from(attribute.name, "utf-8") : Buffer.alloc(0);
+      const encoded = encodeValue(attribute.tag, value);
+      const prefix = Buffer.alloc(3);
+      prefix.writeUInt8(attribute.tag, 0);
+      prefix.writeUInt16BE(name.length, 1);
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(encoded.length);
+      parts.push(prefix, name, length, encoded);
+    });
+  }
+
+  parts.push(Buffer.from([TAGS.END_OF_ATTRIBUTES]));
+  if (document) {
+    parts.push(document);
+  }
+
+  return Buffer.concat(parts);
+}
+
+function decodeValue(tag: number, data: Buffer): IppValue {
+  if ((tag === TAGS.INTEGER || tag === TAGS.ENUM) && data.length === 4) {
+    return data.readInt32BE(0);
+  }
+  if (tag === TAGS.BOOLEAN && data.length === 1) {
+    return data[0] === 1;
+  }
+  return data.toString("utf-8");
+}
+
+function decodeResponse(body: Buffer): IppResponse {
+  if (body.length < 8) {
+    throw new Error("Malformed IPP response");
+  }
+
+  const statusCode = body.readUInt16BE(2);
+  const attributes: IppAttributes = new Map();
+  let offset = 8;
+  let lastName = "";
+
+  while (offset < body.length) {
+    const tag = body.readUInt8(offset);
+    offset += 1;
+
+    if (tag === TAGS.END_OF_ATTRIBUTES) break;
+    if (tag < 0x10) continue;
+
+    if (offset + 2 > body.length) break;
+    const nameLength = body.readUInt16BE(offset);
+    offset += 2;
+    const name = body.toString("utf-8", offset, offset + nameLength);
+    offset += nameLength;
+
+    if (offset + 2 > body.length) break;
+    const valueLength = body.readUInt16BE(offset);
+    offset += 2;
+    const value = decodeValue(tag, body.subarray(offset, offset + valueLength));
+    offset += valueLength;
+
+    const key = nameLength > 0 ? name : lastName;
+    lastName = key;
+    const values = attributes.get(key) ?? [];
+    values.push(value);
+    attributes.set(key, values);
+  }
+
+  return { statusCode, attributes };
+}
+
+function toHttpUrl(printerUri: string): string {
+  const url = new URL(printerUri.replace(/^ipps:/i, "https:"));
+  if (/^ipps:/i.test(printerUri) && !url.port) {
+    url.port = IPPS_DEFAULT_PORT;
+  }
+  return url.toString();
+}
+
+function firstString(attributes: IppAttributes, name: string): string | undefined {
+  const value = attributes.get(name)?.[0];
+  return value === undefined ? undefined : String(value);
+}
+
+function operationAttributes(config: IppConfig): IppAttribute[] {
+  return [
+    { tag: TAGS.CHARSET, name: "attributes-charset", value: "utf-8" },
+    { tag: TAGS.NATURAL_LANGUAGE, name: "attributes-natural-language", value: "en" },
+    { tag: TAGS.URI, name: "printer-uri", value: config.printerUri },
+    {
+      tag: TAGS.NAME,
+      name: "requesting-user-name",
+      value: config.requestingUserName ?? config.username ?? "asset-label-studio",
+    },
+  ];
+}
+
+async function sendRequest(
+  config: IppConfig,
+  operation: number,
+  attributes: IppAttribute[],
+  document?: Buffer
+): Promise<IppResponse> {
+  const url = await validateOutboundUrl(toHttpUrl(config.printerUri), "Printer URI");
+
+  const headers: Record<string, string> = { "Content-Type": "application/ipp" };
+  if (config.username) {
+    const credentials = Buffer.from(`${config.username}:${config.password ?? ""}`).toString("base64");
+    headers.Authorization = `Basic ${credentials}`;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: new Uint8Array(encodeRequest(operation, attributes, document)),
+      signal: controller.signal,
+      redirect: "manual",
+    });
+
+    if (!response.ok) {
+      throw new Error(`Printer responded with HTTP ${response.status}`);
+    }
+
+    const result = decodeResponse(Buffer.from(await response.arrayBuffer()));
+    if (result.statusCode >= 0x0100) {
+      const message = firstString(result.attributes, "status-message");
+      throw new Error(
+        `IPP error 0x${result.statusCode.toString(16).padStart(4, "0")}${message ? `: ${message}` : ""}`
+      );
+    }
+
+    return result;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function readJobStatus(attributes: IppAttributes): CloudPrintJobStatus {
+  const rawState = attributes.get("job-state")?.[0];
+  const state = typeof rawState === "number"
+    ? JOB_STATES[rawState] ?? CLOUD_PRINT_JOB_STATES.PROCESSING
+    : CLOUD_PRINT_JOB_STATES.PENDING;
+
+  return {
+    state,
+    message: firstString(attributes, "job-state-message"),
+  };
+}
+
+function jobIdAttribute(remoteJobId: string): IppAttribute {
+  const jobId = parseInt(remoteJobId, 10);
+  if (!Number.isFinite(jobId)) {
+    throw new Error(`Invalid IPP job id: ${remoteJobId}`);
+  }
+  return { tag: TAGS.INTEGER, name: "job-id", value: jobId };
+}
+
+export const ippPrintAdapter: CloudPrintAdapter<IppConfig> = {
+  type: CLOUD_PRINT_PROVIDER_TYPES.IPP,
+  secretFields: ["password"],
+
+  parseConfig(config) {
+    return ippConfigSchema.parse(config);
+  },
+
+  async submit(config, document: CloudPrintDocument): Promise<CloudPrintSubmission> {
+    const { attributes } = await sendRequest(
+      config,
+      OPERATIONS.PRINT_JOB,
+      [
+        ...operationAttributes(config),
+        { tag: TAGS.NAME, name: "job-name", value: document.jobName },
+        {
+          tag: TAGS.MIME_MEDIA_TYPE,
+          name: "document-format",
+          value: config.documentFormat ?? document.mimeType,
+        },
+      ],
+      document.data
+    );
+
+    const jobId = attributes.get("job-id")?.[0];
+    if (typeof jobId !== "number") {
+      throw new Error("Printer did not return a job id");
+    }
+
+    return { remoteJobId: String(jobId), ...readJobStatus(attributes) };
+  },
+
+  async getStatus(config, remoteJobId) {
+    const { attributes } = await sendRequest(config, OPERATIONS.GET_JOB_ATTRIBUTES, [
+      ...operationAttributes(config),
+      jobIdAttribute(remoteJobId),
+      {
+        tag: TAGS.KEYWORD,
+        name: "requested-attributes",
+        value: ["job-state", "job-state-message", "job-state-reasons"],
+      },
+    ]);
+
+    return readJobStatus(attributes);
+  },
+
+  async cancel(config, remoteJobId) {
+    await sendRequest(config, OPERATIONS.CANCEL_JOB, [
+      ...operationAttributes(config),
+      jobIdAttribute(remoteJobId),
+    ]);
+  },
+};
@@ -0,0 +1,42 @@
+import { scheduleCloudPrintSync, syncCloudPrintJobs } from "@/services/cloud-print-service";
+import { processExportJob } from "@/services/export-service";
+import { processImportJob } from "@/services/import-service";
+import { registerJobHandler } from "@/services/job-worker";
+import { processWebhookOutboxForTenant } from "@/services/webhook-service";
+
+import type { ExportAssetsJobPayload, ImportAssetsJobPayload } from "@/types/import-export";
+import { JOB_TYPES } from "@/types/background-job";
+
+export function registerDefaultJobHandlers(): void {
+  registerJobHandler(JOB_TYPES.IMPORT_ASSETS, async (job) => {
+    const payload = job.payload as ImportAssetsJobPayload;
+    await processImportJob(
+      payload.jobId,
+      job.tenantId,
+      payload.fileContent,
+      payload.sourceType,
+      payload.templateId,
+      payload.mappingOverride
+    );
+    return { importJobId: payload.jobId };
+  });
+
+  registerJobHandler(JOB_TYPES.EXPORT_ASSETS, async (job) => {
+    const payload = job.payload as ExportAssetsJobPayload;
+    await processExportJob(payload.jobId, job.tenantId);
+    return { exportJobId: payload.jobId };
+  });
+
+  registerJobHandler(JOB_TYPES.WEBHOOK_DELIVER, async (job) => {
+    const delivered = await processWebhookOutboxForTenant(job.tenantId);
+    return { delivered };
+  });
+
+  registerJobHandler(JOB_TYPES.CLOUD_PRINT_SYNC, async (job) => {
+    const result = await syncCloudPrintJobs(job.tenantId);
+    if (result.pending > 0) {
+      await scheduleCloudPrintSync({ tenantId: job.tenantId, userId: job.createdBy });
+    }
+    return result;
+  });
+}
@@ -37,7 +37,7 @@ function mapJobRow(row: typeof backgroundJobs.$inferSelect): BackgroundJob {
 }
 
 export async function enqueueJob(
-  ctx: TenantContext,
+  ctx: TenantContext | { tenantId: string; userId: string | null },
   input: EnqueueJobInput
 ): Promise<BackgroundJob> {
   return withTenant(ctx.tenantId, async (tx) => {
@@ -62,6 +62,25 @@ export async function enqueueJob(
   });
 }
 
+export async function hasQueuedJob(
+  tenantId: string,
+  type: JobType
+): Promise<boolean> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .select({ id: backgroundJobs.id })
+      .from(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.tenantId, tenantId),
+        eq(backgroundJobs.type, type),
+        eq(backgroundJobs.status, JOB_STATUS.QUEUED)
+      ))
+      .limit(1);
+
+    return !!row;
+  });
+}
+
 export async function getJob(
   ctx: TenantContext,
   jobId: string
@@ -238,6 +257,31 @@ export async function completeJob(
   });
 }
 
+/**
+ * Refreshes the lock of a job this worker is still running, so the reaper
+ * leaves it alone. False when the job was cancelled or reclaimed meanwhile.
+ */
+export async function extendJobLock(
+  jobId: string,
+  tenantId: string,
+  instanceId: string
+): Promise<boolean> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(backgroundJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(
+        eq(backgroundJobs.id, jobId),
+        eq(backgroundJobs.tenantId, tenantId),
+        eq(backgroundJobs.lockedBy, instanceId),
+        eq(backgroundJobs.status, JOB_STATUS.PROCESSING)
+      ))
+      .returning({ id: backgroundJobs.id });
+
+    return !!row;
+  });
+}
+
 export async function failJob(
   jobId: string,
   tenantId: string,
@@ -291,7 +335,23 @@ function calculateBackoff(attempt: number): number {
   return Math.min(baseMs * Math.pow(2, attempt) + jitter, maxMs);
 }
 
-const STUCK_JOB_THRESHOLD_MS = 10 * 60 * 1000;
+// Running jobs refresh lockedAt every 30 seconds (see job-worker), so a lock
+// this old belongs to a worker that died
+const STUCK_JOB_THRESHOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Requeues a reclaimed job, or fails it when it has used all its attempts;
+ * left queued it would never be acquired again.
+ */
+function reclaimStuckJob() {
+  return {
+    status: sql`CASE WHEN ${backgroundJobs.attempts} >= ${backgroundJobs.maxAttempts} THEN ${JOB_STATUS.FAILED} ELSE ${JOB_STATUS.QUEUED} END`,
+    lockedAt: null,
+    lockedBy: null,
+    updatedAt: new Date(),
+    errorMessage: "Job timed out and was reclaimed by reaper",
+  };
+}
 
 export async function reapStuckJobs(tenantId: string): Promise<number> {
   const stuckThreshold = new Date(Date.now() - STUCK_JOB_THRESHOLD_MS);
@@ -299,13 +359,7 @@ export async function reapStuckJobs(tenantId: string): Promise<number> {
   return withTenant(tenantId, async (tx) => {
     const result = await tx
       .update(backgroundJobs)
-      .set({
-        status: JOB_STATUS.QUEUED,
-        lockedAt: null,
-        lockedBy: null,
-        updatedAt: new Date(),
-        errorMessage: "Job timed out and was reclaimed by reaper",
-      })
+      .set(reclaimStuckJob())
       .where(and(
         eq(backgroundJobs.tenantId, tenantId),
         eq(backgroundJobs.status, JOB_STATUS.PROCESSING),
@@ -322,13 +376,7 @@ export async function reapStuckJobsAllTenants(): Promise<number> {
   
   const result = await db
     .update(backgroundJobs)
-    .set({
-      status: JOB_STATUS.QUEUED,
-      lockedAt: null,
-      lockedBy: null,
-      updatedAt: new Date(),
-      errorMessage: "Job timed out and was reclaimed by reaper",
-    })
+    .set(reclaimStuckJob())
     .where(and(
       eq(backgroundJobs.status, JOB_STATUS.PROCESSING),
       lte(backgroundJobs.lockedAt, stuckThreshold)
@@ -0,0 +1,185 @@
+import { listActiveTenantIds } from "@/lib/tenant";
+import {
+  acquireJob,
+  completeJob,
+  extendJobLock,
+  failJob,
+  reapStuckJobsAllTenants,
+} from "@/services/job-service";
+
+import type { BackgroundJob, JobType, JobWorkerOptions } from "@/types/background-job";
+
+export type JobHandler = (job: BackgroundJob) => Promise<unknown>;
+
+export interface JobWorker {
+  readonly instanceId: string;
+  activeJobs(): number;
+  stop(): Promise<void>;
+}
+
+/**
+ * The queue operations the worker uses; tests pass their own
+ */
+export interface JobQueue {
+  listTenantIds(): Promise<string[]>;
+  acquire(tenantId: string, instanceId: string, types: JobType[]): Promise<BackgroundJob | null>;
+  complete(job: BackgroundJob, instanceId: string, result: unknown): Promise<unknown>;
+  fail(job: BackgroundJob, instanceId: string, message: string, retry: boolean): Promise<unknown>;
+  extendLock(job: BackgroundJob, instanceId: string): Promise<boolean>;
+  reap(): Promise<unknown>;
+}
+
+const databaseQueue: JobQueue = {
+  listTenantIds: listActiveTenantIds,
+  acquire: acquireJob,
+  complete: (job, instanceId, result) => completeJob(job.id, job.tenantId, instanceId, result),
+  fail: (job, instanceId, message, retry) => failJob(job.id, job.tenantId, instanceId, message, retry),
+  extendLock: (job, instanceId) => extendJobLock(job.id, job.tenantId, instanceId),
+  reap: reapStuckJobsAllTenants,
+};
+
+const DEFAULT_POLL_MS = 1000;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_HEARTBEAT_MS = 30 * 1000;
+const REAP_INTERVAL_MS = 60 * 1000;
+const SHUTDOWN_TIMEOUT_MS = 30 * 1000;
+
+const handlers = new Map<JobType, JobHandler>();
+
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+export function getRegisteredJobTypes(): JobType[] {
+  return Array.from(handlers.keys());
+}
+
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableJobError";
+  }
+}
+
+async function runJob(job: BackgroundJob, instanceId: string, queue: JobQueue, heartbeatMs: number): Promise<void> {
+  const handler = handlers.get(job.type);
+
+  if (!handler) {
+    await queue.fail(job, instanceId, `No handler registered for job type: ${job.type}`, false);
+    return;
+  }
+
+  // Keep the lock fresh while the handler runs, or the reaper would hand
+  // a long import or export to a second worker
+  const heartbeat = setInterval(() => {
+    queue.extendLock(job, instanceId).then(
+      (held) => {
+        if (!held) console.warn(`[JOB_WORKER] Lost the lock on ${job.type} job ${job.id}`);
+      },
+      (error) => console.error(`[JOB_WORKER] Heartbeat for job ${job.id} failed:`, error)
+    );
+  }, heartbeatMs);
+
+  try {
+    const result = await handler(job);
+    await queue.complete(job, instanceId, result ?? null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Job handler failed";
+    const retry = !(error instanceof NonRetryableJobError);
+    console.error(`[JOB_WORKER] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+    await queue.fail(job, instanceId, message, retry);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+export function startJobWorker(options: JobWorkerOptions, queue: JobQueue = databaseQueue): JobWorker {
+  const instanceId = options.instanceId;
+  const pollMs = options.pollMs ?? DEFAULT_POLL_MS;
+  const heartbeatMs = options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const types = options.types && options.types.length > 0 ? options.types : getRegisteredJobTypes();
+
+  const running = new Set<Promise<void>>();
+  let stopping = false;
+  let polling = false;
+  let tenantCursor = 0;
+
+  function track(job: BackgroundJob) {
+    const task = runJob(job, instanceId, queue, heartbeatMs)
+      .catch((error) => {
+        console.error(`[JOB_WORKER] Failed to settle job ${job.id}:`, error);
+      })
+      .finally(() => {
+        running.delete(task);
+        if (!stopping) {
+          void poll();
+        }
+      });
+    running.add(task);
+  }
+
+  async function poll() {
+    if (polling || stopping || running.size >= concurrency) return;
+    polling = true;
+
+    try {
+      const tenantIds = await queue.listTenantIds();
+      if (tenantIds.length === 0) return;
+
+      let idleTenants = 0;
+      while (!stopping && running.size < concurrency && idleTenants < tenantIds.length) {
+        const tenantId = tenantIds[tenantCursor % tenantIds.length]!;
+        tenantCursor = (tenantCursor + 1) % tenantIds.length;
+
+        const job = await queue.acquire(tenantId, instanceId, types);
+        if (job) {
+          idleTenants = 0;
+          track(job);
+        } else {
+          idleTenants++;
+        }
+      }
+    } catch (error) {
+      console.error("[JOB_WORKER] Poll failed:", error);
+    } finally {
+      polling = false;
+    }
+  }
+
+  async function reap() {
+    try {
+      await queue.reap();
+    } catch (error) {
+      console.error("[JOB_REAPER] Reap failed:", error);
+    }
+  }
+
+  const pollTimer = setInterval(() => void poll(), pollMs);
+  const reapTimer = setInterval(() => void reap(), REAP_INTERVAL_MS);
+  void reap();
+  void poll();
+
+  console.log(
+    `[JOB_WORKER] ${instanceId} started (concurrency ${concurrency}, types: ${types.join(", ") || "none"})`
+  );
+
+  return {
+    instanceId,
+    activeJobs: () => running.size,
+    async stop() {
+      if (stopping) return;
+      stopping = true;
+      clearInterval(pollTimer);
+      clearInterval(reapTimer);
+
+      if (running.size > 0) {
+        console.log(`[JOB_WORKER] Waiting for ${running.size} active jobs to finish`);
+        const timeout = new Promise<void>((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS));
+        await Promise.race([Promise.allSettled(running).then(() => undefined), timeout]);
+      }
+
+      console.log(`[JOB_WORKER] ${instanceId} stopped`);
+    },
+  };
+}
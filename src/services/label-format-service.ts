@@ -0,0 +1,290 @@
+import { eq, and, asc, desc, count } from "drizzle-orm";
+
+import type { Database } from "@/db";
+import { labelFormats, labelTemplates } from "@/db/schema";
+import { getLabelFormatFitError } from "@/lib/print-utils";
+import { withTenant } from "@/lib/tenant";
+import { createAuditLog } from "@/services/audit-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type { LabelUnit } from "@/types/label-spec";
+import type {
+  CreateLabelFormatInput,
+  LabelFormat,
+  LabelFormatDefinition,
+  LabelStockType,
+  UpdateLabelFormatInput,
+} from "@/types/label-format";
+import { LABEL_STOCK_TYPES, SYSTEM_LABEL_FORMATS } from "@/types/label-format";
+import { AUDIT_ACTIONS } from "@/types/audit";
+
+const MAX_KEY_LENGTH = 50;
+
+function mapLabelFormatRow(row: typeof labelFormats.$inferSelect): LabelFormat {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    key: row.key,
+    name: row.name,
+    description: row.description,
+    stockType: row.stockType as LabelStockType,
+    unit: row.unit as LabelUnit,
+    width: row.width,
+    height: row.height,
+    cornerRadius: row.cornerRadius,
+    paperWidth: row.paperWidth,
+    paperHeight: row.paperHeight,
+    columns: row.columns,
+    rows: row.rows,
+    marginTop: row.marginTop,
+    marginLeft: row.marginLeft,
+    horizontalGap: row.horizontalGap,
+    verticalGap: row.verticalGap,
+    isSystem: row.isSystem,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toFormatKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_KEY_LENGTH);
+}
+
+/**
+ * Roll stock prints one label per page, so sheet geometry is cleared
+ */
+function normalizeLayout(definition: Omit<LabelFormatDefinition, "key" | "name" | "description">) {
+  const layout = definition.stockType === LABEL_STOCK_TYPES.ROLL
+    ? {
+        ...definition,
+        paperWidth: null,
+        paperHeight: null,
+        columns: 1,
+        rows: 1,
+        marginTop: 0,
+        marginLeft: 0,
+        horizontalGap: 0,
+        verticalGap: 0,
+      }
+    : definition;
+
+  const error = getLabelFormatFitError(layout);
+  if (error) {
+    throw new Error(`Invalid label format: ${error}`);
+  }
+
+  return layout;
+}
+
+export async function listLabelFormats(ctx: TenantContext): Promise<LabelFormat[]> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(labelFormats)
+      .where(eq(labelFormats.tenantId, ctx.tenantId))
+      .orderBy(desc(labelFormats.isSystem), asc(labelFormats.name));
+
+    return rows.map(mapLabelFormatRow);
+  });
+}
+
+/**
+ * Looks a format up by the key templates store
+ */
+export async function findLabelFormat(
+  tx: Database,
+  tenantId: string,
+  key: string
+): Promise<LabelFormat | null> {
+  const [row] = await tx
+    .select()
+    .from(labelFormats)
+    .where(and(
+      eq(labelFormats.tenantId, tenantId),
+      eq(labelFormats.key, key)
+    ));
+
+  return row ? mapLabelFormatRow(row) : null;
+}
+
+export async function createLabelFormat(
+  ctx: TenantContext,
+  input: CreateLabelFormatInput
+): Promise<LabelFormat> {
+  const key = input.key ?? toFormatKey(input.name);
+  if (!key) {
+    throw new Error("Invalid label format: the name needs letters or digits to derive a key");
+  }
+
+  const layout = normalizeLayout(input);
+
+  return withTenant(ctx.tenantId, async (tx) => {
+    if (await findLabelFormat(tx, ctx.tenantId, key)) {
+      throw new Error("Label format key already exists");
+    }
+
+    const [row] = await tx
+      .insert(labelFormats)
+      .values({
+        tenantId: ctx.tenantId,
+        key,
+        name: input.name,
+        description: input.description ?? null,
+        stockType: layout.stockType,
+        unit: layout.unit,
+        width: layout.width,
+        height: layout.height,
+        cornerRadius: layout.cornerRadius,
+        paperWidth: layout.paperWidth,
+        paperHeight: layout.paperHeight,
+        columns: layout.columns,
+        rows: layout.rows,
+        marginTop: layout.marginTop,
+        marginLeft: layout.marginLeft,
+        horizontalGap: layout.horizontalGap,
+        verticalGap: layout.verticalGap,
+        createdBy: ctx.userId,
+      })
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to create label format");
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.LABEL_FORMAT_CREATED,
+      resourceType: "label_format",
+      resourceId: row.id,
+      details: { key, name: input.name, stockType: layout.stockType },
+    });
+
+    return mapLabelFormatRow(row);
+  });
+}
+
+export async function updateLabelFormat(
+  ctx: TenantContext,
+  formatId: string,
+  input: UpdateLabelFormatInput
+): Promise<LabelFormat | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [existing] = await tx
+      .select()
+      .from(labelFormats)
+      .where(and(
+        eq(labelFormats.id, formatId),
+        eq(labelFormats.tenantId, ctx.tenantId)
+      ));
+
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.isSystem) {
+      throw new Error("System label formats cannot be modified");
+    }
+
+    const current = mapLabelFormatRow(existing);
+    const merged = { ...current, ...input };
+    const layout = normalizeLayout(merged);
+
+    const [row] = await tx
+      .update(labelFormats)
+      .set({
+        name: merged.name,
+        description: merged.description,
+        stockType: layout.stockType,
+        unit: layout.unit,
+        width: layout.width,
+        height: layout.height,
+        cornerRadius: layout.cornerRadius,
+        paperWidth: layout.paperWidth,
+        paperHeight: layout.paperHeight,
+        columns: layout.columns,
+        rows: layout.rows,
+        marginTop: layout.marginTop,
+        marginLeft: layout.marginLeft,
+        horizontalGap: layout.horizontalGap,
+        verticalGap: layout.verticalGap,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(labelFormats.id, formatId),
+        eq(labelFormats.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (row) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.LABEL_FORMAT_UPDATED,
+        resourceType: "label_format",
+        resourceId: formatId,
+        details: { ...input },
+      });
+    }
+
+    return row ? mapLabelFormatRow(row) : null;
+  });
+}
+
+export async function deleteLabelFormat(ctx: TenantContext, formatId: string): Promise<boolean> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [existing] = await tx
+      .select()
+      .from(labelFormats)
+      .where(and(
+        eq(labelFormats.id, formatId),
+        eq(labelFormats.tenantId, ctx.tenantId)
+      ));
+
+    if (!existing) {
+      return false;
+    }
+
+    if (existing.isSystem) {
+      throw new Error("System label formats cannot be deleted");
+    }
+
+    const [usage] = await tx
+      .select({ count: count() })
+      .from(labelTemplates)
+      .where(and(
+        eq(labelTemplates.tenantId, ctx.tenantId),
+        eq(labelTemplates.format, existing.key)
+      ));
+
+    if (usage && usage.count > 0) {
+      throw new Error("Label format is used by templates");
+    }
+
+    await tx
+      .delete(labelFormats)
+      .where(and(
+        eq(labelFormats.id, formatId),
+        eq(labelFormats.tenantId, ctx.tenantId)
+      ));
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.LABEL_FORMAT_DELETED,
+      resourceType: "label_format",
+      resourceId: formatId,
+      details: { key: existing.key, name: existing.name },
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Adds the system formats a new tenant starts with; existing keys are kept
+ */
+export async function seedSystemLabelFormats(tx: Database, tenantId: string): Promise<void> {
+  await tx
+    .insert(labelFormats)
+    .values(SYSTEM_LABEL_FORMATS.map((format) => ({ ...format, tenantId, isSystem: true })))
+    .onConflictDoNothing({ target: [labelFormats.tenantId, labelFormats.key] });
+}
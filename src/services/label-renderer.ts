@@ -1,46 +1,54 @@
 import { jsPDF } from "jspdf";
-import JsBarcode from "jsbarcode";
-import QRCode from "qrcode";
 
-import type { LabelSpec, LabelField, LabelElement, TextStyle, BarcodeStyle, QRCodeStyle } from "@/types/label-spec";
-import type { RenderResult, RenderRequest, RenderAssetData, PrintOptions, SheetLayout } from "@/types/print";
+import type { LabelSpec, TextStyle } from "@/types/label-spec";
+import type {
+  RenderResult,
+  RenderRequest,
+  RenderAssetData,
+  TextOverflowReport,
+} from "@/types/print";
+import type { DateFormatSettings } from "@/types/tenant";
+import type { FontStyle, FontWeight, RenderFont } from "@/types/font";
+import type { PrinterCalibration } from "@/types/print-agent";
 import {
   mmToPoints,
-  toPoints,
+  pointsToMm,
   dimensionsToPoints,
-  getFieldValue,
   getSheetLayoutForFormat,
   calculateLabelPositions,
+  getFirstSheetSlots,
   generatePrintFilename,
 } from "@/lib/print-utils";
-
-interface RenderCache {
-  qrCodes: Map<string, string>;
-  barcodes: Map<string, string>;
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { createLayoutCache, layoutLabel } from "@/lib/label-layout";
+import type { DisplayItem, DisplayRect, DisplayText, LayoutCache } from "@/lib/label-layout";
+import { assertTextFits, mapStandardFont, reportTextOverflow } from "@/lib/text-layout";
+import { parseFontFile } from "@/lib/font-file";
+import { getCalibrationMatrix, isIdentityCalibration } from "@/lib/printer-calibration";
+import type { CalibrationMatrix } from "@/lib/printer-calibration";
+import type { FontFileInfo } from "@/lib/font-file";
+
+interface EmbeddedFont extends RenderFont {
+  name: string; // jsPDF font name
+  metrics: FontFileInfo;
 }
 
 interface PDFContext {
   doc: jsPDF;
   offsetX: number;
   offsetY: number;
-  labelWidth: number;
-  labelHeight: number;
-  unit: "mm" | "in";
-  cache: RenderCache;
-}
-
-function createQRCacheKey(value: string, style: QRCodeStyle, size: number): string {
-  return `qr:${value}:${style.errorCorrectionLevel}:${style.margin}:${style.darkColor}:${style.lightColor}:${size}`;
-}
-
-function createBarcodeCacheKey(value: string, style: BarcodeStyle, width: number, height: number): string {
-  return `bc:${value}:${style.format}:${style.width}:${style.displayValue}:${style.background}:${style.lineColor}:${width}:${height}`;
+  pageHeight: number;
+  cache: LayoutCache;
+  dates: DateFormatSettings;
+  textOverflow: TextOverflowReport[];
+  fonts: EmbeddedFont[];
 }
 
 export async function renderLabels(request: RenderRequest): Promise<RenderResult> {
-  const { spec, assets, options } = request;
+  const { spec, assets, options, dates = DEFAULT_DATE_SETTINGS, fonts: renderFonts = [], labelFormat } = request;
+  const calibration = isIdentityCalibration(request.calibration) ? null : request.calibration!;
   const dims = dimensionsToPoints(spec.dimensions);
-  const sheetLayout = options.useSheetLayout ? getSheetLayoutForFormat(options.format) : null;
+  const sheetLayout = options.useSheetLayout ? getSheetLayoutForFormat(labelFormat) : null;
   const copies = Math.max(1, Math.min(options.copies ?? 1, 100));
 
   const expandedAssets: RenderAssetData[] = [];
@@ -50,12 +58,11 @@ export async function renderLabels(request: RenderRequest): Promise<RenderResult
     }
   }
 
-  const cache: RenderCache = {
-    qrCodes: new Map(),
-    barcodes: new Map(),
-  };
+  const cache = createLayoutCache();
 
+  const textOverflow: TextOverflowReport[] = [];
   let doc: jsPDF;
+  let fonts: EmbeddedFont[];
   let pageCount = 0;
 
   if (sheetLayout) {
@@ -64,24 +71,33 @@ export async function renderLabels(request: RenderRequest): Promise<RenderResult
       unit: "pt",
       format: [mmToPoints(sheetLayout.paperSize.width), mmToPoints(sheetLayout.paperSize.height)],
     });
+    fonts = embedFonts(doc, renderFonts);
+
+    const paperWidth = mmToPoints(sheetLayout.paperSize.width);
+    const paperHeight = mmToPoints(sheetLayout.paperSize.height);
+    if (calibration) beginCalibratedPage(doc, calibration, paperWidth, paperHeight);
 
     const positions = calculateLabelPositions(
       sheetLayout,
-      spec.dimensions.width,
-      spec.dimensions.height
+      pointsToMm(dims.width),
+      pointsToMm(dims.height)
     );
 
-    let positionIndex = 0;
+    let slots = getFirstSheetSlots(sheetLayout, options.startPosition, options.skipPositions);
+    let slotIndex = 0;
     pageCount = 1;
 
     for (let i = 0; i < expandedAssets.length; i++) {
-      if (positionIndex >= positions.length) {
+      if (slotIndex >= slots.length) {
+        if (calibration) doc.restoreGraphicsState();
         doc.addPage();
+        if (calibration) beginCalibratedPage(doc, calibration, paperWidth, paperHeight);
         pageCount++;
-        positionIndex = 0;
+        slots = positions.map((position) => position.index);
+        slotIndex = 0;
       }
 
-      const pos = positions[positionIndex];
+      const pos = positions[slots[slotIndex]!];
       const asset = expandedAssets[i];
       if (!pos || !asset) continue;
 
@@ -89,21 +105,24 @@ export async function renderLabels(request: RenderRequest): Promise<RenderResult
         doc,
         offsetX: pos.x,
         offsetY: pos.y,
-        labelWidth: dims.width,
-        labelHeight: dims.height,
-        unit: spec.dimensions.unit,
+        pageHeight: paperHeight,
         cache,
+        dates,
+        textOverflow,
+        fonts,
       };
 
-      await renderSingleLabel(ctx, spec, asset);
-      positionIndex++;
+      renderSingleLabel(ctx, spec, asset);
+      slotIndex++;
     }
+    if (calibration) doc.restoreGraphicsState();
   } else {
     doc = new jsPDF({
       orientation: dims.width > dims.height ? "landscape" : "portrait",
       unit: "pt",
       format: [dims.width, dims.height],
     });
+    fonts = embedFonts(doc, renderFonts);
 
     for (let i = 0; i < expandedAssets.length; i++) {
       const asset = expandedAssets[i];
@@ -112,18 +131,21 @@ export async function renderLabels(request: RenderRequest): Promise<RenderResult
       if (i > 0) {
         doc.addPage([dims.width, dims.height]);
       }
+      if (calibration) beginCalibratedPage(doc, calibration, dims.width, dims.height);
 
       const ctx: PDFContext = {
         doc,
         offsetX: 0,
         offsetY: 0,
-        labelWidth: dims.width,
-        labelHeight: dims.height,
-        unit: spec.dimensions.unit,
+        pageHeight: dims.height,
         cache,
+        dates,
+        textOverflow,
+        fonts,
       };
 
-      await renderSingleLabel(ctx, spec, asset);
+      renderSingleLabel(ctx, spec, asset);
+      if (calibration) doc.restoreGraphicsState();
     }
     pageCount = expandedAssets.length;
   }
@@ -135,379 +157,141 @@ export async function renderLabels(request: RenderRequest): Promise<RenderResult
     mimeType: "application/pdf",
     filename: generatePrintFilename(spec.name, expandedAssets.length),
     pageCount,
+    textOverflow,
   };
 }
 
-async function renderSingleLabel(ctx: PDFContext, spec: LabelSpec, asset: RenderAssetData): Promise<void> {
-  for (const element of spec.elements) {
-    if (element.visible === false) continue;
-    await renderElement(ctx, element);
-  }
+/**
+ * Applies the printer calibration to everything drawn on the current page
+ * until the graphics state is restored
+ */
+function beginCalibratedPage(doc: jsPDF, calibration: PrinterCalibration, width: number, height: number): void {
+  doc.saveGraphicsState();
+  concatMatrix(doc, getCalibrationMatrix(calibration, width, height), height);
+}
 
-  for (const field of spec.fields) {
-    if (field.visible === false) continue;
-    if (field.condition && !evaluateCondition(field.condition, asset)) continue;
-    await renderField(ctx, field, asset);
-  }
+/**
+ * Transforms everything drawn after it by a y-down matrix. jsPDF takes
+ * y-down coordinates but the PDF matrix is y-up, so the matrix is mirrored
+ * through the page height.
+ */
+function concatMatrix(doc: jsPDF, m: CalibrationMatrix, pageHeight: number): void {
+  doc.setCurrentTransformationMatrix(
+    doc.Matrix(m.a, -m.b, -m.c, m.d, m.c * pageHeight + m.e, pageHeight - m.d * pageHeight - m.f)
+  );
 }
 
-async function renderElement(ctx: PDFContext, element: LabelElement): Promise<void> {
-  const x = ctx.offsetX + toPoints(element.position.x, ctx.unit);
-  const y = ctx.offsetY + toPoints(element.position.y, ctx.unit);
-  const width = toPoints(element.size.width, ctx.unit);
-  const height = toPoints(element.size.height, ctx.unit);
-
-  switch (element.type) {
-    case "text":
-      renderStaticText(ctx.doc, x, y, width, height, element.content ?? "", element.style);
-      break;
-    case "rect":
-      renderRect(ctx.doc, x, y, width, height, element.style);
-      break;
-    case "line":
-      renderLine(ctx.doc, x, y, width, height, element.style);
-      break;
-    case "image":
-    case "logo":
-      if (element.content) {
-        await renderImage(ctx.doc, x, y, width, height, element.content);
-      }
-      break;
-  }
+/**
+ * Adds tenant fonts to the document. jsPDF embeds Identity-H fonts as
+ * subsets holding only the glyphs the document uses.
+ */
+function embedFonts(doc: jsPDF, fonts: RenderFont[]): EmbeddedFont[] {
+  return fonts.map((font) => {
+    const name = `font-${font.id}`;
+    doc.addFileToVFS(`${name}.ttf`, Buffer.from(font.data).toString("base64"));
+    doc.addFont(`${name}.ttf`, name, "normal", undefined, "Identity-H");
+    return { ...font, name, metrics: parseFontFile(font.data) };
+  });
 }
 
-async function renderField(ctx: PDFContext, field: LabelField, asset: RenderAssetData): Promise<void> {
-  const x = ctx.offsetX + toPoints(field.position.x, ctx.unit);
-  const y = ctx.offsetY + toPoints(field.position.y, ctx.unit);
-  const width = toPoints(field.size.width, ctx.unit);
-  const height = toPoints(field.size.height, ctx.unit);
-  const value = getFieldValue(asset, field.source, field.fallback);
-
-  switch (field.type) {
-    case "text":
-    case "date":
-      renderTextField(ctx.doc, x, y, width, height, value, field.style as TextStyle);
-      break;
-    case "barcode":
-      await renderBarcode(ctx.doc, x, y, width, height, value, field.style as BarcodeStyle, ctx.cache);
-      break;
-    case "qrcode":
-      await renderQRCode(ctx.doc, x, y, width, height, value, field.style as QRCodeStyle, ctx.cache);
-      break;
-    case "image":
-      if (value) {
-        await renderImage(ctx.doc, x, y, width, height, value);
-      }
-      break;
+function renderSingleLabel(ctx: PDFContext, spec: LabelSpec, asset: RenderAssetData): void {
+  const layout = layoutLabel(spec, asset, { dates: ctx.dates, fonts: ctx.fonts, cache: ctx.cache });
+
+  for (const overflow of layout.overflow) {
+    assertTextFits(overflow.layout, overflow.field.style as TextStyle, overflow.field.id);
+    reportTextOverflow(ctx.textOverflow, asset.id, overflow.field);
   }
-}
 
-function renderStaticText(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  text: string,
-  style: LabelElement["style"]
-): void {
-  if (!text) return;
-
-  doc.setFont(style.fontFamily ?? "helvetica", style.fontWeight === "bold" ? "bold" : "normal");
-  doc.setFontSize(style.fontSize ?? 10);
-  doc.setTextColor(style.color ?? "#000000");
-
-  const align = style.textAlign ?? "left";
-  let textX = x;
-  if (align === "center") textX = x + width / 2;
-  else if (align === "right") textX = x + width;
-
-  const textY = y + (style.fontSize ?? 10) * 0.35;
-
-  doc.text(text, textX, textY, { align, maxWidth: width });
+  drawItems(ctx, layout.items, ctx.offsetX, ctx.offsetY);
 }
 
-function renderTextField(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  text: string,
-  style: TextStyle
-): void {
-  if (!text) return;
-
-  const fontStyle = style.fontWeight === "bold" 
-    ? (style.fontStyle === "italic" ? "bolditalic" : "bold")
-    : (style.fontStyle === "italic" ? "italic" : "normal");
-
-  doc.setFont(mapFontFamily(style.fontFamily), fontStyle);
-  doc.setFontSize(style.fontSize);
-  doc.setTextColor(style.color);
-
-  let displayText = text;
-  if (style.textTransform) {
-    switch (style.textTransform) {
-      case "uppercase":
-        displayText = text.toUpperCase();
+function drawItems(ctx: PDFContext, items: DisplayItem[], originX: number, originY: number): void {
+  const { doc } = ctx;
+
+  for (const item of items) {
+    switch (item.type) {
+      case "group": {
+        const x = originX + item.x;
+        const y = originY + item.y;
+        if (item.rotation) {
+          doc.saveGraphicsState();
+          concatMatrix(doc, rotationMatrix(item.rotation, x, y), ctx.pageHeight);
+        }
+        drawItems(ctx, item.items, x, y);
+        if (item.rotation) doc.restoreGraphicsState();
+        break;
+      }
+      case "rect":
+        drawRect(doc, item, originX, originY);
+        break;
+      case "line":
+        doc.setDrawColor(item.stroke);
+        doc.setLineWidth(item.strokeWidth);
+        doc.line(originX + item.x1, originY + item.y1, originX + item.x2, originY + item.y2);
+        break;
+      case "text":
+        drawText(ctx, item, originX, originY);
         break;
-      case "lowercase":
-        displayText = text.toLowerCase();
+      case "image":
+        try {
+          const format = item.src.includes("image/png") ? "PNG" : "JPEG";
+          doc.addImage(item.src, format, originX + item.x, originY + item.y, item.width, item.height);
+        } catch (error) {
+          console.error("Image rendering failed:", error);
+        }
         break;
-      case "capitalize":
-        displayText = text.replace(/\b\w/g, (c) => c.toUpperCase());
+      case "marker":
         break;
     }
   }
-
-  let textX = x;
-  if (style.textAlign === "center") textX = x + width / 2;
-  else if (style.textAlign === "right") textX = x + width;
-
-  let textY = y;
-  const lineHeight = style.fontSize * (style.lineHeight ?? 1.2);
-  if (style.verticalAlign === "middle") {
-    textY = y + height / 2 - lineHeight / 4;
-  } else if (style.verticalAlign === "bottom") {
-    textY = y + height - lineHeight / 2;
-  } else {
-    textY = y + style.fontSize * 0.8;
-  }
-
-  doc.text(displayText, textX, textY, { align: style.textAlign, maxWidth: width });
 }
 
-function renderRect(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  style: LabelElement["style"]
-): void {
-  if (style.fill) {
-    doc.setFillColor(style.fill);
-    doc.rect(x, y, width, height, "F");
+function drawRect(doc: jsPDF, rect: DisplayRect, originX: number, originY: number): void {
+  if (rect.fill) doc.setFillColor(rect.fill);
+  if (rect.stroke) {
+    doc.setDrawColor(rect.stroke);
+    doc.setLineWidth(rect.strokeWidth);
   }
 
-  if (style.stroke && style.strokeWidth) {
-    doc.setDrawColor(style.stroke);
-    doc.setLineWidth(style.strokeWidth);
-    doc.rect(x, y, width, height, "S");
-  }
-}
-
-function renderLine(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  style: LabelElement["style"]
-): void {
-  doc.setDrawColor(style.stroke ?? "#000000");
-  doc.setLineWidth(style.strokeWidth ?? 1);
-  doc.line(x, y, x + width, y + height);
-}
-
-async function renderBarcode(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  value: string,
-  style: BarcodeStyle,
-  cache: RenderCache
-): Promise<void> {
-  if (!value) return;
-
-  try {
-    const cacheKey = createBarcodeCacheKey(value, style, width, height);
-    let dataUrl = cache.barcodes.get(cacheKey);
-
-    if (!dataUrl) {
-      const svgString = createBarcodeSvg(value, style, width, height);
-      dataUrl = `data:image/svg+xml;base64,${Buffer.from(svgString).toString("base64")}`;
-      cache.barcodes.set(cacheKey, dataUrl);
-    }
-
-    doc.addImage(dataUrl, "SVG", x, y, width, height);
-  } catch (error) {
-    console.error("Barcode rendering failed:", error);
-    doc.setFontSize(8);
-    doc.setTextColor("#ff0000");
-    doc.text("Invalid barcode", x, y + height / 2);
-  }
-}
+  const style = rect.fill ? (rect.stroke ? "FD" : "F") : "S";
+  const x = originX + rect.x;
+  const y = originY + rect.y;
 
-function createBarcodeSvg(
-  value: string,
-  style: BarcodeStyle,
-  width: number,
-  height: number
-): string {
-  const svgNs = "http://www.w3.org/2000/svg";
-  
-  const svgDocument = {
-    createElementNS: (_ns: string, tag: string) => {
-      const attrs: Record<string, string> = {};
-      const children: unknown[] = [];
-      return {
-        setAttribute: (name: string, val: string) => { attrs[name] = val; },
-        appendChild: (child: unknown) => { children.push(child); },
-        getAttribute: (name: string) => attrs[name],
-        attrs,
-        children,
-        tag,
-      };
-    },
-    documentElement: { 
-      getAttribute: () => null, 
-      appendChild: () => {} 
-    },
-  };
-
-  const svgElement = svgDocument.createElementNS(svgNs, "svg");
-
-  JsBarcode(svgElement as unknown as SVGElement, value, {
-    format: style.format,
-    width: style.width,
-    height: Math.round(height * 0.8),
-    displayValue: style.displayValue,
-    fontSize: style.fontSize,
-    textAlign: style.textAlign,
-    background: style.background,
-    lineColor: style.lineColor,
-    margin: 2,
-    xmlDocument: svgDocument as unknown as Document,
-  });
-
-  const w = svgElement.attrs["width"] ?? String(Math.round(width));
-  const h = svgElement.attrs["height"] ?? String(Math.round(height));
-
-  let svg = `<svg xmlns="${svgNs}" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`;
-  
-  for (const child of svgElement.children) {
-    const c = child as { tag: string; attrs: Record<string, string> };
-    if (c.tag === "rect") {
-      svg += `<rect x="${c.attrs["x"] ?? 0}" y="${c.attrs["y"] ?? 0}" width="${c.attrs["width"]}" height="${c.attrs["height"]}" fill="${c.attrs["fill"] ?? style.background}"/>`;
-    } else if (c.tag === "g") {
-      const g = child as { tag: string; attrs: Record<string, string>; children: unknown[] };
-      svg += `<g>`;
-      for (const gc of g.children) {
-        const r = gc as { tag: string; attrs: Record<string, string> };
-        if (r.tag === "rect") {
-          svg += `<rect x="${r.attrs["x"]}" y="${r.attrs["y"]}" width="${r.attrs["width"]}" height="${r.attrs["height"]}" fill="${r.attrs["fill"] ?? style.lineColor}"/>`;
-        }
-      }
-      svg += `</g>`;
-    } else if (c.tag === "text") {
-      const t = child as { tag: string; attrs: Record<string, string>; children: Array<{ textContent?: string }> };
-      const textContent = t.children[0]?.textContent ?? value;
-      svg += `<text x="${t.attrs["x"]}" y="${t.attrs["y"]}" fill="${t.attrs["fill"] ?? style.lineColor}" font-size="${t.attrs["font-size"] ?? style.fontSize}" text-anchor="${t.attrs["text-anchor"] ?? "middle"}">${textContent}</text>`;
-    }
+  if (rect.radius > 0) {
+    doc.roundedRect(x, y, rect.width, rect.height, rect.radius, rect.radius, style);
+  } else {
+    doc.rect(x, y, rect.width, rect.height, style);
   }
-  
-  svg += `</svg>`;
-  return svg;
 }
 
-async function renderQRCode(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  value: string,
-  style: QRCodeStyle,
-  cache: RenderCache
-): Promise<void> {
-  if (!value) return;
-
-  try {
-    const size = Math.min(width, height);
-    const cacheKey = createQRCacheKey(value, style, size);
-    let dataUrl = cache.qrCodes.get(cacheKey);
-
-    if (!dataUrl) {
-      dataUrl = await QRCode.toDataURL(value, {
-        errorCorrectionLevel: style.errorCorrectionLevel,
-        margin: style.margin,
-        color: {
-          dark: style.darkColor,
-          light: style.lightColor,
-        },
-        width: Math.round(size * 4),
-      });
-      cache.qrCodes.set(cacheKey, dataUrl);
-    }
+function drawText(ctx: PDFContext, text: DisplayText, originX: number, originY: number): void {
+  const { doc } = ctx;
+  const embedded = text.font.faceId ? ctx.fonts.find((font) => font.id === text.font.faceId) : undefined;
 
-    const centerX = x + (width - size) / 2;
-    const centerY = y + (height - size) / 2;
-    doc.addImage(dataUrl, "PNG", centerX, centerY, size, size);
-  } catch (error) {
-    console.error("QR code rendering failed:", error);
-    doc.setFontSize(8);
-    doc.setTextColor("#ff0000");
-    doc.text("QR Error", x, y + height / 2);
-  }
-}
-
-async function renderImage(
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  src: string
-): Promise<void> {
-  try {
-    if (src.startsWith("data:")) {
-      const format = src.includes("image/png") ? "PNG" : "JPEG";
-      doc.addImage(src, format, x, y, width, height);
-    } else {
-      console.warn("External image URLs not supported in server-side rendering");
-    }
-  } catch (error) {
-    console.error("Image rendering failed:", error);
+  if (embedded) {
+    doc.setFont(embedded.name, "normal");
+  } else {
+    doc.setFont(mapStandardFont(text.font.family), getStandardFontStyle(text.font.weight, text.font.style));
   }
+  doc.setFontSize(text.fontSize);
+  doc.setTextColor(text.color);
+  doc.text(text.text, originX + text.x, originY + text.y, { align: text.align });
 }
 
-function evaluateCondition(
-  condition: { field: string; operator: string; value?: string },
-  asset: RenderAssetData
-): boolean {
-  const fieldValue = getFieldValue(asset, condition.field);
-
-  switch (condition.operator) {
-    case "eq":
-      return fieldValue === condition.value;
-    case "neq":
-      return fieldValue !== condition.value;
-    case "contains":
-      return fieldValue.includes(condition.value ?? "");
-    case "empty":
-      return !fieldValue || fieldValue.trim() === "";
-    case "notEmpty":
-      return !!fieldValue && fieldValue.trim() !== "";
-    default:
-      return true;
-  }
+function getStandardFontStyle(weight: FontWeight, style: FontStyle): string {
+  if (weight === "bold") return style === "italic" ? "bolditalic" : "bold";
+  return style === "italic" ? "italic" : "normal";
 }
 
-function mapFontFamily(fontFamily: string): string {
-  const fontMap: Record<string, string> = {
-    "Arial": "helvetica",
-    "Helvetica": "helvetica",
-    "Times New Roman": "times",
-    "Times": "times",
-    "Courier New": "courier",
-    "Courier": "courier",
-  };
+/**
+ * Clockwise rotation about a point, matching SVG's rotate()
+ */
+function rotationMatrix(degrees: number, x: number, y: number): CalibrationMatrix {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
 
-  return fontMap[fontFamily] ?? "helvetica";
+  return { a: cos, b: sin, c: -sin, d: cos, e: x - cos * x + sin * y, f: y - sin * x - cos * y };
 }
 
 export async function renderPreview(spec: LabelSpec, sampleAsset: RenderAssetData): Promise<RenderResult> {
@@ -0,0 +1,131 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+
+import type {
+  LocalStorageConfig,
+  SignedUrlOptions,
+  StorageDriver,
+  StoredObject,
+} from "@/types/storage";
+import { STORAGE_DRIVERS } from "@/types/storage";
+
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._\-/]*$/;
+
+export interface LocalSignedRequest {
+  key: string;
+  filename: string | null;
+  contentType: string | null;
+}
+
+export interface LocalStorageDriver extends StorageDriver {
+  /**
+   * Checks the signature and expiry of a URL produced by `getSignedUrl`.
+   * Returns null when the URL is tampered with or expired.
+   */
+  verifySignedUrl(url: URL): LocalSignedRequest | null;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export function createLocalStorageDriver(config: LocalStorageConfig): LocalStorageDriver {
+  const rootDir = resolve(config.rootDir);
+
+  function resolveKey(key: string): string {
+    const segments = key.split("/");
+    if (!KEY_PATTERN.test(key) || segments.some((s) => s === "" || s === "." || s === "..")) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    const path = join(rootDir, ...segments);
+    if (!path.startsWith(rootDir + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  function sign(key: string, expires: number, filename: string, contentType: string): string {
+    return createHmac("sha256", config.signingSecret)
+      .update([key, expires, filename, contentType].join("\n"))
+      .digest("hex");
+  }
+
+  return {
+    type: STORAGE_DRIVERS.LOCAL,
+
+    async put(key, data, contentType): Promise<StoredObject> {
+      const path = resolveKey(key);
+      await mkdir(dirname(path), { recursive: true });
+
+      const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+      await writeFile(tempPath, data);
+      await rename(tempPath, path);
+
+      return { key, size: data.length, contentType };
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        if (isMissingFile(error)) return null;
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      try {
+        return (await stat(resolveKey(key))).isFile();
+      } catch (error) {
+        if (isMissingFile(error)) return false;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await unlink(resolveKey(key));
+      } catch (error) {
+        if (!isMissingFile(error)) throw error;
+      }
+    },
+
+    async getSignedUrl(key, options: SignedUrlOptions) {
+      resolveKey(key);
+      const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+      const filename = options.filename ?? "";
+      const contentType = options.contentType ?? "";
+
+      const params = new URLSearchParams({
+        key,
+        expires: String(expires),
+        signature: sign(key, expires, filename, contentType),
+      });
+      if (filename) params.set("filename", filename);
+      if (contentType) params.set("type", contentType);
+
+      return `${config.downloadPath}?${params.toString()}`;
+    },
+
+    verifySignedUrl(url) {
+      const key = url.searchParams.get("key");
+      const expires = Number(url.searchParams.get("expires"));
+      const signature = url.searchParams.get("signature");
+      const filename = url.searchParams.get("filename") ?? "";
+      const contentType = url.searchParams.get("type") ?? "";
+
+      if (!key || !signature || !Number.isInteger(expires)) return null;
+      if (expires < Math.floor(Date.now() / 1000)) return null;
+
+      const expected = Buffer.from(sign(key, expires, filename, contentType), "hex");
+      const actual = Buffer.from(signature, "hex");
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+      }
+
+      return { key, filename: filename || null, contentType: contentType || null };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+import type { CloudPrintAdapter, CloudPrintJobState } from "@/types/cloud-print";
+import { CLOUD_PRINT_JOB_STATES, CLOUD_PRINT_PROVIDER_TYPES } from "@/types/cloud-print";
+
+const mockConfigSchema = z.object({
+  outcome: z.enum([CLOUD_PRINT_JOB_STATES.COMPLETED, CLOUD_PRINT_JOB_STATES.FAILED]).default(CLOUD_PRINT_JOB_STATES.COMPLETED),
+  pollsUntilDone: z.number().int().min(0).max(100).default(1),
+  rejectSubmissions: z.boolean().default(false),
+});
+
+type MockConfig = z.infer<typeof mockConfigSchema>;
+
+interface MockJob {
+  state: CloudPrintJobState;
+  polls: number;
+  bytes: number;
+}
+
+const jobs = new Map<string, MockJob>();
+
+export function getMockPrintJobs(): ReadonlyMap<string, MockJob> {
+  return jobs;
+}
+
+export function resetMockPrintJobs(): void {
+  jobs.clear();
+}
+
+export const mockPrintAdapter: CloudPrintAdapter<MockConfig> = {
+  type: CLOUD_PRINT_PROVIDER_TYPES.MOCK,
+  secretFields: [],
+
+  parseConfig(config) {
+    return mockConfigSchema.parse(config ?? {});
+  },
+
+  async submit(config, document) {
+    if (config.rejectSubmissions) {
+      throw new Error("Mock provider rejected the job");
+    }
+
+    const remoteJobId = `mock-${crypto.randomUUID()}`;
+    jobs.set(remoteJobId, {
+      state: CLOUD_PRINT_JOB_STATES.PENDING,
+      polls: 0,
+      bytes: document.data.length,
+    });
+
+    return { remoteJobId, state: CLOUD_PRINT_JOB_STATES.PENDING };
+  },
+
+  async getStatus(config, remoteJobId) {
+    const job = jobs.get(remoteJobId);
+    if (!job) {
+      return { state: CLOUD_PRINT_JOB_STATES.FAILED, message: "Unknown mock job" };
+    }
+
+    if (job.state === CLOUD_PRINT_JOB_STATES.CANCELLED) {
+      return { state: job.state };
+    }
+
+    job.polls += 1;
+    job.state = job.polls >= config.pollsUntilDone
+      ? config.outcome
+      : CLOUD_PRINT_JOB_STATES.PROCESSING;
+
+    return job.state === CLOUD_PRINT_JOB_STATES.FAILED
+      ? { state: job.state, message: "Mock printer reported a failure" }
+      : { state: job.state };
+  },
+
+  async cancel(_config, remoteJobId) {
+    const job = jobs.get(remoteJobId);
+    if (job) {
+      job.state = CLOUD_PRINT_JOB_STATES.CANCELLED;
+    }
+  },
+};
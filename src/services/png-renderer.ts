@@ -0,0 +1,215 @@
+import { GlobalFonts, createCanvas, loadImage } from "@napi-rs/canvas";
+import type { SKRSContext2D } from "@napi-rs/canvas";
+import { zipSync } from "fflate";
+
+import type { LabelSpec, TextStyle } from "@/types/label-spec";
+import type { RenderResult, RenderRequest, RenderAssetData, TextOverflowReport } from "@/types/print";
+import type { DateFormatSettings } from "@/types/tenant";
+import type { RenderFont } from "@/types/font";
+import { toDots, dimensionsToPoints, generatePrintFilename, sanitizeFilename } from "@/lib/print-utils";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { createLayoutCache, layoutLabel } from "@/lib/label-layout";
+import type { DisplayItem, DisplayRect, DisplayText, LayoutCache } from "@/lib/label-layout";
+import { assertTextFits, reportTextOverflow } from "@/lib/text-layout";
+import { parseFontFile } from "@/lib/font-file";
+import type { FontFileInfo } from "@/lib/font-file";
+
+const MAX_PIXELS = 40_000_000;
+
+interface RasterFont extends RenderFont {
+  alias: string; // family name registered with the canvas font manager
+  metrics: FontFileInfo;
+}
+
+// Canvas fonts are process-wide; font ids are unique and their files immutable
+const registeredFonts = new Set<string>();
+
+interface RasterContext {
+  g: SKRSContext2D;
+  pixelsPerPoint: number;
+  cache: LayoutCache;
+  dates: DateFormatSettings;
+  textOverflow: TextOverflowReport[];
+  fonts: RasterFont[];
+}
+
+export async function renderLabelsPng(request: RenderRequest): Promise<RenderResult> {
+  const { spec, assets, options, dates = DEFAULT_DATE_SETTINGS } = request;
+  const fonts = registerFonts(request.fonts ?? []);
+  const dpi = options.dpi || spec.dpi;
+  const copies = Math.max(1, Math.min(options.copies ?? 1, 100));
+
+  const width = toDots(spec.dimensions.width, spec.dimensions.unit, dpi);
+  const height = toDots(spec.dimensions.height, spec.dimensions.unit, dpi);
+  if (width < 1 || height < 1 || width * height > MAX_PIXELS) {
+    throw new Error(`Label is too large to rasterize at ${dpi} DPI`);
+  }
+
+  const cache = createLayoutCache();
+  const textOverflow: TextOverflowReport[] = [];
+  const images: Array<{ name: string; data: Buffer }> = [];
+  for (const asset of assets) {
+    const data = await renderSingleLabel(spec, asset, width, height, { cache, dates, textOverflow, fonts });
+    for (let c = 0; c < copies; c++) {
+      const index = String(images.length + 1).padStart(3, "0");
+      images.push({ name: `${index}_${sanitizeFilename(asset.assetTag || asset.id)}.png`, data });
+    }
+  }
+
+  if (images.length === 1) {
+    return {
+      buffer: images[0]!.data,
+      mimeType: "image/png",
+      filename: generatePrintFilename(spec.name, 1, "png"),
+      pageCount: 1,
+      textOverflow,
+    };
+  }
+
+  const entries: Record<string, Uint8Array> = {};
+  for (const image of images) {
+    entries[image.name] = new Uint8Array(image.data);
+  }
+
+  return {
+    buffer: Buffer.from(zipSync(entries, { level: 0 })),
+    mimeType: "application/zip",
+    filename: generatePrintFilename(spec.name, images.length, "zip"),
+    pageCount: images.length,
+    textOverflow,
+  };
+}
+
+async function renderSingleLabel(
+  spec: LabelSpec,
+  asset: RenderAssetData,
+  width: number,
+  height: number,
+  shared: Omit<RasterContext, "g" | "pixelsPerPoint">
+): Promise<Buffer> {
+  const canvas = createCanvas(width, height);
+  const g = canvas.getContext("2d");
+  const dims = dimensionsToPoints(spec.dimensions);
+  const ctx: RasterContext = { ...shared, g, pixelsPerPoint: width / dims.width };
+
+  const layout = layoutLabel(spec, asset, {
+    dates: ctx.dates,
+    fonts: ctx.fonts,
+    cache: ctx.cache,
+    pixelsPerPoint: ctx.pixelsPerPoint,
+  });
+
+  for (const overflow of layout.overflow) {
+    assertTextFits(overflow.layout, overflow.field.style as TextStyle, overflow.field.id);
+    reportTextOverflow(ctx.textOverflow, asset.id, overflow.field);
+  }
+
+  g.fillStyle = "#ffffff";
+  g.fillRect(0, 0, width, height);
+  g.scale(width / dims.width, height / dims.height);
+  await drawItems(ctx, layout.items);
+
+  return canvas.encode("png");
+}
+
+/**
+ * Draws display items in points; groups are drawn in their own translated
+ * and rotated coordinate space
+ */
+async function drawItems(ctx: RasterContext, items: DisplayItem[]): Promise<void> {
+  const { g } = ctx;
+
+  for (const item of items) {
+    switch (item.type) {
+      case "group":
+        g.save();
+        g.translate(item.x, item.y);
+        if (item.rotation) g.rotate((item.rotation * Math.PI) / 180);
+        await drawItems(ctx, item.items);
+        g.restore();
+        break;
+      case "rect":
+        drawRect(g, item);
+        break;
+      case "line":
+        g.strokeStyle = item.stroke;
+        g.lineWidth = item.strokeWidth;
+        g.beginPath();
+        g.moveTo(item.x1, item.y1);
+        g.lineTo(item.x2, item.y2);
+        g.stroke();
+        break;
+      case "text":
+        drawText(ctx, item);
+        break;
+      case "image":
+        try {
+          g.drawImage(await loadImage(item.src), item.x, item.y, item.width, item.height);
+        } catch (error) {
+          console.error("Image rendering failed:", error);
+        }
+        break;
+      case "marker":
+        break;
+    }
+  }
+}
+
+function drawRect(g: SKRSContext2D, rect: DisplayRect): void {
+  g.beginPath();
+  if (rect.radius > 0) {
+    g.roundRect(rect.x, rect.y, rect.width, rect.height, rect.radius);
+  } else {
+    g.rect(rect.x, rect.y, rect.width, rect.height);
+  }
+
+  if (rect.fill) {
+    g.fillStyle = rect.fill;
+    g.fill();
+  }
+
+  if (rect.stroke) {
+    g.strokeStyle = rect.stroke;
+    g.lineWidth = rect.strokeWidth;
+    g.stroke();
+  }
+}
+
+function drawText(ctx: RasterContext, text: DisplayText): void {
+  const { g } = ctx;
+  const raster = text.font.faceId ? ctx.fonts.find((font) => font.id === text.font.faceId) : undefined;
+
+  if (raster) {
+    g.font = `${text.fontSize}px "${raster.alias}"`;
+  } else {
+    const weight = text.font.weight === "bold" ? "bold" : "normal";
+    const italic = text.font.style === "italic" ? "italic " : "";
+    g.font = `${italic}${weight} ${text.fontSize}px ${mapFontFamily(text.font.family)}`;
+  }
+  g.fillStyle = text.color;
+  g.textAlign = text.align;
+  g.textBaseline = "alphabetic";
+  g.fillText(text.text, text.x, text.y);
+}
+
+function registerFonts(fonts: RenderFont[]): RasterFont[] {
+  return fonts.map((font) => {
+    const alias = `font-${font.id}`;
+    if (!registeredFonts.has(alias)) {
+      GlobalFonts.register(Buffer.from(font.data), alias);
+      registeredFonts.add(alias);
+    }
+    return { ...font, alias, metrics: parseFontFile(font.data) };
+  });
+}
+
+function mapFontFamily(fontFamily: string): string {
+  const fontMap: Record<string, string> = {
+    "Times New Roman": `"Times New Roman", Times, "DejaVu Serif", serif`,
+    "Times": `Times, "Times New Roman", "DejaVu Serif", serif`,
+    "Courier New": `"Courier New", Courier, "DejaVu Sans Mono", monospace`,
+    "Courier": `Courier, "Courier New", "DejaVu Sans Mono", monospace`,
+  };
+
+  return fontMap[fontFamily] ?? `Helvetica, Arial, "DejaVu Sans", sans-serif`;
+}
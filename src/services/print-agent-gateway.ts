@@ -0,0 +1,353 @@
+import { z } from "zod";
+
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+
+import { createAuditLog } from "@/services/audit-service";
+import {
+  claimDispatchForSend,
+  getDispatch,
+  getPrinter,
+  listQueuedDispatchesForAgent,
+  markStaleAgentsOffline,
+  registerAgent,
+  requeueInFlightDispatches,
+  setAgentOffline,
+  updateAgentHeartbeat,
+  updateDispatchStatus,
+  upsertPrinters,
+} from "@/services/print-agent-service";
+import { finishDispatchedPrintJob, markPrintJobDispatched, renderPrintJobForDispatch } from "@/services/print-service";
+import { publishEvent } from "@/services/webhook-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type {
+  AgentHelloMessage,
+  AgentMessage,
+  AgentSocketData,
+  AgentStatusEvent,
+  PrintAgentPrinter,
+  PrintDispatch,
+  ServerMessage,
+} from "@/types/print-agent";
+import { DISPATCH_STATUS, PRINT_DELIVERY_METHODS, PRINTER_LANGUAGES } from "@/types/print-agent";
+import { AUDIT_ACTIONS } from "@/types/audit";
+import { WEBHOOK_EVENT_TYPES } from "@/types/webhook";
+
+type AgentSocket = ServerWebSocket<AgentSocketData>;
+
+const DISPATCH_POLL_MS = 2000;
+const PING_INTERVAL_MS = 30 * 1000;
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+const printerLanguageValues = Object.values(PRINTER_LANGUAGES) as [string, ...string[]];
+const dispatchStatusValues = Object.values(DISPATCH_STATUS) as [string, ...string[]];
+
+const printerInfoSchema = z.object({
+  name: z.string().min(1).max(255),
+  location: z.string().max(255).optional(),
+  driver: z.string().max(255).optional(),
+  languages: z.array(z.enum(printerLanguageValues)).min(1),
+  dpi: z.number().int().min(72).max(1200).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const agentMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("hello"),
+    agentName: z.string().min(1).max(255),
+    version: z.string().min(1).max(50),
+    printers: z.array(printerInfoSchema).max(50),
+  }),
+  z.object({
+    type: z.literal("status"),
+    dispatchId: z.string().uuid(),
+    status: z.enum(dispatchStatusValues),
+    error: z.string().max(2000).optional(),
+  }),
+  z.object({
+    type: z.literal("heartbeat"),
+    timestamp: z.number(),
+  }),
+]);
+
+const connections = new Map<string, AgentSocket>();
+const pushing = new Set<string>();
+let dispatchTimer: ReturnType<typeof setInterval> | null = null;
+let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+function send(ws: AgentSocket, message: ServerMessage): void {
+  ws.send(JSON.stringify(message));
+}
+
+async function buildDispatchPayload(
+  ctx: TenantContext,
+  dispatch: PrintDispatch,
+  printer: PrintAgentPrinter | null
+): Promise<string> {
+  switch (dispatch.payloadFormat) {
+    case PRINTER_LANGUAGES.PDF:
+    case PRINTER_LANGUAGES.ZPL:
+    case PRINTER_LANGUAGES.EPL: {
+      const result = await renderPrintJobForDispatch(ctx, dispatch.printJobId, {
+        language: dispatch.payloadFormat,
+        dpi: printer?.dpi,
+        calibration: printer?.calibration,
+      });
+      return result.buffer.toString("base64");
+    }
+    default:
+      throw new Error(`Unsupported dispatch format: ${dispatch.payloadFormat}`);
+  }
+}
+
+async function pushQueuedDispatches(ws: AgentSocket): Promise<void> {
+  const { ctx, agentId } = ws.data;
+  if (!agentId || pushing.has(agentId)) return;
+
+  pushing.add(agentId);
+  try {
+    const dispatches = await listQueuedDispatchesForAgent(ctx.tenantId, agentId);
+
+    for (const dispatch of dispatches) {
+      if (connections.get(agentId) !== ws) break;
+
+      const claimed = await claimDispatchForSend(dispatch.id, ctx.tenantId);
+      if (!claimed) continue;
+
+      try {
+        const printer = dispatch.printerId
+          ? await getPrinter(ctx.tenantId, dispatch.printerId)
+          : null;
+        const data = await buildDispatchPayload(ctx, dispatch, printer);
+
+        send(ws, {
+          type: "print",
+          dispatchId: dispatch.id,
+          printJobId: dispatch.printJobId,
+          printerName: printer?.name ?? null,
+          format: dispatch.payloadFormat,
+          data,
+        });
+        await markPrintJobDispatched(ctx.tenantId, dispatch.printJobId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to prepare dispatch";
+        await updateDispatchStatus(dispatch.id, ctx.tenantId, DISPATCH_STATUS.FAILED, message);
+        const job = await finishDispatchedPrintJob(ctx.tenantId, dispatch.printJobId, message);
+        await createAuditLog(ctx, {
+          action: AUDIT_ACTIONS.PRINT_DISPATCH_FAILED,
+          severity: "error",
+          resourceType: "print_dispatch",
+          resourceId: dispatch.id,
+          details: { agentId, error: message },
+        });
+        if (job) {
+          await publishEvent(ctx, {
+            type: WEBHOOK_EVENT_TYPES.PRINT_FAILED,
+            resourceId: dispatch.printJobId,
+            data: {
+              printJobId: dispatch.printJobId,
+              templateId: job.templateId,
+              deliveryMethod: PRINT_DELIVERY_METHODS.AGENT,
+              dispatchId: dispatch.id,
+              agentId,
+              printerId: dispatch.printerId,
+              error: message,
+            },
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`[PRINT_AGENT] Failed to push dispatches to agent ${agentId}:`, error);
+  } finally {
+    pushing.delete(agentId);
+  }
+}
+
+async function handleHello(ws: AgentSocket, message: AgentHelloMessage): Promise<void> {
+  const { ctx } = ws.data;
+
+  const languages = Array.from(new Set(message.printers.flatMap((p) => p.languages)));
+  const dpis = message.printers.map((p) => p.dpi).filter((dpi): dpi is number => !!dpi);
+
+  const agent = await registerAgent(ctx, message.agentName, message.version, {
+    languages: languages.length > 0 ? languages : [PRINTER_LANGUAGES.PDF],
+    maxDpi: dpis.length > 0 ? Math.max(...dpis) : undefined,
+  });
+  const printers = await upsertPrinters(ctx, agent.id, message.printers);
+
+  const previous = connections.get(agent.id);
+  if (previous && previous !== ws) {
+    connections.delete(agent.id);
+    previous.close(4000, "Replaced by a newer connection");
+  }
+
+  ws.data.agentId = agent.id;
+  connections.set(agent.id, ws);
+  startTimers();
+
+  await requeueInFlightDispatches(ctx.tenantId, agent.id);
+
+  send(ws, {
+    type: "registered",
+    agentId: agent.id,
+    printers: printers.map((p) => ({ id: p.id, name: p.name })),
+  });
+
+  console.log(`[PRINT_AGENT] ${message.agentName} (${agent.id}) connected with ${printers.length} printers`);
+
+  await pushQueuedDispatches(ws);
+}
+
+async function handleStatus(ws: AgentSocket, message: AgentStatusEvent): Promise<void> {
+  const { ctx, agentId } = ws.data;
+
+  const dispatch = await getDispatch(ctx, message.dispatchId);
+  if (!dispatch || dispatch.agentId !== agentId) {
+    send(ws, { type: "error", message: "Dispatch not found" });
+    return;
+  }
+
+  await updateDispatchStatus(dispatch.id, ctx.tenantId, message.status, message.error);
+
+  if (message.status === DISPATCH_STATUS.COMPLETED || message.status === DISPATCH_STATUS.FAILED) {
+    const failed = message.status === DISPATCH_STATUS.FAILED;
+    const job = await finishDispatchedPrintJob(
+      ctx.tenantId,
+      dispatch.printJobId,
+      failed ? message.error ?? "Printer reported a failure" : undefined
+    );
+
+    await createAuditLog(ctx, {
+      action: failed ? AUDIT_ACTIONS.PRINT_DISPATCH_FAILED : AUDIT_ACTIONS.PRINT_DISPATCH_COMPLETED,
+      severity: failed ? "warning" : "info",
+      resourceType: "print_dispatch",
+      resourceId: dispatch.id,
+      details: {
+        agentId,
+        printJobId: dispatch.printJobId,
+        ...(message.error ? { error: message.error } : {}),
+      },
+    });
+
+    // A cancelled or already finished job gets no second webhook
+    if (job) {
+      await publishEvent(ctx, {
+        type: failed ? WEBHOOK_EVENT_TYPES.PRINT_FAILED : WEBHOOK_EVENT_TYPES.PRINT_COMPLETED,
+        resourceId: dispatch.printJobId,
+        data: {
+          printJobId: dispatch.printJobId,
+          templateId: job.templateId,
+          deliveryMethod: PRINT_DELIVERY_METHODS.AGENT,
+          dispatchId: dispatch.id,
+          agentId,
+          printerId: dispatch.printerId,
+          ...(failed ? {} : { itemCount: job.itemCount }),
+          ...(message.error ? { error: message.error } : {}),
+        },
+      });
+    }
+  }
+}
+
+async function handleMessage(ws: AgentSocket, raw: string): Promise<void> {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    send(ws, { type: "error", message: "Invalid JSON" });
+    return;
+  }
+
+  const parsed = agentMessageSchema.safeParse(json);
+  if (!parsed.success) {
+    send(ws, { type: "error", message: "Invalid message" });
+    return;
+  }
+
+  const message = parsed.data as AgentMessage;
+
+  if (message.type === "hello") {
+    await handleHello(ws, message);
+    return;
+  }
+
+  if (!ws.data.agentId) {
+    send(ws, { type: "error", message: "Send hello before other messages" });
+    return;
+  }
+
+  if (message.type === "heartbeat") {
+    await updateAgentHeartbeat(ws.data.agentId, ws.data.ctx.tenantId);
+    return;
+  }
+
+  await handleStatus(ws, message);
+}
+
+function startTimers(): void {
+  if (!dispatchTimer) {
+    dispatchTimer = setInterval(() => {
+      for (const ws of connections.values()) {
+        void pushQueuedDispatches(ws);
+      }
+    }, DISPATCH_POLL_MS);
+  }
+
+  if (!pingTimer) {
+    pingTimer = setInterval(() => {
+      for (const ws of connections.values()) {
+        send(ws, { type: "ping" });
+      }
+      markStaleAgentsOffline().catch((error) => {
+        console.error("[PRINT_AGENT] Failed to mark stale agents offline:", error);
+      });
+    }, PING_INTERVAL_MS);
+  }
+}
+
+function stopTimersIfIdle(): void {
+  if (connections.size > 0) return;
+
+  if (dispatchTimer) {
+    clearInterval(dispatchTimer);
+    dispatchTimer = null;
+  }
+  if (pingTimer) {
+    clearInterval(pingTimer);
+    pingTimer = null;
+  }
+}
+
+export const printAgentWebSocket: WebSocketHandler<AgentSocketData> = {
+  maxPayloadLength: MAX_MESSAGE_BYTES,
+
+  async message(ws, message) {
+    const raw = typeof message === "string" ? message : message.toString("utf-8");
+
+    try {
+      await handleMessage(ws, raw);
+    } catch (error) {
+      console.error("[PRINT_AGENT] Message handling failed:", error);
+      send(ws, { type: "error", message: "Internal server error" });
+    }
+  },
+
+  async close(ws) {
+    const { ctx, agentId } = ws.data;
+
+    if (!agentId || connections.get(agentId) !== ws) return;
+
+    connections.delete(agentId);
+    stopTimersIfIdle();
+
+    try {
+      await setAgentOffline(agentId, ctx.tenantId);
+      await requeueInFlightDispatches(ctx.tenantId, agentId);
+    } catch (error) {
+      console.error(`[PRINT_AGENT] Failed to clean up agent ${agentId}:`, error);
+    }
+
+    console.log(`[PRINT_AGENT] Agent ${agentId} disconnected`);
+  },
+};
@@ -1,7 +1,8 @@
-import { eq, and, desc, count, lte } from "drizzle-orm";
+import { eq, and, desc, count, lte, inArray, isNotNull, sql } from "drizzle-orm";
 
 import { db } from "@/db";
 import { printAgents, printAgentPrinters, printDispatches, printJobs } from "@/db/schema";
+import { getCalibrationError } from "@/lib/printer-calibration";
 import { withTenant } from "@/lib/tenant";
 import { createAuditLog } from "@/services/audit-service";
 
@@ -17,6 +18,7 @@ import type {
   AgentStatus,
   DispatchStatus,
   PrinterLanguage,
+  PrinterCalibration,
 } from "@/types/print-agent";
 import { AGENT_STATUS, DISPATCH_STATUS, PRINTER_LANGUAGES } from "@/types/print-agent";
 import { AUDIT_ACTIONS } from "@/types/audit";
@@ -46,6 +48,7 @@ function mapPrinterRow(row: typeof printAgentPrinters.$inferSelect): PrintAgentP
     languages: row.languages as PrinterLanguage[],
     dpi: row.dpi,
     isDefault: row.isDefault,
+    calibration: row.calibration as PrinterCalibration | null,
   };
 }
 
@@ -56,6 +59,8 @@ function mapDispatchRow(row: typeof printDispatches.$inferSelect): PrintDispatch
     printJobId: row.printJobId,
     agentId: row.agentId,
     printerId: row.printerId,
+    providerId: row.providerId,
+    remoteJobId: row.remoteJobId,
     payloadFormat: row.payloadFormat as PrinterLanguage,
     status: row.status as DispatchStatus,
     attempts: row.attempts,
@@ -131,58 +136,99 @@ export async function updateAgentHeartbeat(
   agentId: string,
   tenantId: string
 ): Promise<void> {
-  await db
-    .update(printAgents)
-    .set({
-      lastSeenAt: new Date(),
-      status: AGENT_STATUS.ONLINE,
-    })
-    .where(and(
-      eq(printAgents.id, agentId),
-      eq(printAgents.tenantId, tenantId)
-    ));
+  await withTenant(tenantId, async (tx) => {
+    await tx
+      .update(printAgents)
+      .set({
+        lastSeenAt: new Date(),
+        status: AGENT_STATUS.ONLINE,
+      })
+      .where(and(
+        eq(printAgents.id, agentId),
+        eq(printAgents.tenantId, tenantId)
+      ));
+  });
 }
 
 export async function setAgentOffline(
   agentId: string,
   tenantId: string
 ): Promise<void> {
-  await db
-    .update(printAgents)
-    .set({ status: AGENT_STATUS.OFFLINE })
-    .where(and(
-      eq(printAgents.id, agentId),
-      eq(printAgents.tenantId, tenantId)
-    ));
+  await withTenant(tenantId, async (tx) => {
+    await tx
+      .update(printAgents)
+      .set({ status: AGENT_STATUS.OFFLINE })
+      .where(and(
+        eq(printAgents.id, agentId),
+        eq(printAgents.tenantId, tenantId)
+      ));
+  });
 }
 
 export async function upsertPrinters(
   ctx: TenantContext,
   agentId: string,
   printers: PrinterInfo[]
-): Promise<void> {
+): Promise<PrintAgentPrinter[]> {
   return withTenant(ctx.tenantId, async (tx) => {
-    await tx
-      .delete(printAgentPrinters)
+    const existing = await tx
+      .select()
+      .from(printAgentPrinters)
       .where(and(
         eq(printAgentPrinters.agentId, agentId),
         eq(printAgentPrinters.tenantId, ctx.tenantId)
       ));
 
-    if (printers.length === 0) return;
+    const existingByName = new Map(existing.map((row) => [row.name, row]));
+    const reportedNames = new Set(printers.map((p) => p.name));
+    const result: PrintAgentPrinter[] = [];
+
+    for (const printer of printers) {
+      const values = {
+        location: printer.location ?? null,
+        driver: printer.driver ?? null,
+        languages: printer.languages,
+        dpi: printer.dpi ?? null,
+        isDefault: printer.isDefault ?? false,
+      };
+      const current = existingByName.get(printer.name);
+
+      const [row] = current
+        ? await tx
+            .update(printAgentPrinters)
+            .set(values)
+            .where(eq(printAgentPrinters.id, current.id))
+            .returning()
+        : await tx
+            .insert(printAgentPrinters)
+            .values({ tenantId: ctx.tenantId, agentId, name: printer.name, ...values })
+            .returning();
+
+      if (row) {
+        result.push(mapPrinterRow(row));
+      }
+    }
 
-    await tx
-      .insert(printAgentPrinters)
-      .values(printers.map((p) => ({
-        tenantId: ctx.tenantId,
-        agentId,
-        name: p.name,
-        location: p.location ?? null,
-        driver: p.driver ?? null,
-        languages: p.languages,
-        dpi: p.dpi ?? null,
-        isDefault: p.isDefault ?? false,
-      })));
+    const removedIds = existing
+      .filter((row) => !reportedNames.has(row.name))
+      .map((row) => row.id);
+
+    if (removedIds.length > 0) {
+      const referenced = await tx
+        .select({ printerId: printDispatches.printerId })
+        .from(printDispatches)
+        .where(inArray(printDispatches.printerId, removedIds));
+      const referencedIds = new Set(referenced.map((row) => row.printerId));
+      const deletable = removedIds.filter((id) => !referencedIds.has(id));
+
+      if (deletable.length > 0) {
+        await tx
+          .delete(printAgentPrinters)
+          .where(inArray(printAgentPrinters.id, deletable));
+      }
+    }
+
+    return result;
   });
 }
 
@@ -248,6 +294,18 @@ export async function getAgentPrinters(
   });
 }
 
+export async function listPrinters(ctx: TenantContext): Promise<PrintAgentPrinter[]> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(printAgentPrinters)
+      .where(eq(printAgentPrinters.tenantId, ctx.tenantId))
+      .orderBy(printAgentPrinters.name);
+
+    return rows.map(mapPrinterRow);
+  });
+}
+
 export async function createDispatch(
   ctx: TenantContext,
   input: CreateDispatchInput
@@ -277,7 +335,7 @@ export async function createDispatch(
       throw new Error("Print agent not found");
     }
 
-    if (agent.status !== AGENT_STATUS.ONLINE) {
+    if (agent.status !== AGENT_STATUS.ONLINE && !input.allowOffline) {
       throw new Error("Print agent is not online");
     }
 
@@ -317,18 +375,159 @@ export async function updateDispatchStatus(
   tenantId: string,
   status: DispatchStatus,
   error?: string
-): Promise<void> {
-  await db
-    .update(printDispatches)
-    .set({
-      status,
-      lastError: error ?? null,
-      updatedAt: new Date(),
-    })
-    .where(and(
-      eq(printDispatches.id, dispatchId),
-      eq(printDispatches.tenantId, tenantId)
-    ));
+): Promise<PrintDispatch | null> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(printDispatches)
+      .set({
+        status,
+        lastError: error ?? null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(printDispatches.id, dispatchId),
+        eq(printDispatches.tenantId, tenantId)
+      ))
+      .returning();
+
+    return row ? mapDispatchRow(row) : null;
+  });
+}
+
+export async function listQueuedDispatchesForAgent(
+  tenantId: string,
+  agentId: string,
+  limit = 10
+): Promise<PrintDispatch[]> {
+  return withTenant(tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(printDispatches)
+      .where(and(
+        eq(printDispatches.tenantId, tenantId),
+        eq(printDispatches.agentId, agentId),
+        eq(printDispatches.status, DISPATCH_STATUS.QUEUED)
+      ))
+      .orderBy(printDispatches.createdAt)
+      .limit(limit);
+
+    return rows.map(mapDispatchRow);
+  });
+}
+
+export async function claimDispatchForSend(
+  dispatchId: string,
+  tenantId: string
+): Promise<boolean> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(printDispatches)
+      .set({
+        status: DISPATCH_STATUS.SENT,
+        attempts: sql`${printDispatches.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(printDispatches.id, dispatchId),
+        eq(printDispatches.tenantId, tenantId),
+        eq(printDispatches.status, DISPATCH_STATUS.QUEUED)
+      ))
+      .returning({ id: printDispatches.id });
+
+    return !!row;
+  });
+}
+
+export async function requeueInFlightDispatches(
+  tenantId: string,
+  agentId: string
+): Promise<number> {
+  return withTenant(tenantId, async (tx) => {
+    const rows = await tx
+      .update(printDispatches)
+      .set({
+        status: DISPATCH_STATUS.QUEUED,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(printDispatches.tenantId, tenantId),
+        eq(printDispatches.agentId, agentId),
+        eq(printDispatches.status, DISPATCH_STATUS.SENT)
+      ))
+      .returning({ id: printDispatches.id });
+
+    return rows.length;
+  });
+}
+
+export async function getPrinter(
+  tenantId: string,
+  printerId: string
+): Promise<PrintAgentPrinter | null> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(printAgentPrinters)
+      .where(and(
+        eq(printAgentPrinters.id, printerId),
+        eq(printAgentPrinters.tenantId, tenantId)
+      ));
+
+    return row ? mapPrinterRow(row) : null;
+  });
+}
+
+/**
+ * Sets or clears (null) a printer's calibration. Agents re-registering their
+ * printers leave it untouched.
+ */
+export async function updatePrinterCalibration(
+  ctx: TenantContext,
+  printerId: string,
+  calibration: PrinterCalibration | null
+): Promise<PrintAgentPrinter | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [existing] = await tx
+      .select()
+      .from(printAgentPrinters)
+      .where(and(
+        eq(printAgentPrinters.id, printerId),
+        eq(printAgentPrinters.tenantId, ctx.tenantId)
+      ));
+
+    if (!existing) {
+      return null;
+    }
+
+    if (calibration) {
+      const error = getCalibrationError(calibration, existing.languages as PrinterLanguage[]);
+      if (error) {
+        throw new Error(error);
+      }
+    }
+
+    const [row] = await tx
+      .update(printAgentPrinters)
+      .set({ calibration })
+      .where(and(
+        eq(printAgentPrinters.id, printerId),
+        eq(printAgentPrinters.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (!row) {
+      return null;
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.PRINTER_CALIBRATED,
+      resourceType: "print_agent_printer",
+      resourceId: printerId,
+      details: { agentId: row.agentId, name: row.name, calibration },
+    });
+
+    return mapPrinterRow(row);
+  });
 }
 
 export async function getDispatch(
@@ -348,6 +547,78 @@ export async function getDispatch(
   });
 }
 
+export async function createCloudDispatch(
+  ctx: TenantContext,
+  printJobId: string,
+  providerId: string,
+  format: PrinterLanguage
+): Promise<PrintDispatch> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .insert(printDispatches)
+      .values({
+        tenantId: ctx.tenantId,
+        printJobId,
+        providerId,
+        payloadFormat: format,
+        status: DISPATCH_STATUS.QUEUED,
+      })
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to create dispatch");
+    }
+
+    return mapDispatchRow(row);
+  });
+}
+
+export async function recordCloudSubmission(
+  dispatchId: string,
+  tenantId: string,
+  remoteJobId: string
+): Promise<PrintDispatch | null> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(printDispatches)
+      .set({
+        status: DISPATCH_STATUS.SENT,
+        remoteJobId,
+        attempts: sql`${printDispatches.attempts} + 1`,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(printDispatches.id, dispatchId),
+        eq(printDispatches.tenantId, tenantId)
+      ))
+      .returning();
+
+    return row ? mapDispatchRow(row) : null;
+  });
+}
+
+export async function listInFlightCloudDispatches(
+  tenantId: string,
+  limit = 50
+): Promise<PrintDispatch[]> {
+  return withTenant(tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(printDispatches)
+      .where(and(
+        eq(printDispatches.tenantId, tenantId),
+        isNotNull(printDispatches.providerId),
+        isNotNull(printDispatches.remoteJobId),
+        inArray(printDispatches.status, [DISPATCH_STATUS.SENT, DISPATCH_STATUS.PRINTING])
+      ))
+      .orderBy(printDispatches.updatedAt)
+      .limit(limit);
+
+    return rows.map(mapDispatchRow);
+  });
+}
+
 export async function markStaleAgentsOffline(): Promise<number> {
   const staleThreshold = new Date(Date.now() - 2 * 60 * 1000);
 
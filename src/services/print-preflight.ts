@@ -0,0 +1,349 @@
+import JsBarcode from "jsbarcode";
+import QRCode from "qrcode";
+
+import type {
+  LabelElement,
+  LabelField,
+  LabelSpec,
+  TextStyle,
+  BarcodeStyle,
+  BarcodeFormat,
+  QRCodeStyle,
+  DataMatrixStyle,
+  PDF417Style,
+  AztecStyle,
+} from "@/types/label-spec";
+import type { PreflightIssue, RenderAssetData, RenderRequest, RenderResult } from "@/types/print";
+import { PREFLIGHT_ISSUE_CODES } from "@/types/print";
+import type { PrinterLanguage } from "@/types/print-agent";
+import { PRINTER_LANGUAGES } from "@/types/print-agent";
+import {
+  applyTextTransform,
+  evaluateCondition,
+  getGS1Elements,
+  resolveFieldValue,
+  toPoints,
+} from "@/lib/print-utils";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { encodeGS1, gtinCheckDigit } from "@/lib/gs1";
+import { MATRIX_BARCODE_LABELS, encodeMatrixBarcode, isMatrixBarcodeType } from "@/lib/matrix-barcode";
+import { isStandardFontFamily, layoutText, measureFontText } from "@/lib/text-layout";
+import { parseFontFile, selectFontFace } from "@/lib/font-file";
+import type { FontFileInfo } from "@/lib/font-file";
+import type { RenderFont } from "@/types/font";
+import { renderLabelsEpl } from "@/services/epl-renderer";
+import { renderLabelsZpl } from "@/services/zpl-renderer";
+
+/**
+ * Digit counts JsBarcode accepts for the GTIN family: without the check
+ * digit (it is computed) or with it (it is verified)
+ */
+const GTIN_FORMATS: Partial<Record<BarcodeFormat, { label: string; length: number }>> = {
+  EAN13: { label: "EAN-13", length: 13 },
+  EAN8: { label: "EAN-8", length: 8 },
+  UPC: { label: "UPC-A", length: 12 },
+  ITF14: { label: "ITF-14", length: 14 },
+};
+
+const QR_LEVELS: QRCodeStyle["errorCorrectionLevel"][] = ["L", "M", "Q", "H"];
+
+// Slack for rounding in rotated corners, in label units
+const BOUNDS_TOLERANCE = 1e-6;
+
+type PreflightRequest = Pick<RenderRequest, "spec" | "assets" | "dates" | "fonts">;
+
+type FieldProblem = Omit<PreflightIssue, "assetId" | "assetTag" | "fieldId">;
+
+interface MeasuredFont extends RenderFont {
+  metrics: FontFileInfo;
+}
+
+/**
+ * Checks every visible field of every asset the way the renderers would
+ * draw it, without rendering. Results for identical symbol payloads are
+ * cached, since many assets often share them.
+ */
+export function preflightLabels(request: PreflightRequest): PreflightIssue[] {
+  const { spec, assets, dates = DEFAULT_DATE_SETTINGS } = request;
+  const fonts: MeasuredFont[] = (request.fonts ?? []).map((font) => ({ ...font, metrics: parseFontFile(font.data) }));
+  const symbolCache = new Map<string, FieldProblem | null>();
+  const layoutProblems = new Map<LabelElement | LabelField, FieldProblem[]>(
+    [...spec.elements, ...spec.fields].map((item) => [item, checkItemLayout(item, spec, fonts)])
+  );
+  const issues: PreflightIssue[] = [];
+
+  for (const asset of assets) {
+    const report = (item: LabelElement | LabelField, problem: FieldProblem) =>
+      issues.push({ assetId: asset.id, assetTag: asset.assetTag, fieldId: item.id, ...problem });
+
+    for (const element of spec.elements) {
+      if (element.visible === false) continue;
+      if (element.condition && !evaluateCondition(element.condition, asset, dates)) continue;
+
+      for (const problem of layoutProblems.get(element) ?? []) report(element, problem);
+    }
+
+    for (const field of spec.fields) {
+      if (field.visible === false) continue;
+      if (field.condition && !evaluateCondition(field.condition, asset, dates)) continue;
+
+      const problem = checkField(field, asset, request, fonts, symbolCache);
+      if (problem) report(field, problem);
+      for (const problem of layoutProblems.get(field) ?? []) report(field, problem);
+    }
+  }
+
+  return issues;
+}
+
+const PRINTER_RENDERERS: Partial<Record<PrinterLanguage, (request: RenderRequest) => Promise<RenderResult>>> = {
+  [PRINTER_LANGUAGES.ZPL]: renderLabelsZpl,
+  [PRINTER_LANGUAGES.EPL]: renderLabelsEpl,
+};
+
+// Printer renderers name what they refuse as "(field id)" or "(element id)"
+const RENDER_ERROR_ITEM = /\((?:field|element) ([^)]+)\)$/;
+
+/**
+ * Renders each asset in a printer language and reports what the renderer
+ * refuses, e.g. rotated shapes, image fields or characters the printer
+ * cannot encode. A renderer stops at its first problem, so this reports
+ * at most one issue per asset, and none where preflightLabels already
+ * reported the same field.
+ */
+export async function preflightPrinterOutput(
+  request: PreflightRequest,
+  language: PrinterLanguage,
+  issues: PreflightIssue[] = []
+): Promise<PreflightIssue[]> {
+  const render = PRINTER_RENDERERS[language];
+  if (!render) return [];
+
+  const results: PreflightIssue[] = [];
+  for (const asset of request.assets) {
+    try {
+      await render({
+        ...request,
+        assets: [asset],
+        options: { format: "custom", outputFormat: "pdf", copies: 1, useSheetLayout: false, dpi: request.spec.dpi },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `${language.toUpperCase()} output failed`;
+      const fieldId = RENDER_ERROR_ITEM.exec(message)?.[1] ?? "";
+      if (issues.some((issue) => issue.assetId === asset.id && issue.fieldId === fieldId)) continue;
+
+      results.push({
+        assetId: asset.id,
+        assetTag: asset.assetTag,
+        fieldId,
+        code: PREFLIGHT_ISSUE_CODES.UNSUPPORTED_OUTPUT,
+        severity: "error",
+        message,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Problems with where an item sits and which font it asks for. They do not
+ * depend on the asset, so they are worked out once per item.
+ */
+function checkItemLayout(item: LabelElement | LabelField, spec: LabelSpec, fonts: MeasuredFont[]): FieldProblem[] {
+  const problems: FieldProblem[] = [];
+  const fontFamily = getItemFontFamily(item);
+
+  if (fontFamily && !isStandardFontFamily(fontFamily) && !fonts.some((font) => font.family === fontFamily)) {
+    problems.push({
+      code: PREFLIGHT_ISSUE_CODES.MISSING_FONT,
+      severity: "warning",
+      message: `Font "${fontFamily}" is not uploaded, so Helvetica is used instead`,
+    });
+  }
+
+  if (!fitsLabel(item, spec.dimensions)) {
+    problems.push({
+      code: PREFLIGHT_ISSUE_CODES.OUT_OF_BOUNDS,
+      severity: "warning",
+      message: "Extends past the edge of the label and will be cut off",
+    });
+  }
+
+  return problems;
+}
+
+function getItemFontFamily(item: LabelElement | LabelField): string | null {
+  if ("source" in item) {
+    return item.type === "text" || item.type === "date" ? (item.style as TextStyle).fontFamily : null;
+  }
+  return item.type === "text" ? item.style.fontFamily ?? "Arial" : null;
+}
+
+/**
+ * Whether every corner of the item, rotated clockwise about its position
+ * like the renderers draw it, lies on the label
+ */
+function fitsLabel(item: LabelElement | LabelField, dimensions: LabelSpec["dimensions"]): boolean {
+  const { x, y } = item.position;
+  const { width, height } = item.size;
+  const radians = ((item.rotation ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  return [[0, 0], [width, 0], [0, height], [width, height]].every(([dx = 0, dy = 0]) => {
+    const cornerX = x + dx * cos - dy * sin;
+    const cornerY = y + dx * sin + dy * cos;
+    return cornerX >= -BOUNDS_TOLERANCE && cornerY >= -BOUNDS_TOLERANCE &&
+      cornerX <= dimensions.width + BOUNDS_TOLERANCE && cornerY <= dimensions.height + BOUNDS_TOLERANCE;
+  });
+}
+
+function checkField(
+  field: LabelField,
+  asset: RenderAssetData,
+  request: PreflightRequest,
+  fonts: MeasuredFont[],
+  symbolCache: Map<string, FieldProblem | null>
+): FieldProblem | null {
+  const value = resolveFieldValue(asset, field, request.dates);
+  const gs1 = field.gs1 ? getGS1Elements(asset, field.gs1) : null;
+  const isSymbol = field.type === "barcode" || field.type === "qrcode" || isMatrixBarcodeType(field.type);
+
+  if (gs1 ? gs1.length === 0 : !value) {
+    if (!isSymbol && !field.required) return null;
+    return {
+      code: PREFLIGHT_ISSUE_CODES.EMPTY_BINDING,
+      severity: "error",
+      message: field.gs1
+        ? "No GS1 element has a value"
+        : `${field.template ? "Template" : `"${field.source}"`} is empty and the field has no fallback`,
+    };
+  }
+
+  if (field.type === "text" || field.type === "date") {
+    return checkText(field, value, request.spec.dimensions.unit, fonts);
+  }
+
+  if (!isSymbol) return null;
+
+  const cacheKey = `${field.type}:${JSON.stringify(field.style)}:${gs1 ? JSON.stringify(gs1) : value}`;
+  if (!symbolCache.has(cacheKey)) {
+    symbolCache.set(cacheKey, checkSymbol(field, value, gs1));
+  }
+  return symbolCache.get(cacheKey) ?? null;
+}
+
+function checkText(
+  field: LabelField,
+  value: string,
+  unit: "mm" | "in",
+  fonts: MeasuredFont[]
+): FieldProblem | null {
+  const style = field.style as TextStyle;
+  const font = selectFontFace(fonts, style.fontFamily, style.fontWeight, style.fontStyle);
+  const text = applyTextTransform(value, style.textTransform);
+  const width = toPoints(field.size.width, unit);
+  const height = toPoints(field.size.height, unit);
+  const layout = font
+    ? layoutText(text, style, width, height, measureFontText(font.metrics))
+    : layoutText(text, style, width, height);
+
+  if (!layout.truncated) return null;
+
+  const mode = style.overflow ?? "wrap";
+  return {
+    code: PREFLIGHT_ISSUE_CODES.TEXT_OVERFLOW,
+    severity: mode === "error" ? "error" : "warning",
+    message: mode === "error"
+      ? "Text does not fit and the field is set to fail the print"
+      : `Text does not fit and will be shortened (${mode})`,
+  };
+}
+
+function checkSymbol(
+  field: LabelField,
+  value: string,
+  gs1: ReturnType<typeof getGS1Elements> | null
+): FieldProblem | null {
+  try {
+    const encoding = gs1 ? encodeGS1(gs1) : null;
+
+    if (field.type === "qrcode") {
+      return checkQRCode(value, field.style as QRCodeStyle);
+    }
+    if (isMatrixBarcodeType(field.type)) {
+      encodeMatrixBarcode(field.type, value, field.style as DataMatrixStyle | PDF417Style | AztecStyle, encoding);
+      return null;
+    }
+    return encoding ? null : checkBarcode(value, field.style as BarcodeStyle);
+  } catch (error) {
+    const label = isMatrixBarcodeType(field.type) ? MATRIX_BARCODE_LABELS[field.type] : "Barcode";
+    return {
+      code: PREFLIGHT_ISSUE_CODES.BARCODE_INVALID,
+      severity: "error",
+      message: error instanceof Error ? `${label}: ${error.message}` : `${label} cannot encode this value`,
+    };
+  }
+}
+
+function checkBarcode(value: string, style: BarcodeStyle): FieldProblem | null {
+  const gtin = GTIN_FORMATS[style.format];
+
+  if (gtin) {
+    if (!/^\d+$/.test(value) || (value.length !== gtin.length && value.length !== gtin.length - 1)) {
+      return {
+        code: PREFLIGHT_ISSUE_CODES.BARCODE_LENGTH,
+        severity: "error",
+        message: `${gtin.label} needs ${gtin.length - 1} or ${gtin.length} digits, got "${value}"`,
+      };
+    }
+
+    const expected = gtinCheckDigit(value.slice(0, gtin.length - 1));
+    if (value.length === gtin.length && Number(value[gtin.length - 1]) !== expected) {
+      return {
+        code: PREFLIGHT_ISSUE_CODES.BARCODE_CHECK_DIGIT,
+        severity: "error",
+        message: `${gtin.label} ${value} has check digit ${value[gtin.length - 1]}, expected ${expected}`,
+      };
+    }
+
+    return null;
+  }
+
+  let valid = true;
+  JsBarcode({}, value, { format: style.format, valid: (result: boolean) => { valid = result; } });
+
+  return valid
+    ? null
+    : {
+        code: PREFLIGHT_ISSUE_CODES.BARCODE_INVALID,
+        severity: "error",
+        message: `${style.format} cannot encode "${value}"`,
+      };
+}
+
+function checkQRCode(value: string, style: QRCodeStyle): FieldProblem | null {
+  if (fitsQRCode(value, style.errorCorrectionLevel)) return null;
+
+  const bytes = new TextEncoder().encode(value).length;
+  const lower = QR_LEVELS.slice(0, QR_LEVELS.indexOf(style.errorCorrectionLevel))
+    .reverse()
+    .find((level) => fitsQRCode(value, level));
+
+  return {
+    code: PREFLIGHT_ISSUE_CODES.QR_CAPACITY,
+    severity: "error",
+    message: `QR payload of ${bytes} bytes is too large for error correction level ${style.errorCorrectionLevel}` +
+      (lower ? `; level ${lower} fits` : ""),
+  };
+}
+
+function fitsQRCode(value: string, level: QRCodeStyle["errorCorrectionLevel"]): boolean {
+  try {
+    QRCode.create(value, { errorCorrectionLevel: level });
+    return true;
+  } catch {
+    return false;
+  }
+}
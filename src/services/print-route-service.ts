@@ -0,0 +1,405 @@
+import { eq, and, asc, inArray } from "drizzle-orm";
+
+import type { Database } from "@/db";
+import { printRoutes, printJobs, printJobItems, assets, printAgents, printAgentPrinters } from "@/db/schema";
+import { withTenant } from "@/lib/tenant";
+import { getFieldValue } from "@/lib/print-utils";
+import { createAuditLog } from "@/services/audit-service";
+import { createDispatch } from "@/services/print-agent-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type {
+  PrintRoute,
+  PrintRouteMatch,
+  PrintRouteDestination,
+  PrintRouteCondition,
+  PrintRouteEvaluation,
+  CreatePrintRouteInput,
+  UpdatePrintRouteInput,
+  TestPrintRoutesInput,
+  TestPrintRoutesResult,
+  PrintRoutingResult,
+} from "@/types/print-route";
+import { ROUTE_CONDITION_OPERATORS } from "@/types/print-route";
+import { AUDIT_ACTIONS } from "@/types/audit";
+
+type RouteAsset = Record<string, unknown>;
+
+interface RouteMatchResult {
+  matched: boolean;
+  reason: string | null;
+}
+
+function mapRouteRow(row: typeof printRoutes.$inferSelect): PrintRoute {
+  const match = (row.match ?? {}) as Partial<PrintRouteMatch>;
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    name: row.name,
+    match: {
+      conditions: match.conditions ?? [],
+      templateIds: match.templateIds,
+    },
+    destination: row.destination as PrintRouteDestination,
+    priority: row.priority,
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+  };
+}
+
+export function evaluateRouteCondition(condition: PrintRouteCondition, asset: RouteAsset): boolean {
+  const fieldValue = getFieldValue(asset, condition.field).trim().toLowerCase();
+  const expected = (condition.value ?? "").trim().toLowerCase();
+
+  switch (condition.operator) {
+    case ROUTE_CONDITION_OPERATORS.EQ:
+      return fieldValue === expected;
+    case ROUTE_CONDITION_OPERATORS.NEQ:
+      return fieldValue !== expected;
+    case ROUTE_CONDITION_OPERATORS.STARTS_WITH:
+      return fieldValue.startsWith(expected);
+    case ROUTE_CONDITION_OPERATORS.ENDS_WITH:
+      return fieldValue.endsWith(expected);
+    case ROUTE_CONDITION_OPERATORS.CONTAINS:
+      return fieldValue.includes(expected);
+    case ROUTE_CONDITION_OPERATORS.IN:
+      return expected.split(",").map((v) => v.trim()).filter(Boolean).includes(fieldValue);
+    case ROUTE_CONDITION_OPERATORS.EMPTY:
+      return fieldValue === "";
+    case ROUTE_CONDITION_OPERATORS.NOT_EMPTY:
+      return fieldValue !== "";
+    default:
+      return false;
+  }
+}
+
+function describeCondition(condition: PrintRouteCondition): string {
+  return condition.value !== undefined
+    ? `${condition.field} ${condition.operator} "${condition.value}"`
+    : `${condition.field} ${condition.operator}`;
+}
+
+function matchRoute(route: PrintRoute, templateId: string | undefined, routeAssets: RouteAsset[]): RouteMatchResult {
+  const templateIds = route.match.templateIds ?? [];
+  if (templateIds.length > 0 && (!templateId || !templateIds.includes(templateId))) {
+    return { matched: false, reason: "Template is not covered by this route" };
+  }
+
+  if (routeAssets.length === 0) {
+    return { matched: false, reason: "No assets to evaluate" };
+  }
+
+  for (const asset of routeAssets) {
+    for (const condition of route.match.conditions) {
+      if (!evaluateRouteCondition(condition, asset)) {
+        const label = getFieldValue(asset, "assetTag") || getFieldValue(asset, "id");
+        return { matched: false, reason: `${label}: ${describeCondition(condition)} not satisfied` };
+      }
+    }
+  }
+
+  return { matched: true, reason: null };
+}
+
+/**
+ * Routes run from the lowest priority number up, oldest first on ties. This is
+ * the opposite of background jobs, where a higher priority runs first.
+ */
+function compareRoutes(a: PrintRoute, b: PrintRoute): number {
+  return a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * Evaluates every route in order for the rule tester; the first active route
+ * whose template and conditions match all assets wins.
+ */
+export function selectRoute(
+  routes: PrintRoute[],
+  templateId: string | undefined,
+  routeAssets: RouteAsset[]
+): TestPrintRoutesResult {
+  let matchedRoute: PrintRoute | null = null;
+  const evaluations: PrintRouteEvaluation[] = [];
+
+  for (const route of [...routes].sort(compareRoutes)) {
+    const result = route.isActive
+      ? matchRoute(route, templateId, routeAssets)
+      : { matched: false, reason: "Route is inactive" };
+
+    evaluations.push({
+      routeId: route.id,
+      name: route.name,
+      priority: route.priority,
+      isActive: route.isActive,
+      matched: result.matched,
+      reason: result.reason,
+    });
+
+    if (result.matched && !matchedRoute) {
+      matchedRoute = route;
+    }
+  }
+
+  return { matchedRoute, evaluations };
+}
+
+export async function listPrintRoutes(ctx: TenantContext): Promise<PrintRoute[]> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const rows = await tx
+      .select()
+      .from(printRoutes)
+      .where(eq(printRoutes.tenantId, ctx.tenantId))
+      .orderBy(asc(printRoutes.priority), asc(printRoutes.createdAt));
+
+    return rows.map(mapRouteRow);
+  });
+}
+
+export async function getPrintRoute(
+  ctx: TenantContext,
+  routeId: string
+): Promise<PrintRoute | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(printRoutes)
+      .where(and(
+        eq(printRoutes.id, routeId),
+        eq(printRoutes.tenantId, ctx.tenantId)
+      ));
+
+    return row ? mapRouteRow(row) : null;
+  });
+}
+
+async function assertAgentExists(
+  tx: Database,
+  tenantId: string,
+  agentId: string
+): Promise<void> {
+  const [agent] = await tx
+    .select({ id: printAgents.id })
+    .from(printAgents)
+    .where(and(
+      eq(printAgents.id, agentId),
+      eq(printAgents.tenantId, tenantId)
+    ));
+
+  if (!agent) {
+    throw new Error("Print agent not found");
+  }
+}
+
+export async function createPrintRoute(
+  ctx: TenantContext,
+  input: CreatePrintRouteInput
+): Promise<PrintRoute> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    await assertAgentExists(tx, ctx.tenantId, input.destination.agentId);
+
+    const [row] = await tx
+      .insert(printRoutes)
+      .values({
+        tenantId: ctx.tenantId,
+        name: input.name,
+        match: input.match,
+        destination: input.destination,
+        priority: input.priority ?? 0,
+        isActive: input.isActive ?? true,
+      })
+      .returning();
+
+    if (!row) {
+      throw new Error("Failed to create print route");
+    }
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.PRINT_ROUTE_CREATED,
+      resourceType: "print_route",
+      resourceId: row.id,
+      details: { name: input.name, destination: input.destination },
+    });
+
+    return mapRouteRow(row);
+  });
+}
+
+export async function updatePrintRoute(
+  ctx: TenantContext,
+  routeId: string,
+  input: UpdatePrintRouteInput
+): Promise<PrintRoute | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    if (input.destination) {
+      await assertAgentExists(tx, ctx.tenantId, input.destination.agentId);
+    }
+
+    const updateData: Partial<typeof printRoutes.$inferInsert> = {};
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.match !== undefined) updateData.match = input.match;
+    if (input.destination !== undefined) updateData.destination = input.destination;
+    if (input.priority !== undefined) updateData.priority = input.priority;
+    if (input.isActive !== undefined) updateData.isActive = input.isActive;
+
+    if (Object.keys(updateData).length === 0) {
+      const [existing] = await tx
+        .select()
+        .from(printRoutes)
+        .where(and(
+          eq(printRoutes.id, routeId),
+          eq(printRoutes.tenantId, ctx.tenantId)
+        ));
+      return existing ? mapRouteRow(existing) : null;
+    }
+
+    const [row] = await tx
+      .update(printRoutes)
+      .set(updateData)
+      .where(and(
+        eq(printRoutes.id, routeId),
+        eq(printRoutes.tenantId, ctx.tenantId)
+      ))
+      .returning();
+
+    if (row) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.PRINT_ROUTE_UPDATED,
+        resourceType: "print_route",
+        resourceId: routeId,
+        details: { ...input },
+      });
+    }
+
+    return row ? mapRouteRow(row) : null;
+  });
+}
+
+export async function deletePrintRoute(
+  ctx: TenantContext,
+  routeId: string
+): Promise<boolean> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .delete(printRoutes)
+      .where(and(
+        eq(printRoutes.id, routeId),
+        eq(printRoutes.tenantId, ctx.tenantId)
+      ))
+      .returning({ id: printRoutes.id });
+
+    if (row) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.PRINT_ROUTE_DELETED,
+        resourceType: "print_route",
+        resourceId: routeId,
+      });
+    }
+
+    return !!row;
+  });
+}
+
+export async function testPrintRoutes(
+  ctx: TenantContext,
+  input: TestPrintRoutesInput
+): Promise<TestPrintRoutesResult> {
+  const routes = await listPrintRoutes(ctx);
+
+  let routeAssets: RouteAsset[] = [];
+  if (input.assetIds && input.assetIds.length > 0) {
+    const assetIds = input.assetIds;
+    routeAssets = await withTenant(ctx.tenantId, async (tx) => {
+      return tx
+        .select()
+        .from(assets)
+        .where(and(
+          eq(assets.tenantId, ctx.tenantId),
+          inArray(assets.id, assetIds)
+        ));
+    });
+  } else if (input.sampleAsset) {
+    routeAssets = [input.sampleAsset];
+  }
+
+  return selectRoute(routes, input.templateId, routeAssets);
+}
+
+/**
+ * Evaluates the tenant's active routes for a print job and queues a dispatch to the
+ * first matching destination. Returns null when no route applies.
+ */
+export async function routePrintJob(
+  ctx: TenantContext,
+  jobId: string
+): Promise<PrintRoutingResult | null> {
+  const routes = (await listPrintRoutes(ctx)).filter((route) => route.isActive);
+  if (routes.length === 0) return null;
+
+  const { templateId, jobAssets } = await withTenant(ctx.tenantId, async (tx) => {
+    const [job] = await tx
+      .select({ templateId: printJobs.templateId })
+      .from(printJobs)
+      .where(and(
+        eq(printJobs.id, jobId),
+        eq(printJobs.tenantId, ctx.tenantId)
+      ));
+
+    if (!job) {
+      throw new Error("Print job not found");
+    }
+
+    const rows = await tx
+      .select({ asset: assets })
+      .from(printJobItems)
+      .innerJoin(assets, eq(assets.id, printJobItems.assetId))
+      .where(eq(printJobItems.jobId, jobId));
+
+    return { templateId: job.templateId, jobAssets: rows.map((row) => row.asset as RouteAsset) };
+  });
+
+  const { matchedRoute } = selectRoute(routes, templateId, jobAssets);
+  if (!matchedRoute) return null;
+
+  const { destination } = matchedRoute;
+  const printerId = destination.printerName
+    ? await withTenant(ctx.tenantId, async (tx) => {
+        const [printer] = await tx
+          .select({ id: printAgentPrinters.id })
+          .from(printAgentPrinters)
+          .where(and(
+            eq(printAgentPrinters.tenantId, ctx.tenantId),
+            eq(printAgentPrinters.agentId, destination.agentId),
+            eq(printAgentPrinters.name, destination.printerName!)
+          ));
+        return printer?.id ?? null;
+      })
+    : null;
+
+  if (destination.printerName && !printerId) {
+    console.warn(
+      `[PRINT_ROUTING] Printer "${destination.printerName}" not registered on agent ${destination.agentId}; using the agent default`
+    );
+  }
+
+  const dispatch = await createDispatch(ctx, {
+    printJobId: jobId,
+    agentId: destination.agentId,
+    printerId,
+    format: destination.format,
+    allowOffline: true,
+  });
+
+  await createAuditLog(ctx, {
+    action: AUDIT_ACTIONS.PRINT_ROUTED,
+    resourceType: "print_job",
+    resourceId: jobId,
+    details: {
+      routeId: matchedRoute.id,
+      routeName: matchedRoute.name,
+      dispatchId: dispatch.id,
+    },
+  });
+
+  return { route: matchedRoute, dispatch };
+}
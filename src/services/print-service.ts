@@ -1,27 +1,52 @@
-import { eq, and, desc, gte, lte, count, inArray } from "drizzle-orm";
+import { eq, and, desc, gte, lte, count, inArray, ne, sql } from "drizzle-orm";
 
 import { db, schema } from "@/db";
-import { printJobs, printJobItems, assets, labelTemplates } from "@/db/schema";
-import { withTenant } from "@/lib/tenant";
+import type { Database } from "@/db";
+import { printJobs, printJobItems, assets, labelTemplates, reservedTags, tagBatches } from "@/db/schema";
+import { getTenantSettings, withTenant } from "@/lib/tenant";
 import { createAuditLog } from "@/services/audit-service";
+import { loadSpecFonts } from "@/services/font-service";
+import { findLabelFormat } from "@/services/label-format-service";
+import { getPrinter } from "@/services/print-agent-service";
 import { renderLabels } from "@/services/label-renderer";
+import { preflightLabels, preflightPrinterOutput } from "@/services/print-preflight";
+import { renderLabelsZpl } from "@/services/zpl-renderer";
+import { renderLabelsEpl } from "@/services/epl-renderer";
+import { renderLabelsPng } from "@/services/png-renderer";
+import { renderLabelsSvg } from "@/services/svg-renderer";
+import { routePrintJob } from "@/services/print-route-service";
+import { createSignedDownload, getStorage, tenantStorageKey } from "@/services/storage-service";
+import { publishEvent, publishEventInTx } from "@/services/webhook-service";
 
-import type { TenantContext } from "@/types/tenant";
+import type { DateFormatSettings, TenantContext } from "@/types/tenant";
 import type { LabelSpec } from "@/types/label-spec";
 import { labelSpecSchema } from "@/lib/validations";
+import { getSheetLayoutForFormat, getSheetStartError } from "@/lib/print-utils";
+import { buildCalibrationSpec } from "@/lib/printer-calibration";
 import type {
   PrintJob,
   PrintJobItem,
   PrintJobStatus,
   PrintOptions,
+  PrintOutputFormat,
   PrintJobFilters,
   PrintJobListResult,
   CreatePrintJobInput,
+  PreflightReport,
   RenderResult,
+  RenderRequest,
   RenderAssetData,
+  RenderTarget,
+  StoredPrintOutput,
 } from "@/types/print";
-import { PRINT_JOB_STATUS } from "@/types/print";
+import type { SignedDownload } from "@/types/storage";
+import { PRINT_JOB_STATUS, PRINT_OUTPUT_FORMAT } from "@/types/print";
+import type { TagBatchValues } from "@/types/tag-batch";
+import { RESERVED_TAG_STATUS } from "@/types/tag-batch";
+import type { PrinterLanguage } from "@/types/print-agent";
+import { PRINT_DELIVERY_METHODS, PRINTER_LANGUAGES } from "@/types/print-agent";
 import { AUDIT_ACTIONS } from "@/types/audit";
+import { WEBHOOK_EVENT_TYPES } from "@/types/webhook";
 
 function mapJobRow(row: typeof printJobs.$inferSelect): PrintJob {
   return {
@@ -37,6 +62,8 @@ function mapJobRow(row: typeof printJobs.$inferSelect): PrintJob {
     errorMessage: row.errorMessage,
     outputUrl: row.outputUrl,
     outputSize: row.outputSize,
+    outputMime: row.outputMime,
+    outputStorageKey: row.outputStorageKey,
     createdBy: row.createdBy,
     createdAt: row.createdAt,
     startedAt: row.startedAt,
@@ -76,9 +103,29 @@ function mapAssetToRenderData(asset: typeof assets.$inferSelect): RenderAssetDat
   };
 }
 
+async function getTenantDateSettings(tenantId: string): Promise<DateFormatSettings> {
+  const { timezone, dateFormat } = await getTenantSettings(tenantId);
+  return { timezone, dateFormat };
+}
+
 export async function createPrintJob(
   ctx: TenantContext,
   input: CreatePrintJobInput
+): Promise<PrintJob> {
+  const job = await insertPrintJob(ctx, input);
+
+  try {
+    await routePrintJob(ctx, job.id);
+  } catch (error) {
+    console.error(`[PRINT_ROUTING] Failed to route print job ${job.id}:`, error);
+  }
+
+  return job;
+}
+
+async function insertPrintJob(
+  ctx: TenantContext,
+  input: CreatePrintJobInput
 ): Promise<PrintJob> {
   return withTenant(ctx.tenantId, async (tx) => {
     const [template] = await tx
@@ -121,6 +168,19 @@ export async function createPrintJob(
       previewOnly: false,
     };
 
+    const sheetLayout = options.useSheetLayout
+      ? getSheetLayoutForFormat(await findLabelFormat(tx, ctx.tenantId, options.format))
+      : null;
+    if (sheetLayout && (input.options?.startPosition || input.options?.skipPositions?.length)) {
+      const { startPosition = 0, skipPositions = [] } = input.options;
+      const error = getSheetStartError(sheetLayout, startPosition, skipPositions);
+      if (error) {
+        throw new Error(error);
+      }
+      options.startPosition = startPosition;
+      options.skipPositions = [...new Set(skipPositions)].sort((a, b) => a - b);
+    }
+
     const [job] = await tx
       .insert(printJobs)
       .values({
@@ -257,6 +317,128 @@ export async function listPrintJobs(
   });
 }
 
+function renderForTarget(request: RenderRequest, target?: RenderTarget): Promise<RenderResult> {
+  if (!target) {
+    switch (request.options.outputFormat) {
+      case PRINT_OUTPUT_FORMAT.PNG:
+        return renderLabelsPng(request);
+      case PRINT_OUTPUT_FORMAT.SVG:
+        return renderLabelsSvg(request);
+      default:
+        return renderLabels(request);
+    }
+  }
+
+  const options: PrintOptions = {
+    ...request.options,
+    dpi: target.dpi ?? request.options.dpi,
+  };
+  const calibration = target.calibration ?? null;
+
+  switch (target.language) {
+    case PRINTER_LANGUAGES.ZPL:
+      return renderLabelsZpl({ ...request, options, calibration });
+    case PRINTER_LANGUAGES.EPL:
+      return renderLabelsEpl({ ...request, options, calibration });
+    case PRINTER_LANGUAGES.PDF:
+      return renderLabels({
+        ...request,
+        options: { ...options, outputFormat: PRINT_OUTPUT_FORMAT.PDF },
+        calibration,
+      });
+    default:
+      throw new Error(`Unsupported printer language: ${target.language}`);
+  }
+}
+
+async function storePrintOutput(
+  tenantId: string,
+  jobId: string,
+  result: RenderResult
+): Promise<string | null> {
+  const key = tenantStorageKey(tenantId, "print-jobs", jobId, result.filename);
+  try {
+    await getStorage().put(key, result.buffer, result.mimeType);
+    return key;
+  } catch (error) {
+    console.error(`[STORAGE] Failed to persist output for print job ${jobId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Loads everything needed to render a print job: its template, fonts and
+ * assets in print order.
+ */
+async function loadPrintJobRequest(
+  tx: Database,
+  ctx: TenantContext,
+  job: typeof printJobs.$inferSelect
+): Promise<RenderRequest> {
+  const [template] = await tx
+    .select()
+    .from(labelTemplates)
+    .where(and(
+      eq(labelTemplates.id, job.templateId),
+      eq(labelTemplates.tenantId, ctx.tenantId)
+    ));
+
+  if (!template) {
+    throw new Error("Template not found");
+  }
+
+  const items = await tx
+    .select()
+    .from(printJobItems)
+    .where(eq(printJobItems.jobId, job.id))
+    .orderBy(printJobItems.sequence);
+
+  const assetIds = items.map((item) => item.assetId);
+
+  if (assetIds.length === 0) {
+    throw new Error("No assets in print job");
+  }
+  
+  const assetRows = await tx
+    .select()
+    .from(assets)
+    .where(and(
+      eq(assets.tenantId, ctx.tenantId),
+      inArray(assets.id, assetIds)
+    ));
+
+  const assetMap = new Map(assetRows.map((a) => [a.id, a]));
+  const orderedAssets: RenderAssetData[] = [];
+
+  for (const assetId of assetIds) {
+    const asset = assetMap.get(assetId);
+    if (asset) {
+      orderedAssets.push(mapAssetToRenderData(asset));
+    }
+  }
+
+  const specResult = labelSpecSchema.safeParse(template.spec);
+  if (!specResult.success) {
+    throw new Error(`Invalid template spec: ${specResult.error.message}`);
+  }
+  
+  const spec = specResult.data as LabelSpec;
+  const options = job.options as PrintOptions;
+
+  return {
+    spec,
+    assets: orderedAssets,
+    options,
+    dates: await getTenantDateSettings(ctx.tenantId),
+    fonts: await loadSpecFonts(tx, ctx.tenantId, spec),
+    labelFormat: options.useSheetLayout ? await findLabelFormat(tx, ctx.tenantId, options.format) : null,
+  };
+}
+
+/**
+ * Renders a print job as its own output (PDF, PNG or SVG), stores it and
+ * marks the job completed.
+ */
 export async function renderPrintJob(
   ctx: TenantContext,
   jobId: string
@@ -274,18 +456,6 @@ export async function renderPrintJob(
       throw new Error("Print job not found");
     }
 
-    const [template] = await tx
-      .select()
-      .from(labelTemplates)
-      .where(and(
-        eq(labelTemplates.id, job.templateId),
-        eq(labelTemplates.tenantId, ctx.tenantId)
-      ));
-
-    if (!template) {
-      throw new Error("Template not found");
-    }
-
     await tx
       .update(printJobs)
       .set({
@@ -294,55 +464,19 @@ export async function renderPrintJob(
       })
       .where(eq(printJobs.id, jobId));
 
-    const items = await tx
-      .select()
-      .from(printJobItems)
-      .where(eq(printJobItems.jobId, jobId))
-      .orderBy(printJobItems.sequence);
-
-    const assetIds = items.map((item) => item.assetId);
-
-    if (assetIds.length === 0) {
-      throw new Error("No assets in print job");
-    }
-    
-    const assetRows = await tx
-      .select()
-      .from(assets)
-      .where(and(
-        eq(assets.tenantId, ctx.tenantId),
-        inArray(assets.id, assetIds)
-      ));
-
-    const assetMap = new Map(assetRows.map((a) => [a.id, a]));
-    const orderedAssets: RenderAssetData[] = [];
-
-    for (const assetId of assetIds) {
-      const asset = assetMap.get(assetId);
-      if (asset) {
-        orderedAssets.push(mapAssetToRenderData(asset));
-      }
-    }
+    let cancelledDuringRender = false;
 
     try {
-      const specResult = labelSpecSchema.safeParse(template.spec);
-      if (!specResult.success) {
-        throw new Error(`Invalid template spec: ${specResult.error.message}`);
-      }
-      
-      const result = await renderLabels({
-        spec: specResult.data as LabelSpec,
-        assets: orderedAssets,
-        options: job.options as PrintOptions,
-      });
+      const request = await loadPrintJobRequest(tx, ctx, job);
+      const result = await renderForTarget(request);
 
       const [jobStatusAfterRender] = await tx
         .select({ status: printJobs.status })
         .from(printJobs)
         .where(eq(printJobs.id, jobId));
 
-      const wasCancelledDuringRender = jobStatusAfterRender?.status === PRINT_JOB_STATUS.CANCELLED;
-      if (wasCancelledDuringRender) {
+      cancelledDuringRender = jobStatusAfterRender?.status === PRINT_JOB_STATUS.CANCELLED;
+      if (cancelledDuringRender) {
         await createAuditLog(ctx, {
           action: AUDIT_ACTIONS.PRINT_JOB_CANCELLED,
           resourceType: "print_job",
@@ -352,13 +486,22 @@ export async function renderPrintJob(
         throw new Error("Print job was cancelled during rendering");
       }
 
+      const storageKey = await storePrintOutput(ctx.tenantId, jobId, result);
+
       await tx
         .update(printJobs)
         .set({
           status: PRINT_JOB_STATUS.COMPLETED,
-          completedCount: orderedAssets.length,
+          completedCount: request.assets.length,
           outputSize: result.buffer.length,
           completedAt: new Date(),
+          ...(storageKey
+            ? {
+                outputUrl: `/api/print/jobs/${jobId}/output`,
+                outputMime: result.mimeType,
+                outputStorageKey: storageKey,
+              }
+            : {}),
         })
         .where(eq(printJobs.id, jobId));
 
@@ -376,8 +519,21 @@ export async function renderPrintJob(
         resourceId: jobId,
         details: {
           pageCount: result.pageCount,
-          assetCount: orderedAssets.length,
+          assetCount: request.assets.length,
           fileSize: result.buffer.length,
+          ...(result.textOverflow?.length ? { textOverflow: result.textOverflow } : {}),
+        },
+      });
+
+      await publishEventInTx(tx, ctx.tenantId, {
+        type: WEBHOOK_EVENT_TYPES.PRINT_COMPLETED,
+        resourceId: jobId,
+        data: {
+          printJobId: jobId,
+          templateId: job.templateId,
+          deliveryMethod: PRINT_DELIVERY_METHODS.PDF,
+          itemCount: request.assets.length,
+          pageCount: result.pageCount,
         },
       });
 
@@ -402,11 +558,114 @@ export async function renderPrintJob(
         details: { error: errorMessage },
       });
 
+      if (!cancelledDuringRender) {
+        await publishEvent(ctx, {
+          type: WEBHOOK_EVENT_TYPES.PRINT_FAILED,
+          resourceId: jobId,
+          data: {
+            printJobId: jobId,
+            templateId: job.templateId,
+            deliveryMethod: PRINT_DELIVERY_METHODS.PDF,
+            error: errorMessage,
+          },
+        });
+      }
+
       throw error;
     }
   });
 }
 
+/**
+ * Renders a print job in a printer language for an agent or cloud dispatch.
+ * Nothing is written: the job's status follows the printer's reports (see
+ * markPrintJobDispatched and finishDispatchedPrintJob), and its stored
+ * output from an earlier render is left as it is.
+ */
+export async function renderPrintJobForDispatch(
+  ctx: TenantContext,
+  jobId: string,
+  target: RenderTarget
+): Promise<RenderResult> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [job] = await tx
+      .select()
+      .from(printJobs)
+      .where(and(
+        eq(printJobs.id, jobId),
+        eq(printJobs.tenantId, ctx.tenantId)
+      ));
+
+    if (!job) {
+      throw new Error("Print job not found");
+    }
+    if (job.status === PRINT_JOB_STATUS.CANCELLED) {
+      throw new Error("Print job was cancelled");
+    }
+
+    return renderForTarget(await loadPrintJobRequest(tx, ctx, job), target);
+  });
+}
+
+/**
+ * Marks a print job as processing once its output was handed to a printer.
+ * Returns false when the job was cancelled meanwhile.
+ */
+export async function markPrintJobDispatched(tenantId: string, jobId: string): Promise<boolean> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(printJobs)
+      .set({
+        status: PRINT_JOB_STATUS.PROCESSING,
+        errorMessage: null,
+        startedAt: new Date(),
+        completedAt: null,
+      })
+      .where(and(
+        eq(printJobs.id, jobId),
+        eq(printJobs.tenantId, tenantId),
+        ne(printJobs.status, PRINT_JOB_STATUS.CANCELLED)
+      ))
+      .returning({ id: printJobs.id });
+
+    return !!row;
+  });
+}
+
+/**
+ * Records the final status a printer reported for a dispatched job: completed,
+ * or failed when an error is given. Returns the job's template and item count,
+ * or null when the job was cancelled or already finished.
+ */
+export async function finishDispatchedPrintJob(
+  tenantId: string,
+  jobId: string,
+  error?: string
+): Promise<{ templateId: string; itemCount: number } | null> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .update(printJobs)
+      .set(error
+        ? { status: PRINT_JOB_STATUS.FAILED, errorMessage: error, completedAt: new Date() }
+        : { status: PRINT_JOB_STATUS.COMPLETED, completedCount: sql`${printJobs.itemCount}`, completedAt: new Date() })
+      .where(and(
+        eq(printJobs.id, jobId),
+        eq(printJobs.tenantId, tenantId),
+        inArray(printJobs.status, [PRINT_JOB_STATUS.PENDING, PRINT_JOB_STATUS.PROCESSING])
+      ))
+      .returning({ templateId: printJobs.templateId, itemCount: printJobs.itemCount });
+
+    if (row && !error) {
+      await tx
+        .update(printJobItems)
+        .set({ status: PRINT_JOB_STATUS.COMPLETED, processedAt: new Date() })
+        .where(eq(printJobItems.jobId, jobId));
+    }
+
+    return row ?? null;
+  });
+}
+
 export async function cancelPrintJob(
   ctx: TenantContext,
   jobId: string
@@ -461,7 +720,8 @@ export async function cancelPrintJob(
 export async function renderPreview(
   ctx: TenantContext,
   templateId: string,
-  assetId: string
+  assetId: string,
+  outputFormat: PrintOutputFormat = PRINT_OUTPUT_FORMAT.PDF
 ): Promise<RenderResult> {
   return withTenant(ctx.tenantId, async (tx) => {
     const [template] = await tx
@@ -493,12 +753,15 @@ export async function renderPreview(
       throw new Error(`Invalid template spec: ${specResult.error.message}`);
     }
 
-    return renderLabels({
-      spec: specResult.data as LabelSpec,
+    const spec = specResult.data as LabelSpec;
+    return renderForTarget({
+      spec,
       assets: [mapAssetToRenderData(asset)],
+      dates: await getTenantDateSettings(ctx.tenantId),
+      fonts: await loadSpecFonts(tx, ctx.tenantId, spec),
       options: {
         format: template.format as PrintOptions["format"],
-        outputFormat: "pdf",
+        outputFormat,
         copies: 1,
         useSheetLayout: false,
         dpi: 150,
@@ -507,3 +770,269 @@ export async function renderPreview(
     });
   });
 }
+
+/**
+ * Checks a template against assets before a job is created: invalid
+ * barcode data, empty required fields, text that would not fit and QR
+ * payloads too large for their error correction level, per asset and
+ * field. With a printer language, also what that printer cannot draw.
+ * Assets that are not found are left out of the report.
+ */
+export async function preflightPrintJob(
+  ctx: TenantContext,
+  templateId: string,
+  assetIds: string[],
+  language?: PrinterLanguage
+): Promise<PreflightReport> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [template] = await tx
+      .select()
+      .from(labelTemplates)
+      .where(and(
+        eq(labelTemplates.id, templateId),
+        eq(labelTemplates.tenantId, ctx.tenantId)
+      ));
+
+    if (!template) {
+      throw new Error("Template not found");
+    }
+
+    const specResult = labelSpecSchema.safeParse(template.spec);
+    if (!specResult.success) {
+      throw new Error(`Invalid template spec: ${specResult.error.message}`);
+    }
+
+    const assetRows = await tx
+      .select()
+      .from(assets)
+      .where(and(
+        eq(assets.tenantId, ctx.tenantId),
+        inArray(assets.id, assetIds)
+      ));
+
+    const assetMap = new Map(assetRows.map((a) => [a.id, a]));
+    const orderedAssets = assetIds.flatMap((id) => {
+      const asset = assetMap.get(id);
+      return asset ? [mapAssetToRenderData(asset)] : [];
+    });
+
+    const spec = specResult.data as LabelSpec;
+    const request = {
+      spec,
+      assets: orderedAssets,
+      dates: await getTenantDateSettings(ctx.tenantId),
+      fonts: await loadSpecFonts(tx, ctx.tenantId, spec),
+    };
+    const issues = preflightLabels(request);
+    if (language) {
+      issues.push(...(await preflightPrinterOutput(request, language, issues)));
+    }
+
+    return {
+      templateId,
+      assetCount: orderedAssets.length,
+      issues,
+      blockedAssetIds: [...new Set(
+        issues.filter((issue) => issue.severity === "error").map((issue) => issue.assetId)
+      )],
+    };
+  });
+}
+
+/**
+ * Renders a calibration test page for a printer, sized to a tenant label
+ * format and corrected by the printer's current calibration, so what is
+ * left to measure is the remaining error. Sheet formats print a full
+ * sheet when rendered as PDF. Null when the printer does not exist.
+ */
+export async function renderCalibrationPage(
+  ctx: TenantContext,
+  printerId: string,
+  input: { formatKey: string; language?: PrinterLanguage }
+): Promise<RenderResult | null> {
+  const printer = await getPrinter(ctx.tenantId, printerId);
+  if (!printer) {
+    return null;
+  }
+
+  const language = input.language ?? printer.languages[0] ?? PRINTER_LANGUAGES.PDF;
+  if (!printer.languages.includes(language)) {
+    throw new Error(`Printer does not support ${language.toUpperCase()}`);
+  }
+
+  const format = await withTenant(ctx.tenantId, (tx) => findLabelFormat(tx, ctx.tenantId, input.formatKey));
+  if (!format) {
+    throw new Error("Label format not found");
+  }
+
+  const sheetLayout = language === PRINTER_LANGUAGES.PDF ? getSheetLayoutForFormat(format) : null;
+  const spec = buildCalibrationSpec(
+    { width: format.width, height: format.height, unit: format.unit },
+    printer.calibration
+  );
+  const asset: RenderAssetData = {
+    id: "calibration",
+    assetTag: "CALIBRATION",
+    serialNumber: "",
+    manufacturer: "",
+    model: "",
+    category: "",
+    type: "",
+    location: "",
+    department: null,
+    assignedTo: null,
+    status: "",
+    purchaseDate: null,
+    warrantyExpiry: null,
+    customFields: {},
+  };
+
+  return renderForTarget({
+    spec,
+    assets: Array.from({ length: sheetLayout?.labelsPerSheet ?? 1 }, () => asset),
+    options: {
+      format: format.key,
+      outputFormat: PRINT_OUTPUT_FORMAT.PDF,
+      copies: 1,
+      useSheetLayout: sheetLayout !== null,
+      dpi: printer.dpi ?? spec.dpi,
+      previewOnly: false,
+    },
+    labelFormat: format,
+  }, { language, dpi: printer.dpi, calibration: printer.calibration });
+}
+
+/**
+ * Renders the unclaimed tags of a tag batch for pre-printing. Each label
+ * gets a placeholder asset carrying only the tag and the batch's category,
+ * location, department and custom fields; other fields print empty.
+ */
+export async function renderTagBatch(
+  ctx: TenantContext,
+  batchId: string,
+  input: { templateId: string; useSheetLayout: boolean }
+): Promise<RenderResult> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [batch] = await tx
+      .select()
+      .from(tagBatches)
+      .where(and(
+        eq(tagBatches.id, batchId),
+        eq(tagBatches.tenantId, ctx.tenantId)
+      ));
+
+    if (!batch) {
+      throw new Error("Tag batch not found");
+    }
+
+    const [template] = await tx
+      .select()
+      .from(labelTemplates)
+      .where(and(
+        eq(labelTemplates.id, input.templateId),
+        eq(labelTemplates.tenantId, ctx.tenantId)
+      ));
+
+    if (!template) {
+      throw new Error("Template not found");
+    }
+
+    const tags = await tx
+      .select({ id: reservedTags.id, tag: reservedTags.tag })
+      .from(reservedTags)
+      .where(and(
+        eq(reservedTags.batchId, batchId),
+        eq(reservedTags.status, RESERVED_TAG_STATUS.RESERVED)
+      ))
+      .orderBy(reservedTags.createdAt, reservedTags.tag);
+
+    if (tags.length === 0) {
+      throw new Error("No unclaimed tags in batch");
+    }
+
+    const specResult = labelSpecSchema.safeParse(template.spec);
+    if (!specResult.success) {
+      throw new Error(`Invalid template spec: ${specResult.error.message}`);
+    }
+
+    const spec = specResult.data as LabelSpec;
+    const values = batch.values as TagBatchValues;
+    const labelFormat = await findLabelFormat(tx, ctx.tenantId, template.format);
+
+    return renderLabels({
+      spec,
+      assets: tags.map((tag): RenderAssetData => ({
+        id: tag.id,
+        assetTag: tag.tag,
+        serialNumber: "",
+        manufacturer: "",
+        model: "",
+        category: batch.category,
+        type: "",
+        location: values.location ?? "",
+        department: values.department ?? null,
+        assignedTo: null,
+        status: "",
+        purchaseDate: null,
+        warrantyExpiry: null,
+        customFields: values.customFields ?? {},
+      })),
+      dates: await getTenantDateSettings(ctx.tenantId),
+      fonts: await loadSpecFonts(tx, ctx.tenantId, spec),
+      options: {
+        format: template.format as PrintOptions["format"],
+        outputFormat: PRINT_OUTPUT_FORMAT.PDF,
+        copies: 1,
+        useSheetLayout: input.useSheetLayout && getSheetLayoutForFormat(labelFormat) !== null,
+        dpi: spec.dpi,
+        previewOnly: false,
+      },
+      labelFormat,
+    });
+  });
+}
+
+/**
+ * Loads the stored output of a completed print job so reprints are served
+ * without re-rendering. Returns null when nothing usable is stored.
+ */
+export async function getStoredPrintOutput(
+  ctx: TenantContext,
+  jobId: string
+): Promise<StoredPrintOutput | null> {
+  const job = await getPrintJob(ctx, jobId);
+  if (!job || job.status !== PRINT_JOB_STATUS.COMPLETED || !job.outputStorageKey) {
+    return null;
+  }
+
+  const buffer = await getStorage().get(job.outputStorageKey).catch((error) => {
+    console.error(`[STORAGE] Failed to load output for print job ${jobId}:`, error);
+    return null;
+  });
+  if (!buffer) return null;
+
+  return {
+    buffer,
+    mimeType: job.outputMime ?? "application/octet-stream",
+    filename: job.outputStorageKey.split("/").pop() ?? `print-job-${jobId}`,
+  };
+}
+
+export async function getPrintJobDownload(
+  ctx: TenantContext,
+  jobId: string
+): Promise<SignedDownload | null> {
+  const job = await getPrintJob(ctx, jobId);
+  if (!job) {
+    throw new Error("Print job not found");
+  }
+
+  if (job.status !== PRINT_JOB_STATUS.COMPLETED || !job.outputStorageKey) {
+    return null;
+  }
+
+  return createSignedDownload(job.outputStorageKey, {
+    filename: job.outputStorageKey.split("/").pop(),
+    contentType: job.outputMime ?? undefined,
+  });
+}
@@ -0,0 +1,54 @@
+import { S3Client } from "bun";
+
+import type { S3StorageConfig, StorageDriver } from "@/types/storage";
+import { STORAGE_DRIVERS } from "@/types/storage";
+
+function contentDisposition(filename: string): string {
+  return `attachment; filename="${filename.replace(/["\\\r\n]/g, "_")}"`;
+}
+
+/**
+ * Storage driver for S3 and S3-compatible services (MinIO, R2, Spaces).
+ * Downloads are served straight from the bucket through presigned URLs.
+ */
+export function createS3StorageDriver(config: S3StorageConfig): StorageDriver {
+  const client = new S3Client({
+    bucket: config.bucket,
+    region: config.region,
+    endpoint: config.endpoint,
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+  });
+
+  return {
+    type: STORAGE_DRIVERS.S3,
+
+    async put(key, data, contentType) {
+      await client.write(key, data, { type: contentType });
+      return { key, size: data.length, contentType };
+    },
+
+    async get(key) {
+      const file = client.file(key);
+      if (!(await file.exists())) return null;
+      return Buffer.from(await file.arrayBuffer());
+    },
+
+    async exists(key) {
+      return client.exists(key);
+    },
+
+    async delete(key) {
+      await client.delete(key);
+    },
+
+    async getSignedUrl(key, options) {
+      return client.presign(key, {
+        method: "GET",
+        expiresIn: options.expiresInSeconds,
+        type: options.contentType,
+        contentDisposition: options.filename ? contentDisposition(options.filename) : undefined,
+      });
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { createLocalStorageDriver, type LocalStorageDriver } from "@/services/local-storage-driver";
+import { createS3StorageDriver } from "@/services/s3-storage-driver";
+
+import type { SignedDownload, StorageDriver } from "@/types/storage";
+import { STORAGE_DRIVERS } from "@/types/storage";
+
+export const STORAGE_DOWNLOAD_PATH = "/api/storage/download";
+
+const DEFAULT_LOCAL_ROOT = "./storage";
+const DEFAULT_URL_TTL_SECONDS = 15 * 60;
+const MIN_SECRET_LENGTH = 32;
+
+let driver: StorageDriver | null = null;
+
+function getSigningSecret(): string {
+  if (process.env.NODE_ENV === "test") {
+    return "test-storage-signing-secret-32-chars!";
+  }
+
+  const secret = process.env.STORAGE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("STORAGE_SIGNING_SECRET environment variable is required for local storage");
+  }
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`STORAGE_SIGNING_SECRET must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return secret;
+}
+
+function createDriverFromEnv(): StorageDriver {
+  const type = process.env.STORAGE_DRIVER ?? STORAGE_DRIVERS.LOCAL;
+
+  switch (type) {
+    case STORAGE_DRIVERS.LOCAL:
+      return createLocalStorageDriver({
+        rootDir: process.env.STORAGE_LOCAL_PATH ?? DEFAULT_LOCAL_ROOT,
+        signingSecret: getSigningSecret(),
+        downloadPath: STORAGE_DOWNLOAD_PATH,
+      });
+
+    case STORAGE_DRIVERS.S3: {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error("S3_BUCKET environment variable is required for S3 storage");
+      }
+      return createS3StorageDriver({
+        bucket,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    }
+
+    default:
+      throw new Error(`Unsupported storage driver: ${type}`);
+  }
+}
+
+export function getStorage(): StorageDriver {
+  if (!driver) {
+    driver = createDriverFromEnv();
+  }
+  return driver;
+}
+
+/**
+ * Returns the local driver when it is the active backend. Only local storage
+ * needs the app to serve signed downloads itself.
+ */
+export function getLocalStorage(): LocalStorageDriver | null {
+  const storage = getStorage();
+  return storage.type === STORAGE_DRIVERS.LOCAL ? (storage as LocalStorageDriver) : null;
+}
+
+function sanitizeSegment(segment: string): string {
+  const cleaned = segment.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[.-]+/, "");
+  return cleaned || "file";
+}
+
+export function tenantStorageKey(tenantId: string, ...segments: string[]): string {
+  return ["tenants", tenantId, ...segments].map(sanitizeSegment).join("/");
+}
+
+export async function createSignedDownload(
+  key: string,
+  options: { filename?: string; contentType?: string } = {}
+): Promise<SignedDownload> {
+  const expiresInSeconds = Number(process.env.STORAGE_URL_TTL_SECONDS) || DEFAULT_URL_TTL_SECONDS;
+  const url = await getStorage().getSignedUrl(key, { ...options, expiresInSeconds });
+
+  return {
+    url,
+    expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+  };
+}
@@ -0,0 +1,72 @@
+import { zipSync } from "fflate";
+
+import type { TextStyle } from "@/types/label-spec";
+import { FONT_MIME_TYPES } from "@/types/font";
+import type { RenderResult, RenderRequest, TextOverflowReport } from "@/types/print";
+import { generatePrintFilename, sanitizeFilename } from "@/lib/print-utils";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { createLayoutCache, layoutLabel } from "@/lib/label-layout";
+import { renderSvgDocument } from "@/lib/label-svg";
+import type { SvgFontFace } from "@/lib/label-svg";
+import { assertTextFits, reportTextOverflow } from "@/lib/text-layout";
+import { parseFontFile } from "@/lib/font-file";
+
+const SVG_MIME_TYPE = "image/svg+xml";
+
+/**
+ * Renders one standalone SVG per asset, zipped when there is more than one.
+ * Copies, sheet layout and printer calibration do not apply to vector files.
+ */
+export async function renderLabelsSvg(request: RenderRequest): Promise<RenderResult> {
+  const { spec, assets, dates = DEFAULT_DATE_SETTINGS } = request;
+  const renderFonts = request.fonts ?? [];
+  const fonts = renderFonts.map((font) => ({ ...font, metrics: parseFontFile(font.data) }));
+  const fontFaces: SvgFontFace[] = renderFonts.map((font) => ({
+    id: font.id,
+    family: font.family,
+    weight: font.weight,
+    style: font.style,
+    src: `data:${FONT_MIME_TYPES[font.format]};base64,${Buffer.from(font.data).toString("base64")}`,
+  }));
+  const cache = createLayoutCache();
+
+  const textOverflow: TextOverflowReport[] = [];
+  const files: Array<{ name: string; data: Buffer }> = [];
+  for (const asset of assets) {
+    const layout = layoutLabel(spec, asset, { dates, fonts, cache });
+
+    for (const overflow of layout.overflow) {
+      assertTextFits(overflow.layout, overflow.field.style as TextStyle, overflow.field.id);
+      reportTextOverflow(textOverflow, asset.id, overflow.field);
+    }
+
+    const index = String(files.length + 1).padStart(3, "0");
+    files.push({
+      name: `${index}_${sanitizeFilename(asset.assetTag || asset.id)}.svg`,
+      data: Buffer.from(renderSvgDocument(layout, spec.dimensions, fontFaces)),
+    });
+  }
+
+  if (files.length === 1) {
+    return {
+      buffer: files[0]!.data,
+      mimeType: SVG_MIME_TYPE,
+      filename: generatePrintFilename(spec.name, 1, "svg"),
+      pageCount: 1,
+      textOverflow,
+    };
+  }
+
+  const entries: Record<string, Uint8Array> = {};
+  for (const file of files) {
+    entries[file.name] = new Uint8Array(file.data);
+  }
+
+  return {
+    buffer: Buffer.from(zipSync(entries)),
+    mimeType: "application/zip",
+    filename: generatePrintFilename(spec.name, files.length, "zip"),
+    pageCount: files.length,
+    textOverflow,
+  };
+}
@@ -0,0 +1,287 @@
+import { eq, and, desc, count, inArray } from "drizzle-orm";
+
+import type { Database } from "@/db";
+import { reservedTags, tagBatches } from "@/db/schema";
+import { getTenantSettings, withTenant } from "@/lib/tenant";
+import { reserveAssetTags } from "@/services/asset-tag-service";
+import { createAuditLog } from "@/services/audit-service";
+
+import type { TenantContext } from "@/types/tenant";
+import type { EquipmentCategory } from "@/types/asset";
+import type {
+  CreateTagBatchInput,
+  ReservedTag,
+  ReservedTagLookup,
+  ReservedTagStatus,
+  TagBatch,
+  TagBatchDetail,
+  TagBatchValues,
+} from "@/types/tag-batch";
+import { RESERVED_TAG_STATUS } from "@/types/tag-batch";
+import { AUDIT_ACTIONS } from "@/types/audit";
+
+export const MAX_TAG_BATCH_SIZE = 1000;
+
+function mapReservedTagRow(row: typeof reservedTags.$inferSelect): ReservedTag {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    batchId: row.batchId,
+    tag: row.tag,
+    status: row.status as ReservedTagStatus,
+    assetId: row.assetId,
+    claimedAt: row.claimedAt,
+    voidedAt: row.voidedAt,
+    createdAt: row.createdAt,
+  };
+}
+
+function mapBatchRow(
+  row: typeof tagBatches.$inferSelect,
+  counts: Record<ReservedTagStatus, number>
+): TagBatch {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    name: row.name,
+    category: row.category as EquipmentCategory,
+    pattern: row.pattern,
+    quantity: row.quantity,
+    values: row.values as TagBatchValues,
+    counts,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+  };
+}
+
+async function countTagsByBatch(
+  tx: Database,
+  batchIds: string[]
+): Promise<Map<string, Record<ReservedTagStatus, number>>> {
+  const counts = new Map<string, Record<ReservedTagStatus, number>>();
+  if (batchIds.length === 0) {
+    return counts;
+  }
+
+  const rows = await tx
+    .select({ batchId: reservedTags.batchId, status: reservedTags.status, count: count() })
+    .from(reservedTags)
+    .where(inArray(reservedTags.batchId, batchIds))
+    .groupBy(reservedTags.batchId, reservedTags.status);
+
+  for (const row of rows) {
+    const batchCounts = counts.get(row.batchId) ?? { reserved: 0, claimed: 0, voided: 0 };
+    batchCounts[row.status as ReservedTagStatus] = row.count;
+    counts.set(row.batchId, batchCounts);
+  }
+
+  return counts;
+}
+
+export async function listTagBatches(
+  ctx: TenantContext,
+  page = 1,
+  pageSize = 20
+): Promise<{ batches: TagBatch[]; total: number }> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [countResult] = await tx
+      .select({ count: count() })
+      .from(tagBatches)
+      .where(eq(tagBatches.tenantId, ctx.tenantId));
+
+    const rows = await tx
+      .select()
+      .from(tagBatches)
+      .where(eq(tagBatches.tenantId, ctx.tenantId))
+      .orderBy(desc(tagBatches.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    const counts = await countTagsByBatch(tx, rows.map((row) => row.id));
+    const empty = { reserved: 0, claimed: 0, voided: 0 };
+
+    return {
+      batches: rows.map((row) => mapBatchRow(row, counts.get(row.id) ?? empty)),
+      total: countResult?.count ?? 0,
+    };
+  });
+}
+
+export async function getTagBatch(ctx: TenantContext, batchId: string): Promise<TagBatchDetail | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(tagBatches)
+      .where(and(eq(tagBatches.id, batchId), eq(tagBatches.tenantId, ctx.tenantId)));
+
+    if (!row) {
+      return null;
+    }
+
+    const tags = await tx
+      .select()
+      .from(reservedTags)
+      .where(eq(reservedTags.batchId, batchId))
+      .orderBy(reservedTags.createdAt, reservedTags.tag);
+
+    const counts = await countTagsByBatch(tx, [batchId]);
+
+    return {
+      ...mapBatchRow(row, counts.get(batchId) ?? { reserved: 0, claimed: 0, voided: 0 }),
+      tags: tags.map(mapReservedTagRow),
+    };
+  });
+}
+
+/**
+ * Reserves the next `quantity` tags of the category's pattern. The tags
+ * are taken from the same counter new assets use, so they are never
+ * generated again.
+ */
+export async function createTagBatch(ctx: TenantContext, input: CreateTagBatchInput): Promise<TagBatchDetail> {
+  const { timezone } = await getTenantSettings(ctx.tenantId);
+  const values = input.values ?? {};
+
+  const batchId = await withTenant(ctx.tenantId, async (tx) => {
+    const { pattern, tags } = await reserveAssetTags(
+      tx,
+      ctx.tenantId,
+      { ...values, category: input.category },
+      timezone,
+      input.quantity
+    );
+
+    const [batch] = await tx
+      .insert(tagBatches)
+      .values({
+        tenantId: ctx.tenantId,
+        name: input.name?.trim() || `${tags[0]} – ${tags[tags.length - 1]}`,
+        category: input.category,
+        pattern,
+        quantity: tags.length,
+        values,
+        createdBy: ctx.userId,
+      })
+      .returning();
+
+    if (!batch) {
+      throw new Error("Failed to create tag batch");
+    }
+
+    await tx.insert(reservedTags).values(
+      tags.map((tag) => ({ tenantId: ctx.tenantId, batchId: batch.id, tag }))
+    );
+
+    await createAuditLog(ctx, {
+      action: AUDIT_ACTIONS.TAG_BATCH_CREATED,
+      resourceType: "tag_batch",
+      resourceId: batch.id,
+      details: { category: input.category, quantity: tags.length, first: tags[0], last: tags[tags.length - 1] },
+    });
+
+    return batch.id;
+  });
+
+  const batch = await getTagBatch(ctx, batchId);
+  if (!batch) {
+    throw new Error("Failed to create tag batch");
+  }
+  return batch;
+}
+
+/**
+ * Voids unclaimed tags of a batch, all of them when `tagIds` is omitted.
+ * Voided tags can no longer be claimed. Returns null when the batch does
+ * not exist.
+ */
+export async function voidReservedTags(
+  ctx: TenantContext,
+  batchId: string,
+  tagIds?: string[]
+): Promise<number | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [batch] = await tx
+      .select({ id: tagBatches.id })
+      .from(tagBatches)
+      .where(and(eq(tagBatches.id, batchId), eq(tagBatches.tenantId, ctx.tenantId)));
+
+    if (!batch) {
+      return null;
+    }
+
+    const voided = await tx
+      .update(reservedTags)
+      .set({ status: RESERVED_TAG_STATUS.VOIDED, voidedAt: new Date() })
+      .where(and(
+        eq(reservedTags.batchId, batchId),
+        eq(reservedTags.status, RESERVED_TAG_STATUS.RESERVED),
+        ...(tagIds ? [inArray(reservedTags.id, tagIds)] : [])
+      ))
+      .returning({ id: reservedTags.id });
+
+    if (voided.length > 0) {
+      await createAuditLog(ctx, {
+        action: AUDIT_ACTIONS.TAG_BATCH_VOIDED,
+        resourceType: "tag_batch",
+        resourceId: batchId,
+        details: { voided: voided.length },
+      });
+    }
+
+    return voided.length;
+  });
+}
+
+export async function findReservedTag(ctx: TenantContext, tag: string): Promise<ReservedTagLookup | null> {
+  return withTenant(ctx.tenantId, async (tx) => {
+    const [row] = await tx
+      .select({ tag: reservedTags, batchName: tagBatches.name })
+      .from(reservedTags)
+      .innerJoin(tagBatches, eq(reservedTags.batchId, tagBatches.id))
+      .where(and(eq(reservedTags.tenantId, ctx.tenantId), eq(reservedTags.tag, tag)));
+
+    return row ? { tag: mapReservedTagRow(row.tag), batchName: row.batchName } : null;
+  });
+}
+
+/**
+ * Links a pre-printed tag to the asset registered with it. Run it in the
+ * transaction that inserts the asset; tags that were never reserved are
+ * ignored. Throws for voided or already claimed tags.
+ */
+export async function claimReservedTag(
+  tx: Database,
+  tenantId: string,
+  tag: string,
+  assetId: string,
+  userId: string
+): Promise<ReservedTag | null> {
+  const [row] = await tx
+    .select()
+    .from(reservedTags)
+    .where(and(eq(reservedTags.tenantId, tenantId), eq(reservedTags.tag, tag)))
+    .for("update");
+
+  if (!row) {
+    return null;
+  }
+  if (row.status === RESERVED_TAG_STATUS.VOIDED) {
+    throw new Error(`Asset tag ${tag} was voided`);
+  }
+  if (row.status === RESERVED_TAG_STATUS.CLAIMED) {
+    throw new Error(`Asset tag ${tag} is already claimed`);
+  }
+
+  const [claimed] = await tx
+    .update(reservedTags)
+    .set({
+      status: RESERVED_TAG_STATUS.CLAIMED,
+      assetId,
+      claimedBy: userId,
+      claimedAt: new Date(),
+    })
+    .where(eq(reservedTags.id, row.id))
+    .returning();
+
+  return claimed ? mapReservedTagRow(claimed) : null;
+}
@@ -1,6 +1,7 @@
 import { eq, and, desc, ilike, or, count } from "drizzle-orm";
 import { labelTemplates, templateVersions } from "@/db/schema";
 import { withTenant } from "@/lib/tenant";
+import { findLabelFormat } from "@/services/label-format-service";
 import type { TenantContext } from "@/types/tenant";
 import type {
   LabelTemplate,
@@ -55,6 +56,10 @@ export async function createTemplate(
   input: CreateTemplateInput
 ): Promise<LabelTemplate> {
   return withTenant(ctx.tenantId, async (tx) => {
+    if (!(await findLabelFormat(tx, ctx.tenantId, input.format))) {
+      throw new Error("Label format not found");
+    }
+
     const specWithMeta: LabelSpec = {
       ...input.spec,
       id: crypto.randomUUID(),
@@ -163,7 +168,12 @@ export async function updateTemplate(
     if (input.name !== undefined) updates.name = input.name;
     if (input.description !== undefined) updates.description = input.description;
     if (input.category !== undefined) updates.category = input.category;
-    if (input.format !== undefined) updates.format = input.format;
+    if (input.format !== undefined && input.format !== existing.format) {
+      if (!(await findLabelFormat(tx, ctx.tenantId, input.format))) {
+        throw new Error("Label format not found");
+      }
+      updates.format = input.format;
+    }
 
     let newVersion = existing.version;
 
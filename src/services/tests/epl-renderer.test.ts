@@ -0,0 +1,229 @@
+import { describe, test, expect } from "bun:test";
+import { renderLabelsEpl } from "@/services/epl-renderer";
+import type { BarcodeFormat, BarcodeStyle, LabelElement, LabelField } from "@/types/label-spec";
+import type { PrintOptions, RenderRequest } from "@/types/print";
+import { TEXT_STYLE, createTestAsset, createTestField, createTestSpec } from "@/lib/tests/label-fixtures";
+
+const EPL_OPTIONS: PrintOptions = {
+  format: "custom",
+  outputFormat: "pdf", // ignored by printer languages
+  copies: 1,
+  useSheetLayout: false,
+  dpi: 203,
+};
+
+const BARCODE_STYLE: BarcodeStyle = {
+  format: "CODE128",
+  displayValue: false,
+  fontSize: 6,
+  textAlign: "left",
+  background: "#ffffff",
+  lineColor: "#000000",
+  width: 1,
+  height: 10,
+};
+
+async function renderEpl(overrides: Partial<RenderRequest> = {}): Promise<string> {
+  const spec = createTestSpec();
+  spec.elements = spec.elements.filter((element) => element.type !== "logo");
+
+  const result = await renderLabelsEpl({ spec, assets: [createTestAsset()], options: EPL_OPTIONS, ...overrides });
+  return result.buffer.toString("latin1");
+}
+
+/**
+ * Commands between the label setup and the print command
+ */
+async function renderItems(
+  items: { fields?: LabelField[]; elements?: LabelElement[] },
+  overrides: Partial<RenderRequest> = {}
+): Promise<string[]> {
+  const spec = createTestSpec({ elements: items.elements ?? [], fields: items.fields ?? [] });
+  const epl = await renderEpl({ spec, ...overrides });
+  return epl.split("\n").slice(5, -1);
+}
+
+function barcodeField(format: BarcodeFormat): LabelField {
+  return createTestField({
+    id: "code",
+    type: "barcode",
+    source: "customFields.code",
+    size: { width: 50, height: 10 },
+    style: { ...BARCODE_STYLE, format },
+  });
+}
+
+describe("renderLabelsEpl", () => {
+  test("renders the reference label", async () => {
+    expect(await renderEpl({ options: { ...EPL_OPTIONS, copies: 2 } })).toBe(
+      [
+        "",
+        "N",
+        "q480", // 60mm at 203 DPI
+        "Q240,24", // 30mm with a 3mm gap
+        "I8,A,001",
+        "X0,0,3,480,240",
+        "LO16,120,448,1",
+        `A16,8,0,4,1,1,N,"Property of IT"`,
+        `A16,48,0,4,1,1,N,"LAP-0001"`,
+        `B75,128,0,1,1,1,76,B,"SN123456"`,
+        `b326,134,Q,m2,s4,eM,"SN123456"`,
+        "P2",
+      ].join("\n")
+    );
+  });
+
+  test("counts copies as pages", async () => {
+    const result = await renderLabelsEpl({
+      spec: createTestSpec({ elements: [] }),
+      assets: [createTestAsset(), createTestAsset({ id: "asset-2" })],
+      options: { ...EPL_OPTIONS, copies: 3 },
+    });
+
+    expect(result.mimeType).toBe("application/x-epl");
+    expect(result.pageCount).toBe(6);
+    expect(result.buffer.toString("latin1").match(/^P3$/gm)).toHaveLength(2);
+  });
+
+  test.each([
+    ["CODE128", "1234567", `B0,0,0,1,5,5,80,N,"1234567"`], // 79 modules in 400 dots
+    ["CODE39", "1234567", `B0,0,0,3,2,6,80,N,"1234567"`],
+    ["EAN13", "590123412345", `B0,0,0,E30,4,4,80,N,"590123412345"`],
+    ["EAN8", "9638507", `B0,0,0,E80,5,5,80,N,"9638507"`],
+    ["UPC", "03600029145", `B0,0,0,UA0,4,4,80,N,"03600029145"`],
+    ["ITF14", "1540014128876", `B0,0,0,2C,2,6,80,N,"1540014128876"`],
+  ] as const)("encodes %s %s", async (format, code, command) => {
+    const commands = await renderItems(
+      { fields: [barcodeField(format)] },
+      { assets: [createTestAsset({ customFields: { code } })] }
+    );
+    expect(commands).toEqual([command]);
+  });
+
+  test("rejects barcodes the printer cannot draw", async () => {
+    const assets = [createTestAsset({ customFields: { code: "1234" } })];
+
+    await expect(renderItems({ fields: [barcodeField("MSI")] }, { assets })).rejects.toThrow(
+      "EPL2 output does not support MSI barcodes (field code)"
+    );
+    await expect(
+      renderItems({ fields: [{ ...barcodeField("CODE128"), gs1: { elements: [{ ai: "21", source: "serialNumber" }] } }] }, { assets })
+    ).rejects.toThrow("EPL2 output does not support GS1-128 barcodes (field code)");
+  });
+
+  test("picks the resident font closest to the text size", async () => {
+    const field = (fontSize: number) =>
+      createTestField({ id: "tag", type: "text", size: { width: 50, height: 20 }, style: { ...TEXT_STYLE, fontSize } });
+
+    expect(await renderItems({ fields: [field(4)] })).toEqual([`A0,0,0,1,1,1,N,"LAP-0001"`]);
+    expect(await renderItems({ fields: [field(17)] })).toEqual([`A0,0,0,5,1,1,N,"LAP-0001"`]);
+    // 17pt is 71 dots at 300 DPI, closest to font 3 doubled
+    expect(await renderItems({ fields: [field(17)] }, { options: { ...EPL_OPTIONS, dpi: 300 } })).toEqual([
+      `A0,0,0,3,2,2,N,"LAP-0001"`,
+    ]);
+  });
+
+  test("anchors rotated text at the corner the printer turns around", async () => {
+    const commands = await renderItems({
+      fields: [createTestField({ id: "tag", type: "text", position: { x: 5, y: 5 }, size: { width: 5, height: 20 }, rotation: 90 })],
+    });
+    // The 5mm wide box is 40 dots; rotation 1 anchors at its right edge
+    expect(commands).toEqual([`A80,40,1,4,1,1,N,"LAP-0001"`]);
+  });
+
+  test("quotes field data and rejects characters outside Latin-1", async () => {
+    const field = createTestField({ id: "tag", type: "text", size: { width: 50, height: 5 } });
+
+    expect(await renderItems({ fields: [field] }, { assets: [createTestAsset({ assetTag: `A"B\\C` })] })).toEqual([
+      `A0,0,0,4,1,1,N,"A\\"B\\\\C"`,
+    ]);
+    await expect(renderItems({ fields: [field] }, { assets: [createTestAsset({ assetTag: "Ж-1" })] })).rejects.toThrow(
+      `EPL2 output cannot encode the character "Ж" (field tag)`
+    );
+  });
+
+  test("fails or reports text that does not fit", async () => {
+    const field = (overflow: "error" | "ellipsis") =>
+      createTestField({ id: "model", type: "text", source: "model", size: { width: 10, height: 4 }, style: { ...TEXT_STYLE, overflow } });
+
+    await expect(renderItems({ fields: [field("error")] })).rejects.toThrow("Text does not fit field model");
+
+    const result = await renderLabelsEpl({
+      spec: createTestSpec({ elements: [], fields: [field("ellipsis")] }),
+      assets: [createTestAsset()],
+      options: EPL_OPTIONS,
+    });
+    expect(result.textOverflow).toEqual([expect.objectContaining({ assetId: "asset-1", fieldId: "model" })]);
+  });
+
+  test("draws 2D symbols as black line boxes", async () => {
+    const commands = await renderItems({
+      fields: [
+        createTestField({
+          id: "dm",
+          type: "datamatrix",
+          size: { width: 10, height: 10 },
+          style: { shape: "square", margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+        }),
+      ],
+    });
+
+    expect(commands.length).toBeGreaterThan(10);
+    for (const command of commands) {
+      expect(command).toMatch(/^LO\d+,\d+,\d+,\d+$/);
+    }
+  });
+
+  test("draws boxes, white borders and lines", async () => {
+    const commands = await renderItems({
+      elements: [
+        { id: "fill", type: "rect", position: { x: 0, y: 0 }, size: { width: 10, height: 5 }, style: { fill: "#000000" } },
+        { id: "white", type: "rect", position: { x: 0, y: 0 }, size: { width: 10, height: 5 }, style: { stroke: "#ffffff", strokeWidth: 1 } },
+        { id: "slash", type: "line", position: { x: 0, y: 0 }, size: { width: 10, height: 5 }, style: {} },
+      ],
+    });
+
+    expect(commands).toEqual([
+      "LO0,0,80,40",
+      "LW0,0,80,3",
+      "LW0,37,80,3",
+      "LW0,0,3,40",
+      "LW77,0,3,40",
+      "LS0,0,3,80,40",
+    ]);
+  });
+
+  test("rejects shapes the printer cannot draw", async () => {
+    const rect = (style: LabelElement["style"], rotation?: number): LabelElement => ({
+      id: "box",
+      type: "rect",
+      position: { x: 0, y: 0 },
+      size: { width: 10, height: 5 },
+      style,
+      rotation,
+    });
+
+    await expect(renderItems({ elements: [rect({ fill: "#000000", borderRadius: 1 })] })).rejects.toThrow(
+      "EPL2 output does not support rounded rectangles (element box)"
+    );
+    await expect(renderItems({ elements: [rect({ fill: "#000000" }, 90)] })).rejects.toThrow(
+      "EPL2 output does not support rotated shapes (element box)"
+    );
+    await expect(renderItems({ elements: [rect({ fill: "#000000" }, 45)] })).rejects.toThrow(
+      "EPL2 output only supports rotations in 90 degree steps (element box)"
+    );
+  });
+
+  test("prints flipped labels with ZB and reversed offsets", async () => {
+    const commands = (
+      await renderEpl({
+        spec: createTestSpec({ elements: [], fields: [createTestField({ id: "tag", type: "text", position: { x: 2, y: 2 } })] }),
+        calibration: { offsetX: 1, offsetY: 0, scale: 1, rotation: 180 },
+      })
+    ).split("\n");
+
+    expect(commands.slice(2, 6)).toEqual(["q480", "Q240,24", "ZB", "I8,A,001"]);
+    // 2mm is 16 dots, less the reversed 1mm offset of 8
+    expect(commands[6]).toBe(`A8,16,0,4,1,1,N,"LAP-0001"`);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { NonRetryableJobError, registerJobHandler, startJobWorker } from "@/services/job-worker";
+import type { JobQueue, JobWorker } from "@/services/job-worker";
+import type { BackgroundJob, JobType } from "@/types/background-job";
+import { JOB_TYPES } from "@/types/background-job";
+
+/**
+ * In-memory queue that hands out jobs in order and records what the
+ * worker reports back
+ */
+function createQueue(jobs: BackgroundJob[]) {
+  const pending = [...jobs];
+  const calls = {
+    acquire: 0,
+    reap: 0,
+    completed: [] as string[],
+    failed: [] as Array<{ id: string; message: string; retry: boolean }>,
+    heartbeats: [] as string[],
+  };
+
+  const queue: JobQueue = {
+    listTenantIds: async () => ["tenant-1"],
+    acquire: async (_tenantId, _instanceId, types) => {
+      calls.acquire++;
+      const index = pending.findIndex((job) => types.includes(job.type));
+      return index === -1 ? null : pending.splice(index, 1)[0]!;
+    },
+    complete: async (job) => calls.completed.push(job.id),
+    fail: async (job, _instanceId, message, retry) => calls.failed.push({ id: job.id, message, retry }),
+    extendLock: async (job) => {
+      calls.heartbeats.push(job.id);
+      return true;
+    },
+    reap: async () => calls.reap++,
+  };
+
+  return { queue, calls };
+}
+
+function createJob(id: string, type: JobType = JOB_TYPES.EXPORT_ASSETS): BackgroundJob {
+  return {
+    id,
+    tenantId: "tenant-1",
+    type,
+    status: "processing",
+    priority: 0,
+    runAfter: new Date(),
+    attempts: 1,
+    maxAttempts: 3,
+    lockedAt: new Date(),
+    lockedBy: "test",
+    payload: {},
+    result: null,
+    errorMessage: null,
+    createdBy: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the worker");
+    await Bun.sleep(5);
+  }
+}
+
+const TYPES = [JOB_TYPES.EXPORT_ASSETS];
+
+describe("startJobWorker", () => {
+  const spies: Array<{ mockRestore(): void }> = [];
+  const workers: JobWorker[] = [];
+
+  beforeAll(() => {
+    spies.push(
+      spyOn(console, "log").mockImplementation(() => {}),
+      spyOn(console, "warn").mockImplementation(() => {}),
+      spyOn(console, "error").mockImplementation(() => {})
+    );
+  });
+
+  afterEach(async () => {
+    await Promise.all(workers.splice(0).map((worker) => worker.stop()));
+  });
+
+  afterAll(() => {
+    for (const spy of spies) spy.mockRestore();
+  });
+
+  function start(queue: JobQueue, options: { concurrency?: number; heartbeatMs?: number; types?: JobType[] } = {}) {
+    const worker = startJobWorker({ instanceId: "test", pollMs: 5, types: TYPES, ...options }, queue);
+    workers.push(worker);
+    return worker;
+  }
+
+  test("runs at most `concurrency` jobs at once", async () => {
+    const release = deferred();
+    let running = 0;
+    let peak = 0;
+    registerJobHandler(JOB_TYPES.EXPORT_ASSETS, async () => {
+      peak = Math.max(peak, ++running);
+      await release.promise;
+      running--;
+    });
+
+    const { queue, calls } = createQueue(["a", "b", "c", "d", "e"].map((id) => createJob(id)));
+    const current = start(queue, { concurrency: 2 });
+
+    await waitFor(() => current.activeJobs() === 2);
+    await Bun.sleep(30);
+    expect(peak).toBe(2);
+    expect(calls.completed).toEqual([]);
+
+    release.resolve();
+    await waitFor(() => calls.completed.length === 5);
+    expect(peak).toBe(2);
+    expect(current.activeJobs()).toBe(0);
+  });
+
+  test("reports failures and retries only retryable ones", async () => {
+    registerJobHandler(JOB_TYPES.EXPORT_ASSETS, async (job) => {
+      if (job.id === "flaky") throw new Error("Storage unavailable");
+      throw new NonRetryableJobError("Export not found");
+    });
+
+    const { queue, calls } = createQueue([
+      createJob("flaky"),
+      createJob("broken"),
+      createJob("orphan", JOB_TYPES.CLOUD_PRINT_SYNC),
+    ]);
+    start(queue);
+    start(queue, { types: [JOB_TYPES.CLOUD_PRINT_SYNC] });
+
+    await waitFor(() => calls.failed.length === 3);
+    expect(calls.failed).toEqual(
+      expect.arrayContaining([
+        { id: "flaky", message: "Storage unavailable", retry: true },
+        { id: "broken", message: "Export not found", retry: false },
+        { id: "orphan", message: "No handler registered for job type: cloud_print_sync", retry: false },
+      ])
+    );
+    expect(calls.completed).toEqual([]);
+  });
+
+  test("refreshes the lock while a job runs and stops after it ends", async () => {
+    const release = deferred();
+    registerJobHandler(JOB_TYPES.EXPORT_ASSETS, () => release.promise);
+
+    const { queue, calls } = createQueue([createJob("long")]);
+    start(queue, { heartbeatMs: 10 });
+
+    await waitFor(() => calls.heartbeats.length >= 3);
+    release.resolve();
+    await waitFor(() => calls.completed.length === 1);
+
+    const beats = calls.heartbeats.length;
+    await Bun.sleep(40);
+    expect(calls.heartbeats.length).toBe(beats);
+    expect(new Set(calls.heartbeats)).toEqual(new Set(["long"]));
+  });
+
+  test("reaps stuck jobs when it starts", async () => {
+    const { queue, calls } = createQueue([]);
+    start(queue);
+
+    await waitFor(() => calls.reap === 1);
+  });
+
+  test("stop() waits for running jobs and stops polling", async () => {
+    const release = deferred();
+    let finished = false;
+    registerJobHandler(JOB_TYPES.EXPORT_ASSETS, async () => {
+      await release.promise;
+      finished = true;
+    });
+
+    const { queue, calls } = createQueue([createJob("first"), createJob("second")]);
+    const current = start(queue, { concurrency: 1 });
+    await waitFor(() => current.activeJobs() === 1);
+
+    const stopped = current.stop();
+    await Bun.sleep(20);
+    expect(finished).toBe(false);
+
+    const acquired = calls.acquire;
+    release.resolve();
+    await stopped;
+
+    expect(finished).toBe(true);
+    expect(calls.completed).toEqual(["first"]);
+    await Bun.sleep(30);
+    expect(calls.acquire).toBe(acquired);
+  });
+});
@@ -0,0 +1,326 @@
+import { describe, test, expect } from "bun:test";
+import { unzipSync } from "fflate";
+import { renderLabels, renderPreview } from "@/services/label-renderer";
+import { renderLabelsPng } from "@/services/png-renderer";
+import { renderLabelsSvg } from "@/services/svg-renderer";
+import { layoutLabel } from "@/lib/label-layout";
+import type { DisplayItem } from "@/lib/label-layout";
+import { dimensionsToPoints, mmToPoints } from "@/lib/print-utils";
+import type { PrintOptions, RenderRequest } from "@/types/print";
+import type { LabelFormat } from "@/types/label-format";
+import { TEXT_STYLE, createTestAsset, createTestField, createTestSpec } from "@/lib/tests/label-fixtures";
+
+type Box = [x: number, y: number, width: number, height: number];
+
+const PDF_OPTIONS: PrintOptions = {
+  format: "custom",
+  outputFormat: "pdf",
+  copies: 1,
+  useSheetLayout: false,
+  dpi: 203,
+};
+
+const SHEET_FORMAT: LabelFormat = {
+  id: "format-1",
+  tenantId: "tenant-1",
+  key: "test-sheet",
+  name: "Test sheet",
+  description: null,
+  stockType: "sheet",
+  unit: "mm",
+  width: 60,
+  height: 30,
+  cornerRadius: 0,
+  paperWidth: 130,
+  paperHeight: 70,
+  columns: 2,
+  rows: 2,
+  marginTop: 5,
+  marginLeft: 5,
+  horizontalGap: 0,
+  verticalGap: 0,
+  isSystem: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function createRequest(overrides: Partial<RenderRequest> = {}): RenderRequest {
+  return { spec: createTestSpec(), assets: [createTestAsset()], options: PDF_OPTIONS, ...overrides };
+}
+
+/**
+ * Rects and text of a display list in label coordinates, for a list
+ * without rotated groups
+ */
+function flattenLayout(items: DisplayItem[], x = 0, y = 0): { rects: Box[]; texts: string[] } {
+  const rects: Box[] = [];
+  const texts: string[] = [];
+
+  for (const item of items) {
+    if (item.type === "group") {
+      const group = flattenLayout(item.items, x + item.x, y + item.y);
+      rects.push(...group.rects);
+      texts.push(...group.texts);
+    } else if (item.type === "rect" && item.radius === 0) {
+      rects.push([x + item.x, y + item.y, item.width, item.height]);
+    } else if (item.type === "text") {
+      texts.push(item.text);
+    }
+  }
+
+  return { rects, texts };
+}
+
+/**
+ * Rects and text the PDF content stream draws, converted back from PDF's
+ * y-up coordinates
+ */
+function readPdf(buffer: Buffer, pageHeight: number): { rects: Box[]; texts: string[] } {
+  const content = buffer.toString("latin1");
+  const rects = [...content.matchAll(/^(\S+) (\S+) (\S+) (\S+) re$/gm)].map((match) => {
+    const [x, y, width, height] = match.slice(1).map(Number) as Box;
+    return [x, pageHeight - y, width, -height] as Box;
+  });
+  const texts = [...content.matchAll(/^\((.*)\) Tj$/gm)].map((match) => match[1]!);
+  return { rects, texts };
+}
+
+/**
+ * Rects and text an SVG document draws, with group translations applied
+ */
+function readSvg(svg: string): { rects: Box[]; texts: string[] } {
+  const rects: Box[] = [];
+  const texts: string[] = [];
+
+  for (const group of svg.matchAll(/<g transform="translate\((\S+) (\S+)\)">(.*?)<\/g>/g)) {
+    const [originX, originY] = [Number(group[1]), Number(group[2])];
+    for (const rect of group[3]!.matchAll(/<rect x="(\S+)" y="(\S+)" width="(\S+)" height="(\S+)"(?![^>]*rx=)/g)) {
+      const [x, y, width, height] = rect.slice(1).map(Number) as Box;
+      rects.push([originX + x, originY + y, width, height]);
+    }
+    for (const text of group[3]!.matchAll(/<text [^>]*>(.*?)<\/text>/g)) {
+      texts.push(text[1]!);
+    }
+  }
+
+  return { rects, texts };
+}
+
+/**
+ * SVG rounds to three decimals, so boxes match to within a few thousandths
+ */
+function expectSameBoxes(actual: Box[], expected: Box[]): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((box, index) => {
+    box.forEach((value, i) => expect(Math.abs(value - expected[index]![i]!)).toBeLessThanOrEqual(0.002));
+  });
+}
+
+describe("label backends", () => {
+  const spec = createTestSpec();
+  const asset = createTestAsset();
+  const expected = flattenLayout(layoutLabel(spec, asset).items);
+
+  test("the PDF draws exactly the display list", async () => {
+    const result = await renderLabels(createRequest());
+    const pdf = readPdf(result.buffer, dimensionsToPoints(spec.dimensions).height);
+
+    expect(result.mimeType).toBe("application/pdf");
+    expect(result.pageCount).toBe(1);
+    expectSameBoxes(pdf.rects, expected.rects);
+    expect(pdf.texts).toEqual(expected.texts);
+  });
+
+  test("the SVG draws exactly the display list", async () => {
+    const result = await renderLabelsSvg(createRequest({ options: { ...PDF_OPTIONS, outputFormat: "svg" } }));
+    const svg = readSvg(result.buffer.toString("utf8"));
+
+    expect(result.mimeType).toBe("image/svg+xml");
+    expectSameBoxes(svg.rects, expected.rects);
+    expect(svg.texts).toEqual(expected.texts);
+  });
+
+  test("the PDF and SVG draw the same rects and text", async () => {
+    const pdf = await renderLabels(createRequest());
+    const svg = await renderLabelsSvg(createRequest());
+
+    const fromPdf = readPdf(pdf.buffer, dimensionsToPoints(spec.dimensions).height);
+    const fromSvg = readSvg(svg.buffer.toString("utf8"));
+    expectSameBoxes(fromPdf.rects, fromSvg.rects);
+    expect(fromPdf.texts).toEqual(fromSvg.texts);
+  });
+
+  test("the PNG rasterizes the label at the requested DPI", async () => {
+    const result = await renderLabelsPng(createRequest({ options: { ...PDF_OPTIONS, outputFormat: "png" } }));
+
+    expect(result.mimeType).toBe("image/png");
+    expect(result.buffer.subarray(1, 4).toString("latin1")).toBe("PNG");
+    expect(result.buffer.readUInt32BE(16)).toBe(Math.round((60 / 25.4) * 203));
+  });
+});
+
+describe("renderLabels", () => {
+  test("adds a page per copy of each asset", async () => {
+    const result = await renderLabels(
+      createRequest({
+        assets: [createTestAsset(), createTestAsset({ id: "asset-2", assetTag: "LAP-0002" })],
+        options: { ...PDF_OPTIONS, copies: 2 },
+      })
+    );
+
+    expect(result.pageCount).toBe(4);
+    expect(result.filename).toMatch(/^labels_Test_Label_4x_.*\.pdf$/);
+    expect(readPdf(result.buffer, 0).texts.filter((text) => text.startsWith("LAP-"))).toEqual([
+      "LAP-0001",
+      "LAP-0001",
+      "LAP-0002",
+      "LAP-0002",
+    ]);
+  });
+
+  test("fills sheet slots from the start position and starts a new sheet when full", async () => {
+    const spec = createTestSpec({ elements: [], fields: [createTestField({ id: "tag", type: "text" })] });
+    const result = await renderLabels(
+      createRequest({
+        spec,
+        assets: Array.from({ length: 4 }, (_, i) => createTestAsset({ id: `asset-${i}`, assetTag: `T${i}` })),
+        options: { ...PDF_OPTIONS, useSheetLayout: true, startPosition: 1 },
+        labelFormat: SHEET_FORMAT,
+      })
+    );
+
+    expect(result.pageCount).toBe(2);
+    const content = result.buffer.toString("latin1");
+    const [, paperWidth, paperHeight] = /\/MediaBox \[0 0 (\S+) (\S+)\]/.exec(content) ?? [];
+    expect(Number(paperWidth)).toBeCloseTo(mmToPoints(130));
+    expect(Number(paperHeight)).toBeCloseTo(mmToPoints(70));
+
+    // The first asset goes in the second slot, 65mm from the sheet edge
+    const [first] = content.match(/^\S+ \S+ Td\n\(T0\) Tj$/m) ?? [];
+    expect(Number(first!.split(" ")[0])).toBeCloseTo(mmToPoints(65));
+  });
+
+  test("skips used slots on the first sheet only and overflows onto full sheets", async () => {
+    const spec = createTestSpec({ elements: [], fields: [createTestField({ id: "tag", type: "text" })] });
+    const result = await renderLabels(
+      createRequest({
+        spec,
+        assets: Array.from({ length: 7 }, (_, i) => createTestAsset({ id: `asset-${i}`, assetTag: `T${i}` })),
+        options: { ...PDF_OPTIONS, useSheetLayout: true, skipPositions: [0, 2] },
+        labelFormat: SHEET_FORMAT,
+      })
+    );
+
+    // Two labels fit the first sheet and four each after it
+    expect(result.pageCount).toBe(3);
+    const content = result.buffer.toString("latin1");
+    const columns = [...content.matchAll(/^(\S+) (\S+) Td\n\(T\d\) Tj$/gm)].map((match) =>
+      Math.round(Number(match[1]) / mmToPoints(60))
+    );
+    // The first sheet only has the right column free; full sheets alternate
+    expect(columns).toEqual([1, 1, 0, 1, 0, 1, 0]);
+  });
+
+  test("wraps each calibrated page in one transformation", async () => {
+    const result = await renderLabels(
+      createRequest({
+        assets: [createTestAsset(), createTestAsset({ id: "asset-2" })],
+        calibration: { offsetX: 1, offsetY: 0.5, scale: 1, rotation: 0 },
+      })
+    );
+    const content = result.buffer.toString("latin1");
+
+    expect(content.match(/^1\. 0\. -?0\. 1\. \S+ \S+ cm$/gm)).toHaveLength(2);
+  });
+
+  test("fails when a text field set to error does not fit", async () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [
+        createTestField({ id: "model", type: "text", source: "model", size: { width: 5, height: 5 }, style: { ...TEXT_STYLE, overflow: "error" } }),
+      ],
+    });
+
+    await expect(renderLabels(createRequest({ spec }))).rejects.toThrow();
+  });
+
+  test("reports truncated fields per asset", async () => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [
+        createTestField({ id: "model", type: "text", source: "model", size: { width: 5, height: 5 }, style: { ...TEXT_STYLE, overflow: "ellipsis" } }),
+      ],
+    });
+    const result = await renderLabels(createRequest({ spec }));
+
+    expect(result.textOverflow).toEqual([expect.objectContaining({ assetId: "asset-1", fieldId: "model" })]);
+  });
+
+  test("renders a single preview page", async () => {
+    const result = await renderPreview(createTestSpec(), createTestAsset());
+
+    expect(result.pageCount).toBe(1);
+    expect(result.mimeType).toBe("application/pdf");
+  });
+
+  test("rotates a field's group about its position", async () => {
+    const spec = createTestSpec({ elements: [], fields: [createTestField({ id: "tag", type: "text", rotation: 90 })] });
+    const content = (await renderLabels(createRequest({ spec }))).buffer.toString("latin1");
+
+    // A 90° clockwise turn, mirrored into PDF's y-up space
+    expect(content).toMatch(/^q\n\S+ -1\. 1\. \S+ \S+ \S+ cm$/m);
+  });
+
+  test("draws rounded rects as curves", async () => {
+    const spec = createTestSpec({
+      elements: [
+        {
+          id: "badge",
+          type: "rect",
+          position: { x: 0, y: 0 },
+          size: { width: 20, height: 10 },
+          style: { fill: "#ff0000", borderRadius: 2 },
+        },
+      ],
+      fields: [],
+    });
+    const content = (await renderLabels(createRequest({ spec }))).buffer.toString("latin1");
+
+    expect(content).not.toMatch(/ re$/m);
+    expect(content.match(/ c$/gm)).toHaveLength(4);
+  });
+});
+
+describe("renderLabelsPng", () => {
+  test("reports truncated fields and draws rounded rects", async () => {
+    const spec = createTestSpec({
+      elements: [
+        {
+          id: "badge",
+          type: "rect",
+          position: { x: 0, y: 0 },
+          size: { width: 20, height: 10 },
+          style: { fill: "#ff0000", stroke: "#000000", strokeWidth: 1, borderRadius: 2 },
+        },
+      ],
+      fields: [
+        createTestField({ id: "model", type: "text", source: "model", size: { width: 5, height: 5 }, style: { ...TEXT_STYLE, overflow: "ellipsis" } }),
+      ],
+    });
+    const result = await renderLabelsPng(createRequest({ spec, options: { ...PDF_OPTIONS, outputFormat: "png" } }));
+
+    expect(result.textOverflow).toEqual([expect.objectContaining({ assetId: "asset-1", fieldId: "model" })]);
+  });
+
+  test("refuses labels too large to rasterize", async () => {
+    const options: PrintOptions = { ...PDF_OPTIONS, outputFormat: "png", dpi: 20_000 };
+    await expect(renderLabelsPng(createRequest({ options }))).rejects.toThrow("Label is too large to rasterize at 20000 DPI");
+  });
+
+  test("zips PNG copies and names each after its asset", async () => {
+    const result = await renderLabelsPng(createRequest({ options: { ...PDF_OPTIONS, outputFormat: "png", copies: 2 } }));
+
+    expect(result.mimeType).toBe("application/zip");
+    expect(Object.keys(unzipSync(new Uint8Array(result.buffer)))).toEqual(["001_LAP-0001.png", "002_LAP-0001.png"]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createLocalStorageDriver } from "@/services/local-storage-driver";
+import type { LocalStorageDriver } from "@/services/local-storage-driver";
+import { tenantStorageKey } from "@/services/storage-service";
+
+const SECRET = "local-storage-driver-test-secret!";
+
+let rootDir: string;
+let storage: LocalStorageDriver;
+
+function createDriver(signingSecret = SECRET): LocalStorageDriver {
+  return createLocalStorageDriver({ rootDir, signingSecret, downloadPath: "/api/storage/download" });
+}
+
+async function signedUrl(key: string, options: { filename?: string; contentType?: string; expiresInSeconds?: number } = {}) {
+  const url = await storage.getSignedUrl(key, { expiresInSeconds: 60, ...options });
+  return new URL(url, "http://localhost");
+}
+
+beforeAll(async () => {
+  rootDir = await mkdtemp(join(tmpdir(), "local-storage-"));
+  storage = createDriver();
+});
+
+afterAll(async () => {
+  await rm(rootDir, { recursive: true, force: true });
+});
+
+describe("createLocalStorageDriver", () => {
+  test("stores, reads and deletes objects under nested keys", async () => {
+    const key = "tenants/t1/print-jobs/job-1/labels.pdf";
+    const stored = await storage.put(key, Buffer.from("%PDF"), "application/pdf");
+
+    expect(stored).toEqual({ key, size: 4, contentType: "application/pdf" });
+    expect(await storage.exists(key)).toBe(true);
+    expect((await storage.get(key))?.toString()).toBe("%PDF");
+
+    await storage.delete(key);
+    expect(await storage.exists(key)).toBe(false);
+    expect(await storage.get(key)).toBeNull();
+    await storage.delete(key);
+  });
+
+  test("does not treat directories as objects", async () => {
+    await storage.put("tenants/t2/fonts/a.ttf", Buffer.from("font"), "font/ttf");
+    expect(await storage.exists("tenants/t2/fonts")).toBe(false);
+  });
+
+  test.each([
+    "../secret",
+    "tenants/../../etc/passwd",
+    "tenants/./t1",
+    "tenants//t1",
+    "tenants/t1/",
+    "/etc/passwd",
+    ".hidden",
+    "tenants\\..\\secret",
+    "tenants/%2e%2e/secret",
+    "",
+  ])("rejects the key %p", async (key) => {
+    const message = `Invalid storage key: ${key}`;
+
+    await expect(storage.put(key, Buffer.from("x"), "text/plain")).rejects.toThrow(message);
+    await expect(storage.get(key)).rejects.toThrow(message);
+    await expect(storage.exists(key)).rejects.toThrow(message);
+    await expect(storage.delete(key)).rejects.toThrow(message);
+    await expect(storage.getSignedUrl(key, { expiresInSeconds: 60 })).rejects.toThrow(message);
+  });
+});
+
+describe("signed URLs", () => {
+  const KEY = "tenants/t1/exports/assets.csv";
+
+  test("verify what they sign", async () => {
+    const url = await signedUrl(KEY, { filename: "assets.csv", contentType: "text/csv" });
+
+    expect(url.pathname).toBe("/api/storage/download");
+    expect(storage.verifySignedUrl(url)).toEqual({ key: KEY, filename: "assets.csv", contentType: "text/csv" });
+    expect(storage.verifySignedUrl(await signedUrl(KEY))).toEqual({ key: KEY, filename: null, contentType: null });
+  });
+
+  test("expire", async () => {
+    expect(storage.verifySignedUrl(await signedUrl(KEY, { expiresInSeconds: 0 }))).not.toBeNull();
+    expect(storage.verifySignedUrl(await signedUrl(KEY, { expiresInSeconds: -1 }))).toBeNull();
+  });
+
+  test.each([
+    ["key", "tenants/t2/exports/assets.csv"],
+    ["expires", String(Math.floor(Date.now() / 1000) + 3600)],
+    ["filename", "other.csv"],
+    ["type", "text/html"],
+    ["signature", "0".repeat(64)],
+    ["signature", "not-hex"],
+  ])("reject a changed %s", async (param, value) => {
+    const url = await signedUrl(KEY, { filename: "assets.csv", contentType: "text/csv" });
+    url.searchParams.set(param, value);
+
+    expect(storage.verifySignedUrl(url)).toBeNull();
+  });
+
+  test.each(["key", "expires", "signature", "filename"])("reject a missing %s", async (param) => {
+    const url = await signedUrl(KEY, { filename: "assets.csv" });
+    url.searchParams.delete(param);
+
+    expect(storage.verifySignedUrl(url)).toBeNull();
+  });
+
+  test("reject a flipped signature character", async () => {
+    const url = await signedUrl(KEY);
+    const signature = url.searchParams.get("signature")!;
+    url.searchParams.set("signature", (signature[0] === "a" ? "b" : "a") + signature.slice(1));
+
+    expect(storage.verifySignedUrl(url)).toBeNull();
+  });
+
+  test("reject URLs signed with another secret", async () => {
+    const url = await signedUrl(KEY);
+    expect(createDriver("another-local-storage-test-secret").verifySignedUrl(url)).toBeNull();
+  });
+});
+
+describe("tenantStorageKey", () => {
+  test("normalizes segments into a safe key", () => {
+    expect(tenantStorageKey("t1", "print-jobs", "job-1", "Labels 2024.pdf")).toBe("tenants/t1/print-jobs/job-1/Labels-2024.pdf");
+    expect(tenantStorageKey("t1", "../../etc", "passwd")).toBe("tenants/t1/etc/passwd");
+    expect(tenantStorageKey("t1", "..", ".env", "")).toBe("tenants/t1/file/env/file");
+    expect(tenantStorageKey("t1", "a/b\\c")).toBe("tenants/t1/a-b-c");
+  });
+
+  test("produces keys the driver accepts", async () => {
+    const key = tenantStorageKey("t1", "../x", "ü ber.txt");
+    await storage.put(key, Buffer.from("ok"), "text/plain");
+
+    expect(await storage.exists(key)).toBe(true);
+  });
+});
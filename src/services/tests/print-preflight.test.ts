@@ -0,0 +1,256 @@
+import { describe, test, expect } from "bun:test";
+import { preflightLabels, preflightPrinterOutput } from "@/services/print-preflight";
+import type { BarcodeFormat, BarcodeStyle, LabelElement, LabelField, TextStyle } from "@/types/label-spec";
+import type { PreflightIssue, RenderAssetData } from "@/types/print";
+import { TEXT_STYLE, createTestAsset, createTestField, createTestFont, createTestSpec } from "@/lib/tests/label-fixtures";
+
+const BARCODE_STYLE: BarcodeStyle = {
+  format: "CODE128",
+  displayValue: false,
+  fontSize: 6,
+  textAlign: "left",
+  background: "#ffffff",
+  lineColor: "#000000",
+  width: 1,
+  height: 10,
+};
+
+type IssueSummary = [fieldId: string, code: string, severity: string, message: string];
+
+function summarize(issues: PreflightIssue[]): IssueSummary[] {
+  return issues.map((issue) => [issue.fieldId, issue.code, issue.severity, issue.message]);
+}
+
+function preflight(
+  fields: LabelField[],
+  asset: Partial<RenderAssetData> = {},
+  options: { elements?: LabelElement[]; fonts?: ReturnType<typeof createTestFont>[] } = {}
+): IssueSummary[] {
+  const spec = createTestSpec({ elements: options.elements ?? [], fields });
+  return summarize(preflightLabels({ spec, assets: [createTestAsset(asset)], fonts: options.fonts }));
+}
+
+function codeField(format: BarcodeFormat): LabelField {
+  return createTestField({
+    id: "code",
+    type: "barcode",
+    source: "customFields.code",
+    size: { width: 40, height: 10 },
+    style: { ...BARCODE_STYLE, format },
+  });
+}
+
+function textField(style: Partial<TextStyle> = {}, overrides: Partial<LabelField> = {}): LabelField {
+  return createTestField({ id: "tag", type: "text", style: { ...TEXT_STYLE, ...style }, ...overrides });
+}
+
+function rect(overrides: Partial<LabelElement> = {}): LabelElement {
+  return {
+    id: "box",
+    type: "rect",
+    position: { x: 0, y: 0 },
+    size: { width: 10, height: 5 },
+    style: { stroke: "#000000", strokeWidth: 1 },
+    ...overrides,
+  };
+}
+
+describe("preflightLabels", () => {
+  test("passes the reference label", () => {
+    expect(preflightLabels({ spec: createTestSpec(), assets: [createTestAsset()] })).toEqual([]);
+  });
+
+  test.each([
+    ["EAN13", "12345", "barcode_length", `EAN-13 needs 12 or 13 digits, got "12345"`],
+    ["EAN13", "59012341234A", "barcode_length", `EAN-13 needs 12 or 13 digits, got "59012341234A"`],
+    ["EAN13", "5901234123458", "barcode_check_digit", "EAN-13 5901234123458 has check digit 8, expected 7"],
+    ["UPC", "036000291453", "barcode_check_digit", "UPC-A 036000291453 has check digit 3, expected 2"],
+    ["MSI", "ABC", "barcode_invalid", `MSI cannot encode "ABC"`],
+  ] as const)("reports %s data %p as %s", (format, code, issueCode, message) => {
+    expect(preflight([codeField(format)], { customFields: { code } })).toEqual([["code", issueCode, "error", message]]);
+  });
+
+  test.each([
+    ["EAN13", "590123412345"],
+    ["EAN13", "5901234123457"],
+    ["EAN8", "9638507"],
+    ["UPC", "036000291452"],
+    ["CODE128", "any text"],
+  ] as const)("accepts %s data %p", (format, code) => {
+    expect(preflight([codeField(format)], { customFields: { code } })).toEqual([]);
+  });
+
+  test("reports 2D symbols the encoder rejects", () => {
+    const field = createTestField({
+      id: "dm",
+      type: "datamatrix",
+      source: "customFields.code",
+      size: { width: 15, height: 15 },
+      style: { shape: "square", margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+    });
+    const [issue] = preflight([field], { customFields: { code: "x".repeat(3000) } });
+
+    expect(issue?.slice(0, 3)).toEqual(["dm", "barcode_invalid", "error"]);
+    expect(issue?.[3]).toStartWith("DataMatrix: ");
+  });
+
+  test("reports QR payloads too large for the error correction level and names one that fits", () => {
+    const field = (errorCorrectionLevel: "L" | "H") =>
+      createTestField({
+        id: "qr",
+        type: "qrcode",
+        source: "customFields.code",
+        size: { width: 15, height: 15 },
+        style: { errorCorrectionLevel, margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+      });
+
+    expect(preflight([field("H")], { customFields: { code: "x".repeat(1500) } })).toEqual([
+      ["qr", "qr_capacity", "error", "QR payload of 1500 bytes is too large for error correction level H; level Q fits"],
+    ]);
+    expect(preflight([field("L")], { customFields: { code: "x".repeat(3000) } })).toEqual([
+      ["qr", "qr_capacity", "error", "QR payload of 3000 bytes is too large for error correction level L"],
+    ]);
+  });
+
+  test("reports empty bindings that print nothing", () => {
+    const gs1Field: LabelField = { ...codeField("CODE128"), id: "gs1", gs1: { elements: [{ ai: "01", source: "customFields.gtin" }] } };
+
+    expect(
+      preflight([
+        textField({}, { id: "department", source: "department", required: true }),
+        textField({}, { id: "templated", template: "{{ department }}", required: true }),
+        codeField("CODE128"),
+        gs1Field,
+      ])
+    ).toEqual([
+      ["department", "empty_binding", "error", `"department" is empty and the field has no fallback`],
+      ["templated", "empty_binding", "error", "Template is empty and the field has no fallback"],
+      ["code", "empty_binding", "error", `"customFields.code" is empty and the field has no fallback`],
+      ["gs1", "empty_binding", "error", "No GS1 element has a value"],
+    ]);
+  });
+
+  test("allows empty optional text and bindings with a fallback", () => {
+    expect(
+      preflight([
+        textField({}, { id: "department", source: "department" }),
+        { ...codeField("CODE128"), fallback: "NONE" },
+      ])
+    ).toEqual([]);
+  });
+
+  test.each([
+    ["error", "error", "Text does not fit and the field is set to fail the print"],
+    ["ellipsis", "warning", "Text does not fit and will be shortened (ellipsis)"],
+    ["shrink", "warning", "Text does not fit and will be shortened (shrink)"],
+    [undefined, "warning", "Text does not fit and will be shortened (wrap)"],
+  ] as const)("reports text overflow set to %p as a %s", (overflow, severity, message) => {
+    const field = textField({ overflow }, { source: "model", size: { width: 5, height: 4 } });
+    expect(preflight([field])).toEqual([["tag", "text_overflow", severity, message]]);
+  });
+
+  test("measures text with the tenant font it prints in", () => {
+    // "LAP-0001" fits 16mm in Helvetica but not in the wider OCR-B
+    const field = (fontFamily: string) =>
+      textField({ fontFamily, overflow: "error" }, { size: { width: 16, height: 5 } });
+
+    expect(preflight([field("Helvetica")])).toEqual([]);
+    expect(preflight([field("OCRB")], {}, { fonts: [createTestFont()] })).toEqual([
+      ["tag", "text_overflow", "error", "Text does not fit and the field is set to fail the print"],
+    ]);
+  });
+
+  test("warns about fonts that are neither standard nor uploaded", () => {
+    const title: LabelElement = {
+      id: "title",
+      type: "text",
+      position: { x: 0, y: 20 },
+      size: { width: 30, height: 5 },
+      content: "Property of IT",
+      style: { fontFamily: "Georgia" },
+    };
+
+    expect(preflight([textField({ fontFamily: "Roboto" })], {}, { elements: [title] })).toEqual([
+      ["title", "missing_font", "warning", `Font "Georgia" is not uploaded, so Helvetica is used instead`],
+      ["tag", "missing_font", "warning", `Font "Roboto" is not uploaded, so Helvetica is used instead`],
+    ]);
+    expect(preflight([textField({ fontFamily: "OCRB" })], {}, { fonts: [createTestFont()] })).toEqual([]);
+    expect(preflight(["Arial", "Times New Roman", "Courier New"].map((fontFamily, i) => textField({ fontFamily }, { id: `t${i}` })))).toEqual([]);
+  });
+
+  test("warns about fields and elements that extend past the label", () => {
+    expect(
+      preflight([textField({}, { position: { x: 50, y: 0 } })], {}, { elements: [rect({ position: { x: 0, y: 28 } })] })
+    ).toEqual([
+      ["box", "out_of_bounds", "warning", "Extends past the edge of the label and will be cut off"],
+      ["tag", "out_of_bounds", "warning", "Extends past the edge of the label and will be cut off"],
+    ]);
+    expect(preflight([textField({}, { position: { x: 40, y: 25 } })], {}, { elements: [rect({ position: { x: 50, y: 25 } })] })).toEqual([]);
+  });
+
+  test("checks the bounds of rotated items by their rotated corners", () => {
+    // Rotated clockwise about its position, a 10x5 box at x 2 swings 3 left of the label
+    expect(preflight([], {}, { elements: [rect({ position: { x: 2, y: 0 }, rotation: 90 })] })).toEqual([
+      ["box", "out_of_bounds", "warning", "Extends past the edge of the label and will be cut off"],
+    ]);
+    expect(preflight([], {}, { elements: [rect({ position: { x: 5, y: 0 }, rotation: 90 })] })).toEqual([]);
+    expect(preflight([], {}, { elements: [rect({ position: { x: 10, y: 5 }, rotation: 180 })] })).toEqual([]);
+  });
+
+  test("reports layout problems for each asset that shows the item", () => {
+    const field = textField({ fontFamily: "Roboto" }, {
+      condition: { field: "status", operator: "eq", value: "active" },
+    });
+    const issues = preflightLabels({
+      spec: createTestSpec({ elements: [rect({ id: "hidden", position: { x: 55, y: 0 }, visible: false })], fields: [field] }),
+      assets: [createTestAsset(), createTestAsset({ id: "asset-2", status: "retired" }), createTestAsset({ id: "asset-3" })],
+    });
+
+    expect(issues.map((issue) => [issue.assetId, issue.fieldId, issue.code])).toEqual([
+      ["asset-1", "tag", "missing_font"],
+      ["asset-3", "tag", "missing_font"],
+    ]);
+  });
+});
+
+describe("preflightPrinterOutput", () => {
+  const rotatedBox = createTestSpec({ elements: [rect({ position: { x: 20, y: 5 }, rotation: 90 })], fields: [] });
+  const photo = createTestSpec({
+    elements: [],
+    fields: [createTestField({ id: "photo", type: "image", source: "customFields.photo", size: { width: 5, height: 5 } })],
+  });
+
+  test.each([
+    ["zpl", rotatedBox, "box", "ZPL output does not support rotated shapes (element box)"],
+    ["epl", rotatedBox, "box", "EPL2 output does not support rotated shapes (element box)"],
+    ["zpl", photo, "photo", "ZPL output does not support image fields (field photo)"],
+    ["epl", photo, "photo", "EPL2 output does not support image fields (field photo)"],
+  ] as const)("reports what %s cannot draw", async (language, spec, fieldId, message) => {
+    const issues = await preflightPrinterOutput({ spec, assets: [createTestAsset()] }, language);
+    expect(summarize(issues)).toEqual([[fieldId, "unsupported_output", "error", message]]);
+  });
+
+  test("reports each asset the printer refuses", async () => {
+    const spec = createTestSpec({ elements: [], fields: [textField({}, { source: "customFields.note", size: { width: 40, height: 5 } })] });
+    const issues = await preflightPrinterOutput(
+      { spec, assets: [createTestAsset({ customFields: { note: "ok" } }), createTestAsset({ id: "asset-2", customFields: { note: "中" } })] },
+      "epl"
+    );
+
+    expect(issues.map((issue) => [issue.assetId, issue.fieldId, issue.code])).toEqual([["asset-2", "tag", "unsupported_output"]]);
+  });
+
+  test("leaves out fields preflightLabels already reported", async () => {
+    const spec = createTestSpec({ elements: [], fields: [codeField("pharmacode")] });
+    const request = { spec, assets: [createTestAsset({ customFields: { code: "1" } })] };
+    const labelIssues = preflightLabels(request);
+
+    expect(summarize(labelIssues)).toEqual([["code", "barcode_invalid", "error", `pharmacode cannot encode "1"`]]);
+    expect(await preflightPrinterOutput(request, "zpl")).toHaveLength(1);
+    expect(await preflightPrinterOutput(request, "zpl", labelIssues)).toEqual([]);
+  });
+
+  test("accepts everything for PDF output", async () => {
+    expect(await preflightPrinterOutput({ spec: rotatedBox, assets: [createTestAsset()] }, "pdf")).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from "bun:test";
+import { evaluateRouteCondition, selectRoute } from "@/services/print-route-service";
+import type { PrintRoute, PrintRouteCondition, RouteConditionOperator } from "@/types/print-route";
+import { PRINTER_LANGUAGES } from "@/types/print-agent";
+
+const ASSET = {
+  id: "asset-1",
+  assetTag: "DC2-0042",
+  location: " Rack Room B ",
+  status: "active",
+  notes: null,
+  customFields: { site: "dc2" },
+};
+
+function condition(field: string, operator: RouteConditionOperator, value?: string): PrintRouteCondition {
+  return { field, operator, value };
+}
+
+function createRoute(overrides: Partial<PrintRoute> = {}): PrintRoute {
+  return {
+    id: "route-1",
+    tenantId: "tenant-1",
+    name: "Route",
+    match: { conditions: [] },
+    destination: { agentId: "agent-1", format: PRINTER_LANGUAGES.ZPL },
+    priority: 0,
+    isActive: true,
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("evaluateRouteCondition", () => {
+  test.each([
+    [condition("assetTag", "eq", "dc2-0042"), true],
+    [condition("assetTag", "neq", "DC2-0042"), false],
+    [condition("assetTag", "startsWith", "DC2-"), true],
+    [condition("assetTag", "endsWith", "0042 "), true],
+    [condition("location", "eq", "rack room b"), true],
+    [condition("location", "contains", "room"), true],
+    [condition("status", "in", "retired, ACTIVE"), true],
+    [condition("status", "in", "retired,,lost"), false],
+    [condition("customFields.site", "eq", "DC2"), true],
+    [condition("notes", "empty"), true],
+    [condition("serialNumber", "empty"), true],
+    [condition("notes", "notEmpty"), false],
+    [condition("assetTag", "notEmpty"), true],
+  ] as const)("evaluates %p as %p", (routeCondition, expected) => {
+    expect(evaluateRouteCondition(routeCondition, ASSET)).toBe(expected);
+  });
+
+  test("does not match unknown operators", () => {
+    expect(evaluateRouteCondition(condition("assetTag", "matches" as RouteConditionOperator, "DC2"), ASSET)).toBe(false);
+  });
+});
+
+describe("selectRoute", () => {
+  const dc2 = [condition("assetTag", "startsWith", "DC2-")];
+
+  test("picks the matching route with the lowest priority number", () => {
+    const routes = [
+      createRoute({ id: "late", priority: 20, match: { conditions: dc2 } }),
+      createRoute({ id: "first", priority: 5, match: { conditions: dc2 } }),
+      createRoute({ id: "other", priority: 0, match: { conditions: [condition("assetTag", "startsWith", "DC1-")] } }),
+    ];
+
+    const result = selectRoute(routes, "template-1", [ASSET]);
+
+    expect(result.matchedRoute?.id).toBe("first");
+    expect(result.evaluations.map((evaluation) => [evaluation.routeId, evaluation.matched])).toEqual([
+      ["other", false],
+      ["first", true],
+      ["late", true],
+    ]);
+  });
+
+  test("breaks priority ties by age", () => {
+    const routes = [
+      createRoute({ id: "newer", createdAt: new Date("2024-02-01T00:00:00Z") }),
+      createRoute({ id: "older", createdAt: new Date("2024-01-01T00:00:00Z") }),
+    ];
+
+    expect(selectRoute(routes, undefined, [ASSET]).matchedRoute?.id).toBe("older");
+  });
+
+  test("skips inactive routes and routes for other templates", () => {
+    const routes = [
+      createRoute({ id: "inactive", priority: 0, isActive: false }),
+      createRoute({ id: "template", priority: 1, match: { conditions: [], templateIds: ["template-2"] } }),
+      createRoute({ id: "fallback", priority: 2 }),
+    ];
+
+    const result = selectRoute(routes, "template-1", [ASSET]);
+
+    expect(result.matchedRoute?.id).toBe("fallback");
+    expect(result.evaluations.map((evaluation) => evaluation.reason)).toEqual([
+      "Route is inactive",
+      "Template is not covered by this route",
+      null,
+    ]);
+  });
+
+  test("needs every asset to match and names the first that does not", () => {
+    const other = { ...ASSET, id: "asset-2", assetTag: "DC1-0007" };
+    const result = selectRoute([createRoute({ match: { conditions: dc2 } })], undefined, [ASSET, other]);
+
+    expect(result.matchedRoute).toBeNull();
+    expect(result.evaluations[0]?.reason).toBe("DC1-0007: assetTag startsWith \"DC2-\" not satisfied");
+  });
+
+  test("matches nothing without assets", () => {
+    const result = selectRoute([createRoute()], undefined, []);
+
+    expect(result.matchedRoute).toBeNull();
+    expect(result.evaluations[0]?.reason).toBe("No assets to evaluate");
+  });
+});
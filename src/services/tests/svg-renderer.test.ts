@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import { unzipSync } from "fflate";
+import { renderLabelsSvg } from "@/services/svg-renderer";
+import type { PrintOptions, RenderRequest } from "@/types/print";
+import { OCRB_FONT_DATA, TEXT_STYLE, createTestAsset, createTestField, createTestFont, createTestSpec } from "@/lib/tests/label-fixtures";
+
+const SVG_OPTIONS: PrintOptions = {
+  format: "custom",
+  outputFormat: "svg",
+  copies: 1,
+  useSheetLayout: false,
+  dpi: 203,
+};
+
+function createRequest(overrides: Partial<RenderRequest> = {}): RenderRequest {
+  return { spec: createTestSpec(), assets: [createTestAsset()], options: SVG_OPTIONS, ...overrides };
+}
+
+function unzipNames(buffer: Buffer): string[] {
+  return Object.keys(unzipSync(new Uint8Array(buffer)));
+}
+
+describe("renderLabelsSvg", () => {
+  test("returns a single asset as one SVG document", async () => {
+    const result = await renderLabelsSvg(createRequest());
+    const svg = result.buffer.toString("utf8");
+
+    expect(result.mimeType).toBe("image/svg+xml");
+    expect(result.filename).toEndWith(".svg");
+    expect(result.pageCount).toBe(1);
+    expect(svg).toStartWith("<?xml");
+    expect(svg).toContain(`width="60mm" height="30mm"`);
+    expect(svg).toContain("LAP-0001");
+  });
+
+  test("zips one file per asset, named after its tag", async () => {
+    const result = await renderLabelsSvg(
+      createRequest({
+        assets: [
+          createTestAsset(),
+          createTestAsset({ id: "asset-2", assetTag: "LAP/0002" }),
+          createTestAsset({ id: "asset-3", assetTag: "" }),
+        ],
+      })
+    );
+    const files = unzipSync(new Uint8Array(result.buffer));
+
+    expect(result.mimeType).toBe("application/zip");
+    expect(result.filename).toEndWith(".zip");
+    expect(result.pageCount).toBe(3);
+    expect(Object.keys(files)).toEqual(["001_LAP-0001.svg", "002_LAP_0002.svg", "003_asset-3.svg"]);
+    expect(new TextDecoder().decode(files["002_LAP_0002.svg"])).toContain("LAP/0002");
+  });
+
+  test("ignores copies", async () => {
+    const single = await renderLabelsSvg(createRequest({ options: { ...SVG_OPTIONS, copies: 3 } }));
+    expect(single.mimeType).toBe("image/svg+xml");
+    expect(single.pageCount).toBe(1);
+
+    const batch = await renderLabelsSvg(
+      createRequest({
+        assets: [createTestAsset(), createTestAsset({ id: "asset-2", assetTag: "LAP-0002" })],
+        options: { ...SVG_OPTIONS, copies: 2 },
+      })
+    );
+    expect(batch.pageCount).toBe(2);
+    expect(unzipNames(batch.buffer)).toEqual(["001_LAP-0001.svg", "002_LAP-0002.svg"]);
+  });
+
+  test("fails or reports text that does not fit", async () => {
+    const field = (overflow: "error" | "ellipsis") =>
+      createTestField({ id: "model", type: "text", source: "model", size: { width: 10, height: 4 }, style: { ...TEXT_STYLE, overflow } });
+
+    await expect(renderLabelsSvg(createRequest({ spec: createTestSpec({ fields: [field("error")] }) }))).rejects.toThrow(
+      "Text does not fit field model"
+    );
+
+    const result = await renderLabelsSvg(createRequest({ spec: createTestSpec({ fields: [field("ellipsis")] }) }));
+    expect(result.textOverflow).toEqual([{ assetId: "asset-1", fieldId: "model", mode: "ellipsis" }]);
+  });
+
+  test.each([
+    ["ttf", "font/ttf"],
+    ["otf", "font/otf"],
+  ] as const)("embeds %s fonts as %s", async (format, mimeType) => {
+    const spec = createTestSpec({
+      elements: [],
+      fields: [createTestField({ id: "tag", type: "text", style: { ...TEXT_STYLE, fontFamily: "OCRB" } })],
+    });
+    const result = await renderLabelsSvg(createRequest({ spec, fonts: [createTestFont(format)] }));
+    const svg = result.buffer.toString("utf8");
+
+    const [, embedded, data] = svg.match(/src: url\(&quot;data:([^;]+);base64,([^&]+)&quot;\)/) ?? [];
+
+    expect(embedded).toBe(mimeType);
+    expect(data).toBe(Buffer.from(OCRB_FONT_DATA).toString("base64"));
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, test, expect } from "bun:test";
+import { renderLabelsZpl } from "@/services/zpl-renderer";
+import type { BarcodeFormat, BarcodeStyle, LabelElement, LabelField } from "@/types/label-spec";
+import type { PrintOptions, RenderRequest } from "@/types/print";
+import { TEXT_STYLE, createTestAsset, createTestField, createTestSpec } from "@/lib/tests/label-fixtures";
+
+const ZPL_OPTIONS: PrintOptions = {
+  format: "custom",
+  outputFormat: "pdf", // ignored by printer languages
+  copies: 1,
+  useSheetLayout: false,
+  dpi: 203,
+};
+
+const BARCODE_STYLE: BarcodeStyle = {
+  format: "CODE128",
+  displayValue: false,
+  fontSize: 6,
+  textAlign: "left",
+  background: "#ffffff",
+  lineColor: "#000000",
+  width: 1,
+  height: 10,
+};
+
+async function renderZpl(overrides: Partial<RenderRequest> = {}): Promise<string> {
+  const spec = createTestSpec();
+  spec.elements = spec.elements.filter((element) => element.type !== "logo");
+
+  const result = await renderLabelsZpl({ spec, assets: [createTestAsset()], options: ZPL_OPTIONS, ...overrides });
+  return result.buffer.toString("utf-8");
+}
+
+async function renderFields(fields: LabelField[], overrides: Partial<RenderRequest> = {}): Promise<string[]> {
+  const zpl = await renderZpl({ spec: createTestSpec({ elements: [], fields }), ...overrides });
+  return zpl.split("\n").slice(5, -2);
+}
+
+function barcodeField(format: BarcodeFormat, source = "serialNumber"): LabelField {
+  return createTestField({
+    id: "code",
+    type: "barcode",
+    source,
+    size: { width: 50, height: 10 },
+    style: { ...BARCODE_STYLE, format },
+  });
+}
+
+describe("renderLabelsZpl", () => {
+  test("renders the reference label", async () => {
+    expect(await renderZpl({ options: { ...ZPL_OPTIONS, copies: 2 } })).toBe(
+      [
+        "^XA",
+        "^CI28",
+        "^PW480", // 60mm at 203 DPI
+        "^LL240",
+        "^LH0,0",
+        "^FO0,0",
+        "^GB480,240,3,B,0^FS",
+        "^FO16,120",
+        "^GB448,1,1,B,0^FS",
+        "^FO16,8",
+        "^A0N,23,23",
+        "^FB240,1,4,L,0",
+        "^FH^FDProperty of IT^FS",
+        "^FO16,48",
+        "^A0N,28,28",
+        "^FB160,1,6,L,0",
+        "^FH^FDLAP-0001^FS",
+        "^FO75,128",
+        "^BY1,3,76",
+        "^BCN,76,Y,N,N,A",
+        "^FH^FDSN123456^FS",
+        "^FO326,134",
+        "^BQN,2,4,M,7",
+        "^FH^FDMA,SN123456^FS",
+        "^PQ2",
+        "^XZ",
+      ].join("\n")
+    );
+  });
+
+  test("starts a format per asset and counts copies as pages", async () => {
+    const result = await renderLabelsZpl({
+      spec: createTestSpec({ elements: [] }),
+      assets: [createTestAsset(), createTestAsset({ id: "asset-2" })],
+      options: { ...ZPL_OPTIONS, copies: 3 },
+    });
+    const zpl = result.buffer.toString("utf-8");
+
+    expect(result.mimeType).toBe("application/x-zpl");
+    expect(result.pageCount).toBe(6);
+    expect(zpl.match(/\^XA/g)).toHaveLength(2);
+    expect(zpl.match(/\^PQ3\n\^XZ/g)).toHaveLength(2);
+  });
+
+  test.each([
+    ["CODE128", "^BCN,80,N,N,N,A"],
+    ["CODE39", "^B3N,N,80,N,N"],
+    ["MSI", "^BMN,A,80,N,N,N"],
+    ["MSI10", "^BMN,B,80,N,N,N"],
+  ] as const)("encodes %s with %s", async (format, command) => {
+    const [, , barcode] = await renderFields([barcodeField(format, "customFields.code")], {
+      assets: [createTestAsset({ customFields: { code: "1234567" } })],
+    });
+    expect(barcode).toBe(command);
+  });
+
+  test.each([
+    ["EAN13", "590123412345", "^BEN,80,N,N"],
+    ["EAN8", "9638507", "^B8N,80,N,N"],
+    ["UPC", "03600029145", "^BUN,80,N,N,Y"],
+    ["ITF14", "1540014128876", "^B2N,80,N,N,Y"],
+    ["ITF14", "15400141288763", "^B2N,80,N,N,N"],
+  ] as const)("encodes %s %s with %s", async (format, code, command) => {
+    const [, , barcode] = await renderFields([barcodeField(format, "customFields.code")], {
+      assets: [createTestAsset({ customFields: { code } })],
+    });
+    expect(barcode).toBe(command);
+  });
+
+  test("rejects formats the printer cannot draw", async () => {
+    await expect(renderFields([barcodeField("pharmacode")])).rejects.toThrow("ZPL output does not support pharmacode barcodes (field code)");
+  });
+
+  test("sends GS1-128 in mode D with parenthesized AIs", async () => {
+    const field: LabelField = {
+      ...barcodeField("CODE128"),
+      gs1: { elements: [{ ai: "21", source: "serialNumber" }, { ai: "01", source: "customFields.gtin" }] },
+    };
+    const commands = await renderFields([field], {
+      assets: [createTestAsset({ customFields: { gtin: "09506000134352" } })],
+    });
+
+    expect(commands.slice(2)).toEqual(["^BCN,80,N,N,N,D", "^FH^FD(01)09506000134352(21)SN123456^FS"]);
+  });
+
+  test("marks GS1 DataMatrix with a leading FNC1 and separates variable elements", async () => {
+    const field = createTestField({
+      id: "dm",
+      type: "datamatrix",
+      size: { width: 15, height: 15 },
+      style: { shape: "square", margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+      gs1: {
+        elements: [
+          { ai: "01", source: "customFields.gtin" },
+          { ai: "21", source: "serialNumber" },
+          { ai: "10", source: "customFields.lot" },
+        ],
+      },
+    });
+    const commands = await renderFields([field], {
+      assets: [createTestAsset({ customFields: { gtin: "09506000134352", lot: "L1" } })],
+    });
+
+    expect(commands[1]).toMatch(/^\^BXN,\d+,200,\d+,\d+,6,~,1$/);
+    // Field data goes through ^FH, so the "~" escape is sent as _7E
+    expect(commands[2]).toBe("^FH^FD_7E10109506000134352" + "21SN123456_7E110L1^FS");
+  });
+
+  test("sizes PDF417 and Aztec symbols from the encoded matrix", async () => {
+    const commands = await renderFields([
+      createTestField({
+        id: "pdf",
+        type: "pdf417",
+        size: { width: 40, height: 15 },
+        style: { columns: 3, errorCorrectionLevel: 2, rowHeight: 3, compact: false, margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+      }),
+      createTestField({
+        id: "aztec",
+        type: "aztec",
+        size: { width: 15, height: 15 },
+        style: { errorCorrectionPercent: 23, format: "compact", margin: 1, darkColor: "#000000", lightColor: "#ffffff" },
+      }),
+    ]);
+
+    expect(commands[1]).toMatch(/^\^BY\d+$/);
+    expect(commands[2]).toMatch(/^\^B7N,\d+,2,3,\d+,N$/);
+    expect(commands[5]).toMatch(/^\^BON,\d+,N,10[1-4]$/);
+  });
+
+  test("draws filled and rounded boxes and diagonal lines", async () => {
+    const zpl = await renderZpl({
+      spec: createTestSpec({
+        elements: [
+          { id: "box", type: "rect", position: { x: 0, y: 0 }, size: { width: 10, height: 5 }, style: { fill: "#000000", borderRadius: 1 } },
+          { id: "slash", type: "line", position: { x: 0, y: 0 }, size: { width: 10, height: 5 }, style: {} },
+        ],
+        fields: [],
+      }),
+    });
+
+    expect(zpl).toContain("^FO0,0\n^GB80,40,40,B,3^FS");
+    // The default 1pt stroke is 3 dots at 203 DPI
+    expect(zpl).toContain("^FO0,0\n^GD80,40,3,B,L^FS");
+  });
+
+  test("escapes control characters as hex in field data", async () => {
+    const commands = await renderFields([createTestField({ id: "tag", type: "text", size: { width: 40, height: 5 } })], {
+      assets: [createTestAsset({ assetTag: "A^B~C_D" })],
+    });
+    expect(commands.at(-1)).toBe("^FH^FDA_5EB_7EC_5FD^FS");
+  });
+
+  test("joins wrapped lines with the field block line break and shortens the last", async () => {
+    const field = createTestField({
+      id: "model",
+      type: "text",
+      source: "model",
+      size: { width: 20, height: 10 },
+      style: { ...TEXT_STYLE, overflow: "wrap", textAlign: "center" },
+    });
+    const commands = await renderFields([field], { assets: [createTestAsset({ model: "ThinkPad T14 Gen 5 AMD" })] });
+
+    expect(commands[2]).toMatch(/^\^FB160,2,\d+,C,0$/);
+    expect(commands[3]).toBe("^FH^FDThinkPad\\&T14 Gen 5...^FS");
+  });
+
+  test("rotates fields with the orientation parameter", async () => {
+    const commands = await renderFields([createTestField({ id: "tag", type: "text", rotation: 270 })]);
+    expect(commands[1]).toBe("^A0B,28,28");
+  });
+
+  test("applies printer calibration", async () => {
+    const zpl = await renderZpl({
+      spec: createTestSpec({ elements: [], fields: [createTestField({ id: "tag", type: "text", position: { x: 2, y: 2 } })] }),
+      calibration: { offsetX: 1, offsetY: -1, scale: 1, rotation: 180, darkness: 5, printSpeed: 4 },
+    });
+    const lines = zpl.split("\n");
+
+    expect(lines.slice(5, 8)).toEqual(["^POI", "~SD05", "^PR4"]);
+    // Offsets are reversed under ^POI: 2mm is 16 dots, 1mm is 8
+    expect(lines[8]).toBe("^FO8,24");
+  });
+
+  test("rejects rotations the printer cannot draw", async () => {
+    const shape = (type: "rect" | "line", rotation: number): LabelElement => ({
+      id: "box",
+      type,
+      position: { x: 0, y: 0 },
+      size: { width: 10, height: 5 },
+      style: { stroke: "#000000", strokeWidth: 1 },
+      rotation,
+    });
+    const qr = createTestField({ id: "qr", type: "qrcode", rotation: 90 });
+
+    await expect(renderZpl({ spec: createTestSpec({ elements: [shape("rect", 90)], fields: [] }) })).rejects.toThrow(
+      "ZPL output does not support rotated shapes (element box)"
+    );
+    await expect(renderZpl({ spec: createTestSpec({ elements: [shape("line", 180)], fields: [] }) })).rejects.toThrow(
+      "ZPL output does not support rotated shapes (element box)"
+    );
+    await expect(renderZpl({ spec: createTestSpec({ elements: [shape("rect", 360)], fields: [] }) })).resolves.toContain("^GB");
+    await expect(renderFields([qr])).rejects.toThrow("ZPL output does not support rotated QR codes (field qr)");
+    await expect(renderFields([createTestField({ id: "tag", type: "text", rotation: 45 })])).rejects.toThrow(
+      "ZPL output only supports rotations in 90 degree steps (field tag)"
+    );
+  });
+
+  test("refuses images", async () => {
+    const field = createTestField({ id: "photo", type: "image", source: "customFields.photo" });
+    await expect(renderFields([field])).rejects.toThrow("ZPL output does not support image fields (field photo)");
+  });
+});
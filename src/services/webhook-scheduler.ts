@@ -0,0 +1,45 @@
+import { scheduleWebhookDeliveries } from "@/services/webhook-service";
+
+import type { WebhookSchedulerOptions } from "@/types/webhook";
+
+const DEFAULT_INTERVAL_MS = 5000;
+
+export interface WebhookScheduler {
+  stop(): void;
+}
+
+export function startWebhookScheduler(options: WebhookSchedulerOptions = {}): WebhookScheduler {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  let running = false;
+  let stopping = false;
+
+  async function tick() {
+    if (running || stopping) return;
+    running = true;
+
+    try {
+      const scheduled = await scheduleWebhookDeliveries();
+      if (scheduled > 0) {
+        console.log(`[WEBHOOK_SCHEDULER] Enqueued delivery for ${scheduled} tenants`);
+      }
+    } catch (error) {
+      console.error("[WEBHOOK_SCHEDULER] Tick failed:", error);
+    } finally {
+      running = false;
+    }
+  }
+
+  const timer = setInterval(() => void tick(), intervalMs);
+  void tick();
+
+  console.log(`[WEBHOOK_SCHEDULER] Started (interval ${intervalMs}ms)`);
+
+  return {
+    stop() {
+      if (stopping) return;
+      stopping = true;
+      clearInterval(timer);
+      console.log("[WEBHOOK_SCHEDULER] Stopped");
+    },
+  };
+}
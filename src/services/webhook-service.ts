@@ -2,11 +2,12 @@ import { eq, and, desc, count, lte, or, sql } from "drizzle-orm";
 import { createHash, randomBytes, createHmac, createCipheriv, createDecipheriv } from "crypto";
 
 import { db } from "@/db";
+import type { Database } from "@/db";
 import { webhookSubscriptions, webhookOutbox, webhookDeliveries } from "@/db/schema";
-import { withTenant } from "@/lib/tenant";
+import { listActiveTenantIds, withTenant } from "@/lib/tenant";
 import { validateOutboundWebhookUrl } from "@/lib/ssrf";
 import { createAuditLog } from "@/services/audit-service";
-import { enqueueJob } from "@/services/job-service";
+import { enqueueJob, hasQueuedJob } from "@/services/job-service";
 
 // Encryption for webhook secrets
 const ENCRYPTION_ALGORITHM = "aes-256-gcm";
@@ -289,53 +290,68 @@ export async function deleteWebhookSubscription(
   });
 }
 
-export async function publishEvent(
-  ctx: TenantContext,
+/**
+ * Writes outbox entries for an event inside the caller's transaction, so the
+ * event is only recorded if the domain change commits. Delivery is picked up
+ * by the webhook scheduler.
+ */
+export async function publishEventInTx(
+  tx: Database,
+  tenantId: string,
   input: PublishEventInput
-): Promise<void> {
-  await withTenant(ctx.tenantId, async (tx) => {
-    const subscriptions = await tx
-      .select()
-      .from(webhookSubscriptions)
-      .where(and(
-        eq(webhookSubscriptions.tenantId, ctx.tenantId),
-        eq(webhookSubscriptions.isActive, true)
-      ));
+): Promise<number> {
+  const subscriptions = await tx
+    .select()
+    .from(webhookSubscriptions)
+    .where(and(
+      eq(webhookSubscriptions.tenantId, tenantId),
+      eq(webhookSubscriptions.isActive, true)
+    ));
+
+  const matchingSubscriptions = subscriptions.filter((sub) => {
+    const eventTypes = sub.eventTypes as WebhookEventType[];
+    return eventTypes.includes(input.type);
+  });
 
-    const matchingSubscriptions = subscriptions.filter((sub) => {
-      const eventTypes = sub.eventTypes as WebhookEventType[];
-      return eventTypes.includes(input.type);
-    });
+  for (const subscription of matchingSubscriptions) {
+    const eventId = `evt_${randomBytes(16).toString("hex")}`;
+    const envelope: WebhookEnvelope = {
+      id: eventId,
+      type: input.type,
+      tenantId,
+      createdAt: new Date().toISOString(),
+      data: input.data,
+    };
 
-    for (const subscription of matchingSubscriptions) {
-      const eventId = `evt_${randomBytes(16).toString("hex")}`;
-      const envelope: WebhookEnvelope = {
-        id: eventId,
-        type: input.type,
-        tenantId: ctx.tenantId,
-        createdAt: new Date().toISOString(),
-        data: input.data,
-      };
+    await tx
+      .insert(webhookOutbox)
+      .values({
+        tenantId,
+        subscriptionId: subscription.id,
+        eventType: input.type,
+        eventId,
+        payload: envelope,
+        status: WEBHOOK_OUTBOX_STATUS.PENDING,
+        nextRetryAt: new Date(),
+      });
+  }
 
-      await tx
-        .insert(webhookOutbox)
-        .values({
-          tenantId: ctx.tenantId,
-          subscriptionId: subscription.id,
-          eventType: input.type,
-          eventId,
-          payload: envelope,
-          status: WEBHOOK_OUTBOX_STATUS.PENDING,
-          nextRetryAt: new Date(),
-        });
-    }
-  });
+  return matchingSubscriptions.length;
+}
 
-  await enqueueJob(ctx, {
-    type: JOB_TYPES.WEBHOOK_DELIVER,
-    payload: { tenantId: ctx.tenantId },
-    priority: 10,
-  });
+export async function publishEvent(
+  ctx: TenantContext | { tenantId: string; userId: string | null },
+  input: PublishEventInput
+): Promise<void> {
+  const queued = await withTenant(ctx.tenantId, (tx) => publishEventInTx(tx, ctx.tenantId, input));
+
+  if (queued > 0) {
+    await enqueueJob(ctx, {
+      type: JOB_TYPES.WEBHOOK_DELIVER,
+      payload: { tenantId: ctx.tenantId },
+      priority: 10,
+    });
+  }
 }
 
 export async function listWebhookOutbox(
@@ -474,7 +490,7 @@ export async function processWebhookOutboxForTenant(tenantId: string): Promise<n
 
       await tx
         .update(webhookOutbox)
-        .set({ status: WEBHOOK_OUTBOX_STATUS.PROCESSING })
+        .set({ status: WEBHOOK_OUTBOX_STATUS.PROCESSING, lastAttemptAt: new Date() })
         .where(eq(webhookOutbox.id, row.outbox_id));
 
       return row;
@@ -621,3 +637,70 @@ export async function processWebhookOutboxForTenant(tenantId: string): Promise<n
 
   return processed;
 }
+
+const STUCK_OUTBOX_THRESHOLD_MS = 10 * 60 * 1000;
+
+export async function reclaimStuckWebhookOutbox(tenantId: string): Promise<number> {
+  const stuckThreshold = new Date(Date.now() - STUCK_OUTBOX_THRESHOLD_MS);
+
+  return withTenant(tenantId, async (tx) => {
+    const result = await tx
+      .update(webhookOutbox)
+      .set({
+        status: WEBHOOK_OUTBOX_STATUS.PENDING,
+        nextRetryAt: new Date(),
+      })
+      .where(and(
+        eq(webhookOutbox.tenantId, tenantId),
+        eq(webhookOutbox.status, WEBHOOK_OUTBOX_STATUS.PROCESSING),
+        lte(webhookOutbox.lastAttemptAt, stuckThreshold)
+      ))
+      .returning({ id: webhookOutbox.id });
+
+    return result.length;
+  });
+}
+
+export async function hasDueWebhookOutbox(tenantId: string): Promise<boolean> {
+  return withTenant(tenantId, async (tx) => {
+    const [row] = await tx
+      .select({ id: webhookOutbox.id })
+      .from(webhookOutbox)
+      .where(and(
+        eq(webhookOutbox.tenantId, tenantId),
+        eq(webhookOutbox.status, WEBHOOK_OUTBOX_STATUS.PENDING),
+        lte(webhookOutbox.nextRetryAt, new Date())
+      ))
+      .limit(1);
+
+    return !!row;
+  });
+}
+
+/**
+ * Enqueues a delivery job for every active tenant that has due outbox entries
+ * and no delivery job already waiting. Returns the number of jobs enqueued.
+ */
+export async function scheduleWebhookDeliveries(): Promise<number> {
+  const tenantIds = await listActiveTenantIds();
+  let scheduled = 0;
+
+  for (const tenantId of tenantIds) {
+    const reclaimed = await reclaimStuckWebhookOutbox(tenantId);
+    if (reclaimed > 0) {
+      console.log(`[WEBHOOK_SCHEDULER] Reclaimed ${reclaimed} stuck outbox entries for tenant ${tenantId}`);
+    }
+
+    if (!(await hasDueWebhookOutbox(tenantId))) continue;
+    if (await hasQueuedJob(tenantId, JOB_TYPES.WEBHOOK_DELIVER)) continue;
+
+    await enqueueJob({ tenantId, userId: null }, {
+      type: JOB_TYPES.WEBHOOK_DELIVER,
+      payload: { tenantId },
+      priority: 10,
+    });
+    scheduled++;
+  }
+
+  return scheduled;
+}
@@ -0,0 +1,502 @@
+import QRCode from "qrcode";
+
+import type {
+  LabelSpec,
+  LabelField,
+  LabelElement,
+  LabelUnit,
+  TextStyle,
+  BarcodeStyle,
+  BarcodeFormat,
+  QRCodeStyle,
+  MatrixBarcodeType,
+  DataMatrixStyle,
+  PDF417Style,
+  AztecStyle,
+} from "@/types/label-spec";
+import type { RenderResult, RenderRequest, RenderAssetData, TextOverflowReport } from "@/types/print";
+import type { DateFormatSettings } from "@/types/tenant";
+import type { PrinterCalibration } from "@/types/print-agent";
+import {
+  toDots as unitToDots,
+  pointsToPixels,
+  normalizeRotation,
+  isDarkColor,
+  estimateBarcodeModules,
+  evaluateCondition,
+  applyTextTransform,
+  generatePrintFilename,
+  getGS1Elements,
+  resolveFieldValue,
+} from "@/lib/print-utils";
+import { CODE128_FNC1, encodeGS1, gs1ElementData } from "@/lib/gs1";
+import type { GS1Element, GS1Encoding } from "@/lib/gs1";
+import { DEFAULT_DATE_SETTINGS } from "@/lib/date-format";
+import { encodeMatrixBarcode, getPDF417Dimensions } from "@/lib/matrix-barcode";
+import type { MatrixBarcode } from "@/lib/matrix-barcode";
+import { assertTextFits, layoutText, reportTextOverflow, scaleTextStyle } from "@/lib/text-layout";
+import { isFlippedCalibration } from "@/lib/printer-calibration";
+
+const MAX_QR_MAGNIFICATION = 10;
+const MAX_MODULE_WIDTH = 10;
+const MAX_MATRIX_MODULE_SIZE = 10;
+const MAX_AZTEC_LAYERS = 32;
+
+interface ZplContext {
+  dpi: number; // scaled by the printer calibration, for content
+  unit: LabelUnit;
+  dates: DateFormatSettings;
+  textOverflow: TextOverflowReport[];
+  origin: { x: number; y: number }; // calibration offset in dots
+  setup: string[]; // label size and printer settings
+}
+
+interface DotRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type ZplOrientation = "N" | "R" | "I" | "B";
+
+export async function renderLabelsZpl(request: RenderRequest): Promise<RenderResult> {
+  const { spec, assets, options, dates = DEFAULT_DATE_SETTINGS, calibration } = request;
+  const dpi = options.dpi || spec.dpi;
+  const copies = Math.max(1, Math.min(options.copies ?? 1, 100));
+  const ctx: ZplContext = {
+    dpi: dpi * (calibration?.scale ?? 1),
+    unit: spec.dimensions.unit,
+    dates,
+    textOverflow: [],
+    origin: calibrationOrigin(calibration, dpi),
+    setup: [
+      `^PW${unitToDots(spec.dimensions.width, spec.dimensions.unit, dpi)}`,
+      `^LL${unitToDots(spec.dimensions.height, spec.dimensions.unit, dpi)}`,
+      "^LH0,0",
+      ...calibrationCommands(calibration),
+    ],
+  };
+
+  const labels: string[] = [];
+  for (const asset of assets) {
+    labels.push(renderSingleLabel(ctx, spec, asset, copies));
+  }
+
+  return {
+    buffer: Buffer.from(labels.join("\n"), "utf-8"),
+    mimeType: "application/x-zpl",
+    filename: generatePrintFilename(spec.name, assets.length * copies, "zpl"),
+    pageCount: assets.length * copies,
+    textOverflow: ctx.textOverflow,
+  };
+}
+
+function renderSingleLabel(
+  ctx: ZplContext,
+  spec: LabelSpec,
+  asset: RenderAssetData,
+  copies: number
+): string {
+  const commands: string[] = ["^XA", "^CI28", ...ctx.setup];
+
+  for (const element of spec.elements) {
+    if (element.visible === false) continue;
+    if (element.condition && !evaluateCondition(element.condition, asset, ctx.dates)) continue;
+    commands.push(...renderElement(ctx, element));
+  }
+
+  for (const field of spec.fields) {
+    if (field.visible === false) continue;
+    if (field.condition && !evaluateCondition(field.condition, asset, ctx.dates)) continue;
+    commands.push(...renderField(ctx, field, asset));
+  }
+
+  commands.push(`^PQ${copies}`, "^XZ");
+  return commands.join("\n");
+}
+
+function renderElement(ctx: ZplContext, element: LabelElement): string[] {
+  const rect = toDotRect(ctx, element.position, element.size);
+  const orientation = toOrientation(element.rotation, `element ${element.id}`);
+
+  switch (element.type) {
+    case "text": {
+      const style: TextStyle = {
+        fontFamily: element.style.fontFamily ?? "Arial",
+        fontSize: element.style.fontSize ?? 10,
+        fontWeight: element.style.fontWeight ?? "normal",
+        fontStyle: "normal",
+        color: element.style.color ?? "#000000",
+        textAlign: element.style.textAlign ?? "left",
+        verticalAlign: "top",
+      };
+      return renderText(ctx, rect, element.content ?? "", style, orientation, element.id);
+    }
+    case "rect":
+      assertUnrotated(orientation, `element ${element.id}`);
+      return renderRect(ctx, rect, element.style);
+    case "line":
+      assertUnrotated(orientation, `element ${element.id}`);
+      return renderLine(ctx, rect, element.style);
+    case "image":
+    case "logo":
+      throw new Error(`ZPL output does not support ${element.type} elements (element ${element.id})`);
+  }
+}
+
+function renderField(ctx: ZplContext, field: LabelField, asset: RenderAssetData): string[] {
+  const rect = toDotRect(ctx, field.position, field.size);
+  const orientation = toOrientation(field.rotation, `field ${field.id}`);
+  const value = resolveFieldValue(asset, field, ctx.dates);
+  const gs1 = field.gs1 ? getGS1Elements(asset, field.gs1) : null;
+
+  switch (field.type) {
+    case "text":
+    case "date":
+      return renderText(ctx, rect, value, field.style as TextStyle, orientation, field.id, () =>
+        reportTextOverflow(ctx.textOverflow, asset.id, field)
+      );
+    case "barcode":
+      return renderBarcode(ctx, rect, value, field.style as BarcodeStyle, orientation, field.id, gs1);
+    case "qrcode":
+      // ^BQ only has the normal orientation
+      if (orientation !== "N") {
+        throw new Error(`ZPL output does not support rotated QR codes (field ${field.id})`);
+      }
+      return renderQRCode(rect, value, field.style as QRCodeStyle);
+    case "datamatrix":
+    case "pdf417":
+    case "aztec":
+      return renderMatrixBarcode(
+        rect,
+        value,
+        field.type,
+        field.style as DataMatrixStyle | PDF417Style | AztecStyle,
+        orientation,
+        gs1
+      );
+    case "image":
+      throw new Error(`ZPL output does not support image fields (field ${field.id})`);
+  }
+}
+
+function renderText(
+  ctx: ZplContext,
+  rect: DotRect,
+  text: string,
+  style: TextStyle,
+  orientation: ZplOrientation,
+  id: string,
+  onTruncated?: () => void
+): string[] {
+  if (!text) return [];
+
+  const displayText = applyTextTransform(text, style.textTransform);
+  // Font 0 is proportional with Helvetica-like widths; lay out in dots
+  const layout = layoutText(displayText, scaleTextStyle(style, pointsToPixels(1, ctx.dpi)), rect.width, rect.height);
+  assertTextFits(layout, style, id);
+  if (layout.truncated) onTruncated?.();
+
+  const fontDots = Math.max(10, Math.round(layout.fontSize));
+  const lineDots = Math.round(layout.lineHeight);
+  const justification = style.textAlign === "center" ? "C" : style.textAlign === "right" ? "R" : "L";
+
+  return [
+    `^FO${rect.x},${rect.y + Math.round(layout.top)}`,
+    `^A0${orientation},${fontDots},${fontDots}`,
+    `^FB${rect.width},${layout.lines.length},${lineDots - fontDots},${justification},0`,
+    // \& is the ^FB line break
+    `^FH^FD${layout.lines.map(escapeFieldData).join("\\&")}^FS`,
+  ];
+}
+
+function renderBarcode(
+  ctx: ZplContext,
+  rect: DotRect,
+  value: string,
+  style: BarcodeStyle,
+  orientation: ZplOrientation,
+  fieldId: string,
+  gs1: GS1Element[] | null = null
+): string[] {
+  if (gs1 ? gs1.length === 0 : !value) return [];
+
+  const encoding = gs1 ? encodeGS1(gs1) : null;
+  const modules = estimateBarcodeModules(
+    style.format,
+    encoding ? gs1ElementData(encoding, CODE128_FNC1) : value
+  );
+  const moduleWidth = Math.max(1, Math.min(MAX_MODULE_WIDTH, Math.floor(rect.width / modules)));
+  const textReserve = style.displayValue ? Math.round(pointsToDots(ctx, style.fontSize) * 1.2) : 0;
+  const barHeight = Math.max(1, rect.height - textReserve);
+  const interpretation = style.displayValue ? "Y" : "N";
+
+  const barcodeWidth = modules * moduleWidth;
+  let x = rect.x;
+  if (style.textAlign === "center") {
+    x = rect.x + Math.max(0, Math.round((rect.width - barcodeWidth) / 2));
+  } else if (style.textAlign === "right") {
+    x = rect.x + Math.max(0, rect.width - barcodeWidth);
+  }
+
+  return [
+    `^FO${x},${rect.y}`,
+    `^BY${moduleWidth},3,${barHeight}`,
+    // Mode D (UCC/EAN) takes "(AI)value" data and inserts FNC1 itself
+    encoding
+      ? `^BC${orientation},${barHeight},${interpretation},N,N,D`
+      : barcodeCommand(style.format, orientation, barHeight, interpretation, value, fieldId),
+    `^FH^FD${escapeFieldData(encoding ? encoding.text : value)}^FS`,
+  ];
+}
+
+function barcodeCommand(
+  format: BarcodeFormat,
+  orientation: ZplOrientation,
+  height: number,
+  interpretation: "Y" | "N",
+  value: string,
+  fieldId: string
+): string {
+  switch (format) {
+    case "CODE128":
+      return `^BC${orientation},${height},${interpretation},N,N,A`;
+    case "CODE39":
+      return `^B3${orientation},N,${height},${interpretation},N`;
+    case "EAN13":
+      return `^BE${orientation},${height},${interpretation},N`;
+    case "EAN8":
+      return `^B8${orientation},${height},${interpretation},N`;
+    case "UPC":
+      return `^BU${orientation},${height},${interpretation},N,Y`;
+    case "ITF14":
+      return `^B2${orientation},${height},${interpretation},N,${value.length === 13 ? "Y" : "N"}`;
+    case "MSI":
+    case "MSI10":
+      // Check digit mode A adds none, B one mod-10 digit
+      return `^BM${orientation},${format === "MSI10" ? "B" : "A"},${height},${interpretation},N,N`;
+    default:
+      throw new Error(`ZPL output does not support ${format} barcodes (field ${fieldId})`);
+  }
+}
+
+function renderQRCode(rect: DotRect, value: string, style: QRCodeStyle): string[] {
+  if (!value) return [];
+
+  const moduleCount = QRCode.create(value, {
+    errorCorrectionLevel: style.errorCorrectionLevel,
+  }).modules.size + style.margin * 2;
+  const size = Math.min(rect.width, rect.height);
+  const magnification = Math.max(1, Math.min(MAX_QR_MAGNIFICATION, Math.floor(size / moduleCount)));
+
+  const symbolSize = moduleCount * magnification;
+  const x = rect.x + Math.max(0, Math.round((rect.width - symbolSize) / 2)) + style.margin * magnification;
+  const y = rect.y + Math.max(0, Math.round((rect.height - symbolSize) / 2)) + style.margin * magnification;
+
+  return [
+    `^FO${x},${y}`,
+    `^BQN,2,${magnification},${style.errorCorrectionLevel},7`,
+    `^FH^FD${style.errorCorrectionLevel}A,${escapeFieldData(value)}^FS`,
+  ];
+}
+
+function renderMatrixBarcode(
+  rect: DotRect,
+  value: string,
+  type: MatrixBarcodeType,
+  style: DataMatrixStyle | PDF417Style | AztecStyle,
+  orientation: ZplOrientation,
+  gs1: GS1Element[] | null = null
+): string[] {
+  if (gs1 ? gs1.length === 0 : !value) return [];
+
+  const encoding = gs1 ? encodeGS1(gs1) : null;
+  const barcode = encodeMatrixBarcode(type, value, style, encoding);
+  const sideways = orientation === "R" || orientation === "B";
+  const columns = (sideways ? barcode.rows : barcode.columns) + style.margin * 2;
+  const rows = (sideways ? barcode.columns : barcode.rows) + style.margin * 2;
+  const moduleSize = Math.max(
+    1,
+    Math.min(MAX_MATRIX_MODULE_SIZE, Math.floor(Math.min(rect.width / columns, rect.height / rows)))
+  );
+
+  const x = rect.x + Math.max(0, Math.round((rect.width - columns * moduleSize) / 2)) + style.margin * moduleSize;
+  const y = rect.y + Math.max(0, Math.round((rect.height - rows * moduleSize) / 2)) + style.margin * moduleSize;
+
+  return [
+    `^FO${x},${y}`,
+    ...matrixBarcodeCommands(barcode, style, orientation, moduleSize),
+    `^FH^FD${escapeFieldData(encoding ? gs1DataMatrixData(encoding) : value)}^FS`,
+  ];
+}
+
+/**
+ * ^BX reads "~1" (its escape character plus 1) as FNC1: leading it marks the
+ * symbol as GS1, elsewhere it separates variable-length elements. The GS1
+ * character set has no "~", so values cannot collide with it
+ */
+function gs1DataMatrixData(encoding: GS1Encoding): string {
+  return `~1${gs1ElementData(encoding, "~1")}`;
+}
+
+function matrixBarcodeCommands(
+  barcode: MatrixBarcode,
+  style: DataMatrixStyle | PDF417Style | AztecStyle,
+  orientation: ZplOrientation,
+  moduleSize: number
+): string[] {
+  switch (barcode.type) {
+    case "datamatrix": {
+      const aspect = (style as DataMatrixStyle).shape === "rectangle" ? 2 : 1;
+      return [`^BX${orientation},${moduleSize},200,${barcode.columns},${barcode.rows},6,~,${aspect}`];
+    }
+    case "pdf417": {
+      const s = style as PDF417Style;
+      const { columns, rows } = getPDF417Dimensions(barcode, s);
+      return [
+        `^BY${moduleSize}`,
+        `^B7${orientation},${s.rowHeight * moduleSize},${s.errorCorrectionLevel},${columns},${rows},${s.compact ? "Y" : "N"}`,
+      ];
+    }
+    case "aztec":
+      return [`^BO${orientation},${moduleSize},N,${aztecSymbolSize(barcode, style as AztecStyle)}`];
+  }
+}
+
+/**
+ * ^BO takes either an error correction percentage or a fixed layer count
+ * (101-104 compact, 201-232 full range), so a forced format is pinned to
+ * the layer count of the encoded symbol
+ */
+function aztecSymbolSize(barcode: MatrixBarcode, style: AztecStyle): number {
+  if (style.format === "compact") {
+    return 100 + (barcode.columns - 11) / 4;
+  }
+
+  if (style.format === "full") {
+    for (let layers = 1; layers <= MAX_AZTEC_LAYERS; layers++) {
+      const base = 14 + layers * 4;
+      if (base + 1 + 2 * Math.floor((base / 2 - 1) / 15) === barcode.columns) {
+        return 200 + layers;
+      }
+    }
+  }
+
+  return style.errorCorrectionPercent;
+}
+
+function renderRect(ctx: ZplContext, rect: DotRect, style: LabelElement["style"]): string[] {
+  const commands: string[] = [];
+  const rounding = style.borderRadius
+    ? Math.min(8, Math.round((toDots(ctx, style.borderRadius) / Math.min(rect.width, rect.height)) * 16))
+    : 0;
+
+  if (style.fill && isDarkColor(style.fill)) {
+    const thickness = Math.min(rect.width, rect.height);
+    commands.push(`^FO${rect.x},${rect.y}`, `^GB${rect.width},${rect.height},${thickness},B,${rounding}^FS`);
+  }
+
+  if (style.stroke && style.strokeWidth) {
+    const thickness = Math.max(1, pointsToDots(ctx, style.strokeWidth));
+    const color = isDarkColor(style.stroke) ? "B" : "W";
+    commands.push(`^FO${rect.x},${rect.y}`, `^GB${rect.width},${rect.height},${thickness},${color},${rounding}^FS`);
+  }
+
+  return commands;
+}
+
+function renderLine(ctx: ZplContext, rect: DotRect, style: LabelElement["style"]): string[] {
+  const thickness = Math.max(1, pointsToDots(ctx, style.strokeWidth ?? 1));
+  const color = isDarkColor(style.stroke ?? "#000000") ? "B" : "W";
+
+  if (rect.height === 0 || rect.width === 0) {
+    const width = Math.max(rect.width, thickness);
+    const height = Math.max(rect.height, thickness);
+    return [`^FO${rect.x},${rect.y}`, `^GB${width},${height},${thickness},${color},0^FS`];
+  }
+
+  return [`^FO${rect.x},${rect.y}`, `^GD${rect.width},${rect.height},${thickness},${color},L^FS`];
+}
+
+function toDots(ctx: ZplContext, value: number): number {
+  return unitToDots(value, ctx.unit, ctx.dpi);
+}
+
+function pointsToDots(ctx: ZplContext, points: number): number {
+  return Math.round(pointsToPixels(points, ctx.dpi));
+}
+
+/**
+ * Field origins cannot be negative, so content shifted past the label edge
+ * is clamped to it
+ */
+function toDotRect(
+  ctx: ZplContext,
+  position: { x: number; y: number },
+  size: { width: number; height: number }
+): DotRect {
+  return {
+    x: Math.max(0, ctx.origin.x + toDots(ctx, position.x)),
+    y: Math.max(0, ctx.origin.y + toDots(ctx, position.y)),
+    width: toDots(ctx, size.width),
+    height: toDots(ctx, size.height),
+  };
+}
+
+/**
+ * Calibration offsets in dots. With ^POI the printer turns the whole label,
+ * so offsets measured on the printed label are applied reversed.
+ */
+function calibrationOrigin(calibration: PrinterCalibration | null | undefined, dpi: number): { x: number; y: number } {
+  if (!calibration) return { x: 0, y: 0 };
+  const sign = isFlippedCalibration(calibration) ? -1 : 1;
+  return {
+    x: sign * unitToDots(calibration.offsetX, "mm", dpi),
+    y: sign * unitToDots(calibration.offsetY, "mm", dpi),
+  };
+}
+
+function calibrationCommands(calibration: PrinterCalibration | null | undefined): string[] {
+  if (!calibration) return [];
+
+  const commands: string[] = [];
+  if (isFlippedCalibration(calibration)) {
+    commands.push("^POI");
+  }
+  if (calibration.darkness !== undefined) {
+    commands.push(`~SD${String(Math.round(calibration.darkness)).padStart(2, "0")}`);
+  }
+  if (calibration.printSpeed !== undefined) {
+    commands.push(`^PR${Math.round(calibration.printSpeed)}`);
+  }
+  return commands;
+}
+
+function toOrientation(rotation: number | undefined, label: string): ZplOrientation {
+  const normalized = normalizeRotation(rotation);
+  if (rotation !== undefined && ((rotation % 360) + 360) % 360 !== normalized) {
+    throw new Error(`ZPL output only supports rotations in 90 degree steps (${label})`);
+  }
+
+  switch (normalized) {
+    case 90:
+      return "R";
+    case 180:
+      return "I";
+    case 270:
+      return "B";
+    default:
+      return "N";
+  }
+}
+
+function assertUnrotated(orientation: ZplOrientation, label: string): void {
+  if (orientation !== "N") {
+    throw new Error(`ZPL output does not support rotated shapes (${label})`);
+  }
+}
+
+function escapeFieldData(value: string): string {
+  return value.replace(/[_^~]/g, (char) => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
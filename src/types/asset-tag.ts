@@ -0,0 +1,33 @@
+import type { EquipmentCategory } from "./asset";
+
+/**
+ * Tenant tag pattern used when an asset of the category is created without
+ * an asset tag. See src/lib/asset-tag-pattern.ts for the syntax.
+ */
+export interface AssetTagPattern {
+  id: string;
+  tenantId: string;
+  category: EquipmentCategory;
+  pattern: string; // e.g. "NET-{YYYY}-{seq:5}"
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAssetTagPatternInput {
+  category: EquipmentCategory;
+  pattern: string;
+  description?: string | null;
+}
+
+export type UpdateAssetTagPatternInput = Partial<Omit<CreateAssetTagPatternInput, "category">>;
+
+/**
+ * The tag the next asset would get. Previews do not allocate a sequence
+ * number, so a concurrent create can take the previewed tag first.
+ */
+export interface AssetTagPreview {
+  pattern: string | null; // null when the category has no pattern
+  tag: string | null;
+  error: string | null; // e.g. a field the pattern needs is empty
+}
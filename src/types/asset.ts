@@ -162,7 +162,7 @@ export const CATEGORY_FIELD_SCHEMAS: Record<EquipmentCategory, CategoryFieldSche
 export interface CreateAssetInput {
   category: EquipmentCategory;
   type: string;
-  assetTag: string;
+  assetTag?: string; // generated from the category's tag pattern when omitted
   serialNumber: string;
   manufacturer: string;
   model: string;
@@ -21,12 +21,23 @@ export const AUDIT_ACTIONS = {
   ASSET_UPDATED: "asset.updated",
   ASSET_DELETED: "asset.deleted",
   ASSET_STATUS_CHANGED: "asset.status_changed",
+  ASSET_TAG_RENAMED: "asset.tag_renamed", // duplicate tags renamed by migration 0008
+  ASSET_TAG_PATTERN_CREATED: "asset.tag_pattern_created",
+  ASSET_TAG_PATTERN_UPDATED: "asset.tag_pattern_updated",
+  ASSET_TAG_PATTERN_DELETED: "asset.tag_pattern_deleted",
+  TAG_BATCH_CREATED: "asset.tag_batch_created",
+  TAG_BATCH_VOIDED: "asset.tag_batch_voided",
   
   // Template management
   TEMPLATE_CREATED: "template.created",
   TEMPLATE_UPDATED: "template.updated",
   TEMPLATE_DELETED: "template.deleted",
   TEMPLATE_PUBLISHED: "template.published",
+  FONT_UPLOADED: "font.uploaded",
+  FONT_DELETED: "font.deleted",
+  LABEL_FORMAT_CREATED: "label_format.created",
+  LABEL_FORMAT_UPDATED: "label_format.updated",
+  LABEL_FORMAT_DELETED: "label_format.deleted",
   
   // Print operations
   PRINT_JOB_CREATED: "print.job_created",
@@ -60,14 +71,22 @@ export const AUDIT_ACTIONS = {
   // Print Agent management
   PRINT_AGENT_REGISTERED: "print.agent_registered",
   PRINT_AGENT_UPDATED: "print.agent_updated",
+  PRINTER_CALIBRATED: "print.printer_calibrated",
   PRINT_DISPATCHED: "print.dispatched",
   PRINT_DISPATCH_COMPLETED: "print.dispatch_completed",
   PRINT_DISPATCH_FAILED: "print.dispatch_failed",
+  PRINT_ROUTE_CREATED: "print.route_created",
+  PRINT_ROUTE_UPDATED: "print.route_updated",
+  PRINT_ROUTE_DELETED: "print.route_deleted",
+  PRINT_ROUTED: "print.routed",
   
   // Cloud Print
   CLOUD_PRINT_SUBMITTED: "cloud_print.submitted",
   CLOUD_PRINT_COMPLETED: "cloud_print.completed",
   CLOUD_PRINT_FAILED: "cloud_print.failed",
+  CLOUD_PRINT_PROVIDER_CREATED: "cloud_print.provider_created",
+  CLOUD_PRINT_PROVIDER_UPDATED: "cloud_print.provider_updated",
+  CLOUD_PRINT_PROVIDER_DELETED: "cloud_print.provider_deleted",
   
   // Tenant management
   TENANT_SETTINGS_UPDATED: "tenant.settings_updated",
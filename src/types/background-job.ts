@@ -62,5 +62,6 @@ export interface JobWorkerOptions {
   instanceId: string;
   pollMs?: number;
   concurrency?: number;
+  heartbeatMs?: number; // how often running jobs refresh their lock
   types?: JobType[];
 }
@@ -0,0 +1,94 @@
+import type { PrinterLanguage } from "./print-agent";
+
+export const CLOUD_PRINT_PROVIDER_TYPES = {
+  IPP: "ipp",
+  MOCK: "mock",
+} as const;
+
+export type CloudPrintProviderType =
+  (typeof CLOUD_PRINT_PROVIDER_TYPES)[keyof typeof CLOUD_PRINT_PROVIDER_TYPES];
+
+/**
+ * Normalized state of a job on the remote print service
+ */
+export const CLOUD_PRINT_JOB_STATES = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  COMPLETED: "completed",
+  FAILED: "failed",
+  CANCELLED: "cancelled",
+} as const;
+
+export type CloudPrintJobState =
+  (typeof CLOUD_PRINT_JOB_STATES)[keyof typeof CLOUD_PRINT_JOB_STATES];
+
+/**
+ * A configured provider row from `cloud_print_providers`.
+ * Secret config values are masked when returned through the API.
+ */
+export interface CloudPrintProvider {
+  id: string;
+  tenantId: string;
+  provider: string;
+  name: string;
+  config: Record<string, unknown>;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface CloudPrintDocument {
+  data: Buffer;
+  mimeType: string;
+  filename: string;
+  jobName: string;
+}
+
+export interface CloudPrintJobStatus {
+  state: CloudPrintJobState;
+  message?: string;
+}
+
+export interface CloudPrintSubmission extends CloudPrintJobStatus {
+  remoteJobId: string;
+}
+
+/**
+ * Implementation of a remote print service. Adapters are stateless; the stored
+ * provider config is validated with `parseConfig` and passed to every call.
+ */
+export interface CloudPrintAdapter<TConfig = Record<string, unknown>> {
+  type: string;
+  /** Config keys that are write-only and never returned by the API */
+  secretFields: string[];
+  parseConfig(config: unknown): TConfig;
+  submit(config: TConfig, document: CloudPrintDocument): Promise<CloudPrintSubmission>;
+  getStatus(config: TConfig, remoteJobId: string): Promise<CloudPrintJobStatus>;
+  cancel(config: TConfig, remoteJobId: string): Promise<void>;
+}
+
+export interface CreateCloudPrintProviderInput {
+  provider: string;
+  name: string;
+  config: Record<string, unknown>;
+  isActive?: boolean;
+}
+
+export interface UpdateCloudPrintProviderInput {
+  name?: string;
+  /** Merged into the stored config, so secrets can be omitted to keep them */
+  config?: Record<string, unknown>;
+  isActive?: boolean;
+}
+
+export interface SubmitCloudPrintInput {
+  providerId: string;
+  format?: PrinterLanguage;
+}
+
+export interface CloudPrintSyncResult {
+  checked: number;
+  completed: number;
+  failed: number;
+  pending: number;
+}
@@ -0,0 +1,57 @@
+/**
+ * Font files tenants can upload. Only TrueType outlines can be embedded in
+ * PDFs, so OpenType files must carry TrueType (not CFF) outlines.
+ */
+export const FONT_FILE_FORMATS = {
+  TTF: "ttf",
+  OTF: "otf",
+} as const;
+
+export type FontFileFormat = (typeof FONT_FILE_FORMATS)[keyof typeof FONT_FILE_FORMATS];
+
+export const FONT_MIME_TYPES: Record<FontFileFormat, string> = {
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+export const MAX_FONT_FILE_SIZE = 20 * 1024 * 1024;
+
+export type FontWeight = "normal" | "bold";
+export type FontStyle = "normal" | "italic";
+
+/**
+ * One face of a tenant font family. Label specs reference fonts by family,
+ * and the renderer picks the face matching the text's weight and style.
+ */
+export interface TenantFont {
+  id: string;
+  tenantId: string;
+  family: string;
+  weight: FontWeight;
+  style: FontStyle;
+  format: FontFileFormat;
+  fileName: string;
+  fileSize: number;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface UploadFontInput {
+  fileName: string;
+  data: Buffer;
+  family?: string; // defaults to the family name in the font file
+  weight?: FontWeight;
+  style?: FontStyle;
+}
+
+/**
+ * Font file handed to the renderers with a render request
+ */
+export interface RenderFont {
+  id: string;
+  family: string;
+  weight: FontWeight;
+  style: FontStyle;
+  format: FontFileFormat;
+  data: Uint8Array;
+}
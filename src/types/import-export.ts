@@ -110,6 +110,26 @@ export interface CreateImportJobInput {
   fileContent: Buffer;
 }
 
+export interface ImportAssetsJobPayload {
+  jobId: string;
+  tenantId: string;
+  fileContent: string;
+  sourceType: ImportSourceType;
+  templateId?: string;
+  mappingOverride?: ImportTemplateMapping;
+}
+
+export interface ImportJobProgress {
+  jobId: string;
+  status: ImportJobStatus;
+  totalRows: number;
+  processedRows: number;
+  successRows: number;
+  errorRows: number;
+  percent: number;
+  error: string | null;
+}
+
 export interface ImportJobListResult {
   jobs: ImportJob[];
   total: number;
@@ -166,3 +186,15 @@ export interface ExportResult {
   filename: string;
   mimeType: string;
 }
+
+export interface ExportAssetsJobPayload {
+  jobId: string;
+  tenantId: string;
+}
+
+export interface ExportJobListResult {
+  jobs: ExportJob[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
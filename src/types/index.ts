@@ -2,7 +2,11 @@ export * from "./permissions";
 export * from "./tenant";
 export * from "./user";
 export * from "./asset";
+export * from "./asset-tag";
+export * from "./tag-batch";
 export * from "./label-spec";
+export * from "./font";
+export * from "./label-format";
 export * from "./template";
 export * from "./audit";
 export * from "./print";
@@ -11,3 +15,6 @@ export * from "./background-job";
 export * from "./webhook";
 export * from "./import-export";
 export * from "./print-agent";
+export * from "./print-route";
+export * from "./cloud-print";
+export * from "./storage";
@@ -0,0 +1,161 @@
+import type { LabelUnit } from "./label-spec";
+
+export const LABEL_STOCK_TYPES = {
+  SHEET: "sheet",
+  ROLL: "roll",
+} as const;
+
+export type LabelStockType = (typeof LABEL_STOCK_TYPES)[keyof typeof LABEL_STOCK_TYPES];
+
+/**
+ * Label stock templates are laid out for. Roll stock prints one label per
+ * page; sheet stock places columns x rows labels on a paper sheet, offset by
+ * the margins and gaps. All lengths are in `unit`.
+ */
+export interface LabelFormat {
+  id: string;
+  tenantId: string;
+  key: string; // stored in label_templates.format, e.g. "avery-5160"
+  name: string;
+  description: string | null;
+  stockType: LabelStockType;
+  unit: LabelUnit;
+  width: number;
+  height: number;
+  cornerRadius: number;
+  paperWidth: number | null; // sheet stock only
+  paperHeight: number | null;
+  columns: number;
+  rows: number;
+  marginTop: number;
+  marginLeft: number;
+  horizontalGap: number;
+  verticalGap: number;
+  isSystem: boolean; // seeded formats can't be edited or deleted
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type LabelFormatDefinition = Omit<LabelFormat, "id" | "tenantId" | "isSystem" | "createdAt" | "updatedAt">;
+
+export type CreateLabelFormatInput = Omit<LabelFormatDefinition, "key" | "description"> & {
+  key?: string; // derived from the name when omitted
+  description?: string | null;
+};
+
+export type UpdateLabelFormatInput = Partial<Omit<CreateLabelFormatInput, "key">>;
+
+/** Format new templates start from */
+export const DEFAULT_LABEL_FORMAT_KEY = "avery-5160";
+
+const LETTER = { paperWidth: 215.9, paperHeight: 279.4 };
+const AVERY_LETTER = { ...LETTER, marginTop: 12.7, marginLeft: 4.8, horizontalGap: 3.2, verticalGap: 0 };
+const ROLL = {
+  stockType: LABEL_STOCK_TYPES.ROLL,
+  paperWidth: null,
+  paperHeight: null,
+  columns: 1,
+  rows: 1,
+  marginTop: 0,
+  marginLeft: 0,
+  horizontalGap: 0,
+  verticalGap: 0,
+};
+
+/**
+ * Formats seeded into every tenant as system formats
+ */
+export const SYSTEM_LABEL_FORMATS: LabelFormatDefinition[] = [
+  {
+    key: "avery-5160",
+    name: "Avery 5160",
+    description: "Address labels, 30 per Letter sheet",
+    stockType: LABEL_STOCK_TYPES.SHEET,
+    unit: "mm",
+    width: 66.7,
+    height: 25.4,
+    cornerRadius: 0,
+    columns: 3,
+    rows: 10,
+    ...AVERY_LETTER,
+  },
+  {
+    key: "avery-5161",
+    name: "Avery 5161",
+    description: "Address labels, 20 per Letter sheet",
+    stockType: LABEL_STOCK_TYPES.SHEET,
+    unit: "mm",
+    width: 101.6,
+    height: 25.4,
+    cornerRadius: 0,
+    columns: 2,
+    rows: 10,
+    ...AVERY_LETTER,
+  },
+  {
+    key: "avery-5163",
+    name: "Avery 5163",
+    description: "Shipping labels, 10 per Letter sheet",
+    stockType: LABEL_STOCK_TYPES.SHEET,
+    unit: "mm",
+    width: 101.6,
+    height: 50.8,
+    cornerRadius: 0,
+    columns: 2,
+    rows: 5,
+    ...AVERY_LETTER,
+  },
+  {
+    key: "avery-5164",
+    name: "Avery 5164",
+    description: "Shipping labels, 6 per Letter sheet",
+    stockType: LABEL_STOCK_TYPES.SHEET,
+    unit: "mm",
+    width: 101.6,
+    height: 88.9,
+    cornerRadius: 0,
+    columns: 2,
+    rows: 3,
+    ...AVERY_LETTER,
+  },
+  {
+    key: "dymo-30252",
+    name: "DYMO 30252",
+    description: "Address labels, roll",
+    unit: "mm",
+    width: 89,
+    height: 28,
+    cornerRadius: 0,
+    ...ROLL,
+  },
+  {
+    key: "dymo-30336",
+    name: "DYMO 30336",
+    description: "Multipurpose labels, roll",
+    unit: "mm",
+    width: 54,
+    height: 25,
+    cornerRadius: 0,
+    ...ROLL,
+  },
+  {
+    key: "brother-dk2205",
+    name: "Brother DK-2205",
+    description: "Continuous tape cut to 30.48 mm",
+    unit: "mm",
+    width: 62,
+    height: 30.48,
+    cornerRadius: 0,
+    ...ROLL,
+  },
+  {
+    key: "custom",
+    name: "Custom",
+    description: "Free-form size set in the designer",
+    unit: "mm",
+    width: 50,
+    height: 25,
+    cornerRadius: 0,
+    ...ROLL,
+  },
+];
@@ -50,7 +50,20 @@ export interface LabelSpec {
 /**
  * Field types for dynamic content
  */
-export type LabelFieldType = "text" | "qrcode" | "barcode" | "image" | "date";
+export type LabelFieldType =
+  | "text"
+  | "qrcode"
+  | "barcode"
+  | "datamatrix"
+  | "pdf417"
+  | "aztec"
+  | "image"
+  | "date";
+
+/**
+ * 2D symbologies rendered from a module matrix
+ */
+export type MatrixBarcodeType = "datamatrix" | "pdf417" | "aztec";
 
 /**
  * Barcode formats supported
@@ -63,6 +76,7 @@ export type BarcodeFormat =
   | "UPC" 
   | "ITF14"
   | "MSI"
+  | "MSI10" // MSI with a mod-10 check digit
   | "pharmacode";
 
 /**
@@ -71,6 +85,15 @@ export type BarcodeFormat =
 export type TextAlign = "left" | "center" | "right";
 export type VerticalAlign = "top" | "middle" | "bottom";
 
+/**
+ * What to do when text does not fit its box:
+ * - shrink: reduce the font size down to minFontSize, then ellipsis
+ * - wrap: break into lines, up to maxLines or as many as fit, then ellipsis
+ * - ellipsis: a single line ending in "..."
+ * - error: fail the render instead of printing partial text
+ */
+export type TextOverflowMode = "shrink" | "wrap" | "ellipsis" | "error";
+
 /**
  * Text style configuration
  */
@@ -85,6 +108,10 @@ export interface TextStyle {
   lineHeight?: number;
   letterSpacing?: number;
   textTransform?: "none" | "uppercase" | "lowercase" | "capitalize";
+  dateFormat?: string; // Date fields only, e.g. "DD MMM YYYY"; defaults to the tenant format
+  overflow?: TextOverflowMode; // default "wrap"
+  minFontSize?: number; // in points, for "shrink"
+  maxLines?: number; // for "shrink" (default 1) and "wrap"
 }
 
 /**
@@ -111,6 +138,59 @@ export interface QRCodeStyle {
   lightColor: string;
 }
 
+/**
+ * DataMatrix (ECC 200) style configuration
+ */
+export interface DataMatrixStyle {
+  shape: "square" | "rectangle";
+  margin: number; // quiet zone in modules
+  darkColor: string;
+  lightColor: string;
+}
+
+/**
+ * PDF417 style configuration
+ */
+export interface PDF417Style {
+  columns: number; // data columns, 0 = auto
+  errorCorrectionLevel: number; // 0-8
+  rowHeight: number; // row height in modules
+  compact: boolean; // truncated PDF417 without right row indicators
+  margin: number;
+  darkColor: string;
+  lightColor: string;
+}
+
+/**
+ * Aztec code style configuration
+ */
+export interface AztecStyle {
+  errorCorrectionPercent: number; // 5-95
+  format: "auto" | "compact" | "full";
+  margin: number;
+  darkColor: string;
+  lightColor: string;
+}
+
+/**
+ * GS1 Application Identifiers a field can compose
+ */
+export type GS1ApplicationIdentifier = "01" | "10" | "17" | "21";
+
+export interface GS1ElementBinding {
+  ai: GS1ApplicationIdentifier;
+  source: string; // Asset field path for the AI value
+  fallback?: string;
+}
+
+/**
+ * GS1 mode for Code 128 barcode and DataMatrix fields: the symbol encodes
+ * these AIs instead of the field's single source
+ */
+export interface GS1Binding {
+  elements: GS1ElementBinding[];
+}
+
 /**
  * Image style configuration
  */
@@ -129,6 +209,9 @@ export interface LabelField {
   // Data binding
   source: string; // Asset field path, e.g., "serialNumber", "customFields.ipAddress"
   fallback?: string; // Fallback value if source is empty
+  template?: string; // Replaces source when set, e.g. "Rack {{ customFields.rackUnit | pad:2:\"0\" }}"
+  gs1?: GS1Binding;
+  required?: boolean; // Preflight flags assets that leave it empty; barcode and 2D code fields always are
   
   // Position and size (in label units)
   position: LabelPosition;
@@ -138,22 +221,58 @@ export interface LabelField {
   rotation?: number;
   
   // Type-specific styles
-  style: TextStyle | BarcodeStyle | QRCodeStyle | ImageStyle;
+  style:
+    | TextStyle
+    | BarcodeStyle
+    | QRCodeStyle
+    | DataMatrixStyle
+    | PDF417Style
+    | AztecStyle
+    | ImageStyle;
   
   // Visibility conditions
   visible?: boolean;
-  condition?: FieldCondition;
+  condition?: LabelCondition;
 }
 
+export type ConditionOperator =
+  | "eq"
+  | "neq"
+  | "contains"
+  | "empty"
+  | "notEmpty"
+  | "in" // value is a comma-separated list
+  | "notIn"
+  | "matches" // value is a regular expression
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte";
+
 /**
- * Condition for field visibility
+ * Single check against an asset field. The comparison operators compare
+ * dates when the value is a date (YYYY-MM-DD, or today with an offset such
+ * as today+90d or today-1y), and numbers otherwise.
  */
 export interface FieldCondition {
   field: string; // Asset field to check
-  operator: "eq" | "neq" | "contains" | "empty" | "notEmpty";
+  operator: ConditionOperator;
   value?: string;
 }
 
+/**
+ * Conditions combined with AND ("all") or OR ("any"); groups may nest
+ */
+export interface ConditionGroup {
+  match: "all" | "any";
+  conditions: LabelCondition[];
+}
+
+/**
+ * Visibility condition for fields and static elements
+ */
+export type LabelCondition = FieldCondition | ConditionGroup;
+
 /**
  * Static element types
  */
@@ -178,6 +297,7 @@ export interface LabelElement {
   style: ElementStyle;
   
   visible?: boolean;
+  condition?: LabelCondition;
 }
 
 /**
@@ -203,72 +323,9 @@ export interface ElementStyle {
 }
 
 /**
- * Pre-defined label formats
+ * Key of a tenant label format (see LabelFormat), e.g. "avery-5160"
  */
-export const LABEL_FORMATS = {
-  // Avery formats
-  "avery-5160": {
-    name: "Avery 5160",
-    dimensions: { width: 66.7, height: 25.4, unit: "mm" as LabelUnit },
-    labelsPerSheet: 30,
-    columns: 3,
-    rows: 10,
-  },
-  "avery-5161": {
-    name: "Avery 5161",
-    dimensions: { width: 101.6, height: 25.4, unit: "mm" as LabelUnit },
-    labelsPerSheet: 20,
-    columns: 2,
-    rows: 10,
-  },
-  "avery-5163": {
-    name: "Avery 5163",
-    dimensions: { width: 101.6, height: 50.8, unit: "mm" as LabelUnit },
-    labelsPerSheet: 10,
-    columns: 2,
-    rows: 5,
-  },
-  "avery-5164": {
-    name: "Avery 5164",
-    dimensions: { width: 101.6, height: 88.9, unit: "mm" as LabelUnit },
-    labelsPerSheet: 6,
-    columns: 2,
-    rows: 3,
-  },
-  // DYMO formats
-  "dymo-30252": {
-    name: "DYMO 30252",
-    dimensions: { width: 89, height: 28, unit: "mm" as LabelUnit },
-    labelsPerSheet: 1,
-    columns: 1,
-    rows: 1,
-  },
-  "dymo-30336": {
-    name: "DYMO 30336",
-    dimensions: { width: 54, height: 25, unit: "mm" as LabelUnit },
-    labelsPerSheet: 1,
-    columns: 1,
-    rows: 1,
-  },
-  // Brother formats
-  "brother-dk2205": {
-    name: "Brother DK-2205",
-    dimensions: { width: 62, height: 30.48, unit: "mm" as LabelUnit },
-    labelsPerSheet: 1,
-    columns: 1,
-    rows: 1,
-  },
-  // Custom
-  "custom": {
-    name: "Custom",
-    dimensions: { width: 50, height: 25, unit: "mm" as LabelUnit },
-    labelsPerSheet: 1,
-    columns: 1,
-    rows: 1,
-  },
-} as const;
-
-export type LabelFormatId = keyof typeof LABEL_FORMATS;
+export type LabelFormatId = string;
 
 /**
  * Default text style
@@ -306,3 +363,37 @@ export const DEFAULT_QRCODE_STYLE: QRCodeStyle = {
   darkColor: "#000000",
   lightColor: "#ffffff",
 };
+
+/**
+ * Default DataMatrix style
+ */
+export const DEFAULT_DATAMATRIX_STYLE: DataMatrixStyle = {
+  shape: "square",
+  margin: 1,
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+};
+
+/**
+ * Default PDF417 style
+ */
+export const DEFAULT_PDF417_STYLE: PDF417Style = {
+  columns: 0,
+  errorCorrectionLevel: 2,
+  rowHeight: 3,
+  compact: false,
+  margin: 2,
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+};
+
+/**
+ * Default Aztec style
+ */
+export const DEFAULT_AZTEC_STYLE: AztecStyle = {
+  errorCorrectionPercent: 23,
+  format: "auto",
+  margin: 1,
+  darkColor: "#000000",
+  lightColor: "#ffffff",
+};
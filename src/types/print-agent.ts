@@ -1,3 +1,5 @@
+import type { TenantContext } from "./tenant";
+
 export const PRINT_DELIVERY_METHODS = {
   PDF: "pdf",
   AGENT: "agent",
@@ -51,6 +53,29 @@ export interface PrintAgent {
   createdAt: Date;
 }
 
+/**
+ * Correction for how a physical printer feeds and places labels, applied
+ * whenever a job is rendered for that printer. Offsets are millimetres on
+ * the printed label (positive moves content right and down), scale grows
+ * content from the label's top-left corner and rotation turns it clockwise
+ * about the label center. ZPL and EPL printers can only rotate by 180.
+ */
+export interface PrinterCalibration {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  rotation: number;
+  darkness?: number; // ZPL ~SD, 0-30
+  printSpeed?: number; // ZPL ^PR, inches per second
+}
+
+export const DEFAULT_PRINTER_CALIBRATION: PrinterCalibration = {
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  rotation: 0,
+};
+
 export interface PrintAgentPrinter {
   id: string;
   tenantId: string;
@@ -61,6 +86,7 @@ export interface PrintAgentPrinter {
   languages: PrinterLanguage[];
   dpi: number | null;
   isDefault: boolean;
+  calibration: PrinterCalibration | null;
 }
 
 export interface PrintDispatch {
@@ -69,6 +95,8 @@ export interface PrintDispatch {
   printJobId: string;
   agentId: string | null;
   printerId: string | null;
+  providerId: string | null;
+  remoteJobId: string | null;
   payloadFormat: PrinterLanguage;
   status: DispatchStatus;
   attempts: number;
@@ -96,10 +124,23 @@ export interface PrinterInfo {
 export interface ServerPrintCommand {
   type: "print";
   dispatchId: string;
+  printJobId: string;
+  printerName: string | null;
   format: PrinterLanguage;
   data: string;
 }
 
+export interface ServerRegisteredMessage {
+  type: "registered";
+  agentId: string;
+  printers: Array<{ id: string; name: string }>;
+}
+
+export interface ServerErrorMessage {
+  type: "error";
+  message: string;
+}
+
 export interface AgentStatusEvent {
   type: "status";
   dispatchId: string;
@@ -113,13 +154,24 @@ export interface AgentHeartbeat {
 }
 
 export type AgentMessage = AgentHelloMessage | AgentStatusEvent | AgentHeartbeat;
-export type ServerMessage = ServerPrintCommand | { type: "ping" };
+export type ServerMessage =
+  | ServerPrintCommand
+  | ServerRegisteredMessage
+  | ServerErrorMessage
+  | { type: "ping" };
+
+export interface AgentSocketData {
+  ctx: TenantContext;
+  agentId: string | null;
+}
 
 export interface CreateDispatchInput {
   printJobId: string;
   agentId: string;
-  printerId: string;
+  printerId: string | null;
   format: PrinterLanguage;
+  /** Queue for an offline agent instead of rejecting; it is sent when the agent reconnects */
+  allowOffline?: boolean;
 }
 
 export interface PrintAgentListResult {
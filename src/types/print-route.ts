@@ -0,0 +1,101 @@
+import type { PrintDispatch, PrinterLanguage } from "./print-agent";
+
+/**
+ * Operators available to print route conditions. Comparisons are case-insensitive.
+ */
+export const ROUTE_CONDITION_OPERATORS = {
+  EQ: "eq",
+  NEQ: "neq",
+  STARTS_WITH: "startsWith",
+  ENDS_WITH: "endsWith",
+  CONTAINS: "contains",
+  IN: "in",
+  EMPTY: "empty",
+  NOT_EMPTY: "notEmpty",
+} as const;
+
+export type RouteConditionOperator =
+  (typeof ROUTE_CONDITION_OPERATORS)[keyof typeof ROUTE_CONDITION_OPERATORS];
+
+/**
+ * A single check against an asset field, e.g. `location startsWith "DC2"`
+ */
+export interface PrintRouteCondition {
+  field: string;
+  operator: RouteConditionOperator;
+  value?: string;
+}
+
+/**
+ * Match criteria stored in `print_routes.match`.
+ * A route matches a print job when the template is allowed and every asset satisfies all conditions.
+ */
+export interface PrintRouteMatch {
+  conditions: PrintRouteCondition[];
+  templateIds?: string[];
+}
+
+/**
+ * Target stored in `print_routes.destination`.
+ * Printers are referenced by name so routes survive agents re-registering their printers.
+ */
+export interface PrintRouteDestination {
+  agentId: string;
+  printerName?: string;
+  format: PrinterLanguage;
+}
+
+export interface PrintRoute {
+  id: string;
+  tenantId: string;
+  name: string;
+  match: PrintRouteMatch;
+  destination: PrintRouteDestination;
+  priority: number; // lower values are checked first, unlike background jobs
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface CreatePrintRouteInput {
+  name: string;
+  match: PrintRouteMatch;
+  destination: PrintRouteDestination;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export interface UpdatePrintRouteInput {
+  name?: string;
+  match?: PrintRouteMatch;
+  destination?: PrintRouteDestination;
+  priority?: number;
+  isActive?: boolean;
+}
+
+/**
+ * Input for the rule tester: either existing assets or an ad-hoc sample asset
+ */
+export interface TestPrintRoutesInput {
+  templateId?: string;
+  assetIds?: string[];
+  sampleAsset?: Record<string, unknown>;
+}
+
+export interface PrintRouteEvaluation {
+  routeId: string;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  matched: boolean;
+  reason: string | null;
+}
+
+export interface TestPrintRoutesResult {
+  matchedRoute: PrintRoute | null;
+  evaluations: PrintRouteEvaluation[];
+}
+
+export interface PrintRoutingResult {
+  route: PrintRoute;
+  dispatch: PrintDispatch;
+}
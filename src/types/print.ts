@@ -1,4 +1,8 @@
-import type { LabelFormatId, LabelSpec } from "./label-spec";
+import type { LabelFormatId, LabelSpec, TextOverflowMode } from "./label-spec";
+import type { LabelFormat } from "./label-format";
+import type { PrinterCalibration, PrinterLanguage } from "./print-agent";
+import type { DateFormatSettings } from "./tenant";
+import type { RenderFont } from "./font";
 
 /**
  * Print job status values
@@ -19,6 +23,7 @@ export type PrintJobStatus = (typeof PRINT_JOB_STATUS)[keyof typeof PRINT_JOB_ST
 export const PRINT_OUTPUT_FORMAT = {
   PDF: "pdf",
   PNG: "png",
+  SVG: "svg",
 } as const;
 
 export type PrintOutputFormat = (typeof PRINT_OUTPUT_FORMAT)[keyof typeof PRINT_OUTPUT_FORMAT];
@@ -67,6 +72,10 @@ export interface PrintOptions {
   useSheetLayout: boolean;
   paperSize?: string; // "letter" | "a4" | custom
   
+  // Partially used first sheet: zero-based slots, numbered row by row
+  startPosition?: number;
+  skipPositions?: number[];
+  
   // Quality settings
   dpi: number;
   
@@ -113,6 +122,8 @@ export interface PrintJob {
   // Output
   outputUrl: string | null;
   outputSize: number | null; // bytes
+  outputMime: string | null;
+  outputStorageKey: string | null;
   
   // Audit
   createdBy: string;
@@ -179,6 +190,67 @@ export interface RenderResult {
   mimeType: string;
   filename: string;
   pageCount: number;
+  textOverflow?: TextOverflowReport[];
+}
+
+/**
+ * A text field whose content did not fit and was shortened
+ */
+export interface TextOverflowReport {
+  assetId: string;
+  fieldId: string;
+  mode: TextOverflowMode;
+}
+
+/**
+ * Problems a preflight check finds before rendering
+ */
+export const PREFLIGHT_ISSUE_CODES = {
+  BARCODE_LENGTH: "barcode_length",
+  BARCODE_CHECK_DIGIT: "barcode_check_digit",
+  BARCODE_INVALID: "barcode_invalid",
+  QR_CAPACITY: "qr_capacity",
+  EMPTY_BINDING: "empty_binding",
+  TEXT_OVERFLOW: "text_overflow",
+  MISSING_FONT: "missing_font",
+  OUT_OF_BOUNDS: "out_of_bounds",
+  UNSUPPORTED_OUTPUT: "unsupported_output",
+} as const;
+
+export type PreflightIssueCode = (typeof PREFLIGHT_ISSUE_CODES)[keyof typeof PREFLIGHT_ISSUE_CODES];
+
+/**
+ * Errors print wrong or fail the job; warnings print with shortened,
+ * clipped or substituted content
+ */
+export type PreflightSeverity = "error" | "warning";
+
+export interface PreflightIssue {
+  assetId: string;
+  assetTag: string;
+  fieldId: string;
+  code: PreflightIssueCode;
+  severity: PreflightSeverity;
+  message: string;
+}
+
+/**
+ * Per-asset, per-field problems for a template and a set of assets
+ */
+export interface PreflightReport {
+  templateId: string;
+  assetCount: number;
+  issues: PreflightIssue[];
+  blockedAssetIds: string[]; // assets with at least one error
+}
+
+/**
+ * Previously rendered output loaded from storage
+ */
+export interface StoredPrintOutput {
+  buffer: Buffer;
+  mimeType: string;
+  filename: string;
 }
 
 /**
@@ -188,6 +260,19 @@ export interface RenderRequest {
   spec: LabelSpec;
   assets: RenderAssetData[];
   options: PrintOptions;
+  dates?: DateFormatSettings; // tenant settings; UTC and YYYY-MM-DD when omitted
+  fonts?: RenderFont[]; // tenant fonts the spec uses; standard fonts otherwise
+  labelFormat?: LabelFormat | null; // the template's stock, for sheet layout
+  calibration?: PrinterCalibration | null; // the target printer's correction
+}
+
+/**
+ * Printer target for rendering a job in a printer's native language
+ */
+export interface RenderTarget {
+  language: PrinterLanguage;
+  dpi?: number | null;
+  calibration?: PrinterCalibration | null;
 }
 
 /**
@@ -0,0 +1,50 @@
+export const STORAGE_DRIVERS = {
+  LOCAL: "local",
+  S3: "s3",
+} as const;
+
+export type StorageDriverType = (typeof STORAGE_DRIVERS)[keyof typeof STORAGE_DRIVERS];
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  filename?: string;
+  contentType?: string;
+}
+
+export interface SignedDownload {
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Backend that persists rendered output by key. Keys are forward-slash paths
+ * scoped by tenant, e.g. `tenants/<id>/print-jobs/<jobId>/labels.pdf`.
+ */
+export interface StorageDriver {
+  readonly type: StorageDriverType;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+export interface LocalStorageConfig {
+  rootDir: string;
+  signingSecret: string;
+  downloadPath: string;
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
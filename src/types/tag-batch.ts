@@ -0,0 +1,61 @@
+import type { EquipmentCategory } from "./asset";
+
+export const RESERVED_TAG_STATUS = {
+  RESERVED: "reserved",
+  CLAIMED: "claimed",
+  VOIDED: "voided",
+} as const;
+
+export type ReservedTagStatus = (typeof RESERVED_TAG_STATUS)[keyof typeof RESERVED_TAG_STATUS];
+
+/** Asset values the category's tag pattern reads, e.g. the site for {site} */
+export interface TagBatchValues {
+  location?: string;
+  department?: string;
+  customFields?: Record<string, string>;
+}
+
+/**
+ * Tags reserved ahead of time so they can be printed and applied before
+ * the asset is registered. Entering a reserved tag on a new asset claims it.
+ */
+export interface TagBatch {
+  id: string;
+  tenantId: string;
+  name: string;
+  category: EquipmentCategory;
+  pattern: string; // the category's pattern when the batch was reserved
+  quantity: number;
+  values: TagBatchValues;
+  counts: Record<ReservedTagStatus, number>;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface ReservedTag {
+  id: string;
+  tenantId: string;
+  batchId: string;
+  tag: string;
+  status: ReservedTagStatus;
+  assetId: string | null;
+  claimedAt: Date | null;
+  voidedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface TagBatchDetail extends TagBatch {
+  tags: ReservedTag[];
+}
+
+export interface CreateTagBatchInput {
+  name?: string; // defaults to the first and last tag
+  category: EquipmentCategory;
+  quantity: number;
+  values?: TagBatchValues;
+}
+
+export interface ReservedTagLookup {
+  tag: ReservedTag;
+  batchName: string;
+}
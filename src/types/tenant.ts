@@ -1,4 +1,5 @@
 import type { Permission } from "./permissions";
+import { DEFAULT_LABEL_FORMAT_KEY } from "./label-format";
 
 /**
  * Tenant represents an organization using the system
@@ -28,8 +29,13 @@ export interface TenantSettings {
   };
 }
 
+/**
+ * Tenant date settings applied when a label prints a date
+ */
+export type DateFormatSettings = Pick<TenantSettings, "timezone" | "dateFormat">;
+
 export const DEFAULT_TENANT_SETTINGS: TenantSettings = {
-  defaultLabelFormat: "avery-5160",
+  defaultLabelFormat: DEFAULT_LABEL_FORMAT_KEY,
   timezone: "UTC",
   dateFormat: "YYYY-MM-DD",
 };
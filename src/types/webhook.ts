@@ -112,3 +112,7 @@ export interface WebhookSubscriptionListResult {
   page: number;
   pageSize: number;
 }
+
+export interface WebhookSchedulerOptions {
+  intervalMs?: number;
+}
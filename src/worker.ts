@@ -0,0 +1,34 @@
+import { hostname } from "node:os";
+
+import { registerDefaultJobHandlers } from "@/services/job-handlers";
+import { startJobWorker } from "@/services/job-worker";
+import { startWebhookScheduler } from "@/services/webhook-scheduler";
+
+import type { JobType } from "@/types/background-job";
+
+registerDefaultJobHandlers();
+
+const types = process.env.WORKER_JOB_TYPES
+  ? (process.env.WORKER_JOB_TYPES.split(",").map((t) => t.trim()).filter(Boolean) as JobType[])
+  : undefined;
+
+const worker = startJobWorker({
+  instanceId: process.env.WORKER_INSTANCE_ID ?? `${hostname()}:${process.pid}`,
+  pollMs: Number(process.env.WORKER_POLL_MS) || undefined,
+  concurrency: Number(process.env.WORKER_CONCURRENCY) || undefined,
+  types,
+});
+
+const webhookScheduler = startWebhookScheduler({
+  intervalMs: Number(process.env.WEBHOOK_SCHEDULER_INTERVAL_MS) || undefined,
+});
+
+async function shutdown(signal: string) {
+  console.log(`[JOB_WORKER] Received ${signal}, shutting down`);
+  webhookScheduler.stop();
+  await worker.stop();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));